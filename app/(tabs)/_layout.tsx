@@ -104,6 +104,20 @@ export default function TabLayout() {
           title: 'Marketing ROI',
         }}
       />
+      <Tabs.Screen
+        name="calculators/cohorts"
+        options={{
+          href: null,
+          title: 'Cohorts',
+        }}
+      />
+      <Tabs.Screen
+        name="calculators/valuation"
+        options={{
+          href: null,
+          title: 'Valuation',
+        }}
+      />
     </Tabs>
   );
 }
@@ -5,6 +5,7 @@ import { LinearGradient } from 'expo-linear-gradient';
 import {
     GlassCard,
     GradientButton,
+    OutlineButton,
     SectionHeading,
     Badge,
 } from '@/components/landing/shared-components';
@@ -12,8 +13,63 @@ import { IconLabel } from '@/components/ui/icon-label';
 import { router } from 'expo-router';
 import { BreakEvenCalculator } from '@/lib/infrastructure/calculators/BreakEvenCalculator';
 import { useTranslation } from '@/lib/i18n-context';
+import { useReportingCurrency } from '@/hooks/use-reporting-currency';
+import { Money } from '@/lib/domain/value-objects/Money';
 import { LanguageSelector } from '@/components/language-selector';
 import { generateBreakEvenPDF, printPDF } from '@/lib/export/pdf-generator';
+import { buildBreakEvenWorkbook } from '@/lib/export/xlsx-workbooks';
+import { exportXlsx } from '@/lib/export/xlsx-export';
+import { applyBreakEvenTemplate } from '@/lib/templates/business-templates';
+
+type BreakEvenMode = 'single' | 'mix';
+
+interface ProductRow {
+    name: string;
+    price: string;
+    variable: string;
+    share: string;
+}
+
+interface StepRow {
+    threshold: string;
+    amount: string;
+}
+
+const MIX_TEMPLATES = ['restaurant', 'retail'];
+
+function Chip({ label, active, onPress }: { label: string; active: boolean; onPress: () => void }) {
+    return (
+        <Pressable
+            onPress={onPress}
+            className={`flex-1 py-2 rounded-lg border ${active ? 'bg-white border-white' : 'bg-slate-800 border-white/10'}`}
+        >
+            <Text className={`text-center text-xs font-semibold ${active ? 'text-black' : 'text-gray-300'}`}>{label}</Text>
+        </Pressable>
+    );
+}
+
+function SmallInput({ value, onChange, placeholder, numeric = true }: {
+    value: string; onChange: (val: string) => void; placeholder?: string; numeric?: boolean;
+}) {
+    return (
+        <TextInput
+            className="flex-1 bg-slate-800 rounded-lg border border-white/10 px-3 py-2 text-white"
+            value={value}
+            onChangeText={onChange}
+            placeholder={placeholder}
+            placeholderTextColor="#6b7280"
+            keyboardType={numeric ? 'numeric' : 'default'}
+        />
+    );
+}
+
+function RemoveButton({ onPress }: { onPress: () => void }) {
+    return (
+        <Pressable onPress={onPress} className="p-2">
+            <Ionicons name="close-circle" size={20} color="#9ca3af" />
+        </Pressable>
+    );
+}
 
 // INPUT FIELD COMPONENT
 function InputField({
@@ -189,11 +245,21 @@ function Recommendations({ items }: { items: string[] }) {
 // MAIN PAGE
 export default function BreakEvenPage() {
     const { t } = useTranslation();
+    const { currency } = useReportingCurrency();
+    const currencySymbol = Money.symbolFor(currency);
     const [exporting, setExporting] = useState(false);
+    const [exportingXlsx, setExportingXlsx] = useState(false);
     const [fixedCosts, setFixedCosts] = useState('10000');
     const [pricePerUnit, setPricePerUnit] = useState('50');
     const [variableCost, setVariableCost] = useState('25');
     const [currentSales, setCurrentSales] = useState('');
+    const [mode, setMode] = useState<BreakEvenMode>('single');
+    const [products, setProducts] = useState<ProductRow[]>([
+        { name: '', price: '50', variable: '25', share: '60' },
+        { name: '', price: '20', variable: '8', share: '40' },
+    ]);
+    const [steps, setSteps] = useState<StepRow[]>([]);
+    const [targetProfit, setTargetProfit] = useState('');
 
     const calculator = useMemo(() => new BreakEvenCalculator(), []);
 
@@ -203,27 +269,93 @@ export default function BreakEvenPage() {
             const price = parseFloat(pricePerUnit) || 0;
             const variable = parseFloat(variableCost) || 0;
             const current = currentSales ? parseInt(currentSales) : undefined;
+            const target = parseFloat(targetProfit);
+            const stepFixedCosts = steps
+                .map((step) => ({ thresholdUnits: parseFloat(step.threshold), amount: parseFloat(step.amount) }))
+                .filter((step) => step.thresholdUnits >= 0 && step.amount > 0);
+            const shared = {
+                fixedCosts: fixed,
+                currentSalesUnits: current,
+                stepFixedCosts,
+                targetProfit: target > 0 ? target : undefined,
+            };
 
-            if (fixed <= 0 || price <= 0 || variable <= 0 || price <= variable) {
+            if (fixed <= 0) return null;
+
+            if (mode === 'mix') {
+                const mix = products
+                    .map((row, i) => ({
+                        name: row.name.trim() || t('calculators.break_even.mix.product_n', { n: String(i + 1) }),
+                        pricePerUnit: parseFloat(row.price),
+                        variableCostPerUnit: parseFloat(row.variable) || 0,
+                        mixShare: parseFloat(row.share),
+                    }))
+                    .filter((row) => row.pricePerUnit > 0 && row.mixShare > 0);
+
+                if (mix.length === 0) return null;
+
+                return calculator.calculate({ ...shared, products: mix });
+            }
+
+            if (price <= 0 || variable <= 0 || price <= variable) {
                 return null;
             }
 
             return calculator.calculate({
-                fixedCosts: fixed,
+                ...shared,
                 pricePerUnit: price,
                 variableCostPerUnit: variable,
-                currentSalesUnits: current,
             });
         } catch {
             return null;
         }
-    }, [fixedCosts, pricePerUnit, variableCost, currentSales, calculator]);
+    }, [fixedCosts, pricePerUnit, variableCost, currentSales, mode, products, steps, targetProfit, calculator, t]);
+
+    // Per-unit figures of the whole mix, used where a single price is expected
+    const effectivePrice = result?.salesMix ? result.salesMix.weightedPrice : parseFloat(pricePerUnit) || 0;
+    const effectiveVariableCost = result?.salesMix ? result.salesMix.weightedVariableCost : parseFloat(variableCost) || 0;
+
+    const updateProduct = (index: number, field: keyof ProductRow, value: string) => {
+        setProducts(products.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+    };
+
+    const updateStep = (index: number, field: keyof StepRow, value: string) => {
+        setSteps(steps.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+    };
+
+    const loadTemplate = (templateId: string) => {
+        const input = applyBreakEvenTemplate(templateId, {}, { salesMix: true });
+        setFixedCosts(String(input.fixedCosts));
+        setProducts((input.products ?? []).map((product) => ({
+            name: product.name,
+            price: String(product.pricePerUnit),
+            variable: String(product.variableCostPerUnit),
+            share: String(product.mixShare),
+        })));
+    };
 
     const recommendations = useMemo(() => {
         if (!result) return [];
 
         const recs: string[] = [];
 
+        if (result.salesMix) {
+            const weakest = [...result.salesMix.products]
+                .sort((a, b) => a.contributionMarginRatio - b.contributionMarginRatio)[0];
+            if (weakest.contributionMarginRatio < 30) {
+                recs.push(t('calculators.break_even.recommendations.weak_product', {
+                    name: weakest.name,
+                    percent: weakest.contributionMarginRatio.toFixed(1),
+                }));
+            }
+        }
+
+        if (result.fixedCostsAtBreakEven > (parseFloat(fixedCosts) || 0)) {
+            recs.push(t('calculators.break_even.recommendations.step_costs', {
+                amount: `${currencySymbol}${Math.round(result.fixedCostsAtBreakEven - (parseFloat(fixedCosts) || 0)).toLocaleString()}`,
+            }));
+        }
+
         if (result.marginOfSafety !== null) {
             if (result.isAboveBreakEven) {
                 recs.push(t('calculators.break_even.recommendations.above_break_even', {
@@ -261,7 +393,7 @@ export default function BreakEvenPage() {
         recs.push(t('calculators.break_even.recommendations.monitor_costs'));
 
         return recs;
-    }, [result, fixedCosts, t]);
+    }, [result, fixedCosts, currencySymbol, t]);
 
     const handleExportPDF = async () => {
         if (!result) return;
@@ -269,10 +401,11 @@ export default function BreakEvenPage() {
         setExporting(true);
         try {
             const html = generateBreakEvenPDF({
+                currency,
                 inputs: {
                     fixedCosts: parseFloat(fixedCosts) || 0,
-                    pricePerUnit: parseFloat(pricePerUnit) || 0,
-                    variableCostPerUnit: parseFloat(variableCost) || 0,
+                    pricePerUnit: effectivePrice,
+                    variableCostPerUnit: effectiveVariableCost,
                     currentSalesUnits: currentSales ? parseInt(currentSales) : undefined,
                 },
                 results: {
@@ -292,6 +425,25 @@ export default function BreakEvenPage() {
         }
     };
 
+    const handleExportXlsx = async () => {
+        if (!result || exportingXlsx) return;
+
+        setExportingXlsx(true);
+        try {
+            await exportXlsx(buildBreakEvenWorkbook({
+                fixedCosts: parseFloat(fixedCosts) || 0,
+                pricePerUnit: effectivePrice,
+                variableCostPerUnit: effectiveVariableCost,
+                currentSalesUnits: currentSales ? parseInt(currentSales) : undefined,
+            }), 'break-even');
+        } catch (error) {
+            console.error('Error exporting workbook:', error);
+            Alert.alert(t('common.error'), t('xlsx_export.error'));
+        } finally {
+            setExportingXlsx(false);
+        }
+    };
+
     const isSmall = Dimensions.get('window').width < 600;
 
     return (
@@ -331,25 +483,91 @@ export default function BreakEvenPage() {
                                 label={t('calculators.break_even.fixed_costs')}
                                 value={fixedCosts}
                                 onChange={setFixedCosts}
-                                prefix="$"
+                                prefix={currencySymbol}
                                 hint={t('calculators.break_even.fixed_costs_hint')}
                             />
 
-                            <InputField
-                                label={t('calculators.break_even.unit_price')}
-                                value={pricePerUnit}
-                                onChange={setPricePerUnit}
-                                prefix="$"
-                                hint={t('calculators.break_even.unit_price_hint')}
-                            />
+                            <View className="flex-row gap-2 mb-4">
+                                {(['single', 'mix'] as BreakEvenMode[]).map((option) => (
+                                    <Chip
+                                        key={option}
+                                        label={t(`calculators.break_even.mix.mode_${option}`)}
+                                        active={mode === option}
+                                        onPress={() => setMode(option)}
+                                    />
+                                ))}
+                            </View>
+
+                            {mode === 'single' ? (
+                                <>
+                                    <InputField
+                                        label={t('calculators.break_even.unit_price')}
+                                        value={pricePerUnit}
+                                        onChange={setPricePerUnit}
+                                        prefix={currencySymbol}
+                                        hint={t('calculators.break_even.unit_price_hint')}
+                                    />
 
-                            <InputField
-                                label={t('calculators.break_even.variable_cost')}
-                                value={variableCost}
-                                onChange={setVariableCost}
-                                prefix="$"
-                                hint={t('calculators.break_even.variable_cost_hint')}
-                            />
+                                    <InputField
+                                        label={t('calculators.break_even.variable_cost')}
+                                        value={variableCost}
+                                        onChange={setVariableCost}
+                                        prefix={currencySymbol}
+                                        hint={t('calculators.break_even.variable_cost_hint')}
+                                    />
+                                </>
+                            ) : (
+                                <View className="mb-4 gap-2">
+                                    <Text className="text-gray-300 font-medium">{t('calculators.break_even.mix.products')}</Text>
+                                    <View className="flex-row gap-2">
+                                        {MIX_TEMPLATES.map((templateId) => (
+                                            <Pressable
+                                                key={templateId}
+                                                onPress={() => loadTemplate(templateId)}
+                                                className="px-3 py-1 rounded-full border border-white/10 bg-slate-800"
+                                            >
+                                                <Text className="text-gray-300 text-xs">
+                                                    {t('calculators.break_even.mix.load_template', { name: t(`calculators.break_even.mix.template_${templateId}`) })}
+                                                </Text>
+                                            </Pressable>
+                                        ))}
+                                    </View>
+                                    {products.map((row, i) => (
+                                        <View key={i} className="gap-2 pb-2 border-b border-white/5">
+                                            <View className="flex-row items-center gap-2">
+                                                <SmallInput
+                                                    value={row.name}
+                                                    onChange={(value) => updateProduct(i, 'name', value)}
+                                                    placeholder={t('calculators.break_even.mix.product_n', { n: String(i + 1) })}
+                                                    numeric={false}
+                                                />
+                                                <RemoveButton onPress={() => setProducts(products.filter((_, index) => index !== i))} />
+                                            </View>
+                                            <View className="flex-row gap-2">
+                                                <SmallInput
+                                                    value={row.price}
+                                                    onChange={(value) => updateProduct(i, 'price', value)}
+                                                    placeholder={`${currencySymbol} ${t('calculators.break_even.mix.price')}`}
+                                                />
+                                                <SmallInput
+                                                    value={row.variable}
+                                                    onChange={(value) => updateProduct(i, 'variable', value)}
+                                                    placeholder={`${currencySymbol} ${t('calculators.break_even.mix.variable_cost')}`}
+                                                />
+                                                <SmallInput
+                                                    value={row.share}
+                                                    onChange={(value) => updateProduct(i, 'share', value)}
+                                                    placeholder={t('calculators.break_even.mix.share')}
+                                                />
+                                            </View>
+                                        </View>
+                                    ))}
+                                    <Pressable onPress={() => setProducts([...products, { name: '', price: '', variable: '', share: '' }])}>
+                                        <Text className="text-[#14B8A6] text-sm font-semibold">+ {t('calculators.break_even.mix.add_product')}</Text>
+                                    </Pressable>
+                                    <Text className="text-gray-400 text-xs">{t('calculators.break_even.mix.share_hint')}</Text>
+                                </View>
+                            )}
 
                             <InputField
                                 label={t('calculators.break_even.current_sales')}
@@ -358,6 +576,37 @@ export default function BreakEvenPage() {
                                 suffix={t('calculators.units')}
                                 hint={t('calculators.break_even.current_sales_hint')}
                             />
+
+                            <InputField
+                                label={t('calculators.break_even.target_profit')}
+                                value={targetProfit}
+                                onChange={setTargetProfit}
+                                prefix={currencySymbol}
+                                hint={t('calculators.break_even.target_profit_hint')}
+                            />
+
+                            <View className="gap-2">
+                                <Text className="text-gray-300 font-medium">{t('calculators.break_even.step_costs')}</Text>
+                                {steps.map((row, i) => (
+                                    <View key={i} className="flex-row items-center gap-2">
+                                        <SmallInput
+                                            value={row.threshold}
+                                            onChange={(value) => updateStep(i, 'threshold', value)}
+                                            placeholder={t('calculators.break_even.step_threshold')}
+                                        />
+                                        <SmallInput
+                                            value={row.amount}
+                                            onChange={(value) => updateStep(i, 'amount', value)}
+                                            placeholder={`${currencySymbol} ${t('calculators.break_even.step_amount')}`}
+                                        />
+                                        <RemoveButton onPress={() => setSteps(steps.filter((_, index) => index !== i))} />
+                                    </View>
+                                ))}
+                                <Pressable onPress={() => setSteps([...steps, { threshold: '', amount: '' }])}>
+                                    <Text className="text-[#14B8A6] text-sm font-semibold">+ {t('calculators.break_even.add_step')}</Text>
+                                </Pressable>
+                                <Text className="text-gray-400 text-xs">{t('calculators.break_even.step_costs_hint')}</Text>
+                            </View>
                         </GlassCard>
                     </View>
 
@@ -378,14 +627,14 @@ export default function BreakEvenPage() {
                                     <View className={`${isSmall ? 'gap-3' : 'flex-row flex-wrap gap-4'}`}>
                                         <ResultCard
                                             label={t('calculators.break_even.break_even_revenue')}
-                                            value={`$${result.breakEvenRevenue.toLocaleString()}`}
+                                            value={`${currencySymbol}${result.breakEvenRevenue.toLocaleString()}`}
                                             icon="money"
                                             color="emerald"
                                         />
 
                                         <ResultCard
                                             label={t('calculators.break_even.contribution_margin')}
-                                            value={result.contributionMarginPerUnit != null ? `$${result.contributionMarginPerUnit.toFixed(2)}` : '$0.00'}
+                                            value={result.contributionMarginPerUnit != null ? `${currencySymbol}${result.contributionMarginPerUnit.toFixed(2)}` : `${currencySymbol}0.00`}
                                             icon="chart"
                                             color="amber"
                                         />
@@ -409,12 +658,64 @@ export default function BreakEvenPage() {
                                     </GlassCard>
                                 )}
 
+                                {/* Target profit */}
+                                {result.target && (
+                                    <GlassCard>
+                                        <View className="flex-row items-center gap-2 mb-3">
+                                            <IconLabel icon="target" size={18} />
+                                            <Text className="text-white font-semibold">
+                                                {t('calculators.break_even.target_title', { profit: `${currencySymbol}${result.target.profit.toLocaleString()}` })}
+                                            </Text>
+                                        </View>
+                                        <View className="flex-row gap-6">
+                                            <View>
+                                                <Text className="text-gray-400 text-xs">{t('calculators.break_even.target_units')}</Text>
+                                                <Text className="text-white text-xl font-bold">{result.target.units.toLocaleString()}</Text>
+                                            </View>
+                                            <View>
+                                                <Text className="text-gray-400 text-xs">{t('calculators.break_even.target_revenue')}</Text>
+                                                <Text className="text-white text-xl font-bold">{currencySymbol}{result.target.revenue.toLocaleString()}</Text>
+                                            </View>
+                                        </View>
+                                    </GlassCard>
+                                )}
+
+                                {/* Sales mix */}
+                                {result.salesMix && (
+                                    <GlassCard>
+                                        <View className="flex-row items-center justify-between mb-3">
+                                            <Text className="text-white font-semibold">{t('calculators.break_even.mix.by_product')}</Text>
+                                            <Badge variant="default">
+                                                {`${t('calculators.break_even.mix.weighted_margin')}: ${result.contributionMarginRatio.toFixed(1)}%`}
+                                            </Badge>
+                                        </View>
+                                        <View className="flex-row pb-2 border-b border-white/10">
+                                            <Text className="flex-[2] text-gray-400 text-xs">{t('calculators.break_even.mix.product')}</Text>
+                                            <Text className="flex-1 text-gray-400 text-xs text-right">{t('calculators.break_even.mix.share')}</Text>
+                                            <Text className="flex-1 text-gray-400 text-xs text-right">{t('calculators.break_even.mix.margin')}</Text>
+                                            <Text className="flex-1 text-gray-400 text-xs text-right">{t('calculators.units')}</Text>
+                                            <Text className="flex-1 text-gray-400 text-xs text-right">{t('calculators.break_even.mix.revenue')}</Text>
+                                        </View>
+                                        {result.salesMix.products.map((product, i) => (
+                                            <View key={i} className="flex-row py-2 border-b border-white/5">
+                                                <Text className="flex-[2] text-white text-sm" numberOfLines={1}>{product.name}</Text>
+                                                <Text className="flex-1 text-gray-300 text-sm text-right">{product.mixShare.toFixed(0)}%</Text>
+                                                <Text className={`flex-1 text-sm text-right ${product.contributionMarginPerUnit > 0 ? 'text-emerald-400' : 'text-rose-400'}`}>
+                                                    {product.contributionMarginRatio.toFixed(0)}%
+                                                </Text>
+                                                <Text className="flex-1 text-white text-sm text-right">{product.breakEvenUnits.toLocaleString()}</Text>
+                                                <Text className="flex-1 text-white text-sm text-right">{currencySymbol}{Math.round(product.breakEvenRevenue).toLocaleString()}</Text>
+                                            </View>
+                                        ))}
+                                    </GlassCard>
+                                )}
+
                                 {/* Chart */}
                                 <BreakEvenChart
                                     breakEvenUnits={result.breakEvenUnits}
                                     currentUnits={currentSales ? parseInt(currentSales) : null}
-                                    pricePerUnit={parseFloat(pricePerUnit)}
-                                    variableCost={parseFloat(variableCost)}
+                                    pricePerUnit={effectivePrice}
+                                    variableCost={effectiveVariableCost}
                                     fixedCosts={parseFloat(fixedCosts)}
                                 />
 
@@ -429,6 +730,10 @@ export default function BreakEvenPage() {
                                 >
                                     📄 {exporting ? t('common.exporting') : t('calculators.export_pdf')}
                                 </GradientButton>
+
+                                <OutlineButton onPress={handleExportXlsx}>
+                                    📊 {exportingXlsx ? t('common.exporting') : t('xlsx_export.button')}
+                                </OutlineButton>
                             </>
                         ) : (
                             <GlassCard className={`items-center ${isSmall ? 'py-6' : 'py-12'}`}>
@@ -4,6 +4,7 @@ import { Ionicons } from '@expo/vector-icons';
 import {
     GlassCard,
     GradientButton,
+    OutlineButton,
     SectionHeading,
     Badge,
 } from '@/components/landing/shared-components';
@@ -11,8 +12,89 @@ import { IconLabel } from '@/components/ui/icon-label';
 import { router } from 'expo-router';
 import { CashFlowForecastCalculator } from '@/lib/infrastructure/calculators/CashFlowForecastCalculator';
 import { useTranslation } from '@/lib/i18n-context';
+import { useReportingCurrency } from '@/hooks/use-reporting-currency';
+import { Money } from '@/lib/domain/value-objects/Money';
 import { LanguageSelector } from '@/components/language-selector';
 import { generateCashFlowPDF, printPDF } from '@/lib/export/pdf-generator';
+import { buildCashFlowForecastWorkbook } from '@/lib/export/xlsx-workbooks';
+import { exportXlsx } from '@/lib/export/xlsx-export';
+import { CashFlowChart } from '@/components/business/cash-flow-chart';
+import type { PaymentTermBucket, RecurringPaymentFrequency, WeeklyCashEvent } from '@/types/project';
+
+type ForecastHorizon = 'monthly' | 'weekly';
+
+interface TermRow {
+    days: string;
+    share: string;
+}
+
+interface RecurringRow {
+    label: string;
+    amount: string;
+    frequency: RecurringPaymentFrequency;
+    day: string;
+}
+
+interface EventRow {
+    week: string;
+    amount: string;
+}
+
+const FREQUENCIES: RecurringPaymentFrequency[] = ['weekly', 'biweekly', 'monthly', 'quarterly'];
+
+function Chip({ label, active, onPress }: { label: string; active: boolean; onPress: () => void }) {
+    return (
+        <Pressable
+            onPress={onPress}
+            className={`flex-1 py-2 rounded-lg border ${active ? 'bg-white border-white' : 'bg-slate-800 border-white/10'}`}
+        >
+            <Text className={`text-center text-xs font-semibold ${active ? 'text-black' : 'text-gray-300'}`}>{label}</Text>
+        </Pressable>
+    );
+}
+
+function SmallInput({ value, onChange, placeholder, numeric = true }: {
+    value: string; onChange: (val: string) => void; placeholder?: string; numeric?: boolean;
+}) {
+    return (
+        <TextInput
+            className="flex-1 bg-slate-800 rounded-lg border border-white/10 px-3 py-2 text-white"
+            value={value}
+            onChangeText={onChange}
+            placeholder={placeholder}
+            placeholderTextColor="#6b7280"
+            keyboardType={numeric ? 'numeric' : 'default'}
+        />
+    );
+}
+
+function RemoveButton({ onPress }: { onPress: () => void }) {
+    return (
+        <Pressable onPress={onPress} className="p-2">
+            <Ionicons name="close-circle" size={20} color="#9ca3af" />
+        </Pressable>
+    );
+}
+
+function AddRowButton({ label, onPress }: { label: string; onPress: () => void }) {
+    return (
+        <Pressable onPress={onPress}>
+            <Text className="text-[#14B8A6] text-sm font-semibold">+ {label}</Text>
+        </Pressable>
+    );
+}
+
+function toTerms(rows: TermRow[]): PaymentTermBucket[] {
+    return rows
+        .map((row) => ({ days: parseFloat(row.days) || 0, share: parseFloat(row.share) || 0 }))
+        .filter((row) => row.share > 0);
+}
+
+function toEvents(rows: EventRow[]): WeeklyCashEvent[] {
+    return rows
+        .map((row) => ({ week: parseInt(row.week), amount: parseFloat(row.amount) || 0 }))
+        .filter((row) => row.week > 0 && row.amount > 0);
+}
 
 function InputField({
     label,
@@ -124,11 +206,30 @@ function AlertsPanel({ alerts }: { alerts?: string[] }) {
 
 export default function CashFlowPage() {
     const { t } = useTranslation();
+    const { currency } = useReportingCurrency();
+    const currencySymbol = Money.symbolFor(currency);
     const [exporting, setExporting] = useState(false);
+    const [exportingXlsx, setExportingXlsx] = useState(false);
     const [startingCash, setStartingCash] = useState('50000');
     const [monthlyRevenue, setMonthlyRevenue] = useState('30000');
     const [monthlyExpenses, setMonthlyExpenses] = useState('25000');
     const [expectedGrowth, setExpectedGrowth] = useState('5');
+    const [horizon, setHorizon] = useState<ForecastHorizon>('monthly');
+    const [weeklySales, setWeeklySales] = useState('8000');
+    const [weeklyPurchases, setWeeklyPurchases] = useState('3000');
+    const [cashBuffer, setCashBuffer] = useState('10000');
+    const [collectionRows, setCollectionRows] = useState<TermRow[]>([
+        { days: '0', share: '40' },
+        { days: '30', share: '60' },
+    ]);
+    const [paymentRows, setPaymentRows] = useState<TermRow[]>([{ days: '30', share: '100' }]);
+    const [recurringRows, setRecurringRows] = useState<RecurringRow[]>([
+        { label: t('calculators.cash_flow.weekly.payroll'), amount: '6000', frequency: 'biweekly', day: '' },
+        { label: t('calculators.cash_flow.weekly.rent'), amount: '3000', frequency: 'monthly', day: '1' },
+        { label: t('calculators.cash_flow.weekly.taxes'), amount: '4000', frequency: 'quarterly', day: '20' },
+    ]);
+    const [receivableRows, setReceivableRows] = useState<EventRow[]>([]);
+    const [expenseRows, setExpenseRows] = useState<EventRow[]>([]);
 
     const calculator = useMemo(() => new CashFlowForecastCalculator(), []);
 
@@ -145,13 +246,85 @@ export default function CashFlowPage() {
                 startingCash: starting,
                 monthlyRevenue: revenue,
                 monthlyExpenses: expenses,
-                expectedGrowthRate: growth,
+                revenueGrowthRate: growth,
             });
         } catch {
             return null;
         }
     }, [startingCash, monthlyRevenue, monthlyExpenses, expectedGrowth, calculator]);
 
+    const weeklyResult = useMemo(() => {
+        if (horizon !== 'weekly') return null;
+        try {
+            return calculator.calculateWeekly({
+                startingCash: parseFloat(startingCash) || 0,
+                weeklySales: parseFloat(weeklySales) || 0,
+                weeklyPurchases: parseFloat(weeklyPurchases) || 0,
+                collectionTerms: toTerms(collectionRows),
+                paymentTerms: toTerms(paymentRows),
+                recurringPayments: recurringRows
+                    .map((row) => ({
+                        label: row.label,
+                        amount: parseFloat(row.amount) || 0,
+                        frequency: row.frequency,
+                        dayOfMonth: parseInt(row.day) || undefined,
+                    }))
+                    .filter((row) => row.amount > 0),
+                expectedReceivables: toEvents(receivableRows),
+                oneTimeExpenses: toEvents(expenseRows),
+                minimumCashBuffer: parseFloat(cashBuffer) || 0,
+            });
+        } catch {
+            return null;
+        }
+    }, [horizon, startingCash, weeklySales, weeklyPurchases, collectionRows, paymentRows, recurringRows, receivableRows, expenseRows, cashBuffer, calculator]);
+
+    const updateRow = <T,>(rows: T[], setRows: (rows: T[]) => void, index: number, patch: Partial<T>) => {
+        setRows(rows.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+    };
+
+    const renderTermRows = (rows: TermRow[], setRows: (rows: TermRow[]) => void) => (
+        <>
+            {rows.map((row, i) => (
+                <View key={i} className="flex-row items-center gap-2">
+                    <SmallInput
+                        value={row.days}
+                        onChange={(value) => updateRow(rows, setRows, i, { days: value })}
+                        placeholder={t('calculators.cash_flow.weekly.days')}
+                    />
+                    <SmallInput
+                        value={row.share}
+                        onChange={(value) => updateRow(rows, setRows, i, { share: value })}
+                        placeholder="%"
+                    />
+                    <RemoveButton onPress={() => setRows(rows.filter((_, index) => index !== i))} />
+                </View>
+            ))}
+            <AddRowButton label={t('calculators.cash_flow.weekly.add_term')} onPress={() => setRows([...rows, { days: '', share: '' }])} />
+        </>
+    );
+
+    const renderEventRows = (rows: EventRow[], setRows: (rows: EventRow[]) => void) => (
+        <>
+            {rows.map((row, i) => (
+                <View key={i} className="flex-row items-center gap-2">
+                    <SmallInput
+                        value={row.week}
+                        onChange={(value) => updateRow(rows, setRows, i, { week: value })}
+                        placeholder={t('calculators.cash_flow.weekly.week')}
+                    />
+                    <SmallInput
+                        value={row.amount}
+                        onChange={(value) => updateRow(rows, setRows, i, { amount: value })}
+                        placeholder={currencySymbol}
+                    />
+                    <RemoveButton onPress={() => setRows(rows.filter((_, index) => index !== i))} />
+                </View>
+            ))}
+            <AddRowButton label={t('calculators.cash_flow.weekly.add_event')} onPress={() => setRows([...rows, { week: '', amount: '' }])} />
+        </>
+    );
+
     // Generate recommendations using translations
     const recommendations = useMemo(() => {
         if (!result) return [];
@@ -189,6 +362,7 @@ export default function CashFlowPage() {
         setExporting(true);
         try {
             const html = generateCashFlowPDF({
+                currency,
                 inputs: {
                     startingCash: parseFloat(startingCash) || 0,
                     monthlyRevenue: parseFloat(monthlyRevenue) || 0,
@@ -211,6 +385,24 @@ export default function CashFlowPage() {
         }
     };
 
+    const handleExportXlsx = async () => {
+        if (!result || exportingXlsx) return;
+
+        setExportingXlsx(true);
+        try {
+            await exportXlsx(buildCashFlowForecastWorkbook({
+                startingCash: parseFloat(startingCash) || 0,
+                monthlyRevenue: parseFloat(monthlyRevenue) || 0,
+                monthlyExpenses: parseFloat(monthlyExpenses) || 0,
+            }), 'cash-flow-forecast');
+        } catch (error) {
+            console.error('Error exporting workbook:', error);
+            Alert.alert(t('common.error'), t('xlsx_export.error'));
+        } finally {
+            setExportingXlsx(false);
+        }
+    };
+
     const isSmall = Dimensions.get('window').width < 600;
 
     return (
@@ -244,43 +436,255 @@ export default function CashFlowPage() {
                         <GlassCard>
                             <Text className={`text-white font-semibold ${isSmall ? 'text-base mb-4' : 'text-lg mb-6'}`}>{t('calculators.enter_data')}</Text>
 
+                            <View className="flex-row gap-2 mb-4">
+                                {(['monthly', 'weekly'] as ForecastHorizon[]).map((option) => (
+                                    <Chip
+                                        key={option}
+                                        label={t(`calculators.cash_flow.horizon_${option}`)}
+                                        active={horizon === option}
+                                        onPress={() => setHorizon(option)}
+                                    />
+                                ))}
+                            </View>
+
                             <InputField
                                 label={t('calculators.cash_flow.starting_cash')}
                                 value={startingCash}
                                 onChange={setStartingCash}
-                                prefix="$"
+                                prefix={currencySymbol}
                                 hint={t('calculators.cash_flow.starting_cash_hint')}
                             />
 
-                            <InputField
-                                label={t('calculators.cash_flow.monthly_revenue')}
-                                value={monthlyRevenue}
-                                onChange={setMonthlyRevenue}
-                                prefix="$"
-                                hint={t('calculators.cash_flow.monthly_revenue_hint')}
-                            />
+                            {horizon === 'weekly' ? (
+                                <>
+                                    <InputField
+                                        label={t('calculators.cash_flow.weekly.sales')}
+                                        value={weeklySales}
+                                        onChange={setWeeklySales}
+                                        prefix={currencySymbol}
+                                        hint={t('calculators.cash_flow.weekly.sales_hint')}
+                                    />
 
-                            <InputField
-                                label={t('calculators.cash_flow.monthly_expenses')}
-                                value={monthlyExpenses}
-                                onChange={setMonthlyExpenses}
-                                prefix="$"
-                                hint={t('calculators.cash_flow.monthly_expenses_hint')}
-                            />
+                                    <InputField
+                                        label={t('calculators.cash_flow.weekly.purchases')}
+                                        value={weeklyPurchases}
+                                        onChange={setWeeklyPurchases}
+                                        prefix={currencySymbol}
+                                        hint={t('calculators.cash_flow.weekly.purchases_hint')}
+                                    />
 
-                            <InputField
-                                label={t('calculators.cash_flow.expected_growth')}
-                                value={expectedGrowth}
-                                onChange={setExpectedGrowth}
-                                suffix="%"
-                                hint={t('calculators.cash_flow.expected_growth_hint')}
-                            />
+                                    <InputField
+                                        label={t('calculators.cash_flow.weekly.buffer')}
+                                        value={cashBuffer}
+                                        onChange={setCashBuffer}
+                                        prefix={currencySymbol}
+                                        hint={t('calculators.cash_flow.weekly.buffer_hint')}
+                                    />
+
+                                    <View className="mb-4 gap-2">
+                                        <Text className="text-gray-300 font-medium">{t('calculators.cash_flow.weekly.collection_terms')}</Text>
+                                        {renderTermRows(collectionRows, setCollectionRows)}
+                                        <Text className="text-gray-400 text-xs">{t('calculators.cash_flow.weekly.collection_terms_hint')}</Text>
+                                    </View>
+
+                                    <View className="mb-4 gap-2">
+                                        <Text className="text-gray-300 font-medium">{t('calculators.cash_flow.weekly.payment_terms')}</Text>
+                                        {renderTermRows(paymentRows, setPaymentRows)}
+                                        <Text className="text-gray-400 text-xs">{t('calculators.cash_flow.weekly.payment_terms_hint')}</Text>
+                                    </View>
+
+                                    <View className="mb-4 gap-2">
+                                        <Text className="text-gray-300 font-medium">{t('calculators.cash_flow.weekly.recurring')}</Text>
+                                        {recurringRows.map((row, i) => (
+                                            <View key={i} className="gap-2 pb-2 border-b border-white/5">
+                                                <View className="flex-row items-center gap-2">
+                                                    <SmallInput
+                                                        value={row.label}
+                                                        onChange={(value) => updateRow(recurringRows, setRecurringRows, i, { label: value })}
+                                                        placeholder={t('calculators.cash_flow.weekly.label')}
+                                                        numeric={false}
+                                                    />
+                                                    <SmallInput
+                                                        value={row.amount}
+                                                        onChange={(value) => updateRow(recurringRows, setRecurringRows, i, { amount: value })}
+                                                        placeholder={currencySymbol}
+                                                    />
+                                                    <RemoveButton onPress={() => setRecurringRows(recurringRows.filter((_, index) => index !== i))} />
+                                                </View>
+                                                <View className="flex-row items-center gap-2">
+                                                    {FREQUENCIES.map((frequency) => (
+                                                        <Chip
+                                                            key={frequency}
+                                                            label={t(`calculators.cash_flow.weekly.frequency_${frequency}`)}
+                                                            active={row.frequency === frequency}
+                                                            onPress={() => updateRow(recurringRows, setRecurringRows, i, { frequency })}
+                                                        />
+                                                    ))}
+                                                </View>
+                                                {(row.frequency === 'monthly' || row.frequency === 'quarterly') && (
+                                                    <SmallInput
+                                                        value={row.day}
+                                                        onChange={(value) => updateRow(recurringRows, setRecurringRows, i, { day: value })}
+                                                        placeholder={t('calculators.cash_flow.weekly.day_of_month')}
+                                                    />
+                                                )}
+                                            </View>
+                                        ))}
+                                        <AddRowButton
+                                            label={t('calculators.cash_flow.weekly.add_recurring')}
+                                            onPress={() => setRecurringRows([...recurringRows, { label: '', amount: '', frequency: 'monthly', day: '1' }])}
+                                        />
+                                    </View>
+
+                                    <View className="mb-4 gap-2">
+                                        <Text className="text-gray-300 font-medium">{t('calculators.cash_flow.weekly.expected_receivables')}</Text>
+                                        {renderEventRows(receivableRows, setReceivableRows)}
+                                    </View>
+
+                                    <View className="gap-2">
+                                        <Text className="text-gray-300 font-medium">{t('calculators.cash_flow.weekly.one_time_expenses')}</Text>
+                                        {renderEventRows(expenseRows, setExpenseRows)}
+                                    </View>
+                                </>
+                            ) : (
+                                <>
+                                    <InputField
+                                        label={t('calculators.cash_flow.monthly_revenue')}
+                                        value={monthlyRevenue}
+                                        onChange={setMonthlyRevenue}
+                                        prefix={currencySymbol}
+                                        hint={t('calculators.cash_flow.monthly_revenue_hint')}
+                                    />
+
+                                    <InputField
+                                        label={t('calculators.cash_flow.monthly_expenses')}
+                                        value={monthlyExpenses}
+                                        onChange={setMonthlyExpenses}
+                                        prefix={currencySymbol}
+                                        hint={t('calculators.cash_flow.monthly_expenses_hint')}
+                                    />
+
+                                    <InputField
+                                        label={t('calculators.cash_flow.expected_growth')}
+                                        value={expectedGrowth}
+                                        onChange={setExpectedGrowth}
+                                        suffix="%"
+                                        hint={t('calculators.cash_flow.expected_growth_hint')}
+                                    />
+                                </>
+                            )}
                         </GlassCard>
                     </View>
 
                     {/* Results */}
                     <View className={isSmall ? 'w-full gap-3' : 'flex-1 gap-4'}>
-                        {result ? (
+                        {horizon === 'weekly' ? (
+                            weeklyResult ? (
+                                <>
+                                    {/* Summary */}
+                                    <View className="flex-row flex-wrap gap-3">
+                                        <View className="flex-1 min-w-[140px] bg-slate-800 rounded-xl border border-white/10 p-4">
+                                            <Text className="text-gray-400 text-sm">{t('calculators.cash_flow.weekly.ending_cash')}</Text>
+                                            <Text className={`text-2xl font-bold ${weeklyResult.endingCash >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>
+                                                {currencySymbol}{Math.round(weeklyResult.endingCash).toLocaleString()}
+                                            </Text>
+                                        </View>
+                                        <View className="flex-1 min-w-[140px] bg-slate-800 rounded-xl border border-white/10 p-4">
+                                            <Text className="text-gray-400 text-sm">{t('calculators.cash_flow.weekly.lowest_cash')}</Text>
+                                            <Text className={`text-2xl font-bold ${weeklyResult.lowestCash >= 0 ? 'text-white' : 'text-rose-400'}`}>
+                                                {currencySymbol}{Math.round(weeklyResult.lowestCash).toLocaleString()}
+                                            </Text>
+                                            <Text className="text-gray-400 text-xs">
+                                                {t('calculators.cash_flow.weekly.in_week', { week: String(weeklyResult.lowestCashWeek) })}
+                                            </Text>
+                                        </View>
+                                        <View className="flex-1 min-w-[140px] bg-slate-800 rounded-xl border border-white/10 p-4">
+                                            <Text className="text-gray-400 text-sm">{t('calculators.cash_flow.weekly.funding_needed')}</Text>
+                                            <Text className="text-2xl font-bold text-amber-400">
+                                                {currencySymbol}{Math.round(weeklyResult.fundingNeeded).toLocaleString()}
+                                            </Text>
+                                        </View>
+                                    </View>
+
+                                    {/* Buffer status */}
+                                    <View className={`rounded-xl border-2 p-4 ${weeklyResult.firstBufferBreachWeek === null ? 'border-[#86EFAC]/50' : 'border-[#FB923C]/50'}`}>
+                                        <View className="flex-row items-center gap-3">
+                                            <IconLabel icon={weeklyResult.firstBufferBreachWeek === null ? 'dot-green' : 'dot-red'} size={24} />
+                                            <Text className="text-white font-bold flex-1">
+                                                {weeklyResult.firstBufferBreachWeek === null
+                                                    ? t('calculators.cash_flow.weekly.buffer_ok')
+                                                    : t('calculators.cash_flow.weekly.buffer_breach', { week: String(weeklyResult.firstBufferBreachWeek) })}
+                                            </Text>
+                                        </View>
+                                        <Text className="text-gray-400 text-sm mt-2">
+                                            {t('calculators.cash_flow.weekly.terms_summary', {
+                                                dso: weeklyResult.effectiveDSO.toFixed(0),
+                                                dpo: weeklyResult.effectiveDPO.toFixed(0),
+                                            })}
+                                        </Text>
+                                    </View>
+
+                                    {/* Chart */}
+                                    <CashFlowChart
+                                        cashFlowData={weeklyResult.cashFlowData}
+                                        currency={currencySymbol}
+                                        granularity="weekly"
+                                    />
+
+                                    {/* Weekly table */}
+                                    <GlassCard>
+                                        <Text className="text-white font-semibold mb-3">{t('calculators.cash_flow.weekly.table_title')}</Text>
+                                        <View className="flex-row pb-2 border-b border-white/10">
+                                            <Text className="flex-1 text-gray-400 text-xs">{t('calculators.cash_flow.weekly.week')}</Text>
+                                            <Text className="flex-1 text-gray-400 text-xs text-right">{t('calculators.cash_flow.weekly.inflows')}</Text>
+                                            <Text className="flex-1 text-gray-400 text-xs text-right">{t('calculators.cash_flow.weekly.outflows')}</Text>
+                                            <Text className="flex-1 text-gray-400 text-xs text-right">{t('calculators.cash_flow.weekly.balance')}</Text>
+                                        </View>
+                                        {weeklyResult.weeks.map((week) => (
+                                            <View key={week.week} className="flex-row py-2 border-b border-white/5">
+                                                <Text className="flex-1 text-gray-300 text-xs">{`W${week.week} · ${week.weekStart.slice(5)}`}</Text>
+                                                <Text className="flex-1 text-emerald-400 text-xs text-right">
+                                                    {Math.round(week.collections + week.receivablesCollected).toLocaleString()}
+                                                </Text>
+                                                <Text className="flex-1 text-rose-400 text-xs text-right">
+                                                    {Math.round(week.supplierPayments + week.recurringPayments + week.oneTimeExpenses).toLocaleString()}
+                                                </Text>
+                                                <Text className={`flex-1 text-xs text-right font-semibold ${week.belowBuffer ? 'text-amber-400' : 'text-white'}`}>
+                                                    {Math.round(week.endingCash).toLocaleString()}
+                                                </Text>
+                                            </View>
+                                        ))}
+                                    </GlassCard>
+
+                                    {/* Receivables aging */}
+                                    <GlassCard>
+                                        <Text className="text-white font-semibold mb-3">{t('calculators.cash_flow.weekly.aging_title')}</Text>
+                                        {([
+                                            ['current', weeklyResult.receivablesAging.current],
+                                            ['days31to60', weeklyResult.receivablesAging.days31to60],
+                                            ['days61to90', weeklyResult.receivablesAging.days61to90],
+                                            ['over90', weeklyResult.receivablesAging.over90],
+                                        ] as const).map(([bucket, amount]) => (
+                                            <View key={bucket} className="flex-row justify-between py-1">
+                                                <Text className="text-gray-400 text-sm">{t(`calculators.cash_flow.weekly.aging_${bucket}`)}</Text>
+                                                <Text className="text-white text-sm">{currencySymbol}{Math.round(amount).toLocaleString()}</Text>
+                                            </View>
+                                        ))}
+                                    </GlassCard>
+
+                                    <AlertsPanel alerts={calculator.generateWeeklyAlerts(weeklyResult, parseFloat(cashBuffer) || 0, currency)} />
+                                </>
+                            ) : (
+                                <GlassCard>
+                                    <View className={`items-center ${isSmall ? 'py-6' : 'py-12'}`}>
+                                        <Ionicons name="wallet" size={48} color="#6b7280" />
+                                        <Text className="text-gray-400 mt-4 text-center">
+                                            {t('calculators.no_data')}
+                                        </Text>
+                                    </View>
+                                </GlassCard>
+                            )
+                        ) : result ? (
                             <>
                                 {/* Summary Cards */}
                                 <View className={`${isSmall ? 'gap-3' : 'flex-row flex-wrap gap-4'}`}>
@@ -328,7 +732,7 @@ export default function CashFlowPage() {
                                 <CashFlowTimeline forecasts={result.monthlyForecasts.map(f => ({ month: f.month, netCash: f.netCashFlow, balance: f.endingCash }))} />
 
                                 {/* Alerts */}
-                                <AlertsPanel alerts={calculator.generateAlerts(result)} />
+                                <AlertsPanel alerts={calculator.generateAlerts(result, currency)} />
 
                                 {/* Recommendations */}
                                 {recommendations && recommendations.length > 0 && (
@@ -352,6 +756,10 @@ export default function CashFlowPage() {
                                 >
                                     📄 {exporting ? t('common.exporting') : t('calculators.export_pdf')}
                                 </GradientButton>
+
+                                <OutlineButton onPress={handleExportXlsx}>
+                                    📊 {exportingXlsx ? t('common.exporting') : t('xlsx_export.button')}
+                                </OutlineButton>
                             </>
                         ) : (
                             <GlassCard className={`items-center ${isSmall ? 'py-6' : 'py-12'}`}>
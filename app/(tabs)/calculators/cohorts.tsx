@@ -0,0 +1,437 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { View, Text, TextInput, Pressable, ScrollView, Dimensions, Alert } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import {
+    GlassCard,
+    OutlineButton,
+    SectionHeading,
+} from '@/components/landing/shared-components';
+import { IconLabel } from '@/components/ui/icon-label';
+import { router } from 'expo-router';
+import { CohortMetricsCalculator } from '@/lib/infrastructure/calculators/CohortMetricsCalculator';
+import { parseCustomersCsv } from '@/lib/cohort-import';
+import { getAllProjects, updateProject } from '@/lib/project-storage';
+import { useTranslation } from '@/lib/i18n-context';
+import { useReportingCurrency } from '@/hooks/use-reporting-currency';
+import { Money } from '@/lib/domain/value-objects/Money';
+import { LanguageSelector } from '@/components/language-selector';
+import type { ProjectData } from '@/types/project';
+
+const CHART_HEIGHT = 100;
+const CURVE_MONTHS = 12;
+
+/**
+ * Six monthly cohorts of 20 customers paying 49 a month, with a steady share leaving
+ * each month, so the screen can be tried without an export at hand.
+ */
+function buildSampleCsv(): string {
+    const rows = ['customer_id,signup_date,churn_date,revenue_date,amount'];
+    const lastMonth = 6;
+
+    for (let cohort = 1; cohort <= lastMonth; cohort++) {
+        for (let i = 0; i < 20; i++) {
+            // Roughly 12% of the cohort leaves every month
+            const lifetime = Math.ceil(Math.log(1 - (i + 0.5) / 20) / Math.log(0.88));
+            const churnMonth = cohort + lifetime;
+            const signup = `2026-0${cohort}-01`;
+            const churn = churnMonth <= lastMonth ? `2026-0${churnMonth}-15` : '';
+
+            // Every customer stays at least through the signup month
+            for (let month = cohort; month <= Math.min(churnMonth - 1, lastMonth); month++) {
+                rows.push(`c${cohort}-${i + 1},${signup},${churn},2026-0${month}-05,49`);
+            }
+        }
+    }
+
+    return rows.join('\n');
+}
+
+function InputField({
+    label, value, onChange, prefix, suffix, hint,
+}: {
+    label: string; value: string; onChange: (val: string) => void;
+    prefix?: string; suffix?: string; hint?: string;
+}) {
+    return (
+        <View className="mb-4">
+            <Text className="text-gray-300 font-medium mb-2">{label}</Text>
+            <View className="flex-row items-center bg-slate-800 rounded-xl border border-white/10 overflow-hidden">
+                {prefix && <Text className="text-gray-400 pl-4">{prefix}</Text>}
+                <TextInput
+                    className="flex-1 px-4 py-3 text-white text-lg"
+                    value={value}
+                    onChangeText={onChange}
+                    placeholderTextColor="#6b7280"
+                    keyboardType="numeric"
+                />
+                {suffix && <Text className="text-gray-400 pr-4">{suffix}</Text>}
+            </View>
+            {hint && <Text className="text-gray-400 text-xs mt-1">{hint}</Text>}
+        </View>
+    );
+}
+
+function Chip({ label, active, onPress }: { label: string; active: boolean; onPress: () => void }) {
+    return (
+        <Pressable
+            onPress={onPress}
+            className={`flex-1 py-2 rounded-lg border ${active ? 'bg-white border-white' : 'bg-slate-800 border-white/10'}`}
+        >
+            <Text className={`text-center text-xs font-semibold ${active ? 'text-black' : 'text-gray-300'}`}>{label}</Text>
+        </Pressable>
+    );
+}
+
+function StatCard({ label, value, hint }: { label: string; value: string; hint?: string }) {
+    return (
+        <View className="flex-1 min-w-[140px]">
+            <GlassCard>
+                <Text className="text-gray-400 text-xs">{label}</Text>
+                <Text className="text-2xl font-bold text-white">{value}</Text>
+                {hint && <Text className="text-gray-500 text-xs">{hint}</Text>}
+            </GlassCard>
+        </View>
+    );
+}
+
+/**
+ * Cohort triangle: one row per signup month, one cell per month since signup,
+ * shaded by the retained percentage.
+ */
+function RetentionTriangle({ rows, average, t }: {
+    rows: { cohort: string; customers: number; values: number[] }[];
+    average: number[];
+    t: any;
+}) {
+    const columns = average.length;
+    const cell = (value: number | undefined, key: string | number) => (
+        <View
+            key={key}
+            className="w-14 h-8 items-center justify-center rounded"
+            style={{ backgroundColor: value === undefined ? 'transparent' : `rgba(20, 184, 166, ${Math.min(value, 100) / 100 * 0.8 + 0.05})` }}
+        >
+            <Text className="text-white text-xs">{value === undefined ? '' : `${value.toFixed(0)}%`}</Text>
+        </View>
+    );
+
+    return (
+        <ScrollView horizontal>
+            <View className="gap-1">
+                <View className="flex-row gap-1">
+                    <Text className="w-24 text-gray-400 text-xs">{t('calculators.cohorts.cohort')}</Text>
+                    <Text className="w-12 text-gray-400 text-xs text-right">{t('calculators.cohorts.customers')}</Text>
+                    {Array.from({ length: columns }, (_, age) => (
+                        <Text key={age} className="w-14 text-gray-400 text-xs text-center">M{age}</Text>
+                    ))}
+                </View>
+                {rows.map((row) => (
+                    <View key={row.cohort} className="flex-row gap-1 items-center">
+                        <Text className="w-24 text-white text-xs">{row.cohort}</Text>
+                        <Text className="w-12 text-gray-300 text-xs text-right">{row.customers}</Text>
+                        {Array.from({ length: columns }, (_, age) => cell(row.values[age], age))}
+                    </View>
+                ))}
+                <View className="flex-row gap-1 items-center border-t border-white/10 pt-1">
+                    <Text className="w-24 text-white text-xs font-semibold">{t('calculators.cohorts.average')}</Text>
+                    <Text className="w-12" />
+                    {average.map((value, age) => cell(value, age))}
+                </View>
+            </View>
+        </ScrollView>
+    );
+}
+
+export default function CohortsPage() {
+    const { t } = useTranslation();
+    const { currency } = useReportingCurrency();
+    const currencySymbol = Money.symbolFor(currency);
+    const [csvText, setCsvText] = useState('');
+    const [grossMargin, setGrossMargin] = useState('80');
+    const [acquisitionCost, setAcquisitionCost] = useState('150');
+    const [projectionMonths, setProjectionMonths] = useState('36');
+    const [triangle, setTriangle] = useState<'customers' | 'revenue'>('customers');
+
+    const calculator = useMemo(() => new CohortMetricsCalculator(), []);
+
+    const imported = useMemo(() => parseCustomersCsv(csvText), [csvText]);
+
+    const [saasProjects, setSaasProjects] = useState<ProjectData[]>([]);
+    const [targetProjectId, setTargetProjectId] = useState<string | null>(null);
+    const [applying, setApplying] = useState(false);
+
+    useEffect(() => {
+        getAllProjects()
+            .then((all) => setSaasProjects(all.filter((project) => project.businessModel === 'saas' && !!project.saasInput)))
+            .catch(() => setSaasProjects([]));
+    }, []);
+
+    const { analysis, analysisError } = useMemo(() => {
+        if (imported.customers.length === 0) return { analysis: null, analysisError: null };
+        try {
+            return {
+                analysis: calculator.buildRetentionMatrix({
+                    customers: imported.customers,
+                    grossMargin: parseFloat(grossMargin) || 0,
+                    acquisitionCost: acquisitionCost ? parseFloat(acquisitionCost) || 0 : undefined,
+                    projectionMonths: parseInt(projectionMonths) || undefined,
+                }),
+                analysisError: null,
+            };
+        } catch (error) {
+            console.error('Error building cohort analysis:', error);
+            return { analysis: null, analysisError: error instanceof Error ? error.message : t('calculators.cohorts.analysis_error') };
+        }
+    }, [imported, grossMargin, acquisitionCost, projectionMonths, calculator, t]);
+
+    const applyToProject = async () => {
+        const project = saasProjects.find((candidate) => candidate.id === targetProjectId);
+        if (!analysis || !project?.saasInput || applying) return;
+
+        try {
+            setApplying(true);
+            const saasInput = { ...project.saasInput, ...analysis.saasInputs };
+            await updateProject(project.id, { saasInput });
+            setSaasProjects((current) => current.map((candidate) => (
+                candidate.id === project.id ? { ...candidate, saasInput } : candidate
+            )));
+            Alert.alert(t('common.success'), t('calculators.cohorts.applied_to_project', { project: project.name }));
+        } catch (error) {
+            console.error('Error applying cohort metrics to project:', error);
+            Alert.alert(t('common.error'), t('calculators.cohorts.apply_failed'));
+        } finally {
+            setApplying(false);
+        }
+    };
+
+    const cac = parseFloat(acquisitionCost) || 0;
+    const isSmall = Dimensions.get('window').width < 600;
+
+    return (
+        <ScrollView
+            className="flex-1 bg-[#020617]"
+            contentContainerStyle={{ paddingHorizontal: isSmall ? 12 : 20, paddingVertical: isSmall ? 16 : 40 }}
+        >
+            <View className="w-full">
+                {/* Top Navigation */}
+                <View className="flex-row items-center justify-between mb-8">
+                    <Pressable
+                        onPress={() => router.back()}
+                        className="p-3 bg-white/10 rounded-full border border-white/20 active:scale-95 transition-transform"
+                    >
+                        <Ionicons name="arrow-back" size={24} color="white" />
+                    </Pressable>
+                    <LanguageSelector />
+                </View>
+
+                {/* Header Title Section */}
+                <View className="mb-6">
+                    <SectionHeading
+                        title={t('calculators.cohorts.title')}
+                        subtitle={t('calculators.cohorts.subtitle')}
+                    />
+                </View>
+
+                <View className={isSmall ? 'gap-6' : 'flex-row gap-6 items-start'}>
+                    {/* Form */}
+                    <View className={isSmall ? 'w-full' : 'flex-1'}>
+                        <GlassCard>
+                            <Text className="text-white font-semibold text-lg mb-2">
+                                {t('calculators.cohorts.customer_data')}
+                            </Text>
+                            <Text className="text-gray-400 text-xs mb-3">{t('calculators.cohorts.csv_hint')}</Text>
+
+                            <TextInput
+                                value={csvText}
+                                onChangeText={setCsvText}
+                                multiline
+                                numberOfLines={8}
+                                placeholder={'customer_id,signup_date,churn_date,revenue_date,amount\nc1,2026-01-04,,2026-01-04,49\nc1,,2026-03-02,2026-02-04,49'}
+                                placeholderTextColor="#6b7280"
+                                className="bg-slate-800 rounded-xl border border-white/10 px-3 py-2 text-white text-xs mb-3"
+                                style={{ minHeight: 160, textAlignVertical: 'top' }}
+                            />
+
+                            <View className="mb-4">
+                                <OutlineButton onPress={() => setCsvText(buildSampleCsv())}>
+                                    {t('calculators.cohorts.load_sample')}
+                                </OutlineButton>
+                            </View>
+
+                            {imported.errors.length > 0 && (
+                                <View className="mb-4 gap-1">
+                                    {imported.errors.slice(0, 5).map((error) => (
+                                        <Text key={`${error.line}-${error.reason}`} className="text-amber-300 text-xs">
+                                            {t('calculators.cohorts.import_error', {
+                                                line: String(error.line),
+                                                reason: t(`calculators.cohorts.errors.${error.reason}`),
+                                            })}
+                                        </Text>
+                                    ))}
+                                    {imported.errors.length > 5 && (
+                                        <Text className="text-amber-300 text-xs">
+                                            {t('calculators.cohorts.more_errors', { count: String(imported.errors.length - 5) })}
+                                        </Text>
+                                    )}
+                                </View>
+                            )}
+
+                            <InputField
+                                label={t('calculators.cohorts.gross_margin')}
+                                value={grossMargin}
+                                onChange={setGrossMargin}
+                                suffix="%"
+                            />
+
+                            <InputField
+                                label={t('calculators.cohorts.acquisition_cost')}
+                                value={acquisitionCost}
+                                onChange={setAcquisitionCost}
+                                prefix={currencySymbol}
+                            />
+
+                            <InputField
+                                label={t('calculators.cohorts.projection_months')}
+                                value={projectionMonths}
+                                onChange={setProjectionMonths}
+                                hint={t('calculators.cohorts.projection_hint')}
+                            />
+                        </GlassCard>
+                    </View>
+
+                    {/* Results */}
+                    <View className={isSmall ? 'w-full gap-4' : 'flex-1 gap-4'}>
+                        {analysisError && (
+                            <GlassCard>
+                                <Text className="text-rose-400 text-sm">{analysisError}</Text>
+                            </GlassCard>
+                        )}
+                        {analysis ? (
+                            <>
+                                <View className="flex-row flex-wrap gap-4">
+                                    <StatCard
+                                        label={t('calculators.cohorts.monthly_churn')}
+                                        value={`${analysis.curve.monthlyChurn.toFixed(1)}%`}
+                                        hint={analysis.curve.rSquared !== null ? `R² ${analysis.curve.rSquared.toFixed(2)}` : undefined}
+                                    />
+                                    <StatCard
+                                        label={t('calculators.cohorts.arpu')}
+                                        value={`${currencySymbol}${analysis.averageRevenuePerUser.toLocaleString()}`}
+                                    />
+                                    <StatCard
+                                        label={t('calculators.cohorts.ltv')}
+                                        value={`${currencySymbol}${analysis.ltv.toLocaleString()}`}
+                                        hint={cac > 0 ? `LTV/CAC ${(analysis.ltv / cac).toFixed(1)}x` : undefined}
+                                    />
+                                    <StatCard
+                                        label={t('calculators.cohorts.payback')}
+                                        value={analysis.paybackMonth !== null
+                                            ? t('calculators.cohorts.month_n', { month: String(analysis.paybackMonth) })
+                                            : t('calculators.cohorts.not_reached')}
+                                    />
+                                </View>
+
+                                <GlassCard>
+                                    <View className="flex-row items-center gap-2 mb-3"><IconLabel icon="chart" size={18} /><Text className="text-white font-semibold">{t('calculators.cohorts.triangle_title')}</Text></View>
+                                    <View className="flex-row gap-2 mb-4">
+                                        <Chip label={t('calculators.cohorts.customer_retention')} active={triangle === 'customers'} onPress={() => setTriangle('customers')} />
+                                        <Chip label={t('calculators.cohorts.revenue_retention')} active={triangle === 'revenue'} onPress={() => setTriangle('revenue')} />
+                                    </View>
+                                    <RetentionTriangle
+                                        rows={analysis.cohorts.map((row) => ({
+                                            cohort: row.cohort,
+                                            customers: row.customers,
+                                            values: triangle === 'customers' ? row.retention : row.revenueRetention,
+                                        }))}
+                                        average={triangle === 'customers' ? analysis.averageRetention : analysis.averageRevenueRetention}
+                                        t={t}
+                                    />
+                                </GlassCard>
+
+                                <GlassCard>
+                                    <View className="flex-row items-center gap-2 mb-4"><IconLabel icon="chart-down" size={18} /><Text className="text-white font-semibold">{t('calculators.cohorts.curve_title')}</Text></View>
+                                    <View className="flex-row items-end gap-1" style={{ height: CHART_HEIGHT }}>
+                                        {analysis.curve.projected.slice(0, CURVE_MONTHS + 1).map((value, age) => {
+                                            const observed = analysis.averageRetention[age];
+                                            return (
+                                                <View key={age} className="flex-1 flex-row items-end gap-px">
+                                                    <View className="flex-1 bg-[#14B8A6]/40 rounded-t" style={{ height: (value / 100) * CHART_HEIGHT }} />
+                                                    {observed !== undefined && (
+                                                        <View className="flex-1 bg-[#86EFAC] rounded-t" style={{ height: (observed / 100) * CHART_HEIGHT }} />
+                                                    )}
+                                                </View>
+                                            );
+                                        })}
+                                    </View>
+                                    <View className="flex-row gap-4 mt-3">
+                                        <View className="flex-row items-center gap-1"><View className="w-3 h-3 bg-[#86EFAC] rounded" /><Text className="text-gray-400 text-xs">{t('calculators.cohorts.observed')}</Text></View>
+                                        <View className="flex-row items-center gap-1"><View className="w-3 h-3 bg-[#14B8A6]/40 rounded" /><Text className="text-gray-400 text-xs">{t('calculators.cohorts.fitted')}</Text></View>
+                                    </View>
+                                </GlassCard>
+
+                                <GlassCard>
+                                    <View className="flex-row items-center gap-2 mb-4"><IconLabel icon="money" size={18} /><Text className="text-white font-semibold">{t('calculators.cohorts.ltv_by_cohort')}</Text></View>
+                                    {analysis.cohorts.map((row) => (
+                                        <View key={row.cohort} className="flex-row justify-between py-2 border-b border-white/5">
+                                            <Text className="text-white text-sm flex-1">{row.cohort}</Text>
+                                            <Text className="text-white text-sm flex-1 text-right">{currencySymbol}{row.ltv.toLocaleString()}</Text>
+                                            <Text className="text-gray-300 text-sm flex-1 text-right">
+                                                {row.paybackMonth !== null
+                                                    ? t('calculators.cohorts.month_n', { month: String(row.paybackMonth) })
+                                                    : t('calculators.cohorts.not_reached')}
+                                            </Text>
+                                        </View>
+                                    ))}
+                                </GlassCard>
+
+                                <GlassCard>
+                                    <View className="flex-row items-center gap-2 mb-2"><IconLabel icon="bulb" size={18} /><Text className="text-white font-semibold">{t('calculators.cohorts.saas_title')}</Text></View>
+                                    <Text className="text-gray-400 text-xs mb-3">{t('calculators.cohorts.saas_hint')}</Text>
+                                    <View className="flex-row justify-between py-1">
+                                        <Text className="text-gray-300 text-sm">{t('calculators.cohorts.churn_rate')}</Text>
+                                        <Text className="text-white text-sm font-semibold">{analysis.saasInputs.churnRate}%</Text>
+                                    </View>
+                                    <View className="flex-row justify-between py-1">
+                                        <Text className="text-gray-300 text-sm">{t('calculators.cohorts.arpu')}</Text>
+                                        <Text className="text-white text-sm font-semibold">{currencySymbol}{analysis.saasInputs.averageRevenuePerUser}</Text>
+                                    </View>
+
+                                    {saasProjects.length > 0 ? (
+                                        <View className="mt-4 gap-2">
+                                            <Text className="text-gray-300 text-sm font-medium">{t('calculators.cohorts.target_project')}</Text>
+                                            <View className="flex-row flex-wrap gap-2">
+                                                {saasProjects.map((project) => (
+                                                    <Chip
+                                                        key={project.id}
+                                                        label={project.name}
+                                                        active={targetProjectId === project.id}
+                                                        onPress={() => setTargetProjectId(project.id)}
+                                                    />
+                                                ))}
+                                            </View>
+                                            <View className={targetProjectId && !applying ? '' : 'opacity-50'}>
+                                                <OutlineButton onPress={applyToProject}>
+                                                    {applying ? t('common.saving') : t('calculators.cohorts.apply_to_project')}
+                                                </OutlineButton>
+                                            </View>
+                                        </View>
+                                    ) : (
+                                        <Text className="text-gray-500 text-xs mt-4">{t('calculators.cohorts.no_saas_projects')}</Text>
+                                    )}
+                                </GlassCard>
+                            </>
+                        ) : (
+                            <GlassCard>
+                                <View className="items-center py-12">
+                                    <Ionicons name="people" size={48} color="#6b7280" />
+                                    <Text className="text-gray-400 mt-4 text-center">
+                                        {t('calculators.cohorts.no_data')}
+                                    </Text>
+                                </View>
+                            </GlassCard>
+                        )}
+                    </View>
+                </View>
+            </View>
+        </ScrollView>
+    );
+}
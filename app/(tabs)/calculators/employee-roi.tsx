@@ -1,18 +1,44 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { View, Text, TextInput, Pressable, ScrollView, Alert, Dimensions } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import {
     GlassCard,
     GradientButton,
+    OutlineButton,
     SectionHeading,
     Badge,
 } from '@/components/landing/shared-components';
 import { IconLabel } from '@/components/ui/icon-label';
 import { router } from 'expo-router';
 import { EmployeeROICalculator } from '@/lib/infrastructure/calculators/EmployeeROICalculator';
+import { LineItemCashFlowCalculator } from '@/lib/infrastructure/calculators/LineItemCashFlowCalculator';
+import { getAllProjects, updateProject } from '@/lib/project-storage';
 import { useTranslation } from '@/lib/i18n-context';
+import { useReportingCurrency } from '@/hooks/use-reporting-currency';
+import { Money } from '@/lib/domain/value-objects/Money';
 import { LanguageSelector } from '@/components/language-selector';
 import { generateEmployeeROIPDF, printPDF } from '@/lib/export/pdf-generator';
+import { buildEmployeeROIWorkbook } from '@/lib/export/xlsx-workbooks';
+import { exportXlsx } from '@/lib/export/xlsx-export';
+import type { PlannedHire, ProjectData, RampUpCurve } from '@/types/project';
+
+const CHART_HEIGHT = 120;
+
+type HireRow = {
+    role: string; startMonth: string; annualSalary: string; benefitsRatio: string;
+    onboardingCost: string; annualRevenue: string; rampUpMonths: string; rampCurve: RampUpCurve;
+};
+
+const newHireRow = (role: string, startMonth: string): HireRow => ({
+    role,
+    startMonth,
+    annualSalary: '50000',
+    benefitsRatio: '20',
+    onboardingCost: '4000',
+    annualRevenue: '110000',
+    rampUpMonths: '3',
+    rampCurve: 'linear',
+});
 
 function InputField({
     label, value, onChange, prefix, suffix, hint,
@@ -68,6 +94,287 @@ function RoleSelector({ selected, onSelect, t }: { selected: string; onSelect: (
     );
 }
 
+function Chip({ label, active, onPress }: { label: string; active: boolean; onPress: () => void }) {
+    return (
+        <Pressable
+            onPress={onPress}
+            className={`flex-1 py-2 rounded-lg border ${active ? 'bg-white border-white' : 'bg-slate-800 border-white/10'}`}
+        >
+            <Text className={`text-center text-xs font-semibold ${active ? 'text-black' : 'text-gray-300'}`}>{label}</Text>
+        </Pressable>
+    );
+}
+
+function SmallInput({ label, value, onChange, numeric = true }: {
+    label: string; value: string; onChange: (val: string) => void; numeric?: boolean;
+}) {
+    return (
+        <View className="flex-1 min-w-[120px]">
+            <Text className="text-gray-400 text-xs mb-1">{label}</Text>
+            <TextInput
+                className="bg-slate-800 rounded-lg border border-white/10 px-3 py-2 text-white"
+                value={value}
+                onChangeText={onChange}
+                placeholderTextColor="#6b7280"
+                keyboardType={numeric ? 'numeric' : 'default'}
+            />
+        </View>
+    );
+}
+
+/**
+ * Headcount plan: several hires with their own start month and ramp-up to full productivity.
+ */
+function HiringPlanView({ calculator, currencySymbol, isSmall, t }: {
+    calculator: EmployeeROICalculator; currencySymbol: string; isSmall: boolean; t: any;
+}) {
+    const [horizonMonths, setHorizonMonths] = useState('24');
+    const [rows, setRows] = useState<HireRow[]>([
+        newHireRow(t('calculators.employee_roi.roles.sales'), '1'),
+        { ...newHireRow(t('calculators.employee_roi.roles.technical'), '4'), annualSalary: '65000', annualRevenue: '140000', rampUpMonths: '6', rampCurve: 's_curve' },
+    ]);
+
+    const hires = useMemo<PlannedHire[]>(() => rows.map((row) => ({
+        role: row.role || t('calculators.employee_roi.plan.hire'),
+        startMonth: parseInt(row.startMonth) || 1,
+        annualSalary: parseFloat(row.annualSalary) || 0,
+        benefitsRatio: parseFloat(row.benefitsRatio) || 0,
+        onboardingCost: parseFloat(row.onboardingCost) || 0,
+        annualRevenue: parseFloat(row.annualRevenue) || 0,
+        rampUpMonths: parseInt(row.rampUpMonths) || 0,
+        rampCurve: row.rampCurve,
+    })), [rows, t]);
+
+    const plan = useMemo(() => {
+        try {
+            return calculator.calculateHiringPlan({ hires, horizonMonths: parseInt(horizonMonths) || 0 });
+        } catch {
+            return null;
+        }
+    }, [hires, horizonMonths, calculator]);
+
+    const costLines = useMemo(() => (plan ? calculator.toCostLines(hires) : []), [plan, hires, calculator]);
+
+    // Only line-item projects: adding cost lines to a simple project would replace its yearly revenue and costs
+    const [projects, setProjects] = useState<ProjectData[]>([]);
+    const [targetProjectId, setTargetProjectId] = useState<string | null>(null);
+    const [applying, setApplying] = useState(false);
+
+    useEffect(() => {
+        const lineItemCalculator = new LineItemCashFlowCalculator();
+        getAllProjects()
+            .then((all) => setProjects(all.filter((project) => lineItemCalculator.hasLineItems(project.lineItems))))
+            .catch(() => setProjects([]));
+    }, []);
+
+    const addToProject = async () => {
+        const project = projects.find((candidate) => candidate.id === targetProjectId);
+        if (!project?.lineItems || costLines.length === 0 || applying) return;
+
+        try {
+            setApplying(true);
+            // Lines from an earlier plan are replaced so applying twice does not double the payroll
+            const keptLines = project.lineItems.costLines.filter((line) => !line.id.startsWith('hire-'));
+            const lineItems = { ...project.lineItems, costLines: [...keptLines, ...costLines] };
+            const updated = await updateProject(project.id, { lineItems });
+            setProjects((current) => current.map((candidate) => (
+                candidate.id === project.id ? (updated ?? { ...candidate, lineItems }) : candidate
+            )));
+            Alert.alert(t('common.success'), t('calculators.employee_roi.plan.added_to_project', { project: project.name }));
+        } catch (error) {
+            console.error('Error adding hiring plan to project:', error);
+            Alert.alert(t('common.error'), t('calculators.employee_roi.plan.add_to_project_failed'));
+        } finally {
+            setApplying(false);
+        }
+    };
+
+    const updateRow = (index: number, changes: Partial<HireRow>) => {
+        setRows((current) => current.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+    };
+
+    const maxBar = plan ? Math.max(1, ...plan.months.map((m) => Math.max(m.cost, m.revenue))) : 1;
+    const lastMonth = plan ? plan.months[plan.months.length - 1] : null;
+
+    return (
+        <View className={isSmall ? 'gap-6' : 'flex-row gap-6 items-start'}>
+            <View className={isSmall ? 'w-full' : 'flex-1'}>
+                <GlassCard>
+                    <Text className="text-white font-semibold text-lg mb-2">{t('calculators.employee_roi.plan.title')}</Text>
+                    <Text className="text-gray-400 text-sm mb-4">{t('calculators.employee_roi.plan.description')}</Text>
+
+                    <InputField
+                        label={t('calculators.employee_roi.plan.horizon')}
+                        value={horizonMonths}
+                        onChange={setHorizonMonths}
+                        suffix={t('calculators.employee_roi.months')}
+                    />
+
+                    <View className="gap-3">
+                        {rows.map((row, index) => (
+                            <View key={index} className="bg-slate-900/60 rounded-xl border border-white/10 p-3 gap-2">
+                                <View className="flex-row items-center gap-2">
+                                    <View className="flex-1">
+                                        <SmallInput label={t('calculators.employee_roi.plan.role')} value={row.role} onChange={(v) => updateRow(index, { role: v })} numeric={false} />
+                                    </View>
+                                    <Pressable onPress={() => setRows((current) => current.filter((_, i) => i !== index))} className="p-1 mt-4">
+                                        <Ionicons name="close-circle" size={20} color="#f87171" />
+                                    </Pressable>
+                                </View>
+                                <View className="flex-row flex-wrap gap-2">
+                                    <SmallInput label={t('calculators.employee_roi.plan.start_month')} value={row.startMonth} onChange={(v) => updateRow(index, { startMonth: v })} />
+                                    <SmallInput label={`${t('calculators.employee_roi.annual_salary')} (${currencySymbol})`} value={row.annualSalary} onChange={(v) => updateRow(index, { annualSalary: v })} />
+                                    <SmallInput label={t('calculators.employee_roi.plan.benefits_ratio')} value={row.benefitsRatio} onChange={(v) => updateRow(index, { benefitsRatio: v })} />
+                                    <SmallInput label={`${t('calculators.employee_roi.onboarding_costs')} (${currencySymbol})`} value={row.onboardingCost} onChange={(v) => updateRow(index, { onboardingCost: v })} />
+                                    <SmallInput label={`${t('calculators.employee_roi.plan.annual_revenue')} (${currencySymbol})`} value={row.annualRevenue} onChange={(v) => updateRow(index, { annualRevenue: v })} />
+                                    <SmallInput label={t('calculators.employee_roi.plan.ramp_months')} value={row.rampUpMonths} onChange={(v) => updateRow(index, { rampUpMonths: v })} />
+                                </View>
+                                <View className="flex-row gap-2">
+                                    <Chip label={t('calculators.employee_roi.plan.ramp_linear')} active={row.rampCurve === 'linear'} onPress={() => updateRow(index, { rampCurve: 'linear' })} />
+                                    <Chip label={t('calculators.employee_roi.plan.ramp_s_curve')} active={row.rampCurve === 's_curve'} onPress={() => updateRow(index, { rampCurve: 's_curve' })} />
+                                </View>
+                            </View>
+                        ))}
+                    </View>
+
+                    <View className="mt-4">
+                        <OutlineButton onPress={() => setRows((current) => [...current, newHireRow(`${t('calculators.employee_roi.plan.hire')} ${current.length + 1}`, '1')])}>
+                            + {t('calculators.employee_roi.plan.add_hire')}
+                        </OutlineButton>
+                    </View>
+                </GlassCard>
+            </View>
+
+            <View className={isSmall ? 'w-full gap-4' : 'flex-1 gap-4'}>
+                {plan && lastMonth ? (
+                    <>
+                        <View className="flex-row flex-wrap gap-4">
+                            <View className="flex-1 min-w-[140px]">
+                                <GlassCard>
+                                    <Text className="text-gray-400 text-xs">{t('calculators.employee_roi.plan.team_roi')}</Text>
+                                    <Text className={`text-2xl font-bold ${plan.teamROI >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>{plan.teamROI.toFixed(0)}%</Text>
+                                </GlassCard>
+                            </View>
+                            <View className="flex-1 min-w-[140px]">
+                                <GlassCard>
+                                    <Text className="text-gray-400 text-xs">{t('calculators.employee_roi.plan.team_break_even')}</Text>
+                                    <Text className="text-2xl font-bold text-white">
+                                        {plan.teamBreakEvenMonth !== null
+                                            ? t('calculators.employee_roi.plan.month_n', { month: String(plan.teamBreakEvenMonth) })
+                                            : t('calculators.employee_roi.plan.not_reached')}
+                                    </Text>
+                                </GlassCard>
+                            </View>
+                            <View className="flex-1 min-w-[140px]">
+                                <GlassCard>
+                                    <Text className="text-gray-400 text-xs">{t('calculators.employee_roi.plan.peak_payroll')}</Text>
+                                    <Text className="text-2xl font-bold text-white">{currencySymbol}{plan.peakMonthlyPayroll.toLocaleString()}</Text>
+                                    <Text className="text-gray-500 text-xs">{t('calculators.employee_roi.plan.headcount', { count: String(plan.peakHeadcount) })}</Text>
+                                </GlassCard>
+                            </View>
+                        </View>
+
+                        <GlassCard>
+                            <View className="flex-row items-center gap-2 mb-4"><IconLabel icon="chart" size={18} /><Text className="text-white font-semibold">{t('calculators.employee_roi.plan.monthly_title')}</Text></View>
+                            <View className="flex-row items-end gap-px" style={{ height: CHART_HEIGHT }}>
+                                {plan.months.map((month) => (
+                                    <View key={month.month} className="flex-1 flex-row items-end gap-px">
+                                        <View className="flex-1 bg-rose-400/70 rounded-t" style={{ height: (month.cost / maxBar) * CHART_HEIGHT }} />
+                                        <View className="flex-1 bg-emerald-400/80 rounded-t" style={{ height: (month.revenue / maxBar) * CHART_HEIGHT }} />
+                                    </View>
+                                ))}
+                            </View>
+                            <View className="flex-row justify-between mt-2">
+                                <Text className="text-gray-500 text-xs">{t('calculators.employee_roi.plan.month_n', { month: '1' })}</Text>
+                                <Text className="text-gray-500 text-xs">{t('calculators.employee_roi.plan.month_n', { month: String(lastMonth.month) })}</Text>
+                            </View>
+                            <View className="flex-row gap-4 mt-3">
+                                <View className="flex-row items-center gap-1"><View className="w-3 h-3 bg-rose-400/70 rounded" /><Text className="text-gray-400 text-xs">{t('calculators.employee_roi.plan.cost')}</Text></View>
+                                <View className="flex-row items-center gap-1"><View className="w-3 h-3 bg-emerald-400/80 rounded" /><Text className="text-gray-400 text-xs">{t('calculators.employee_roi.plan.revenue')}</Text></View>
+                            </View>
+                            <Text className="text-gray-300 text-sm mt-3">
+                                {t('calculators.employee_roi.plan.cumulative', {
+                                    cost: `${currencySymbol}${lastMonth.cumulativeCost.toLocaleString()}`,
+                                    revenue: `${currencySymbol}${lastMonth.cumulativeRevenue.toLocaleString()}`,
+                                    roi: lastMonth.cumulativeROI.toFixed(0),
+                                })}
+                            </Text>
+                        </GlassCard>
+
+                        <GlassCard>
+                            <View className="flex-row items-center gap-2 mb-4"><IconLabel icon="target" size={18} /><Text className="text-white font-semibold">{t('calculators.employee_roi.plan.by_hire')}</Text></View>
+                            <View className="flex-row border-b border-white/10 pb-2 mb-2">
+                                <Text className="flex-1 text-gray-400 text-xs">{t('calculators.employee_roi.plan.role')}</Text>
+                                <Text className="flex-1 text-gray-400 text-xs text-right">{t('calculators.employee_roi.plan.full_productivity')}</Text>
+                                <Text className="flex-1 text-gray-400 text-xs text-right">{t('calculators.employee_roi.plan.break_even')}</Text>
+                                <Text className="flex-1 text-gray-400 text-xs text-right">ROI</Text>
+                            </View>
+                            {plan.hires.map((hire, index) => (
+                                <View key={index} className="flex-row py-2 border-b border-white/5">
+                                    <Text className="flex-1 text-white text-sm">{hire.role}</Text>
+                                    <Text className="flex-1 text-white text-sm text-right">{t('calculators.employee_roi.plan.month_n', { month: String(hire.fullProductivityMonth) })}</Text>
+                                    <Text className={`flex-1 text-sm text-right ${hire.breakEvenMonth !== null ? 'text-emerald-400' : 'text-amber-300'}`}>
+                                        {hire.breakEvenMonth !== null
+                                            ? t('calculators.employee_roi.plan.month_n', { month: String(hire.breakEvenMonth) })
+                                            : t('calculators.employee_roi.plan.not_reached')}
+                                    </Text>
+                                    <Text className={`flex-1 text-sm text-right ${hire.roi >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>{hire.roi.toFixed(0)}%</Text>
+                                </View>
+                            ))}
+                        </GlassCard>
+
+                        <GlassCard>
+                            <View className="flex-row items-center gap-2 mb-2"><IconLabel icon="money" size={18} /><Text className="text-white font-semibold">{t('calculators.employee_roi.plan.cost_lines_title')}</Text></View>
+                            <Text className="text-gray-400 text-xs mb-3">{t('calculators.employee_roi.plan.cost_lines_hint')}</Text>
+                            {costLines.map((line) => (
+                                <View key={line.id} className="flex-row justify-between py-1">
+                                    <Text className="text-gray-300 text-sm flex-1">{line.name}</Text>
+                                    <Text className="text-white text-sm">
+                                        {currencySymbol}{line.amount.toLocaleString()} · {line.endMonth !== undefined
+                                            ? t('calculators.employee_roi.plan.month_n', { month: String(line.startMonth) })
+                                            : t('calculators.employee_roi.plan.from_month', { month: String(line.startMonth) })}
+                                    </Text>
+                                </View>
+                            ))}
+
+                            {projects.length > 0 ? (
+                                <View className="mt-4 gap-2">
+                                    <Text className="text-gray-300 text-sm font-medium">{t('calculators.employee_roi.plan.target_project')}</Text>
+                                    <View className="flex-row flex-wrap gap-2">
+                                        {projects.map((project) => (
+                                            <Pressable
+                                                key={project.id}
+                                                onPress={() => setTargetProjectId(project.id)}
+                                                className={`px-3 py-2 rounded-lg border ${targetProjectId === project.id ? 'bg-white border-white' : 'bg-slate-800 border-white/10'}`}
+                                            >
+                                                <Text className={`text-xs font-semibold ${targetProjectId === project.id ? 'text-black' : 'text-gray-300'}`}>{project.name}</Text>
+                                            </Pressable>
+                                        ))}
+                                    </View>
+                                    <View className={targetProjectId && !applying ? '' : 'opacity-50'}>
+                                        <OutlineButton onPress={addToProject}>
+                                            {applying ? t('common.saving') : t('calculators.employee_roi.plan.add_to_project')}
+                                        </OutlineButton>
+                                    </View>
+                                </View>
+                            ) : (
+                                <Text className="text-gray-500 text-xs mt-4">{t('calculators.employee_roi.plan.no_line_item_projects')}</Text>
+                            )}
+                        </GlassCard>
+                    </>
+                ) : (
+                    <GlassCard>
+                        <View className="items-center py-12">
+                            <Ionicons name="people" size={48} color="#6b7280" />
+                            <Text className="text-gray-400 mt-4 text-center">{t('calculators.employee_roi.plan.invalid')}</Text>
+                        </View>
+                    </GlassCard>
+                )}
+            </View>
+        </View>
+    );
+}
+
 function ROIGauge({ roi }: { roi: number }) {
     const getColor = () => {
         if (roi >= 100) return { bg: 'bg-[#86EFAC]', text: 'text-emerald-400' };
@@ -103,13 +410,17 @@ function ROIGauge({ roi }: { roi: number }) {
 
 export default function EmployeeROIPage() {
     const { t } = useTranslation();
+    const { currency } = useReportingCurrency();
+    const currencySymbol = Money.symbolFor(currency);
     const [exporting, setExporting] = useState(false);
+    const [exportingXlsx, setExportingXlsx] = useState(false);
     const [annualSalary, setAnnualSalary] = useState('60000');
     const [annualBenefits, setAnnualBenefits] = useState('12000');
     const [onboardingCosts, setOnboardingCosts] = useState('5000');
     const [revenueGenerated, setRevenueGenerated] = useState('150000');
     const [hoursPerWeek, setHoursPerWeek] = useState('40');
     const [roleType, setRoleType] = useState('operations');
+    const [view, setView] = useState<'single' | 'plan'>('single');
 
     const calculator = useMemo(() => new EmployeeROICalculator(), []);
 
@@ -188,6 +499,27 @@ export default function EmployeeROIPage() {
         }
     };
 
+    const handleExportXlsx = async () => {
+        if (!result || exportingXlsx) return;
+
+        setExportingXlsx(true);
+        try {
+            await exportXlsx(buildEmployeeROIWorkbook({
+                annualSalary: parseFloat(annualSalary) || 0,
+                annualBenefits: parseFloat(annualBenefits) || 0,
+                onboardingCosts: parseFloat(onboardingCosts) || 0,
+                revenueGenerated: parseFloat(revenueGenerated) || 0,
+                hoursPerWeek: parseFloat(hoursPerWeek) || 0,
+                roleType,
+            }), 'employee-roi');
+        } catch (error) {
+            console.error('Error exporting workbook:', error);
+            Alert.alert(t('common.error'), t('xlsx_export.error'));
+        } finally {
+            setExportingXlsx(false);
+        }
+    };
+
     const isSmall = Dimensions.get('window').width < 600;
 
     return (
@@ -215,168 +547,181 @@ export default function EmployeeROIPage() {
                     />
                 </View>
 
-                <View className={isSmall ? 'gap-6' : 'flex-row gap-6 items-start'}>
-                    {/* Form */}
-                    <View className={isSmall ? 'w-full' : 'flex-1'}>
-                        <GlassCard>
-                            <Text className="text-white font-semibold text-lg mb-6">
-                                {t('calculators.enter_data')}
-                            </Text>
-
-                            <RoleSelector selected={roleType} onSelect={setRoleType} t={t} />
-
-                            <InputField
-                                label={t('calculators.employee_roi.annual_salary')}
-                                value={annualSalary}
-                                onChange={setAnnualSalary}
-                                prefix="$"
-                            />
-
-                            <InputField
-                                label={t('calculators.employee_roi.additional_costs')}
-                                value={annualBenefits}
-                                onChange={setAnnualBenefits}
-                                prefix="$"
-                            />
-
-                            <InputField
-                                label={t('calculators.employee_roi.onboarding_costs')}
-                                value={onboardingCosts}
-                                onChange={setOnboardingCosts}
-                                prefix="$"
-                                hint={t('calculators.employee_roi.onboarding_hint')}
-                            />
-
-                            <InputField
-                                label={t('calculators.employee_roi.expected_revenue')}
-                                value={revenueGenerated}
-                                onChange={setRevenueGenerated}
-                                prefix="$"
-                            />
-
-                            <InputField
-                                label={t('calculators.employee_roi.hours_per_week')}
-                                value={hoursPerWeek}
-                                onChange={setHoursPerWeek}
-                                suffix="hrs"
-                            />
-                        </GlassCard>
-                    </View>
-
-                    {/* Results */}
-                    <View className={isSmall ? 'w-full gap-4' : 'flex-1 gap-4'}>
-                        {result ? (
-                            <>
-                                {/* Main Result */}
-                                <GlassCard gradient className="items-center py-8">
-                                    <ROIGauge roi={result.roiPercentage} />
-                                    <View className="flex-row gap-4 mt-6">
-                                        <Badge variant={result.isViable ? 'success' : 'danger'}>
-                                            {result.isViable ? 'VIABLE' : 'RISKY'}
-                                        </Badge>
-                                    </View>
-                                </GlassCard>
-
-                                {/* Metrics */}
-                                <View className="flex-row flex-wrap gap-4">
-                                    <GlassCard className="flex-1 min-w-[140px]">
-                                        <Text className="text-gray-400 text-sm">{t('calculators.employee_roi.total_cost')}</Text>
-                                        <Text className="text-2xl font-bold text-white">
-                                            ${result.totalCost.toLocaleString()}
-                                        </Text>
-                                        <Text className="text-gray-400 text-xs">{t('calculators.employee_roi.first_year')}</Text>
-                                    </GlassCard>
-
-                                    <GlassCard className="flex-1 min-w-[140px]">
-                                        <Text className="text-gray-400 text-sm">{t('calculators.employee_roi.net_benefit')}</Text>
-                                        <Text className={`text-2xl font-bold ${result.netContribution >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>
-                                            ${result.netContribution.toLocaleString()}
-                                        </Text>
-                                        <Text className="text-gray-400 text-xs">{t('calculators.employee_roi.revenue_minus_cost')}</Text>
-                                    </GlassCard>
-
-                                    <GlassCard className="flex-1 min-w-[140px]">
-                                        <Text className="text-gray-400 text-sm">{t('calculators.employee_roi.per_dollar_invested')}</Text>
-                                        <Text className="text-2xl font-bold text-indigo-400">
-                                            ${result.revenuePerDollarSpent != null ? result.revenuePerDollarSpent.toFixed(2) : '0.00'}
-                                        </Text>
-                                        <Text className="text-gray-400 text-xs">{t('calculators.employee_roi.return')}</Text>
-                                    </GlassCard>
-                                </View>
+                <View className="flex-row gap-2 mb-6">
+                    <Chip label={t('calculators.employee_roi.plan.single_view')} active={view === 'single'} onPress={() => setView('single')} />
+                    <Chip label={t('calculators.employee_roi.plan.plan_view')} active={view === 'plan'} onPress={() => setView('plan')} />
+                </View>
 
-                                {/* Productivity */}
-                                <GlassCard>
-                                    <View className="flex-row items-center gap-2 mb-4"><IconLabel icon="chart" size={18} /><Text className="text-white font-semibold">{t('calculators.employee_roi.productivity_title')}</Text></View>
-                                    <View className="flex-row justify-between">
-                                        <View className="items-center flex-1">
-                                            <Text className="text-gray-400 text-xs">{t('calculators.employee_roi.cost_per_hour')}</Text>
-                                            <Text className="text-white text-xl font-bold">${result.costPerHour}</Text>
-                                        </View>
-                                        <View className="items-center flex-1">
-                                            <Text className="text-gray-400 text-xs">{t('calculators.employee_roi.revenue_per_hour')}</Text>
-                                            <Text className="text-emerald-400 text-xl font-bold">${result.revenuePerHour}</Text>
-                                        </View>
-                                        <View className="items-center flex-1">
-                                            <Text className="text-gray-400 text-xs">{t('calculators.employee_roi.ratio')}</Text>
-                                            <Text className="text-indigo-400 text-xl font-bold">{result.productivityRatio}x</Text>
-                                        </View>
-                                    </View>
+                {view === 'plan' ? (
+                    <HiringPlanView calculator={calculator} currencySymbol={currencySymbol} isSmall={isSmall} t={t} />
+                ) : (
+                    <View className={isSmall ? 'gap-6' : 'flex-row gap-6 items-start'}>
+                        {/* Form */}
+                        <View className={isSmall ? 'w-full' : 'flex-1'}>
+                            <GlassCard>
+                                <Text className="text-white font-semibold text-lg mb-6">
+                                    {t('calculators.enter_data')}
+                                </Text>
 
-                                    <View className="mt-4 pt-4 border-t border-white/10">
-                                        <View className="flex-row items-center gap-2">
-                                            <Badge variant={result.benchmarkComparison.productivityLevel === 'high' ? 'success' : result.benchmarkComparison.productivityLevel === 'low' ? 'danger' : 'warning'}>
-                                                {`${t('calculators.employee_roi.productivity_label')} ${t(`calculators.employee_roi.productivity_levels.${result.benchmarkComparison.productivityLevel}`)}`}
+                                <RoleSelector selected={roleType} onSelect={setRoleType} t={t} />
+
+                                <InputField
+                                    label={t('calculators.employee_roi.annual_salary')}
+                                    value={annualSalary}
+                                    onChange={setAnnualSalary}
+                                    prefix={currencySymbol}
+                                />
+
+                                <InputField
+                                    label={t('calculators.employee_roi.additional_costs')}
+                                    value={annualBenefits}
+                                    onChange={setAnnualBenefits}
+                                    prefix={currencySymbol}
+                                />
+
+                                <InputField
+                                    label={t('calculators.employee_roi.onboarding_costs')}
+                                    value={onboardingCosts}
+                                    onChange={setOnboardingCosts}
+                                    prefix={currencySymbol}
+                                    hint={t('calculators.employee_roi.onboarding_hint')}
+                                />
+
+                                <InputField
+                                    label={t('calculators.employee_roi.expected_revenue')}
+                                    value={revenueGenerated}
+                                    onChange={setRevenueGenerated}
+                                    prefix={currencySymbol}
+                                />
+
+                                <InputField
+                                    label={t('calculators.employee_roi.hours_per_week')}
+                                    value={hoursPerWeek}
+                                    onChange={setHoursPerWeek}
+                                    suffix="hrs"
+                                />
+                            </GlassCard>
+                        </View>
+
+                        {/* Results */}
+                        <View className={isSmall ? 'w-full gap-4' : 'flex-1 gap-4'}>
+                            {result ? (
+                                <>
+                                    {/* Main Result */}
+                                    <GlassCard gradient className="items-center py-8">
+                                        <ROIGauge roi={result.roiPercentage} />
+                                        <View className="flex-row gap-4 mt-6">
+                                            <Badge variant={result.isViable ? 'success' : 'danger'}>
+                                                {result.isViable ? 'VIABLE' : 'RISKY'}
                                             </Badge>
-                                            <Text className="text-gray-400 text-xs">{t('calculators.employee_roi.vs_industry')}</Text>
                                         </View>
+                                    </GlassCard>
+
+                                    {/* Metrics */}
+                                    <View className="flex-row flex-wrap gap-4">
+                                        <GlassCard className="flex-1 min-w-[140px]">
+                                            <Text className="text-gray-400 text-sm">{t('calculators.employee_roi.total_cost')}</Text>
+                                            <Text className="text-2xl font-bold text-white">
+                                                ${result.totalCost.toLocaleString()}
+                                            </Text>
+                                            <Text className="text-gray-400 text-xs">{t('calculators.employee_roi.first_year')}</Text>
+                                        </GlassCard>
+
+                                        <GlassCard className="flex-1 min-w-[140px]">
+                                            <Text className="text-gray-400 text-sm">{t('calculators.employee_roi.net_benefit')}</Text>
+                                            <Text className={`text-2xl font-bold ${result.netContribution >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>
+                                                ${result.netContribution.toLocaleString()}
+                                            </Text>
+                                            <Text className="text-gray-400 text-xs">{t('calculators.employee_roi.revenue_minus_cost')}</Text>
+                                        </GlassCard>
+
+                                        <GlassCard className="flex-1 min-w-[140px]">
+                                            <Text className="text-gray-400 text-sm">{t('calculators.employee_roi.per_dollar_invested')}</Text>
+                                            <Text className="text-2xl font-bold text-indigo-400">
+                                                ${result.revenuePerDollarSpent != null ? result.revenuePerDollarSpent.toFixed(2) : '0.00'}
+                                            </Text>
+                                            <Text className="text-gray-400 text-xs">{t('calculators.employee_roi.return')}</Text>
+                                        </GlassCard>
                                     </View>
-                                </GlassCard>
 
-                                {/* Payback */}
-                                {result.paybackMonths && (
+                                    {/* Productivity */}
                                     <GlassCard>
-                                        <View className="flex-row items-center gap-3">
-                                            <IconLabel icon="flash" size={28} color="#00C0D4" />
-                                            <View>
-                                                <Text className="text-white font-bold">{t('calculators.employee_roi.payback')}</Text>
-                                                <Text className="text-indigo-400">
-                                                    {result.paybackMonths} {t('calculators.employee_roi.months')} {t('calculators.employee_roi.payback_desc')}
-                                                </Text>
+                                        <View className="flex-row items-center gap-2 mb-4"><IconLabel icon="chart" size={18} /><Text className="text-white font-semibold">{t('calculators.employee_roi.productivity_title')}</Text></View>
+                                        <View className="flex-row justify-between">
+                                            <View className="items-center flex-1">
+                                                <Text className="text-gray-400 text-xs">{t('calculators.employee_roi.cost_per_hour')}</Text>
+                                                <Text className="text-white text-xl font-bold">${result.costPerHour}</Text>
+                                            </View>
+                                            <View className="items-center flex-1">
+                                                <Text className="text-gray-400 text-xs">{t('calculators.employee_roi.revenue_per_hour')}</Text>
+                                                <Text className="text-emerald-400 text-xl font-bold">${result.revenuePerHour}</Text>
+                                            </View>
+                                            <View className="items-center flex-1">
+                                                <Text className="text-gray-400 text-xs">{t('calculators.employee_roi.ratio')}</Text>
+                                                <Text className="text-indigo-400 text-xl font-bold">{result.productivityRatio}x</Text>
                                             </View>
                                         </View>
-                                    </GlassCard>
-                                )}
 
-                                {/* Recommendations */}
-                                {recommendations.length > 0 && (
-                                    <GlassCard>
-                                        <View className="flex-row items-center gap-2 mb-4"><IconLabel icon="bulb" size={18} /><Text className="text-white font-semibold">{t('calculators.recommendations')}</Text></View>
-                                        <View className="gap-2">
-                                            {recommendations.map((rec, i) => (
-                                                <Text key={i} className="text-gray-300">• {rec}</Text>
-                                            ))}
+                                        <View className="mt-4 pt-4 border-t border-white/10">
+                                            <View className="flex-row items-center gap-2">
+                                                <Badge variant={result.benchmarkComparison.productivityLevel === 'high' ? 'success' : result.benchmarkComparison.productivityLevel === 'low' ? 'danger' : 'warning'}>
+                                                    {`${t('calculators.employee_roi.productivity_label')} ${t(`calculators.employee_roi.productivity_levels.${result.benchmarkComparison.productivityLevel}`)}`}
+                                                </Badge>
+                                                <Text className="text-gray-400 text-xs">{t('calculators.employee_roi.vs_industry')}</Text>
+                                            </View>
                                         </View>
                                     </GlassCard>
-                                )}
-
-                                <GradientButton
-                                    size="lg"
-                                    onPress={exporting ? undefined : handleExportPDF}
-                                    className={exporting ? 'opacity-50' : ''}
-                                >
-                                    📄 {exporting ? t('common.exporting') : t('calculators.export_pdf')}
-                                </GradientButton>
-                            </>
-                        ) : (
-                            <GlassCard className="items-center py-12">
-                                <Ionicons name="people" size={48} color="#6b7280" />
-                                <Text className="text-gray-400 mt-4 text-center">
-                                    {t('calculators.no_data')}
-                                </Text>
-                            </GlassCard>
-                        )}
+
+                                    {/* Payback */}
+                                    {result.paybackMonths && (
+                                        <GlassCard>
+                                            <View className="flex-row items-center gap-3">
+                                                <IconLabel icon="flash" size={28} color="#00C0D4" />
+                                                <View>
+                                                    <Text className="text-white font-bold">{t('calculators.employee_roi.payback')}</Text>
+                                                    <Text className="text-indigo-400">
+                                                        {result.paybackMonths} {t('calculators.employee_roi.months')} {t('calculators.employee_roi.payback_desc')}
+                                                    </Text>
+                                                </View>
+                                            </View>
+                                        </GlassCard>
+                                    )}
+
+                                    {/* Recommendations */}
+                                    {recommendations.length > 0 && (
+                                        <GlassCard>
+                                            <View className="flex-row items-center gap-2 mb-4"><IconLabel icon="bulb" size={18} /><Text className="text-white font-semibold">{t('calculators.recommendations')}</Text></View>
+                                            <View className="gap-2">
+                                                {recommendations.map((rec, i) => (
+                                                    <Text key={i} className="text-gray-300">• {rec}</Text>
+                                                ))}
+                                            </View>
+                                        </GlassCard>
+                                    )}
+
+                                    <GradientButton
+                                        size="lg"
+                                        onPress={exporting ? undefined : handleExportPDF}
+                                        className={exporting ? 'opacity-50' : ''}
+                                    >
+                                        📄 {exporting ? t('common.exporting') : t('calculators.export_pdf')}
+                                    </GradientButton>
+
+                                    <OutlineButton onPress={handleExportXlsx}>
+                                        📊 {exportingXlsx ? t('common.exporting') : t('xlsx_export.button')}
+                                    </OutlineButton>
+                                </>
+                            ) : (
+                                <GlassCard className="items-center py-12">
+                                    <Ionicons name="people" size={48} color="#6b7280" />
+                                    <Text className="text-gray-400 mt-4 text-center">
+                                        {t('calculators.no_data')}
+                                    </Text>
+                                </GlassCard>
+                            )}
+                        </View>
                     </View>
-                </View>
+                )}
             </View>
         </ScrollView>
     );
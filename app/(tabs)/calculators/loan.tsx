@@ -4,6 +4,7 @@ import { Ionicons } from '@expo/vector-icons';
 import {
     GlassCard,
     GradientButton,
+    OutlineButton,
     SectionHeading,
     Badge,
 } from '@/components/landing/shared-components';
@@ -11,8 +12,70 @@ import { IconLabel } from '@/components/ui/icon-label';
 import { router } from 'expo-router';
 import { LoanCalculator } from '@/lib/infrastructure/calculators/LoanCalculator';
 import { useTranslation } from '@/lib/i18n-context';
+import { useReportingCurrency } from '@/hooks/use-reporting-currency';
+import { Money } from '@/lib/domain/value-objects/Money';
 import { LanguageSelector } from '@/components/language-selector';
 import { generateLoanPDF, printPDF } from '@/lib/export/pdf-generator';
+import { buildLoanWorkbook } from '@/lib/export/xlsx-workbooks';
+import { exportXlsx } from '@/lib/export/xlsx-export';
+import { formatCurrency } from '@/lib/utils';
+import type { LoanInput, LoanPrepaymentStrategy, LoanRateStep } from '@/types/project';
+
+type RateType = 'fixed' | 'step' | 'variable';
+
+interface RateRow {
+    month: string;
+    rate: string;
+}
+
+interface PrepaymentRow {
+    month: string;
+    amount: string;
+    strategy: LoanPrepaymentStrategy;
+}
+
+interface OfferRow {
+    name: string;
+    rate: string;
+    term: string;
+    fee: string;
+    grace: string;
+    balloon: string;
+}
+
+const toNumber = (value: string) => parseFloat(value) || 0;
+
+function Chip({ label, active, onPress }: { label: string; active: boolean; onPress: () => void }) {
+    return (
+        <Pressable
+            onPress={onPress}
+            className={`flex-1 py-2 rounded-lg border ${active ? 'bg-white border-white' : 'bg-slate-800 border-white/10'}`}
+        >
+            <Text className={`text-center text-xs font-semibold ${active ? 'text-black' : 'text-gray-300'}`}>{label}</Text>
+        </Pressable>
+    );
+}
+
+function SmallInput({ value, onChange, placeholder }: { value: string; onChange: (val: string) => void; placeholder?: string }) {
+    return (
+        <TextInput
+            className="flex-1 bg-slate-800 rounded-lg border border-white/10 px-3 py-2 text-white"
+            value={value}
+            onChangeText={onChange}
+            placeholder={placeholder}
+            placeholderTextColor="#6b7280"
+            keyboardType="numeric"
+        />
+    );
+}
+
+function RemoveButton({ onPress }: { onPress: () => void }) {
+    return (
+        <Pressable onPress={onPress} className="p-2">
+            <Ionicons name="close-circle" size={20} color="#9ca3af" />
+        </Pressable>
+    );
+}
 
 function InputField({
     label, value, onChange, prefix, suffix, hint,
@@ -82,36 +145,98 @@ function AmortizationPreview({ schedule, t }: { schedule: Array<{ month: number;
 
 export default function LoanPage() {
     const { t } = useTranslation();
+    const { currency } = useReportingCurrency();
+    const currencySymbol = Money.symbolFor(currency);
     const [exporting, setExporting] = useState(false);
+    const [exportingXlsx, setExportingXlsx] = useState(false);
     const [principal, setPrincipal] = useState('100000');
     const [interestRate, setInterestRate] = useState('8.5');
     const [termMonths, setTermMonths] = useState('60');
     const [monthlyRevenue, setMonthlyRevenue] = useState('50000');
     const [monthlyExpenses, setMonthlyExpenses] = useState('40000');
+    const [mode, setMode] = useState<'single' | 'compare'>('single');
+    const [originationFee, setOriginationFee] = useState('');
+    const [graceMonths, setGraceMonths] = useState('');
+    const [balloon, setBalloon] = useState('');
+    const [rateType, setRateType] = useState<RateType>('fixed');
+    const [spread, setSpread] = useState('3');
+    const [rateRows, setRateRows] = useState<RateRow[]>([]);
+    const [prepayments, setPrepayments] = useState<PrepaymentRow[]>([]);
+    const [offers, setOffers] = useState<OfferRow[]>([
+        { name: 'A', rate: '8.5', term: '60', fee: '1', grace: '', balloon: '' },
+        { name: 'B', rate: '7.9', term: '60', fee: '3', grace: '', balloon: '' },
+    ]);
 
     const calculator = useMemo(() => new LoanCalculator(), []);
 
+    const loanInput = useMemo((): LoanInput | null => {
+        const princ = parseFloat(principal) || 0;
+        const rate = parseFloat(interestRate) || 0;
+        const term = parseInt(termMonths) || 0;
+
+        if (princ <= 0 || rate < 0 || term <= 0) return null;
+
+        const ratePath: LoanRateStep[] = rateRows
+            .filter((row) => parseInt(row.month) > 0 && row.rate !== '')
+            .map((row) => ({ month: parseInt(row.month), annualRate: toNumber(row.rate) }));
+
+        return {
+            principal: princ,
+            annualInterestRate: rate,
+            termMonths: term,
+            monthlyRevenue: monthlyRevenue ? parseFloat(monthlyRevenue) : undefined,
+            monthlyExpenses: monthlyExpenses ? parseFloat(monthlyExpenses) : undefined,
+            originationFee: originationFee ? toNumber(originationFee) : undefined,
+            gracePeriodMonths: graceMonths ? parseInt(graceMonths) || 0 : undefined,
+            balloonPayment: balloon ? toNumber(balloon) : undefined,
+            rateSteps: rateType === 'step' ? ratePath : undefined,
+            variableRate: rateType === 'variable' ? { spread: toNumber(spread), baseRatePath: ratePath } : undefined,
+            prepayments: prepayments
+                .filter((row) => parseInt(row.month) > 0 && toNumber(row.amount) > 0)
+                .map((row) => ({ month: parseInt(row.month), amount: toNumber(row.amount), strategy: row.strategy })),
+        };
+    }, [principal, interestRate, termMonths, monthlyRevenue, monthlyExpenses, originationFee, graceMonths, balloon, rateType, spread, rateRows, prepayments]);
+
     const result = useMemo(() => {
+        if (!loanInput) return null;
         try {
-            const princ = parseFloat(principal) || 0;
-            const rate = parseFloat(interestRate) || 0;
-            const term = parseInt(termMonths) || 0;
-            const revenue = monthlyRevenue ? parseFloat(monthlyRevenue) : undefined;
-            const expenses = monthlyExpenses ? parseFloat(monthlyExpenses) : undefined;
-
-            if (princ <= 0 || rate < 0 || term <= 0) return null;
+            return calculator.calculate(loanInput);
+        } catch {
+            return null;
+        }
+    }, [loanInput, calculator]);
 
-            return calculator.calculate({
+    // Offers share the loan amount and are ranked by total cost and effective rate
+    const comparison = useMemo(() => {
+        const princ = parseFloat(principal) || 0;
+        const valid = offers.filter((offer) => toNumber(offer.term) > 0);
+        if (mode !== 'compare' || princ <= 0 || valid.length < 2) return null;
+        try {
+            const ranked = calculator.compareLoanOptions(valid.map((offer) => ({
                 principal: princ,
-                annualInterestRate: rate,
-                termMonths: term,
-                monthlyRevenue: revenue,
-                monthlyExpenses: expenses,
-            });
+                annualInterestRate: toNumber(offer.rate),
+                termMonths: parseInt(offer.term) || 0,
+                originationFee: offer.fee ? toNumber(offer.fee) : undefined,
+                gracePeriodMonths: offer.grace ? parseInt(offer.grace) || 0 : undefined,
+                balloonPayment: offer.balloon ? toNumber(offer.balloon) : undefined,
+            })));
+            return {
+                ...ranked,
+                options: ranked.options
+                    .map((option, index) => ({ ...option, name: valid[index].name || `${index + 1}` }))
+                    .sort((a, b) => a.costRank - b.costRank),
+            };
         } catch {
             return null;
         }
-    }, [principal, interestRate, termMonths, monthlyRevenue, monthlyExpenses, calculator]);
+    }, [mode, principal, offers, calculator]);
+
+    const updateRateRow = (index: number, patch: Partial<RateRow>) =>
+        setRateRows((rows) => rows.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+    const updatePrepayment = (index: number, patch: Partial<PrepaymentRow>) =>
+        setPrepayments((rows) => rows.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+    const updateOffer = (index: number, patch: Partial<OfferRow>) =>
+        setOffers((rows) => rows.map((row, i) => (i === index ? { ...row, ...patch } : row)));
 
     // Generate recommendations using translations
     const recommendations = useMemo(() => {
@@ -131,11 +256,24 @@ export default function LoanPage() {
             }));
         }
 
+        if (result.structure.balloonPayment > 0) {
+            recs.push(t('calculators.loan.recommendations.balloon', {
+                amount: formatCurrency(result.structure.balloonPayment, currency),
+                month: String(result.structure.payoffMonth),
+            }));
+        }
+
+        if (result.structure.maxPayment > result.structure.minPayment * 1.1) {
+            recs.push(t('calculators.loan.recommendations.rate_changes', {
+                amount: formatCurrency(result.structure.maxPayment, currency),
+            }));
+        }
+
         recs.push(t('calculators.loan.recommendations.compare_options'));
         recs.push(t('calculators.loan.recommendations.negotiate_terms'));
 
         return recs;
-    }, [result, t]);
+    }, [result, t, currency]);
 
     const handleExportPDF = async () => {
         if (!result) return;
@@ -143,6 +281,7 @@ export default function LoanPage() {
         setExporting(true);
         try {
             const html = generateLoanPDF({
+                currency,
                 inputs: {
                     principal: parseFloat(principal) || 0,
                     annualInterestRate: parseFloat(interestRate) || 0,
@@ -163,6 +302,25 @@ export default function LoanPage() {
         }
     };
 
+    const handleExportXlsx = async () => {
+        if (!result || exportingXlsx) return;
+
+        setExportingXlsx(true);
+        try {
+            await exportXlsx(buildLoanWorkbook({
+                principal: parseFloat(principal) || 0,
+                annualInterestRate: parseFloat(interestRate) || 0,
+                termMonths: parseInt(termMonths) || 0,
+                originationFee: originationFee ? toNumber(originationFee) : undefined,
+            }), 'loan');
+        } catch (error) {
+            console.error('Error exporting workbook:', error);
+            Alert.alert(t('common.error'), t('xlsx_export.error'));
+        } finally {
+            setExportingXlsx(false);
+        }
+    };
+
     const isSmall = Dimensions.get('window').width < 600;
 
     return (
@@ -194,55 +352,260 @@ export default function LoanPage() {
                     {/* Form */}
                     <View className={isSmall ? 'w-full' : 'flex-1'}>
                         <GlassCard>
-                            <Text className="text-white font-semibold text-lg mb-6">
+                            <Text className="text-white font-semibold text-lg mb-4">
                                 {t('calculators.enter_data')}
                             </Text>
 
+                            <View className="flex-row gap-2 mb-6">
+                                <Chip label={t('calculators.loan.mode_single')} active={mode === 'single'} onPress={() => setMode('single')} />
+                                <Chip label={t('calculators.loan.mode_compare')} active={mode === 'compare'} onPress={() => setMode('compare')} />
+                            </View>
+
                             <InputField
                                 label={t('calculators.loan.loan_amount')}
                                 value={principal}
                                 onChange={setPrincipal}
-                                prefix="$"
-                            />
-
-                            <InputField
-                                label={t('calculators.loan.interest_rate')}
-                                value={interestRate}
-                                onChange={setInterestRate}
-                                suffix="%"
+                                prefix={currencySymbol}
                             />
 
-                            <InputField
-                                label={t('calculators.loan.term')}
-                                value={termMonths}
-                                onChange={setTermMonths}
-                                suffix={t('calculators.loan.months')}
-                            />
-
-                            <View className="h-px bg-white/10 my-4" />
-                            <Text className="text-gray-400 text-sm mb-4">
-                                {t('calculators.loan.affordability_analysis')}
-                            </Text>
-
-                            <InputField
-                                label={t('calculators.loan.monthly_income')}
-                                value={monthlyRevenue}
-                                onChange={setMonthlyRevenue}
-                                prefix="$"
-                            />
-
-                            <InputField
-                                label={t('calculators.loan.monthly_expenses')}
-                                value={monthlyExpenses}
-                                onChange={setMonthlyExpenses}
-                                prefix="$"
-                            />
+                            {mode === 'single' ? (
+                                <>
+                                <InputField
+                                    label={t('calculators.loan.interest_rate')}
+                                    value={interestRate}
+                                    onChange={setInterestRate}
+                                    suffix="%"
+                                />
+
+                                <InputField
+                                    label={t('calculators.loan.term')}
+                                    value={termMonths}
+                                    onChange={setTermMonths}
+                                    suffix={t('calculators.loan.months')}
+                                />
+
+                                    {/* Loan structure */}
+                                    <View className="h-px bg-white/10 my-4" />
+                                    <Text className="text-gray-400 text-sm mb-4">
+                                        {t('calculators.loan.structure_title')}
+                                    </Text>
+
+                                    <InputField
+                                        label={t('calculators.loan.origination_fee')}
+                                        value={originationFee}
+                                        onChange={setOriginationFee}
+                                        suffix="%"
+                                    />
+
+                                    <InputField
+                                        label={t('calculators.loan.grace_period')}
+                                        value={graceMonths}
+                                        onChange={setGraceMonths}
+                                        suffix={t('calculators.loan.months')}
+                                        hint={t('calculators.loan.grace_hint')}
+                                    />
+
+                                    <InputField
+                                        label={t('calculators.loan.balloon_payment')}
+                                        value={balloon}
+                                        onChange={setBalloon}
+                                        prefix={currencySymbol}
+                                        hint={t('calculators.loan.balloon_hint')}
+                                    />
+
+                                    <Text className="text-gray-300 font-medium mb-2">{t('calculators.loan.rate_type')}</Text>
+                                    <View className="flex-row gap-2 mb-3">
+                                        <Chip label={t('calculators.loan.rate_fixed')} active={rateType === 'fixed'} onPress={() => setRateType('fixed')} />
+                                        <Chip label={t('calculators.loan.rate_step')} active={rateType === 'step'} onPress={() => setRateType('step')} />
+                                        <Chip label={t('calculators.loan.rate_variable')} active={rateType === 'variable'} onPress={() => setRateType('variable')} />
+                                    </View>
+
+                                    {rateType !== 'fixed' && (
+                                        <View className="mb-4">
+                                            {rateType === 'variable' && (
+                                                <InputField
+                                                    label={t('calculators.loan.spread')}
+                                                    value={spread}
+                                                    onChange={setSpread}
+                                                    suffix="%"
+                                                    hint={t('calculators.loan.variable_hint')}
+                                                />
+                                            )}
+                                            <Text className="text-gray-400 text-xs mb-2">
+                                                {rateType === 'variable' ? t('calculators.loan.base_rate_path') : t('calculators.loan.rate_steps')}
+                                            </Text>
+                                            {rateRows.map((row, index) => (
+                                                <View key={index} className="flex-row items-center gap-2 mb-2">
+                                                    <SmallInput value={row.month} onChange={(month) => updateRateRow(index, { month })} placeholder={t('calculators.loan.from_month')} />
+                                                    <SmallInput value={row.rate} onChange={(rate) => updateRateRow(index, { rate })} placeholder="%" />
+                                                    <RemoveButton onPress={() => setRateRows((rows) => rows.filter((_, i) => i !== index))} />
+                                                </View>
+                                            ))}
+                                            <Pressable onPress={() => setRateRows((rows) => [...rows, { month: '', rate: '' }])} className="py-2">
+                                                <Text className="text-[#00C0D4] font-semibold">+ {t('calculators.loan.add_rate')}</Text>
+                                            </Pressable>
+                                        </View>
+                                    )}
+
+                                    <Text className="text-gray-300 font-medium mb-2">{t('calculators.loan.prepayments')}</Text>
+                                    {prepayments.map((row, index) => (
+                                        <View key={index} className="mb-3">
+                                            <View className="flex-row items-center gap-2 mb-2">
+                                                <SmallInput value={row.month} onChange={(month) => updatePrepayment(index, { month })} placeholder={t('calculators.loan.month')} />
+                                                <SmallInput value={row.amount} onChange={(amount) => updatePrepayment(index, { amount })} placeholder={currencySymbol} />
+                                                <RemoveButton onPress={() => setPrepayments((rows) => rows.filter((_, i) => i !== index))} />
+                                            </View>
+                                            <View className="flex-row gap-2">
+                                                <Chip
+                                                    label={t('calculators.loan.strategy_shorten')}
+                                                    active={row.strategy === 'shorten_term'}
+                                                    onPress={() => updatePrepayment(index, { strategy: 'shorten_term' })}
+                                                />
+                                                <Chip
+                                                    label={t('calculators.loan.strategy_reduce')}
+                                                    active={row.strategy === 'reduce_payment'}
+                                                    onPress={() => updatePrepayment(index, { strategy: 'reduce_payment' })}
+                                                />
+                                            </View>
+                                        </View>
+                                    ))}
+                                    <Pressable
+                                        onPress={() => setPrepayments((rows) => [...rows, { month: '', amount: '', strategy: 'shorten_term' }])}
+                                        className="py-2"
+                                    >
+                                        <Text className="text-[#00C0D4] font-semibold">+ {t('calculators.loan.add_prepayment')}</Text>
+                                    </Pressable>
+
+                                    <View className="h-px bg-white/10 my-4" />
+                                    <Text className="text-gray-400 text-sm mb-4">
+                                        {t('calculators.loan.affordability_analysis')}
+                                    </Text>
+
+                                    <InputField
+                                        label={t('calculators.loan.monthly_income')}
+                                        value={monthlyRevenue}
+                                        onChange={setMonthlyRevenue}
+                                        prefix={currencySymbol}
+                                    />
+
+                                    <InputField
+                                        label={t('calculators.loan.monthly_expenses')}
+                                        value={monthlyExpenses}
+                                        onChange={setMonthlyExpenses}
+                                        prefix={currencySymbol}
+                                    />
+                                </>
+                            ) : (
+                                <>
+                                    <Text className="text-gray-400 text-sm mb-4">{t('calculators.loan.offers_hint')}</Text>
+                                    {offers.map((offer, index) => (
+                                        <View key={index} className="mb-4 p-3 rounded-xl border border-white/10">
+                                            <View className="flex-row items-center gap-2 mb-2">
+                                                <TextInput
+                                                    className="flex-1 bg-slate-800 rounded-lg border border-white/10 px-3 py-2 text-white font-semibold"
+                                                    value={offer.name}
+                                                    onChangeText={(name) => updateOffer(index, { name })}
+                                                    placeholder={t('calculators.loan.offer_name')}
+                                                    placeholderTextColor="#6b7280"
+                                                />
+                                                {offers.length > 2 && (
+                                                    <RemoveButton onPress={() => setOffers((rows) => rows.filter((_, i) => i !== index))} />
+                                                )}
+                                            </View>
+                                            <View className="flex-row gap-2 mb-1">
+                                                <Text className="flex-1 text-gray-400 text-xs">{t('calculators.loan.interest_rate')} %</Text>
+                                                <Text className="flex-1 text-gray-400 text-xs">{t('calculators.loan.term')}</Text>
+                                                <Text className="flex-1 text-gray-400 text-xs">{t('calculators.loan.origination_fee')} %</Text>
+                                            </View>
+                                            <View className="flex-row gap-2 mb-2">
+                                                <SmallInput value={offer.rate} onChange={(rate) => updateOffer(index, { rate })} />
+                                                <SmallInput value={offer.term} onChange={(term) => updateOffer(index, { term })} />
+                                                <SmallInput value={offer.fee} onChange={(fee) => updateOffer(index, { fee })} />
+                                            </View>
+                                            <View className="flex-row gap-2 mb-1">
+                                                <Text className="flex-1 text-gray-400 text-xs">{t('calculators.loan.grace_period')}</Text>
+                                                <Text className="flex-1 text-gray-400 text-xs">{t('calculators.loan.balloon_payment')}</Text>
+                                            </View>
+                                            <View className="flex-row gap-2">
+                                                <SmallInput value={offer.grace} onChange={(grace) => updateOffer(index, { grace })} />
+                                                <SmallInput value={offer.balloon} onChange={(value) => updateOffer(index, { balloon: value })} />
+                                            </View>
+                                        </View>
+                                    ))}
+                                    <Pressable
+                                        onPress={() => setOffers((rows) => [
+                                            ...rows,
+                                            { name: String.fromCharCode(65 + rows.length), rate: interestRate, term: termMonths, fee: '', grace: '', balloon: '' },
+                                        ])}
+                                        className="py-2"
+                                    >
+                                        <Text className="text-[#00C0D4] font-semibold">+ {t('calculators.loan.add_offer')}</Text>
+                                    </Pressable>
+                                </>
+                            )}
                         </GlassCard>
                     </View>
 
                     {/* Results */}
                     <View className={isSmall ? 'w-full gap-4' : 'flex-1 gap-4'}>
-                        {result ? (
+                        {mode === 'compare' ? (
+                            comparison ? (
+                                <>
+                                    <GlassCard>
+                                        <View className="flex-row items-center gap-2 mb-4">
+                                            <IconLabel icon="chart" size={18} />
+                                            <Text className="text-white font-semibold">{t('calculators.loan.ranking_title')}</Text>
+                                        </View>
+                                        <View className="gap-3">
+                                            {comparison.options.map((option) => (
+                                                <View key={option.name} className="bg-slate-800 rounded-xl p-4">
+                                                    <View className="flex-row items-center justify-between mb-2">
+                                                        <Text className="text-white font-bold text-lg">#{option.costRank} {option.name}</Text>
+                                                        <View className="flex-row gap-2">
+                                                            {option.costRank === 1 && <Badge variant="success">{t('calculators.loan.lowest_cost')}</Badge>}
+                                                            {option.rateRank === 1 && <Badge>{t('calculators.loan.lowest_rate')}</Badge>}
+                                                        </View>
+                                                    </View>
+                                                    <View className="flex-row gap-4">
+                                                        <View className="flex-1">
+                                                            <Text className="text-gray-400 text-xs">{t('calculators.loan.total_cost')}</Text>
+                                                            <Text className="text-white font-semibold">{formatCurrency(option.totalCost, currency)}</Text>
+                                                        </View>
+                                                        <View className="flex-1">
+                                                            <Text className="text-gray-400 text-xs">{t('calculators.loan.effective_rate')}</Text>
+                                                            <Text className="text-amber-400 font-semibold">{option.effectiveAnnualRate.toFixed(2)}%</Text>
+                                                        </View>
+                                                        <View className="flex-1">
+                                                            <Text className="text-gray-400 text-xs">{t('calculators.loan.monthly_payment')}</Text>
+                                                            <Text className="text-white font-semibold">{formatCurrency(option.monthlyPayment, currency)}</Text>
+                                                        </View>
+                                                    </View>
+                                                </View>
+                                            ))}
+                                        </View>
+                                    </GlassCard>
+                                    {comparison.savings > 0 && (
+                                        <GlassCard>
+                                            <Text className="text-gray-300">
+                                                {t('calculators.loan.comparison_savings', {
+                                                    amount: formatCurrency(comparison.savings, currency),
+                                                    name: comparison.options[0].name,
+                                                })}
+                                            </Text>
+                                        </GlassCard>
+                                    )}
+                                </>
+                            ) : (
+                                <GlassCard>
+                                    <View className="items-center py-12">
+                                        <Ionicons name="git-compare" size={48} color="#6b7280" />
+                                        <Text className="text-gray-400 mt-4 text-center">
+                                            {t('calculators.loan.comparison_empty')}
+                                        </Text>
+                                    </View>
+                                </GlassCard>
+                            )
+                        ) : result ? (
                             <>
                                 {/* Monthly Payment */}
                                 {(() => {
@@ -313,6 +676,53 @@ export default function LoanPage() {
                                     </GlassCard>
                                 )}
 
+                                {/* Loan structure */}
+                                {(result.structure.gracePeriodPayment !== null
+                                    || result.structure.balloonPayment > 0
+                                    || result.structure.maxPayment !== result.structure.minPayment
+                                    || result.structure.totalPrepayments > 0) && (
+                                    <GlassCard>
+                                        <View className="flex-row items-center gap-2 mb-4">
+                                            <IconLabel icon="clipboard" size={18} />
+                                            <Text className="text-white font-semibold">{t('calculators.loan.structure_title')}</Text>
+                                        </View>
+                                        <View className="gap-3">
+                                            {result.structure.gracePeriodPayment !== null && (
+                                                <View className="flex-row justify-between">
+                                                    <Text className="text-gray-400">{t('calculators.loan.grace_payment')}</Text>
+                                                    <Text className="text-white font-semibold">{formatCurrency(result.structure.gracePeriodPayment, currency)}</Text>
+                                                </View>
+                                            )}
+                                            {result.structure.maxPayment !== result.structure.minPayment && (
+                                                <View className="flex-row justify-between">
+                                                    <Text className="text-gray-400">{t('calculators.loan.payment_range')}</Text>
+                                                    <Text className="text-white font-semibold">
+                                                        {formatCurrency(result.structure.minPayment, currency)} – {formatCurrency(result.structure.maxPayment, currency)}
+                                                    </Text>
+                                                </View>
+                                            )}
+                                            {result.structure.balloonPayment > 0 && (
+                                                <View className="flex-row justify-between">
+                                                    <Text className="text-gray-400">
+                                                        {t('calculators.loan.balloon_due', { month: String(result.structure.payoffMonth) })}
+                                                    </Text>
+                                                    <Text className="text-rose-400 font-semibold">{formatCurrency(result.structure.balloonPayment, currency)}</Text>
+                                                </View>
+                                            )}
+                                            {result.structure.totalPrepayments > 0 && (
+                                                <Text className="text-emerald-400">
+                                                    {t(result.structure.monthsSaved > 0
+                                                        ? 'calculators.loan.prepayment_savings_term'
+                                                        : 'calculators.loan.prepayment_savings', {
+                                                        amount: formatCurrency(result.structure.interestSaved, currency),
+                                                        months: String(result.structure.monthsSaved),
+                                                    })}
+                                                </Text>
+                                            )}
+                                        </View>
+                                    </GlassCard>
+                                )}
+
                                 {/* Amortization Table */}
                                 <AmortizationPreview schedule={result.amortizationSchedule} t={t} />
 
@@ -335,6 +745,10 @@ export default function LoanPage() {
                                 >
                                     📄 {exporting ? t('common.exporting') : t('calculators.export_pdf')}
                                 </GradientButton>
+
+                                <OutlineButton onPress={handleExportXlsx}>
+                                    📊 {exportingXlsx ? t('common.exporting') : t('xlsx_export.button')}
+                                </OutlineButton>
                             </>
                         ) : (
                             <GlassCard className="items-center py-12">
@@ -4,6 +4,7 @@ import { Ionicons } from '@expo/vector-icons';
 import {
     GlassCard,
     GradientButton,
+    OutlineButton,
     SectionHeading,
     Badge,
 } from '@/components/landing/shared-components';
@@ -11,8 +12,17 @@ import { IconLabel } from '@/components/ui/icon-label';
 import { router } from 'expo-router';
 import { MarketingROICalculator } from '@/lib/infrastructure/calculators/MarketingROICalculator';
 import { useTranslation } from '@/lib/i18n-context';
+import { useReportingCurrency } from '@/hooks/use-reporting-currency';
+import { Money } from '@/lib/domain/value-objects/Money';
 import { LanguageSelector } from '@/components/language-selector';
 import { generateMarketingROIPDF, printPDF } from '@/lib/export/pdf-generator';
+import { buildMarketingROIWorkbook } from '@/lib/export/xlsx-workbooks';
+import { exportXlsx } from '@/lib/export/xlsx-export';
+import type { BudgetObjective, SpendObservation } from '@/types/project';
+
+const ALLOCATOR_CHANNELS = ['facebook', 'google', 'instagram', 'email', 'referral', 'other'];
+
+type AllocatorRow = { channel: string; minSpend: string; maxSpend: string; history: string };
 
 function InputField({
     label, value, onChange, prefix, suffix, hint,
@@ -70,6 +80,43 @@ function ChannelSelector({ selected, onSelect, t }: { selected: string; onSelect
     );
 }
 
+function Chip({ label, active, onPress }: { label: string; active: boolean; onPress: () => void }) {
+    return (
+        <Pressable
+            onPress={onPress}
+            className={`flex-1 py-2 rounded-lg border ${active ? 'bg-white border-white' : 'bg-slate-800 border-white/10'}`}
+        >
+            <Text className={`text-center text-xs font-semibold ${active ? 'text-black' : 'text-gray-300'}`}>{label}</Text>
+        </Pressable>
+    );
+}
+
+function SmallInput({ value, onChange, placeholder, numeric = true }: {
+    value: string; onChange: (val: string) => void; placeholder?: string; numeric?: boolean;
+}) {
+    return (
+        <TextInput
+            className="flex-1 bg-slate-800 rounded-lg border border-white/10 px-3 py-2 text-white"
+            value={value}
+            onChangeText={onChange}
+            placeholder={placeholder}
+            placeholderTextColor="#6b7280"
+            keyboardType={numeric ? 'numeric' : 'default'}
+        />
+    );
+}
+
+/**
+ * Parses past results typed as "spend:conversions" pairs separated by commas.
+ */
+function parseHistory(text: string): SpendObservation[] {
+    return text
+        .split(',')
+        .map((pair) => pair.split(':').map((part) => parseFloat(part)))
+        .filter(([spend, conversions]) => spend > 0 && conversions > 0)
+        .map(([spend, conversions]) => ({ spend, conversions }));
+}
+
 function FunnelVisual({ impressions, clicks, conversions, t }: { impressions?: number; clicks?: number; conversions: number, t: any }) {
     const maxWidth = 100;
     const clicksWidth = impressions && clicks ? (clicks / impressions) * maxWidth : maxWidth;
@@ -127,13 +174,23 @@ function FunnelVisual({ impressions, clicks, conversions, t }: { impressions?: n
 
 export default function MarketingPage() {
     const { t } = useTranslation();
+    const { currency } = useReportingCurrency();
+    const currencySymbol = Money.symbolFor(currency);
     const [exporting, setExporting] = useState(false);
+    const [exportingXlsx, setExportingXlsx] = useState(false);
     const [totalSpend, setTotalSpend] = useState('5000');
     const [conversions, setConversions] = useState('100');
     const [revenuePerConversion, setRevenuePerConversion] = useState('150');
     const [channel, setChannel] = useState('facebook');
     const [impressions, setImpressions] = useState('50000');
     const [clicks, setClicks] = useState('2000');
+    const [allocatorBudget, setAllocatorBudget] = useState('10000');
+    const [objective, setObjective] = useState<BudgetObjective>('profit');
+    const [allocatorRows, setAllocatorRows] = useState<AllocatorRow[]>([
+        { channel: 'facebook', minSpend: '', maxSpend: '', history: '' },
+        { channel: 'google', minSpend: '', maxSpend: '', history: '' },
+        { channel: 'email', minSpend: '', maxSpend: '2000', history: '' },
+    ]);
 
     const calculator = useMemo(() => new MarketingROICalculator(), []);
 
@@ -160,6 +217,34 @@ export default function MarketingPage() {
         }
     }, [totalSpend, conversions, revenuePerConversion, channel, impressions, clicks, calculator]);
 
+    const allocation = useMemo(() => {
+        try {
+            const budget = parseFloat(allocatorBudget) || 0;
+            const revenue = parseFloat(revenuePerConversion) || 0;
+            if (budget <= 0 || revenue <= 0 || allocatorRows.length === 0) return null;
+
+            return calculator.allocateBudget({
+                totalBudget: budget,
+                objective,
+                revenuePerConversion: revenue,
+                channels: allocatorRows.map((row) => ({
+                    channel: row.channel,
+                    minSpend: row.minSpend ? parseFloat(row.minSpend) || 0 : undefined,
+                    maxSpend: row.maxSpend ? parseFloat(row.maxSpend) || 0 : undefined,
+                    history: parseHistory(row.history),
+                })),
+            });
+        } catch {
+            return null;
+        }
+    }, [allocatorBudget, objective, allocatorRows, revenuePerConversion, calculator]);
+
+    const updateAllocatorRow = (index: number, field: keyof AllocatorRow, value: string) => {
+        setAllocatorRows((rows) => rows.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+    };
+
+    const unusedChannels = ALLOCATOR_CHANNELS.filter((id) => !allocatorRows.some((row) => row.channel === id));
+
     // Generate recommendations using translations
     const recommendations = useMemo(() => {
         if (!result) return [];
@@ -190,6 +275,7 @@ export default function MarketingPage() {
         setExporting(true);
         try {
             const html = generateMarketingROIPDF({
+                currency,
                 inputs: {
                     totalSpend: parseFloat(totalSpend) || 0,
                     conversions: parseInt(conversions) || 0,
@@ -200,6 +286,7 @@ export default function MarketingPage() {
                     costPerAcquisition: result.costPerAcquisition,
                     totalRevenue: result.totalRevenue,
                 },
+                allocation: allocation ?? undefined,
                 recommendations,
             });
             await printPDF(html);
@@ -210,6 +297,27 @@ export default function MarketingPage() {
         }
     };
 
+    const handleExportXlsx = async () => {
+        if (!result || exportingXlsx) return;
+
+        setExportingXlsx(true);
+        try {
+            await exportXlsx(buildMarketingROIWorkbook({
+                totalSpend: parseFloat(totalSpend) || 0,
+                conversions: parseInt(conversions) || 0,
+                revenuePerConversion: parseFloat(revenuePerConversion) || 0,
+                channel,
+                impressions: impressions ? parseInt(impressions) : undefined,
+                clicks: clicks ? parseInt(clicks) : undefined,
+            }), 'marketing-roi');
+        } catch (error) {
+            console.error('Error exporting workbook:', error);
+            Alert.alert(t('common.error'), t('xlsx_export.error'));
+        } finally {
+            setExportingXlsx(false);
+        }
+    };
+
     const isSmall = Dimensions.get('window').width < 600;
 
     return (
@@ -251,7 +359,7 @@ export default function MarketingPage() {
                                 label={t('calculators.marketing_roi.campaign_cost')}
                                 value={totalSpend}
                                 onChange={setTotalSpend}
-                                prefix="$"
+                                prefix={currencySymbol}
                             />
 
                             <InputField
@@ -264,7 +372,7 @@ export default function MarketingPage() {
                                 label={t('calculators.marketing_roi.average_sale')}
                                 value={revenuePerConversion}
                                 onChange={setRevenuePerConversion}
-                                prefix="$"
+                                prefix={currencySymbol}
                             />
 
                             <View className="h-px bg-white/10 my-4" />
@@ -319,8 +427,8 @@ export default function MarketingPage() {
                                             </Text>
                                             <Text className={result.isProfitable ? 'text-emerald-400' : 'text-rose-400'}>
                                                 {result.isProfitable
-                                                    ? `${t('calculators.marketing_roi.net_profit')}: $${result.netProfit.toLocaleString()}`
-                                                    : `${t('calculators.marketing_roi.loss')}: $${Math.abs(result.netProfit).toLocaleString()}`
+                                                    ? `${t('calculators.marketing_roi.net_profit')}: ${currencySymbol}${result.netProfit.toLocaleString()}`
+                                                    : `${t('calculators.marketing_roi.loss')}: ${currencySymbol}${Math.abs(result.netProfit).toLocaleString()}`
                                                 }
                                             </Text>
                                         </View>
@@ -408,6 +516,10 @@ export default function MarketingPage() {
                                 >
                                     📄 {exporting ? t('common.exporting') : t('calculators.export_pdf')}
                                 </GradientButton>
+
+                                <OutlineButton onPress={handleExportXlsx}>
+                                    📊 {exportingXlsx ? t('common.exporting') : t('xlsx_export.button')}
+                                </OutlineButton>
                             </>
                         ) : (
                             <GlassCard className="items-center py-12">
@@ -419,6 +531,134 @@ export default function MarketingPage() {
                         )}
                     </View>
                 </View>
+
+                {/* Budget allocator */}
+                <View className="mt-6">
+                    <GlassCard>
+                        <View className="flex-row items-center gap-2 mb-2"><IconLabel icon="target" size={18} /><Text className="text-white font-semibold text-lg">{t('calculators.marketing_roi.allocator.title')}</Text></View>
+                        <Text className="text-gray-400 text-sm mb-4">{t('calculators.marketing_roi.allocator.description')}</Text>
+
+                        <InputField
+                            label={t('calculators.marketing_roi.allocator.total_budget')}
+                            value={allocatorBudget}
+                            onChange={setAllocatorBudget}
+                            prefix={currencySymbol}
+                        />
+
+                        <Text className="text-gray-300 font-medium mb-2">{t('calculators.marketing_roi.allocator.objective')}</Text>
+                        <View className="flex-row gap-2 mb-4">
+                            <Chip label={t('calculators.marketing_roi.allocator.objective_profit')} active={objective === 'profit'} onPress={() => setObjective('profit')} />
+                            <Chip label={t('calculators.marketing_roi.allocator.objective_conversions')} active={objective === 'conversions'} onPress={() => setObjective('conversions')} />
+                        </View>
+
+                        <Text className="text-gray-400 text-xs mb-2">{t('calculators.marketing_roi.allocator.history_hint')}</Text>
+                        <View className="gap-3 mb-4">
+                            {allocatorRows.map((row, index) => (
+                                <View key={row.channel} className="bg-slate-900/60 rounded-xl border border-white/10 p-3 gap-2">
+                                    <View className="flex-row items-center justify-between">
+                                        <Text className="text-white font-semibold">{t(`calculators.marketing_roi.channels.${row.channel}`)}</Text>
+                                        <Pressable onPress={() => setAllocatorRows((rows) => rows.filter((_, i) => i !== index))} className="p-1">
+                                            <Ionicons name="close-circle" size={20} color="#f87171" />
+                                        </Pressable>
+                                    </View>
+                                    <View className="flex-row gap-2">
+                                        <SmallInput value={row.minSpend} onChange={(v) => updateAllocatorRow(index, 'minSpend', v)} placeholder={t('calculators.marketing_roi.allocator.min_spend')} />
+                                        <SmallInput value={row.maxSpend} onChange={(v) => updateAllocatorRow(index, 'maxSpend', v)} placeholder={t('calculators.marketing_roi.allocator.max_spend')} />
+                                    </View>
+                                    <SmallInput value={row.history} onChange={(v) => updateAllocatorRow(index, 'history', v)} placeholder={t('calculators.marketing_roi.allocator.history_placeholder')} numeric={false} />
+                                </View>
+                            ))}
+                        </View>
+
+                        {unusedChannels.length > 0 && (
+                            <View className="flex-row flex-wrap gap-2">
+                                {unusedChannels.map((id) => (
+                                    <Pressable
+                                        key={id}
+                                        onPress={() => setAllocatorRows((rows) => [...rows, { channel: id, minSpend: '', maxSpend: '', history: '' }])}
+                                        className="px-3 py-2 rounded-xl border border-white/10 bg-slate-800"
+                                    >
+                                        <Text className="text-gray-300 text-xs">+ {t(`calculators.marketing_roi.channels.${id}`)}</Text>
+                                    </Pressable>
+                                ))}
+                            </View>
+                        )}
+                    </GlassCard>
+
+                    {allocation ? (
+                        <View className="gap-4 mt-4">
+                            <View className="flex-row flex-wrap gap-4">
+                                <View className="flex-1 min-w-[140px]">
+                                    <GlassCard>
+                                        <View className="items-center py-2">
+                                            <Text className="text-gray-400 text-sm">{t('calculators.marketing_roi.allocator.expected_roas')}</Text>
+                                            <Text className="text-3xl font-bold text-indigo-400">{allocation.roas.toFixed(2)}x</Text>
+                                        </View>
+                                    </GlassCard>
+                                </View>
+                                <View className="flex-1 min-w-[140px]">
+                                    <GlassCard>
+                                        <View className="items-center py-2">
+                                            <Text className="text-gray-400 text-sm">{t('calculators.marketing_roi.allocator.expected_cac')}</Text>
+                                            <Text className="text-3xl font-bold text-white">{currencySymbol}{allocation.cac.toLocaleString()}</Text>
+                                        </View>
+                                    </GlassCard>
+                                </View>
+                                <View className="flex-1 min-w-[140px]">
+                                    <GlassCard>
+                                        <View className="items-center py-2">
+                                            <Text className="text-gray-400 text-sm">{t('calculators.marketing_roi.net_profit')}</Text>
+                                            <Text className={`text-3xl font-bold ${allocation.profit >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>
+                                                {currencySymbol}{allocation.profit.toLocaleString()}
+                                            </Text>
+                                        </View>
+                                    </GlassCard>
+                                </View>
+                            </View>
+
+                            <GlassCard>
+                                <View className="flex-row items-center gap-2 mb-4"><IconLabel icon="money" size={18} /><Text className="text-white font-semibold">{t('calculators.marketing_roi.allocator.recommended_split')}</Text></View>
+                                <View className="flex-row border-b border-white/10 pb-2 mb-2">
+                                    <Text className="flex-1 text-gray-400 text-xs">{t('calculators.marketing_roi.marketing_channel')}</Text>
+                                    <Text className="flex-1 text-gray-400 text-xs text-right">{t('calculators.marketing_roi.allocator.spend')}</Text>
+                                    <Text className="flex-1 text-gray-400 text-xs text-right">{t('calculators.marketing_roi.conversions')}</Text>
+                                    <Text className="flex-1 text-gray-400 text-xs text-right">ROAS</Text>
+                                    <Text className="flex-1 text-gray-400 text-xs text-right">CAC</Text>
+                                </View>
+                                {allocation.channels.map((channel) => (
+                                    <View key={channel.channel} className="py-2 border-b border-white/5">
+                                        <View className="flex-row">
+                                            <Text className="flex-1 text-white text-sm">{t(`calculators.marketing_roi.channels.${channel.channel}`)}</Text>
+                                            <Text className="flex-1 text-white text-sm text-right">{currencySymbol}{channel.spend.toLocaleString()} ({channel.share.toFixed(0)}%)</Text>
+                                            <Text className="flex-1 text-white text-sm text-right">{channel.conversions.toFixed(0)}</Text>
+                                            <Text className="flex-1 text-indigo-300 text-sm text-right">{channel.roas.toFixed(2)}x</Text>
+                                            <Text className="flex-1 text-white text-sm text-right">{currencySymbol}{channel.cac.toLocaleString()}</Text>
+                                        </View>
+                                        <View className="h-2 bg-slate-700 rounded-full overflow-hidden mt-1">
+                                            <View className="h-full bg-[#14B8A6] rounded-full" style={{ width: `${channel.share}%` }} />
+                                        </View>
+                                        <Text className="text-gray-500 text-xs mt-1">
+                                            {channel.curve.source === 'history'
+                                                ? t('calculators.marketing_roi.allocator.curve_history', { exponent: channel.curve.exponent.toFixed(2) })
+                                                : t('calculators.marketing_roi.allocator.curve_benchmark', { exponent: channel.curve.exponent.toFixed(2) })}
+                                        </Text>
+                                    </View>
+                                ))}
+                                {allocation.unallocated > 0 && (
+                                    <Text className="text-amber-300 text-sm mt-3">
+                                        {t('calculators.marketing_roi.allocator.unallocated', { amount: `${currencySymbol}${allocation.unallocated.toLocaleString()}` })}
+                                    </Text>
+                                )}
+                            </GlassCard>
+                        </View>
+                    ) : (
+                        <View className="mt-4">
+                            <GlassCard>
+                                <Text className="text-gray-400 text-center">{t('calculators.marketing_roi.allocator.invalid')}</Text>
+                            </GlassCard>
+                        </View>
+                    )}
+                </View>
             </View>
         </ScrollView >
     );
@@ -4,6 +4,7 @@ import { Ionicons } from '@expo/vector-icons';
 import {
     GlassCard,
     GradientButton,
+    OutlineButton,
     SectionHeading,
     Badge,
 } from '@/components/landing/shared-components';
@@ -11,8 +12,17 @@ import { IconLabel } from '@/components/ui/icon-label';
 import { router } from 'expo-router';
 import { PricingCalculator } from '@/lib/infrastructure/calculators/PricingCalculator';
 import { useTranslation } from '@/lib/i18n-context';
+import { useReportingCurrency } from '@/hooks/use-reporting-currency';
+import { Money } from '@/lib/domain/value-objects/Money';
 import { LanguageSelector } from '@/components/language-selector';
 import { generatePricingPDF, printPDF } from '@/lib/export/pdf-generator';
+import { buildPricingWorkbook } from '@/lib/export/xlsx-workbooks';
+import { exportXlsx } from '@/lib/export/xlsx-export';
+import type { DemandCurveShape, PricePoint } from '@/types/project';
+
+type DemandMode = 'off' | 'elasticity' | 'observations';
+
+const CHART_HEIGHT = 160;
 
 function InputField({
     label, value, onChange, prefix, suffix, hint,
@@ -39,6 +49,100 @@ function InputField({
     );
 }
 
+function Chip({ label, active, onPress }: { label: string; active: boolean; onPress: () => void }) {
+    return (
+        <Pressable
+            onPress={onPress}
+            className={`flex-1 py-2 rounded-lg border ${active ? 'bg-white border-white' : 'bg-slate-800 border-white/10'}`}
+        >
+            <Text className={`text-center text-xs font-semibold ${active ? 'text-black' : 'text-gray-300'}`}>{label}</Text>
+        </Pressable>
+    );
+}
+
+function SmallInput({ value, onChange, placeholder }: { value: string; onChange: (val: string) => void; placeholder?: string }) {
+    return (
+        <TextInput
+            className="flex-1 bg-slate-800 rounded-lg border border-white/10 px-3 py-2 text-white"
+            value={value}
+            onChangeText={onChange}
+            placeholder={placeholder}
+            placeholderTextColor="#6b7280"
+            keyboardType="numeric"
+        />
+    );
+}
+
+/**
+ * Profit per period at each sampled price, drawn as bars around the break-even line.
+ */
+function ProfitCurveChart({ curve, optimalPrice, currencySymbol }: {
+    curve: PricePoint[]; optimalPrice: number | null; currencySymbol: string;
+}) {
+    const maxProfit = Math.max(0, ...curve.map((point) => point.profit));
+    const minProfit = Math.min(0, ...curve.map((point) => point.profit));
+    const span = maxProfit - minProfit || 1;
+    const zeroOffset = (maxProfit / span) * CHART_HEIGHT;
+    const optimalIndex = optimalPrice === null
+        ? -1
+        : curve.reduce((best, point, i) =>
+            Math.abs(point.price - optimalPrice) < Math.abs(curve[best].price - optimalPrice) ? i : best, 0);
+
+    return (
+        <View>
+            <View style={{ height: CHART_HEIGHT }} className="flex-row">
+                {curve.map((point, i) => {
+                    const height = Math.max(1, (Math.abs(point.profit) / span) * CHART_HEIGHT);
+                    const color = i === optimalIndex ? '#14B8A6' : point.profit >= 0 ? '#86EFAC' : '#F87171';
+                    return (
+                        <View key={i} className="flex-1 mx-px">
+                            <View
+                                style={{
+                                    position: 'absolute',
+                                    left: 0,
+                                    right: 0,
+                                    height,
+                                    top: point.profit >= 0 ? zeroOffset - height : zeroOffset,
+                                    backgroundColor: color,
+                                    borderRadius: 2,
+                                }}
+                            />
+                        </View>
+                    );
+                })}
+                <View style={{ position: 'absolute', left: 0, right: 0, top: zeroOffset, height: 1 }} className="bg-white/30" />
+            </View>
+            <View className="flex-row justify-between mt-2">
+                <Text className="text-gray-400 text-xs">{currencySymbol}{curve[0].price.toFixed(2)}</Text>
+                <Text className="text-gray-400 text-xs">{currencySymbol}{curve[curve.length - 1].price.toFixed(2)}</Text>
+            </View>
+        </View>
+    );
+}
+
+function OptimumCard({ label, point, currencySymbol }: { label: string; point: PricePoint | null; currencySymbol: string }) {
+    const { t } = useTranslation();
+
+    return (
+        <View className="flex-1 min-w-[150px] bg-slate-800 rounded-xl border border-white/10 p-4">
+            <Text className="text-gray-400 text-sm">{label}</Text>
+            {point ? (
+                <>
+                    <Text className="text-2xl font-bold text-white">{currencySymbol}{point.price.toFixed(2)}</Text>
+                    <Text className="text-gray-400 text-xs mt-2">
+                        {t('calculators.pricing.demand.volume_at', { volume: Math.round(point.volume).toLocaleString() })}
+                    </Text>
+                    <Text className={`text-xs mt-1 ${point.profit >= 0 ? 'text-[#86EFAC]' : 'text-[#F87171]'}`}>
+                        {t('calculators.pricing.demand.profit_at', { profit: `${currencySymbol}${Math.round(point.profit).toLocaleString()}` })}
+                    </Text>
+                </>
+            ) : (
+                <Text className="text-gray-400 text-xs mt-2">{t('calculators.pricing.demand.no_optimum')}</Text>
+            )}
+        </View>
+    );
+}
+
 function PriceStrategyCard({
     strategy, price, benefits, recommended,
 }: {
@@ -62,10 +166,23 @@ function PriceStrategyCard({
 
 export default function PricingPage() {
     const { t } = useTranslation();
+    const { currency } = useReportingCurrency();
+    const currencySymbol = Money.symbolFor(currency);
     const [exporting, setExporting] = useState(false);
+    const [exportingXlsx, setExportingXlsx] = useState(false);
     const [costPerUnit, setCostPerUnit] = useState('15');
     const [desiredMargin, setDesiredMargin] = useState('40');
     const [competitorPrice, setCompetitorPrice] = useState('30');
+    const [demandMode, setDemandMode] = useState<DemandMode>('off');
+    const [demandShape, setDemandShape] = useState<DemandCurveShape>('linear');
+    const [elasticity, setElasticity] = useState('-1.5');
+    const [referenceVolume, setReferenceVolume] = useState('1000');
+    const [fixedCosts, setFixedCosts] = useState('');
+    const [observations, setObservations] = useState([
+        { price: '20', volume: '1400' },
+        { price: '25', volume: '1000' },
+        { price: '30', volume: '700' },
+    ]);
 
     const calculator = useMemo(() => new PricingCalculator(), []);
 
@@ -75,17 +192,36 @@ export default function PricingPage() {
             const margin = parseFloat(desiredMargin) || 0;
             const competitor = competitorPrice ? parseFloat(competitorPrice) : undefined;
 
+            const fixed = parseFloat(fixedCosts) || 0;
+
             if (cost <= 0 || margin < 0 || margin >= 100) return null;
 
+            const demand = demandMode === 'off'
+                ? undefined
+                : demandMode === 'elasticity'
+                    ? { shape: demandShape, elasticity: parseFloat(elasticity), referenceVolume: parseFloat(referenceVolume) || undefined }
+                    : {
+                        shape: demandShape,
+                        observations: observations
+                            .map((row) => ({ price: parseFloat(row.price), volume: parseFloat(row.volume) }))
+                            .filter((row) => row.price > 0 && row.volume > 0),
+                    };
+
             return calculator.calculate({
                 costPerUnit: cost,
                 desiredMargin: margin,
                 competitorPrice: competitor,
+                fixedCostsPerPeriod: fixed > 0 ? fixed : undefined,
+                demand,
             });
         } catch {
             return null;
         }
-    }, [costPerUnit, desiredMargin, competitorPrice, calculator]);
+    }, [costPerUnit, desiredMargin, competitorPrice, fixedCosts, demandMode, demandShape, elasticity, referenceVolume, observations, calculator]);
+
+    const updateObservation = (index: number, field: 'price' | 'volume', value: string) => {
+        setObservations(observations.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+    };
 
     // Generate recommendations using translations
     const recommendations = useMemo(() => {
@@ -108,11 +244,27 @@ export default function PricingPage() {
             recs.push(t('calculators.pricing.recommendations.high_margin'));
         }
 
+        const demand = result.demandAnalysis;
+        if (demand?.profitMaximizing) {
+            recs.push(t('calculators.pricing.recommendations.profit_peak', {
+                price: `${currencySymbol}${demand.profitMaximizing.price.toFixed(2)}`,
+                volume: Math.round(demand.profitMaximizing.volume).toLocaleString(),
+            }));
+            if (demand.profitMaximizing.profit < 0) {
+                recs.push(t('calculators.pricing.recommendations.fixed_costs_uncovered'));
+            }
+        } else if (demand) {
+            recs.push(t('calculators.pricing.recommendations.no_profit_peak'));
+        }
+        if (demand?.rSquared != null && demand.rSquared < 0.5) {
+            recs.push(t('calculators.pricing.recommendations.weak_fit', { r2: demand.rSquared.toFixed(2) }));
+        }
+
         recs.push(t('calculators.pricing.recommendations.test_prices'));
         recs.push(t('calculators.pricing.recommendations.monitor_prices'));
 
         return recs;
-    }, [result, costPerUnit, desiredMargin, t]);
+    }, [result, costPerUnit, desiredMargin, currencySymbol, t]);
 
     const handleExportPDF = async () => {
         if (!result) return;
@@ -120,6 +272,7 @@ export default function PricingPage() {
         setExporting(true);
         try {
             const html = generatePricingPDF({
+                currency,
                 inputs: {
                     costPerUnit: parseFloat(costPerUnit) || 0,
                     desiredMargin: parseFloat(desiredMargin) || 0,
@@ -130,6 +283,7 @@ export default function PricingPage() {
                     grossProfitPerUnit: result.grossProfitPerUnit,
                     markup: result.markupPercentage,
                 },
+                demand: result.demandAnalysis ?? undefined,
                 recommendations,
             });
             await printPDF(html);
@@ -140,6 +294,24 @@ export default function PricingPage() {
         }
     };
 
+    const handleExportXlsx = async () => {
+        if (!result || exportingXlsx) return;
+
+        setExportingXlsx(true);
+        try {
+            await exportXlsx(buildPricingWorkbook({
+                costPerUnit: parseFloat(costPerUnit) || 0,
+                desiredMargin: parseFloat(desiredMargin) || 0,
+                competitorPrice: competitorPrice ? parseFloat(competitorPrice) : undefined,
+            }), 'pricing');
+        } catch (error) {
+            console.error('Error exporting workbook:', error);
+            Alert.alert(t('common.error'), t('xlsx_export.error'));
+        } finally {
+            setExportingXlsx(false);
+        }
+    };
+
     const isSmall = Dimensions.get('window').width < 600;
 
     return (
@@ -179,7 +351,7 @@ export default function PricingPage() {
                                 label={t('calculators.pricing.cost_per_unit')}
                                 value={costPerUnit}
                                 onChange={setCostPerUnit}
-                                prefix="$"
+                                prefix={currencySymbol}
                                 hint={t('calculators.pricing.cost_per_unit_hint')}
                             />
 
@@ -195,10 +367,100 @@ export default function PricingPage() {
                                 label={t('calculators.pricing.competitor_price')}
                                 value={competitorPrice}
                                 onChange={setCompetitorPrice}
-                                prefix="$"
+                                prefix={currencySymbol}
                                 hint={t('calculators.pricing.competitor_price_hint')}
                             />
                         </GlassCard>
+
+                        {/* Demand model */}
+                        <View className="mt-4">
+                            <GlassCard>
+                                <Text className="text-white font-semibold text-lg mb-1">
+                                    {t('calculators.pricing.demand.title')}
+                                </Text>
+                                <Text className="text-gray-400 text-xs mb-4">{t('calculators.pricing.demand.subtitle')}</Text>
+
+                                <View className="flex-row gap-2 mb-4">
+                                    {(['off', 'elasticity', 'observations'] as DemandMode[]).map((mode) => (
+                                        <Chip
+                                            key={mode}
+                                            label={t(`calculators.pricing.demand.mode_${mode}`)}
+                                            active={demandMode === mode}
+                                            onPress={() => setDemandMode(mode)}
+                                        />
+                                    ))}
+                                </View>
+
+                                {demandMode !== 'off' && (
+                                    <>
+                                        <Text className="text-gray-300 font-medium mb-2">{t('calculators.pricing.demand.shape')}</Text>
+                                        <View className="flex-row gap-2 mb-4">
+                                            {(['linear', 'constant_elasticity'] as DemandCurveShape[]).map((shape) => (
+                                                <Chip
+                                                    key={shape}
+                                                    label={t(`calculators.pricing.demand.shape_${shape}`)}
+                                                    active={demandShape === shape}
+                                                    onPress={() => setDemandShape(shape)}
+                                                />
+                                            ))}
+                                        </View>
+
+                                        {demandMode === 'elasticity' ? (
+                                            <>
+                                                <InputField
+                                                    label={t('calculators.pricing.demand.elasticity')}
+                                                    value={elasticity}
+                                                    onChange={setElasticity}
+                                                    hint={t('calculators.pricing.demand.elasticity_hint')}
+                                                />
+                                                <InputField
+                                                    label={t('calculators.pricing.demand.reference_volume')}
+                                                    value={referenceVolume}
+                                                    onChange={setReferenceVolume}
+                                                    hint={t('calculators.pricing.demand.reference_volume_hint')}
+                                                />
+                                            </>
+                                        ) : (
+                                            <View className="mb-4 gap-2">
+                                                <Text className="text-gray-300 font-medium">{t('calculators.pricing.demand.observations')}</Text>
+                                                {observations.map((row, i) => (
+                                                    <View key={i} className="flex-row items-center gap-2">
+                                                        <SmallInput
+                                                            value={row.price}
+                                                            onChange={(value) => updateObservation(i, 'price', value)}
+                                                            placeholder={`${currencySymbol} ${t('calculators.pricing.demand.price')}`}
+                                                        />
+                                                        <SmallInput
+                                                            value={row.volume}
+                                                            onChange={(value) => updateObservation(i, 'volume', value)}
+                                                            placeholder={t('calculators.pricing.demand.volume')}
+                                                        />
+                                                        <Pressable
+                                                            onPress={() => setObservations(observations.filter((_, index) => index !== i))}
+                                                            className="p-2"
+                                                        >
+                                                            <Ionicons name="close-circle" size={20} color="#9ca3af" />
+                                                        </Pressable>
+                                                    </View>
+                                                ))}
+                                                <Pressable onPress={() => setObservations([...observations, { price: '', volume: '' }])}>
+                                                    <Text className="text-[#14B8A6] text-sm font-semibold">+ {t('calculators.pricing.demand.add_observation')}</Text>
+                                                </Pressable>
+                                                <Text className="text-gray-400 text-xs">{t('calculators.pricing.demand.observations_hint')}</Text>
+                                            </View>
+                                        )}
+
+                                        <InputField
+                                            label={t('calculators.pricing.demand.fixed_costs')}
+                                            value={fixedCosts}
+                                            onChange={setFixedCosts}
+                                            prefix={currencySymbol}
+                                            hint={t('calculators.pricing.demand.fixed_costs_hint')}
+                                        />
+                                    </>
+                                )}
+                            </GlassCard>
+                        </View>
                     </View>
 
                     {/* Results */}
@@ -213,7 +475,7 @@ export default function PricingPage() {
                                     </Text>
                                     <View className="flex-row gap-4 mt-4">
                                         <Badge variant="success">
-                                            {`$${result.grossProfitPerUnit != null ? result.grossProfitPerUnit.toFixed(2) : '0.00'} ${t('calculators.pricing.profit_per_unit')}`}
+                                            {`${currencySymbol}${result.grossProfitPerUnit != null ? result.grossProfitPerUnit.toFixed(2) : '0.00'} ${t('calculators.pricing.profit_per_unit')}`}
                                         </Badge>
                                         <Badge variant="default">
                                             {`${result.markupPercentage != null ? result.markupPercentage.toFixed(0) : '0'}% ${t('calculators.pricing.markup')}`}
@@ -241,6 +503,43 @@ export default function PricingPage() {
                                     </View>
                                 </GlassCard>
 
+                                {/* Demand curve */}
+                                {result.demandAnalysis && (
+                                    <GlassCard>
+                                        <View className="flex-row items-center justify-between mb-4">
+                                            <View className="flex-row items-center gap-2">
+                                                <IconLabel icon="chart" size={18} />
+                                                <Text className="text-white font-semibold">{t('calculators.pricing.demand.profit_curve')}</Text>
+                                            </View>
+                                            <Badge variant="default">
+                                                {t('calculators.pricing.demand.elasticity_value', { value: result.demandAnalysis.elasticity.toFixed(2) })}
+                                            </Badge>
+                                        </View>
+                                        <ProfitCurveChart
+                                            curve={result.demandAnalysis.curve}
+                                            optimalPrice={result.demandAnalysis.profitMaximizing?.price ?? null}
+                                            currencySymbol={currencySymbol}
+                                        />
+                                        <View className="flex-row flex-wrap gap-3 mt-4">
+                                            <OptimumCard
+                                                label={t('calculators.pricing.demand.profit_max')}
+                                                point={result.demandAnalysis.profitMaximizing}
+                                                currencySymbol={currencySymbol}
+                                            />
+                                            <OptimumCard
+                                                label={t('calculators.pricing.demand.revenue_max')}
+                                                point={result.demandAnalysis.revenueMaximizing}
+                                                currencySymbol={currencySymbol}
+                                            />
+                                        </View>
+                                        {result.demandAnalysis.rSquared !== null && (
+                                            <Text className="text-gray-400 text-xs mt-3">
+                                                {t('calculators.pricing.demand.fit_quality', { r2: result.demandAnalysis.rSquared.toFixed(2) })}
+                                            </Text>
+                                        )}
+                                    </GlassCard>
+                                )}
+
                                 {/* Strategies */}
                                 <Text className="text-white font-semibold">{t('calculators.pricing.pricing_strategies')}</Text>
                                 <View className="flex-row flex-wrap gap-4">
@@ -303,6 +602,10 @@ export default function PricingPage() {
                                 >
                                     📄 {exporting ? t('common.exporting') : t('calculators.export_pdf')}
                                 </GradientButton>
+
+                                <OutlineButton onPress={handleExportXlsx}>
+                                    📊 {exportingXlsx ? t('common.exporting') : t('xlsx_export.button')}
+                                </OutlineButton>
                             </>
                         ) : (
                             <GlassCard className="items-center py-12">
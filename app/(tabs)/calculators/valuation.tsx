@@ -0,0 +1,471 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { View, Text, TextInput, Pressable, ScrollView, Alert, Dimensions } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import {
+    GlassCard,
+    GradientButton,
+    SectionHeading,
+} from '@/components/landing/shared-components';
+import { IconLabel } from '@/components/ui/icon-label';
+import { router } from 'expo-router';
+import { ValuationCalculator } from '@/lib/infrastructure/calculators/ValuationCalculator';
+import { InflationCalculator } from '@/lib/infrastructure/calculators/InflationCalculator';
+import { getAllProjects } from '@/lib/project-storage';
+import { useTranslation } from '@/lib/i18n-context';
+import { useReportingCurrency } from '@/hooks/use-reporting-currency';
+import { Money } from '@/lib/domain/value-objects/Money';
+import { LanguageSelector } from '@/components/language-selector';
+import { generateValuationPDF, printPDF } from '@/lib/export/pdf-generator';
+import type { ProjectData } from '@/types/project';
+
+// Terminal value share of enterprise value above which the DCF rests mostly on the terminal assumptions
+const TERMINAL_HEAVY_SHARE = 75;
+// Gap between the DCF and the median multiple that is worth flagging
+const METHOD_GAP = 0.3;
+
+interface PeerRow {
+    name: string;
+    evToRevenue: string;
+    evToEbitda: string;
+}
+
+function InputField({
+    label, value, onChange, prefix, suffix, hint,
+}: {
+    label: string; value: string; onChange: (val: string) => void;
+    prefix?: string; suffix?: string; hint?: string;
+}) {
+    return (
+        <View className="mb-4">
+            <Text className="text-gray-300 font-medium mb-2">{label}</Text>
+            <View className="flex-row items-center bg-slate-800 rounded-xl border border-white/10 overflow-hidden">
+                {prefix && <Text className="text-gray-400 pl-4">{prefix}</Text>}
+                <TextInput
+                    className="flex-1 px-4 py-3 text-white text-lg"
+                    value={value}
+                    onChangeText={onChange}
+                    placeholderTextColor="#6b7280"
+                    keyboardType="numeric"
+                />
+                {suffix && <Text className="text-gray-400 pr-4">{suffix}</Text>}
+            </View>
+            {hint && <Text className="text-gray-400 text-xs mt-1">{hint}</Text>}
+        </View>
+    );
+}
+
+function Chip({ label, active, onPress }: { label: string; active: boolean; onPress: () => void }) {
+    return (
+        <Pressable
+            onPress={onPress}
+            className={`px-3 py-2 rounded-lg border ${active ? 'bg-white border-white' : 'bg-slate-800 border-white/10'}`}
+        >
+            <Text className={`text-center text-xs font-semibold ${active ? 'text-black' : 'text-gray-300'}`}>{label}</Text>
+        </Pressable>
+    );
+}
+
+function SmallInput({ value, onChange, placeholder, numeric = true }: {
+    value: string; onChange: (val: string) => void; placeholder?: string; numeric?: boolean;
+}) {
+    return (
+        <TextInput
+            className="flex-1 bg-slate-800 rounded-lg border border-white/10 px-3 py-2 text-white"
+            value={value}
+            onChangeText={onChange}
+            placeholder={placeholder}
+            placeholderTextColor="#6b7280"
+            keyboardType={numeric ? 'numeric' : 'default'}
+        />
+    );
+}
+
+function StatCard({ label, value, hint }: { label: string; value: string; hint?: string }) {
+    return (
+        <View className="flex-1 min-w-[140px]">
+            <GlassCard>
+                <Text className="text-gray-400 text-xs">{label}</Text>
+                <Text className="text-2xl font-bold text-white">{value}</Text>
+                {hint && <Text className="text-gray-500 text-xs">{hint}</Text>}
+            </GlassCard>
+        </View>
+    );
+}
+
+/**
+ * Parses yearly free cash flows typed as a comma-separated list
+ */
+function parseCashFlows(text: string): number[] {
+    return text
+        .split(/[,;\s]+/)
+        .filter((part) => part.length > 0)
+        .map((part) => parseFloat(part))
+        .filter((value) => Number.isFinite(value));
+}
+
+export default function ValuationPage() {
+    const { t } = useTranslation();
+    const { currency } = useReportingCurrency();
+    const currencySymbol = Money.symbolFor(currency);
+    const [projects, setProjects] = useState<ProjectData[]>([]);
+    const [projectId, setProjectId] = useState<string | null>(null);
+    const [cashFlowsText, setCashFlowsText] = useState('120000, 150000, 180000, 210000, 240000');
+    // Months in the last year of a project's flows; typed flows are whole years
+    const [finalYearMonths, setFinalYearMonths] = useState(12);
+    const [wacc, setWacc] = useState('10');
+    const [terminalGrowth, setTerminalGrowth] = useState('2');
+    const [netDebt, setNetDebt] = useState('200000');
+    const [revenue, setRevenue] = useState('1000000');
+    const [ebitda, setEbitda] = useState('250000');
+    const [peerRows, setPeerRows] = useState<PeerRow[]>([
+        { name: 'Peer A', evToRevenue: '2.5', evToEbitda: '9' },
+        { name: 'Peer B', evToRevenue: '3.2', evToEbitda: '11' },
+        { name: 'Peer C', evToRevenue: '1.8', evToEbitda: '7.5' },
+    ]);
+    const [exporting, setExporting] = useState(false);
+
+    const calculator = useMemo(() => new ValuationCalculator(), []);
+
+    useEffect(() => {
+        getAllProjects()
+            .then((all) => setProjects(all.filter((project) => (project.results?.monthlyCashFlow.length ?? 0) > 0)))
+            .catch(() => setProjects([]));
+    }, []);
+
+    const selectProject = (project: ProjectData | null) => {
+        setProjectId(project?.id ?? null);
+        setFinalYearMonths(12);
+        if (!project?.results) return;
+        // The discount rate is nominal, so real results are re-inflated to money of the day
+        let monthlyCashFlow = project.results.monthlyCashFlow;
+        if (project.results.valuationBasis === 'real' && project.inflation) {
+            const priceIndex = new InflationCalculator().priceIndex(project.inflation, monthlyCashFlow.length);
+            monthlyCashFlow = monthlyCashFlow.map((cashFlow, month) => cashFlow * priceIndex[month]);
+        }
+        setCashFlowsText(calculator.toYearlyCashFlows(monthlyCashFlow).join(', '));
+        setFinalYearMonths(monthlyCashFlow.length % 12 || 12);
+        setWacc(String(project.discountRate));
+    };
+
+    const updatePeerRow = (index: number, field: keyof PeerRow, value: string) => {
+        setPeerRows((rows) => rows.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+    };
+
+    const freeCashFlows = useMemo(() => parseCashFlows(cashFlowsText), [cashFlowsText]);
+
+    const result = useMemo(() => {
+        if (freeCashFlows.length === 0) return null;
+        try {
+            return calculator.calculate({
+                freeCashFlows,
+                finalYearMonths,
+                wacc: parseFloat(wacc) || 0,
+                terminalGrowth: parseFloat(terminalGrowth) || 0,
+                netDebt: parseFloat(netDebt) || 0,
+                revenue: revenue ? parseFloat(revenue) || undefined : undefined,
+                ebitda: ebitda ? parseFloat(ebitda) || undefined : undefined,
+                peers: peerRows.map((row) => ({
+                    name: row.name,
+                    evToRevenue: row.evToRevenue ? parseFloat(row.evToRevenue) || undefined : undefined,
+                    evToEbitda: row.evToEbitda ? parseFloat(row.evToEbitda) || undefined : undefined,
+                })),
+            });
+        } catch {
+            return null;
+        }
+    }, [freeCashFlows, finalYearMonths, wacc, terminalGrowth, netDebt, revenue, ebitda, peerRows, calculator]);
+
+    const recommendations = useMemo(() => {
+        if (!result) return [];
+        const recs: string[] = [];
+
+        if (result.dcf.terminalValueShare > TERMINAL_HEAVY_SHARE) {
+            recs.push(t('calculators.valuation.recommendations.terminal_heavy', {
+                share: result.dcf.terminalValueShare.toFixed(0),
+            }));
+        }
+        result.multiples.forEach((valuation) => {
+            const gap = (result.dcf.enterpriseValue - valuation.enterpriseValue) / valuation.enterpriseValue;
+            if (Math.abs(gap) > METHOD_GAP) {
+                recs.push(t(`calculators.valuation.recommendations.${gap > 0 ? 'dcf_above' : 'dcf_below'}`, {
+                    method: t(`calculators.valuation.methods.${valuation.method}`),
+                    gap: Math.abs(gap * 100).toFixed(0),
+                }));
+            }
+        });
+        if (result.dcf.equityValue < 0) {
+            recs.push(t('calculators.valuation.recommendations.negative_equity'));
+        }
+        recs.push(t('calculators.valuation.recommendations.check_wacc'));
+
+        return recs;
+    }, [result, t]);
+
+    const handleExportPDF = async () => {
+        if (!result) return;
+
+        setExporting(true);
+        try {
+            const html = generateValuationPDF({
+                currency,
+                inputs: {
+                    freeCashFlows,
+                    wacc: parseFloat(wacc) || 0,
+                    terminalGrowth: parseFloat(terminalGrowth) || 0,
+                    netDebt: parseFloat(netDebt) || 0,
+                },
+                results: result,
+                projectName: projects.find((project) => project.id === projectId)?.name,
+                recommendations,
+            });
+            await printPDF(html);
+        } catch {
+            Alert.alert(t('common.error'), t('common.export_failed') || 'No se pudo exportar el PDF');
+        } finally {
+            setExporting(false);
+        }
+    };
+
+    const format = (value: number) => `${value < 0 ? '-' : ''}${currencySymbol}${Math.abs(Math.round(value)).toLocaleString()}`;
+    const isSmall = Dimensions.get('window').width < 600;
+
+    // Football field scale, from zero (or the lowest estimate) to the highest estimate
+    const fieldMin = result ? Math.min(0, ...result.footballField.map((bar) => bar.low)) : 0;
+    const fieldSpan = result ? Math.max(...result.footballField.map((bar) => bar.high)) - fieldMin || 1 : 1;
+    const fieldPosition = (value: number) => `${((value - fieldMin) / fieldSpan) * 100}%` as const;
+
+    return (
+        <ScrollView
+            className="flex-1 bg-[#020617]"
+            contentContainerStyle={{ paddingHorizontal: isSmall ? 12 : 20, paddingVertical: isSmall ? 16 : 40 }}
+        >
+            <View className="w-full">
+                {/* Top Navigation */}
+                <View className="flex-row items-center justify-between mb-8">
+                    <Pressable
+                        onPress={() => router.back()}
+                        className="p-3 bg-white/10 rounded-full border border-white/20 active:scale-95 transition-transform"
+                    >
+                        <Ionicons name="arrow-back" size={24} color="white" />
+                    </Pressable>
+                    <LanguageSelector />
+                </View>
+
+                {/* Header Title Section */}
+                <View className="mb-6">
+                    <SectionHeading
+                        title={t('calculators.valuation.title')}
+                        subtitle={t('calculators.valuation.subtitle')}
+                    />
+                </View>
+
+                <View className={isSmall ? 'gap-6' : 'flex-row gap-6 items-start'}>
+                    {/* Form */}
+                    <View className={isSmall ? 'w-full gap-4' : 'flex-1 gap-4'}>
+                        <GlassCard>
+                            <Text className="text-white font-semibold text-lg mb-4">
+                                {t('calculators.enter_data')}
+                            </Text>
+
+                            {projects.length > 0 && (
+                                <View className="mb-4">
+                                    <Text className="text-gray-300 font-medium mb-2">{t('calculators.valuation.source')}</Text>
+                                    <View className="flex-row flex-wrap gap-2">
+                                        <Chip label={t('calculators.valuation.manual')} active={projectId === null} onPress={() => selectProject(null)} />
+                                        {projects.map((project) => (
+                                            <Chip key={project.id} label={project.name} active={projectId === project.id} onPress={() => selectProject(project)} />
+                                        ))}
+                                    </View>
+                                    <Text className="text-gray-400 text-xs mt-1">{t('calculators.valuation.source_hint')}</Text>
+                                </View>
+                            )}
+
+                            <View className="mb-4">
+                                <Text className="text-gray-300 font-medium mb-2">{t('calculators.valuation.free_cash_flows')}</Text>
+                                <TextInput
+                                    value={cashFlowsText}
+                                    onChangeText={(text) => {
+                                        setCashFlowsText(text);
+                                        setFinalYearMonths(12);
+                                    }}
+                                    placeholder="120000, 150000, 180000"
+                                    placeholderTextColor="#6b7280"
+                                    className="bg-slate-800 rounded-xl border border-white/10 px-4 py-3 text-white"
+                                />
+                                <Text className="text-gray-400 text-xs mt-1">{t('calculators.valuation.free_cash_flows_hint')}</Text>
+                                {finalYearMonths < 12 && (
+                                    <Text className="text-amber-300 text-xs mt-1">
+                                        {t('calculators.valuation.partial_year', { months: String(finalYearMonths) })}
+                                    </Text>
+                                )}
+                            </View>
+
+                            <InputField label={t('calculators.valuation.wacc')} value={wacc} onChange={setWacc} suffix="%" />
+                            <InputField
+                                label={t('calculators.valuation.terminal_growth')}
+                                value={terminalGrowth}
+                                onChange={setTerminalGrowth}
+                                suffix="%"
+                                hint={t('calculators.valuation.terminal_growth_hint')}
+                            />
+                            <InputField
+                                label={t('calculators.valuation.net_debt')}
+                                value={netDebt}
+                                onChange={setNetDebt}
+                                prefix={currencySymbol}
+                                hint={t('calculators.valuation.net_debt_hint')}
+                            />
+                        </GlassCard>
+
+                        <GlassCard>
+                            <View className="flex-row items-center gap-2 mb-2"><IconLabel icon="target" size={18} /><Text className="text-white font-semibold text-lg">{t('calculators.valuation.peers_title')}</Text></View>
+                            <Text className="text-gray-400 text-xs mb-4">{t('calculators.valuation.peers_hint')}</Text>
+
+                            <InputField label={t('calculators.valuation.revenue')} value={revenue} onChange={setRevenue} prefix={currencySymbol} />
+                            <InputField label={t('calculators.valuation.ebitda')} value={ebitda} onChange={setEbitda} prefix={currencySymbol} />
+
+                            <View className="gap-3 mb-4">
+                                {peerRows.map((row, index) => (
+                                    <View key={index} className="bg-slate-900/60 rounded-xl border border-white/10 p-3 gap-2">
+                                        <View className="flex-row items-center gap-2">
+                                            <SmallInput value={row.name} onChange={(v) => updatePeerRow(index, 'name', v)} placeholder={t('calculators.valuation.peer_name')} numeric={false} />
+                                            <Pressable onPress={() => setPeerRows((rows) => rows.filter((_, i) => i !== index))} className="p-1">
+                                                <Ionicons name="close-circle" size={20} color="#f87171" />
+                                            </Pressable>
+                                        </View>
+                                        <View className="flex-row gap-2">
+                                            <SmallInput value={row.evToRevenue} onChange={(v) => updatePeerRow(index, 'evToRevenue', v)} placeholder={t('calculators.valuation.methods.ev_revenue')} />
+                                            <SmallInput value={row.evToEbitda} onChange={(v) => updatePeerRow(index, 'evToEbitda', v)} placeholder={t('calculators.valuation.methods.ev_ebitda')} />
+                                        </View>
+                                    </View>
+                                ))}
+                            </View>
+
+                            <Pressable
+                                onPress={() => setPeerRows((rows) => [...rows, { name: '', evToRevenue: '', evToEbitda: '' }])}
+                                className="px-3 py-2 rounded-xl border border-white/10 bg-slate-800 self-start"
+                            >
+                                <Text className="text-gray-300 text-xs">+ {t('calculators.valuation.add_peer')}</Text>
+                            </Pressable>
+                        </GlassCard>
+                    </View>
+
+                    {/* Results */}
+                    <View className={isSmall ? 'w-full gap-4' : 'flex-1 gap-4'}>
+                        {result ? (
+                            <>
+                                <View className="flex-row flex-wrap gap-4">
+                                    <StatCard label={t('calculators.valuation.enterprise_value')} value={format(result.dcf.enterpriseValue)} />
+                                    <StatCard
+                                        label={t('calculators.valuation.equity_value')}
+                                        value={format(result.dcf.equityValue)}
+                                        hint={t('calculators.valuation.after_net_debt')}
+                                    />
+                                    <StatCard
+                                        label={t('calculators.valuation.terminal_share')}
+                                        value={`${result.dcf.terminalValueShare.toFixed(0)}%`}
+                                        hint={`${t('calculators.valuation.terminal_value')} ${format(result.dcf.terminalValue)}`}
+                                    />
+                                </View>
+
+                                {result.multiples.length > 0 && (
+                                    <GlassCard>
+                                        <View className="flex-row items-center gap-2 mb-4"><IconLabel icon="chart" size={18} /><Text className="text-white font-semibold">{t('calculators.valuation.multiples_title')}</Text></View>
+                                        {result.multiples.map((valuation) => (
+                                            <View key={valuation.method} className="flex-row justify-between py-2 border-b border-white/5">
+                                                <Text className="text-white text-sm flex-1">{t(`calculators.valuation.methods.${valuation.method}`)}</Text>
+                                                <Text className="text-gray-300 text-sm flex-1 text-right">
+                                                    {valuation.lowMultiple.toFixed(1)}x · {valuation.medianMultiple.toFixed(1)}x · {valuation.highMultiple.toFixed(1)}x
+                                                </Text>
+                                                <Text className="text-white text-sm flex-1 text-right">{format(valuation.equityValue)}</Text>
+                                            </View>
+                                        ))}
+                                        <Text className="text-gray-500 text-xs mt-2">{t('calculators.valuation.multiples_hint')}</Text>
+                                    </GlassCard>
+                                )}
+
+                                <GlassCard>
+                                    <View className="flex-row items-center gap-2 mb-4"><IconLabel icon="chart-up" size={18} /><Text className="text-white font-semibold">{t('calculators.valuation.sensitivity_title')}</Text></View>
+                                    <ScrollView horizontal>
+                                        <View className="gap-1">
+                                            <View className="flex-row gap-1">
+                                                <Text className="w-16 text-gray-400 text-xs">WACC \ g</Text>
+                                                {result.sensitivity.growthRates.map((growth) => (
+                                                    <Text key={growth} className="w-24 text-gray-400 text-xs text-right">{growth}%</Text>
+                                                ))}
+                                            </View>
+                                            {result.sensitivity.waccRates.map((rate, row) => (
+                                                <View key={rate} className="flex-row gap-1">
+                                                    <Text className="w-16 text-gray-400 text-xs">{rate}%</Text>
+                                                    {result.sensitivity.enterpriseValues[row].map((value, column) => {
+                                                        const isBase = rate === parseFloat(wacc) && result.sensitivity.growthRates[column] === parseFloat(terminalGrowth);
+                                                        return (
+                                                            <Text key={column} className={`w-24 text-xs text-right ${isBase ? 'text-emerald-400 font-semibold' : 'text-white'}`}>
+                                                                {value === null ? '—' : format(value)}
+                                                            </Text>
+                                                        );
+                                                    })}
+                                                </View>
+                                            ))}
+                                        </View>
+                                    </ScrollView>
+                                </GlassCard>
+
+                                <GlassCard>
+                                    <View className="flex-row items-center gap-2 mb-4"><IconLabel icon="target" size={18} /><Text className="text-white font-semibold">{t('calculators.valuation.football_field')}</Text></View>
+                                    <View className="gap-4">
+                                        {result.footballField.map((bar) => (
+                                            <View key={bar.method}>
+                                                <View className="flex-row justify-between mb-1">
+                                                    <Text className="text-white text-sm">{t(`calculators.valuation.methods.${bar.method}`)}</Text>
+                                                    <Text className="text-gray-400 text-xs">{format(bar.low)} – {format(bar.high)}</Text>
+                                                </View>
+                                                <View className="h-5 bg-slate-800 rounded">
+                                                    <View
+                                                        className="absolute h-5 bg-indigo-400/60 rounded"
+                                                        style={{ left: fieldPosition(bar.low), width: `${Math.max(1, ((bar.high - bar.low) / fieldSpan) * 100)}%` }}
+                                                    />
+                                                    <View className="absolute h-5 w-1 bg-emerald-400" style={{ left: fieldPosition(bar.mid) }} />
+                                                </View>
+                                            </View>
+                                        ))}
+                                    </View>
+                                    <Text className="text-gray-500 text-xs mt-3">{t('calculators.valuation.football_field_hint')}</Text>
+                                </GlassCard>
+
+                                {recommendations.length > 0 && (
+                                    <GlassCard>
+                                        <View className="flex-row items-center gap-2 mb-4"><IconLabel icon="bulb" size={18} /><Text className="text-white font-semibold">{t('calculators.recommendations')}</Text></View>
+                                        <View className="gap-2">
+                                            {recommendations.map((rec, i) => (
+                                                <Text key={i} className="text-gray-300">• {rec}</Text>
+                                            ))}
+                                        </View>
+                                    </GlassCard>
+                                )}
+
+                                <GradientButton
+                                    size="lg"
+                                    onPress={() => {
+                                        if (!exporting) handleExportPDF();
+                                    }}
+                                >
+                                    📄 {exporting ? t('common.exporting') : t('calculators.export_pdf')}
+                                </GradientButton>
+                            </>
+                        ) : (
+                            <GlassCard>
+                                <View className="items-center py-12">
+                                    <Ionicons name="business" size={48} color="#6b7280" />
+                                    <Text className="text-gray-400 mt-4 text-center">
+                                        {t('calculators.valuation.no_data')}
+                                    </Text>
+                                </View>
+                            </GlassCard>
+                        )}
+                    </View>
+                </View>
+            </View>
+        </ScrollView>
+    );
+}
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { ScrollView, Text, View, TouchableOpacity, Platform } from 'react-native';
 import * as Haptics from 'expo-haptics';
 import { router } from 'expo-router';
@@ -6,10 +6,14 @@ import { router } from 'expo-router';
 import { ScreenContainer } from '@/components/screen-container';
 import { IconLabel } from '@/components/ui/icon-label';
 import { SkeletonProjectCard } from '@/components/business/skeleton-project-card';
+import { PortfolioOptimizerPanel } from '@/components/business/portfolio-optimizer-panel';
 import { useTranslation } from '@/lib/i18n-context';
 import { getAllProjects } from '@/lib/project-storage';
 import { eventEmitter, Events } from '@/lib/event-emitter';
 import { calculateBreakEven } from '@/lib/break-even-calculator';
+import { CalculationService } from '@/lib/application/services/CalculationService';
+import { useReportingCurrency } from '@/hooks/use-reporting-currency';
+import { formatCurrency } from '@/lib/utils';
 import type { ProjectData } from '@/types/project';
 
 interface ProjectMetrics {
@@ -32,6 +36,7 @@ interface AggregateMetrics {
 
 export default function DashboardScreen() {
   const { t } = useTranslation();
+  const { currency } = useReportingCurrency();
   const [loading, setLoading] = useState(true);
   const [projects, setProjects] = useState<ProjectMetrics[]>([]);
   const [aggregateMetrics, setAggregateMetrics] = useState<AggregateMetrics>({
@@ -44,41 +49,15 @@ export default function DashboardScreen() {
   const [sortBy, setSortBy] = useState<'roi' | 'npv' | 'payback'>('roi');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
 
-  useEffect(() => {
-    loadProjects();
-  }, []);
-
-  // Listen to project events for auto-refresh
-  useEffect(() => {
-    const unsubscribeCreated = eventEmitter.on(Events.PROJECT_CREATED, () => {
-      loadProjects();
-    });
-
-    const unsubscribeUpdated = eventEmitter.on(Events.PROJECT_UPDATED, () => {
-      loadProjects();
-    });
-
-    const unsubscribeDeleted = eventEmitter.on(Events.PROJECT_DELETED, () => {
-      loadProjects();
-    });
-
-    const unsubscribeDuplicated = eventEmitter.on(Events.PROJECT_DUPLICATED, () => {
-      loadProjects();
-    });
-
-    return () => {
-      unsubscribeCreated();
-      unsubscribeUpdated();
-      unsubscribeDeleted();
-      unsubscribeDuplicated();
-    };
-  }, []);
-
-  const loadProjects = async () => {
+  const loadProjects = useCallback(async () => {
     try {
       setLoading(true);
       const allProjects = await getAllProjects();
 
+      // Monetary amounts are converted to the reporting currency before they are compared or summed
+      const portfolio = await new CalculationService().aggregatePortfolio(allProjects, currency);
+      const convertedNPV = new Map(portfolio.projects.map((p) => [p.id, p.npv]));
+
       // Extract metrics from each project
       const projectMetrics: ProjectMetrics[] = allProjects
         .filter((p) => p.results) // Only projects with calculated results
@@ -88,7 +67,7 @@ export default function DashboardScreen() {
             id: p.id,
             name: p.name,
             roi: p.results!.roi,
-            npv: p.results!.npv,
+            npv: convertedNPV.get(p.id) ?? p.results!.npv,
             paybackPeriod: p.results!.paybackPeriod,
             breakEvenMonth: breakEvenData.breakEvenPoint.achieved ? breakEvenData.breakEvenPoint.month : null,
             createdAt: p.createdAt,
@@ -96,11 +75,11 @@ export default function DashboardScreen() {
         });
 
       // Calculate aggregate metrics
-      const totalInvestment = allProjects.reduce((sum, p) => sum + p.initialInvestment, 0);
+      const totalInvestment = portfolio.totalInvestment;
       const averageROI = projectMetrics.length > 0
         ? projectMetrics.reduce((sum, p) => sum + p.roi, 0) / projectMetrics.length
         : 0;
-      const totalNPV = projectMetrics.reduce((sum, p) => sum + p.npv, 0);
+      const totalNPV = portfolio.totalNPV;
       const bestProject = projectMetrics.length > 0
         ? projectMetrics.reduce((best, current) => (current.roi > best.roi ? current : best))
         : null;
@@ -118,7 +97,37 @@ export default function DashboardScreen() {
     } finally {
       setLoading(false);
     }
-  };
+  }, [currency]);
+
+  useEffect(() => {
+    loadProjects();
+  }, [loadProjects]);
+
+  // Listen to project events for auto-refresh
+  useEffect(() => {
+    const unsubscribeCreated = eventEmitter.on(Events.PROJECT_CREATED, () => {
+      loadProjects();
+    });
+
+    const unsubscribeUpdated = eventEmitter.on(Events.PROJECT_UPDATED, () => {
+      loadProjects();
+    });
+
+    const unsubscribeDeleted = eventEmitter.on(Events.PROJECT_DELETED, () => {
+      loadProjects();
+    });
+
+    const unsubscribeDuplicated = eventEmitter.on(Events.PROJECT_DUPLICATED, () => {
+      loadProjects();
+    });
+
+    return () => {
+      unsubscribeCreated();
+      unsubscribeUpdated();
+      unsubscribeDeleted();
+      unsubscribeDuplicated();
+    };
+  }, [loadProjects]);
 
   const sortedProjects = [...projects].sort((a, b) => {
     let comparison = 0;
@@ -234,13 +243,13 @@ export default function DashboardScreen() {
             <View className="flex-1 bg-surface rounded-xl border border-border p-4">
               <Text className="text-xs text-muted mb-1">{t('dashboard.total_investment')}</Text>
               <Text className="text-xl font-bold text-foreground">
-                ${aggregateMetrics.totalInvestment.toLocaleString()}
+                {formatCurrency(aggregateMetrics.totalInvestment, currency)}
               </Text>
             </View>
             <View className="flex-1 bg-surface rounded-xl border border-border p-4">
               <Text className="text-xs text-muted mb-1">{t('dashboard.total_npv')}</Text>
               <Text className={`text-xl font-bold ${aggregateMetrics.totalNPV > 0 ? 'text-success' : 'text-error'}`}>
-                ${aggregateMetrics.totalNPV.toLocaleString()}
+                {formatCurrency(aggregateMetrics.totalNPV, currency)}
               </Text>
             </View>
           </View>
@@ -258,6 +267,12 @@ export default function DashboardScreen() {
           )}
         </View>
 
+        {/* Capital budget optimization */}
+        <PortfolioOptimizerPanel
+          projects={projects.map((p) => ({ id: p.id, name: p.name }))}
+          currency={currency}
+        />
+
         {/* Sort Buttons */}
         <View className="flex-row gap-2 mb-4">
           <TouchableOpacity
@@ -336,7 +351,7 @@ export default function DashboardScreen() {
                       {sortBy === 'roi'
                         ? `${value.toFixed(1)}%`
                         : sortBy === 'npv'
-                          ? `$${value.toLocaleString()}`
+                          ? formatCurrency(value, currency)
                           : `${value.toFixed(1)} ${t('common.months')}`}
                     </Text>
                   </View>
@@ -376,7 +391,7 @@ export default function DashboardScreen() {
                 <View className="flex-1">
                   <Text className="text-xs text-muted">NPV</Text>
                   <Text className={`text-sm font-bold ${project.npv > 0 ? 'text-success' : 'text-error'}`}>
-                    ${project.npv.toLocaleString()}
+                    {formatCurrency(project.npv, currency)}
                   </Text>
                 </View>
                 <View className="flex-1">
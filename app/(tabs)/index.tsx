@@ -137,6 +137,29 @@ function MarketingROIChart({ color }: { color: string }) {
   );
 }
 
+function CohortsChart({ color }: { color: string }) {
+  return (
+    <Svg width="100%" height="52" viewBox="0 0 120 52">
+      {[0, 1, 2, 3].map((row) =>
+        [0, 1, 2, 3, 4].slice(0, 5 - row).map((col) => (
+          <Rect key={`${row}-${col}`} x={col * 24 + 2} y={row * 13 + 1} width="20" height="11" fill={color} opacity={1 - col * 0.18} rx="2" />
+        ))
+      )}
+    </Svg>
+  );
+}
+
+function ValuationChart({ color }: { color: string }) {
+  return (
+    <Svg width="100%" height="52" viewBox="0 0 120 52">
+      <Rect x="20" y="4" width="70" height="10" fill={color} opacity={0.9} rx="2" />
+      <Rect x="35" y="20" width="60" height="10" fill={color} opacity={0.65} rx="2" />
+      <Rect x="10" y="36" width="55" height="10" fill={color} opacity={0.4} rx="2" />
+      <Line x1="58" y1="0" x2="58" y2="52" stroke={color} strokeWidth="1.5" strokeDasharray="3 3" />
+    </Svg>
+  );
+}
+
 const CHART_COMPONENTS: Record<string, React.ComponentType<{ color: string }>> = {
   'break-even': BreakEvenChart,
   'cash-flow': CashFlowChart,
@@ -144,6 +167,8 @@ const CHART_COMPONENTS: Record<string, React.ComponentType<{ color: string }>> =
   'loan': LoanChart,
   'employee-roi': EmployeeROIChart,
   'marketing': MarketingROIChart,
+  'cohorts': CohortsChart,
+  'valuation': ValuationChart,
 };
 
 // TOOL CARDS DATA & COMPONENT
@@ -197,6 +222,22 @@ function getToolCards(t: (key: string) => string) {
       href: '/(tabs)/calculators/marketing' as const,
       color: 'warning' as const
     },
+    {
+      icon: 'person.3',
+      chartType: 'cohorts',
+      title: t('calculators.cohorts.title'),
+      description: t('calculators.cohorts.description'),
+      href: '/(tabs)/calculators/cohorts' as const,
+      color: 'primary' as const
+    },
+    {
+      icon: 'building.columns',
+      chartType: 'valuation',
+      title: t('calculators.valuation.title'),
+      description: t('calculators.valuation.description'),
+      href: '/(tabs)/calculators/valuation' as const,
+      color: 'success' as const
+    },
   ];
 }
 
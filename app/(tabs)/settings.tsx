@@ -10,6 +10,7 @@ import {
   Platform,
 } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { router } from 'expo-router';
 import * as Haptics from 'expo-haptics';
 import Constants from 'expo-constants';
 
@@ -32,6 +33,9 @@ import * as DocumentPicker from 'expo-document-picker';
 import { useColors } from '@/hooks/use-colors';
 import { useColorScheme } from '@/hooks/use-color-scheme';
 import { useThemeContext } from '@/lib/theme-provider';
+import { useReportingCurrency } from '@/hooks/use-reporting-currency';
+import { CurrencyPicker } from '@/components/business/currency-picker';
+import type { Currency } from '@/lib/domain/value-objects/Money';
 import * as Auth from '@/lib/_core/auth';
 import * as Api from '@/lib/_core/api';
 import { getLoginUrl } from '@/constants/oauth';
@@ -42,6 +46,7 @@ export default function SettingsScreen() {
   const { t, language, setLanguage } = useTranslation();
   const colors = useColors();
   const { themeMode, setThemeMode: setGlobalThemeMode } = useThemeContext();
+  const { currency: reportingCurrency, setCurrency: setReportingCurrency } = useReportingCurrency();
   const [showTutorial, setShowTutorial] = useState(false);
   const [notificationsEnabled, setNotificationsEnabledState] = useState(false);
   const [defaultFrequency, setDefaultFrequency] = useState<ReminderFrequency>('monthly');
@@ -55,6 +60,13 @@ export default function SettingsScreen() {
     setLanguage(newLanguage);
   };
 
+  const handleReportingCurrencyChange = async (currency: Currency) => {
+    if (Platform.OS !== 'web') {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }
+    await setReportingCurrency(currency);
+  };
+
   const handleThemeModeChange = async (mode: ThemeMode) => {
     if (Platform.OS !== 'web') {
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
@@ -337,6 +349,18 @@ export default function SettingsScreen() {
                     <Text className="text-xs text-muted mt-0.5">{currentUser.email}</Text>
                   )}
                 </View>
+                <TouchableOpacity
+                  onPress={() => router.push('/workspaces' as any)}
+                  className="flex-row items-center justify-between p-4 border-b border-border"
+                >
+                  <View className="flex-row items-center gap-3">
+                    <Text className="text-2xl">👥</Text>
+                    <Text className="text-base text-foreground font-medium">
+                      {t('workspaces.title')}
+                    </Text>
+                  </View>
+                  <Text className="text-muted font-semibold">›</Text>
+                </TouchableOpacity>
                 <TouchableOpacity
                   onPress={handleLogout}
                   className="flex-row items-center justify-between p-4"
@@ -407,6 +431,19 @@ export default function SettingsScreen() {
           </View>
         </View>
 
+        {/* Reporting Currency Section */}
+        <View className="mb-6">
+          <Text className="text-sm font-semibold text-muted mb-3">
+            {t('currency.reporting_currency')}
+          </Text>
+          <View className="bg-surface rounded-xl border border-border p-4 gap-3">
+            <Text className="text-xs text-muted">
+              {t('currency.reporting_currency_desc')}
+            </Text>
+            <CurrencyPicker value={reportingCurrency} onChange={handleReportingCurrencyChange} />
+          </View>
+        </View>
+
         {/* Theme Section */}
         <View className="mb-6">
           <Text className="text-sm font-semibold text-muted mb-3">
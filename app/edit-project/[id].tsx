@@ -17,7 +17,26 @@ import { useTranslation } from '@/lib/i18n-context';
 import { useColors } from '@/hooks/use-colors';
 import { getProject, updateProject } from '@/lib/project-storage';
 import { calculateFinancialMetrics } from '@/lib/financial-calculator';
-import type { ProjectData } from '@/types/project';
+import { CalculationService } from '@/lib/application/services/CalculationService';
+import { RiskMetricsCalculator } from '@/lib/infrastructure/calculators/RiskMetricsCalculator';
+import { LineItemCashFlowCalculator } from '@/lib/infrastructure/calculators/LineItemCashFlowCalculator';
+import { LineItemsEditor, EMPTY_LINE_ITEMS } from '@/components/business/line-items-editor';
+import { FiscalAssumptionsEditor } from '@/components/business/fiscal-assumptions-editor';
+import { InflationEditor } from '@/components/business/inflation-editor';
+import { RiskInputEditor } from '@/components/business/risk-input-editor';
+import { MonteCarloEditor, MAX_MONTE_CARLO_ITERATIONS } from '@/components/business/monte-carlo-editor';
+import { CurrencyPicker } from '@/components/business/currency-picker';
+import { Currency } from '@/lib/domain/value-objects/Money';
+import type {
+  FinancialCalculationInput,
+  FiscalAssumptions,
+  InflationAssumptions,
+  LineItemModel,
+  MonteCarloConfig,
+  ProjectData,
+  RiskInput,
+  ValuationBasis,
+} from '@/types/project';
 
 export default function EditProjectScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
@@ -33,11 +52,20 @@ export default function EditProjectScreen() {
   const [name, setName] = useState('');
   const [initialInvestment, setInitialInvestment] = useState('');
   const [discountRate, setDiscountRate] = useState('');
+  const [currency, setCurrency] = useState<Currency>(Currency.USD);
+  const [financeRate, setFinanceRate] = useState('');
+  const [reinvestmentRate, setReinvestmentRate] = useState('');
   const [projectDuration, setProjectDuration] = useState('');
   const [yearlyRevenue, setYearlyRevenue] = useState('');
   const [revenueGrowth, setRevenueGrowth] = useState('');
   const [operatingCosts, setOperatingCosts] = useState('');
   const [maintenanceCosts, setMaintenanceCosts] = useState('');
+  const [lineItems, setLineItems] = useState<LineItemModel>(EMPTY_LINE_ITEMS);
+  const [fiscalAssumptions, setFiscalAssumptions] = useState<FiscalAssumptions | undefined>(undefined);
+  const [inflation, setInflation] = useState<InflationAssumptions | undefined>(undefined);
+  const [valuationBasis, setValuationBasis] = useState<ValuationBasis>('nominal');
+  const [riskInput, setRiskInput] = useState<RiskInput | undefined>(undefined);
+  const [monteCarloConfig, setMonteCarloConfig] = useState<MonteCarloConfig | undefined>(undefined);
 
   useEffect(() => {
     loadProject();
@@ -60,11 +88,20 @@ export default function EditProjectScreen() {
       setName(loadedProject.name);
       setInitialInvestment(loadedProject.initialInvestment.toString());
       setDiscountRate(loadedProject.discountRate.toString());
+      setCurrency(loadedProject.currency ?? Currency.USD);
+      setFinanceRate(loadedProject.financeRate?.toString() ?? '');
+      setReinvestmentRate(loadedProject.reinvestmentRate?.toString() ?? '');
       setProjectDuration(loadedProject.projectDuration.toString());
       setYearlyRevenue(loadedProject.yearlyRevenue.toString());
       setRevenueGrowth(loadedProject.revenueGrowth.toString());
       setOperatingCosts(loadedProject.operatingCosts.toString());
       setMaintenanceCosts(loadedProject.maintenanceCosts.toString());
+      setLineItems(loadedProject.lineItems ?? EMPTY_LINE_ITEMS);
+      setFiscalAssumptions(loadedProject.fiscalAssumptions ?? undefined);
+      setInflation(loadedProject.inflation ?? undefined);
+      setValuationBasis(loadedProject.valuationBasis ?? 'nominal');
+      setRiskInput(loadedProject.riskInput ?? undefined);
+      setMonteCarloConfig(loadedProject.monteCarloConfig ?? undefined);
     } catch (error) {
       console.error('Error loading project:', error);
       Alert.alert(t('validations.error'), t('errors.loading_project'));
@@ -74,6 +111,20 @@ export default function EditProjectScreen() {
     }
   };
 
+  // Inputs as currently entered, to start the Monte Carlo distributions from
+  const formInput = (): FinancialCalculationInput => ({
+    initialInvestment: parseFloat(initialInvestment) || 0,
+    discountRate: parseFloat(discountRate) || 0,
+    projectDuration: parseInt(projectDuration) || 1,
+    yearlyRevenue: parseFloat(yearlyRevenue) || 0,
+    revenueGrowth: parseFloat(revenueGrowth) || 0,
+    operatingCosts: parseFloat(operatingCosts) || 0,
+    maintenanceCosts: parseFloat(maintenanceCosts) || 0,
+    lineItems,
+    businessModel: project?.businessModel,
+    saasInput: project?.saasInput,
+  });
+
   const handleSave = async () => {
     // Validation
     if (!name.trim()) {
@@ -88,8 +139,13 @@ export default function EditProjectScreen() {
     const growth = parseFloat(revenueGrowth);
     const opCosts = parseFloat(operatingCosts);
     const maintCosts = parseFloat(maintenanceCosts);
+    // Blank MIRR rates fall back to the discount rate
+    const finance = financeRate.trim() ? parseFloat(financeRate) : undefined;
+    const reinvestment = reinvestmentRate.trim() ? parseFloat(reinvestmentRate) : undefined;
 
-    if (isNaN(investment) || investment <= 0) {
+    // Line items replace the investment with their upfront capex, so it may be left at zero
+    const usesLineItems = new LineItemCashFlowCalculator().hasLineItems(lineItems);
+    if (isNaN(investment) || investment < 0 || (investment === 0 && !usesLineItems)) {
       Alert.alert(t('validations.error'), t('validations.initial_investment_required'));
       return;
     }
@@ -99,6 +155,11 @@ export default function EditProjectScreen() {
       return;
     }
 
+    if ([finance, reinvestment].some((rate) => rate !== undefined && (isNaN(rate) || rate < 0 || rate > 100))) {
+      Alert.alert(t('validations.error'), t('validations.mirr_rate_invalid'));
+      return;
+    }
+
     if (isNaN(duration) || duration < 1 || duration > 360) {
       Alert.alert(t('validations.error'), t('validations.project_duration_invalid'));
       return;
@@ -124,6 +185,20 @@ export default function EditProjectScreen() {
       return;
     }
 
+    if (monteCarloConfig && (monteCarloConfig.iterations < 1 || monteCarloConfig.iterations > MAX_MONTE_CARLO_ITERATIONS)) {
+      Alert.alert(t('validations.error'), t('monte_carlo.iterations_invalid', { max: String(MAX_MONTE_CARLO_ITERATIONS) }));
+      return;
+    }
+
+    if (riskInput) {
+      try {
+        new RiskMetricsCalculator().calculate(riskInput);
+      } catch (error) {
+        Alert.alert(t('validations.error'), error instanceof Error ? error.message : t('risk_input.invalid'));
+        return;
+      }
+    }
+
     try {
       setSaving(true);
 
@@ -131,6 +206,9 @@ export default function EditProjectScreen() {
         Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
       }
 
+      // A real basis only makes sense while an inflation assumption exists
+      const basis = inflation ? valuationBasis : undefined;
+
       // Recalculate metrics for all scenarios
       const expectedResults = calculateFinancialMetrics({
         initialInvestment: investment,
@@ -140,6 +218,14 @@ export default function EditProjectScreen() {
         revenueGrowth: growth,
         operatingCosts: opCosts,
         maintenanceCosts: maintCosts,
+        financeRate: finance,
+        reinvestmentRate: reinvestment,
+        lineItems,
+        fiscalAssumptions,
+        inflation,
+        valuationBasis: basis,
+        businessModel: project?.businessModel,
+        saasInput: project?.saasInput,
         multiplier: 1,
       });
 
@@ -151,6 +237,14 @@ export default function EditProjectScreen() {
         revenueGrowth: growth,
         operatingCosts: opCosts,
         maintenanceCosts: maintCosts,
+        financeRate: finance,
+        reinvestmentRate: reinvestment,
+        lineItems,
+        fiscalAssumptions,
+        inflation,
+        valuationBasis: basis,
+        businessModel: project?.businessModel,
+        saasInput: project?.saasInput,
         multiplier: project?.bestCaseMultiplier || 1.3,
       });
 
@@ -162,14 +256,58 @@ export default function EditProjectScreen() {
         revenueGrowth: growth,
         operatingCosts: opCosts,
         maintenanceCosts: maintCosts,
+        financeRate: finance,
+        reinvestmentRate: reinvestment,
+        lineItems,
+        fiscalAssumptions,
+        inflation,
+        valuationBasis: basis,
+        businessModel: project?.businessModel,
+        saasInput: project?.saasInput,
         multiplier: project?.worstCaseMultiplier || 0.7,
       });
 
+      const calculationService = new CalculationService();
+      let monteCarlo;
+      try {
+        monteCarlo = await calculationService.calculateMonteCarlo(
+          {
+            initialInvestment: investment,
+            discountRate: discount,
+            projectDuration: duration,
+            yearlyRevenue: revenue,
+            revenueGrowth: growth,
+            operatingCosts: opCosts,
+            maintenanceCosts: maintCosts,
+            financeRate: finance,
+            reinvestmentRate: reinvestment,
+            lineItems,
+            fiscalAssumptions,
+            inflation,
+            valuationBasis: basis,
+            businessModel: project?.businessModel,
+            saasInput: project?.saasInput,
+          },
+          monteCarloConfig,
+          {
+            bestCaseMultiplier: project?.bestCaseMultiplier || 1.3,
+            worstCaseMultiplier: project?.worstCaseMultiplier || 0.7,
+          }
+        );
+      } catch (error) {
+        // The simulation validates the distributions before anything is saved
+        Alert.alert(t('validations.error'), error instanceof Error ? error.message : t('errors.saving_project'));
+        return;
+      }
+
       const results = {
         roi: expectedResults.roi,
         npv: expectedResults.npv,
         paybackPeriod: expectedResults.paybackPeriod,
         irr: expectedResults.irr,
+        irrDiagnostics: expectedResults.irrDiagnostics,
+        mirr: expectedResults.mirr,
+        valuationBasis: expectedResults.valuationBasis,
         roiBest: bestResults.roi,
         npvBest: bestResults.npv,
         paybackBest: bestResults.paybackPeriod,
@@ -180,6 +318,9 @@ export default function EditProjectScreen() {
         irrWorst: worstResults.irr,
         monthlyCashFlow: expectedResults.monthlyCashFlow,
         cumulativeCashFlow: expectedResults.cumulativeCashFlow,
+        freeCashFlowSummary: expectedResults.freeCashFlow && calculationService.summarizeFreeCashFlow(expectedResults.freeCashFlow),
+        saasProjectionSummary: expectedResults.saasProjection && calculationService.summarizeSaaSProjection(expectedResults.saasProjection),
+        monteCarlo,
       };
 
       // Update project
@@ -192,6 +333,15 @@ export default function EditProjectScreen() {
         revenueGrowth: growth,
         operatingCosts: opCosts,
         maintenanceCosts: maintCosts,
+        currency,
+        financeRate: finance,
+        reinvestmentRate: reinvestment,
+        lineItems,
+        fiscalAssumptions,
+        inflation,
+        valuationBasis: basis,
+        riskInput,
+        monteCarloConfig,
         results,
       });
 
@@ -281,6 +431,14 @@ export default function EditProjectScreen() {
             />
           </View>
 
+          {/* Currency */}
+          <View>
+            <Text className="text-sm font-semibold text-foreground mb-2">
+              {t('currency.project_currency')}
+            </Text>
+            <CurrencyPicker value={currency} onChange={setCurrency} />
+          </View>
+
           {/* Initial Investment */}
           <View>
             <Text className="text-sm font-semibold text-foreground mb-2">
@@ -311,6 +469,36 @@ export default function EditProjectScreen() {
             />
           </View>
 
+          {/* MIRR Rates */}
+          <View className="flex-row gap-3">
+            <View className="flex-1">
+              <Text className="text-sm font-semibold text-foreground mb-2">
+                {t('irr.finance_rate')} (%)
+              </Text>
+              <TextInput
+                value={financeRate}
+                onChangeText={setFinanceRate}
+                placeholder={discountRate || '10'}
+                keyboardType="numeric"
+                placeholderTextColor={colors.muted}
+                className="bg-surface border border-border rounded-xl px-4 py-3 text-foreground"
+              />
+            </View>
+            <View className="flex-1">
+              <Text className="text-sm font-semibold text-foreground mb-2">
+                {t('irr.reinvestment_rate')} (%)
+              </Text>
+              <TextInput
+                value={reinvestmentRate}
+                onChangeText={setReinvestmentRate}
+                placeholder={discountRate || '10'}
+                keyboardType="numeric"
+                placeholderTextColor={colors.muted}
+                className="bg-surface border border-border rounded-xl px-4 py-3 text-foreground"
+              />
+            </View>
+          </View>
+
           {/* Project Duration */}
           <View>
             <Text className="text-sm font-semibold text-foreground mb-2">
@@ -387,6 +575,67 @@ export default function EditProjectScreen() {
           </View>
         </View>
 
+        {/* Line Items */}
+        <View className="mt-8">
+          <Text className="text-xl font-bold text-foreground mb-2">
+            {t('line_items.title')}
+          </Text>
+          <LineItemsEditor value={lineItems} onChange={setLineItems} currency={currency} />
+        </View>
+
+        {/* Fiscal Assumptions */}
+        <View className="mt-8">
+          <Text className="text-xl font-bold text-foreground mb-2">
+            {t('fiscal.title')}
+          </Text>
+          <FiscalAssumptionsEditor value={fiscalAssumptions} onChange={setFiscalAssumptions} />
+        </View>
+
+        {/* Inflation */}
+        <View className="mt-8">
+          <Text className="text-xl font-bold text-foreground mb-2">
+            {t('inflation.title')}
+          </Text>
+          <InflationEditor
+            value={inflation}
+            onChange={setInflation}
+            valuationBasis={valuationBasis}
+            onValuationBasisChange={setValuationBasis}
+          />
+        </View>
+
+        {/* Monte Carlo */}
+        <View className="mt-8">
+          <Text className="text-xl font-bold text-foreground mb-2">
+            {t('monte_carlo.title')}
+          </Text>
+          <MonteCarloEditor
+            value={monteCarloConfig}
+            onChange={setMonteCarloConfig}
+            createDefault={() => new CalculationService().createMonteCarloConfig(formInput(), {
+              bestCaseMultiplier: project?.bestCaseMultiplier || 1.3,
+              worstCaseMultiplier: project?.worstCaseMultiplier || 0.7,
+            })}
+            baseValues={{
+              yearlyRevenue: formInput().yearlyRevenue,
+              revenueGrowth: formInput().revenueGrowth,
+              operatingCosts: formInput().operatingCosts,
+              discountRate: formInput().discountRate,
+              initialInvestment: formInput().initialInvestment,
+              revenueMultiplier: 1,
+              costMultiplier: 1,
+            }}
+          />
+        </View>
+
+        {/* Cash Runway */}
+        <View className="mt-8">
+          <Text className="text-xl font-bold text-foreground mb-2">
+            {t('runway.title')}
+          </Text>
+          <RiskInputEditor value={riskInput} onChange={setRiskInput} />
+        </View>
+
         {/* Buttons */}
         <View className="flex-row gap-3 mt-8 mb-6">
           <TouchableOpacity
@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useLocalSearchParams, router } from 'expo-router';
+
+import { ScreenContainer } from '@/components/screen-container';
+import { useTranslation } from '@/lib/i18n-context';
+import { useColors } from '@/hooks/use-colors';
+import { acceptWorkspaceInvitation } from '@/lib/api/projects';
+
+/**
+ * Landing screen for an invitation link; joining is explicit so opening a link never changes access on its own
+ */
+export default function AcceptInvitationScreen() {
+  const { token } = useLocalSearchParams<{ token: string }>();
+  const { t } = useTranslation();
+  const colors = useColors();
+  const [accepting, setAccepting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAccept = async () => {
+    if (!token) return;
+
+    try {
+      setAccepting(true);
+      setError(null);
+      await acceptWorkspaceInvitation(token);
+      router.replace('/workspaces' as any);
+    } catch (acceptError) {
+      setError(acceptError instanceof Error && acceptError.message ? acceptError.message : t('workspaces.join_error'));
+    } finally {
+      setAccepting(false);
+    }
+  };
+
+  return (
+    <ScreenContainer className="justify-center items-center p-6">
+      <View className="mb-2"><Ionicons name="people" size={28} color={colors.primary} /></View>
+      <Text className="text-lg font-bold text-foreground mb-2">{t('workspaces.invite_title')}</Text>
+      <Text className="text-base text-muted text-center mb-6">{t('workspaces.invite_message')}</Text>
+      {error && <Text className="text-sm text-error mb-4 text-center">{error}</Text>}
+      <TouchableOpacity
+        onPress={handleAccept}
+        disabled={accepting}
+        className="w-full max-w-sm bg-primary rounded-xl py-4 items-center active:opacity-80"
+      >
+        {accepting ? (
+          <ActivityIndicator color={colors.background} />
+        ) : (
+          <Text className="text-background font-semibold text-base">{t('workspaces.join')}</Text>
+        )}
+      </TouchableOpacity>
+      <TouchableOpacity onPress={() => router.replace('/' as any)} className="mt-4 py-2">
+        <Text className="text-muted font-medium">{t('common.cancel')}</Text>
+      </TouchableOpacity>
+    </ScreenContainer>
+  );
+}
@@ -19,6 +19,14 @@ import { WizardInput, type QuickSuggestion } from '@/components/wizard/wizard-in
 import { useTranslation } from '@/lib/i18n-context';
 import { saveProject, saveDraft, loadDraft, clearDraft, hasDraft } from '@/lib/project-storage';
 import { CalculationService } from '@/lib/application/services/CalculationService';
+import { LineItemCashFlowCalculator } from '@/lib/infrastructure/calculators/LineItemCashFlowCalculator';
+import { StandardMetricsCalculator } from '@/lib/infrastructure/calculators/StandardMetricsCalculator';
+import { InflationCalculator } from '@/lib/infrastructure/calculators/InflationCalculator';
+import { LineItemsEditor, EMPTY_LINE_ITEMS } from '@/components/business/line-items-editor';
+import { FiscalAssumptionsEditor } from '@/components/business/fiscal-assumptions-editor';
+import { InflationEditor } from '@/components/business/inflation-editor';
+import { CurrencyPicker } from '@/components/business/currency-picker';
+import { Currency, Money } from '@/lib/domain/value-objects/Money';
 import { eventEmitter, Events } from '@/lib/event-emitter';
 import {
   scheduleProjectReminder,
@@ -26,7 +34,7 @@ import {
   getFrequencyDisplayName,
   areNotificationsEnabled,
 } from '@/lib/notification-manager';
-import type { ProjectData } from '@/types/project';
+import type { FiscalAssumptions, InflationAssumptions, LineItemModel, ProjectData, ValuationBasis } from '@/types/project';
 import type { ProjectTemplate } from '@/lib/project-templates';
 import { useAutoSave } from '@/hooks/use-auto-save';
 import { AutoSaveIndicator } from '@/components/auto-save-indicator';
@@ -36,11 +44,16 @@ export default function NewProjectScreen() {
   const [name, setName] = useState('');
   const [initialInvestment, setInitialInvestment] = useState('');
   const [discountRate, setDiscountRate] = useState('10');
+  const [currency, setCurrency] = useState<Currency>(Currency.USD);
   const [projectDuration, setProjectDuration] = useState('24');
   const [yearlyRevenue, setYearlyRevenue] = useState('');
   const [revenueGrowth, setRevenueGrowth] = useState('5');
   const [operatingCosts, setOperatingCosts] = useState('');
   const [maintenanceCosts, setMaintenanceCosts] = useState('');
+  const [lineItems, setLineItems] = useState<LineItemModel>(EMPTY_LINE_ITEMS);
+  const [fiscalAssumptions, setFiscalAssumptions] = useState<FiscalAssumptions | undefined>(undefined);
+  const [inflation, setInflation] = useState<InflationAssumptions | undefined>(undefined);
+  const [valuationBasis, setValuationBasis] = useState<ValuationBasis>('nominal');
   const [loading, setLoading] = useState(false);
   const [showTemplateSelector, setShowTemplateSelector] = useState(true);
 
@@ -131,9 +144,11 @@ export default function NewProjectScreen() {
     return true;
   };
 
+  // Zero investment and revenue are accepted here for projects modelled with line items,
+  // which come later; the line items step requires them when none are added
   const validateStep2 = () => {
     const investment = parseFloat(initialInvestment);
-    if (isNaN(investment) || investment <= 0) {
+    if (isNaN(investment) || investment < 0) {
       setErrors({ investment: t('validations.invalid_investment') });
       return false;
     }
@@ -143,7 +158,7 @@ export default function NewProjectScreen() {
 
   const validateStep3 = () => {
     const revenue = parseFloat(yearlyRevenue);
-    if (isNaN(revenue) || revenue <= 0) {
+    if (isNaN(revenue) || revenue < 0) {
       setErrors({ revenue: t('validations.invalid_revenue') });
       return false;
     }
@@ -191,6 +206,66 @@ export default function NewProjectScreen() {
     return true;
   };
 
+  const validateLineItems = () => {
+    const calculator = new LineItemCashFlowCalculator();
+    if (!calculator.hasLineItems(lineItems)) {
+      if (!(parseFloat(initialInvestment) > 0) || !(parseFloat(yearlyRevenue) > 0)) {
+        setErrors({ lineItems: t('line_items.simple_model_required') });
+        return false;
+      }
+      setErrors({});
+      return true;
+    }
+    try {
+      calculator.calculate(lineItems, parseInt(projectDuration) || 1);
+    } catch (error) {
+      setErrors({ lineItems: error instanceof Error ? error.message : t('line_items.invalid') });
+      return false;
+    }
+    setErrors({});
+    return true;
+  };
+
+  const validateFiscal = () => {
+    if (!fiscalAssumptions) {
+      setErrors({});
+      return true;
+    }
+    try {
+      new StandardMetricsCalculator().calculate({
+        initialInvestment: parseFloat(initialInvestment) || 0,
+        discountRate: parseFloat(discountRate) || 0,
+        projectDuration: parseInt(projectDuration) || 1,
+        yearlyRevenue: parseFloat(yearlyRevenue) || 0,
+        revenueGrowth: parseFloat(revenueGrowth) || 0,
+        operatingCosts: parseFloat(operatingCosts) || 0,
+        maintenanceCosts: parseFloat(maintenanceCosts) || 0,
+        lineItems,
+        fiscalAssumptions,
+      });
+    } catch (error) {
+      setErrors({ fiscal: error instanceof Error ? error.message : t('fiscal.invalid') });
+      return false;
+    }
+    setErrors({});
+    return true;
+  };
+
+  const validateInflation = () => {
+    if (!inflation) {
+      setErrors({});
+      return true;
+    }
+    try {
+      new InflationCalculator().priceIndex(inflation, parseInt(projectDuration) || 1);
+    } catch (error) {
+      setErrors({ inflation: error instanceof Error ? error.message : t('inflation.invalid') });
+      return false;
+    }
+    setErrors({});
+    return true;
+  };
+
   const validateStep8 = () => {
     const hours = parseFloat(manualHours);
     const cost = parseFloat(hourlyCost);
@@ -282,6 +357,13 @@ export default function NewProjectScreen() {
         />
       ),
     },
+    {
+      id: 'currency',
+      title: t('currency.project_currency'),
+      subtitle: t('currency.project_currency_subtitle'),
+      validation: () => true,
+      component: <CurrencyPicker value={currency} onChange={setCurrency} />,
+    },
     {
       id: 'investment',
       title: t('wizard.step2.question'),
@@ -396,6 +478,53 @@ export default function NewProjectScreen() {
         />
       ),
     },
+    {
+      id: 'line_items',
+      title: t('line_items.title'),
+      subtitle: t('line_items.subtitle'),
+      validation: validateLineItems,
+      component: (
+        <View className="gap-4">
+          <LineItemsEditor value={lineItems} onChange={setLineItems} currency={currency} />
+          {errors.lineItems && (
+            <Text className="text-sm text-error font-body-medium">{errors.lineItems}</Text>
+          )}
+        </View>
+      ),
+    },
+    {
+      id: 'fiscal',
+      title: t('fiscal.title'),
+      subtitle: t('fiscal.subtitle'),
+      validation: validateFiscal,
+      component: (
+        <View className="gap-4">
+          <FiscalAssumptionsEditor value={fiscalAssumptions} onChange={setFiscalAssumptions} />
+          {errors.fiscal && (
+            <Text className="text-sm text-error font-body-medium">{errors.fiscal}</Text>
+          )}
+        </View>
+      ),
+    },
+    {
+      id: 'inflation',
+      title: t('inflation.title'),
+      subtitle: t('inflation.subtitle'),
+      validation: validateInflation,
+      component: (
+        <View className="gap-4">
+          <InflationEditor
+            value={inflation}
+            onChange={setInflation}
+            valuationBasis={valuationBasis}
+            onValuationBasisChange={setValuationBasis}
+          />
+          {errors.inflation && (
+            <Text className="text-sm text-error font-body-medium">{errors.inflation}</Text>
+          )}
+        </View>
+      ),
+    },
     {
       id: 'vanguard_ofi',
       title: t('wizard.step8.question'),
@@ -557,6 +686,10 @@ export default function NewProjectScreen() {
         revenueGrowth: parseFloat(revenueGrowth),
         operatingCosts: opCosts || 0,
         maintenanceCosts: maintCosts || 0,
+        lineItems,
+        fiscalAssumptions,
+        inflation,
+        valuationBasis: inflation ? valuationBasis : undefined,
       };
 
       // Calculate Expected, Best and Worst cases using modern service
@@ -564,6 +697,12 @@ export default function NewProjectScreen() {
       const bestResults = await calculationService.calculateStandard({ ...baseParams, multiplier: 1.2 });
       const worstResults = await calculationService.calculateStandard({ ...baseParams, multiplier: 0.8 });
 
+      // Simulate the NPV/IRR distribution around the expected case
+      const monteCarlo = await calculationService.calculateMonteCarlo(baseParams, undefined, {
+        bestCaseMultiplier: 1.2,
+        worstCaseMultiplier: 0.8,
+      });
+
       // Build Vanguard input with real user data
       const vanguardInput = {
         manualProcessHoursPerWeek: parseFloat(manualHours) || 0,
@@ -581,8 +720,9 @@ export default function NewProjectScreen() {
 
       const vanguardResults = await calculationService.calculateVanguard(vanguardInput);
 
+      const { freeCashFlow, ...expectedMetrics } = expectedResults;
       const results = {
-        ...expectedResults,
+        ...expectedMetrics,
         roiBest: bestResults.roi,
         npvBest: bestResults.npv,
         paybackBest: bestResults.paybackPeriod,
@@ -593,6 +733,8 @@ export default function NewProjectScreen() {
         irrWorst: worstResults.irr,
         // Include Vanguard results in the results object
         vanguard: vanguardResults,
+        monteCarlo,
+        freeCashFlowSummary: freeCashFlow && calculationService.summarizeFreeCashFlow(freeCashFlow),
       };
 
       // Create project
@@ -611,8 +753,13 @@ export default function NewProjectScreen() {
         maintenanceCosts: Math.round(maintCosts || 0),
         bestCaseMultiplier: Math.round(1.2 * 100) / 100, // Keep as decimal for now
         worstCaseMultiplier: Math.round(0.8 * 100) / 100, // Keep as decimal for now
+        currency,
         results,
         vanguardInput, // Save the input too
+        lineItems,
+        fiscalAssumptions,
+        inflation,
+        valuationBasis: inflation ? valuationBasis : undefined,
       };
 
       console.log('Sending project to API...', project);
@@ -735,10 +882,18 @@ export default function NewProjectScreen() {
                   />
                 </View>
 
+                {/* Currency */}
+                <View>
+                  <Text className="text-sm font-semibold text-foreground mb-2">
+                    {t('currency.project_currency')}
+                  </Text>
+                  <CurrencyPicker value={currency} onChange={setCurrency} />
+                </View>
+
                 {/* Initial Investment */}
                 <View>
                   <Text className="text-sm font-semibold text-foreground mb-2">
-                    {t('project_form.initial_investment')} * ($)
+                    {t('project_form.initial_investment')} * ({Money.symbolFor(currency)})
                   </Text>
                   <TextInput
                     value={initialInvestment}
@@ -768,7 +923,7 @@ export default function NewProjectScreen() {
                 {/* Yearly Revenue */}
                 <View>
                   <Text className="text-sm font-semibold text-foreground mb-2">
-                    {t('project_form.yearly_revenue')} * ($)
+                    {t('project_form.yearly_revenue')} * ({Money.symbolFor(currency)})
                   </Text>
                   <TextInput
                     value={yearlyRevenue}
@@ -798,7 +953,7 @@ export default function NewProjectScreen() {
                 {/* Operating Costs */}
                 <View>
                   <Text className="text-sm font-semibold text-foreground mb-2">
-                    {t('project_form.operating_costs')} ($)
+                    {t('project_form.operating_costs')} ({Money.symbolFor(currency)})
                   </Text>
                   <TextInput
                     value={operatingCosts}
@@ -813,7 +968,7 @@ export default function NewProjectScreen() {
                 {/* Maintenance Costs */}
                 <View>
                   <Text className="text-sm font-semibold text-foreground mb-2">
-                    {t('project_form.maintenance_costs')} ($)
+                    {t('project_form.maintenance_costs')} ({Money.symbolFor(currency)})
                   </Text>
                   <TextInput
                     value={maintenanceCosts}
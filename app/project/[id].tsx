@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   ScrollView,
   Text,
@@ -13,45 +13,139 @@ import * as Haptics from 'expo-haptics';
 import { ScreenContainer } from '@/components/screen-container';
 import { IconLabel } from '@/components/ui/icon-label';
 import { MetricCard } from '@/components/business/metric-card';
+import { OptionChips } from '@/components/business/option-chips';
 import { CashFlowChart } from '@/components/business/cash-flow-chart';
+import { NPVDistributionChart } from '@/components/business/npv-distribution-chart';
 import { AIInsightCard } from '@/components/business/ai-insight-card';
+import { VersionTimeline } from '@/components/business/version-timeline';
+import { ActualsPanel } from '@/components/business/actuals-panel';
 import { ShareModal } from '@/components/share-modal';
-import { SensitivityMatrix } from '@/components/sensitivity-matrix';
+import { CommentsModal } from '@/components/comments-modal';
+import { CommentBadge } from '@/components/business/comment-badge';
+import { SensitivityMatrix, TwoVariableSensitivityGrid } from '@/components/sensitivity-matrix';
 import { TornadoChart } from '@/components/tornado-chart';
+import { SpiderChart } from '@/components/spider-chart';
 import { BreakEvenChart } from '@/components/break-even-chart';
 import { generateSensitivityPDF, shareSensitivityPDF } from '@/lib/sensitivity-pdf-generator';
+import {
+  getSensitivityMetrics,
+  getSensitivityVariables,
+  type SensitivityMetric,
+  type SensitivityVariable,
+} from '@/lib/sensitivity-calculator';
 import { calculateBreakEven, formatBreakEvenPeriod } from '@/lib/break-even-calculator';
 import { eventEmitter, Events } from '@/lib/event-emitter';
 import type { BreakEvenData } from '@/lib/break-even-calculator';
 import { useTranslation } from '@/lib/i18n-context';
 import { generateAIInsights } from '@/lib/ai-insights';
 import type { CashFlowData } from '@/types/project';
-import { getProject, deleteProject, duplicateProject } from '@/lib/project-storage';
+import { getProject, deleteProject, duplicateProject, getAllScenarios } from '@/lib/project-storage';
+import { getWorkspaces, moveProjectToWorkspace } from '@/lib/api/projects';
+import { projectRole, roleAllows } from '@/lib/workspace-permissions';
+import { anchorId, PROJECT_ANCHOR } from '@/lib/project-comments';
+import type { CommentableInput, CommentableMetric } from '@/lib/project-comments';
 import { generatePDFReport, sharePDFReport } from '@/lib/pdf-generator';
-import type { ProjectData } from '@/types/project';
+import { buildProjectWorkbook } from '@/lib/export/xlsx-workbooks';
+import { exportXlsx } from '@/lib/export/xlsx-export';
+import type { CommentAnchor, ProjectData, ValuationBasis, Workspace } from '@/types/project';
+import { StandardMetricsCalculator } from '@/lib/infrastructure/calculators/StandardMetricsCalculator';
+import { RiskMetricsCalculator } from '@/lib/infrastructure/calculators/RiskMetricsCalculator';
 import { useDeviceId } from '@/hooks/use-device-id';
+import { useReportingCurrency } from '@/hooks/use-reporting-currency';
+import { useProjectComments } from '@/hooks/use-project-comments';
+import { Currency, Money } from '@/lib/domain/value-objects/Money';
+import { ExchangeRateTable } from '@/lib/domain/value-objects/ExchangeRateTable';
+import { formatCurrency } from '@/lib/utils';
 import { confirmAction } from '@/lib/platform-utils';
 
 export default function ProjectDetailsScreen() {
   const { t } = useTranslation();
   const { id } = useLocalSearchParams<{ id: string }>();
   const { deviceId } = useDeviceId();
+  const { currency: reportingCurrency } = useReportingCurrency();
   const [project, setProject] = useState<ProjectData | null>(null);
   const [loading, setLoading] = useState(true);
   const [exporting, setExporting] = useState(false);
+  const [exportingXlsx, setExportingXlsx] = useState(false);
   const [aiAnalysis, setAiAnalysis] = useState<string | null>(null);
   const [aiLoading, setAiLoading] = useState(false);
   const [aiError, setAiError] = useState<string | null>(null);
   const [showShareModal, setShowShareModal] = useState(false);
-  const [activeTab, setActiveTab] = useState<'overview' | 'sensitivity' | 'advanced'>('overview');
-  const [sensitivityMetric, setSensitivityMetric] = useState<'npv' | 'roi'>('npv');
+  const [activeTab, setActiveTab] = useState<'overview' | 'sensitivity' | 'advanced' | 'actuals'>('overview');
+  const [sensitivityMetric, setSensitivityMetric] = useState<SensitivityMetric>('npv');
+  const [gridRow, setGridRow] = useState<SensitivityVariable | null>(null);
+  const [gridColumn, setGridColumn] = useState<SensitivityVariable | null>(null);
   const [exportingSensitivity, setExportingSensitivity] = useState(false);
   const [breakEvenData, setBreakEvenData] = useState<BreakEvenData | null>(null);
+  const [valuationBasis, setValuationBasis] = useState<ValuationBasis | null>(null);
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [moving, setMoving] = useState(false);
+  const [commentTarget, setCommentTarget] = useState<{ anchor: CommentAnchor; title: string } | null>(null);
+  const { comments, openCounts } = useProjectComments(project?.id);
+
+  // Local projects have no role and belong to the user
+  const role = project ? projectRole(project) : 'owner';
+  const canEdit = roleAllows(role, 'edit');
+  const canManage = roleAllows(role, 'manage');
+
+  const commentBadge = (anchor: CommentAnchor, title: string) => (
+    <CommentBadge
+      count={openCounts[anchorId(anchor)] ?? 0}
+      onPress={() => setCommentTarget({ anchor, title })}
+      accessibilityLabel={t('comments.open_for', { target: title })}
+    />
+  );
+  const metricBadge = (key: CommentableMetric, title: string) => commentBadge({ type: 'metric', key }, title);
+  const inputBadge = (key: CommentableInput, title: string) => commentBadge({ type: 'input', key }, title);
+
+  // Saved results use the project's basis; the other basis is recomputed on demand
+  const savedBasis: ValuationBasis = project?.results?.valuationBasis ?? 'nominal';
+  const selectedBasis: ValuationBasis = project?.inflation ? valuationBasis ?? savedBasis : 'nominal';
+  const basisMetrics = useMemo(() => {
+    if (!project?.results || selectedBasis === savedBasis) return null;
+    try {
+      return new StandardMetricsCalculator().calculate({
+        initialInvestment: project.initialInvestment,
+        discountRate: project.discountRate,
+        projectDuration: project.projectDuration,
+        yearlyRevenue: project.yearlyRevenue,
+        revenueGrowth: project.revenueGrowth,
+        operatingCosts: project.operatingCosts,
+        maintenanceCosts: project.maintenanceCosts,
+        financeRate: project.financeRate,
+        reinvestmentRate: project.reinvestmentRate,
+        lineItems: project.lineItems,
+        fiscalAssumptions: project.fiscalAssumptions,
+        inflation: project.inflation,
+        valuationBasis: selectedBasis,
+        businessModel: project.businessModel,
+        saasInput: project.saasInput,
+      });
+    } catch (error) {
+      console.error('Error recalculating valuation basis:', error);
+      return null;
+    }
+  }, [project, selectedBasis, savedBasis]);
+
+  // Runway and raise-by date depend on today's date, so they are not stored with the results
+  const runway = useMemo(() => {
+    if (!project?.riskInput) return null;
+    try {
+      return new RiskMetricsCalculator().calculate(project.riskInput);
+    } catch (error) {
+      console.error('Error calculating runway:', error);
+      return null;
+    }
+  }, [project]);
 
   useEffect(() => {
     loadProject();
   }, [id]);
 
+  useEffect(() => {
+    getWorkspaces().then(setWorkspaces);
+  }, []);
+
   const generateAIAnalysis = async () => {
     if (!project || !project.results) return;
 
@@ -136,9 +230,10 @@ export default function ProjectDetailsScreen() {
         project,
         chartImages: {},
         language: t('common.language_code') as 'es' | 'en',
+        reportingCurrency,
       });
 
-      await sharePDFReport(pdfPath, project, t('common.language_code') as 'es' | 'en');
+      await sharePDFReport(pdfPath, project, t('common.language_code') as 'es' | 'en', reportingCurrency);
 
       if (Platform.OS !== 'web') {
         await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
@@ -151,6 +246,26 @@ export default function ProjectDetailsScreen() {
     }
   };
 
+  const handleExportXlsx = async () => {
+    if (!project) return;
+
+    if (Platform.OS !== 'web') {
+      await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    }
+
+    setExportingXlsx(true);
+
+    try {
+      const scenarios = await getAllScenarios(project.id);
+      await exportXlsx(buildProjectWorkbook(project, scenarios), `business-case-${project.name}`);
+    } catch (error) {
+      console.error('Error exporting workbook:', error);
+      Alert.alert(t('common.error'), t('xlsx_export.error'));
+    } finally {
+      setExportingXlsx(false);
+    }
+  };
+
   const handleExportSensitivity = async () => {
     if (!project) return;
 
@@ -221,6 +336,20 @@ export default function ProjectDetailsScreen() {
     }
   };
 
+  const handleMove = async (workspaceId: string) => {
+    if (!project || moving) return;
+
+    try {
+      setMoving(true);
+      await moveProjectToWorkspace(project.id, workspaceId === 'personal' ? null : workspaceId);
+    } catch (error) {
+      console.error('Error moving project:', error);
+      Alert.alert(t('validations.error'), t('workspaces.move_error'));
+    } finally {
+      setMoving(false);
+    }
+  };
+
   const handleDelete = async () => {
     if (!project) return;
 
@@ -281,6 +410,35 @@ export default function ProjectDetailsScreen() {
   }
 
   const { results } = project;
+  const valuation = basisMetrics ?? results;
+  const currency = project.currency ?? Currency.USD;
+  const money = (value: number) => formatCurrency(value, currency);
+
+  // NPV restated at the latest bundled rate when the user reports in another currency
+  const npvSubtitle = reportingCurrency !== currency
+    ? t('currency.reporting_equivalent', {
+        amount: formatCurrency(
+          new Money(valuation.npv, currency).convertTo(reportingCurrency, ExchangeRateTable.default()).amount,
+          reportingCurrency
+        ),
+      })
+    : t('metrics.npv_description');
+
+  // Projects saved before the bracketed solver have no diagnostics and are shown as before
+  const irrStatus = valuation.irrDiagnostics?.status;
+  const irrUnreliable = irrStatus !== undefined && irrStatus !== 'converged';
+  const irrSubtitle = irrUnreliable
+    ? t(`irr.status.${irrStatus}`)
+    : valuation.mirr !== undefined
+      ? t('irr.mirr_subtitle', { mirr: valuation.mirr.toFixed(2) })
+      : t('metrics.irr_description');
+  // A real IRR is compared against the real hurdle, which NPV already reflects
+  const irrAboveHurdle = selectedBasis === 'real' ? valuation.npv > 0 : valuation.irr > project.discountRate;
+
+  // Two-variable grid defaults to the first two variables affecting the selected metric
+  const gridVariables = getSensitivityVariables(project, sensitivityMetric);
+  const gridRowVariable = gridRow && gridVariables.includes(gridRow) ? gridRow : gridVariables[0];
+  const gridColumnVariable = gridColumn && gridVariables.includes(gridColumn) ? gridColumn : gridVariables[1];
 
   return (
     <ScreenContainer>
@@ -303,6 +461,13 @@ export default function ProjectDetailsScreen() {
           <Text className="text-sm text-muted">
             {t('results.created')}: {new Date(project.createdAt).toLocaleDateString()}
           </Text>
+          {!canEdit && (
+            <View className="bg-primary/10 rounded-lg px-3 py-2 mt-3">
+              <Text className="text-xs text-primary font-semibold">
+                {t('workspaces.read_only_banner', { role: t(`workspaces.roles.${role}`) })}
+              </Text>
+            </View>
+          )}
         </View>
 
         {/* Tabs */}
@@ -366,6 +531,26 @@ export default function ProjectDetailsScreen() {
               {t('results.advanced_title')}
             </Text>
           </TouchableOpacity>
+
+          <TouchableOpacity
+            onPress={() => {
+              if (Platform.OS !== 'web') {
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              }
+              setActiveTab('actuals');
+            }}
+            className={`flex-1 py-3 rounded-xl ${activeTab === 'actuals'
+              ? 'bg-primary'
+              : 'bg-surface border border-border'
+              }`}
+          >
+            <Text
+              className={`text-center font-semibold ${activeTab === 'actuals' ? 'text-background' : 'text-foreground'
+                }`}
+            >
+              {t('actuals.tab')}
+            </Text>
+          </TouchableOpacity>
         </View>
 
         {/* Overview Tab Content */}
@@ -376,79 +561,288 @@ export default function ProjectDetailsScreen() {
               <Text className="text-xl font-bold text-foreground mb-4">
                 {t('results.expected_case')}
               </Text>
+              {project.inflation && (
+                <View className="mb-3 gap-1">
+                  <OptionChips
+                    options={[
+                      { value: 'nominal' as ValuationBasis, label: t('inflation.nominal') },
+                      { value: 'real' as ValuationBasis, label: t('inflation.real') },
+                    ]}
+                    value={selectedBasis}
+                    onChange={setValuationBasis}
+                  />
+                  <Text className="text-xs text-muted">
+                    {selectedBasis === 'real' ? t('inflation.real_note') : t('inflation.nominal_note')}
+                  </Text>
+                </View>
+              )}
               <View className="gap-3">
                 <MetricCard
                   title={t('results.roi')}
                   value={`${results.roi.toFixed(2)}%`}
                   subtitle={t('metrics.roi_description')}
                   status={results.roi > 0 ? 'positive' : 'negative'}
+                  icon={metricBadge('roi', t('results.roi'))}
                 />
                 <MetricCard
                   title={t('results.npv')}
-                  value={`$${results.npv.toLocaleString()}`}
-                  subtitle={t('metrics.npv_description')}
-                  status={results.npv > 0 ? 'positive' : 'negative'}
+                  value={money(valuation.npv)}
+                  subtitle={npvSubtitle}
+                  status={valuation.npv > 0 ? 'positive' : 'negative'}
+                  icon={metricBadge('npv', t('results.npv'))}
                 />
                 <MetricCard
-                  title={t('metrics.irr.label')}
-                  value={`${results.irr.toFixed(2)}%`}
-                  subtitle={t('metrics.irr_description')}
-                  status={results.irr > project.discountRate ? 'positive' : 'neutral'}
+                  title={selectedBasis === 'real' ? t('inflation.real_irr') : t('metrics.irr.label')}
+                  value={irrUnreliable ? '—' : `${valuation.irr.toFixed(2)}%`}
+                  subtitle={irrSubtitle}
+                  status={!irrUnreliable && irrAboveHurdle ? 'positive' : 'neutral'}
+                  icon={metricBadge('irr', t('metrics.irr.label'))}
                 />
                 <MetricCard
                   title={t('metrics.payback.label')}
                   value={`${results.paybackPeriod.toFixed(1)} ${t('common.months')}`}
                   subtitle={t('metrics.payback_description')}
                   status="neutral"
+                  icon={metricBadge('paybackPeriod', t('metrics.payback.label'))}
                 />
               </View>
             </View>
 
-            {/* Best Case */}
-            <View className="mb-6">
-              <Text className="text-xl font-bold text-foreground mb-4">
-                {t('results.best_case')}
-              </Text>
-              <View className="flex-row gap-3">
-                <View className="flex-1">
-                  <MetricCard
-                    title="ROI"
-                    value={`${results.roiBest.toFixed(2)}%`}
-                    status="positive"
-                  />
+            {/* After-tax free cash flow */}
+            {results.freeCashFlowSummary && (
+              <View className="mb-6">
+                <Text className="text-xl font-bold text-foreground mb-1">
+                  {t('fiscal.results_title')}
+                </Text>
+                <Text className="text-sm text-muted mb-4">{t('fiscal.results_subtitle')}</Text>
+                <View className="flex-row gap-3 mb-3">
+                  <View className="flex-1">
+                    <MetricCard
+                      title={t('fiscal.total_tax')}
+                      value={money(results.freeCashFlowSummary.totalTax)}
+                      status="neutral"
+                    />
+                  </View>
+                  <View className="flex-1">
+                    <MetricCard
+                      title={t('fiscal.total_depreciation')}
+                      value={money(results.freeCashFlowSummary.totalDepreciation)}
+                      status="neutral"
+                    />
+                  </View>
                 </View>
-                <View className="flex-1">
-                  <MetricCard
-                    title="NPV"
-                    value={`$${Math.round(results.npvBest).toLocaleString()}`}
-                    status="positive"
-                  />
+                <View className="flex-row gap-3">
+                  <View className="flex-1">
+                    <MetricCard
+                      title={t('fiscal.peak_working_capital')}
+                      value={money(results.freeCashFlowSummary.peakWorkingCapital)}
+                      status="neutral"
+                    />
+                  </View>
+                  <View className="flex-1">
+                    <MetricCard
+                      title={t('fiscal.present_terminal_value')}
+                      value={money(results.freeCashFlowSummary.presentTerminalValue)}
+                      subtitle={
+                        results.freeCashFlowSummary.unusedLosses > 0
+                          ? t('fiscal.unused_losses', { amount: money(results.freeCashFlowSummary.unusedLosses) })
+                          : undefined
+                      }
+                      status={results.freeCashFlowSummary.presentTerminalValue > 0 ? 'positive' : 'neutral'}
+                    />
+                  </View>
                 </View>
               </View>
-            </View>
+            )}
 
-            {/* Worst Case */}
-            <View className="mb-6">
-              <Text className="text-xl font-bold text-foreground mb-4">
-                {t('results.worst_case')}
-              </Text>
-              <View className="flex-row gap-3">
-                <View className="flex-1">
-                  <MetricCard
-                    title={t('results.roi')}
-                    value={`${results.roiWorst.toFixed(2)}%`}
-                    status="negative"
-                  />
+            {/* MRR projection behind the SaaS revenue line */}
+            {results.saasProjectionSummary && (
+              <View className="mb-6">
+                <Text className="text-xl font-bold text-foreground mb-1">
+                  {t('saas_projection.title')}
+                </Text>
+                <Text className="text-sm text-muted mb-4">{t('saas_projection.subtitle')}</Text>
+                <View className="flex-row gap-3 mb-3">
+                  <View className="flex-1">
+                    <MetricCard
+                      title={t('saas_projection.ending_arr')}
+                      value={money(results.saasProjectionSummary.endingARR)}
+                      subtitle={t('saas_projection.ending_customers', {
+                        count: Math.round(results.saasProjectionSummary.endingCustomers).toLocaleString(),
+                      })}
+                      status="neutral"
+                    />
+                  </View>
+                  <View className="flex-1">
+                    <MetricCard
+                      title={t('saas_projection.peak_burn')}
+                      value={money(results.saasProjectionSummary.peakBurn)}
+                      subtitle={
+                        results.saasProjectionSummary.cashFlowPositiveMonth !== null
+                          ? t('saas_projection.cash_positive_month', {
+                            month: String(results.saasProjectionSummary.cashFlowPositiveMonth),
+                          })
+                          : t('saas_projection.cash_positive_never')
+                      }
+                      status={results.saasProjectionSummary.cashFlowPositiveMonth !== null ? 'positive' : 'negative'}
+                    />
+                  </View>
                 </View>
-                <View className="flex-1">
-                  <MetricCard
-                    title={t('results.npv')}
-                    value={`$${Math.round(results.npvWorst).toLocaleString()}`}
-                    status="negative"
-                  />
+                <View className="bg-surface rounded-xl border border-border p-4">
+                  <Text className="text-sm font-semibold text-foreground mb-2">{t('saas_projection.waterfall')}</Text>
+                  {([
+                    ['opening_mrr', results.saasProjectionSummary.waterfall.openingMRR],
+                    ['new_mrr', results.saasProjectionSummary.waterfall.newMRR],
+                    ['expansion_mrr', results.saasProjectionSummary.waterfall.expansionMRR],
+                    ['contraction_mrr', -results.saasProjectionSummary.waterfall.contractionMRR],
+                    ['churned_mrr', -results.saasProjectionSummary.waterfall.churnedMRR],
+                    ['closing_mrr', results.saasProjectionSummary.waterfall.closingMRR],
+                  ] as const).map(([key, amount]) => (
+                    <View key={key} className="flex-row justify-between py-1">
+                      <Text className="text-sm text-muted">{t(`saas_projection.${key}`)}</Text>
+                      <Text className={`text-sm font-semibold ${amount < 0 ? 'text-error' : 'text-foreground'}`}>
+                        {money(amount)}
+                      </Text>
+                    </View>
+                  ))}
                 </View>
               </View>
-            </View>
+            )}
+
+            {/* Cash runway and fundraising deadline */}
+            {runway && (
+              <View className="mb-6">
+                <Text className="text-xl font-bold text-foreground mb-4">
+                  {t('runway.title')}
+                </Text>
+                <View className="flex-row gap-3 mb-3">
+                  <View className="flex-1">
+                    <MetricCard
+                      title={t('runway.runway')}
+                      value={runway.runway_months === null
+                        ? t('runway.unlimited')
+                        : `${runway.runway_months.toFixed(1)} ${t('common.months')}`}
+                      subtitle={runway.zero_cash_date
+                        ? t('runway.zero_cash', { date: runway.zero_cash_date })
+                        : t('runway.not_burning')}
+                      status={runway.runway_months === null || runway.runway_months >= 12
+                        ? 'positive'
+                        : runway.runway_months >= 6 ? 'neutral' : 'negative'}
+                    />
+                  </View>
+                  <View className="flex-1">
+                    <MetricCard
+                      title={t('runway.raise_by')}
+                      value={runway.raise_by_date ?? '—'}
+                      subtitle={runway.raise_by_date ? t('runway.raise_by_description') : t('runway.raise_by_unset')}
+                      status="neutral"
+                    />
+                  </View>
+                </View>
+                {runway.runway_scenarios.length > 1 && (
+                  <View className="bg-surface rounded-xl border border-border p-4">
+                    {runway.runway_scenarios.map((scenario) => (
+                      <View key={scenario.name} className="flex-row justify-between py-1">
+                        <Text className="text-sm text-muted flex-1">{scenario.name}</Text>
+                        <Text className="text-sm font-semibold text-foreground">
+                          {scenario.runwayMonths === null
+                            ? t('runway.unlimited')
+                            : `${scenario.runwayMonths.toFixed(1)} ${t('common.months')}`}
+                          {scenario.raiseByDate ? ` · ${t('runway.raise_by_short', { date: scenario.raiseByDate })}` : ''}
+                        </Text>
+                      </View>
+                    ))}
+                  </View>
+                )}
+              </View>
+            )}
+
+            {/* Monte Carlo risk profile replaces the fixed best/worst cases when available */}
+            {results.monteCarlo ? (
+              <View className="mb-6">
+                <Text className="text-xl font-bold text-foreground mb-4">
+                  {t('monte_carlo.title')}
+                </Text>
+                <View className="flex-row gap-3 mb-3">
+                  <View className="flex-1">
+                    <MetricCard
+                      title={t('monte_carlo.probability_of_loss')}
+                      value={`${results.monteCarlo.probabilityOfLoss.toFixed(1)}%`}
+                      subtitle={t('monte_carlo.probability_of_loss_description')}
+                      status={results.monteCarlo.probabilityOfLoss > 20 ? 'negative' : 'positive'}
+                    />
+                  </View>
+                  <View className="flex-1">
+                    <MetricCard
+                      title={t('monte_carlo.median_irr')}
+                      value={results.monteCarlo.irr.undetermined === results.monteCarlo.iterations
+                        ? '—'
+                        : `${results.monteCarlo.irr.p50.toFixed(2)}%`}
+                      subtitle={[
+                        `P10 ${results.monteCarlo.irr.p10.toFixed(1)}% · P90 ${results.monteCarlo.irr.p90.toFixed(1)}%`,
+                        ...(results.monteCarlo.irr.undetermined
+                          ? [t('monte_carlo.irr_undetermined', { count: String(results.monteCarlo.irr.undetermined) })]
+                          : []),
+                      ].join('\n')}
+                      status={results.monteCarlo.irr.p50 > project.discountRate ? 'positive' : 'neutral'}
+                    />
+                  </View>
+                </View>
+                <NPVDistributionChart monteCarlo={results.monteCarlo} currency={Money.symbolFor(currency)} />
+              </View>
+            ) : (
+              <>
+                {/* Best Case */}
+                <View className="mb-6">
+                  <Text className="text-xl font-bold text-foreground mb-4">
+                    {t('results.best_case')}
+                  </Text>
+                  <View className="flex-row gap-3">
+                    <View className="flex-1">
+                      <MetricCard
+                        title="ROI"
+                        value={`${results.roiBest.toFixed(2)}%`}
+                        status="positive"
+                        icon={metricBadge('roiBest', `ROI · ${t('results.best_case')}`)}
+                      />
+                    </View>
+                    <View className="flex-1">
+                      <MetricCard
+                        title="NPV"
+                        value={money(results.npvBest)}
+                        status="positive"
+                        icon={metricBadge('npvBest', `NPV · ${t('results.best_case')}`)}
+                      />
+                    </View>
+                  </View>
+                </View>
+
+                {/* Worst Case */}
+                <View className="mb-6">
+                  <Text className="text-xl font-bold text-foreground mb-4">
+                    {t('results.worst_case')}
+                  </Text>
+                  <View className="flex-row gap-3">
+                    <View className="flex-1">
+                      <MetricCard
+                        title={t('results.roi')}
+                        value={`${results.roiWorst.toFixed(2)}%`}
+                        status="negative"
+                        icon={metricBadge('roiWorst', `${t('results.roi')} · ${t('results.worst_case')}`)}
+                      />
+                    </View>
+                    <View className="flex-1">
+                      <MetricCard
+                        title={t('results.npv')}
+                        value={money(results.npvWorst)}
+                        status="negative"
+                        icon={metricBadge('npvWorst', `${t('results.npv')} · ${t('results.worst_case')}`)}
+                      />
+                    </View>
+                  </View>
+                </View>
+              </>
+            )}
 
             {/* Cash Flow Charts */}
             {results.monthlyCashFlow && results.monthlyCashFlow.length > 0 && (
@@ -459,7 +853,7 @@ export default function ProjectDetailsScreen() {
                     netCashFlow: netFlow,
                     cumulativeCashFlow: results.cumulativeCashFlow[index],
                   }))}
-                  currency="$"
+                  currency={Money.symbolFor(currency)}
                 />
               </View>
             )}
@@ -496,7 +890,7 @@ export default function ProjectDetailsScreen() {
                           {t('break_even.amount_at_break_even')}
                         </Text>
                         <Text className="text-2xl font-bold text-foreground">
-                          ${breakEvenData.breakEvenPoint.amount.toLocaleString()}
+                          {money(breakEvenData.breakEvenPoint.amount)}
                         </Text>
                       </View>
                     </View>
@@ -524,50 +918,96 @@ export default function ProjectDetailsScreen() {
                 {t('results.parameters')}
               </Text>
               <View className="bg-surface rounded-xl p-4 border border-border gap-2">
-                <View className="flex-row justify-between">
-                  <Text className="text-muted">{t('project_form.initial_investment')}:</Text>
-                  <Text className="text-foreground font-semibold">
-                    ${project.initialInvestment.toLocaleString()}
-                  </Text>
-                </View>
-                <View className="flex-row justify-between">
-                  <Text className="text-muted">{t('project_form.project_duration')}:</Text>
-                  <Text className="text-foreground font-semibold">
-                    {project.projectDuration} {t('common.months')}
-                  </Text>
-                </View>
-                <View className="flex-row justify-between">
-                  <Text className="text-muted">{t('project_form.yearly_revenue')}:</Text>
-                  <Text className="text-foreground font-semibold">
-                    ${project.yearlyRevenue.toLocaleString()}
-                  </Text>
-                </View>
-                <View className="flex-row justify-between">
-                  <Text className="text-muted">{t('project_form.discount_rate')}:</Text>
-                  <Text className="text-foreground font-semibold">
-                    {project.discountRate}%
-                  </Text>
-                </View>
+                {([
+                  ['initialInvestment', 'project_form.initial_investment', money(project.initialInvestment)],
+                  ['projectDuration', 'project_form.project_duration', `${project.projectDuration} ${t('common.months')}`],
+                  ['yearlyRevenue', 'project_form.yearly_revenue', money(project.yearlyRevenue)],
+                  ['revenueGrowth', 'project_form.revenue_growth', `${project.revenueGrowth}%`],
+                  ['operatingCosts', 'project_form.operating_costs', money(project.operatingCosts)],
+                  ['maintenanceCosts', 'project_form.maintenance_costs', money(project.maintenanceCosts)],
+                  ['discountRate', 'project_form.discount_rate', `${project.discountRate}%`],
+                ] as [CommentableInput, string, string][]).map(([key, label, value]) => (
+                  <View key={key} className="flex-row justify-between items-center">
+                    <View className="flex-row items-center gap-1 flex-1">
+                      <Text className="text-muted">{t(label)}:</Text>
+                      {inputBadge(key, t(label))}
+                    </View>
+                    <Text className="text-foreground font-semibold">{value}</Text>
+                  </View>
+                ))}
               </View>
             </View>
 
+            {/* Discussion */}
+            <View className="mb-6">
+              <View className="flex-row justify-between items-center mb-4">
+                <Text className="text-xl font-bold text-foreground">{t('comments.project_discussion')}</Text>
+                {commentBadge(PROJECT_ANCHOR, project.name)}
+              </View>
+              <TouchableOpacity
+                onPress={() => setCommentTarget({ anchor: PROJECT_ANCHOR, title: project.name })}
+                className="bg-surface rounded-xl p-4 border border-border active:opacity-80"
+              >
+                <Text className="text-sm text-muted">
+                  {comments.length > 0
+                    ? t('comments.summary', {
+                      open: String(Object.values(openCounts).reduce((sum, count) => sum + count, 0)),
+                      total: String(comments.filter((comment) => !comment.parentId).length),
+                    })
+                    : t('comments.start_discussion')}
+                </Text>
+              </TouchableOpacity>
+            </View>
+
+            {/* Version History */}
+            <View className="mb-6">
+              <Text className="text-xl font-bold text-foreground mb-4">
+                {t('versions.title')}
+              </Text>
+              <View className="bg-surface rounded-xl p-4 border border-border">
+                <VersionTimeline projectId={project.id} currency={currency} canRestore={canEdit} />
+              </View>
+            </View>
+
+            {/* Workspace */}
+            {canManage && workspaces.length > 0 && (
+              <View className="mb-6">
+                <Text className="text-xl font-bold text-foreground mb-2">
+                  {t('workspaces.project_workspace')}
+                </Text>
+                <Text className="text-xs text-muted mb-3">{t('workspaces.project_workspace_hint')}</Text>
+                <OptionChips
+                  options={[
+                    { value: 'personal', label: t('workspaces.personal') },
+                    ...workspaces
+                      .filter((workspace) => roleAllows(workspace.role, 'edit'))
+                      .map((workspace) => ({ value: workspace.id, label: workspace.name })),
+                  ]}
+                  value={project.workspaceId ?? 'personal'}
+                  onChange={handleMove}
+                />
+              </View>
+            )}
+
             {/* Action Buttons */}
             <View className="gap-3 mb-6">
               {/* Edit and Duplicate Row */}
               <View className="flex-row gap-3">
-                <TouchableOpacity
-                  onPress={() => {
-                    if (Platform.OS !== 'web') {
-                      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-                    }
-                    router.push(`/edit-project/${id}` as any);
-                  }}
-                  className="flex-1 bg-primary py-4 rounded-xl active:opacity-80"
-                >
-                  <Text className="text-center text-background font-semibold text-base">
-                    ✏️ {t('common.edit')}
-                  </Text>
-                </TouchableOpacity>
+                {canEdit && (
+                  <TouchableOpacity
+                    onPress={() => {
+                      if (Platform.OS !== 'web') {
+                        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                      }
+                      router.push(`/edit-project/${id}` as any);
+                    }}
+                    className="flex-1 bg-primary py-4 rounded-xl active:opacity-80"
+                  >
+                    <Text className="text-center text-background font-semibold text-base">
+                      ✏️ {t('common.edit')}
+                    </Text>
+                  </TouchableOpacity>
+                )}
 
                 <TouchableOpacity
                   onPress={handleDuplicate}
@@ -604,6 +1044,16 @@ export default function ProjectDetailsScreen() {
                     {exporting ? t('pdf_export.generating') : t('common.export')}
                   </Text>
                 </TouchableOpacity>
+
+                <TouchableOpacity
+                  onPress={handleExportXlsx}
+                  disabled={exportingXlsx}
+                  className="flex-1 bg-surface border border-border py-4 rounded-xl active:opacity-80"
+                >
+                  <Text className="text-center text-foreground font-semibold text-base">
+                    {exportingXlsx ? t('common.exporting') : t('xlsx_export.button')}
+                  </Text>
+                </TouchableOpacity>
               </View>
 
               {/* Snapshots and Share Row */}
@@ -622,30 +1072,34 @@ export default function ProjectDetailsScreen() {
                   </Text>
                 </TouchableOpacity>
 
+                {canManage && (
+                  <TouchableOpacity
+                    onPress={() => {
+                      if (Platform.OS !== 'web') {
+                        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+                      }
+                      setShowShareModal(true);
+                    }}
+                    className="flex-1 bg-surface border border-border py-4 rounded-xl active:opacity-80"
+                  >
+                    <Text className="text-center text-foreground font-semibold text-base">
+                      🔗 {t('share.share')}
+                    </Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+
+              {/* Delete Button */}
+              {canManage && (
                 <TouchableOpacity
-                  onPress={() => {
-                    if (Platform.OS !== 'web') {
-                      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
-                    }
-                    setShowShareModal(true);
-                  }}
-                  className="flex-1 bg-surface border border-border py-4 rounded-xl active:opacity-80"
+                  onPress={handleDelete}
+                  className="bg-surface border border-error rounded-xl py-4 items-center active:opacity-80"
                 >
-                  <Text className="text-center text-foreground font-semibold text-base">
-                    🔗 {t('share.share')}
+                  <Text className="text-error font-semibold text-base">
+                    🗑️ {t('common.delete_project')}
                   </Text>
                 </TouchableOpacity>
-              </View>
-
-              {/* Delete Button */}
-              <TouchableOpacity
-                onPress={handleDelete}
-                className="bg-surface border border-error rounded-xl py-4 items-center active:opacity-80"
-              >
-                <Text className="text-error font-semibold text-base">
-                  🗑️ {t('common.delete_project')}
-                </Text>
-              </TouchableOpacity>
+              )}
             </View>
           </>
         )}
@@ -654,47 +1108,32 @@ export default function ProjectDetailsScreen() {
         {activeTab === 'sensitivity' && (
           <>
             {/* Metric Selector */}
-            <View className="flex-row gap-2 mb-6">
-              <TouchableOpacity
-                onPress={() => {
-                  if (Platform.OS !== 'web') {
-                    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-                  }
-                  setSensitivityMetric('npv');
-                }}
-                className={`flex-1 py-2 rounded-lg ${sensitivityMetric === 'npv'
-                  ? 'bg-primary'
-                  : 'bg-surface border border-border'
-                  }`}
-              >
-                <Text
-                  className={`text-center font-semibold text-sm ${sensitivityMetric === 'npv' ? 'text-background' : 'text-foreground'
-                    }`}
-                >
-                  {t('results.npv')}
-                </Text>
-              </TouchableOpacity>
-
-              <TouchableOpacity
-                onPress={() => {
-                  if (Platform.OS !== 'web') {
-                    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-                  }
-                  setSensitivityMetric('roi');
-                }}
-                className={`flex-1 py-2 rounded-lg ${sensitivityMetric === 'roi'
-                  ? 'bg-primary'
-                  : 'bg-surface border border-border'
-                  }`}
-              >
-                <Text
-                  className={`text-center font-semibold text-sm ${sensitivityMetric === 'roi' ? 'text-background' : 'text-foreground'
-                    }`}
-                >
-                  {t('results.roi')}
-                </Text>
-              </TouchableOpacity>
-            </View>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} className="mb-6">
+              <View className="flex-row gap-2">
+                {getSensitivityMetrics(project).map((metric) => (
+                  <TouchableOpacity
+                    key={metric}
+                    onPress={() => {
+                      if (Platform.OS !== 'web') {
+                        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                      }
+                      setSensitivityMetric(metric);
+                    }}
+                    className={`px-4 py-2 rounded-lg ${sensitivityMetric === metric
+                      ? 'bg-primary'
+                      : 'bg-surface border border-border'
+                      }`}
+                  >
+                    <Text
+                      className={`text-center font-semibold text-sm ${sensitivityMetric === metric ? 'text-background' : 'text-foreground'
+                        }`}
+                    >
+                      {t(`sensitivity.metric_${metric}`)}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </ScrollView>
 
             {/* Description */}
             <View className="bg-surface rounded-xl border border-border p-4 mb-6">
@@ -708,11 +1147,51 @@ export default function ProjectDetailsScreen() {
               <SensitivityMatrix project={project} metric={sensitivityMetric} />
             </View>
 
+            {/* Spider Chart */}
+            <View className="mb-6">
+              <SpiderChart project={project} metric={sensitivityMetric} />
+            </View>
+
             {/* Tornado Chart */}
             <View className="mb-6">
-              <TornadoChart project={project} />
+              <TornadoChart project={project} metric={sensitivityMetric} />
             </View>
 
+            {/* Two-Variable Grid */}
+            {gridVariables.length >= 2 && (
+              <View className="mb-6">
+                {(['row', 'column'] as const).map((axis) => (
+                  <ScrollView key={axis} horizontal showsHorizontalScrollIndicator={false} className="mb-2">
+                    <View className="flex-row gap-2 items-center">
+                      <Text className="text-xs text-muted">
+                        {t(axis === 'row' ? 'sensitivity.grid_rows' : 'sensitivity.grid_columns')}
+                      </Text>
+                      {gridVariables.map((variable) => {
+                        const selected = (axis === 'row' ? gridRowVariable : gridColumnVariable) === variable;
+                        return (
+                          <TouchableOpacity
+                            key={variable}
+                            onPress={() => (axis === 'row' ? setGridRow(variable) : setGridColumn(variable))}
+                            className={`px-3 py-1 rounded-full ${selected ? 'bg-primary' : 'bg-surface border border-border'}`}
+                          >
+                            <Text className={`text-xs font-semibold ${selected ? 'text-background' : 'text-foreground'}`}>
+                              {t(`sensitivity.${variable}`)}
+                            </Text>
+                          </TouchableOpacity>
+                        );
+                      })}
+                    </View>
+                  </ScrollView>
+                ))}
+                <TwoVariableSensitivityGrid
+                  project={project}
+                  metric={sensitivityMetric}
+                  rowVariable={gridRowVariable}
+                  columnVariable={gridColumnVariable}
+                />
+              </View>
+            )}
+
             {/* Export Button */}
             <TouchableOpacity
               onPress={handleExportSensitivity}
@@ -835,6 +1314,9 @@ export default function ProjectDetailsScreen() {
             </View>
           </View>
         )}
+        {/* Plan vs Actual Tab Content */}
+        {activeTab === 'actuals' && <ActualsPanel project={project} currency={currency} readOnly={!canEdit} />}
+
         {/* Back to Home */}
         <TouchableOpacity
           onPress={() => {
@@ -859,6 +1341,19 @@ export default function ProjectDetailsScreen() {
           onClose={() => setShowShareModal(false)}
         />
       )}
+
+      {/* Comments Modal */}
+      {project && commentTarget && (
+        <CommentsModal
+          visible
+          projectId={project.id}
+          anchor={commentTarget.anchor}
+          title={commentTarget.title}
+          role={role}
+          comments={comments}
+          onClose={() => setCommentTarget(null)}
+        />
+      )}
     </ScreenContainer>
   );
 }
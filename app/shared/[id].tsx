@@ -1,5 +1,5 @@
 import React, { useEffect, useState } from 'react';
-import { View, Text, ScrollView, TouchableOpacity, Alert, Platform } from 'react-native';
+import { View, Text, ScrollView, TouchableOpacity, TextInput, Alert, Platform } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useLocalSearchParams, router } from 'expo-router';
 import * as Haptics from 'expo-haptics';
@@ -8,15 +8,53 @@ import { ScreenContainer } from '@/components/screen-container';
 import { MetricCard } from '@/components/business/metric-card';
 import { useTranslation } from '@/lib/i18n-context';
 import { useColors } from '@/hooks/use-colors';
-import { decodeSharedProject } from '@/lib/share-links';
+import { decodeSharedProject, isShareToken } from '@/lib/share-links';
 import { saveProject } from '@/lib/project-storage';
-import type { ProjectData } from '@/types/project';
+import { openSharedProject } from '@/lib/api/projects';
+import { formatCurrency } from '@/lib/utils';
+import { Currency } from '@/lib/domain/value-objects/Money';
+import type { ProjectData, ShareLinkResolution, SharedProjectView } from '@/types/project';
+
+type UnavailableStatus = Exclude<
+  ShareLinkResolution['status'],
+  'ok' | 'password_required' | 'invalid_password' | 'too_many_attempts'
+>;
+
+/**
+ * Legacy links carry the whole project in the URL, so they are shown with the full scope
+ */
+function legacyView(project: ProjectData): SharedProjectView {
+  const results = project.results;
+  return {
+    scope: 'full',
+    name: project.name,
+    currency: project.currency ?? Currency.USD,
+    discountRate: project.discountRate,
+    summary: results
+      ? {
+        roi: results.roi,
+        npv: results.npv,
+        irr: results.irr,
+        paybackPeriod: results.paybackPeriod,
+        roiBest: results.roiBest,
+        npvBest: results.npvBest,
+        roiWorst: results.roiWorst,
+        npvWorst: results.npvWorst,
+      }
+      : null,
+    project,
+  };
+}
 
 export default function SharedProjectScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
   const { t } = useTranslation();
   const colors = useColors();
-  const [project, setProject] = useState<ProjectData | null>(null);
+  const [view, setView] = useState<SharedProjectView | null>(null);
+  const [unavailable, setUnavailable] = useState<UnavailableStatus | null>(null);
+  const [passwordRequired, setPasswordRequired] = useState(false);
+  const [password, setPassword] = useState('');
+  const [passwordError, setPasswordError] = useState<'invalid' | 'locked' | null>(null);
   const [loading, setLoading] = useState(true);
   const [duplicating, setDuplicating] = useState(false);
 
@@ -26,11 +64,38 @@ export default function SharedProjectScreen() {
     }
   }, [id]);
 
-  const loadSharedProject = (shareId: string) => {
+  const applyResolution = (resolution: ShareLinkResolution) => {
+    switch (resolution.status) {
+      case 'ok':
+        setView(resolution.view);
+        setPasswordRequired(false);
+        break;
+      case 'password_required':
+        setPasswordRequired(true);
+        break;
+      case 'invalid_password':
+        setPasswordRequired(true);
+        setPasswordError('invalid');
+        break;
+      case 'too_many_attempts':
+        setPasswordRequired(true);
+        setPasswordError('locked');
+        break;
+      default:
+        setUnavailable(resolution.status);
+    }
+  };
+
+  const loadSharedProject = async (shareId: string) => {
     try {
+      if (isShareToken(shareId)) {
+        applyResolution(await openSharedProject(shareId));
+        return;
+      }
+
       const decodedProject = decodeSharedProject(shareId);
       if (decodedProject) {
-        setProject(decodedProject);
+        setView(legacyView(decodedProject));
       } else {
         Alert.alert(
           t('share.invalid_link_title'),
@@ -50,7 +115,26 @@ export default function SharedProjectScreen() {
     }
   };
 
+  const handleUnlock = async () => {
+    if (!id || !password) return;
+
+    try {
+      setLoading(true);
+      setPasswordError(null);
+      applyResolution(await openSharedProject(id, password));
+    } catch (error) {
+      console.error('Error unlocking shared project:', error);
+      Alert.alert(
+        t('share.error_loading_title'),
+        t('share.error_loading_message')
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleDuplicateProject = async () => {
+    const project = view?.project;
     if (!project) return;
 
     if (Platform.OS !== 'web') {
@@ -100,21 +184,68 @@ export default function SharedProjectScreen() {
     );
   }
 
-  if (!project) {
+  if (passwordRequired && !view) {
+    return (
+      <ScreenContainer className="justify-center items-center p-6">
+        <View className="mb-2"><Ionicons name="lock-closed" size={28} color={colors.primary} /></View>
+        <Text className="text-lg font-bold text-foreground mb-2">
+          {t('share.password_title')}
+        </Text>
+        <Text className="text-base text-muted text-center mb-4">
+          {t('share.password_message')}
+        </Text>
+        <TextInput
+          value={password}
+          onChangeText={setPassword}
+          onSubmitEditing={handleUnlock}
+          placeholder={t('share.password_placeholder')}
+          placeholderTextColor="#9CA3AF"
+          secureTextEntry
+          autoCapitalize="none"
+          className="w-full max-w-sm bg-surface border border-border rounded-xl px-4 py-3 text-foreground"
+        />
+        {passwordError && (
+          <Text className="text-sm text-error mt-2">
+            {t(passwordError === 'locked' ? 'share.password_locked' : 'share.password_invalid')}
+          </Text>
+        )}
+        <TouchableOpacity
+          onPress={handleUnlock}
+          disabled={!password}
+          className="w-full max-w-sm bg-primary rounded-xl py-4 items-center mt-4 active:opacity-80"
+        >
+          <Text className="text-background font-semibold text-base">
+            {t('share.unlock')}
+          </Text>
+        </TouchableOpacity>
+      </ScreenContainer>
+    );
+  }
+
+  if (!view) {
+    const titleKey = unavailable === 'revoked' || unavailable === 'expired'
+      ? `share.${unavailable}_title`
+      : 'share.not_found_title';
+    const messageKey = unavailable === 'revoked' || unavailable === 'expired'
+      ? `share.${unavailable}_message`
+      : 'share.not_found_message';
+
     return (
       <ScreenContainer className="justify-center items-center p-6">
         <View className="mb-2"><Ionicons name="close-circle" size={28} color="#EF4444" /></View>
         <Text className="text-lg font-bold text-foreground mb-2">
-          {t('share.not_found_title')}
+          {t(titleKey)}
         </Text>
         <Text className="text-base text-muted text-center">
-          {t('share.not_found_message')}
+          {t(messageKey)}
         </Text>
       </ScreenContainer>
     );
   }
 
-  const results = project.results;
+  const results = view.summary;
+  const project = view.project;
+  const money = (value: number) => formatCurrency(value, view.currency);
 
   return (
     <ScreenContainer>
@@ -125,17 +256,17 @@ export default function SharedProjectScreen() {
             {t('share.read_only_banner')}
           </Text>
           <Text className="text-xs text-muted mt-1">
-            {t('share.read_only_description')}
+            {view.scope === 'full' ? t('share.read_only_description') : t('share.summary_only_description')}
           </Text>
         </View>
 
         {/* Project Header */}
         <View className="px-6 mb-6">
           <Text className="text-3xl font-bold text-foreground mb-2">
-            {project.name}
+            {view.name}
           </Text>
           <Text className="text-sm text-muted">
-            {t('share.shared_project')}
+            {view.scope === 'full' ? t('share.shared_project') : t('share.shared_summary')}
           </Text>
         </View>
 
@@ -154,7 +285,7 @@ export default function SharedProjectScreen() {
               <View className="flex-1 min-w-[45%]">
                 <MetricCard
                   title={t('metrics.npv')}
-                  value={`$${results.npv.toLocaleString()}`}
+                  value={money(results.npv)}
                   subtitle={t('metrics.net_present_value')}
                   status={results.npv > 0 ? 'positive' : 'negative'}
                 />
@@ -172,7 +303,7 @@ export default function SharedProjectScreen() {
                   title={t('metrics.irr.label')}
                   value={`${results.irr.toFixed(1)}%`}
                   subtitle={t('metrics.internal_rate')}
-                  status={results.irr > project.discountRate ? 'positive' : 'negative'}
+                  status={results.irr > view.discountRate ? 'positive' : 'negative'}
                 />
               </View>
             </View>
@@ -194,7 +325,7 @@ export default function SharedProjectScreen() {
                 </View>
                 <View className="flex-row justify-between mt-1">
                   <Text className="text-sm text-foreground">NPV</Text>
-                  <Text className="text-sm font-semibold text-foreground">${results.npv.toLocaleString()}</Text>
+                  <Text className="text-sm font-semibold text-foreground">{money(results.npv)}</Text>
                 </View>
               </View>
               <View>
@@ -205,7 +336,7 @@ export default function SharedProjectScreen() {
                 </View>
                 <View className="flex-row justify-between mt-1">
                   <Text className="text-sm text-foreground">NPV</Text>
-                  <Text className="text-sm font-semibold text-success">${results.npvBest.toLocaleString()}</Text>
+                  <Text className="text-sm font-semibold text-success">{money(results.npvBest)}</Text>
                 </View>
               </View>
               <View>
@@ -216,7 +347,7 @@ export default function SharedProjectScreen() {
                 </View>
                 <View className="flex-row justify-between mt-1">
                   <Text className="text-sm text-foreground">NPV</Text>
-                  <Text className="text-sm font-semibold text-error">${results.npvWorst.toLocaleString()}</Text>
+                  <Text className="text-sm font-semibold text-error">{money(results.npvWorst)}</Text>
                 </View>
               </View>
             </View>
@@ -224,56 +355,60 @@ export default function SharedProjectScreen() {
         )}
 
         {/* Project Details */}
-        <View className="px-6 mb-6">
-          <Text className="text-xl font-bold text-foreground mb-4">
-            {t('share.project_details')}
-          </Text>
-          <View className="bg-surface rounded-xl p-4 gap-3">
-            <View className="flex-row justify-between">
-              <Text className="text-sm text-muted">{t('project_form.initial_investment')}</Text>
-              <Text className="text-sm font-semibold text-foreground">
-                ${project.initialInvestment.toLocaleString()}
-              </Text>
-            </View>
-            <View className="flex-row justify-between">
-              <Text className="text-sm text-muted">{t('project_form.yearly_revenue')}</Text>
-              <Text className="text-sm font-semibold text-foreground">
-                ${project.yearlyRevenue.toLocaleString()}
-              </Text>
-            </View>
-            <View className="flex-row justify-between">
-              <Text className="text-sm text-muted">{t('project_form.operating_costs')}</Text>
-              <Text className="text-sm font-semibold text-foreground">
-                ${project.operatingCosts.toLocaleString()}
-              </Text>
-            </View>
-            <View className="flex-row justify-between">
-              <Text className="text-sm text-muted">{t('project_form.project_duration')}</Text>
-              <Text className="text-sm font-semibold text-foreground">
-                {project.projectDuration} {t('common.months')}
-              </Text>
-            </View>
-            <View className="flex-row justify-between">
-              <Text className="text-sm text-muted">{t('project_form.discount_rate')}</Text>
-              <Text className="text-sm font-semibold text-foreground">
-                {project.discountRate}%
-              </Text>
+        {project && (
+          <View className="px-6 mb-6">
+            <Text className="text-xl font-bold text-foreground mb-4">
+              {t('share.project_details')}
+            </Text>
+            <View className="bg-surface rounded-xl p-4 gap-3">
+              <View className="flex-row justify-between">
+                <Text className="text-sm text-muted">{t('project_form.initial_investment')}</Text>
+                <Text className="text-sm font-semibold text-foreground">
+                  {money(project.initialInvestment)}
+                </Text>
+              </View>
+              <View className="flex-row justify-between">
+                <Text className="text-sm text-muted">{t('project_form.yearly_revenue')}</Text>
+                <Text className="text-sm font-semibold text-foreground">
+                  {money(project.yearlyRevenue)}
+                </Text>
+              </View>
+              <View className="flex-row justify-between">
+                <Text className="text-sm text-muted">{t('project_form.operating_costs')}</Text>
+                <Text className="text-sm font-semibold text-foreground">
+                  {money(project.operatingCosts)}
+                </Text>
+              </View>
+              <View className="flex-row justify-between">
+                <Text className="text-sm text-muted">{t('project_form.project_duration')}</Text>
+                <Text className="text-sm font-semibold text-foreground">
+                  {project.projectDuration} {t('common.months')}
+                </Text>
+              </View>
+              <View className="flex-row justify-between">
+                <Text className="text-sm text-muted">{t('project_form.discount_rate')}</Text>
+                <Text className="text-sm font-semibold text-foreground">
+                  {project.discountRate}%
+                </Text>
+              </View>
             </View>
           </View>
-        </View>
+        )}
 
         {/* Duplicate Button */}
-        <View className="px-6">
-          <TouchableOpacity
-            onPress={handleDuplicateProject}
-            disabled={duplicating}
-            className="bg-primary rounded-xl py-4 items-center active:opacity-80"
-          >
-            <Text className="text-background font-semibold text-base">
-              {duplicating ? t('common.loading') : t('share.duplicate_to_my_projects')}
-            </Text>
-          </TouchableOpacity>
-        </View>
+        {project && (
+          <View className="px-6">
+            <TouchableOpacity
+              onPress={handleDuplicateProject}
+              disabled={duplicating}
+              className="bg-primary rounded-xl py-4 items-center active:opacity-80"
+            >
+              <Text className="text-background font-semibold text-base">
+                {duplicating ? t('common.loading') : t('share.duplicate_to_my_projects')}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        )}
       </ScrollView>
     </ScreenContainer>
   );
@@ -13,6 +13,8 @@ import * as Haptics from 'expo-haptics';
 import { ScreenContainer } from '@/components/screen-container';
 import { IconLabel } from '@/components/ui/icon-label';
 import { MetricCard } from '@/components/business/metric-card';
+import { CommentBadge } from '@/components/business/comment-badge';
+import { CommentsModal } from '@/components/comments-modal';
 import { useTranslation } from '@/lib/i18n-context';
 import {
   getProject,
@@ -20,6 +22,9 @@ import {
   deleteScenario,
   restoreScenarioAsBase,
 } from '@/lib/project-storage';
+import { anchorId } from '@/lib/project-comments';
+import { projectRole } from '@/lib/workspace-permissions';
+import { useProjectComments } from '@/hooks/use-project-comments';
 import type { ProjectData, ScenarioSnapshot } from '@/types/project';
 
 export default function SnapshotsHistoryScreen() {
@@ -31,6 +36,8 @@ export default function SnapshotsHistoryScreen() {
   const [loading, setLoading] = useState(true);
   const [compareMode, setCompareMode] = useState(false);
   const [selectedSnapshots, setSelectedSnapshots] = useState<string[]>([]);
+  const [commentScenario, setCommentScenario] = useState<ScenarioSnapshot | null>(null);
+  const { comments, openCounts } = useProjectComments(project?.id);
 
   useEffect(() => {
     loadData();
@@ -274,6 +281,11 @@ export default function SnapshotsHistoryScreen() {
                           </Text>
                         </View>
                       )}
+                      <CommentBadge
+                        count={openCounts[anchorId({ type: 'scenario', key: scenario.id })] ?? 0}
+                        onPress={() => setCommentScenario(scenario)}
+                        accessibilityLabel={t('comments.open_for', { target: scenario.name })}
+                      />
                     </View>
                     <Text className="text-xs text-muted">
                       {t('snapshots.created_at')}: {formatDate(scenario.createdAt)}
@@ -381,6 +393,19 @@ export default function SnapshotsHistoryScreen() {
           </View>
         )}
       </ScrollView>
+
+      {/* Comments Modal */}
+      {project && commentScenario && (
+        <CommentsModal
+          visible
+          projectId={project.id}
+          anchor={{ type: 'scenario', key: commentScenario.id }}
+          title={commentScenario.name}
+          role={projectRole(project)}
+          comments={comments}
+          onClose={() => setCommentScenario(null)}
+        />
+      )}
     </ScreenContainer>
   );
 }
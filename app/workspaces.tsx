@@ -0,0 +1,337 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { router } from 'expo-router';
+import * as Clipboard from 'expo-clipboard';
+
+import { ScreenContainer } from '@/components/screen-container';
+import { OptionChips } from '@/components/business/option-chips';
+import { useTranslation } from '@/lib/i18n-context';
+import { useColors } from '@/hooks/use-colors';
+import {
+  acceptWorkspaceInvitation,
+  createWorkspace,
+  createWorkspaceInvitation,
+  getWorkspaceInvitations,
+  getWorkspaceMembers,
+  getWorkspaces,
+  removeWorkspaceMember,
+  revokeWorkspaceInvitation,
+  updateWorkspaceMemberRole,
+} from '@/lib/api/projects';
+import { eventEmitter, Events } from '@/lib/event-emitter';
+import { confirmAction } from '@/lib/platform-utils';
+import { invitationStatus, roleAllows, WORKSPACE_ROLES } from '@/lib/workspace-permissions';
+import * as Auth from '@/lib/_core/auth';
+import type { Workspace, WorkspaceInvitation, WorkspaceMember, WorkspaceRole } from '@/types/project';
+
+function invitationUrl(token: string): string {
+  const baseUrl = typeof window !== 'undefined' && window.location ? window.location.origin : '';
+  return `${baseUrl}/invite/${token}`;
+}
+
+/**
+ * Team workspaces: create one, join with an invitation token, and for owners
+ * manage member roles and hand out invitations.
+ */
+export default function WorkspacesScreen() {
+  const { t } = useTranslation();
+  const colors = useColors();
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [invitations, setInvitations] = useState<WorkspaceInvitation[]>([]);
+  const [currentUserId, setCurrentUserId] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [inviteToken, setInviteToken] = useState('');
+  const [inviteRole, setInviteRole] = useState<WorkspaceRole>('editor');
+
+  const selected = workspaces.find((workspace) => workspace.id === selectedId) ?? null;
+  const canManage = roleAllows(selected?.role, 'manage');
+
+  useEffect(() => {
+    Auth.getUserInfo().then((user) => setCurrentUserId(user?.id ?? null));
+    loadWorkspaces();
+    return eventEmitter.on(Events.WORKSPACES_UPDATED, loadWorkspaces);
+  }, []);
+
+  useEffect(() => {
+    if (selected) {
+      loadWorkspace(selected);
+    } else {
+      setMembers([]);
+      setInvitations([]);
+    }
+  }, [selected]);
+
+  const loadWorkspaces = async () => {
+    try {
+      const loaded = await getWorkspaces();
+      setWorkspaces(loaded);
+      setSelectedId((current) => (current && loaded.some((w) => w.id === current) ? current : loaded[0]?.id ?? null));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadWorkspace = async (workspace: Workspace) => {
+    const [loadedMembers, loadedInvitations] = await Promise.all([
+      getWorkspaceMembers(workspace.id),
+      roleAllows(workspace.role, 'manage') ? getWorkspaceInvitations(workspace.id) : Promise.resolve([]),
+    ]);
+    setMembers(loadedMembers);
+    setInvitations(loadedInvitations);
+  };
+
+  const run = async (action: () => Promise<void>, errorKey: string) => {
+    try {
+      setBusy(true);
+      await action();
+    } catch (error) {
+      console.error('Workspace action failed:', error);
+      Alert.alert(t('common.error'), error instanceof Error && error.message ? error.message : t(errorKey));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreate = () => run(async () => {
+    const id = await createWorkspace(newName.trim());
+    setNewName('');
+    setSelectedId(id);
+  }, 'workspaces.create_error');
+
+  const handleJoin = () => run(async () => {
+    // Accept either the bare token or a full invitation link
+    const token = inviteToken.trim().split('/').pop() ?? '';
+    const id = await acceptWorkspaceInvitation(token);
+    setInviteToken('');
+    setSelectedId(id);
+    Alert.alert(t('common.success'), t('workspaces.joined'));
+  }, 'workspaces.join_error');
+
+  const handleInvite = () => run(async () => {
+    if (!selected) return;
+    const invitation = await createWorkspaceInvitation(selected.id, inviteRole);
+    setInvitations((current) => [invitation, ...current]);
+    await Clipboard.setStringAsync(invitationUrl(invitation.token));
+    Alert.alert(t('workspaces.invitation_created'), t('workspaces.invitation_copied'));
+  }, 'workspaces.invite_error');
+
+  const handleRoleChange = (member: WorkspaceMember, role: WorkspaceRole) => run(async () => {
+    if (!selected) return;
+    await updateWorkspaceMemberRole(selected.id, member.userId, role);
+    await loadWorkspace(selected);
+  }, 'workspaces.update_error');
+
+  const handleRemove = async (member: WorkspaceMember) => {
+    if (!selected) return;
+    const leaving = member.userId === currentUserId;
+    const confirmed = await confirmAction(
+      leaving ? t('workspaces.leave_title') : t('workspaces.remove_title'),
+      leaving
+        ? t('workspaces.leave_message', { workspace: selected.name })
+        : t('workspaces.remove_message', { member: member.name ?? member.email ?? String(member.userId) }),
+      leaving ? t('workspaces.leave') : t('workspaces.remove'),
+      t('common.cancel'),
+      true
+    );
+    if (!confirmed) return;
+
+    await run(async () => {
+      await removeWorkspaceMember(selected.id, member.userId);
+      if (!leaving) {
+        await loadWorkspace(selected);
+      }
+    }, 'workspaces.update_error');
+  };
+
+  const handleRevokeInvitation = (invitation: WorkspaceInvitation) => run(async () => {
+    if (!selected) return;
+    await revokeWorkspaceInvitation(invitation.id);
+    await loadWorkspace(selected);
+  }, 'workspaces.invite_error');
+
+  if (loading) {
+    return (
+      <ScreenContainer className="justify-center items-center">
+        <ActivityIndicator size="large" />
+        <Text className="mt-4 text-muted">{t('common.loading')}</Text>
+      </ScreenContainer>
+    );
+  }
+
+  return (
+    <ScreenContainer>
+      <ScrollView className="flex-1 p-6" contentContainerStyle={{ paddingBottom: 40 }}>
+        {/* Header */}
+        <View className="mb-6">
+          <TouchableOpacity onPress={() => router.back()} className="mb-4 active:opacity-70">
+            <Text className="text-primary font-semibold">← {t('common.go_back')}</Text>
+          </TouchableOpacity>
+          <Text className="text-3xl font-bold text-foreground mb-2">{t('workspaces.title')}</Text>
+          <Text className="text-base text-muted">{t('workspaces.subtitle')}</Text>
+        </View>
+
+        {/* Workspace list */}
+        {workspaces.length === 0 ? (
+          <View className="bg-surface rounded-xl border border-border p-4 mb-6">
+            <Text className="text-sm text-muted">{t('workspaces.empty')}</Text>
+          </View>
+        ) : (
+          <View className="gap-2 mb-6">
+            {workspaces.map((workspace) => (
+              <TouchableOpacity
+                key={workspace.id}
+                onPress={() => setSelectedId(workspace.id)}
+                className={`rounded-xl p-4 border active:opacity-80 ${workspace.id === selectedId ? 'border-primary bg-primary/10' : 'border-border bg-surface'}`}
+              >
+                <Text className="text-base font-semibold text-foreground">{workspace.name}</Text>
+                <Text className="text-xs text-muted">
+                  {t(`workspaces.roles.${workspace.role}`)} · {t('workspaces.member_count', { count: String(workspace.memberCount) })}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
+        {/* Members of the selected workspace */}
+        {selected && (
+          <View className="mb-6">
+            <Text className="text-xl font-bold text-foreground mb-3">{t('workspaces.members')}</Text>
+            <View className="gap-3">
+              {members.map((member) => {
+                const isSelf = member.userId === currentUserId;
+                return (
+                  <View key={member.userId} className="bg-surface rounded-xl border border-border p-4 gap-2">
+                    <View className="flex-row justify-between items-center">
+                      <View className="flex-1 mr-3">
+                        <Text className="text-sm font-semibold text-foreground" numberOfLines={1}>
+                          {member.name ?? member.email ?? `#${member.userId}`}{isSelf ? ` (${t('workspaces.you')})` : ''}
+                        </Text>
+                        {member.email && member.name && (
+                          <Text className="text-xs text-muted" numberOfLines={1}>{member.email}</Text>
+                        )}
+                      </View>
+                      {(canManage || isSelf) && (
+                        <TouchableOpacity onPress={() => handleRemove(member)} disabled={busy}>
+                          <Text className="text-xs font-semibold" style={{ color: colors.error }}>
+                            {isSelf ? t('workspaces.leave') : t('workspaces.remove')}
+                          </Text>
+                        </TouchableOpacity>
+                      )}
+                    </View>
+                    {canManage ? (
+                      <OptionChips
+                        options={WORKSPACE_ROLES.map((role) => ({ value: role, label: t(`workspaces.roles.${role}`) }))}
+                        value={member.role}
+                        onChange={(role) => handleRoleChange(member, role)}
+                      />
+                    ) : (
+                      <Text className="text-xs text-muted">{t(`workspaces.roles.${member.role}`)}</Text>
+                    )}
+                  </View>
+                );
+              })}
+            </View>
+          </View>
+        )}
+
+        {/* Invitations, owners only */}
+        {selected && canManage && (
+          <View className="mb-6">
+            <Text className="text-xl font-bold text-foreground mb-2">{t('workspaces.invitations')}</Text>
+            <Text className="text-xs text-muted mb-3">{t('workspaces.invitations_hint')}</Text>
+            <OptionChips
+              options={WORKSPACE_ROLES.map((role) => ({ value: role, label: t(`workspaces.roles.${role}`) }))}
+              value={inviteRole}
+              onChange={setInviteRole}
+            />
+            <TouchableOpacity
+              onPress={handleInvite}
+              disabled={busy}
+              className="bg-primary py-3 rounded-xl items-center mt-3 active:opacity-80"
+            >
+              <Text className="text-background font-semibold">{t('workspaces.create_invitation')}</Text>
+            </TouchableOpacity>
+
+            <View className="gap-2 mt-3">
+              {invitations.map((invitation) => {
+                const status = invitationStatus(invitation);
+                return (
+                  <View key={invitation.id} className="bg-surface rounded-xl border border-border p-3 flex-row items-center justify-between">
+                    <View className="flex-1 mr-3">
+                      <Text className="text-xs text-foreground font-mono" numberOfLines={1}>{invitation.token}</Text>
+                      <Text className="text-xs text-muted">
+                        {t(`workspaces.roles.${invitation.role}`)} · {t(`workspaces.invitation_status.${status}`)}
+                      </Text>
+                    </View>
+                    {status === 'pending' && (
+                      <View className="flex-row gap-3">
+                        <TouchableOpacity onPress={() => Clipboard.setStringAsync(invitationUrl(invitation.token))}>
+                          <Text className="text-xs text-primary font-semibold">{t('share.copy_link')}</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity onPress={() => handleRevokeInvitation(invitation)} disabled={busy}>
+                          <Text className="text-xs font-semibold" style={{ color: colors.error }}>{t('share.revoke')}</Text>
+                        </TouchableOpacity>
+                      </View>
+                    )}
+                  </View>
+                );
+              })}
+            </View>
+          </View>
+        )}
+
+        {/* Join with an invitation */}
+        <View className="bg-surface rounded-xl border border-border p-4 gap-3 mb-6">
+          <Text className="text-sm font-semibold text-foreground">{t('workspaces.join_title')}</Text>
+          <TextInput
+            value={inviteToken}
+            onChangeText={setInviteToken}
+            placeholder={t('workspaces.join_placeholder')}
+            placeholderTextColor="#9CA3AF"
+            autoCapitalize="none"
+            autoCorrect={false}
+            className="bg-background border border-border rounded-xl px-4 py-3 text-foreground"
+          />
+          <TouchableOpacity
+            onPress={handleJoin}
+            disabled={busy || inviteToken.trim() === ''}
+            className={`py-3 rounded-xl items-center ${inviteToken.trim() === '' ? 'bg-border' : 'bg-primary'}`}
+          >
+            <Text className="text-background font-semibold">{t('workspaces.join')}</Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* Create a workspace */}
+        <View className="bg-surface rounded-xl border border-border p-4 gap-3">
+          <Text className="text-sm font-semibold text-foreground">{t('workspaces.create_title')}</Text>
+          <TextInput
+            value={newName}
+            onChangeText={setNewName}
+            placeholder={t('workspaces.name_placeholder')}
+            placeholderTextColor="#9CA3AF"
+            className="bg-background border border-border rounded-xl px-4 py-3 text-foreground"
+          />
+          <TouchableOpacity
+            onPress={handleCreate}
+            disabled={busy || newName.trim() === ''}
+            className={`py-3 rounded-xl items-center ${newName.trim() === '' ? 'bg-border' : 'bg-primary'}`}
+          >
+            <Text className="text-background font-semibold">{t('workspaces.create')}</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </ScreenContainer>
+  );
+}
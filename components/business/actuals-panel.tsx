@@ -0,0 +1,337 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, ActivityIndicator, Alert } from 'react-native';
+import { useTranslation } from '@/lib/i18n-context';
+import { useColors } from '@/hooks/use-colors';
+import { NumberField } from '@/components/business/number-field';
+import { OptionChips } from '@/components/business/option-chips';
+import { MetricCard } from '@/components/business/metric-card';
+import { deleteProjectActual, getProjectActuals, importProjectActuals, saveProjectActuals } from '@/lib/api/projects';
+import { parseActualsCsv } from '@/lib/project-actuals';
+import { eventEmitter, Events } from '@/lib/event-emitter';
+import { VarianceCalculator } from '@/lib/infrastructure/calculators/VarianceCalculator';
+import { InflationCalculator } from '@/lib/infrastructure/calculators/InflationCalculator';
+import { formatCurrency } from '@/lib/utils';
+import type { Currency } from '@/lib/domain/value-objects/Money';
+import type { MonthlyActual, ProjectData } from '@/types/project';
+
+interface ActualsPanelProps {
+  project: ProjectData;
+  currency: Currency;
+  readOnly?: boolean; // Viewers and commenters see the variance but cannot record actuals
+}
+
+type Threshold = '5' | '10' | '20';
+
+const EMPTY_ENTRY: MonthlyActual = { month: 1, revenue: 0, operatingCosts: 0, maintenanceCosts: 0, capex: 0 };
+
+/**
+ * Plan versus actual for an approved project: record monthly actuals, see the variance
+ * against the projection and the NPV the project is now heading for.
+ */
+export function ActualsPanel({ project, currency, readOnly = false }: ActualsPanelProps) {
+  const { t } = useTranslation();
+  const colors = useColors();
+  const [actuals, setActuals] = useState<MonthlyActual[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [threshold, setThreshold] = useState<Threshold>('10');
+  const [entry, setEntry] = useState<MonthlyActual>(EMPTY_ENTRY);
+  const [formKey, setFormKey] = useState(0);
+  const [saving, setSaving] = useState(false);
+  const [csvText, setCsvText] = useState('');
+  const [showImport, setShowImport] = useState(false);
+
+  const money = (value: number) => formatCurrency(value, currency);
+
+  const loadActuals = useCallback(async () => {
+    const list = await getProjectActuals(project.id);
+    setActuals(list);
+    setLoading(false);
+  }, [project.id]);
+
+  useEffect(() => {
+    loadActuals();
+  }, [loadActuals]);
+
+  useEffect(() => {
+    return eventEmitter.on(Events.ACTUALS_UPDATED, (projectId: string) => {
+      if (projectId === project.id) loadActuals();
+    });
+  }, [project.id, loadActuals]);
+
+  // Next month to enter defaults to the one after the last recorded month
+  useEffect(() => {
+    const next = Math.min((actuals[actuals.length - 1]?.month ?? 0) + 1, project.projectDuration);
+    setEntry({ ...EMPTY_ENTRY, month: next });
+    setFormKey((key) => key + 1);
+  }, [actuals, project.projectDuration]);
+
+  // Actuals are money of the day, so real results are re-inflated to the nominal projection
+  const projectedCashFlow = useMemo(() => {
+    const flows = project.results?.monthlyCashFlow ?? [];
+    if (project.results?.valuationBasis !== 'real' || !project.inflation) return flows;
+    const priceIndex = new InflationCalculator().priceIndex(project.inflation, flows.length);
+    return flows.map((cashFlow, month) => cashFlow * priceIndex[month]);
+  }, [project.results, project.inflation]);
+
+  // Months recorded before the duration was shortened have no projection to compare with
+  const outOfRangeMonths = actuals.filter((actual) => actual.month > projectedCashFlow.length).length;
+
+  const { analysis, analysisError } = useMemo(() => {
+    if (!project.results) return { analysis: null, analysisError: null };
+    try {
+      return {
+        analysis: new VarianceCalculator().calculate({
+          projectedCashFlow,
+          initialInvestment: project.initialInvestment,
+          discountRate: project.discountRate,
+          // Anchored on the saved NPV, which carries the engine's upfront investment and terminal value
+          plannedNPV: project.results.npv,
+          actuals: actuals.filter((actual) => actual.month <= projectedCashFlow.length),
+          threshold: Number(threshold),
+        }),
+        analysisError: null,
+      };
+    } catch (error) {
+      console.error('Error analyzing variance:', error);
+      return { analysis: null, analysisError: error instanceof Error ? error.message : t('actuals.analysis_error') };
+    }
+  }, [project, projectedCashFlow, actuals, threshold, t]);
+
+  const handleSave = async () => {
+    if (!Number.isInteger(entry.month) || entry.month < 1 || entry.month > project.projectDuration) {
+      Alert.alert(t('common.error'), t('actuals.invalid_month', { max: String(project.projectDuration) }));
+      return;
+    }
+    try {
+      setSaving(true);
+      await saveProjectActuals(project.id, [entry]);
+    } catch (error) {
+      Alert.alert(t('common.error'), error instanceof Error ? error.message : t('actuals.save_error'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleImport = async () => {
+    const { actuals: parsed, errors } = parseActualsCsv(csvText);
+    if (errors.length > 0) {
+      Alert.alert(
+        t('common.error'),
+        errors.map((error) => t(`actuals.import_errors.${error.reason}`, { line: String(error.line) })).join('\n')
+      );
+      return;
+    }
+    if (parsed.length === 0) {
+      Alert.alert(t('common.error'), t('actuals.import_empty'));
+      return;
+    }
+    try {
+      setSaving(true);
+      const imported = await importProjectActuals(project.id, parsed);
+      setCsvText('');
+      setShowImport(false);
+      Alert.alert(t('common.success'), t('actuals.imported', { count: String(imported) }));
+    } catch (error) {
+      Alert.alert(t('common.error'), error instanceof Error ? error.message : t('actuals.save_error'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (month: number) => {
+    try {
+      await deleteProjectActual(project.id, month);
+    } catch (error) {
+      Alert.alert(t('common.error'), error instanceof Error ? error.message : t('actuals.save_error'));
+    }
+  };
+
+  if (!project.results) {
+    return <Text className="text-sm text-muted">{t('actuals.no_projection')}</Text>;
+  }
+
+  if (loading) {
+    return <ActivityIndicator color={colors.primary} />;
+  }
+
+  const varianceColor = (value: number) => (value >= 0 ? 'text-success' : 'text-error');
+
+  return (
+    <View className="gap-6 mb-6">
+      {analysisError && (
+        <View className="bg-surface border border-error rounded-xl p-3">
+          <Text className="text-sm text-error">{analysisError}</Text>
+        </View>
+      )}
+      {outOfRangeMonths > 0 && (
+        <Text className="text-xs text-warning">
+          {t('actuals.out_of_range', { count: String(outOfRangeMonths), duration: String(projectedCashFlow.length) })}
+        </Text>
+      )}
+
+      {/* Summary */}
+      {analysis && analysis.months.length > 0 ? (
+        <View className="gap-3">
+          <Text className="text-sm text-muted">
+            {t('actuals.reported', {
+              months: String(analysis.months.length),
+              duration: String(project.projectDuration),
+            })}
+          </Text>
+          <View className="flex-row gap-3">
+            <MetricCard
+              className="flex-1"
+              title={t('actuals.cumulative_variance')}
+              value={money(analysis.cumulativeVariance)}
+              subtitle={analysis.cumulativeVariancePercent === null
+                ? undefined
+                : `${analysis.cumulativeVariancePercent > 0 ? '+' : ''}${analysis.cumulativeVariancePercent.toFixed(1)}%`}
+              status={analysis.cumulativeVariance >= 0 ? 'positive' : 'negative'}
+            />
+            <MetricCard
+              className="flex-1"
+              title={t('actuals.npv_at_completion')}
+              value={money(analysis.projectedNPVAtCompletion)}
+              subtitle={t('actuals.vs_plan', { amount: money(analysis.npvVariance) })}
+              status={analysis.npvVariance >= 0 ? 'positive' : 'negative'}
+            />
+          </View>
+          {analysis.cumulativeFlagged && (
+            <View className="bg-surface border border-warning rounded-xl p-3">
+              <Text className="text-sm text-warning font-semibold">
+                ⚠️ {t('actuals.cumulative_flag', { threshold })}
+              </Text>
+            </View>
+          )}
+          <Text className="text-xs text-muted">
+            {t('actuals.reforecast_note', { amount: money(analysis.runRateAdjustment) })}
+          </Text>
+        </View>
+      ) : (
+        <Text className="text-sm text-muted">{t('actuals.empty')}</Text>
+      )}
+
+      {/* Threshold */}
+      <View className="gap-2">
+        <Text className="text-sm font-semibold text-foreground">{t('actuals.threshold')}</Text>
+        <OptionChips
+          options={(['5', '10', '20'] as Threshold[]).map((value) => ({ value, label: `±${value}%` }))}
+          value={threshold}
+          onChange={setThreshold}
+        />
+      </View>
+
+      {/* Month by month variance */}
+      {analysis && analysis.months.length > 0 && (
+        <View className="bg-surface rounded-xl border border-border p-4 gap-2">
+          <View className="flex-row">
+            <Text className="text-xs text-muted w-12">{t('actuals.month')}</Text>
+            <Text className="text-xs text-muted flex-1 text-right">{t('actuals.projected')}</Text>
+            <Text className="text-xs text-muted flex-1 text-right">{t('actuals.actual')}</Text>
+            <Text className="text-xs text-muted flex-1 text-right">{t('actuals.variance')}</Text>
+            <View className="w-8" />
+          </View>
+          {analysis.months.map((month) => (
+            <View key={month.month} className="flex-row items-center">
+              <Text className="text-xs text-foreground w-12">
+                {month.flagged ? '⚠️ ' : ''}{month.month}
+              </Text>
+              <Text className="text-xs text-foreground flex-1 text-right">{money(month.projected)}</Text>
+              <Text className="text-xs text-foreground flex-1 text-right">{money(month.actual)}</Text>
+              <Text className={`text-xs font-semibold flex-1 text-right ${varianceColor(month.variance)}`}>
+                {money(month.variance)}
+              </Text>
+              {readOnly ? (
+                <View className="w-8" />
+              ) : (
+                <TouchableOpacity onPress={() => handleDelete(month.month)} className="w-8 items-end">
+                  <Text className="text-xs text-error">✕</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          ))}
+        </View>
+      )}
+
+      {!readOnly && (
+        <>
+          {/* Entry form */}
+          <View key={formKey} className="bg-surface rounded-xl border border-border p-4 gap-3">
+            <Text className="text-sm font-semibold text-foreground">{t('actuals.record_month')}</Text>
+            <View className="flex-row gap-3">
+              <NumberField
+                label={t('actuals.month')}
+                value={entry.month}
+                onChange={(v) => setEntry((current) => ({ ...current, month: Math.round(v ?? 0) }))}
+              />
+              <NumberField
+                label={t('actuals.revenue')}
+                value={entry.revenue}
+                onChange={(v) => setEntry((current) => ({ ...current, revenue: v ?? 0 }))}
+              />
+            </View>
+            <View className="flex-row gap-3">
+              <NumberField
+                label={t('actuals.operating_costs')}
+                value={entry.operatingCosts}
+                onChange={(v) => setEntry((current) => ({ ...current, operatingCosts: v ?? 0 }))}
+              />
+              <NumberField
+                label={t('actuals.maintenance_costs')}
+                value={entry.maintenanceCosts}
+                onChange={(v) => setEntry((current) => ({ ...current, maintenanceCosts: v ?? 0 }))}
+              />
+              <NumberField
+                label={t('actuals.capex')}
+                value={entry.capex}
+                onChange={(v) => setEntry((current) => ({ ...current, capex: v ?? 0 }))}
+              />
+            </View>
+            <TouchableOpacity
+              onPress={handleSave}
+              disabled={saving}
+              className="bg-primary py-3 rounded-xl items-center active:opacity-80"
+            >
+              {saving ? (
+                <ActivityIndicator color={colors.background} />
+              ) : (
+                <Text className="text-background font-semibold">{t('actuals.save_month')}</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+
+          {/* Import */}
+          <View className="gap-3">
+            <TouchableOpacity onPress={() => setShowImport((value) => !value)}>
+              <Text className="text-sm text-primary font-semibold">
+                {showImport ? t('actuals.hide_import') : t('actuals.show_import')}
+              </Text>
+            </TouchableOpacity>
+            {showImport && (
+              <View className="bg-surface rounded-xl border border-border p-4 gap-3">
+                <Text className="text-xs text-muted">{t('actuals.import_hint')}</Text>
+                <TextInput
+                  value={csvText}
+                  onChangeText={setCsvText}
+                  multiline
+                  numberOfLines={6}
+                  placeholder={'month,revenue,operating_costs,maintenance_costs,capex\n1,12000,4000,500,0'}
+                  placeholderTextColor={colors.muted}
+                  className="bg-background border border-border rounded-lg px-3 py-2 text-foreground text-xs"
+                  style={{ minHeight: 120, textAlignVertical: 'top' }}
+                />
+                <TouchableOpacity
+                  onPress={handleImport}
+                  disabled={saving || csvText.trim() === ''}
+                  className={`py-3 rounded-xl items-center ${csvText.trim() === '' ? 'bg-border' : 'bg-primary'}`}
+                >
+                  <Text className="text-background font-semibold">{t('actuals.import')}</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+          </View>
+        </>
+      )}
+    </View>
+  );
+}
@@ -8,11 +8,12 @@ import type { CashFlowData } from '@/types/project';
 interface CashFlowChartProps {
   cashFlowData: CashFlowData[];
   currency?: string;
+  granularity?: 'monthly' | 'weekly'; // weekly data carries the week number in `month`
 }
 
 type ChartType = 'monthly' | 'cumulative';
 
-export function CashFlowChart({ cashFlowData, currency = '$' }: CashFlowChartProps) {
+export function CashFlowChart({ cashFlowData, currency = '$', granularity = 'monthly' }: CashFlowChartProps) {
   const { t } = useTranslation();
   const colors = useColors();
   const [chartType, setChartType] = useState<ChartType>('monthly');
@@ -21,7 +22,8 @@ export function CashFlowChart({ cashFlowData, currency = '$' }: CashFlowChartPro
   const chartWidth = screenWidth - 40; // padding
 
   // Prepare data for charts
-  const labels = cashFlowData.map((item) => `M${item.month}`);
+  const weekly = granularity === 'weekly';
+  const labels = cashFlowData.map((item) => `${weekly ? 'W' : 'M'}${item.month}`);
   const monthlyData = cashFlowData.map((item) => item.netCashFlow);
   const cumulativeData = cashFlowData.map((item) => item.cumulativeCashFlow);
 
@@ -76,7 +78,7 @@ export function CashFlowChart({ cashFlowData, currency = '$' }: CashFlowChartPro
             className={`text-center font-semibold ${chartType === 'monthly' ? 'text-background' : 'text-foreground'
               }`}
           >
-            {t('charts.monthly')}
+            {weekly ? t('charts.weekly') : t('charts.monthly')}
           </Text>
         </Pressable>
 
@@ -102,7 +104,7 @@ export function CashFlowChart({ cashFlowData, currency = '$' }: CashFlowChartPro
       {/* Chart Title */}
       <Text className="text-lg font-bold text-foreground">
         {chartType === 'monthly'
-          ? t('charts.monthly_cash_flow')
+          ? weekly ? t('charts.weekly_cash_flow') : t('charts.monthly_cash_flow')
           : t('charts.cumulative_cash_flow')}
       </Text>
 
@@ -185,7 +187,7 @@ export function CashFlowChart({ cashFlowData, currency = '$' }: CashFlowChartPro
         </View>
         <Text className="text-xs text-muted">
           {chartType === 'monthly'
-            ? t('charts.monthly_description')
+            ? weekly ? t('charts.weekly_description') : t('charts.monthly_description')
             : t('charts.cumulative_description')}
         </Text>
       </View>
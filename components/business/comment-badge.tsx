@@ -0,0 +1,36 @@
+import React from 'react';
+import { Text, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+import { useColors } from '@/hooks/use-colors';
+
+interface CommentBadgeProps {
+  count: number;
+  onPress: () => void;
+  accessibilityLabel?: string;
+}
+
+/**
+ * Speech bubble with the number of open threads; stays faint until something is under discussion.
+ */
+export function CommentBadge({ count, onPress, accessibilityLabel }: CommentBadgeProps) {
+  const colors = useColors();
+  const active = count > 0;
+
+  return (
+    <TouchableOpacity
+      onPress={onPress}
+      hitSlop={8}
+      accessibilityRole="button"
+      accessibilityLabel={accessibilityLabel}
+      className={`flex-row items-center gap-1 px-2 py-0.5 rounded-full ${active ? 'bg-primary/15' : ''}`}
+    >
+      <Ionicons
+        name={active ? 'chatbubble' : 'chatbubble-outline'}
+        size={14}
+        color={active ? colors.primary : colors.muted}
+      />
+      {active && <Text className="text-xs font-semibold text-primary">{count}</Text>}
+    </TouchableOpacity>
+  );
+}
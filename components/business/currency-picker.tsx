@@ -0,0 +1,31 @@
+import React from 'react';
+import { View, Text, TouchableOpacity } from 'react-native';
+import { Currency, Money } from '@/lib/domain/value-objects/Money';
+
+interface CurrencyPickerProps {
+  value: Currency;
+  onChange: (currency: Currency) => void;
+}
+
+/**
+ * Wrapping row of chips for the supported currencies
+ */
+export function CurrencyPicker({ value, onChange }: CurrencyPickerProps) {
+  return (
+    <View className="flex-row flex-wrap gap-2">
+      {Object.values(Currency).map((currency) => (
+        <TouchableOpacity
+          key={currency}
+          onPress={() => onChange(currency)}
+          className={`px-3 py-2 rounded-lg ${value === currency ? 'bg-primary' : 'bg-surface border border-border'}`}
+        >
+          <Text
+            className={`text-xs font-semibold ${value === currency ? 'text-background' : 'text-foreground'}`}
+          >
+            {Money.symbolFor(currency)} {currency}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
@@ -0,0 +1,188 @@
+import React, { useState } from 'react';
+import { View, Text, TextInput, Switch } from 'react-native';
+import { useTranslation } from '@/lib/i18n-context';
+import { useColors } from '@/hooks/use-colors';
+import { NumberField } from '@/components/business/number-field';
+import { OptionChips } from '@/components/business/option-chips';
+import type { DepreciationMethod, FiscalAssumptions, TerminalValueMethod } from '@/types/project';
+
+interface FiscalAssumptionsEditorProps {
+  value: FiscalAssumptions | undefined;
+  onChange: (value: FiscalAssumptions | undefined) => void;
+}
+
+export const DEFAULT_FISCAL_ASSUMPTIONS: FiscalAssumptions = {
+  taxRate: 25,
+  depreciationMethod: 'straight_line',
+  usefulLifeYears: 5,
+  decliningBalanceFactor: 2,
+  customDepreciationSchedule: [20, 32, 19.2, 11.52, 11.52, 5.76],
+  lossCarryForward: true,
+  daysReceivable: 30,
+  daysPayable: 30,
+  daysInventory: 0,
+  terminalValueMethod: 'none',
+  terminalGrowthRate: 2,
+  exitMultiple: 6,
+};
+
+/**
+ * Editor for the optional tax, depreciation, working capital and terminal value layer.
+ * Turning it off keeps metrics on pre-tax operating cash flow.
+ */
+export function FiscalAssumptionsEditor({ value, onChange }: FiscalAssumptionsEditorProps) {
+  const { t } = useTranslation();
+  const colors = useColors();
+  const [scheduleText, setScheduleText] = useState(
+    (value?.customDepreciationSchedule ?? DEFAULT_FISCAL_ASSUMPTIONS.customDepreciationSchedule ?? []).join(', ')
+  );
+
+  const update = (changes: Partial<FiscalAssumptions>) => {
+    if (!value) return;
+    onChange({ ...value, ...changes });
+  };
+
+  const depreciationOptions: { value: DepreciationMethod; label: string }[] = [
+    { value: 'straight_line', label: t('fiscal.straight_line') },
+    { value: 'declining_balance', label: t('fiscal.declining_balance') },
+    { value: 'custom', label: t('fiscal.custom') },
+  ];
+
+  const terminalOptions: { value: TerminalValueMethod; label: string }[] = [
+    { value: 'none', label: t('fiscal.terminal_none') },
+    { value: 'gordon_growth', label: t('fiscal.gordon_growth') },
+    { value: 'exit_multiple', label: t('fiscal.exit_multiple') },
+  ];
+
+  return (
+    <View className="gap-4">
+      <View className="flex-row items-center justify-between">
+        <View className="flex-1 pr-4">
+          <Text className="text-base font-semibold text-foreground">{t('fiscal.enable')}</Text>
+          <Text className="text-sm text-muted">{t('fiscal.description')}</Text>
+        </View>
+        <Switch
+          value={!!value}
+          onValueChange={(enabled) => onChange(enabled ? { ...DEFAULT_FISCAL_ASSUMPTIONS } : undefined)}
+          trackColor={{ false: colors.border, true: colors.primary }}
+        />
+      </View>
+
+      {value && (
+        <>
+          {/* Tax */}
+          <View className="bg-surface border border-border rounded-xl p-3 gap-2">
+            <Text className="text-sm font-semibold text-foreground">{t('fiscal.tax')}</Text>
+            <NumberField
+              label={t('fiscal.tax_rate')}
+              value={value.taxRate}
+              onChange={(v) => update({ taxRate: v ?? 0 })}
+            />
+            <View className="flex-row items-center justify-between">
+              <Text className="text-sm text-foreground">{t('fiscal.loss_carry_forward')}</Text>
+              <Switch
+                value={value.lossCarryForward}
+                onValueChange={(lossCarryForward) => update({ lossCarryForward })}
+                trackColor={{ false: colors.border, true: colors.primary }}
+              />
+            </View>
+          </View>
+
+          {/* Depreciation */}
+          <View className="bg-surface border border-border rounded-xl p-3 gap-2">
+            <Text className="text-sm font-semibold text-foreground">{t('fiscal.depreciation')}</Text>
+            <OptionChips
+              options={depreciationOptions}
+              value={value.depreciationMethod}
+              onChange={(depreciationMethod) => update({ depreciationMethod })}
+            />
+            {value.depreciationMethod === 'custom' ? (
+              <View>
+                <Text className="text-xs text-muted mb-1">{t('fiscal.custom_schedule')}</Text>
+                <TextInput
+                  value={scheduleText}
+                  onChangeText={(text) => {
+                    setScheduleText(text);
+                    const schedule = text
+                      .split(',')
+                      .map((part) => parseFloat(part))
+                      .filter((percent) => !isNaN(percent));
+                    update({ customDepreciationSchedule: schedule });
+                  }}
+                  placeholder="20, 32, 19.2"
+                  placeholderTextColor={colors.muted}
+                  keyboardType="numbers-and-punctuation"
+                  className="bg-background border border-border rounded-lg px-3 py-2 text-foreground text-sm"
+                />
+              </View>
+            ) : (
+              <View className="flex-row gap-2">
+                <NumberField
+                  label={t('fiscal.useful_life')}
+                  value={value.usefulLifeYears}
+                  onChange={(v) => update({ usefulLifeYears: v ?? 1 })}
+                />
+                {value.depreciationMethod === 'declining_balance' && (
+                  <NumberField
+                    label={t('fiscal.declining_factor')}
+                    value={value.decliningBalanceFactor}
+                    onChange={(v) => update({ decliningBalanceFactor: v ?? 2 })}
+                  />
+                )}
+              </View>
+            )}
+          </View>
+
+          {/* Working Capital */}
+          <View className="bg-surface border border-border rounded-xl p-3 gap-2">
+            <Text className="text-sm font-semibold text-foreground">{t('fiscal.working_capital')}</Text>
+            <View className="flex-row gap-2">
+              <NumberField
+                label={t('fiscal.days_receivable')}
+                value={value.daysReceivable}
+                onChange={(v) => update({ daysReceivable: v ?? 0 })}
+              />
+              <NumberField
+                label={t('fiscal.days_payable')}
+                value={value.daysPayable}
+                onChange={(v) => update({ daysPayable: v ?? 0 })}
+              />
+              <NumberField
+                label={t('fiscal.days_inventory')}
+                value={value.daysInventory}
+                onChange={(v) => update({ daysInventory: v ?? 0 })}
+              />
+            </View>
+          </View>
+
+          {/* Terminal Value */}
+          <View className="bg-surface border border-border rounded-xl p-3 gap-2">
+            <Text className="text-sm font-semibold text-foreground">{t('fiscal.terminal_value')}</Text>
+            <OptionChips
+              options={terminalOptions}
+              value={value.terminalValueMethod}
+              onChange={(terminalValueMethod) => update({ terminalValueMethod })}
+            />
+            {value.terminalValueMethod === 'gordon_growth' && (
+              <NumberField
+                label={t('fiscal.terminal_growth')}
+                value={value.terminalGrowthRate}
+                onChange={(v) => update({ terminalGrowthRate: v ?? 0 })}
+              />
+            )}
+            {value.terminalValueMethod === 'exit_multiple' && (
+              <NumberField
+                label={t('fiscal.exit_multiple_value')}
+                value={value.exitMultiple}
+                onChange={(v) => update({ exitMultiple: v ?? 0 })}
+              />
+            )}
+            {value.terminalValueMethod === 'none' && (
+              <Text className="text-xs text-muted">{t('fiscal.terminal_none_note')}</Text>
+            )}
+          </View>
+        </>
+      )}
+    </View>
+  );
+}
@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { View, Text, TextInput, Switch } from 'react-native';
+import { useTranslation } from '@/lib/i18n-context';
+import { useColors } from '@/hooks/use-colors';
+import { NumberField } from '@/components/business/number-field';
+import { OptionChips } from '@/components/business/option-chips';
+import type { InflationAssumptions, ValuationBasis } from '@/types/project';
+
+interface InflationEditorProps {
+  value: InflationAssumptions | undefined;
+  onChange: (value: InflationAssumptions | undefined) => void;
+  valuationBasis: ValuationBasis;
+  onValuationBasisChange: (basis: ValuationBasis) => void;
+}
+
+export const DEFAULT_INFLATION_ASSUMPTIONS: InflationAssumptions = {
+  annualRate: 3,
+  applyToRevenue: true,
+  applyToOperatingCosts: true,
+  applyToMaintenanceCosts: true,
+};
+
+/**
+ * Editor for the optional inflation assumption and the basis NPV/IRR are reported on.
+ * Turning it off keeps every amount flat and the valuation nominal.
+ */
+export function InflationEditor({ value, onChange, valuationBasis, onValuationBasisChange }: InflationEditorProps) {
+  const { t } = useTranslation();
+  const colors = useColors();
+  const [curveText, setCurveText] = useState((value?.curve ?? []).join(', '));
+
+  const update = (changes: Partial<InflationAssumptions>) => {
+    if (!value) return;
+    onChange({ ...value, ...changes });
+  };
+
+  const basisOptions: { value: ValuationBasis; label: string }[] = [
+    { value: 'nominal', label: t('inflation.nominal') },
+    { value: 'real', label: t('inflation.real') },
+  ];
+
+  const indexationToggles: { key: 'applyToRevenue' | 'applyToOperatingCosts' | 'applyToMaintenanceCosts'; label: string }[] = [
+    { key: 'applyToRevenue', label: t('inflation.apply_revenue') },
+    { key: 'applyToOperatingCosts', label: t('inflation.apply_operating_costs') },
+    { key: 'applyToMaintenanceCosts', label: t('inflation.apply_maintenance_costs') },
+  ];
+
+  return (
+    <View className="gap-4">
+      <View className="flex-row items-center justify-between">
+        <View className="flex-1 pr-4">
+          <Text className="text-base font-semibold text-foreground">{t('inflation.enable')}</Text>
+          <Text className="text-sm text-muted">{t('inflation.description')}</Text>
+        </View>
+        <Switch
+          value={!!value}
+          onValueChange={(enabled) => {
+            onChange(enabled ? { ...DEFAULT_INFLATION_ASSUMPTIONS } : undefined);
+            if (!enabled) onValuationBasisChange('nominal');
+          }}
+          trackColor={{ false: colors.border, true: colors.primary }}
+        />
+      </View>
+
+      {value && (
+        <>
+          {/* Rates */}
+          <View className="bg-surface border border-border rounded-xl p-3 gap-2">
+            <NumberField
+              label={t('inflation.annual_rate')}
+              value={value.annualRate}
+              onChange={(v) => update({ annualRate: v ?? 0 })}
+            />
+            <View>
+              <Text className="text-xs text-muted mb-1">{t('inflation.curve')}</Text>
+              <TextInput
+                value={curveText}
+                onChangeText={(text) => {
+                  setCurveText(text);
+                  const curve = text
+                    .split(',')
+                    .map((part) => parseFloat(part))
+                    .filter((rate) => !isNaN(rate));
+                  update({ curve: curve.length > 0 ? curve : undefined });
+                }}
+                placeholder="8, 6, 4"
+                placeholderTextColor={colors.muted}
+                keyboardType="numbers-and-punctuation"
+                className="bg-background border border-border rounded-lg px-3 py-2 text-foreground text-sm"
+              />
+              <Text className="text-xs text-muted mt-1">{t('inflation.curve_hint')}</Text>
+            </View>
+          </View>
+
+          {/* Indexation */}
+          <View className="bg-surface border border-border rounded-xl p-3 gap-2">
+            <Text className="text-sm font-semibold text-foreground">{t('inflation.indexation')}</Text>
+            {indexationToggles.map((toggle) => (
+              <View key={toggle.key} className="flex-row items-center justify-between">
+                <Text className="text-sm text-foreground">{toggle.label}</Text>
+                <Switch
+                  value={value[toggle.key]}
+                  onValueChange={(enabled) => update({ [toggle.key]: enabled })}
+                  trackColor={{ false: colors.border, true: colors.primary }}
+                />
+              </View>
+            ))}
+          </View>
+
+          {/* Valuation basis */}
+          <View className="bg-surface border border-border rounded-xl p-3 gap-2">
+            <Text className="text-sm font-semibold text-foreground">{t('inflation.valuation_basis')}</Text>
+            <OptionChips options={basisOptions} value={valuationBasis} onChange={onValuationBasisChange} />
+            <Text className="text-xs text-muted">
+              {valuationBasis === 'real' ? t('inflation.real_note') : t('inflation.nominal_note')}
+            </Text>
+          </View>
+        </>
+      )}
+    </View>
+  );
+}
@@ -0,0 +1,287 @@
+import React from 'react';
+import { View, Text, TextInput, TouchableOpacity } from 'react-native';
+import { useTranslation } from '@/lib/i18n-context';
+import { useColors } from '@/hooks/use-colors';
+import { NumberField } from '@/components/business/number-field';
+import { Currency, Money } from '@/lib/domain/value-objects/Money';
+import { LineItemCashFlowCalculator } from '@/lib/infrastructure/calculators/LineItemCashFlowCalculator';
+import type {
+  CapexTranche,
+  CostLine,
+  LineItemBehavior,
+  LineItemModel,
+  RevenueStream,
+} from '@/types/project';
+
+interface LineItemsEditorProps {
+  value: LineItemModel;
+  onChange: (value: LineItemModel) => void;
+  currency: Currency;
+}
+
+export const EMPTY_LINE_ITEMS: LineItemModel = {
+  revenueStreams: [],
+  costLines: [],
+  capexTranches: [],
+};
+
+const createId = (prefix: string): string => `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+interface BehaviorToggleProps {
+  value: LineItemBehavior;
+  onChange: (value: LineItemBehavior) => void;
+  fixedLabel: string;
+  variableLabel: string;
+}
+
+function BehaviorToggle({ value, onChange, fixedLabel, variableLabel }: BehaviorToggleProps) {
+  return (
+    <View className="flex-row gap-2">
+      {(['fixed', 'variable'] as LineItemBehavior[]).map((behavior) => (
+        <TouchableOpacity
+          key={behavior}
+          onPress={() => onChange(behavior)}
+          className={`flex-1 py-2 rounded-lg ${value === behavior ? 'bg-primary' : 'bg-background border border-border'}`}
+        >
+          <Text
+            className={`text-center text-xs font-semibold ${value === behavior ? 'text-background' : 'text-foreground'}`}
+          >
+            {behavior === 'fixed' ? fixedLabel : variableLabel}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
+
+/**
+ * Editor for revenue streams, cost lines and capex tranches.
+ * Leaving every list empty keeps the simple revenue/cost model.
+ */
+export function LineItemsEditor({ value, onChange, currency }: LineItemsEditorProps) {
+  const { t } = useTranslation();
+  const colors = useColors();
+  const symbol = Money.symbolFor(currency);
+
+  const updateRevenue = (id: string, changes: Partial<RevenueStream>) => {
+    onChange({
+      ...value,
+      revenueStreams: value.revenueStreams.map((s) => (s.id === id ? { ...s, ...changes } : s)),
+    });
+  };
+
+  const updateCost = (id: string, changes: Partial<CostLine>) => {
+    onChange({
+      ...value,
+      costLines: value.costLines.map((c) => (c.id === id ? { ...c, ...changes } : c)),
+    });
+  };
+
+  const updateCapex = (id: string, changes: Partial<CapexTranche>) => {
+    onChange({
+      ...value,
+      capexTranches: value.capexTranches.map((c) => (c.id === id ? { ...c, ...changes } : c)),
+    });
+  };
+
+  const renderHeader = (title: string, onAdd: () => void) => (
+    <View className="flex-row items-center justify-between mb-3">
+      <Text className="text-base font-semibold text-foreground">{title}</Text>
+      <TouchableOpacity onPress={onAdd} className="bg-primary/10 px-3 py-1 rounded-full">
+        <Text className="text-primary text-xs font-semibold">+ {t('line_items.add')}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderName = (name: string, onChangeName: (name: string) => void, onRemove: () => void) => (
+    <View className="flex-row items-center gap-2 mb-2">
+      <TextInput
+        value={name}
+        onChangeText={onChangeName}
+        placeholder={t('line_items.name')}
+        placeholderTextColor={colors.muted}
+        className="flex-1 bg-background border border-border rounded-lg px-3 py-2 text-foreground text-sm"
+      />
+      <TouchableOpacity onPress={onRemove} className="px-2 py-2">
+        <Text className="text-error text-sm font-semibold">{t('line_items.remove')}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <View className="gap-6">
+      <Text className="text-sm text-muted">{t('line_items.description')}</Text>
+      {new LineItemCashFlowCalculator().hasLineItems(value) && (
+        <Text className="text-sm text-warning">{t('line_items.supersedes')}</Text>
+      )}
+
+      {/* Revenue Streams */}
+      <View>
+        {renderHeader(t('line_items.revenue_streams'), () =>
+          onChange({
+            ...value,
+            revenueStreams: [
+              ...value.revenueStreams,
+              {
+                id: createId('revenue'),
+                name: `${t('line_items.revenue_stream')} ${value.revenueStreams.length + 1}`,
+                monthlyAmount: 0,
+                startMonth: 1,
+                growthRate: 0,
+                behavior: 'variable',
+              },
+            ],
+          })
+        )}
+        {value.revenueStreams.map((stream) => (
+          <View key={stream.id} className="bg-surface border border-border rounded-xl p-3 mb-3 gap-2">
+            {renderName(
+              stream.name,
+              (name) => updateRevenue(stream.id, { name }),
+              () => onChange({ ...value, revenueStreams: value.revenueStreams.filter((s) => s.id !== stream.id) })
+            )}
+            <View className="flex-row gap-2">
+              <NumberField
+                label={t('line_items.monthly_amount', { currency: symbol })}
+                value={stream.monthlyAmount}
+                onChange={(v) => updateRevenue(stream.id, { monthlyAmount: v ?? 0 })}
+              />
+              <NumberField
+                label={t('line_items.growth_rate')}
+                value={stream.growthRate}
+                onChange={(v) => updateRevenue(stream.id, { growthRate: v ?? 0 })}
+              />
+            </View>
+            <View className="flex-row gap-2">
+              <NumberField
+                label={t('line_items.start_month')}
+                value={stream.startMonth}
+                onChange={(v) => updateRevenue(stream.id, { startMonth: Math.max(1, Math.round(v ?? 1)) })}
+              />
+              <NumberField
+                label={t('line_items.end_month')}
+                value={stream.endMonth}
+                optional
+                placeholder={t('line_items.end_month_placeholder')}
+                onChange={(v) => updateRevenue(stream.id, { endMonth: v === undefined ? undefined : Math.round(v) })}
+              />
+            </View>
+            <BehaviorToggle
+              value={stream.behavior}
+              onChange={(behavior) => updateRevenue(stream.id, { behavior })}
+              fixedLabel={t('line_items.revenue_fixed')}
+              variableLabel={t('line_items.revenue_variable')}
+            />
+          </View>
+        ))}
+      </View>
+
+      {/* Cost Lines */}
+      <View>
+        {renderHeader(t('line_items.cost_lines'), () =>
+          onChange({
+            ...value,
+            costLines: [
+              ...value.costLines,
+              {
+                id: createId('cost'),
+                name: `${t('line_items.cost_line')} ${value.costLines.length + 1}`,
+                amount: 0,
+                startMonth: 1,
+                growthRate: 0,
+                behavior: 'fixed',
+              },
+            ],
+          })
+        )}
+        {value.costLines.map((line) => (
+          <View key={line.id} className="bg-surface border border-border rounded-xl p-3 mb-3 gap-2">
+            {renderName(
+              line.name,
+              (name) => updateCost(line.id, { name }),
+              () => onChange({ ...value, costLines: value.costLines.filter((c) => c.id !== line.id) })
+            )}
+            <BehaviorToggle
+              value={line.behavior}
+              onChange={(behavior) => updateCost(line.id, { behavior })}
+              fixedLabel={t('line_items.cost_fixed')}
+              variableLabel={t('line_items.cost_variable')}
+            />
+            <View className="flex-row gap-2">
+              <NumberField
+                label={line.behavior === 'variable'
+                  ? t('line_items.percent_of_revenue')
+                  : t('line_items.monthly_amount', { currency: symbol })}
+                value={line.amount}
+                onChange={(v) => updateCost(line.id, { amount: v ?? 0 })}
+              />
+              {line.behavior === 'fixed' && (
+                <NumberField
+                  label={t('line_items.growth_rate')}
+                  value={line.growthRate}
+                  onChange={(v) => updateCost(line.id, { growthRate: v ?? 0 })}
+                />
+              )}
+            </View>
+            <View className="flex-row gap-2">
+              <NumberField
+                label={t('line_items.start_month')}
+                value={line.startMonth}
+                onChange={(v) => updateCost(line.id, { startMonth: Math.max(1, Math.round(v ?? 1)) })}
+              />
+              <NumberField
+                label={t('line_items.end_month')}
+                value={line.endMonth}
+                optional
+                placeholder={t('line_items.end_month_placeholder')}
+                onChange={(v) => updateCost(line.id, { endMonth: v === undefined ? undefined : Math.round(v) })}
+              />
+            </View>
+          </View>
+        ))}
+      </View>
+
+      {/* Capex Tranches */}
+      <View>
+        {renderHeader(t('line_items.capex_tranches'), () =>
+          onChange({
+            ...value,
+            capexTranches: [
+              ...value.capexTranches,
+              {
+                id: createId('capex'),
+                name: `${t('line_items.capex_tranche')} ${value.capexTranches.length + 1}`,
+                amount: 0,
+                month: 0,
+              },
+            ],
+          })
+        )}
+        {value.capexTranches.map((tranche) => (
+          <View key={tranche.id} className="bg-surface border border-border rounded-xl p-3 mb-3 gap-2">
+            {renderName(
+              tranche.name,
+              (name) => updateCapex(tranche.id, { name }),
+              () => onChange({ ...value, capexTranches: value.capexTranches.filter((c) => c.id !== tranche.id) })
+            )}
+            <View className="flex-row gap-2">
+              <NumberField
+                label={t('line_items.amount', { currency: symbol })}
+                value={tranche.amount}
+                onChange={(v) => updateCapex(tranche.id, { amount: v ?? 0 })}
+              />
+              <NumberField
+                label={t('line_items.capex_month')}
+                value={tranche.month}
+                onChange={(v) => updateCapex(tranche.id, { month: Math.max(0, Math.round(v ?? 0)) })}
+              />
+            </View>
+          </View>
+        ))}
+        {value.capexTranches.length > 0 && (
+          <Text className="text-xs text-muted">{t('line_items.capex_note')}</Text>
+        )}
+      </View>
+    </View>
+  );
+}
@@ -0,0 +1,160 @@
+import React from 'react';
+import { View, Text, Switch } from 'react-native';
+import { useTranslation } from '@/lib/i18n-context';
+import { useColors } from '@/hooks/use-colors';
+import { NumberField } from '@/components/business/number-field';
+import { OptionChips } from '@/components/business/option-chips';
+import type { DistributionType, InputDistribution, MonteCarloConfig, MonteCarloVariable } from '@/types/project';
+
+interface MonteCarloEditorProps {
+  value: MonteCarloConfig | undefined;
+  onChange: (value: MonteCarloConfig | undefined) => void;
+  // Configuration derived from the scenario multipliers, used as the starting point
+  createDefault: () => MonteCarloConfig;
+  // Deterministic value of each variable, used to seed a newly picked distribution
+  baseValues: Record<MonteCarloVariable, number>;
+}
+
+// Saved simulations run on the server on every save, which caps the iterations
+export const MAX_MONTE_CARLO_ITERATIONS = 2000;
+
+const VARIABLES: MonteCarloVariable[] = [
+  'yearlyRevenue',
+  'revenueGrowth',
+  'operatingCosts',
+  'discountRate',
+  'initialInvestment',
+  'revenueMultiplier',
+  'costMultiplier',
+];
+
+type DistributionChoice = DistributionType | 'none';
+
+/**
+ * Parameters for a newly picked distribution type, centred on the variable's current value.
+ */
+function distributionFor(type: DistributionType, base: number): InputDistribution {
+  const spread = Math.abs(base) * 0.1 || 1;
+
+  switch (type) {
+    case 'normal':
+    case 'lognormal':
+      return { type, mean: base, stdDev: spread };
+    case 'triangular':
+      return { type, min: base - spread, mode: base, max: base + spread };
+    case 'uniform':
+      return { type, min: base - spread, max: base + spread };
+  }
+}
+
+/**
+ * Editor for the Monte Carlo simulation: iterations, seed and the distribution sampled
+ * for each input. Turning it off simulates around the best and worst case multipliers.
+ */
+export function MonteCarloEditor({ value, onChange, createDefault, baseValues }: MonteCarloEditorProps) {
+  const { t } = useTranslation();
+  const colors = useColors();
+
+  const update = (changes: Partial<MonteCarloConfig>) => {
+    if (!value) return;
+    onChange({ ...value, ...changes });
+  };
+
+  const setDistribution = (variable: MonteCarloVariable, distribution: InputDistribution | undefined) => {
+    if (!value) return;
+    const distributions = { ...value.distributions };
+    if (distribution) {
+      distributions[variable] = distribution;
+    } else {
+      delete distributions[variable];
+    }
+    update({ distributions });
+  };
+
+  const typeOptions: { value: DistributionChoice; label: string }[] = [
+    { value: 'none', label: t('monte_carlo.type_none') },
+    { value: 'normal', label: t('monte_carlo.type_normal') },
+    { value: 'lognormal', label: t('monte_carlo.type_lognormal') },
+    { value: 'triangular', label: t('monte_carlo.type_triangular') },
+    { value: 'uniform', label: t('monte_carlo.type_uniform') },
+  ];
+
+  const renderParameters = (variable: MonteCarloVariable, distribution: InputDistribution) => {
+    const set = (changes: Partial<InputDistribution>) => setDistribution(variable, { ...distribution, ...changes });
+
+    if (distribution.type === 'normal' || distribution.type === 'lognormal') {
+      return (
+        <View className="flex-row gap-2">
+          <NumberField label={t('monte_carlo.mean')} value={distribution.mean} onChange={(v) => set({ mean: v ?? 0 })} />
+          <NumberField label={t('monte_carlo.std_dev')} value={distribution.stdDev} onChange={(v) => set({ stdDev: v ?? 0 })} />
+        </View>
+      );
+    }
+
+    return (
+      <View className="flex-row gap-2">
+        <NumberField label={t('monte_carlo.min')} value={distribution.min} onChange={(v) => set({ min: v ?? 0 })} />
+        {distribution.type === 'triangular' && (
+          <NumberField label={t('monte_carlo.mode')} value={distribution.mode} onChange={(v) => set({ mode: v ?? 0 })} />
+        )}
+        <NumberField label={t('monte_carlo.max')} value={distribution.max} onChange={(v) => set({ max: v ?? 0 })} />
+      </View>
+    );
+  };
+
+  return (
+    <View className="gap-4">
+      <View className="flex-row items-center justify-between">
+        <View className="flex-1 pr-4">
+          <Text className="text-base font-semibold text-foreground">{t('monte_carlo.custom_enable')}</Text>
+          <Text className="text-sm text-muted">{t('monte_carlo.custom_description')}</Text>
+        </View>
+        <Switch
+          value={!!value}
+          onValueChange={(enabled) => onChange(enabled ? createDefault() : undefined)}
+          trackColor={{ false: colors.border, true: colors.primary }}
+        />
+      </View>
+
+      {value && (
+        <>
+          <View className="bg-surface border border-border rounded-xl p-3 gap-2">
+            <View className="flex-row gap-2">
+              <NumberField
+                label={t('monte_carlo.iterations', { max: String(MAX_MONTE_CARLO_ITERATIONS) })}
+                value={value.iterations}
+                onChange={(v) => update({ iterations: Math.round(v ?? 0) })}
+              />
+              <NumberField
+                label={t('monte_carlo.seed')}
+                value={value.seed}
+                onChange={(v) => update({ seed: Math.round(v ?? 0) })}
+              />
+            </View>
+          </View>
+
+          {VARIABLES.map((variable) => {
+            const distribution = value.distributions[variable];
+
+            return (
+              <View
+                key={`${variable}-${distribution?.type ?? 'none'}`}
+                className="bg-surface border border-border rounded-xl p-3 gap-2"
+              >
+                <Text className="text-sm font-semibold text-foreground">{t(`monte_carlo.variables.${variable}`)}</Text>
+                <OptionChips
+                  options={typeOptions}
+                  value={distribution?.type ?? 'none'}
+                  onChange={(type) =>
+                    setDistribution(variable, type === 'none' ? undefined : distributionFor(type, baseValues[variable]))
+                  }
+                />
+                {distribution && renderParameters(variable, distribution)}
+              </View>
+            );
+          })}
+        </>
+      )}
+    </View>
+  );
+}
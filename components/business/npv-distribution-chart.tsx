@@ -0,0 +1,73 @@
+import React from 'react';
+import { View, Text } from 'react-native';
+import { useTranslation } from '@/lib/i18n-context';
+import type { MonteCarloResult } from '@/types/project';
+
+interface NPVDistributionChartProps {
+  monteCarlo: MonteCarloResult;
+  currency?: string;
+}
+
+/**
+ * Histogram of simulated NPV outcomes.
+ * Bins below zero are drawn in red so the probability of loss is visible at a glance.
+ */
+export function NPVDistributionChart({ monteCarlo, currency = '$' }: NPVDistributionChartProps) {
+  const { t } = useTranslation();
+
+  const maxCount = Math.max(1, ...monteCarlo.histogram.map((bin) => bin.count));
+  const first = monteCarlo.histogram[0];
+  const last = monteCarlo.histogram[monteCarlo.histogram.length - 1];
+
+  const formatAmount = (value: number): string =>
+    `${value < 0 ? '-' : ''}${currency}${Math.abs(Math.round(value)).toLocaleString()}`;
+
+  return (
+    <View className="bg-surface/80 glass dark:glass-dark rounded-xl border border-border p-4">
+      <Text className="text-lg font-bold text-foreground mb-2 font-heading-medium">
+        {t('monte_carlo.distribution_title')}
+      </Text>
+      <Text className="text-xs text-muted mb-4 font-body">
+        {t('monte_carlo.distribution_description', { iterations: monteCarlo.iterations.toLocaleString() })}
+      </Text>
+
+      {/* Bars */}
+      <View className="flex-row items-end gap-px" style={{ height: 120 }}>
+        {monteCarlo.histogram.map((bin, index) => (
+          <View
+            key={index}
+            className="flex-1 rounded-t-sm"
+            style={{
+              height: `${(bin.count / maxCount) * 100}%`,
+              backgroundColor: bin.end <= 0 ? '#EF4444' : bin.start < 0 ? '#F59E0B' : '#22C55E',
+            }}
+          />
+        ))}
+      </View>
+
+      {/* Axis */}
+      {first && last && (
+        <View className="flex-row justify-between mt-2">
+          <Text className="text-xs text-muted">{formatAmount(first.start)}</Text>
+          <Text className="text-xs text-muted">{formatAmount(last.end)}</Text>
+        </View>
+      )}
+
+      {/* Percentiles */}
+      <View className="flex-row justify-between mt-4 pt-4 border-t border-border">
+        <View className="items-center flex-1">
+          <Text className="text-xs text-muted">P10</Text>
+          <Text className="text-sm font-semibold text-foreground">{formatAmount(monteCarlo.npv.p10)}</Text>
+        </View>
+        <View className="items-center flex-1">
+          <Text className="text-xs text-muted">P50</Text>
+          <Text className="text-sm font-semibold text-foreground">{formatAmount(monteCarlo.npv.p50)}</Text>
+        </View>
+        <View className="items-center flex-1">
+          <Text className="text-xs text-muted">P90</Text>
+          <Text className="text-sm font-semibold text-foreground">{formatAmount(monteCarlo.npv.p90)}</Text>
+        </View>
+      </View>
+    </View>
+  );
+}
@@ -0,0 +1,41 @@
+import React, { useState } from 'react';
+import { View, Text, TextInput } from 'react-native';
+import { useColors } from '@/hooks/use-colors';
+
+interface NumberFieldProps {
+  label: string;
+  value: number | undefined;
+  onChange: (value: number | undefined) => void;
+  placeholder?: string;
+  optional?: boolean;
+}
+
+/**
+ * Numeric input that keeps its own text so partial values like "1." can be typed.
+ */
+export function NumberField({ label, value, onChange, placeholder, optional = false }: NumberFieldProps) {
+  const colors = useColors();
+  const [text, setText] = useState(value === undefined ? '' : value.toString());
+
+  return (
+    <View className="flex-1">
+      <Text className="text-xs text-muted mb-1">{label}</Text>
+      <TextInput
+        value={text}
+        onChangeText={(next) => {
+          setText(next);
+          const parsed = parseFloat(next);
+          if (next.trim() === '' && optional) {
+            onChange(undefined);
+          } else {
+            onChange(isNaN(parsed) ? 0 : parsed);
+          }
+        }}
+        placeholder={placeholder}
+        placeholderTextColor={colors.muted}
+        keyboardType="numeric"
+        className="bg-background border border-border rounded-lg px-3 py-2 text-foreground text-sm"
+      />
+    </View>
+  );
+}
@@ -0,0 +1,31 @@
+import React from 'react';
+import { View, Text, TouchableOpacity } from 'react-native';
+
+interface OptionChipsProps<T extends string> {
+  options: { value: T; label: string }[];
+  value: T;
+  onChange: (value: T) => void;
+}
+
+/**
+ * Row of mutually exclusive chips for picking one option of a small set.
+ */
+export function OptionChips<T extends string>({ options, value, onChange }: OptionChipsProps<T>) {
+  return (
+    <View className="flex-row gap-2">
+      {options.map((option) => (
+        <TouchableOpacity
+          key={option.value}
+          onPress={() => onChange(option.value)}
+          className={`flex-1 py-2 rounded-lg ${value === option.value ? 'bg-primary' : 'bg-background border border-border'}`}
+        >
+          <Text
+            className={`text-center text-xs font-semibold ${value === option.value ? 'text-background' : 'text-foreground'}`}
+          >
+            {option.label}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
@@ -0,0 +1,242 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { useTranslation } from '@/lib/i18n-context';
+import { useColors } from '@/hooks/use-colors';
+import { NumberField } from '@/components/business/number-field';
+import { optimizePortfolio } from '@/lib/api/projects';
+import { formatCurrency } from '@/lib/utils';
+import type { Currency } from '@/lib/domain/value-objects/Money';
+import type { BusinessModel, PortfolioOptimizationReport, PortfolioSelection } from '@/types/project';
+
+interface PortfolioOptimizerPanelProps {
+  projects: { id: string; name: string }[];
+  currency: Currency;
+}
+
+const BUSINESS_MODELS: BusinessModel[] = ['standard', 'saas', 'ecommerce', 'manufacturing'];
+
+/**
+ * Dashboard panel that picks the projects to fund within a capital budget
+ * and shows the NPV versus risk frontier.
+ */
+export function PortfolioOptimizerPanel({ projects, currency }: PortfolioOptimizerPanelProps) {
+  const { t } = useTranslation();
+  const colors = useColors();
+  const [budget, setBudget] = useState<number | undefined>(undefined);
+  const [mandatory, setMandatory] = useState<string[]>([]);
+  const [exclusivePairs, setExclusivePairs] = useState<[string, string][]>([]);
+  const [pendingPair, setPendingPair] = useState<string | null>(null);
+  const [maxPerModel, setMaxPerModel] = useState<Partial<Record<BusinessModel, number>>>({});
+  const [report, setReport] = useState<PortfolioOptimizationReport | null>(null);
+  const [selected, setSelected] = useState<PortfolioSelection | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const nameOf = (id: string) => projects.find((p) => p.id === id)?.name ?? id;
+
+  const toggleMandatory = (id: string) => {
+    setMandatory((current) => (current.includes(id) ? current.filter((m) => m !== id) : [...current, id]));
+  };
+
+  const pickForPair = (id: string) => {
+    if (!pendingPair) {
+      setPendingPair(id);
+      return;
+    }
+    if (pendingPair !== id) {
+      setExclusivePairs((current) => [...current, [pendingPair, id]]);
+    }
+    setPendingPair(null);
+  };
+
+  const runOptimization = async () => {
+    if (budget === undefined) return;
+    try {
+      setRunning(true);
+      setError(null);
+      const result = await optimizePortfolio(
+        budget,
+        { mandatory, mutuallyExclusive: exclusivePairs, maxPerBusinessModel: maxPerModel },
+        currency
+      );
+      setReport(result);
+      setSelected(result.best);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('portfolio.error'));
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const maxFrontierNPV = Math.max(...(report?.frontier.map((point) => Math.abs(point.totalNPV)) ?? []), 1);
+
+  return (
+    <View className="bg-surface rounded-xl border border-border p-4 mb-6 gap-4">
+      <View>
+        <Text className="text-lg font-bold text-foreground">{t('portfolio.title')}</Text>
+        <Text className="text-sm text-muted">{t('portfolio.description')}</Text>
+      </View>
+
+      <NumberField label={t('portfolio.budget', { currency })} value={budget} onChange={setBudget} optional />
+
+      {/* Mandatory projects */}
+      <View className="gap-2">
+        <Text className="text-sm font-semibold text-foreground">{t('portfolio.mandatory')}</Text>
+        <View className="flex-row flex-wrap gap-2">
+          {projects.map((project) => (
+            <TouchableOpacity
+              key={project.id}
+              onPress={() => toggleMandatory(project.id)}
+              className={`px-3 py-1 rounded-full ${mandatory.includes(project.id) ? 'bg-primary' : 'bg-background border border-border'}`}
+            >
+              <Text className={`text-xs ${mandatory.includes(project.id) ? 'text-background' : 'text-foreground'}`}>
+                {project.name}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      {/* Mutually exclusive pairs */}
+      <View className="gap-2">
+        <Text className="text-sm font-semibold text-foreground">{t('portfolio.exclusive_pairs')}</Text>
+        <Text className="text-xs text-muted">
+          {pendingPair ? t('portfolio.pick_second', { name: nameOf(pendingPair) }) : t('portfolio.pick_first')}
+        </Text>
+        <View className="flex-row flex-wrap gap-2">
+          {projects.map((project) => (
+            <TouchableOpacity
+              key={project.id}
+              onPress={() => pickForPair(project.id)}
+              className={`px-3 py-1 rounded-full ${pendingPair === project.id ? 'bg-primary' : 'bg-background border border-border'}`}
+            >
+              <Text className={`text-xs ${pendingPair === project.id ? 'text-background' : 'text-foreground'}`}>
+                {project.name}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        {exclusivePairs.map(([a, b], index) => (
+          <View key={`${a}-${b}-${index}`} className="flex-row items-center justify-between">
+            <Text className="text-xs text-foreground flex-1" numberOfLines={1}>
+              {nameOf(a)} ⇄ {nameOf(b)}
+            </Text>
+            <TouchableOpacity onPress={() => setExclusivePairs((current) => current.filter((_, i) => i !== index))}>
+              <Text className="text-xs text-error font-semibold">{t('common.delete')}</Text>
+            </TouchableOpacity>
+          </View>
+        ))}
+      </View>
+
+      {/* Per business model caps */}
+      <View className="gap-2">
+        <Text className="text-sm font-semibold text-foreground">{t('portfolio.max_per_model')}</Text>
+        <View className="flex-row gap-2">
+          {BUSINESS_MODELS.map((model) => (
+            <NumberField
+              key={model}
+              label={t(`portfolio.models.${model}`)}
+              value={maxPerModel[model]}
+              optional
+              onChange={(v) =>
+                setMaxPerModel((current) => {
+                  const next = { ...current };
+                  if (v === undefined) delete next[model];
+                  else next[model] = Math.max(0, Math.round(v));
+                  return next;
+                })
+              }
+            />
+          ))}
+        </View>
+      </View>
+
+      <TouchableOpacity
+        onPress={runOptimization}
+        disabled={budget === undefined || running}
+        className={`py-3 rounded-xl items-center ${budget === undefined ? 'bg-border' : 'bg-primary'}`}
+      >
+        {running ? (
+          <ActivityIndicator color={colors.background} />
+        ) : (
+          <Text className="text-background font-semibold">{t('portfolio.optimize')}</Text>
+        )}
+      </TouchableOpacity>
+
+      {error && <Text className="text-sm text-error">{error}</Text>}
+
+      {report && !report.feasible && (
+        <Text className="text-sm text-error">{t('portfolio.infeasible')}</Text>
+      )}
+
+      {report && selected && (
+        <View className="gap-3">
+          <View className="flex-row gap-3">
+            <View className="flex-1">
+              <Text className="text-xs text-muted">{t('portfolio.total_npv')}</Text>
+              <Text className={`text-base font-bold ${selected.totalNPV > 0 ? 'text-success' : 'text-error'}`}>
+                {formatCurrency(selected.totalNPV, currency)}
+              </Text>
+            </View>
+            <View className="flex-1">
+              <Text className="text-xs text-muted">{t('portfolio.capital_used')}</Text>
+              <Text className="text-base font-bold text-foreground">
+                {formatCurrency(selected.totalInvestment, currency)}
+              </Text>
+            </View>
+            <View className="flex-1">
+              <Text className="text-xs text-muted">{t('portfolio.risk')}</Text>
+              <Text className="text-base font-bold text-foreground">{formatCurrency(selected.risk, currency)}</Text>
+            </View>
+          </View>
+
+          <View className="gap-1">
+            <Text className="text-sm font-semibold text-foreground">{t('portfolio.funded_projects')}</Text>
+            {selected.projectIds.length === 0 ? (
+              <Text className="text-xs text-muted">{t('portfolio.none_funded')}</Text>
+            ) : (
+              selected.projectIds.map((id) => (
+                <Text key={id} className="text-sm text-foreground">• {nameOf(id)}</Text>
+              ))
+            )}
+          </View>
+
+          {/* Efficient frontier, lowest risk first */}
+          <View className="gap-2">
+            <Text className="text-sm font-semibold text-foreground">{t('portfolio.frontier')}</Text>
+            <Text className="text-xs text-muted">{t('portfolio.frontier_hint')}</Text>
+            {report.frontier.map((point, index) => {
+              const isSelected = point.projectIds.join() === selected.projectIds.join();
+              return (
+                <TouchableOpacity key={index} onPress={() => setSelected(point)} className="gap-1">
+                  <View className="flex-row justify-between">
+                    <Text className={`text-xs ${isSelected ? 'text-primary font-semibold' : 'text-muted'}`}>
+                      {t('portfolio.risk')}: {formatCurrency(point.risk, currency)}
+                    </Text>
+                    <Text className={`text-xs ${isSelected ? 'text-primary font-semibold' : 'text-foreground'}`}>
+                      {formatCurrency(point.totalNPV, currency)}
+                    </Text>
+                  </View>
+                  <View
+                    className="h-2 rounded"
+                    style={{
+                      width: `${Math.min((Math.abs(point.totalNPV) / maxFrontierNPV) * 100, 100)}%`,
+                      backgroundColor: isSelected ? colors.primary : colors.border,
+                    }}
+                  />
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          {!report.exhaustive && <Text className="text-xs text-warning">{t('portfolio.not_exhaustive')}</Text>}
+          {report.skippedProjectIds.length > 0 && (
+            <Text className="text-xs text-muted">
+              {t('portfolio.skipped', { count: String(report.skippedProjectIds.length) })}
+            </Text>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
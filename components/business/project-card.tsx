@@ -93,7 +93,7 @@ export const ProjectCard = React.memo(function ProjectCard({ project, onPress, c
                 'text-base font-semibold',
                 project.results.npv > 0 ? 'text-success' : 'text-error'
               )}>
-                {formatCurrency(project.results.npv)}
+                {formatCurrency(project.results.npv, project.currency)}
               </Text>
             </View>
           </View>
@@ -0,0 +1,266 @@
+import React from 'react';
+import { View, Text, TextInput, TouchableOpacity, Switch } from 'react-native';
+import { useTranslation } from '@/lib/i18n-context';
+import { useColors } from '@/hooks/use-colors';
+import { NumberField } from '@/components/business/number-field';
+import { OptionChips } from '@/components/business/option-chips';
+import type { BurnScenario, CapTableEntry, FundraisingRound, RiskInput, ShareholderKind } from '@/types/project';
+
+interface RiskInputEditorProps {
+  value: RiskInput | undefined;
+  onChange: (value: RiskInput | undefined) => void;
+}
+
+export const DEFAULT_RISK_INPUT: RiskInput = {
+  currentCash: 0,
+  monthlyBurnRate: 0,
+  monthlyChurnRate: 0,
+  currentMRR: 0,
+  averageContractValue: 0,
+};
+
+/**
+ * Editor for the cash runway, fundraising rounds, burn scenarios and cap table.
+ * Turning it off removes the runway section from the project.
+ */
+export function RiskInputEditor({ value, onChange }: RiskInputEditorProps) {
+  const { t } = useTranslation();
+  const colors = useColors();
+
+  const update = (changes: Partial<RiskInput>) => {
+    if (!value) return;
+    onChange({ ...value, ...changes });
+  };
+
+  const rounds = value?.fundraisingRounds ?? [];
+  const scenarios = value?.burnScenarios ?? [];
+  const capTable = value?.capTable ?? [];
+
+  const updateRound = (index: number, changes: Partial<FundraisingRound>) =>
+    update({ fundraisingRounds: rounds.map((round, i) => (i === index ? { ...round, ...changes } : round)) });
+  const updateScenario = (index: number, changes: Partial<BurnScenario>) =>
+    update({ burnScenarios: scenarios.map((scenario, i) => (i === index ? { ...scenario, ...changes } : scenario)) });
+  const updateHolder = (index: number, changes: Partial<CapTableEntry>) =>
+    update({ capTable: capTable.map((entry, i) => (i === index ? { ...entry, ...changes } : entry)) });
+
+  const kindOptions: { value: ShareholderKind; label: string }[] = [
+    { value: 'founder', label: t('risk_input.kind_founder') },
+    { value: 'investor', label: t('risk_input.kind_investor') },
+    { value: 'employee', label: t('risk_input.kind_employee') },
+  ];
+
+  // Entries have no ids, so rows are keyed by position and remount when one is removed
+  const rowKey = (index: number, count: number) => `${index}-${count}`;
+
+  const renderHeader = (title: string, onAdd: () => void) => (
+    <View className="flex-row items-center justify-between">
+      <Text className="text-sm font-semibold text-foreground">{title}</Text>
+      <TouchableOpacity onPress={onAdd} className="bg-primary/10 px-3 py-1 rounded-full">
+        <Text className="text-primary text-xs font-semibold">+ {t('risk_input.add')}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderName = (name: string, placeholder: string, onChangeName: (name: string) => void, onRemove: () => void) => (
+    <View className="flex-row items-center gap-2">
+      <TextInput
+        value={name}
+        onChangeText={onChangeName}
+        placeholder={placeholder}
+        placeholderTextColor={colors.muted}
+        className="flex-1 bg-background border border-border rounded-lg px-3 py-2 text-foreground text-sm"
+      />
+      <TouchableOpacity onPress={onRemove} className="px-2 py-2">
+        <Text className="text-error text-sm font-semibold">{t('risk_input.remove')}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderDate = (label: string, date: string | undefined, placeholder: string, onChangeDate: (date: string) => void) => (
+    <View className="flex-1">
+      <Text className="text-xs text-muted mb-1">{label}</Text>
+      <TextInput
+        value={date ?? ''}
+        onChangeText={onChangeDate}
+        placeholder={placeholder}
+        placeholderTextColor={colors.muted}
+        keyboardType="numbers-and-punctuation"
+        className="bg-background border border-border rounded-lg px-3 py-2 text-foreground text-sm"
+      />
+    </View>
+  );
+
+  return (
+    <View className="gap-4">
+      <View className="flex-row items-center justify-between">
+        <View className="flex-1 pr-4">
+          <Text className="text-base font-semibold text-foreground">{t('risk_input.enable')}</Text>
+          <Text className="text-sm text-muted">{t('risk_input.description')}</Text>
+        </View>
+        <Switch
+          value={!!value}
+          onValueChange={(enabled) => onChange(enabled ? { ...DEFAULT_RISK_INPUT } : undefined)}
+          trackColor={{ false: colors.border, true: colors.primary }}
+        />
+      </View>
+
+      {value && (
+        <>
+          {/* Cash and burn */}
+          <View className="bg-surface border border-border rounded-xl p-3 gap-2">
+            <Text className="text-sm font-semibold text-foreground">{t('risk_input.cash')}</Text>
+            <View className="flex-row gap-2">
+              <NumberField
+                label={t('risk_input.current_cash')}
+                value={value.currentCash}
+                onChange={(v) => update({ currentCash: v ?? 0 })}
+              />
+              <NumberField
+                label={t('risk_input.monthly_burn')}
+                value={value.monthlyBurnRate}
+                onChange={(v) => update({ monthlyBurnRate: v ?? 0 })}
+              />
+            </View>
+            <View className="flex-row gap-2">
+              <NumberField
+                label={t('risk_input.planned_fundraising')}
+                value={value.plannedFundraising}
+                optional
+                onChange={(v) => update({ plannedFundraising: v })}
+              />
+              <NumberField
+                label={t('risk_input.minimum_runway')}
+                value={value.minimumRunwayMonths}
+                optional
+                onChange={(v) => update({ minimumRunwayMonths: v })}
+              />
+            </View>
+            {renderDate(
+              t('risk_input.as_of_date'),
+              value.asOfDate,
+              t('risk_input.as_of_date_placeholder'),
+              (date) => update({ asOfDate: date.trim() || undefined })
+            )}
+          </View>
+
+          {/* Revenue and churn */}
+          <View className="bg-surface border border-border rounded-xl p-3 gap-2">
+            <Text className="text-sm font-semibold text-foreground">{t('risk_input.revenue')}</Text>
+            <View className="flex-row gap-2">
+              <NumberField
+                label={t('risk_input.current_mrr')}
+                value={value.currentMRR}
+                onChange={(v) => update({ currentMRR: v ?? 0 })}
+              />
+              <NumberField
+                label={t('risk_input.average_contract_value')}
+                value={value.averageContractValue}
+                onChange={(v) => update({ averageContractValue: v ?? 0 })}
+              />
+            </View>
+            <NumberField
+              label={t('risk_input.monthly_churn')}
+              value={value.monthlyChurnRate}
+              onChange={(v) => update({ monthlyChurnRate: v ?? 0 })}
+            />
+          </View>
+
+          {/* Fundraising rounds */}
+          <View className="bg-surface border border-border rounded-xl p-3 gap-2">
+            {renderHeader(t('risk_input.rounds'), () =>
+              update({
+                fundraisingRounds: [
+                  ...rounds,
+                  { name: `${t('risk_input.round')} ${rounds.length + 1}`, date: '', amount: 0, preMoneyValuation: 0 },
+                ],
+              })
+            )}
+            {rounds.map((round, index) => (
+              <View key={rowKey(index, rounds.length)} className="border-t border-border pt-2 gap-2">
+                {renderName(
+                  round.name,
+                  t('risk_input.round'),
+                  (name) => updateRound(index, { name }),
+                  () => update({ fundraisingRounds: rounds.filter((_, i) => i !== index) })
+                )}
+                {renderDate(t('risk_input.round_date'), round.date, 'YYYY-MM-DD', (date) => updateRound(index, { date: date.trim() }))}
+                <View className="flex-row gap-2">
+                  <NumberField
+                    label={t('risk_input.amount')}
+                    value={round.amount}
+                    onChange={(v) => updateRound(index, { amount: v ?? 0 })}
+                  />
+                  <NumberField
+                    label={t('risk_input.pre_money')}
+                    value={round.preMoneyValuation}
+                    onChange={(v) => updateRound(index, { preMoneyValuation: v ?? 0 })}
+                  />
+                </View>
+              </View>
+            ))}
+          </View>
+
+          {/* Burn scenarios */}
+          <View className="bg-surface border border-border rounded-xl p-3 gap-2">
+            {renderHeader(t('risk_input.burn_scenarios'), () =>
+              update({
+                burnScenarios: [
+                  ...scenarios,
+                  { name: `${t('risk_input.scenario')} ${scenarios.length + 1}`, monthlyBurnRate: value.monthlyBurnRate },
+                ],
+              })
+            )}
+            {scenarios.map((scenario, index) => (
+              <View key={rowKey(index, scenarios.length)} className="border-t border-border pt-2 gap-2">
+                {renderName(
+                  scenario.name,
+                  t('risk_input.scenario'),
+                  (name) => updateScenario(index, { name }),
+                  () => update({ burnScenarios: scenarios.filter((_, i) => i !== index) })
+                )}
+                <NumberField
+                  label={t('risk_input.monthly_burn')}
+                  value={scenario.monthlyBurnRate}
+                  onChange={(v) => updateScenario(index, { monthlyBurnRate: v ?? 0 })}
+                />
+              </View>
+            ))}
+          </View>
+
+          {/* Cap table */}
+          <View className="bg-surface border border-border rounded-xl p-3 gap-2">
+            {renderHeader(t('risk_input.cap_table'), () =>
+              update({
+                capTable: [
+                  ...capTable,
+                  { holder: `${t('risk_input.holder')} ${capTable.length + 1}`, kind: 'founder', ownership: 0 },
+                ],
+              })
+            )}
+            <Text className="text-xs text-muted">{t('risk_input.cap_table_hint')}</Text>
+            {capTable.map((entry, index) => (
+              <View key={rowKey(index, capTable.length)} className="border-t border-border pt-2 gap-2">
+                {renderName(
+                  entry.holder,
+                  t('risk_input.holder'),
+                  (holder) => updateHolder(index, { holder }),
+                  () => update({ capTable: capTable.filter((_, i) => i !== index) })
+                )}
+                <OptionChips
+                  options={kindOptions}
+                  value={entry.kind}
+                  onChange={(kind) => updateHolder(index, { kind })}
+                />
+                <NumberField
+                  label={t('risk_input.ownership')}
+                  value={entry.ownership}
+                  onChange={(v) => updateHolder(index, { ownership: v ?? 0 })}
+                />
+              </View>
+            ))}
+          </View>
+        </>
+      )}
+    </View>
+  );
+}
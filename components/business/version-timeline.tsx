@@ -0,0 +1,204 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, ActivityIndicator, Alert } from 'react-native';
+import { useTranslation } from '@/lib/i18n-context';
+import { useColors } from '@/hooks/use-colors';
+import { compareProjectVersions, getProjectVersions, restoreProjectVersion } from '@/lib/api/projects';
+import { eventEmitter, Events } from '@/lib/event-emitter';
+import { confirmAction } from '@/lib/platform-utils';
+import { formatCurrency } from '@/lib/utils';
+import type { Currency } from '@/lib/domain/value-objects/Money';
+import type { ProjectData, ProjectVersion, ProjectVersionDiff, VersionFieldChange, VersionMetricDelta } from '@/types/project';
+
+interface VersionTimelineProps {
+  projectId: string;
+  currency: Currency;
+  canRestore?: boolean;
+}
+
+const MONEY_METRICS: VersionMetricDelta['metric'][] = ['npv', 'npvBest', 'npvWorst'];
+
+/**
+ * Audit trail of every save of a project: pick two versions to see what changed
+ * and how the headline metrics moved, or restore an earlier version.
+ */
+export function VersionTimeline({ projectId, currency, canRestore = true }: VersionTimelineProps) {
+  const { t } = useTranslation();
+  const colors = useColors();
+  const [versions, setVersions] = useState<ProjectVersion[]>([]);
+  const [selected, setSelected] = useState<number[]>([]);
+  const [diff, setDiff] = useState<ProjectVersionDiff | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [restoring, setRestoring] = useState(false);
+
+  const loadVersions = useCallback(async () => {
+    setLoading(true);
+    const list = await getProjectVersions(projectId);
+    setVersions(list);
+    // Newest first: compare the latest save with the one before it
+    setSelected(list.length >= 2 ? [list[1].version, list[0].version] : []);
+    setLoading(false);
+  }, [projectId]);
+
+  useEffect(() => {
+    loadVersions();
+  }, [loadVersions]);
+
+  useEffect(() => {
+    return eventEmitter.on(Events.PROJECT_UPDATED, (updated: ProjectData) => {
+      if (updated.id === projectId) loadVersions();
+    });
+  }, [projectId, loadVersions]);
+
+  useEffect(() => {
+    if (selected.length !== 2) {
+      setDiff(null);
+      return;
+    }
+    const [from, to] = [...selected].sort((a, b) => a - b);
+    compareProjectVersions(projectId, from, to)
+      .then(setDiff)
+      .catch(() => setDiff(null));
+  }, [projectId, selected]);
+
+  const toggle = (version: number) => {
+    setSelected((current) => {
+      if (current.includes(version)) return current.filter((v) => v !== version);
+      return current.length < 2 ? [...current, version] : [current[1], version];
+    });
+  };
+
+  const handleRestore = async (version: number) => {
+    const confirmed = await confirmAction(
+      t('versions.restore_title'),
+      t('versions.restore_message', { version: String(version) }),
+      t('versions.restore'),
+      t('common.cancel')
+    );
+    if (!confirmed) return;
+
+    try {
+      setRestoring(true);
+      await restoreProjectVersion(projectId, version);
+    } catch (error) {
+      console.error('Error restoring version:', error);
+      Alert.alert(t('common.error'), t('versions.restore_error'));
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const formatValue = (value: VersionFieldChange['before']) => {
+    if (value === null) return '—';
+    if (typeof value === 'boolean') return value ? t('versions.yes') : t('versions.no');
+    return String(value);
+  };
+
+  const formatMetric = (metric: VersionMetricDelta['metric'], value: number | null) => {
+    if (value === null) return '—';
+    if (MONEY_METRICS.includes(metric)) return formatCurrency(value, currency);
+    if (metric === 'paybackPeriod') return `${value.toFixed(1)} ${t('common.months')}`;
+    return `${value.toFixed(2)}%`;
+  };
+
+  if (loading) {
+    return <ActivityIndicator color={colors.primary} />;
+  }
+
+  if (versions.length === 0) {
+    return <Text className="text-sm text-muted">{t('versions.empty')}</Text>;
+  }
+
+  return (
+    <View className="gap-4">
+      <Text className="text-xs text-muted">{t('versions.hint')}</Text>
+
+      {/* Timeline, newest first */}
+      <View>
+        {versions.map((version, index) => {
+          const isSelected = selected.includes(version.version);
+          return (
+            <View key={version.id} className="flex-row">
+              <View className="items-center mr-3" style={{ width: 16 }}>
+                <View
+                  className="w-3 h-3 rounded-full mt-1"
+                  style={{ backgroundColor: isSelected ? colors.primary : colors.border }}
+                />
+                {index < versions.length - 1 && <View className="flex-1 w-px bg-border" />}
+              </View>
+              <TouchableOpacity onPress={() => toggle(version.version)} className="flex-1 pb-4">
+                <View className="flex-row justify-between items-center">
+                  <Text className={`text-sm font-semibold ${isSelected ? 'text-primary' : 'text-foreground'}`}>
+                    {t('versions.version', { version: String(version.version) })}
+                  </Text>
+                  {canRestore && index > 0 && (
+                    <TouchableOpacity onPress={() => handleRestore(version.version)} disabled={restoring}>
+                      <Text className="text-xs text-primary font-semibold">{t('versions.restore')}</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+                <Text className="text-xs text-muted">
+                  {new Date(version.createdAt).toLocaleString()} · {version.authorName ?? t('versions.unknown_author')}
+                </Text>
+                {version.restoredFromVersion !== null && (
+                  <Text className="text-xs text-muted">
+                    {t('versions.restored_from', { version: String(version.restoredFromVersion) })}
+                  </Text>
+                )}
+                {version.snapshot.results && (
+                  <Text className="text-xs text-foreground">
+                    NPV {formatCurrency(version.snapshot.results.npv, currency)}
+                  </Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          );
+        })}
+      </View>
+
+      {/* Diff between the two selected versions */}
+      {diff && (
+        <View className="bg-surface border border-border rounded-xl p-3 gap-3">
+          <Text className="text-sm font-semibold text-foreground">
+            {t('versions.comparing', { from: String(diff.fromVersion), to: String(diff.toVersion) })}
+          </Text>
+
+          <View className="gap-1">
+            {diff.metrics
+              .filter((metric) => metric.before !== null || metric.after !== null)
+              .map((metric) => (
+                <View key={metric.metric} className="flex-row justify-between">
+                  <Text className="text-xs text-muted flex-1">{t(`versions.metrics.${metric.metric}`)}</Text>
+                  <Text className="text-xs text-foreground flex-1 text-right">
+                    {formatMetric(metric.metric, metric.before)} → {formatMetric(metric.metric, metric.after)}
+                  </Text>
+                  <Text
+                    className={`text-xs font-semibold w-24 text-right ${
+                      (metric.delta ?? 0) > 0 ? 'text-success' : (metric.delta ?? 0) < 0 ? 'text-error' : 'text-muted'
+                    }`}
+                  >
+                    {metric.delta === null ? '—' : `${metric.delta > 0 ? '+' : ''}${formatMetric(metric.metric, metric.delta)}`}
+                  </Text>
+                </View>
+              ))}
+          </View>
+
+          <View className="gap-1">
+            <Text className="text-xs font-semibold text-foreground">{t('versions.changed_inputs')}</Text>
+            {diff.changes.length === 0 ? (
+              <Text className="text-xs text-muted">{t('versions.no_changes')}</Text>
+            ) : (
+              diff.changes.map((change) => (
+                <View key={change.field} className="flex-row justify-between">
+                  <Text className="text-xs text-muted flex-1" numberOfLines={1}>{change.field}</Text>
+                  <Text className="text-xs text-foreground flex-1 text-right" numberOfLines={1}>
+                    {formatValue(change.before)} → {formatValue(change.after)}
+                  </Text>
+                </View>
+              ))
+            )}
+          </View>
+        </View>
+      )}
+    </View>
+  );
+}
@@ -0,0 +1,292 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+  Platform,
+} from 'react-native';
+import * as Haptics from 'expo-haptics';
+
+import { useTranslation } from '@/lib/i18n-context';
+import {
+  addProjectComment,
+  deleteProjectComment,
+  getMentionableUsers,
+  setCommentResolved,
+  updateProjectComment,
+} from '@/lib/api/projects';
+import { buildCommentThreads, mentionHandle, threadsForAnchor } from '@/lib/project-comments';
+import { roleAllows } from '@/lib/workspace-permissions';
+import { confirmAction } from '@/lib/platform-utils';
+import * as Auth from '@/lib/_core/auth';
+import type { CommentAnchor, MentionableUser, ProjectComment, WorkspaceRole } from '@/types/project';
+
+interface CommentsModalProps {
+  visible: boolean;
+  projectId: string;
+  anchor: CommentAnchor;
+  title: string;
+  role: WorkspaceRole;
+  comments: ProjectComment[];
+  onClose: () => void;
+}
+
+const MAX_SUGGESTIONS = 5;
+
+/**
+ * Threads on one anchor with replies, resolve/reopen and a composer that completes @mentions.
+ */
+export function CommentsModal({ visible, projectId, anchor, title, role, comments, onClose }: CommentsModalProps) {
+  const { t } = useTranslation();
+  const [draft, setDraft] = useState('');
+  const [replyTo, setReplyTo] = useState<ProjectComment | null>(null);
+  const [editing, setEditing] = useState<ProjectComment | null>(null);
+  const [sending, setSending] = useState(false);
+  const [mentionable, setMentionable] = useState<MentionableUser[]>([]);
+  const [currentUserId, setCurrentUserId] = useState<number | null>(null);
+  const canComment = roleAllows(role, 'comment');
+  const canModerate = roleAllows(role, 'manage');
+
+  useEffect(() => {
+    if (visible) {
+      getMentionableUsers(projectId).then(setMentionable);
+      Auth.getUserInfo().then((user) => setCurrentUserId(user?.id ?? null));
+    } else {
+      setDraft('');
+      setReplyTo(null);
+      setEditing(null);
+    }
+  }, [visible, projectId]);
+
+  const threads = useMemo(
+    () => threadsForAnchor(buildCommentThreads(comments), anchor),
+    [comments, anchor]
+  );
+
+  // Suggest members while the draft ends in an unfinished "@name"
+  const mentionQuery = /(?:^|\s)@([^@\n]*)$/.exec(draft)?.[1]?.toLowerCase() ?? null;
+  const suggestions = mentionQuery === null
+    ? []
+    : mentionable
+      .filter((user) => {
+        const handle = mentionHandle(user);
+        return !!handle && handle.toLowerCase().startsWith(mentionQuery) && handle.toLowerCase() !== mentionQuery;
+      })
+      .slice(0, MAX_SUGGESTIONS);
+
+  const insertMention = (user: MentionableUser) => {
+    const handle = mentionHandle(user);
+    if (!handle || mentionQuery === null) return;
+    setDraft(`${draft.slice(0, draft.length - mentionQuery.length)}${handle} `);
+  };
+
+  const authorLabel = (comment: ProjectComment) =>
+    comment.authorId === currentUserId ? t('comments.you') : comment.authorName ?? t('comments.unknown_author');
+
+  const handleSend = async () => {
+    const body = draft.trim();
+    if (!body) return;
+
+    try {
+      setSending(true);
+      if (editing) {
+        await updateProjectComment(editing.id, body);
+      } else {
+        await addProjectComment(projectId, anchor, body, replyTo?.id);
+      }
+      if (Platform.OS !== 'web') {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      }
+      setDraft('');
+      setReplyTo(null);
+      setEditing(null);
+    } catch (error) {
+      console.error('Error saving comment:', error);
+      Alert.alert(t('validations.error'), t('comments.save_error'));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleToggleResolved = async (root: ProjectComment) => {
+    try {
+      await setCommentResolved(root.id, !root.resolvedAt);
+    } catch (error) {
+      console.error('Error resolving thread:', error);
+      Alert.alert(t('validations.error'), t('comments.save_error'));
+    }
+  };
+
+  const handleDelete = async (comment: ProjectComment) => {
+    const confirmed = await confirmAction(
+      t('comments.delete_title'),
+      comment.parentId ? t('comments.delete_reply_message') : t('comments.delete_thread_message'),
+      t('common.delete'),
+      t('common.cancel'),
+      true
+    );
+    if (!confirmed) return;
+
+    try {
+      await deleteProjectComment(projectId, comment.id);
+      if (replyTo?.id === comment.id || editing?.id === comment.id) {
+        setReplyTo(null);
+        setEditing(null);
+        setDraft('');
+      }
+    } catch (error) {
+      console.error('Error deleting comment:', error);
+      Alert.alert(t('validations.error'), t('comments.delete_error'));
+    }
+  };
+
+  const startEditing = (comment: ProjectComment) => {
+    setReplyTo(null);
+    setEditing(comment);
+    setDraft(comment.body);
+  };
+
+  const renderComment = (comment: ProjectComment) => (
+    <View key={comment.id} className={comment.parentId ? 'ml-4 pl-3 border-l border-border' : ''}>
+      <View className="flex-row justify-between items-center mb-1">
+        <Text className="text-xs font-semibold text-foreground">{authorLabel(comment)}</Text>
+        <Text className="text-xs text-muted">{new Date(comment.createdAt).toLocaleDateString()}</Text>
+      </View>
+      <Text className="text-sm text-foreground">{comment.body}</Text>
+      {comment.authorId === currentUserId || canModerate ? (
+        <View className="flex-row gap-4 mt-1">
+          {comment.authorId === currentUserId && canComment && (
+            <TouchableOpacity onPress={() => startEditing(comment)}>
+              <Text className="text-xs text-primary font-medium">{t('common.edit')}</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity onPress={() => handleDelete(comment)}>
+            <Text className="text-xs text-error font-medium">{t('common.delete')}</Text>
+          </TouchableOpacity>
+        </View>
+      ) : null}
+    </View>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View className="flex-1 justify-center items-center bg-black/50 px-6">
+        <View className="bg-background rounded-2xl w-full max-w-md overflow-hidden">
+          {/* Header */}
+          <View className="p-6 border-b border-border">
+            <Text className="text-2xl font-bold text-foreground mb-1">{t('comments.title')}</Text>
+            <Text className="text-sm text-muted">{title}</Text>
+          </View>
+
+          {/* Threads */}
+          <ScrollView className="max-h-[420px]" contentContainerStyle={{ padding: 24, gap: 16 }}>
+            {threads.length === 0 && (
+              <Text className="text-sm text-muted text-center">{t('comments.empty')}</Text>
+            )}
+            {threads.map(({ root, replies }) => (
+              <View
+                key={root.id}
+                className={`bg-surface rounded-xl p-4 border border-border gap-3 ${root.resolvedAt ? 'opacity-60' : ''}`}
+              >
+                {root.resolvedAt && (
+                  <Text className="text-xs font-semibold text-success">{t('comments.resolved')}</Text>
+                )}
+                {renderComment(root)}
+                {replies.map(renderComment)}
+                {canComment && (
+                  <View className="flex-row gap-4">
+                    {!root.resolvedAt && (
+                      <TouchableOpacity
+                        onPress={() => {
+                          setEditing(null);
+                          setReplyTo(root);
+                        }}
+                      >
+                        <Text className="text-xs text-primary font-semibold">{t('comments.reply')}</Text>
+                      </TouchableOpacity>
+                    )}
+                    <TouchableOpacity onPress={() => handleToggleResolved(root)}>
+                      <Text className="text-xs text-primary font-semibold">
+                        {root.resolvedAt ? t('comments.reopen') : t('comments.resolve')}
+                      </Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
+              </View>
+            ))}
+          </ScrollView>
+
+          {/* Composer */}
+          <View className="p-6 border-t border-border gap-3">
+            {canComment ? (
+              <>
+                {(replyTo || editing) && (
+                  <View className="flex-row justify-between items-center">
+                    <Text className="text-xs text-muted">
+                      {editing
+                        ? t('comments.editing')
+                        : t('comments.replying_to', { name: replyTo ? authorLabel(replyTo) : '' })}
+                    </Text>
+                    <TouchableOpacity
+                      onPress={() => {
+                        setReplyTo(null);
+                        setEditing(null);
+                        setDraft('');
+                      }}
+                    >
+                      <Text className="text-xs text-muted font-medium">{t('common.cancel')}</Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
+                {suggestions.length > 0 && (
+                  <View className="flex-row flex-wrap gap-2">
+                    {suggestions.map((user) => (
+                      <TouchableOpacity
+                        key={user.userId}
+                        onPress={() => insertMention(user)}
+                        className="bg-surface border border-border rounded-full px-3 py-1"
+                      >
+                        <Text className="text-xs text-foreground">@{mentionHandle(user)}</Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                )}
+                <TextInput
+                  value={draft}
+                  onChangeText={setDraft}
+                  placeholder={t('comments.placeholder')}
+                  placeholderTextColor="#9CA3AF"
+                  multiline
+                  className="bg-surface border border-border rounded-xl px-4 py-3 text-foreground min-h-[64px]"
+                />
+                <TouchableOpacity
+                  onPress={handleSend}
+                  disabled={sending || !draft.trim()}
+                  className={`bg-primary rounded-xl py-3 items-center active:opacity-80 ${sending || !draft.trim() ? 'opacity-50' : ''}`}
+                >
+                  <Text className="text-background font-semibold text-base">
+                    {sending ? t('common.loading') : editing ? t('common.save') : t('comments.send')}
+                  </Text>
+                </TouchableOpacity>
+              </>
+            ) : (
+              <Text className="text-xs text-muted text-center">{t('comments.read_only')}</Text>
+            )}
+            <TouchableOpacity onPress={onClose} className="py-2 items-center">
+              <Text className="text-muted font-medium">{t('common.close')}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
@@ -4,78 +4,87 @@ import { useTranslation } from '@/lib/i18n-context';
 import { useColors } from '@/hooks/use-colors';
 import {
   calculateMultiVariableSensitivity,
+  calculateTwoVariableSensitivity,
   formatSensitivityValue,
-  getVariableNameES,
+  getMetricFormat,
+  getSensitivityVariables,
+  isHigherBetter,
+  DEFAULT_VARIATIONS,
+  type SensitivityMetric,
   type SensitivityVariable,
-  type SensitivityResult,
 } from '@/lib/sensitivity-calculator';
 import type { ProjectData } from '@/types/project';
 
 interface SensitivityMatrixProps {
   project: ProjectData;
-  metric: 'npv' | 'roi';
+  metric: SensitivityMetric;
 }
 
+interface TwoVariableSensitivityGridProps {
+  project: ProjectData;
+  metric: SensitivityMetric;
+  rowVariable: SensitivityVariable;
+  columnVariable: SensitivityVariable;
+}
+
+/**
+ * Classify a value against the base case.
+ * Percentage metrics compare in points (±5), everything else relative (±10%).
+ */
+function getTone(value: number, baseValue: number, metric: SensitivityMetric): 'positive' | 'neutral' | 'negative' {
+  if (!Number.isFinite(value)) return 'neutral';
+
+  const change = getMetricFormat(metric) === 'percentage'
+    ? value - baseValue
+    : ((value - baseValue) / Math.abs(baseValue || 1)) * 100;
+  const threshold = getMetricFormat(metric) === 'percentage' ? 5 : 10;
+  const directed = isHigherBetter(metric) ? change : -change;
+
+  if (directed > threshold) return 'positive';
+  if (directed < -threshold) return 'negative';
+  return 'neutral';
+}
+
+const TONE_COLORS = {
+  positive: '#22C55E',
+  neutral: '#F59E0B',
+  negative: '#EF4444',
+};
+
 export function SensitivityMatrix({ project, metric }: SensitivityMatrixProps) {
-  const { t, language } = useTranslation();
+  const { t } = useTranslation();
   const colors = useColors();
 
-  const variations = [-30, -20, -10, 0, 10, 20, 30];
-  const results = calculateMultiVariableSensitivity(project, variations);
-
-  const variables: SensitivityVariable[] = [
-    'initialInvestment',
-    'yearlyRevenue',
-    'operatingCosts',
-    'maintenanceCosts',
-  ];
+  const variations = DEFAULT_VARIATIONS;
+  const results = calculateMultiVariableSensitivity(project, variations, metric);
+  const variables = getSensitivityVariables(project, metric);
+  const format = getMetricFormat(metric);
 
   const getVariableLabel = (variable: SensitivityVariable): string => {
     return t(`sensitivity.${variable}`);
   };
 
-  const getValue = (result: SensitivityResult): number => {
-    return metric === 'npv' ? result.npv : result.roi;
-  };
-
   const getBaseValue = (): number => {
-    const baseResult = results.initialInvestment.find((r) => r.variation === 0);
-    return baseResult ? getValue(baseResult) : 0;
+    const baseResult = variables.length > 0
+      ? results[variables[0]]?.find((r) => r.variation === 0)
+      : undefined;
+    return baseResult ? baseResult.value : 0;
   };
 
   const baseValue = getBaseValue();
 
   const getCellColor = (value: number): string => {
-    if (metric === 'npv') {
-      const change = ((value - baseValue) / Math.abs(baseValue)) * 100;
-      if (change > 10) return '#22C55E20'; // Green with opacity
-      if (change < -10) return '#EF444420'; // Red with opacity
-      return '#F59E0B20'; // Yellow with opacity
-    } else {
-      // ROI
-      if (value > baseValue + 5) return '#22C55E20';
-      if (value < baseValue - 5) return '#EF444420';
-      return '#F59E0B20';
-    }
+    return `${TONE_COLORS[getTone(value, baseValue, metric)]}20`; // With opacity
   };
 
   const getTextColor = (value: number): string => {
-    if (metric === 'npv') {
-      const change = ((value - baseValue) / Math.abs(baseValue)) * 100;
-      if (change > 10) return '#22C55E';
-      if (change < -10) return '#EF4444';
-      return '#F59E0B';
-    } else {
-      if (value > baseValue + 5) return '#22C55E';
-      if (value < baseValue - 5) return '#EF4444';
-      return '#F59E0B';
-    }
+    return TONE_COLORS[getTone(value, baseValue, metric)];
   };
 
   return (
     <View className="bg-surface rounded-xl border border-border p-4">
       <Text className="text-lg font-bold text-foreground mb-4">
-        {t('sensitivity.matrix_title')} - {metric === 'npv' ? t('results.npv') : t('results.roi')}
+        {t('sensitivity.matrix_title')} - {t(`sensitivity.metric_${metric}`)}
       </Text>
 
       <ScrollView horizontal showsHorizontalScrollIndicator={false}>
@@ -111,8 +120,8 @@ export function SensitivityMatrix({ project, metric }: SensitivityMatrixProps) {
                   {getVariableLabel(variable)}
                 </Text>
               </View>
-              {results[variable].map((result) => {
-                const value = getValue(result);
+              {(results[variable] || []).map((result) => {
+                const value = result.value;
                 const isBase = result.variation === 0;
                 const bgColor = getCellColor(value);
                 const textColor = getTextColor(value);
@@ -131,10 +140,7 @@ export function SensitivityMatrix({ project, metric }: SensitivityMatrixProps) {
                       className="text-xs font-semibold"
                       style={{ color: isBase ? colors.primary : textColor }}
                     >
-                      {formatSensitivityValue(
-                        value,
-                        metric === 'npv' ? 'currency' : 'percentage'
-                      )}
+                      {formatSensitivityValue(value, format, project.currency)}
                     </Text>
                   </View>
                 );
@@ -162,3 +168,85 @@ export function SensitivityMatrix({ project, metric }: SensitivityMatrixProps) {
     </View>
   );
 }
+
+export function TwoVariableSensitivityGrid({
+  project,
+  metric,
+  rowVariable,
+  columnVariable,
+}: TwoVariableSensitivityGridProps) {
+  const { t } = useTranslation();
+  const colors = useColors();
+
+  const grid = calculateTwoVariableSensitivity(project, rowVariable, columnVariable, metric);
+  const format = getMetricFormat(metric);
+
+  const formatVariation = (variation: number): string => `${variation > 0 ? '+' : ''}${variation}%`;
+
+  return (
+    <View className="bg-surface rounded-xl border border-border p-4">
+      <Text className="text-lg font-bold text-foreground mb-1">
+        {t('sensitivity.grid_title')} - {t(`sensitivity.metric_${metric}`)}
+      </Text>
+      <Text className="text-xs text-muted mb-4">
+        {t('sensitivity.grid_description', {
+          row: t(`sensitivity.${rowVariable}`),
+          column: t(`sensitivity.${columnVariable}`),
+        })}
+      </Text>
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        <View>
+          {/* Header Row */}
+          <View className="flex-row mb-2">
+            <View className="w-20 justify-center pr-2">
+              <Text className="text-xs font-semibold text-muted">↓ / →</Text>
+            </View>
+            {grid.variations.map((variation) => (
+              <View key={variation} className="w-20 items-center justify-center px-1">
+                <Text className={`text-xs font-semibold ${variation === 0 ? 'text-primary' : 'text-muted'}`}>
+                  {formatVariation(variation)}
+                </Text>
+              </View>
+            ))}
+          </View>
+
+          {/* Data Rows */}
+          {grid.values.map((row, rowIndex) => (
+            <View key={grid.variations[rowIndex]} className="flex-row mb-2">
+              <View className="w-20 justify-center pr-2">
+                <Text
+                  className={`text-xs font-semibold ${grid.variations[rowIndex] === 0 ? 'text-primary' : 'text-muted'}`}
+                >
+                  {formatVariation(grid.variations[rowIndex])}
+                </Text>
+              </View>
+              {row.map((value, columnIndex) => {
+                const isBase = grid.variations[rowIndex] === 0 && grid.variations[columnIndex] === 0;
+                const tone = getTone(value, grid.baseValue, metric);
+
+                return (
+                  <View
+                    key={grid.variations[columnIndex]}
+                    className={`w-20 items-center justify-center px-1 py-2 rounded ${isBase ? 'border-2' : 'border'}`}
+                    style={{
+                      backgroundColor: `${TONE_COLORS[tone]}20`,
+                      borderColor: isBase ? colors.primary : colors.border,
+                    }}
+                  >
+                    <Text
+                      className="text-xs font-semibold"
+                      style={{ color: isBase ? colors.primary : TONE_COLORS[tone] }}
+                    >
+                      {formatSensitivityValue(value, format, project.currency)}
+                    </Text>
+                  </View>
+                );
+              })}
+            </View>
+          ))}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
@@ -1,8 +1,10 @@
-import React, { useState } from 'react';
+import React, { useCallback, useState } from 'react';
 import {
   View,
   Text,
   Modal,
+  ScrollView,
+  TextInput,
   TouchableOpacity,
   Alert,
   Platform,
@@ -13,8 +15,11 @@ import * as Haptics from 'expo-haptics';
 
 import { useTranslation } from '@/lib/i18n-context';
 import { useColors } from '@/hooks/use-colors';
-import { generateShareableLink, getShareMessage } from '@/lib/share-links';
-import type { ProjectData } from '@/types/project';
+import { OptionChips } from '@/components/business/option-chips';
+import { buildShareUrl, getShareMessage } from '@/lib/share-links';
+import { createShareLink, getShareLinks, revokeShareLink } from '@/lib/api/projects';
+import { confirmAction } from '@/lib/platform-utils';
+import type { ProjectData, ShareLink, ShareScope } from '@/types/project';
 
 interface ShareModalProps {
   visible: boolean;
@@ -22,26 +27,75 @@ interface ShareModalProps {
   onClose: () => void;
 }
 
+type Expiry = 'never' | '7' | '30' | '90';
+
+function linkStatus(link: ShareLink): 'active' | 'revoked' | 'expired' {
+  if (link.revokedAt) return 'revoked';
+  if (link.expiresAt && new Date(link.expiresAt).getTime() <= Date.now()) return 'expired';
+  return 'active';
+}
+
 export function ShareModal({ visible, project, onClose }: ShareModalProps) {
   const { t, language } = useTranslation();
   const colors = useColors();
+  const [scope, setScope] = useState<ShareScope>('summary');
+  const [expiry, setExpiry] = useState<Expiry>('30');
+  const [password, setPassword] = useState('');
   const [shareLink, setShareLink] = useState<string>('');
-  const [linkGenerated, setLinkGenerated] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const linkGenerated = !!shareLink;
+
+  const loadLinks = useCallback(async () => {
+    setLinks(await getShareLinks(project.id));
+  }, [project.id]);
 
   React.useEffect(() => {
-    if (visible && !linkGenerated) {
-      generateLink();
+    if (visible) {
+      loadLinks();
+    } else {
+      setShareLink('');
+      setPassword('');
     }
-  }, [visible]);
+  }, [visible, loadLinks]);
 
-  const generateLink = () => {
+  const generateLink = async () => {
     try {
-      const link = generateShareableLink(project);
-      setShareLink(link);
-      setLinkGenerated(true);
+      setCreating(true);
+      const link = await createShareLink(project.id, {
+        scope,
+        password: password || undefined,
+        expiresInDays: expiry === 'never' ? undefined : Number(expiry),
+      });
+      setShareLink(buildShareUrl(link.token));
+      setLinks((current) => [link, ...current]);
     } catch (error) {
       console.error('Error generating link:', error);
       Alert.alert(t('validations.error'), t('share.generate_error'));
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (link: ShareLink) => {
+    const confirmed = await confirmAction(
+      t('share.revoke_title'),
+      t('share.revoke_message'),
+      t('share.revoke'),
+      t('common.cancel'),
+      true
+    );
+    if (!confirmed) return;
+
+    try {
+      await revokeShareLink(link.id);
+      if (shareLink === buildShareUrl(link.token)) {
+        setShareLink('');
+      }
+      await loadLinks();
+    } catch (error) {
+      console.error('Error revoking link:', error);
+      Alert.alert(t('validations.error'), t('share.revoke_error'));
     }
   };
 
@@ -120,20 +174,69 @@ export function ShareModal({ visible, project, onClose }: ShareModalProps) {
           </View>
 
           {/* Content */}
-          <View className="p-6 gap-4">
-            {/* Link Preview */}
-            <View className="bg-surface rounded-xl p-4">
-              <Text className="text-xs text-muted mb-2">{t('share.shareable_link')}</Text>
-              <Text className="text-sm text-foreground" numberOfLines={2}>
-                {shareLink || t('common.loading')}
-              </Text>
+          <ScrollView className="max-h-[480px]" contentContainerStyle={{ padding: 24, gap: 16 }}>
+            {/* Link Options */}
+            <View>
+              <Text className="text-xs text-muted mb-2">{t('share.scope_label')}</Text>
+              <OptionChips
+                options={[
+                  { value: 'summary' as ShareScope, label: t('share.scope_summary') },
+                  { value: 'full' as ShareScope, label: t('share.scope_full') },
+                ]}
+                value={scope}
+                onChange={setScope}
+              />
             </View>
+            <View>
+              <Text className="text-xs text-muted mb-2">{t('share.expiry_label')}</Text>
+              <OptionChips
+                options={(['never', '7', '30', '90'] as Expiry[]).map((value) => ({
+                  value,
+                  label: value === 'never' ? t('share.expiry_never') : t('share.expiry_days', { days: value }),
+                }))}
+                value={expiry}
+                onChange={setExpiry}
+              />
+            </View>
+            <TextInput
+              value={password}
+              onChangeText={setPassword}
+              placeholder={t('share.password_optional')}
+              placeholderTextColor="#9CA3AF"
+              secureTextEntry
+              autoCapitalize="none"
+              className="bg-surface border border-border rounded-xl px-4 py-3 text-foreground"
+            />
+            {password.length > 0 && password.length < 4 && (
+              <Text className="text-xs text-error">{t('share.password_too_short')}</Text>
+            )}
+
+            {/* Create Link Button */}
+            <TouchableOpacity
+              onPress={generateLink}
+              disabled={creating || (password.length > 0 && password.length < 4)}
+              className="bg-surface border border-border rounded-xl py-4 items-center active:opacity-70"
+            >
+              <Text className="text-foreground font-semibold text-base">
+                {creating ? t('common.loading') : t('share.create_link')}
+              </Text>
+            </TouchableOpacity>
+
+            {/* Link Preview */}
+            {linkGenerated && (
+              <View className="bg-surface rounded-xl p-4">
+                <Text className="text-xs text-muted mb-2">{t('share.shareable_link')}</Text>
+                <Text className="text-sm text-foreground" numberOfLines={2}>
+                  {shareLink}
+                </Text>
+              </View>
+            )}
 
             {/* Copy Link Button */}
             <TouchableOpacity
               onPress={handleCopyLink}
               disabled={!linkGenerated}
-              className="bg-surface border border-border rounded-xl py-4 items-center active:opacity-70"
+              className={`bg-surface border border-border rounded-xl py-4 items-center active:opacity-70 ${linkGenerated ? '' : 'opacity-50'}`}
             >
               <Text className="text-foreground font-semibold text-base">
                 {t('share.copy_link')}
@@ -144,13 +247,46 @@ export function ShareModal({ visible, project, onClose }: ShareModalProps) {
             <TouchableOpacity
               onPress={handleShare}
               disabled={!linkGenerated}
-              className="bg-primary rounded-xl py-4 items-center active:opacity-80"
+              className={`bg-primary rounded-xl py-4 items-center active:opacity-80 ${linkGenerated ? '' : 'opacity-50'}`}
             >
               <Text className="text-background font-semibold text-base">
                 📤 {t('share.share_via')}
               </Text>
             </TouchableOpacity>
-          </View>
+
+            {/* Existing Links */}
+            {links.length > 0 && (
+              <View className="gap-2">
+                <Text className="text-sm font-semibold text-foreground">{t('share.active_links')}</Text>
+                {links.map((link) => {
+                  const status = linkStatus(link);
+                  return (
+                    <View key={link.id} className="bg-surface rounded-xl p-3 flex-row items-center justify-between">
+                      <View className="flex-1 mr-3">
+                        <Text className="text-sm text-foreground" numberOfLines={1}>
+                          {link.scope === 'full' ? t('share.scope_full') : t('share.scope_summary')}
+                          {link.hasPassword ? ' 🔒' : ''}
+                        </Text>
+                        <Text className="text-xs text-muted">
+                          {t(`share.status_${status}`)} · {t('share.views', { count: String(link.viewCount) })}
+                          {link.expiresAt && status === 'active'
+                            ? ` · ${t('share.expires_on', { date: new Date(link.expiresAt).toLocaleDateString() })}`
+                            : ''}
+                        </Text>
+                      </View>
+                      {status === 'active' && (
+                        <TouchableOpacity onPress={() => handleRevoke(link)} className="px-3 py-2 active:opacity-70">
+                          <Text className="text-sm font-semibold" style={{ color: colors.error }}>
+                            {t('share.revoke')}
+                          </Text>
+                        </TouchableOpacity>
+                      )}
+                    </View>
+                  );
+                })}
+              </View>
+            )}
+          </ScrollView>
 
           {/* Footer */}
           <View className="p-4 border-t border-border">
@@ -0,0 +1,104 @@
+import React from 'react';
+import { View, Text, ScrollView, Dimensions } from 'react-native';
+import { LineChart } from 'react-native-chart-kit';
+import { useTranslation } from '@/lib/i18n-context';
+import { useColors } from '@/hooks/use-colors';
+import {
+  generateSpiderChartData,
+  DEFAULT_VARIATIONS,
+  type SensitivityMetric,
+} from '@/lib/sensitivity-calculator';
+import type { ProjectData } from '@/types/project';
+
+interface SpiderChartProps {
+  project: ProjectData;
+  metric: SensitivityMetric;
+}
+
+const SERIES_COLORS = [
+  '#0a7ea4',
+  '#22C55E',
+  '#F59E0B',
+  '#EF4444',
+  '#8B5CF6',
+  '#EC4899',
+  '#14B8A6',
+  '#64748B',
+];
+
+/**
+ * Spider chart: one line per variable showing the metric across the variation range.
+ * Steeper lines mean the metric is more sensitive to that variable.
+ */
+export function SpiderChart({ project, metric }: SpiderChartProps) {
+  const { t } = useTranslation();
+  const colors = useColors();
+  const screenWidth = Dimensions.get('window').width;
+
+  // Drop series that cannot be evaluated (e.g. invalid inputs at some variations)
+  const series = generateSpiderChartData(project, metric).filter((s) =>
+    s.points.every((p) => Number.isFinite(p.value))
+  );
+
+  if (series.length === 0) return null;
+
+  const labels = DEFAULT_VARIATIONS.map((v) => `${v > 0 ? '+' : ''}${v}%`);
+
+  return (
+    <View className="bg-surface/80 glass dark:glass-dark rounded-xl border border-border p-4">
+      <Text className="text-lg font-bold text-foreground mb-2 font-heading-medium">
+        {t('sensitivity.spider_title')}
+      </Text>
+      <Text className="text-xs text-muted mb-4 font-body">
+        {t('sensitivity.spider_description', { metric: t(`sensitivity.metric_${metric}`) })}
+      </Text>
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        <LineChart
+          data={{
+            labels,
+            datasets: series.map((s, index) => ({
+              data: s.points.map((p) => p.value),
+              color: () => SERIES_COLORS[index % SERIES_COLORS.length],
+              strokeWidth: 2,
+            })),
+          }}
+          width={Math.max(screenWidth - 64, labels.length * 48)}
+          height={220}
+          chartConfig={{
+            backgroundColor: colors.surface,
+            backgroundGradientFrom: colors.surface,
+            backgroundGradientTo: colors.surface,
+            decimalPlaces: 0,
+            color: (opacity = 1) => colors.foreground + Math.round(opacity * 255).toString(16).padStart(2, '0'),
+            labelColor: (opacity = 1) => colors.muted + Math.round(opacity * 255).toString(16).padStart(2, '0'),
+            propsForDots: {
+              r: '3',
+            },
+            propsForBackgroundLines: {
+              strokeDasharray: '',
+              stroke: colors.border,
+              strokeWidth: 1,
+            },
+          }}
+          style={{ borderRadius: 16 }}
+          withVerticalLines={false}
+          withShadow={false}
+        />
+      </ScrollView>
+
+      {/* Legend */}
+      <View className="flex-row flex-wrap gap-3 mt-4 pt-4 border-t border-border">
+        {series.map((s, index) => (
+          <View key={s.variable} className="flex-row items-center gap-2">
+            <View
+              className="w-4 h-1 rounded"
+              style={{ backgroundColor: SERIES_COLORS[index % SERIES_COLORS.length] }}
+            />
+            <Text className="text-xs text-muted">{t(`sensitivity.${s.variable}`)}</Text>
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+}
@@ -4,24 +4,33 @@ import { useTranslation } from '@/lib/i18n-context';
 import { useColors } from '@/hooks/use-colors';
 import {
   generateTornadoChartData,
+  calculateBreakevenThresholds,
   formatSensitivityValue,
-  getVariableNameES,
+  getMetricFormat,
+  getVariableFormat,
+  type SensitivityMetric,
   type TornadoChartData,
 } from '@/lib/sensitivity-calculator';
 import type { ProjectData } from '@/types/project';
 
 interface TornadoChartProps {
   project: ProjectData;
+  metric?: SensitivityMetric;
 }
 
-export function TornadoChart({ project }: TornadoChartProps) {
-  const { t, language } = useTranslation();
+export function TornadoChart({ project, metric = 'npv' }: TornadoChartProps) {
+  const { t } = useTranslation();
   const colors = useColors();
 
-  const data = generateTornadoChartData(project);
+  const data = generateTornadoChartData(project, metric);
+  const format = getMetricFormat(metric);
+
+  // Breakeven thresholds only apply to NPV
+  const thresholds = metric === 'npv' ? calculateBreakevenThresholds(project) : [];
 
   // Find max absolute value for scaling
   const maxAbsValue = Math.max(
+    0,
     ...data.map((d) => Math.max(Math.abs(d.negativeImpact), Math.abs(d.positiveImpact)))
   );
 
@@ -30,6 +39,7 @@ export function TornadoChart({ project }: TornadoChartProps) {
   };
 
   const getBarWidth = (value: number): number => {
+    if (maxAbsValue === 0) return 0;
     return (Math.abs(value) / maxAbsValue) * 70;
   };
 
@@ -46,7 +56,7 @@ export function TornadoChart({ project }: TornadoChartProps) {
         {t('sensitivity.tornado_title')}
       </Text>
       <Text className="text-xs text-muted mb-4 font-body">
-        {t('sensitivity.tornado_description')}
+        {t('sensitivity.tornado_description', { metric: t(`sensitivity.metric_${metric}`) })}
       </Text>
 
       <View className="gap-4">
@@ -54,6 +64,7 @@ export function TornadoChart({ project }: TornadoChartProps) {
           const negativeWidth = getBarWidth(item.negativeImpact);
           const positiveWidth = getBarWidth(item.positiveImpact);
           const barColor = variableColors[index % variableColors.length];
+          const threshold = thresholds.find((th) => th.variable === item.variable);
 
           return (
             <View key={item.variable}>
@@ -67,7 +78,7 @@ export function TornadoChart({ project }: TornadoChartProps) {
                 {/* Negative Side (Left) */}
                 <View className="flex-1 flex-row justify-end items-center pr-2">
                   <Text className="text-xs text-muted mr-2">
-                    {formatSensitivityValue(item.negativeImpact, 'currency')}
+                    {formatSensitivityValue(item.negativeImpact, format, project.currency)}
                   </Text>
                   <View
                     className="h-8 rounded-l"
@@ -91,15 +102,27 @@ export function TornadoChart({ project }: TornadoChartProps) {
                     }}
                   />
                   <Text className="text-xs text-muted ml-2">
-                    {formatSensitivityValue(item.positiveImpact, 'currency')}
+                    {formatSensitivityValue(item.positiveImpact, format, project.currency)}
                   </Text>
                 </View>
               </View>
 
               {/* Range Label */}
               <Text className="text-xs text-muted text-center mt-1">
-                {t('sensitivity.range')}: {formatSensitivityValue(item.range, 'currency')}
+                {t('sensitivity.range')}: {formatSensitivityValue(item.range, format, project.currency)}
               </Text>
+
+              {/* NPV Breakeven Threshold */}
+              {threshold && (
+                <Text className="text-xs text-muted text-center">
+                  {threshold.threshold !== null
+                    ? t('sensitivity.breakeven_at', {
+                      value: formatSensitivityValue(threshold.threshold, getVariableFormat(item.variable), project.currency),
+                      change: `${(threshold.changePercent ?? 0) > 0 ? '+' : ''}${threshold.changePercent ?? 0}%`,
+                    })
+                    : t('sensitivity.breakeven_none')}
+                </Text>
+              )}
             </View>
           );
         })}
@@ -118,7 +141,7 @@ export function TornadoChart({ project }: TornadoChartProps) {
           </View>
         </View>
         <Text className="text-xs text-muted text-center mt-2">
-          {t('sensitivity.variation_note')}
+          {t('sensitivity.variation_note', { metric: t(`sensitivity.metric_${metric}`) })}
         </Text>
       </View>
     </View>
@@ -25,7 +25,9 @@ const MAPPING = {
   "tag": "sell",
   "creditcard": "credit-card",
   "person.2": "group",
+  "person.3": "groups",
   "megaphone": "campaign",
+  "building.columns": "account-balance",
   "folder.badge.plus": "create-new-folder",
   "folder.fill": "folder",
   "checkmark.circle.fill": "check-circle",
@@ -0,0 +1,3 @@
+ALTER TABLE `projects` MODIFY COLUMN `best_case_multiplier` decimal(10,4) NOT NULL;--> statement-breakpoint
+ALTER TABLE `projects` MODIFY COLUMN `worst_case_multiplier` decimal(10,4) NOT NULL;--> statement-breakpoint
+ALTER TABLE `projects` ADD `monte_carlo_config` json;
\ No newline at end of file
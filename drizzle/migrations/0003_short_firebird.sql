@@ -0,0 +1,42 @@
+CREATE TABLE `capex_tranches` (
+	`id` varchar(36) NOT NULL,
+	`project_id` varchar(36) NOT NULL,
+	`name` varchar(255) NOT NULL,
+	`amount` decimal(15,2) NOT NULL,
+	`month` int NOT NULL DEFAULT 0,
+	`sort_order` int NOT NULL DEFAULT 0,
+	`created_at` timestamp DEFAULT (now()),
+	CONSTRAINT `capex_tranches_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `cost_lines` (
+	`id` varchar(36) NOT NULL,
+	`project_id` varchar(36) NOT NULL,
+	`name` varchar(255) NOT NULL,
+	`amount` decimal(15,2) NOT NULL,
+	`start_month` int NOT NULL DEFAULT 1,
+	`end_month` int,
+	`growth_rate` decimal(10,4) NOT NULL DEFAULT '0',
+	`behavior` varchar(20) NOT NULL DEFAULT 'fixed',
+	`sort_order` int NOT NULL DEFAULT 0,
+	`created_at` timestamp DEFAULT (now()),
+	CONSTRAINT `cost_lines_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `revenue_streams` (
+	`id` varchar(36) NOT NULL,
+	`project_id` varchar(36) NOT NULL,
+	`name` varchar(255) NOT NULL,
+	`monthly_amount` decimal(15,2) NOT NULL,
+	`start_month` int NOT NULL DEFAULT 1,
+	`end_month` int,
+	`growth_rate` decimal(10,4) NOT NULL DEFAULT '0',
+	`behavior` varchar(20) NOT NULL DEFAULT 'variable',
+	`sort_order` int NOT NULL DEFAULT 0,
+	`created_at` timestamp DEFAULT (now()),
+	CONSTRAINT `revenue_streams_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `project_id_idx` ON `capex_tranches` (`project_id`);--> statement-breakpoint
+CREATE INDEX `project_id_idx` ON `cost_lines` (`project_id`);--> statement-breakpoint
+CREATE INDEX `project_id_idx` ON `revenue_streams` (`project_id`);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `projects` ADD `fiscal_assumptions` json;
\ No newline at end of file
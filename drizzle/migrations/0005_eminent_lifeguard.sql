@@ -0,0 +1,2 @@
+ALTER TABLE `projects` ADD `finance_rate` decimal(10,4);--> statement-breakpoint
+ALTER TABLE `projects` ADD `reinvestment_rate` decimal(10,4);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `projects` ADD `currency` varchar(3) DEFAULT 'USD' NOT NULL;
\ No newline at end of file
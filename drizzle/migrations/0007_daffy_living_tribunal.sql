@@ -0,0 +1,2 @@
+ALTER TABLE `projects` ADD `inflation` json;--> statement-breakpoint
+ALTER TABLE `projects` ADD `valuation_basis` varchar(10);
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE `project_versions` (
+	`id` varchar(36) NOT NULL,
+	`project_id` varchar(36) NOT NULL,
+	`version` int NOT NULL,
+	`author_id` int NOT NULL,
+	`author_name` varchar(255),
+	`restored_from_version` int,
+	`snapshot` json NOT NULL,
+	`created_at` timestamp DEFAULT (now()),
+	CONSTRAINT `project_versions_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `project_version_idx` ON `project_versions` (`project_id`,`version`);
\ No newline at end of file
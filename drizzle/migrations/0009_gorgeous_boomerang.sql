@@ -0,0 +1,2 @@
+ALTER TABLE `projects` ADD `calculator_version` varchar(20);--> statement-breakpoint
+CREATE INDEX `calculator_version_idx` ON `projects` (`calculator_version`);
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE `project_actuals` (
+	`id` varchar(36) NOT NULL,
+	`project_id` varchar(36) NOT NULL,
+	`month` int NOT NULL,
+	`revenue` decimal(15,2) NOT NULL DEFAULT '0',
+	`operating_costs` decimal(15,2) NOT NULL DEFAULT '0',
+	`maintenance_costs` decimal(15,2) NOT NULL DEFAULT '0',
+	`capex` decimal(15,2) NOT NULL DEFAULT '0',
+	`created_at` timestamp DEFAULT (now()),
+	`updated_at` timestamp DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `project_actuals_id` PRIMARY KEY(`id`),
+	CONSTRAINT `project_actual_month_idx` UNIQUE(`project_id`,`month`)
+);
@@ -0,0 +1,17 @@
+CREATE TABLE `share_links` (
+	`id` varchar(36) NOT NULL,
+	`token` varchar(32) NOT NULL,
+	`project_id` varchar(36) NOT NULL,
+	`created_by` int NOT NULL,
+	`scope` varchar(16) NOT NULL DEFAULT 'summary',
+	`password_hash` varchar(255),
+	`expires_at` timestamp,
+	`revoked_at` timestamp,
+	`view_count` int NOT NULL DEFAULT 0,
+	`last_viewed_at` timestamp,
+	`created_at` timestamp DEFAULT (now()),
+	CONSTRAINT `share_links_id` PRIMARY KEY(`id`),
+	CONSTRAINT `share_link_token_idx` UNIQUE(`token`)
+);
+--> statement-breakpoint
+CREATE INDEX `share_link_project_idx` ON `share_links` (`project_id`);
\ No newline at end of file
@@ -0,0 +1,38 @@
+CREATE TABLE `workspace_invitations` (
+	`id` varchar(36) NOT NULL,
+	`workspace_id` varchar(36) NOT NULL,
+	`token` varchar(32) NOT NULL,
+	`role` varchar(16) NOT NULL,
+	`invited_by` int NOT NULL,
+	`expires_at` timestamp NOT NULL,
+	`accepted_by` int,
+	`accepted_at` timestamp,
+	`revoked_at` timestamp,
+	`created_at` timestamp DEFAULT (now()),
+	CONSTRAINT `workspace_invitations_id` PRIMARY KEY(`id`),
+	CONSTRAINT `workspace_invitation_token_idx` UNIQUE(`token`)
+);
+--> statement-breakpoint
+CREATE TABLE `workspace_members` (
+	`id` varchar(36) NOT NULL,
+	`workspace_id` varchar(36) NOT NULL,
+	`user_id` int NOT NULL,
+	`role` varchar(16) NOT NULL,
+	`created_at` timestamp DEFAULT (now()),
+	CONSTRAINT `workspace_members_id` PRIMARY KEY(`id`),
+	CONSTRAINT `workspace_member_user_idx` UNIQUE(`workspace_id`,`user_id`)
+);
+--> statement-breakpoint
+CREATE TABLE `workspaces` (
+	`id` varchar(36) NOT NULL,
+	`name` varchar(255) NOT NULL,
+	`created_by` int NOT NULL,
+	`created_at` timestamp DEFAULT (now()),
+	`updated_at` timestamp DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `workspaces_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `projects` ADD `workspace_id` varchar(36);--> statement-breakpoint
+CREATE INDEX `workspace_invitation_workspace_idx` ON `workspace_invitations` (`workspace_id`);--> statement-breakpoint
+CREATE INDEX `workspace_member_user_id_idx` ON `workspace_members` (`user_id`);--> statement-breakpoint
+CREATE INDEX `workspace_id_idx` ON `projects` (`workspace_id`);
\ No newline at end of file
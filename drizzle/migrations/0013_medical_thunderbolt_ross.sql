@@ -0,0 +1,17 @@
+CREATE TABLE `project_comments` (
+	`id` varchar(36) NOT NULL,
+	`project_id` varchar(36) NOT NULL,
+	`parent_id` varchar(36),
+	`anchor_type` varchar(16) NOT NULL DEFAULT 'project',
+	`anchor_key` varchar(64),
+	`author_id` int NOT NULL,
+	`body` text NOT NULL,
+	`mentions` json,
+	`resolved_at` timestamp,
+	`resolved_by` int,
+	`created_at` timestamp DEFAULT (now()),
+	`updated_at` timestamp DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `project_comments_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `project_comment_project_idx` ON `project_comments` (`project_id`);
\ No newline at end of file
@@ -0,0 +1,2 @@
+DROP INDEX `project_version_idx` ON `project_versions`;--> statement-breakpoint
+ALTER TABLE `project_versions` ADD CONSTRAINT `project_version_idx` UNIQUE(`project_id`,`version`);
\ No newline at end of file
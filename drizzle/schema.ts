@@ -1,8 +1,37 @@
 import { int, mysqlEnum, mysqlTable, text, timestamp, varchar } from "drizzle-orm/mysql-core";
 
-// Export projects and scenarios from shared schema
-export { projects, scenarios } from "../shared/db/schema";
-export type { Project, InsertProject, Scenario, InsertScenario, FinancialResults } from "../shared/db/schema";
+// Export projects, scenarios, line items, versions, actuals, share links, workspaces and comments from shared schema
+export {
+  projects,
+  scenarios,
+  revenueStreams,
+  costLines,
+  capexTranches,
+  projectVersions,
+  projectActuals,
+  shareLinks,
+  workspaces,
+  workspaceMembers,
+  workspaceInvitations,
+  projectComments,
+} from "../shared/db/schema";
+export type {
+  Project,
+  InsertProject,
+  Scenario,
+  InsertScenario,
+  FinancialResults,
+  RevenueStreamRow,
+  CostLineRow,
+  CapexTrancheRow,
+  ProjectVersionRow,
+  ProjectActualRow,
+  ShareLinkRow,
+  WorkspaceRow,
+  WorkspaceMemberRow,
+  WorkspaceInvitationRow,
+  ProjectCommentRow,
+} from "../shared/db/schema";
 
 /**
  * Core user table backing auth flow.
@@ -0,0 +1,32 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import type { ProjectComment } from '@/types/project';
+import { getProjectComments } from '@/lib/api/projects';
+import { countOpenThreads } from '@/lib/project-comments';
+import { eventEmitter, Events } from '@/lib/event-emitter';
+
+/**
+ * Hook for a project's comments and the open thread count per anchor.
+ * Reloads whenever a comment on the project is added, edited, resolved or deleted.
+ */
+export function useProjectComments(projectId: string | undefined) {
+  const [comments, setComments] = useState<ProjectComment[]>([]);
+
+  const reload = useCallback(async () => {
+    if (!projectId) return;
+    setComments(await getProjectComments(projectId));
+  }, [projectId]);
+
+  useEffect(() => {
+    reload();
+
+    return eventEmitter.on(Events.COMMENTS_UPDATED, (updatedProjectId: string) => {
+      if (updatedProjectId === projectId) {
+        reload();
+      }
+    });
+  }, [projectId, reload]);
+
+  const openCounts = useMemo(() => countOpenThreads(comments), [comments]);
+
+  return { comments, openCounts, reload };
+}
@@ -0,0 +1,27 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Currency } from '@/lib/domain/value-objects/Money';
+import { getReportingCurrency, setReportingCurrency } from '@/lib/currency-preferences';
+import { eventEmitter, Events } from '@/lib/event-emitter';
+
+/**
+ * Hook for the user's reporting currency.
+ * Stays in sync across screens when the currency is changed in settings.
+ */
+export function useReportingCurrency() {
+  const [currency, setCurrencyState] = useState<Currency>(Currency.USD);
+
+  useEffect(() => {
+    getReportingCurrency().then(setCurrencyState);
+
+    return eventEmitter.on(Events.REPORTING_CURRENCY_CHANGED, (next: Currency) => {
+      setCurrencyState(next);
+    });
+  }, []);
+
+  const setCurrency = useCallback(async (next: Currency) => {
+    setCurrencyState(next);
+    await setReportingCurrency(next);
+  }, []);
+
+  return { currency, setCurrency };
+}
@@ -1,4 +1,5 @@
 import type { ProjectData, FinancialCalculationResult } from '@/types/project';
+import { formatCurrency } from './utils';
 
 interface AIInsightRequest {
   project: ProjectData;
@@ -62,6 +63,8 @@ function buildPrompt(
 ): string {
   const isViable = results.roi > 0 && results.npv > 0;
   const irrVsDiscount = results.irr - project.discountRate;
+  const irrStatus = results.irrDiagnostics?.status;
+  const irrUnreliable = irrStatus !== undefined && irrStatus !== 'converged';
 
   if (language === 'es') {
     return `
@@ -69,14 +72,14 @@ Eres un consultor financiero experto. Analiza este business case y proporciona u
 
 **Datos del Proyecto:**
 - Nombre: ${project.name}
-- Inversión Inicial: $${project.initialInvestment.toLocaleString()}
+- Inversión Inicial: ${formatCurrency(project.initialInvestment, project.currency)}
 - Duración: ${project.projectDuration} meses
 - Tasa de Descuento: ${project.discountRate}%
 
 **Resultados Financieros:**
 - ROI: ${results.roi.toFixed(2)}%
-- VPN: $${results.npv.toLocaleString()}
-- TIR: ${results.irr.toFixed(2)}%
+- VPN: ${formatCurrency(results.npv, project.currency)}
+- TIR: ${results.irr.toFixed(2)}%${irrUnreliable ? ` (no fiable: ${irrStatus}, usa el VPN)` : ''}
 - Período de Recuperación: ${results.paybackPeriod.toFixed(1)} meses
 
 **Análisis Requerido:**
@@ -93,14 +96,14 @@ You are an expert financial consultant. Analyze this business case and provide a
 
 **Project Data:**
 - Name: ${project.name}
-- Initial Investment: $${project.initialInvestment.toLocaleString()}
+- Initial Investment: ${formatCurrency(project.initialInvestment, project.currency)}
 - Duration: ${project.projectDuration} months
 - Discount Rate: ${project.discountRate}%
 
 **Financial Results:**
 - ROI: ${results.roi.toFixed(2)}%
-- NPV: $${results.npv.toLocaleString()}
-- IRR: ${results.irr.toFixed(2)}%
+- NPV: ${formatCurrency(results.npv, project.currency)}
+- IRR: ${results.irr.toFixed(2)}%${irrUnreliable ? ` (unreliable: ${irrStatus}, rely on NPV)` : ''}
 - Payback Period: ${results.paybackPeriod.toFixed(1)} months
 
 **Required Analysis:**
@@ -129,7 +132,7 @@ export function generateFallbackInsight(
     let insight = '';
 
     if (isViable) {
-      insight += `✅ **Proyecto Viable**: El proyecto muestra métricas positivas con un ROI de ${results.roi.toFixed(1)}% y un VPN de ${results.npv.toLocaleString('es-ES', { style: 'currency', currency: 'USD' })}. `;
+      insight += `✅ **Proyecto Viable**: El proyecto muestra métricas positivas con un ROI de ${results.roi.toFixed(1)}% y un VPN de ${results.npv.toLocaleString('es-ES', { style: 'currency', currency: project.currency ?? 'USD' })}. `;
     } else {
       insight += `⚠️ **Proyecto Riesgoso**: El proyecto presenta métricas negativas que requieren atención. `;
     }
@@ -158,7 +161,7 @@ export function generateFallbackInsight(
     let insight = '';
 
     if (isViable) {
-      insight += `✅ **Viable Project**: The project shows positive metrics with an ROI of ${results.roi.toFixed(1)}% and an NPV of ${results.npv.toLocaleString('en-US', { style: 'currency', currency: 'USD' })}. `;
+      insight += `✅ **Viable Project**: The project shows positive metrics with an ROI of ${results.roi.toFixed(1)}% and an NPV of ${results.npv.toLocaleString('en-US', { style: 'currency', currency: project.currency ?? 'USD' })}. `;
     } else {
       insight += `⚠️ **Risky Project**: The project presents negative metrics that require attention. `;
     }
@@ -1,8 +1,27 @@
 import { createTRPCClient, httpBatchLink } from '@trpc/client';
 import superjson from 'superjson';
 import type { AppRouter } from '@/server/routers';
-import type { ProjectData, ScenarioSnapshot } from '@/types/project';
+import type {
+  CommentAnchor,
+  MentionableUser,
+  MonthlyActual,
+  PortfolioConstraints,
+  PortfolioOptimizationReport,
+  ProjectComment,
+  ProjectData,
+  ProjectVersion,
+  ProjectVersionDiff,
+  ScenarioSnapshot,
+  ShareLink,
+  ShareLinkResolution,
+  ShareScope,
+  Workspace,
+  WorkspaceInvitation,
+  WorkspaceMember,
+  WorkspaceRole,
+} from '@/types/project';
 import { eventEmitter, Events } from '@/lib/event-emitter';
+import { Currency } from '@/lib/domain/value-objects/Money';
 import { getApiBaseUrl } from '@/constants/oauth';
 import * as Auth from '@/lib/_core/auth';
 
@@ -76,7 +95,10 @@ export async function saveProject(project: ProjectData): Promise<string> {
       return project.id;
     } else {
       // Create new
-      const { id } = await client.projects.create.mutate(mapProjectDataToDbProject(project));
+      const { id } = await client.projects.create.mutate({
+        ...mapProjectDataToDbProject(project),
+        workspaceId: project.workspaceId,
+      });
       eventEmitter.emit(Events.PROJECT_CREATED, { ...project, id });
       return id;
     }
@@ -151,6 +173,7 @@ export async function saveScenarioSnapshot(
 ): Promise<void> {
   try {
     const client = getVanillaClient();
+    // The server computes the scenario results from the adjustments
     await client.projects.scenarios.create.mutate({
       projectId,
       name: snapshot.name,
@@ -158,7 +181,6 @@ export async function saveScenarioSnapshot(
       costsAdjustment: snapshot.costsAdjustment,
       discountAdjustment: snapshot.discountAdjustment,
       isBase: snapshot.isBase,
-      results: snapshot.results,
     });
     eventEmitter.emit(Events.SNAPSHOT_CREATED, projectId);
   } catch (error) {
@@ -203,6 +225,370 @@ export async function restoreScenarioAsBase(
   throw new Error('Not implemented');
 }
 
+export async function getProjectVersions(projectId: string): Promise<ProjectVersion[]> {
+  try {
+    const client = getVanillaClient();
+    return await client.projects.versions.list.query({ projectId });
+  } catch (error) {
+    console.error('Error fetching project versions:', error);
+    return [];
+  }
+}
+
+export async function compareProjectVersions(
+  projectId: string,
+  fromVersion: number,
+  toVersion: number
+): Promise<ProjectVersionDiff> {
+  try {
+    const client = getVanillaClient();
+    return await client.projects.versions.diff.query({ projectId, fromVersion, toVersion });
+  } catch (error) {
+    console.error('Error comparing project versions:', error);
+    throw error;
+  }
+}
+
+export async function restoreProjectVersion(projectId: string, version: number): Promise<void> {
+  try {
+    const client = getVanillaClient();
+    await client.projects.versions.restore.mutate({ projectId, version });
+    const restored = await getProject(projectId);
+    if (restored) {
+      eventEmitter.emit(Events.PROJECT_UPDATED, restored);
+    }
+  } catch (error) {
+    console.error('Error restoring project version:', error);
+    throw error;
+  }
+}
+
+export async function getProjectActuals(projectId: string): Promise<MonthlyActual[]> {
+  try {
+    const client = getVanillaClient();
+    return await client.projects.actuals.list.query({ projectId });
+  } catch (error) {
+    console.error('Error fetching project actuals:', error);
+    return [];
+  }
+}
+
+/**
+ * Record or correct months of actuals; months already recorded are overwritten
+ */
+export async function saveProjectActuals(projectId: string, actuals: MonthlyActual[]): Promise<void> {
+  try {
+    const client = getVanillaClient();
+    await client.projects.actuals.save.mutate({ projectId, actuals });
+    eventEmitter.emit(Events.ACTUALS_UPDATED, projectId);
+  } catch (error) {
+    console.error('Error saving project actuals:', error);
+    throw error;
+  }
+}
+
+/**
+ * Replace all recorded actuals of a project
+ */
+export async function importProjectActuals(projectId: string, actuals: MonthlyActual[]): Promise<number> {
+  try {
+    const client = getVanillaClient();
+    const { imported } = await client.projects.actuals.import.mutate({ projectId, actuals });
+    eventEmitter.emit(Events.ACTUALS_UPDATED, projectId);
+    return imported;
+  } catch (error) {
+    console.error('Error importing project actuals:', error);
+    throw error;
+  }
+}
+
+export async function deleteProjectActual(projectId: string, month: number): Promise<void> {
+  try {
+    const client = getVanillaClient();
+    await client.projects.actuals.delete.mutate({ projectId, month });
+    eventEmitter.emit(Events.ACTUALS_UPDATED, projectId);
+  } catch (error) {
+    console.error('Error deleting project actual:', error);
+    throw error;
+  }
+}
+
+/**
+ * Optimal set of saved projects to fund within a budget, computed on the server
+ */
+export async function optimizePortfolio(
+  budget: number,
+  constraints: PortfolioConstraints,
+  currency: Currency
+): Promise<PortfolioOptimizationReport> {
+  try {
+    const client = getVanillaClient();
+    return await client.portfolio.optimize.query({ budget, constraints, currency });
+  } catch (error) {
+    console.error('Error optimizing portfolio:', error);
+    throw error;
+  }
+}
+
+/**
+ * Issue a read-only share link for a project
+ */
+export async function createShareLink(
+  projectId: string,
+  options: { scope: ShareScope; password?: string; expiresInDays?: number }
+): Promise<ShareLink> {
+  try {
+    const client = getVanillaClient();
+    return await client.shareLinks.create.mutate({ projectId, ...options });
+  } catch (error) {
+    console.error('Error creating share link:', error);
+    throw error;
+  }
+}
+
+export async function getShareLinks(projectId: string): Promise<ShareLink[]> {
+  try {
+    const client = getVanillaClient();
+    return await client.shareLinks.list.query({ projectId });
+  } catch (error) {
+    console.error('Error fetching share links:', error);
+    return [];
+  }
+}
+
+export async function revokeShareLink(id: string): Promise<void> {
+  try {
+    const client = getVanillaClient();
+    await client.shareLinks.revoke.mutate({ id });
+  } catch (error) {
+    console.error('Error revoking share link:', error);
+    throw error;
+  }
+}
+
+/**
+ * Resolve a share token for a visitor; does not require a session
+ */
+export async function openSharedProject(token: string, password?: string): Promise<ShareLinkResolution> {
+  try {
+    const client = getVanillaClient();
+    return await client.shareLinks.open.mutate({ token, password });
+  } catch (error) {
+    console.error('Error opening shared project:', error);
+    throw error;
+  }
+}
+
+/**
+ * Move a project into a workspace, or back to personal projects with null
+ */
+export async function moveProjectToWorkspace(projectId: string, workspaceId: string | null): Promise<void> {
+  try {
+    const client = getVanillaClient();
+    await client.projects.move.mutate({ id: projectId, workspaceId });
+    // Reload so listeners get the user's role in the new workspace
+    const moved = await getProject(projectId);
+    if (moved) {
+      eventEmitter.emit(Events.PROJECT_UPDATED, moved);
+    }
+  } catch (error) {
+    console.error('Error moving project:', error);
+    throw error;
+  }
+}
+
+export async function getWorkspaces(): Promise<Workspace[]> {
+  try {
+    const client = getVanillaClient();
+    return await client.workspaces.list.query();
+  } catch (error) {
+    console.error('Error fetching workspaces:', error);
+    return [];
+  }
+}
+
+export async function createWorkspace(name: string): Promise<string> {
+  try {
+    const client = getVanillaClient();
+    const { id } = await client.workspaces.create.mutate({ name });
+    eventEmitter.emit(Events.WORKSPACES_UPDATED, id);
+    return id;
+  } catch (error) {
+    console.error('Error creating workspace:', error);
+    throw error;
+  }
+}
+
+export async function renameWorkspace(id: string, name: string): Promise<void> {
+  try {
+    const client = getVanillaClient();
+    await client.workspaces.rename.mutate({ id, name });
+    eventEmitter.emit(Events.WORKSPACES_UPDATED, id);
+  } catch (error) {
+    console.error('Error renaming workspace:', error);
+    throw error;
+  }
+}
+
+export async function getWorkspaceMembers(workspaceId: string): Promise<WorkspaceMember[]> {
+  try {
+    const client = getVanillaClient();
+    return await client.workspaces.members.list.query({ workspaceId });
+  } catch (error) {
+    console.error('Error fetching workspace members:', error);
+    return [];
+  }
+}
+
+export async function updateWorkspaceMemberRole(workspaceId: string, userId: number, role: WorkspaceRole): Promise<void> {
+  try {
+    const client = getVanillaClient();
+    await client.workspaces.members.updateRole.mutate({ workspaceId, userId, role });
+    eventEmitter.emit(Events.WORKSPACES_UPDATED, workspaceId);
+  } catch (error) {
+    console.error('Error updating workspace member:', error);
+    throw error;
+  }
+}
+
+/**
+ * Remove a member; pass the current user's id to leave the workspace
+ */
+export async function removeWorkspaceMember(workspaceId: string, userId: number): Promise<void> {
+  try {
+    const client = getVanillaClient();
+    await client.workspaces.members.remove.mutate({ workspaceId, userId });
+    eventEmitter.emit(Events.WORKSPACES_UPDATED, workspaceId);
+  } catch (error) {
+    console.error('Error removing workspace member:', error);
+    throw error;
+  }
+}
+
+export async function createWorkspaceInvitation(
+  workspaceId: string,
+  role: WorkspaceRole,
+  expiresInDays?: number
+): Promise<WorkspaceInvitation> {
+  try {
+    const client = getVanillaClient();
+    return await client.workspaces.invitations.create.mutate({ workspaceId, role, expiresInDays });
+  } catch (error) {
+    console.error('Error creating workspace invitation:', error);
+    throw error;
+  }
+}
+
+export async function getWorkspaceInvitations(workspaceId: string): Promise<WorkspaceInvitation[]> {
+  try {
+    const client = getVanillaClient();
+    return await client.workspaces.invitations.list.query({ workspaceId });
+  } catch (error) {
+    console.error('Error fetching workspace invitations:', error);
+    return [];
+  }
+}
+
+export async function revokeWorkspaceInvitation(id: string): Promise<void> {
+  try {
+    const client = getVanillaClient();
+    await client.workspaces.invitations.revoke.mutate({ id });
+  } catch (error) {
+    console.error('Error revoking workspace invitation:', error);
+    throw error;
+  }
+}
+
+/**
+ * Join a workspace with an invitation token; returns the workspace id
+ */
+export async function acceptWorkspaceInvitation(token: string): Promise<string> {
+  try {
+    const client = getVanillaClient();
+    const { workspaceId } = await client.workspaces.invitations.accept.mutate({ token });
+    eventEmitter.emit(Events.WORKSPACES_UPDATED, workspaceId);
+    return workspaceId;
+  } catch (error) {
+    console.error('Error accepting workspace invitation:', error);
+    throw error;
+  }
+}
+
+export async function getProjectComments(projectId: string): Promise<ProjectComment[]> {
+  try {
+    const client = getVanillaClient();
+    return await client.comments.list.query({ projectId });
+  } catch (error) {
+    console.error('Error fetching comments:', error);
+    return [];
+  }
+}
+
+export async function getMentionableUsers(projectId: string): Promise<MentionableUser[]> {
+  try {
+    const client = getVanillaClient();
+    return await client.comments.mentionable.query({ projectId });
+  } catch (error) {
+    console.error('Error fetching mentionable users:', error);
+    return [];
+  }
+}
+
+/**
+ * Start a thread on an anchor, or reply to one by passing the first comment's id
+ */
+export async function addProjectComment(
+  projectId: string,
+  anchor: CommentAnchor,
+  body: string,
+  parentId?: string
+): Promise<ProjectComment> {
+  try {
+    const client = getVanillaClient();
+    const comment = await client.comments.create.mutate({ projectId, anchor, body, parentId });
+    eventEmitter.emit(Events.COMMENTS_UPDATED, projectId);
+    return comment;
+  } catch (error) {
+    console.error('Error adding comment:', error);
+    throw error;
+  }
+}
+
+export async function updateProjectComment(id: string, body: string): Promise<ProjectComment> {
+  try {
+    const client = getVanillaClient();
+    const comment = await client.comments.update.mutate({ id, body });
+    eventEmitter.emit(Events.COMMENTS_UPDATED, comment.projectId);
+    return comment;
+  } catch (error) {
+    console.error('Error updating comment:', error);
+    throw error;
+  }
+}
+
+export async function deleteProjectComment(projectId: string, id: string): Promise<void> {
+  try {
+    const client = getVanillaClient();
+    await client.comments.delete.mutate({ id });
+    eventEmitter.emit(Events.COMMENTS_UPDATED, projectId);
+  } catch (error) {
+    console.error('Error deleting comment:', error);
+    throw error;
+  }
+}
+
+export async function setCommentResolved(id: string, resolved: boolean): Promise<ProjectComment> {
+  try {
+    const client = getVanillaClient();
+    const comment = await client.comments.setResolved.mutate({ id, resolved });
+    eventEmitter.emit(Events.COMMENTS_UPDATED, comment.projectId);
+    return comment;
+  } catch (error) {
+    console.error('Error resolving comment:', error);
+    throw error;
+  }
+}
+
 // Helper mapping functions
 function mapDbProjectToProjectData(dbProject: any): ProjectData {
   return {
@@ -215,9 +601,12 @@ function mapDbProjectToProjectData(dbProject: any): ProjectData {
     maintenanceCosts: dbProject.maintenanceCosts,
     projectDuration: dbProject.projectDuration,
     discountRate: dbProject.discountRate,
+    currency: (dbProject.currency ?? Currency.USD) as Currency,
     revenueGrowth: dbProject.revenueGrowth,
     bestCaseMultiplier: dbProject.bestCaseMultiplier,
     worstCaseMultiplier: dbProject.worstCaseMultiplier,
+    financeRate: dbProject.financeRate != null ? Number(dbProject.financeRate) : undefined,
+    reinvestmentRate: dbProject.reinvestmentRate != null ? Number(dbProject.reinvestmentRate) : undefined,
     results: dbProject.results,
     createdAt: dbProject.createdAt?.toISOString() || new Date().toISOString(),
     updatedAt: dbProject.updatedAt?.toISOString() || new Date().toISOString(),
@@ -225,7 +614,14 @@ function mapDbProjectToProjectData(dbProject: any): ProjectData {
     vanguardInput: dbProject.vanguardInput,
     saasInput: dbProject.saasInput,
     riskInput: dbProject.riskInput,
+    monteCarloConfig: dbProject.monteCarloConfig,
+    lineItems: dbProject.lineItems,
+    fiscalAssumptions: dbProject.fiscalAssumptions ?? undefined,
+    inflation: dbProject.inflation ?? undefined,
+    valuationBasis: dbProject.valuationBasis ?? undefined,
     businessModel: dbProject.businessModel,
+    workspaceId: dbProject.workspaceId ?? undefined,
+    accessRole: dbProject.accessRole,
   };
 }
 
@@ -240,13 +636,26 @@ function mapProjectDataToDbProject(project: Partial<ProjectData>) {
   if (project.maintenanceCosts !== undefined) data.maintenanceCosts = project.maintenanceCosts;
   if (project.projectDuration !== undefined) data.projectDuration = project.projectDuration;
   if (project.discountRate !== undefined) data.discountRate = project.discountRate;
+  if (project.currency !== undefined) data.currency = project.currency;
   if (project.revenueGrowth !== undefined) data.revenueGrowth = project.revenueGrowth;
   if (project.bestCaseMultiplier !== undefined) data.bestCaseMultiplier = project.bestCaseMultiplier;
   if (project.worstCaseMultiplier !== undefined) data.worstCaseMultiplier = project.worstCaseMultiplier;
-  if (project.results !== undefined) data.results = project.results;
+  // An explicit undefined falls back to the discount rate
+  if ('financeRate' in project) data.financeRate = project.financeRate ?? null;
+  if ('reinvestmentRate' in project) data.reinvestmentRate = project.reinvestmentRate ?? null;
+  // Results are not sent: the server recomputes them from the inputs
   if (project.vanguardInput !== undefined) data.vanguardInput = project.vanguardInput;
   if (project.saasInput !== undefined) data.saasInput = project.saasInput;
-  if (project.riskInput !== undefined) data.riskInput = project.riskInput;
+  // An explicit undefined removes the runway inputs
+  if ('riskInput' in project) data.riskInput = project.riskInput ?? null;
+  // An explicit undefined goes back to the default simulation
+  if ('monteCarloConfig' in project) data.monteCarloConfig = project.monteCarloConfig ?? null;
+  if (project.lineItems !== undefined) data.lineItems = project.lineItems;
+  // An explicit undefined turns the fiscal layer off
+  if ('fiscalAssumptions' in project) data.fiscalAssumptions = project.fiscalAssumptions ?? null;
+  // An explicit undefined removes the inflation assumption and reverts to nominal
+  if ('inflation' in project) data.inflation = project.inflation ?? null;
+  if ('valuationBasis' in project) data.valuationBasis = project.valuationBasis ?? null;
   if (project.businessModel !== undefined) data.businessModel = project.businessModel;
 
   return data;
@@ -2,14 +2,41 @@ import { StandardMetricsCalculator } from '@/lib/infrastructure/calculators/Stan
 import { VanguardMetricsCalculator } from '@/lib/infrastructure/calculators/VanguardMetricsCalculator';
 import { SaaSMetricsCalculator } from '@/lib/infrastructure/calculators/SaaSMetricsCalculator';
 import { RiskMetricsCalculator } from '@/lib/infrastructure/calculators/RiskMetricsCalculator';
+import { MonteCarloCalculator } from '@/lib/infrastructure/calculators/MonteCarloCalculator';
+import { FreeCashFlowCalculator } from '@/lib/infrastructure/calculators/FreeCashFlowCalculator';
+import { IRRCalculator } from '@/lib/infrastructure/calculators/IRRCalculator';
+import { PortfolioOptimizationCalculator } from '@/lib/infrastructure/calculators/PortfolioOptimizationCalculator';
+import { LineItemCashFlowCalculator } from '@/lib/infrastructure/calculators/LineItemCashFlowCalculator';
+import { Currency, Money } from '@/lib/domain/value-objects/Money';
+import { ExchangeRateTable } from '@/lib/domain/value-objects/ExchangeRateTable';
 import type {
   FinancialCalculationInput,
   VanguardInput,
   SaaSInput,
   RiskInput,
   ProjectData,
+  MonteCarloConfig,
+  MonteCarloResult,
+  FreeCashFlowBreakdown,
+  FreeCashFlowSummary,
+  SaaSProjection,
+  SaaSProjectionSummary,
+  IRRDiagnostics,
+  DatedCashFlow,
+  ValuationBasis,
+  PortfolioCandidate,
+  PortfolioConstraints,
+  PortfolioOptimizationReport,
+  ProjectResults,
+  ScenarioSnapshot,
 } from '@/types/project';
 
+/**
+ * Version of the calculation engine stamped on saved results.
+ * Bump it whenever a calculator change alters the numbers so stored projects are recomputed.
+ */
+export const CALCULATOR_VERSION = '1.3.0';
+
 /**
  * Service for orchestrating all metric calculations.
  * Provides unified interface for calculating standard, vanguard, SaaS, and risk metrics.
@@ -31,21 +58,36 @@ export class CalculationService {
   private vanguardCalculator: VanguardMetricsCalculator;
   private saasCalculator: SaaSMetricsCalculator;
   private riskCalculator: RiskMetricsCalculator;
+  private monteCarloCalculator: MonteCarloCalculator;
+  private freeCashFlowCalculator: FreeCashFlowCalculator;
+  private irrCalculator: IRRCalculator;
+  private portfolioCalculator: PortfolioOptimizationCalculator;
+  private lineItemCalculator: LineItemCashFlowCalculator;
 
   constructor() {
     this.standardCalculator = new StandardMetricsCalculator();
     this.vanguardCalculator = new VanguardMetricsCalculator();
     this.saasCalculator = new SaaSMetricsCalculator();
     this.riskCalculator = new RiskMetricsCalculator();
+    this.monteCarloCalculator = new MonteCarloCalculator();
+    this.freeCashFlowCalculator = new FreeCashFlowCalculator();
+    this.irrCalculator = new IRRCalculator();
+    this.portfolioCalculator = new PortfolioOptimizationCalculator();
+    this.lineItemCalculator = new LineItemCashFlowCalculator();
   }
 
   async calculateStandard(input: FinancialCalculationInput): Promise<{
     roi: number;
     npv: number;
     irr: number;
+    irrDiagnostics: IRRDiagnostics;
+    mirr?: number;
+    valuationBasis: ValuationBasis;
     paybackPeriod: number;
     monthlyCashFlow: number[];
     cumulativeCashFlow: number[];
+    freeCashFlow?: FreeCashFlowBreakdown;
+    saasProjection?: SaaSProjection;
   }> {
     return Promise.resolve(this.standardCalculator.calculate(input));
   }
@@ -69,24 +111,84 @@ export class CalculationService {
     return Promise.resolve(this.saasCalculator.calculate(input));
   }
 
-  async calculateRisk(input: RiskInput): Promise<{
-    runway_months: number;
-    zero_cash_date: string;
-    churn_impact_6mo: number;
-  }> {
+  async calculateRisk(input: RiskInput): Promise<ReturnType<RiskMetricsCalculator['calculate']>> {
     return Promise.resolve(this.riskCalculator.calculate(input));
   }
 
-  async calculateAll(projectData: ProjectData): Promise<{
-    standard: ReturnType<StandardMetricsCalculator['calculate']>;
-    vanguard?: ReturnType<VanguardMetricsCalculator['calculate']>;
-    saas?: ReturnType<SaaSMetricsCalculator['calculate']>;
-    risk?: ReturnType<RiskMetricsCalculator['calculate']>;
+  /**
+   * Default Monte Carlo configuration for a project, derived from its scenario multipliers.
+   */
+  createMonteCarloConfig(
+    input: FinancialCalculationInput,
+    multipliers?: { bestCaseMultiplier?: number; worstCaseMultiplier?: number }
+  ): MonteCarloConfig {
+    return this.monteCarloCalculator.createDefaultConfig(input, multipliers);
+  }
+
+  /**
+   * Runs a Monte Carlo simulation over the standard metrics.
+   * Falls back to a default configuration derived from the scenario multipliers.
+   */
+  async calculateMonteCarlo(
+    input: FinancialCalculationInput,
+    config?: MonteCarloConfig,
+    multipliers?: { bestCaseMultiplier?: number; worstCaseMultiplier?: number }
+  ): Promise<MonteCarloResult> {
+    const monteCarloConfig = config ?? this.createMonteCarloConfig(input, multipliers);
+    return Promise.resolve(this.monteCarloCalculator.calculate(input, monteCarloConfig));
+  }
+
+  /**
+   * Annual IRR over irregularly dated cash flows (XIRR), as a percentage.
+   * Returns null together with the solver status when no reliable rate exists.
+   */
+  async calculateXIRR(flows: DatedCashFlow[]): Promise<{
+    xirr: number | null;
+    irrDiagnostics: IRRDiagnostics;
   }> {
-    const results: any = {};
+    const solution = this.irrCalculator.xirr(flows);
+    const toPercent = (rate: number) => Math.round(rate * 10000) / 100;
 
-    // Always calculate standard metrics
-    const standardInput: FinancialCalculationInput = {
+    return Promise.resolve({
+      xirr: solution.rate === null ? null : toPercent(solution.rate),
+      irrDiagnostics: {
+        status: solution.status,
+        signChanges: solution.signChanges,
+        roots: solution.roots.map(toPercent),
+        iterations: solution.iterations,
+      },
+    });
+  }
+
+  /**
+   * Reduces an after-tax free cash flow breakdown to the totals stored with project results.
+   */
+  summarizeFreeCashFlow(breakdown: FreeCashFlowBreakdown): FreeCashFlowSummary {
+    return this.freeCashFlowCalculator.summarize(breakdown);
+  }
+
+  /**
+   * Reduces a SaaS MRR projection to the waterfall and totals stored with project results.
+   */
+  summarizeSaaSProjection(projection: SaaSProjection): SaaSProjectionSummary {
+    return this.saasCalculator.summarize(projection);
+  }
+
+  /**
+   * Capital a project needs up front: its month-0 capex tranches when it is modelled with
+   * line items, which then supersede the initial investment field, otherwise the initial investment.
+   */
+  upfrontInvestment(projectData: ProjectData): number {
+    return this.lineItemCalculator.hasLineItems(projectData.lineItems)
+      ? this.lineItemCalculator.upfrontInvestment(projectData.lineItems)
+      : projectData.initialInvestment;
+  }
+
+  /**
+   * Standard calculator input for a project's expected case
+   */
+  private toStandardInput(projectData: ProjectData): FinancialCalculationInput {
+    return {
       initialInvestment: projectData.initialInvestment,
       discountRate: projectData.discountRate,
       projectDuration: projectData.projectDuration,
@@ -94,9 +196,75 @@ export class CalculationService {
       revenueGrowth: projectData.revenueGrowth,
       operatingCosts: projectData.operatingCosts,
       maintenanceCosts: projectData.maintenanceCosts,
+      financeRate: projectData.financeRate,
+      reinvestmentRate: projectData.reinvestmentRate,
+      lineItems: projectData.lineItems,
+      fiscalAssumptions: projectData.fiscalAssumptions,
+      inflation: projectData.inflation,
+      valuationBasis: projectData.valuationBasis,
+      businessModel: projectData.businessModel,
+      saasInput: projectData.saasInput,
     };
+  }
+
+  /**
+   * Scales revenue with the scenario multiplier, like the best and worst cases, so it reaches
+   * the yearly revenue, variable revenue streams and the SaaS MRR line alike. Costs scale
+   * fixed cost lines and acquisition spend too; variable cost lines follow revenue.
+   */
+  private applyScenarioAdjustments(
+    input: FinancialCalculationInput,
+    adjustments: { salesAdjustment: number; costsAdjustment: number; discountAdjustment: number }
+  ): FinancialCalculationInput {
+    const costsFactor = 1 + adjustments.costsAdjustment / 100;
+
+    return {
+      ...input,
+      multiplier: 1 + adjustments.salesAdjustment / 100,
+      discountRate: input.discountRate + adjustments.discountAdjustment,
+      operatingCosts: input.operatingCosts * costsFactor,
+      maintenanceCosts: input.maintenanceCosts * costsFactor,
+      lineItems: input.lineItems && {
+        ...input.lineItems,
+        costLines: input.lineItems.costLines.map((line) =>
+          line.behavior === 'fixed' ? { ...line, amount: line.amount * costsFactor } : line
+        ),
+      },
+      saasInput: input.saasInput && {
+        ...input.saasInput,
+        monthlyAcquisitionSpend: (input.saasInput.monthlyAcquisitionSpend ?? 0) * costsFactor,
+      },
+    };
+  }
+
+  async calculateAll(projectData: ProjectData): Promise<{
+    standard: ReturnType<StandardMetricsCalculator['calculate']>;
+    vanguard?: ReturnType<VanguardMetricsCalculator['calculate']>;
+    saas?: ReturnType<SaaSMetricsCalculator['calculate']>;
+    risk?: ReturnType<RiskMetricsCalculator['calculate']>;
+    monteCarlo?: MonteCarloResult;
+  }> {
+    const results: any = {};
+
+    // Always calculate standard metrics
+    const standardInput = this.toStandardInput(projectData);
     results.standard = await this.calculateStandard(standardInput);
 
+    // Calculate the NPV/IRR distribution
+    try {
+      results.monteCarlo = await this.calculateMonteCarlo(
+        standardInput,
+        projectData.monteCarloConfig,
+        {
+          bestCaseMultiplier: projectData.bestCaseMultiplier,
+          worstCaseMultiplier: projectData.worstCaseMultiplier,
+        }
+      );
+    } catch (error) {
+      console.error('Error calculating Monte Carlo simulation:', error);
+      // Continue without the simulation
+    }
+
     // Calculate Vanguard metrics if input is provided
     if (projectData.vanguardInput) {
       try {
@@ -130,6 +298,158 @@ export class CalculationService {
     return results;
   }
 
+  /**
+   * Computes the results stored with a saved project: expected, best and worst cases,
+   * the Monte Carlo distribution, Vanguard metrics, the free cash flow and SaaS summaries,
+   * stamped with the engine version that produced them.
+   * 
+   * @param projectData - Project inputs; any results it carries are ignored
+   * @returns Results ready to persist
+   */
+  async calculateProjectResults(projectData: ProjectData): Promise<ProjectResults> {
+    const standardInput = this.toStandardInput(projectData);
+    const all = await this.calculateAll(projectData);
+    const best = await this.calculateStandard({ ...standardInput, multiplier: projectData.bestCaseMultiplier });
+    const worst = await this.calculateStandard({ ...standardInput, multiplier: projectData.worstCaseMultiplier });
+    const { freeCashFlow, saasProjection, ...expected } = all.standard;
+
+    return {
+      ...expected,
+      roiBest: best.roi,
+      npvBest: best.npv,
+      paybackBest: best.paybackPeriod,
+      irrBest: best.irr,
+      roiWorst: worst.roi,
+      npvWorst: worst.npv,
+      paybackWorst: worst.paybackPeriod,
+      irrWorst: worst.irr,
+      vanguard: all.vanguard,
+      monteCarlo: all.monteCarlo,
+      freeCashFlowSummary: freeCashFlow && this.summarizeFreeCashFlow(freeCashFlow),
+      saasProjectionSummary: saasProjection && this.summarizeSaaSProjection(saasProjection),
+      calculatorVersion: CALCULATOR_VERSION,
+    };
+  }
+
+  /**
+   * Results of a what-if scenario: revenue and costs scaled by the percentage adjustments
+   * and the discount rate shifted by the given points, as on the comparison screen.
+   * The scenario runs on the project's own engine inputs, so line items, fiscal and
+   * inflation assumptions and the SaaS revenue line carry over.
+   */
+  async calculateScenario(
+    projectData: ProjectData,
+    adjustments: { salesAdjustment: number; costsAdjustment: number; discountAdjustment: number }
+  ): Promise<ScenarioSnapshot['results']> {
+    const result = await this.calculateStandard(
+      this.applyScenarioAdjustments(this.toStandardInput(projectData), adjustments)
+    );
+
+    return {
+      roi: result.roi,
+      npv: result.npv,
+      irr: result.irr,
+      paybackPeriod: result.paybackPeriod,
+      monthlyCashFlow: result.monthlyCashFlow,
+      cumulativeCashFlow: result.cumulativeCashFlow,
+    };
+  }
+
+  /**
+   * Converts each project's investment and NPV into one reporting currency and totals them,
+   * so portfolios that mix currencies aggregate correctly.
+   * 
+   * @param projects - Projects in any supported currency (USD when unset)
+   * @param currency - Reporting currency for the totals
+   * @param rates - Exchange rate table (default: bundled rates)
+   * @param date - Valuation date for the conversion (default: latest rates)
+   * @returns Per-project converted amounts and portfolio totals
+   */
+  async aggregatePortfolio(
+    projects: ProjectData[],
+    currency: Currency,
+    rates: ExchangeRateTable = ExchangeRateTable.default(),
+    date?: string | Date
+  ): Promise<{
+    currency: Currency;
+    totalInvestment: number;
+    totalNPV: number;
+    projects: { id: string; initialInvestment: number; npv: number | null }[];
+  }> {
+    const converted = projects.map((project) => {
+      const projectCurrency = project.currency ?? Currency.USD;
+      const toReporting = (amount: number) =>
+        new Money(amount, projectCurrency).convertTo(currency, rates, date);
+
+      return {
+        id: project.id,
+        initialInvestment: toReporting(this.upfrontInvestment(project)),
+        npv: project.results ? toReporting(project.results.npv) : null,
+      };
+    });
+
+    const totalInvestment = Money.sum(converted.map((p) => p.initialInvestment), currency, rates);
+    const totalNPV = Money.sum(
+      converted.flatMap((p) => (p.npv ? [p.npv] : [])),
+      currency,
+      rates
+    );
+
+    return Promise.resolve({
+      currency,
+      totalInvestment: totalInvestment.amount,
+      totalNPV: totalNPV.amount,
+      projects: converted.map((p) => ({
+        id: p.id,
+        initialInvestment: p.initialInvestment.amount,
+        npv: p.npv ? p.npv.amount : null,
+      })),
+    });
+  }
+
+  /**
+   * Picks the projects to fund within a capital budget so that total NPV is maximal,
+   * and reports the NPV/risk efficient frontier. Amounts are compared in one reporting currency;
+   * projects without calculated results cannot be ranked and are skipped.
+   * 
+   * @param projects - Saved projects in any supported currency
+   * @param budget - Capital available, in the reporting currency
+   * @param constraints - Mandatory projects, mutually exclusive pairs and per-business-model caps
+   * @param currency - Reporting currency for budget and results
+   * @param rates - Exchange rate table (default: bundled rates)
+   * @returns Optimal selection, frontier, and the candidates it was computed from
+   */
+  async optimizePortfolio(
+    projects: ProjectData[],
+    budget: number,
+    constraints: PortfolioConstraints,
+    currency: Currency,
+    rates: ExchangeRateTable = ExchangeRateTable.default()
+  ): Promise<PortfolioOptimizationReport> {
+    const toReporting = (amount: number, from: Currency | undefined) =>
+      new Money(amount, from ?? Currency.USD).convertTo(currency, rates).amount;
+
+    const candidates: PortfolioCandidate[] = projects
+      .filter((project) => project.results)
+      .map((project) => ({
+        id: project.id,
+        name: project.name,
+        investment: toReporting(this.upfrontInvestment(project), project.currency),
+        npv: toReporting(project.results!.npv, project.currency),
+        worstCaseNpv: toReporting(project.results!.npvWorst, project.currency),
+        businessModel: project.businessModel ?? 'standard',
+      }));
+
+    const result = this.portfolioCalculator.calculate(candidates, budget, constraints);
+
+    return Promise.resolve({
+      ...result,
+      currency,
+      candidates,
+      skippedProjectIds: projects.filter((project) => !project.results).map((project) => project.id),
+    });
+  }
+
   /**
    * Gets all benchmark values for reference.
    * 
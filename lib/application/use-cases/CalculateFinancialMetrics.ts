@@ -3,11 +3,21 @@ import { XAIService } from '@/lib/application/services/XAIService';
 import { Metric } from '@/lib/domain/entities/Metric';
 import { ROIContextStrategy } from '@/lib/infrastructure/strategies/ROIContextStrategy';
 import { NPVContextStrategy } from '@/lib/infrastructure/strategies/NPVContextStrategy';
+import { IRRContextStrategy } from '@/lib/infrastructure/strategies/IRRContextStrategy';
 import { OFIContextStrategy } from '@/lib/infrastructure/strategies/OFIContextStrategy';
 import { TFDIContextStrategy } from '@/lib/infrastructure/strategies/TFDIContextStrategy';
 import { SERContextStrategy } from '@/lib/infrastructure/strategies/SERContextStrategy';
+import { RunwayContextStrategy } from '@/lib/infrastructure/strategies/RunwayContextStrategy';
 import { DefaultContextStrategy } from '@/lib/infrastructure/strategies/DefaultContextStrategy';
-import type { ProjectData, EnrichedProjectResults, EnrichedMetric, AuditEntry } from '@/types/project';
+import type {
+  ProjectData,
+  EnrichedProjectResults,
+  EnrichedMetric,
+  AuditEntry,
+  IRRDiagnostics,
+  RunwayScenario,
+  CapTableAfterRound,
+} from '@/types/project';
 
 /**
  * Use case for calculating all financial metrics with XAI enrichment.
@@ -50,7 +60,7 @@ export class CalculateFinancialMetrics {
     // Register standard metric strategies
     this.xaiService.registerStrategy('ROI', new ROIContextStrategy());
     this.xaiService.registerStrategy('NPV', new NPVContextStrategy());
-    this.xaiService.registerStrategy('IRR', new DefaultContextStrategy('IRR'));
+    this.xaiService.registerStrategy('IRR', new IRRContextStrategy());
     this.xaiService.registerStrategy('PAYBACK', new DefaultContextStrategy('Payback Period'));
 
     // Register Vanguard proprietary strategies
@@ -65,7 +75,7 @@ export class CalculateFinancialMetrics {
     this.xaiService.registerStrategy('RULE_OF_40', new DefaultContextStrategy('Rule of 40'));
 
     // Register risk metric strategies
-    this.xaiService.registerStrategy('RUNWAY', new DefaultContextStrategy('Runway'));
+    this.xaiService.registerStrategy('RUNWAY', new RunwayContextStrategy());
     this.xaiService.registerStrategy('CHURN_IMPACT', new DefaultContextStrategy('Churn Impact'));
   }
 
@@ -131,16 +141,21 @@ export class CalculateFinancialMetrics {
       roi: number;
       npv: number;
       irr: number;
+      irrDiagnostics?: IRRDiagnostics;
+      mirr?: number;
       paybackPeriod: number;
       monthlyCashFlow: number[];
       cumulativeCashFlow: number[];
     },
     projectData: ProjectData
   ): EnrichedMetric[] {
+    // Give the IRR strategy the solver status of this run, not of the stored results
+    const irrContextData = { ...projectData, irrDiagnostics: rawResults.irrDiagnostics, mirr: rawResults.mirr };
+
     const metrics: Metric[] = [
       this.xaiService.enrichMetric('ROI', rawResults.roi, projectData),
       this.xaiService.enrichMetric('NPV', rawResults.npv, projectData),
-      this.xaiService.enrichMetric('IRR', rawResults.irr, projectData),
+      this.xaiService.enrichMetric('IRR', rawResults.irr, irrContextData),
       this.xaiService.enrichMetric('Payback Period', rawResults.paybackPeriod, projectData),
     ];
 
@@ -198,14 +213,23 @@ export class CalculateFinancialMetrics {
    */
   private enrichRiskMetrics(
     rawResults: {
-      runway_months: number;
-      zero_cash_date: string;
+      runway_months: number | null;
+      zero_cash_date: string | null;
       churn_impact_6mo: number;
+      raise_by_date: string | null;
+      runway_scenarios: RunwayScenario[];
+      cap_table: CapTableAfterRound[];
     },
     projectData: ProjectData
   ): EnrichedMetric[] {
+    // Give the runway strategy the scenarios, raise-by date and cap table of this run
+    const runwayContextData = { ...projectData, riskResults: rawResults };
+
+    // Without a burn there is no runway to explain
     const metrics: Metric[] = [
-      this.xaiService.enrichMetric('Runway', rawResults.runway_months, projectData),
+      ...(rawResults.runway_months !== null
+        ? [this.xaiService.enrichMetric('Runway', rawResults.runway_months, runwayContextData)]
+        : []),
       this.xaiService.enrichMetric('Churn Impact (6mo)', rawResults.churn_impact_6mo, projectData),
     ];
 
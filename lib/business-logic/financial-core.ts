@@ -1,5 +1,6 @@
 import type { XAIResult, XAIScenarioResult, XAIContextConfig } from '../xai/types';
-import { generateFinancialMetricsContext } from '../xai/context-generator';
+import { generateFinancialMetricsContext, generateIRRWarnings } from '../xai/context-generator';
+import { IRRCalculator } from '../infrastructure/calculators/IRRCalculator';
 import {
   validateNonNegativeNumber,
   validatePositiveNumber,
@@ -16,6 +17,8 @@ export interface FinancialMetric {
   value: number;
   /** Unit of measurement */
   unit: string;
+  /** Optional: Reasons the value may be unreliable */
+  warnings?: string[];
 }
 
 /**
@@ -100,9 +103,11 @@ export class NPVStrategy implements FinancialStrategy {
 
 /**
  * IRR (Internal Rate of Return) Strategy
- * Formula: Discount rate where NPV = 0 (calculated using Newton-Raphson method)
+ * Formula: Discount rate where NPV = 0 (bracketed and refined with Brent's method)
  */
 export class IRRStrategy implements FinancialStrategy {
+  private solver = new IRRCalculator();
+
   getName(): string {
     return 'IRR';
   }
@@ -114,41 +119,15 @@ export class IRRStrategy implements FinancialStrategy {
 
     const cashFlows = [-inputs.investment, ...(inputs.cashFlows || Array(inputs.timeHorizon).fill(inputs.savings))];
 
-    const irr = this.calculateIRR(cashFlows);
+    const solution = this.solver.solve(cashFlows, inputs.discountRate);
 
     return {
       name: 'IRR',
-      value: irr * 100,
+      value: solution.rate === null ? 0 : solution.rate * 100,
       unit: '%',
+      warnings: generateIRRWarnings(solution.status, solution.signChanges),
     };
   }
-
-  private calculateIRR(cashFlows: number[]): number {
-    let guess = 0.1;
-    const maxIterations = 100;
-    const tolerance = 0.0001;
-
-    for (let i = 0; i < maxIterations; i++) {
-      let npv = 0;
-      let dnpv = 0;
-
-      for (let t = 0; t < cashFlows.length; t++) {
-        const factor = Math.pow(1 + guess, t);
-        npv += cashFlows[t] / factor;
-        dnpv -= (t * cashFlows[t]) / (factor * (1 + guess));
-      }
-
-      const newGuess = guess - npv / dnpv;
-
-      if (Math.abs(newGuess - guess) < tolerance) {
-        return newGuess;
-      }
-
-      guess = newGuess;
-    }
-
-    return guess;
-  }
 }
 
 /**
@@ -241,16 +220,21 @@ export async function calculateFinancialMetricsXAI(
     factory.getStrategy('Payback')!.calculate(inputs),
   ]);
 
-  const createXAIResult = (metric: FinancialMetric): XAIResult<FinancialMetric> => ({
-    value: metric,
-    context: generateFinancialMetricsContext(metric.name, metric.value, inputs, config),
-    metadata: {
-      calculationMethod: metric.name,
-      inputs,
-      timestamp: new Date(),
-      version: '1.0.0',
-    },
-  });
+  const createXAIResult = (metric: FinancialMetric): XAIResult<FinancialMetric> => {
+    const context = generateFinancialMetricsContext(metric.name, metric.value, inputs, config);
+    return {
+      value: metric,
+      context: metric.warnings?.length
+        ? { ...context, warnings: [...metric.warnings, ...context.warnings] }
+        : context,
+      metadata: {
+        calculationMethod: metric.name,
+        inputs,
+        timestamp: new Date(),
+        version: '1.0.0',
+      },
+    };
+  };
 
   return {
     roi: createXAIResult(roi),
@@ -0,0 +1,135 @@
+import type { CustomerRecord } from '@/types/project';
+
+export type CustomersImportErrorReason =
+  | 'missing_customer_column'
+  | 'missing_customer_id'
+  | 'invalid_date'
+  | 'invalid_number'
+  | 'missing_signup_date';
+
+export interface CustomersImportError {
+  line: number; // 1-based line in the pasted text
+  reason: CustomersImportErrorReason;
+}
+
+type CustomersColumn = 'customerId' | 'signupDate' | 'churnDate' | 'revenueDate' | 'amount';
+
+/**
+ * Header names accepted for each field, lower case
+ */
+const COLUMN_ALIASES: Record<CustomersColumn, string[]> = {
+  customerId: ['customer_id', 'customerid', 'customer', 'id', 'cliente'],
+  signupDate: ['signup_date', 'signupdate', 'signup', 'fecha_alta', 'alta'],
+  churnDate: ['churn_date', 'churndate', 'churn', 'fecha_baja', 'baja'],
+  revenueDate: ['revenue_date', 'revenuedate', 'date', 'payment_date', 'fecha', 'fecha_pago'],
+  amount: ['amount', 'revenue', 'importe', 'ingresos'],
+};
+
+/**
+ * Column order when the text has no header row
+ */
+const DEFAULT_COLUMNS: CustomersColumn[] = ['customerId', 'signupDate', 'churnDate', 'revenueDate', 'amount'];
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})(?:-(\d{2}))?$/;
+
+function detectSeparator(line: string): string {
+  if (line.includes('\t')) return '\t';
+  if (line.includes(';')) return ';';
+  return ',';
+}
+
+function columnForHeader(cell: string): CustomersColumn | undefined {
+  const name = cell.toLowerCase().replace(/\s+/g, '_');
+  return (Object.keys(COLUMN_ALIASES) as CustomersColumn[]).find((column) => COLUMN_ALIASES[column].includes(name));
+}
+
+function isValidDate(value: string): boolean {
+  const match = DATE_PATTERN.exec(value);
+  if (!match) return false;
+  const month = Number(match[2]);
+  const day = match[3] ? Number(match[3]) : 1;
+  return month >= 1 && month <= 12 && day >= 1 && day <= 31;
+}
+
+/**
+ * Parses customer data pasted from a spreadsheet or billing export. Each row carries a
+ * customer id and may add a signup date, a churn date and one revenue event (date and
+ * amount), so a customer can span several rows; the earliest signup date and the latest
+ * churn date win. A header row is optional, recognised by its column names, and may list
+ * the columns in any order.
+ * Rows with errors are skipped and reported, as are customers without a signup date.
+ */
+export function parseCustomersCsv(text: string): { customers: CustomerRecord[]; errors: CustomersImportError[] } {
+  const lines = text.split(/\r?\n/).map((line, index) => ({ text: line.trim(), line: index + 1 }))
+    .filter((entry) => entry.text.length > 0);
+  const errors: CustomersImportError[] = [];
+
+  if (lines.length === 0) return { customers: [], errors };
+
+  const separator = detectSeparator(lines[0].text);
+  const split = (line: string) => line.split(separator).map((cell) => cell.trim());
+
+  let columns = DEFAULT_COLUMNS;
+  let rows = lines;
+  const firstCells = split(lines[0].text);
+  // Only a header row names a known column
+  if (firstCells.some((cell) => columnForHeader(cell) !== undefined)) {
+    // Unknown columns are ignored
+    columns = firstCells.map((cell) => columnForHeader(cell) ?? (cell.toLowerCase() as CustomersColumn));
+    rows = lines.slice(1);
+    if (!columns.includes('customerId')) {
+      return { customers: [], errors: [{ line: lines[0].line, reason: 'missing_customer_column' }] };
+    }
+  }
+
+  const byId = new Map<string, CustomerRecord & { firstLine: number }>();
+  rows.forEach(({ text: rowText, line }) => {
+    const cells = split(rowText);
+    const cell = (column: CustomersColumn) => {
+      const index = columns.indexOf(column);
+      return index >= 0 ? cells[index] ?? '' : '';
+    };
+
+    const id = cell('customerId');
+    const signupDate = cell('signupDate');
+    const churnDate = cell('churnDate');
+    const revenueDate = cell('revenueDate');
+    const amountCell = cell('amount');
+    const amount = amountCell === '' ? 0 : Number(amountCell);
+
+    let invalid: CustomersImportErrorReason | null = null;
+    if (id === '') invalid = 'missing_customer_id';
+    else if ([signupDate, churnDate, revenueDate].some((date) => date !== '' && !isValidDate(date))) invalid = 'invalid_date';
+    else if (!Number.isFinite(amount)) invalid = 'invalid_number';
+    else if (amountCell !== '' && revenueDate === '') invalid = 'invalid_date';
+
+    if (invalid) {
+      errors.push({ line, reason: invalid });
+      return;
+    }
+
+    const customer = byId.get(id) ?? { id, signupDate: '', revenue: [], firstLine: line };
+    if (signupDate !== '' && (customer.signupDate === '' || signupDate < customer.signupDate)) {
+      customer.signupDate = signupDate;
+    }
+    if (churnDate !== '' && (!customer.churnDate || churnDate > customer.churnDate)) {
+      customer.churnDate = churnDate;
+    }
+    if (revenueDate !== '') {
+      customer.revenue.push({ date: revenueDate, amount });
+    }
+    byId.set(id, customer);
+  });
+
+  const customers: CustomerRecord[] = [];
+  byId.forEach(({ firstLine, ...customer }) => {
+    if (customer.signupDate === '') {
+      errors.push({ line: firstLine, reason: 'missing_signup_date' });
+      return;
+    }
+    customers.push(customer);
+  });
+
+  errors.sort((a, b) => a.line - b.line);
+  return { customers, errors };
+}
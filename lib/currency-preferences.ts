@@ -0,0 +1,30 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Currency } from '@/lib/domain/value-objects/Money';
+import { eventEmitter, Events } from '@/lib/event-emitter';
+
+const REPORTING_CURRENCY_KEY = '@business_case_analyzer:reporting_currency';
+
+/**
+ * Get the currency portfolio totals and calculator screens are reported in
+ */
+export async function getReportingCurrency(): Promise<Currency> {
+  try {
+    const value = await AsyncStorage.getItem(REPORTING_CURRENCY_KEY);
+    return value && (Object.values(Currency) as string[]).includes(value) ? (value as Currency) : Currency.USD;
+  } catch (error) {
+    console.error('Error reading reporting currency:', error);
+    return Currency.USD;
+  }
+}
+
+/**
+ * Save the reporting currency and notify open screens
+ */
+export async function setReportingCurrency(currency: Currency): Promise<void> {
+  try {
+    await AsyncStorage.setItem(REPORTING_CURRENCY_KEY, currency);
+    eventEmitter.emit(Events.REPORTING_CURRENCY_CHANGED, currency);
+  } catch (error) {
+    console.error('Error saving reporting currency:', error);
+  }
+}
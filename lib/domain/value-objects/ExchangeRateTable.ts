@@ -0,0 +1,155 @@
+import { Currency } from './Money';
+import defaultRates from '@/constants/fx-rates.json';
+
+/**
+ * Rates observed on a given date, as units of each currency per one unit of the base
+ */
+export interface ExchangeRateSnapshot {
+  date: string;
+  rates: Partial<Record<Currency, number>>;
+}
+
+/**
+ * Serializable form of an exchange rate table
+ */
+export interface ExchangeRateTableData {
+  base: Currency;
+  rates: ExchangeRateSnapshot[];
+}
+
+/**
+ * Value object for dated exchange rates quoted against a single base currency.
+ * Immutable: edits return a new table.
+ *
+ * A conversion on a given date uses the latest snapshot on or before that date,
+ * falling back to the earliest snapshot for dates before the table starts.
+ * Cross rates are derived through the base currency.
+ *
+ * @example
+ * ```typescript
+ * const table = ExchangeRateTable.default();
+ * table.getRate(Currency.COP, Currency.USD, '2025-03-15'); // 1 / 4405
+ *
+ * const edited = table.withRate('2026-02-01', Currency.COP, 3900);
+ * ```
+ */
+export class ExchangeRateTable {
+  private readonly _base: Currency;
+  private readonly _snapshots: ExchangeRateSnapshot[];
+
+  constructor(data: ExchangeRateTableData) {
+    if (data.rates.length === 0) {
+      throw new Error('Exchange rate table needs at least one dated snapshot');
+    }
+
+    const snapshots = data.rates.map((snapshot) => {
+      if (!Number.isFinite(new Date(snapshot.date).getTime())) {
+        throw new Error(`Invalid exchange rate date: ${snapshot.date}`);
+      }
+      Object.entries(snapshot.rates).forEach(([currency, rate]) => {
+        if (!Number.isFinite(rate) || (rate as number) <= 0) {
+          throw new Error(`Exchange rate for ${currency} on ${snapshot.date} must be a positive finite number`);
+        }
+      });
+      return { date: snapshot.date, rates: { ...snapshot.rates } };
+    });
+
+    this._base = data.base;
+    this._snapshots = snapshots.sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  /**
+   * Gets the base currency all rates are quoted against
+   */
+  get base(): Currency {
+    return this._base;
+  }
+
+  /**
+   * Gets the dates that have a snapshot, oldest first
+   */
+  get dates(): string[] {
+    return this._snapshots.map((snapshot) => snapshot.date);
+  }
+
+  /**
+   * Gets the number of `to` units per one unit of `from`
+   *
+   * @param from - Source currency
+   * @param to - Target currency
+   * @param date - Valuation date (ISO string or Date); defaults to the latest snapshot
+   * @throws {Error} If either currency has no rate in the applicable snapshot
+   */
+  getRate(from: Currency, to: Currency, date?: string | Date): number {
+    if (from === to) return 1;
+
+    const snapshot = this.snapshotFor(date);
+    return this.unitsPerBase(to, snapshot) / this.unitsPerBase(from, snapshot);
+  }
+
+  /**
+   * Returns a new table with one rate set on the given date
+   *
+   * @param date - ISO date of the snapshot to create or update
+   * @param currency - Quoted currency
+   * @param rate - Units of `currency` per one unit of the base
+   */
+  withRate(date: string, currency: Currency, rate: number): ExchangeRateTable {
+    const existing = this._snapshots.find((snapshot) => snapshot.date === date);
+    const rates = existing
+      ? this._snapshots.map((snapshot) =>
+          snapshot.date === date ? { date, rates: { ...snapshot.rates, [currency]: rate } } : snapshot
+        )
+      : [...this._snapshots, { date, rates: { [currency]: rate } }];
+
+    return new ExchangeRateTable({ base: this._base, rates });
+  }
+
+  /**
+   * Returns a plain object representation
+   */
+  toObject(): ExchangeRateTableData {
+    return {
+      base: this._base,
+      rates: this._snapshots.map((snapshot) => ({ date: snapshot.date, rates: { ...snapshot.rates } })),
+    };
+  }
+
+  private snapshotFor(date?: string | Date): ExchangeRateSnapshot {
+    if (date === undefined) {
+      return this._snapshots[this._snapshots.length - 1];
+    }
+
+    const target = (typeof date === 'string' ? new Date(date) : date).toISOString().slice(0, 10);
+    const applicable = this._snapshots.filter((snapshot) => snapshot.date <= target);
+
+    return applicable.length > 0 ? applicable[applicable.length - 1] : this._snapshots[0];
+  }
+
+  private unitsPerBase(currency: Currency, snapshot: ExchangeRateSnapshot): number {
+    if (currency === this._base) return 1;
+
+    const rate = snapshot.rates[currency];
+    if (rate === undefined) {
+      throw new Error(`No exchange rate for ${currency} on ${snapshot.date}`);
+    }
+    return rate;
+  }
+
+  /**
+   * Creates a table from a plain object
+   *
+   * @param obj - Object with base currency and dated rates
+   * @returns New ExchangeRateTable instance
+   */
+  static fromObject(obj: ExchangeRateTableData): ExchangeRateTable {
+    return new ExchangeRateTable(obj);
+  }
+
+  /**
+   * Creates the table bundled with the app (`constants/fx-rates.json`)
+   */
+  static default(): ExchangeRateTable {
+    return new ExchangeRateTable(defaultRates as ExchangeRateTableData);
+  }
+}
@@ -1,3 +1,5 @@
+import type { ExchangeRateTable } from './ExchangeRateTable';
+
 /**
  * Supported currency codes
  */
@@ -242,17 +244,31 @@ export class Money {
   }
 
   /**
-   * Converts to a different currency (Note: This is a placeholder. 
-   * In production, you'd use real exchange rates from an API)
+   * Converts to a different currency
    * 
    * @param targetCurrency - Target currency
-   * @param exchangeRate - Exchange rate (target/source)
+   * @param rates - Exchange rate (target per unit of source) or a dated rate table
+   * @param date - Valuation date used to look up the rate in a table (default: latest)
    * @returns New Money instance in target currency
+   * @throws {Error} If the rate is not a positive finite number or the table lacks a currency
+   * 
+   * @example
+   * ```typescript
+   * const cop = new Money(4_405_000, Currency.COP);
+   * cop.convertTo(Currency.USD, ExchangeRateTable.default(), '2025-03-15'); // $1,000.00
+   * ```
    */
-  convertTo(targetCurrency: Currency, exchangeRate: number): Money {
+  convertTo(targetCurrency: Currency, rates: number | ExchangeRateTable, date?: string | Date): Money {
+    const exchangeRate = typeof rates === 'number'
+      ? rates
+      : rates.getRate(this._currency, targetCurrency, date);
+
     if (!Number.isFinite(exchangeRate) || exchangeRate <= 0) {
       throw new Error('Exchange rate must be a positive finite number');
     }
+    if (targetCurrency === this._currency && exchangeRate === 1) {
+      return this;
+    }
     return new Money(this._amount * exchangeRate, targetCurrency);
   }
 
@@ -296,6 +312,32 @@ export class Money {
     return new Money(obj.amount, obj.currency);
   }
 
+  /**
+   * Sums values in mixed currencies after converting each to one currency
+   * 
+   * @param values - Money values to add
+   * @param currency - Currency of the result
+   * @param rates - Rate table used for values in other currencies
+   * @param date - Valuation date for the conversion (default: latest)
+   * @returns New Money instance with the converted total
+   */
+  static sum(values: Money[], currency: Currency, rates: ExchangeRateTable, date?: string | Date): Money {
+    return values.reduce(
+      (total, value) => total.add(value.convertTo(currency, rates, date)),
+      Money.zero(currency)
+    );
+  }
+
+  /**
+   * Gets the display symbol for a currency
+   * 
+   * @param currency - Currency code
+   * @returns Symbol such as "$" or "R$"
+   */
+  static symbolFor(currency: Currency): string {
+    return CURRENCY_SYMBOLS[currency];
+  }
+
   /**
    * Creates a zero Money value
    * 
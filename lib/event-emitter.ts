@@ -59,4 +59,8 @@ export const Events = {
   PROJECT_DUPLICATED: 'project:duplicated',
   SNAPSHOT_CREATED: 'snapshot:created',
   SNAPSHOT_DELETED: 'snapshot:deleted',
+  ACTUALS_UPDATED: 'actuals:updated',
+  WORKSPACES_UPDATED: 'workspaces:updated',
+  COMMENTS_UPDATED: 'comments:updated',
+  REPORTING_CURRENCY_CHANGED: 'settings:reporting_currency_changed',
 } as const;
@@ -1,4 +1,25 @@
 import { Platform } from 'react-native';
+import { Currency } from '@/lib/domain/value-objects/Money';
+import type {
+    BudgetAllocation,
+    FootballFieldBar,
+    PricePoint,
+    PricingDemandAnalysis,
+    ValuationMethod,
+    ValuationResult,
+} from '@/types/project';
+
+/**
+ * Formats an amount in the report currency (USD unless the screen passes one)
+ */
+function formatMoney(value: number, currency: Currency = Currency.USD, decimals: number = 0): string {
+    return new Intl.NumberFormat('en-US', {
+        style: 'currency',
+        currency,
+        minimumFractionDigits: decimals,
+        maximumFractionDigits: decimals,
+    }).format(value);
+}
 
 export function generateBreakEvenPDF(data: {
     inputs: {
@@ -15,8 +36,9 @@ export function generateBreakEvenPDF(data: {
         isAboveBreakEven?: boolean;
     };
     recommendations: string[];
+    currency?: Currency;
 }): string {
-    const { inputs, results, recommendations } = data;
+    const { inputs, results, recommendations, currency } = data;
 
     return `
 <!DOCTYPE html>
@@ -154,7 +176,7 @@ export function generateBreakEvenPDF(data: {
       <div class="highlight-label">Para no perder dinero, necesitas vender</div>
       <div class="highlight-value">${results.breakEvenUnits.toLocaleString()} unidades</div>
       <div class="highlight-label" style="margin-top: 8px;">
-        equivalente a $${results.breakEvenRevenue.toLocaleString()} en ingresos
+        equivalente a ${formatMoney(results.breakEvenRevenue, currency)} en ingresos
       </div>
     </div>
 
@@ -178,19 +200,19 @@ export function generateBreakEvenPDF(data: {
       <div class="metric-grid">
         <div class="metric">
           <div class="metric-label">Costos Fijos Mensuales</div>
-          <div class="metric-value">$${inputs.fixedCosts.toLocaleString()}</div>
+          <div class="metric-value">${formatMoney(inputs.fixedCosts, currency)}</div>
         </div>
         <div class="metric">
           <div class="metric-label">Precio por Unidad</div>
-          <div class="metric-value">$${inputs.pricePerUnit.toLocaleString()}</div>
+          <div class="metric-value">${formatMoney(inputs.pricePerUnit, currency, 2)}</div>
         </div>
         <div class="metric">
           <div class="metric-label">Costo Variable por Unidad</div>
-          <div class="metric-value">$${inputs.variableCostPerUnit.toLocaleString()}</div>
+          <div class="metric-value">${formatMoney(inputs.variableCostPerUnit, currency, 2)}</div>
         </div>
         <div class="metric">
           <div class="metric-label">Contribución por Unidad</div>
-          <div class="metric-value success">$${results.contributionMarginPerUnit.toFixed(2)}</div>
+          <div class="metric-value success">${formatMoney(results.contributionMarginPerUnit, currency, 2)}</div>
         </div>
       </div>
     </div>
@@ -262,8 +284,9 @@ export function generateCashFlowPDF(data: {
     inputs: { startingCash: number; monthlyRevenue: number; monthlyExpenses: number; expectedGrowthRate: number };
     results: { endingCash: number; monthsUntilDeficit: number | null; isHealthy: boolean; minimumCashReserve: number };
     recommendations: string[];
+    currency?: Currency;
 }): string {
-    const { inputs, results, recommendations } = data;
+    const { inputs, results, recommendations, currency } = data;
 
     return `
 <!DOCTYPE html>
@@ -323,7 +346,7 @@ export function generateCashFlowPDF(data: {
       <div class="metric-grid">
         <div class="metric">
           <div class="metric-label">Balance Final (12 meses)</div>
-          <div class="metric-value ${results.endingCash >= 0 ? 'success' : 'danger'}">$${results.endingCash.toLocaleString()}</div>
+          <div class="metric-value ${results.endingCash >= 0 ? 'success' : 'danger'}">${formatMoney(results.endingCash, currency)}</div>
         </div>
         <div class="metric">
           <div class="metric-label">Estado del Flujo</div>
@@ -352,12 +375,48 @@ export function generateCashFlowPDF(data: {
 /**
  * Generates HTML for Pricing calculator PDF
  */
+/**
+ * Inline SVG of profit per period against price, with the break-even line and the optimum marked.
+ */
+function profitCurveSVG(curve: PricePoint[], optimum: PricePoint | null, currency?: Currency): string {
+    const width = 640;
+    const height = 220;
+    const pad = 30;
+    const prices = curve.map(point => point.price);
+    const profits = curve.map(point => point.profit);
+    const minPrice = Math.min(...prices);
+    const priceSpan = Math.max(...prices) - minPrice || 1;
+    const maxProfit = Math.max(0, ...profits);
+    const profitSpan = maxProfit - Math.min(0, ...profits) || 1;
+    const x = (price: number) => pad + ((price - minPrice) / priceSpan) * (width - pad * 2);
+    const y = (profit: number) => pad + ((maxProfit - profit) / profitSpan) * (height - pad * 2);
+
+    const points = curve.map(point => `${x(point.price).toFixed(1)},${y(point.profit).toFixed(1)}`).join(' ');
+    const marker = optimum
+        ? `<circle cx="${x(optimum.price).toFixed(1)}" cy="${y(optimum.profit).toFixed(1)}" r="5" fill="#10b981" />
+        <text x="${x(optimum.price).toFixed(1)}" y="${(y(optimum.profit) - 10).toFixed(1)}" fill="#10b981" font-size="12" text-anchor="middle">${formatMoney(optimum.price, currency, 2)}</text>`
+        : '';
+
+    return `<svg width="100%" viewBox="0 0 ${width} ${height}" xmlns="http://www.w3.org/2000/svg">
+        <line x1="${pad}" x2="${width - pad}" y1="${y(0).toFixed(1)}" y2="${y(0).toFixed(1)}" stroke="rgba(255,255,255,0.3)" stroke-dasharray="4 4" />
+        <polyline points="${points}" fill="none" stroke="#818cf8" stroke-width="2" />
+        ${marker}
+        <text x="${pad}" y="${height - 8}" fill="#9ca3af" font-size="11">${formatMoney(minPrice, currency, 2)}</text>
+        <text x="${width - pad}" y="${height - 8}" fill="#9ca3af" font-size="11" text-anchor="end">${formatMoney(minPrice + priceSpan, currency, 2)}</text>
+      </svg>`;
+}
+
 export function generatePricingPDF(data: {
     inputs: { costPerUnit: number; desiredMargin: number; competitorPrice?: number };
     results: { recommendedPrice: number; grossProfitPerUnit: number; markup: number };
+    demand?: PricingDemandAnalysis;
     recommendations: string[];
+    currency?: Currency;
 }): string {
-    const { inputs, results, recommendations } = data;
+    const { inputs, results, demand, recommendations, currency } = data;
+    const optimumRow = (label: string, point: PricePoint | null) => point
+        ? `<tr><td>${label}</td><td>${formatMoney(point.price, currency, 2)}</td><td>${Math.round(point.volume).toLocaleString('es-ES')}</td><td>${formatMoney(point.profit, currency)}</td></tr>`
+        : `<tr><td>${label}</td><td colspan="3">Sin óptimo finito con esta curva</td></tr>`;
 
     return `
 <!DOCTYPE html>
@@ -383,6 +442,9 @@ export function generatePricingPDF(data: {
     .metric { margin-bottom: 16px; }
     .metric-label { color: #9ca3af; font-size: 14px; }
     .metric-value { font-size: 28px; font-weight: bold; margin-top: 4px; color: #10b981; }
+    .demand-table { width: 100%; border-collapse: collapse; margin-top: 16px; font-size: 14px; }
+    .demand-table th, .demand-table td { padding: 8px; text-align: left; border-bottom: 1px solid rgba(255,255,255,0.05); }
+    .demand-table th { color: #9ca3af; font-weight: 500; }
     .recommendations { list-style: none; }
     .recommendations li { padding: 12px 0; border-bottom: 1px solid rgba(255,255,255,0.05); }
     .footer { margin-top: 40px; padding-top: 20px; border-top: 1px solid rgba(255,255,255,0.1); text-align: center; color: #6b7280; font-size: 12px; }
@@ -398,13 +460,23 @@ export function generatePricingPDF(data: {
     <div class="card">
       <div class="card-title">📊 Precio Recomendado</div>
       <div class="metric">
-        <div class="metric-value">$${results.recommendedPrice.toFixed(2)}</div>
+        <div class="metric-value">${formatMoney(results.recommendedPrice, currency, 2)}</div>
       </div>
       <div class="metric">
         <div class="metric-label">Ganancia por Unidad</div>
-        <div class="metric-value">$${results.grossProfitPerUnit.toFixed(2)}</div>
+        <div class="metric-value">${formatMoney(results.grossProfitPerUnit, currency, 2)}</div>
       </div>
     </div>
+    ${demand ? `
+    <div class="card">
+      <div class="card-title">📈 Curva de Beneficio (elasticidad ${demand.elasticity.toFixed(2)}${demand.rSquared !== null ? `, R² ${demand.rSquared.toFixed(2)}` : ''})</div>
+      ${profitCurveSVG(demand.curve, demand.profitMaximizing, currency)}
+      <table class="demand-table">
+        <tr><th></th><th>Precio</th><th>Volumen</th><th>Beneficio</th></tr>
+        ${optimumRow('Máximo beneficio', demand.profitMaximizing)}
+        ${optimumRow('Máximo ingreso', demand.revenueMaximizing)}
+      </table>
+    </div>` : ''}
     <div class="card">
       <div class="card-title">💡 Recomendaciones</div>
       <ul class="recommendations">
@@ -427,8 +499,9 @@ export function generateLoanPDF(data: {
     inputs: { principal: number; annualInterestRate: number; termMonths: number };
     results: { monthlyPayment: number; totalPayment: number; totalInterest: number };
     recommendations: string[];
+    currency?: Currency;
 }): string {
-    const { inputs, results, recommendations } = data;
+    const { inputs, results, recommendations, currency } = data;
 
     return `
 <!DOCTYPE html>
@@ -470,11 +543,11 @@ export function generateLoanPDF(data: {
       <div class="card-title">📊 Resumen del Préstamo</div>
       <div class="metric">
         <div class="metric-label">Pago Mensual</div>
-        <div class="metric-value">$${results.monthlyPayment.toLocaleString()}</div>
+        <div class="metric-value">${formatMoney(results.monthlyPayment, currency)}</div>
       </div>
       <div class="metric">
         <div class="metric-label">Total a Pagar</div>
-        <div class="metric-value">$${results.totalPayment.toLocaleString()}</div>
+        <div class="metric-value">${formatMoney(results.totalPayment, currency)}</div>
       </div>
     </div>
     <div class="card">
@@ -570,9 +643,11 @@ export function generateEmployeeROIPDF(data: {
 export function generateMarketingROIPDF(data: {
     inputs: { totalSpend: number; conversions: number; revenuePerConversion: number };
     results: { roiPercentage: number; costPerAcquisition: number; totalRevenue: number };
+    allocation?: BudgetAllocation;
     recommendations: string[];
+    currency?: Currency;
 }): string {
-    const { inputs, results, recommendations } = data;
+    const { inputs, results, allocation, recommendations, currency } = data;
 
     return `
 <!DOCTYPE html>
@@ -600,6 +675,9 @@ export function generateMarketingROIPDF(data: {
     .metric-value { font-size: 28px; font-weight: bold; margin-top: 4px; color: ${results.roiPercentage >= 100 ? '#10b981' : '#ef4444'}; }
     .recommendations { list-style: none; }
     .recommendations li { padding: 12px 0; border-bottom: 1px solid rgba(255,255,255,0.05); }
+    .allocation-table { width: 100%; border-collapse: collapse; margin-top: 16px; font-size: 14px; }
+    .allocation-table th, .allocation-table td { padding: 8px; text-align: left; border-bottom: 1px solid rgba(255,255,255,0.05); }
+    .allocation-table th { color: #9ca3af; font-weight: 500; }
     .footer { margin-top: 40px; padding-top: 20px; border-top: 1px solid rgba(255,255,255,0.1); text-align: center; color: #6b7280; font-size: 12px; }
   </style>
 </head>
@@ -618,8 +696,159 @@ export function generateMarketingROIPDF(data: {
       </div>
       <div class="metric">
         <div class="metric-label">Costo por Adquisición</div>
-        <div class="metric-value">$${results.costPerAcquisition.toFixed(2)}</div>
+        <div class="metric-value">${formatMoney(results.costPerAcquisition, currency, 2)}</div>
+      </div>
+    </div>
+    ${allocation ? `
+    <div class="card">
+      <div class="card-title">🎯 Reparto de Presupuesto (${allocation.objective === 'profit' ? 'máximo beneficio' : 'máximas conversiones'})</div>
+      <div class="metric">
+        <div class="metric-label">ROAS esperado</div>
+        <div class="metric-value">${allocation.roas.toFixed(2)}x</div>
+      </div>
+      <div class="metric">
+        <div class="metric-label">CAC esperado</div>
+        <div class="metric-value">${formatMoney(allocation.cac, currency, 2)}</div>
+      </div>
+      <p>Asignado ${formatMoney(allocation.allocatedSpend, currency)} de ${formatMoney(allocation.totalBudget, currency)}${allocation.unallocated > 0 ? ` (${formatMoney(allocation.unallocated, currency)} sin asignar: más gasto no sería rentable)` : ''}</p>
+      <table class="allocation-table">
+        <tr><th>Canal</th><th>Inversión</th><th>%</th><th>Conversiones</th><th>ROAS</th><th>CAC</th></tr>
+        ${allocation.channels.map(channel => `<tr><td>${channel.channel}</td><td>${formatMoney(channel.spend, currency)}</td><td>${channel.share.toFixed(1)}%</td><td>${channel.conversions.toFixed(0)}</td><td>${channel.roas.toFixed(2)}x</td><td>${formatMoney(channel.cac, currency, 2)}</td></tr>`).join('')}
+      </table>
+    </div>` : ''}
+    <div class="card">
+      <div class="card-title">💡 Recomendaciones</div>
+      <ul class="recommendations">
+        ${recommendations.map(rec => `<li>${rec}</li>`).join('')}
+      </ul>
+    </div>
+    <div class="footer">
+      <p>CruxAnalytics - Análisis financiero para emprendedores</p>
+    </div>
+  </div>
+</body>
+</html>
+    `;
+}
+
+const VALUATION_METHOD_LABELS: Record<ValuationMethod, string> = {
+    dcf: 'DCF',
+    ev_revenue: 'EV/Ingresos',
+    ev_ebitda: 'EV/EBITDA',
+};
+
+/**
+ * Inline SVG football field: one horizontal bar per method from low to high, with the midpoint marked.
+ */
+function footballFieldSVG(bars: FootballFieldBar[], currency?: Currency): string {
+    const width = 640;
+    const rowHeight = 44;
+    const labelWidth = 110;
+    const pad = 20;
+    const height = bars.length * rowHeight + pad * 2;
+    const min = Math.min(0, ...bars.map(bar => bar.low));
+    const span = Math.max(...bars.map(bar => bar.high)) - min || 1;
+    const x = (value: number) => labelWidth + ((value - min) / span) * (width - labelWidth - pad);
+
+    const rows = bars.map((bar, index) => {
+        const y = pad + index * rowHeight;
+        return `<text x="0" y="${y + 20}" fill="#e5e7eb" font-size="13">${VALUATION_METHOD_LABELS[bar.method]}</text>
+        <rect x="${x(bar.low).toFixed(1)}" y="${y + 6}" width="${Math.max(2, x(bar.high) - x(bar.low)).toFixed(1)}" height="20" rx="4" fill="rgba(129, 140, 248, 0.6)" />
+        <line x1="${x(bar.mid).toFixed(1)}" x2="${x(bar.mid).toFixed(1)}" y1="${y + 2}" y2="${y + 30}" stroke="#10b981" stroke-width="3" />
+        <text x="${x(bar.low).toFixed(1)}" y="${y + 42}" fill="#9ca3af" font-size="10">${formatMoney(bar.low, currency)}</text>
+        <text x="${x(bar.high).toFixed(1)}" y="${y + 42}" fill="#9ca3af" font-size="10" text-anchor="end">${formatMoney(bar.high, currency)}</text>`;
+    }).join('');
+
+    return `<svg width="100%" viewBox="0 0 ${width} ${height}" xmlns="http://www.w3.org/2000/svg">${rows}</svg>`;
+}
+
+/**
+ * Generates HTML for the enterprise valuation PDF
+ */
+export function generateValuationPDF(data: {
+    inputs: { freeCashFlows: number[]; wacc: number; terminalGrowth: number; netDebt: number };
+    results: ValuationResult;
+    projectName?: string;
+    recommendations: string[];
+    currency?: Currency;
+}): string {
+    const { inputs, results, projectName, recommendations, currency } = data;
+    const { dcf, multiples, sensitivity } = results;
+
+    return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <title>Valoración de Empresa - CruxAnalytics</title>
+  <style>
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+      background: linear-gradient(135deg, #0f172a 0%, #1e1b4b 100%);
+      color: white;
+      padding: 40px;
+    }
+    .container { max-width: 800px; margin: 0 auto; }
+    .header { text-align: center; margin-bottom: 40px; padding-bottom: 20px; border-bottom: 1px solid rgba(255,255,255,0.1); }
+    .logo { font-size: 28px; font-weight: bold; }
+    .logo span { color: #818cf8; }
+    .title { font-size: 32px; margin: 30px 0; text-align: center; }
+    .card { background: rgba(255,255,255,0.05); border: 1px solid rgba(255,255,255,0.1); border-radius: 16px; padding: 24px; margin-bottom: 20px; }
+    .card-title { font-size: 18px; font-weight: 600; margin-bottom: 16px; color: #a5b4fc; }
+    .metric { margin-bottom: 16px; }
+    .metric-label { color: #9ca3af; font-size: 14px; }
+    .metric-value { font-size: 28px; font-weight: bold; margin-top: 4px; color: ${dcf.equityValue >= 0 ? '#10b981' : '#ef4444'}; }
+    .valuation-table { width: 100%; border-collapse: collapse; margin-top: 16px; font-size: 14px; }
+    .valuation-table th, .valuation-table td { padding: 8px; text-align: left; border-bottom: 1px solid rgba(255,255,255,0.05); }
+    .valuation-table th { color: #9ca3af; font-weight: 500; }
+    .valuation-table td.base { color: #10b981; font-weight: 600; }
+    .recommendations { list-style: none; }
+    .recommendations li { padding: 12px 0; border-bottom: 1px solid rgba(255,255,255,0.05); }
+    .footer { margin-top: 40px; padding-top: 20px; border-top: 1px solid rgba(255,255,255,0.1); text-align: center; color: #6b7280; font-size: 12px; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <div class="logo">Crux<span>Analytics</span></div>
+      <div class="date">Generado el ${new Date().toLocaleDateString('es-ES')}</div>
+    </div>
+    <h1 class="title">🏛️ Valoración de Empresa${projectName ? ` - ${projectName}` : ''}</h1>
+    <div class="card">
+      <div class="card-title">📊 Descuento de Flujos de Caja (WACC ${inputs.wacc}%, crecimiento terminal ${inputs.terminalGrowth}%)</div>
+      <div class="metric">
+        <div class="metric-label">Valor Empresa (EV)</div>
+        <div class="metric-value">${formatMoney(dcf.enterpriseValue, currency)}</div>
+      </div>
+      <div class="metric">
+        <div class="metric-label">Valor del Capital (EV - deuda neta de ${formatMoney(inputs.netDebt, currency)})</div>
+        <div class="metric-value">${formatMoney(dcf.equityValue, currency)}</div>
       </div>
+      <table class="valuation-table">
+        <tr><th>Año</th>${inputs.freeCashFlows.map((_, year) => `<th>${year + 1}</th>`).join('')}</tr>
+        <tr><td>Flujo de caja libre</td>${inputs.freeCashFlows.map(cashFlow => `<td>${formatMoney(cashFlow, currency)}</td>`).join('')}</tr>
+      </table>
+      <p style="margin-top: 16px;">VP de los flujos: ${formatMoney(dcf.presentValueOfCashFlows, currency)} · Valor terminal: ${formatMoney(dcf.terminalValue, currency)} (VP ${formatMoney(dcf.presentValueOfTerminalValue, currency)}, ${dcf.terminalValueShare.toFixed(0)}% del EV)</p>
+    </div>
+    ${multiples.length > 0 ? `
+    <div class="card">
+      <div class="card-title">🏢 Múltiplos Comparables</div>
+      <table class="valuation-table">
+        <tr><th>Método</th><th>Comparables</th><th>Mín.</th><th>Mediana</th><th>Máx.</th><th>EV</th><th>Capital</th></tr>
+        ${multiples.map(valuation => `<tr><td>${VALUATION_METHOD_LABELS[valuation.method]}</td><td>${valuation.peers}</td><td>${valuation.lowMultiple.toFixed(1)}x</td><td>${valuation.medianMultiple.toFixed(1)}x</td><td>${valuation.highMultiple.toFixed(1)}x</td><td>${formatMoney(valuation.enterpriseValue, currency)}</td><td>${formatMoney(valuation.equityValue, currency)}</td></tr>`).join('')}
+      </table>
+    </div>` : ''}
+    <div class="card">
+      <div class="card-title">🎯 Sensibilidad del EV (WACC × crecimiento terminal)</div>
+      <table class="valuation-table">
+        <tr><th>WACC</th>${sensitivity.growthRates.map(growth => `<th>g ${growth}%</th>`).join('')}</tr>
+        ${sensitivity.waccRates.map((wacc, row) => `<tr><td>${wacc}%</td>${sensitivity.enterpriseValues[row].map((value, column) => `<td class="${wacc === inputs.wacc && sensitivity.growthRates[column] === inputs.terminalGrowth ? 'base' : ''}">${value === null ? '—' : formatMoney(value, currency)}</td>`).join('')}</tr>`).join('')}
+      </table>
+    </div>
+    <div class="card">
+      <div class="card-title">🏈 Resumen de Valoración (valor del capital)</div>
+      ${footballFieldSVG(results.footballField, currency)}
     </div>
     <div class="card">
       <div class="card-title">💡 Recomendaciones</div>
@@ -0,0 +1,33 @@
+import * as FileSystem from 'expo-file-system/legacy';
+import * as Sharing from 'expo-sharing';
+import { Platform } from 'react-native';
+import { downloadWebFile } from '@/lib/platform-utils';
+import { createXlsx, toBase64, XLSX_MIME_TYPE, type XlsxSheet } from './xlsx-writer';
+
+/**
+ * Writes the sheets to an .xlsx file and hands it to the user: a download on web,
+ * the share sheet on native.
+ */
+export async function exportXlsx(sheets: XlsxSheet[], name: string): Promise<void> {
+    const bytes = createXlsx(sheets);
+    const fileName = `${name.trim().replace(/[^\w.-]+/g, '-') || 'workbook'}.xlsx`;
+
+    if (Platform.OS === 'web') {
+        downloadWebFile(bytes, fileName, XLSX_MIME_TYPE);
+        return;
+    }
+
+    const filePath = `${FileSystem.documentDirectory}${fileName}`;
+    await FileSystem.writeAsStringAsync(filePath, toBase64(bytes), {
+        encoding: FileSystem.EncodingType.Base64,
+    });
+
+    if (!(await Sharing.isAvailableAsync())) {
+        throw new Error('Sharing is not available on this platform');
+    }
+    await Sharing.shareAsync(filePath, {
+        mimeType: XLSX_MIME_TYPE,
+        UTI: 'org.openxmlformats.spreadsheetml.sheet',
+        dialogTitle: fileName,
+    });
+}
@@ -0,0 +1,545 @@
+import { cellRef, sheetRef, type XlsxCellInput, type XlsxSheet, type XlsxStyle } from './xlsx-writer';
+import { LoanCalculator } from '@/lib/infrastructure/calculators/LoanCalculator';
+import { CashFlowForecastCalculator } from '@/lib/infrastructure/calculators/CashFlowForecastCalculator';
+import { BreakEvenCalculator } from '@/lib/infrastructure/calculators/BreakEvenCalculator';
+import { PricingCalculator } from '@/lib/infrastructure/calculators/PricingCalculator';
+import { EmployeeROICalculator } from '@/lib/infrastructure/calculators/EmployeeROICalculator';
+import { MarketingROICalculator } from '@/lib/infrastructure/calculators/MarketingROICalculator';
+import { LineItemCashFlowCalculator } from '@/lib/infrastructure/calculators/LineItemCashFlowCalculator';
+import type { ProjectData, ScenarioSnapshot } from '@/types/project';
+
+/**
+ * Workbooks exported for analysts. Inputs are plain (blue) cells and everything derived
+ * from them is a formula, so changing an input in Excel recalculates the model. Formula
+ * cells carry the app's result as their cached value for previews that do not calculate.
+ */
+
+const INPUTS_SHEET = 'Inputs';
+const CASH_FLOW_SHEET = 'Cash Flow';
+const SCENARIOS_SHEET = 'Scenarios';
+
+const header = (...labels: string[]): XlsxCellInput[] => labels.map((value) => ({ value, style: 'header' }));
+const input = (value: number | null | undefined, style: XlsxStyle = 'input'): XlsxCellInput => ({ value: value ?? null, style });
+const formula = (text: string, value?: number | string | null, style: XlsxStyle = 'money'): XlsxCellInput => ({
+    formula: text,
+    value,
+    style,
+});
+
+interface KeyValueRow {
+    key: string;
+    label: string;
+    value?: number | string | null;
+    formula?: string; // May reference other rows as {key}
+    style: XlsxStyle;
+}
+
+/**
+ * Sheet with an inputs block and a results block in columns A (label) and B (value).
+ * Result formulas reference rows by key, e.g. `{price}-{cost}`.
+ */
+function keyValueSheet(name: string, inputs: KeyValueRow[], results: KeyValueRow[], trailing: XlsxCellInput[][] = []): XlsxSheet {
+    const rowOf = new Map<string, number>();
+    inputs.forEach((row, index) => rowOf.set(row.key, index + 2));
+    const resultsStart = inputs.length + 4;
+    results.forEach((row, index) => rowOf.set(row.key, resultsStart + index));
+
+    const resolve = (text: string) =>
+        text.replace(/\{(\w+)\}/g, (_, key: string) => {
+            const row = rowOf.get(key);
+            if (row === undefined) throw new Error(`Unknown cell key: ${key}`);
+            return cellRef(1, row, true);
+        });
+    const toRow = (row: KeyValueRow): XlsxCellInput[] => [
+        row.label,
+        row.formula
+            ? formula(resolve(row.formula), row.value, row.style)
+            : input(typeof row.value === 'number' ? row.value : null, row.style),
+    ];
+
+    return {
+        name,
+        columnWidths: [32, 18, 16, 16, 16, 16, 16, 16],
+        rows: [
+            header('Input', 'Value'),
+            ...inputs.map(toRow),
+            [],
+            header('Result', 'Value'),
+            ...results.map(toRow),
+            ...(trailing.length > 0 ? [[] as XlsxCellInput[], ...trailing] : []),
+        ],
+    };
+}
+
+/**
+ * Row of the first trailing row (a table below the results) in a keyValueSheet
+ */
+function trailingStartRow(inputCount: number, resultCount: number): number {
+    return inputCount + resultCount + 5;
+}
+
+/**
+ * Cash flows can be rebuilt from the inputs only for the single revenue/cost model;
+ * line items, the SaaS MRR projection, fiscal and inflation layers are exported as the
+ * engine's monthly values.
+ */
+function isFormulaModel(project: ProjectData): boolean {
+    return !new LineItemCashFlowCalculator().hasLineItems(project.lineItems) &&
+        !(project.businessModel === 'saas' && project.saasInput) &&
+        !project.fiscalAssumptions &&
+        !project.inflation;
+}
+
+/**
+ * Inputs, monthly cash flow and scenarios of a project. NPV, IRR, ROI and payback are
+ * formulas over the cash flow sheet; the "App value" column shows the saved results.
+ */
+export function buildProjectWorkbook(
+    project: ProjectData,
+    scenarios: ScenarioSnapshot[] = project.scenarios ?? []
+): XlsxSheet[] {
+    const formulaModel = isFormulaModel(project);
+    const results = project.results;
+    const lineItemCalculator = new LineItemCashFlowCalculator();
+    // Line items replace the upfront investment with their own capex
+    const upfrontInvestment = lineItemCalculator.hasLineItems(project.lineItems)
+        ? lineItemCalculator.calculate(project.lineItems, project.projectDuration, 1).upfrontInvestment
+        : project.initialInvestment;
+    const months = formulaModel ? project.projectDuration : results?.monthlyCashFlow.length ?? 0;
+
+    const input$ = (row: number) => sheetRef(INPUTS_SHEET, cellRef(1, row, true));
+    const cf$ = (column: number, row: number) => sheetRef(CASH_FLOW_SHEET, cellRef(column, row, true));
+    const firstMonthRow = 3;
+    const lastRow = firstMonthRow + months - 1;
+    const cfRange = (column: number, from: number = firstMonthRow) =>
+        sheetRef(CASH_FLOW_SHEET, `${cellRef(column, from, true)}:${cellRef(column, lastRow, true)}`);
+
+    // The formulas reproduce the engine for the formula model, so its results are the cached values
+    const cached = formulaModel ? results : undefined;
+
+    // Inputs (rows 2-10) and results (rows 13-18)
+    const monthlyRate = Math.pow(1 + project.discountRate / 100, 1 / 12) - 1;
+    const inputsSheet: XlsxSheet = {
+        name: INPUTS_SHEET,
+        columnWidths: [34, 18, 18],
+        rows: [
+            header('Input', 'Value', 'Unit'),
+            ['Initial investment', input(upfrontInvestment), project.currency ?? 'USD'],
+            ['Discount rate', input(project.discountRate, 'number'), '% per year'],
+            ['Project duration', input(project.projectDuration, 'number'), 'months'],
+            ['Yearly revenue', input(project.yearlyRevenue), 'per year'],
+            ['Revenue growth', input(project.revenueGrowth, 'number'), '% per year'],
+            ['Operating costs', input(project.operatingCosts), 'per year'],
+            ['Maintenance costs', input(project.maintenanceCosts), 'per year'],
+            ['Best case multiplier', input(project.bestCaseMultiplier, 'number'), 'x revenue'],
+            ['Worst case multiplier', input(project.worstCaseMultiplier, 'number'), 'x revenue'],
+            [],
+            header('Result', 'Value', 'App value'),
+            ['Monthly discount rate', formula('(1+B3/100)^(1/12)-1', monthlyRate, 'percent')],
+            [
+                'NPV',
+                formula(`${cf$(5, 2)}+NPV(B13,${cfRange(5)})`, cached?.npv),
+                input(results?.npv, 'money'),
+            ],
+            [
+                'IRR (annual)',
+                formula(`IFERROR((1+IRR(${cfRange(5, 2)}))^12-1,"n/a")`, cached ? cached.irr / 100 : undefined, 'percent'),
+                input(results ? results.irr / 100 : null, 'percent'),
+            ],
+            [
+                'ROI',
+                formula(`(SUM(${cfRange(5)})-B2)/B2`, cached ? cached.roi / 100 : undefined, 'percent'),
+                input(results ? results.roi / 100 : null, 'percent'),
+            ],
+            [
+                'Payback (months)',
+                // First month the cumulative cash flow turns positive, interpolated within the month
+                formula(
+                    `IFERROR(MATCH(TRUE,INDEX(${cfRange(7)}>=0,0),0)-1-INDEX(${cfRange(7, 2)},MATCH(TRUE,INDEX(${cfRange(7)}>=0,0),0))/INDEX(${cfRange(5)},MATCH(TRUE,INDEX(${cfRange(7)}>=0,0),0)),"n/a")`,
+                    cached?.paybackPeriod,
+                    'number'
+                ),
+                input(results?.paybackPeriod, 'number'),
+            ],
+            ['Engine version', null, results?.calculatorVersion ?? ''],
+            [],
+            [formulaModel
+                ? 'Blue cells are inputs. The cash flow and scenario sheets recalculate from them.'
+                : 'This project uses line items, tax or inflation assumptions: monthly cash flows are the app\'s values and only the valuation formulas recalculate.'],
+        ],
+    };
+
+    // Monthly cash flow: month 0 holds the upfront investment
+    const cashFlowRows: XlsxCellInput[][] = [
+        header('Month', 'Revenue', 'Operating costs', 'Maintenance', 'Capex', 'Net cash flow', 'Discounted', 'Cumulative'),
+        [
+            0,
+            input(0, 'money'),
+            input(0, 'money'),
+            input(0, 'money'),
+            formula(input$(2), upfrontInvestment),
+            formula('B2-C2-D2-E2', -upfrontInvestment),
+            formula('F2', -upfrontInvestment),
+            formula('F2', -upfrontInvestment),
+        ],
+    ];
+    let cumulative = -upfrontInvestment;
+    for (let month = 1; month <= months; month++) {
+        const row = firstMonthRow + month - 1;
+        const revenue = (project.yearlyRevenue * Math.pow(1 + project.revenueGrowth / 100, (month - 1) / 12)) / 12;
+        const netCashFlow = formulaModel
+            ? revenue - (project.operatingCosts + project.maintenanceCosts) / 12
+            : results?.monthlyCashFlow[month - 1] ?? 0;
+        cumulative += netCashFlow;
+
+        cashFlowRows.push([
+            month,
+            ...(formulaModel
+                ? [
+                    formula(`${input$(5)}*(1+${input$(6)}/100)^((A${row}-1)/12)/12`, revenue),
+                    formula(`${input$(7)}/12`, project.operatingCosts / 12),
+                    formula(`${input$(8)}/12`, project.maintenanceCosts / 12),
+                    input(0),
+                    formula(`B${row}-C${row}-D${row}-E${row}`, netCashFlow),
+                ]
+                : [null, null, null, null, input(netCashFlow)]),
+            formula(`F${row}/(1+${input$(13)})^A${row}`, netCashFlow / Math.pow(1 + monthlyRate, month)),
+            formula(`H${row - 1}+F${row}`, cumulative),
+        ]);
+    }
+    if (months > 0) {
+        cashFlowRows.push([]);
+        cashFlowRows.push([
+            { value: 'Total', style: 'header' },
+            ...[1, 2, 3, 4, 5, 6].map((column) => formula(`SUM(${cellRef(column, 2)}:${cellRef(column, lastRow)})`)),
+        ]);
+    }
+
+    // Scenarios: revenue multiplier and the compare screen's adjustments on top of the inputs
+    const scenarioRows: { name: string; sales: number; costs: number; discount: number; multiplier: XlsxCellInput; npv?: number }[] = [
+        { name: 'Expected', sales: 0, costs: 0, discount: 0, multiplier: input(1, 'number'), npv: results?.npv },
+        { name: 'Best case', sales: 0, costs: 0, discount: 0, multiplier: formula(input$(9), project.bestCaseMultiplier, 'number'), npv: results?.npvBest },
+        { name: 'Worst case', sales: 0, costs: 0, discount: 0, multiplier: formula(input$(10), project.worstCaseMultiplier, 'number'), npv: results?.npvWorst },
+        ...scenarios.map((scenario) => ({
+            name: scenario.name,
+            sales: scenario.salesAdjustment,
+            costs: scenario.costsAdjustment,
+            discount: scenario.discountAdjustment,
+            multiplier: input(1, 'number'),
+            npv: scenario.results?.npv,
+        })),
+    ];
+    const scenariosSheet: XlsxSheet = {
+        name: SCENARIOS_SHEET,
+        columnWidths: [28, 18, 18, 22, 18, 18, 18],
+        rows: [
+            header('Scenario', 'Sales adjustment %', 'Costs adjustment %', 'Discount adjustment (pts)', 'Revenue multiplier', 'NPV', 'App NPV'),
+            ...scenarioRows.map((scenario, index) => {
+                const row = index + 2;
+                const npv = formulaModel && months > 0
+                    ? formula(
+                        `-${input$(2)}+SUMPRODUCT((${cfRange(1)}*E${row}*(1+B${row}/100)-(${cfRange(2)}+${cfRange(3)})*(1+C${row}/100)-${cfRange(4)})/(1+${input$(3)}/100+D${row}/100)^(${cfRange(0)}/12))`,
+                        scenario.npv
+                    )
+                    : null;
+                return [
+                    scenario.name,
+                    input(scenario.sales, 'number'),
+                    input(scenario.costs, 'number'),
+                    input(scenario.discount, 'number'),
+                    scenario.multiplier,
+                    npv,
+                    input(scenario.npv, 'money'),
+                ];
+            }),
+        ],
+    };
+
+    return [
+        inputsSheet,
+        { name: CASH_FLOW_SHEET, columnWidths: [8, 16, 16, 16, 16, 16, 16, 16], rows: cashFlowRows },
+        scenariosSheet,
+    ];
+}
+
+export interface LoanWorkbookInput {
+    principal: number;
+    annualInterestRate: number; // %
+    termMonths: number;
+    originationFee?: number; // % of principal
+}
+
+/**
+ * Loan terms, PMT-based payment and the full amortization schedule from LoanCalculator
+ */
+export function buildLoanWorkbook(loan: LoanWorkbookInput): XlsxSheet[] {
+    const result = new LoanCalculator().calculate(loan);
+    const originationFee = loan.originationFee ?? 0;
+    const fees = loan.principal * (originationFee / 100);
+
+    // Header and month 0 come first, month 1 is three rows below the table start
+    const firstMonthRow = trailingStartRow(4, 5) + 2;
+    const schedule: XlsxCellInput[][] = [
+        header('Month', 'Payment', 'Principal', 'Interest', 'Balance'),
+        [0, null, null, null, formula('$B$2', loan.principal)],
+        ...result.amortizationSchedule.map((entry, index) => {
+            const row = firstMonthRow + index;
+            return [
+                entry.month,
+                formula('$B$8', entry.payment),
+                formula(`B${row}-D${row}`, entry.principal),
+                formula(`E${row - 1}*$B$3/100/12`, entry.interest),
+                formula(`E${row - 1}-C${row}`, entry.balance),
+            ];
+        }),
+    ];
+
+    return [
+        keyValueSheet(
+            'Loan',
+            [
+                { key: 'principal', label: 'Loan amount', value: loan.principal, style: 'input' },
+                { key: 'rate', label: 'Annual interest rate (%)', value: loan.annualInterestRate, style: 'input' },
+                { key: 'term', label: 'Term (months)', value: loan.termMonths, style: 'input' },
+                { key: 'fee', label: 'Origination fee (%)', value: originationFee, style: 'input' },
+            ],
+            [
+                { key: 'payment', label: 'Monthly payment', formula: 'PMT({rate}/100/12,{term},-{principal})', value: result.monthlyPayment, style: 'money' },
+                { key: 'total', label: 'Total payment', formula: '{payment}*{term}', value: result.totalPayment, style: 'money' },
+                { key: 'interest', label: 'Total interest', formula: '{total}-{principal}', value: result.totalInterest, style: 'money' },
+                { key: 'fees', label: 'Fees', formula: '{principal}*{fee}/100', value: fees, style: 'money' },
+                { key: 'cost', label: 'Total cost with fees', formula: '{total}+{fees}', value: result.totalCostWithFees, style: 'money' },
+            ],
+            schedule
+        ),
+    ];
+}
+
+export interface CashFlowForecastWorkbookInput {
+    startingCash: number;
+    monthlyRevenue: number;
+    monthlyExpenses: number;
+    revenueGrowthRate?: number; // % per month
+    expenseGrowthRate?: number; // % per month
+    forecastMonths?: number;
+    seasonalFactors?: number[];
+    oneTimeExpenses?: { month: number; amount: number }[];
+    expectedReceivables?: { month: number; amount: number }[];
+}
+
+/**
+ * Month-by-month forecast from CashFlowForecastCalculator. Seasonal factors, one-time
+ * expenses and receivables are per-month inputs in the table.
+ */
+export function buildCashFlowForecastWorkbook(forecast: CashFlowForecastWorkbookInput): XlsxSheet[] {
+    const result = new CashFlowForecastCalculator().calculate(forecast);
+    const months = result.monthlyForecasts.length;
+
+    // 5 inputs and 6 results above the table, whose first row is its header
+    const firstRow = trailingStartRow(5, 6) + 1;
+    const lastRow = firstRow + months - 1;
+    const table: XlsxCellInput[][] = [
+        header('Month', 'Seasonal factor', 'One-time expense', 'Receivable', 'Revenue', 'Expenses', 'Net cash flow', 'Ending cash'),
+        ...result.monthlyForecasts.map((entry, index) => {
+            const row = firstRow + index;
+            const previous = index === 0 ? '$B$2' : `H${row - 1}`;
+            return [
+                entry.month,
+                input(forecast.seasonalFactors?.[index] || 1, 'number'),
+                input(forecast.oneTimeExpenses?.find((e) => e.month === entry.month)?.amount ?? 0),
+                input(forecast.expectedReceivables?.find((r) => r.month === entry.month)?.amount ?? 0),
+                formula(`$B$3*(1+$B$5/100)^(A${row}-1)*B${row}+D${row}`, entry.revenue),
+                formula(`$B$4*(1+$B$6/100)^(A${row}-1)+C${row}`, entry.expenses),
+                formula(`E${row}-F${row}`, entry.netCashFlow),
+                formula(`${previous}+G${row}`, entry.endingCash),
+            ];
+        }),
+    ];
+
+    return [
+        keyValueSheet(
+            'Forecast',
+            [
+                { key: 'starting', label: 'Starting cash', value: forecast.startingCash, style: 'input' },
+                { key: 'revenue', label: 'Monthly revenue', value: forecast.monthlyRevenue, style: 'input' },
+                { key: 'expenses', label: 'Monthly expenses', value: forecast.monthlyExpenses, style: 'input' },
+                { key: 'revenueGrowth', label: 'Revenue growth (% per month)', value: forecast.revenueGrowthRate ?? 0, style: 'input' },
+                { key: 'expenseGrowth', label: 'Expense growth (% per month)', value: forecast.expenseGrowthRate ?? 0, style: 'input' },
+            ],
+            [
+                { key: 'totalRevenue', label: 'Total revenue', formula: `SUM(E${firstRow}:E${lastRow})`, value: result.totalRevenue, style: 'money' },
+                { key: 'totalExpenses', label: 'Total expenses', formula: `SUM(F${firstRow}:F${lastRow})`, value: result.totalExpenses, style: 'money' },
+                { key: 'net', label: 'Net cash flow', formula: '{totalRevenue}-{totalExpenses}', value: result.totalNetCashFlow, style: 'money' },
+                { key: 'ending', label: 'Ending cash', formula: `H${lastRow}`, value: result.endingCashBalance, style: 'money' },
+                { key: 'lowest', label: 'Lowest cash balance', formula: `MIN({starting},H${firstRow}:H${lastRow})`, value: result.lowestCashBalance, style: 'money' },
+                { key: 'deficit', label: 'Months in deficit', formula: `COUNTIF(H${firstRow}:H${lastRow},"<0")`, value: result.deficitMonths.length, style: 'number' },
+            ],
+            table
+        ),
+    ];
+}
+
+export interface BreakEvenWorkbookInput {
+    fixedCosts: number;
+    pricePerUnit: number;
+    variableCostPerUnit: number;
+    currentSalesUnits?: number;
+}
+
+export function buildBreakEvenWorkbook(data: BreakEvenWorkbookInput): XlsxSheet[] {
+    const result = new BreakEvenCalculator().calculate(data);
+
+    return [
+        keyValueSheet(
+            'Break-even',
+            [
+                { key: 'fixed', label: 'Fixed costs', value: data.fixedCosts, style: 'input' },
+                { key: 'price', label: 'Price per unit', value: data.pricePerUnit, style: 'input' },
+                { key: 'variable', label: 'Variable cost per unit', value: data.variableCostPerUnit, style: 'input' },
+                { key: 'sales', label: 'Current sales (units)', value: data.currentSalesUnits ?? null, style: 'input' },
+            ],
+            [
+                { key: 'margin', label: 'Contribution margin per unit', formula: '{price}-{variable}', value: result.contributionMarginPerUnit, style: 'money' },
+                { key: 'ratio', label: 'Contribution margin ratio', formula: '{margin}/{price}', value: result.contributionMarginRatio / 100, style: 'percent' },
+                { key: 'units', label: 'Break-even units', formula: '{fixed}/{margin}', value: result.breakEvenUnits, style: 'number' },
+                { key: 'revenue', label: 'Break-even revenue', formula: '{units}*{price}', value: result.breakEvenRevenue, style: 'money' },
+                {
+                    key: 'safety',
+                    label: 'Margin of safety',
+                    formula: 'IF({sales}="","",({sales}-{units})/{sales})',
+                    value: result.marginOfSafety === null ? '' : result.marginOfSafety / 100,
+                    style: 'percent',
+                },
+            ]
+        ),
+    ];
+}
+
+export interface PricingWorkbookInput {
+    costPerUnit: number;
+    desiredMargin: number; // %
+    competitorPrice?: number;
+}
+
+export function buildPricingWorkbook(data: PricingWorkbookInput): XlsxSheet[] {
+    const result = new PricingCalculator().calculate(data);
+
+    return [
+        keyValueSheet(
+            'Pricing',
+            [
+                { key: 'cost', label: 'Cost per unit', value: data.costPerUnit, style: 'input' },
+                { key: 'margin', label: 'Desired margin (%)', value: data.desiredMargin, style: 'input' },
+                { key: 'competitor', label: 'Competitor price', value: data.competitorPrice ?? null, style: 'input' },
+            ],
+            [
+                { key: 'target', label: 'Target margin price', formula: '{cost}/(1-{margin}/100)', value: result.targetMarginPrice, style: 'money' },
+                { key: 'markup', label: 'Markup', formula: '({target}-{cost})/{cost}', value: result.markupPercentage / 100, style: 'percent' },
+                { key: 'profit', label: 'Gross profit per unit', formula: '{target}-{cost}', value: result.grossProfitPerUnit, style: 'money' },
+                {
+                    key: 'recommended',
+                    label: 'Recommended price',
+                    // 70% own target, 30% competitor, never below cost plus 10%
+                    formula: 'MAX(IF({competitor}="",{target},{target}*0.7+{competitor}*0.3),{cost}*1.1)',
+                    value: result.recommendedPrice,
+                    style: 'money',
+                },
+                {
+                    key: 'difference',
+                    label: 'Difference vs competitor',
+                    formula: 'IF({competitor}="","",{target}-{competitor})',
+                    value: result.competitorComparison?.difference ?? '',
+                    style: 'money',
+                },
+            ]
+        ),
+    ];
+}
+
+export interface EmployeeROIWorkbookInput {
+    annualSalary: number;
+    annualBenefits: number;
+    onboardingCosts: number;
+    revenueGenerated: number;
+    hoursPerWeek: number;
+    roleType?: string;
+}
+
+export function buildEmployeeROIWorkbook(data: EmployeeROIWorkbookInput): XlsxSheet[] {
+    const result = new EmployeeROICalculator().calculate(data);
+
+    return [
+        keyValueSheet(
+            'Employee ROI',
+            [
+                { key: 'salary', label: 'Annual salary', value: data.annualSalary, style: 'input' },
+                { key: 'benefits', label: 'Annual benefits', value: data.annualBenefits, style: 'input' },
+                { key: 'onboarding', label: 'Onboarding costs', value: data.onboardingCosts, style: 'input' },
+                { key: 'revenue', label: 'Revenue generated per year', value: data.revenueGenerated, style: 'input' },
+                { key: 'hours', label: 'Hours per week', value: data.hoursPerWeek, style: 'input' },
+            ],
+            [
+                { key: 'cost', label: 'Total first-year cost', formula: '{salary}+{benefits}+{onboarding}', value: result.totalCost, style: 'money' },
+                { key: 'net', label: 'Net contribution', formula: '{revenue}-{cost}', value: result.netContribution, style: 'money' },
+                { key: 'roi', label: 'ROI', formula: '{net}/{cost}', value: result.roiPercentage / 100, style: 'percent' },
+                { key: 'costHour', label: 'Cost per hour', formula: '({salary}+{benefits})/({hours}*52)', value: result.costPerHour, style: 'money' },
+                { key: 'revenueHour', label: 'Revenue per hour', formula: '{revenue}/({hours}*52)', value: result.revenuePerHour, style: 'money' },
+                {
+                    key: 'payback',
+                    label: 'Payback (months)',
+                    formula: 'IF({net}>0,{onboarding}/({net}/12),"n/a")',
+                    value: result.paybackMonths ?? 'n/a',
+                    style: 'number',
+                },
+            ]
+        ),
+    ];
+}
+
+export interface MarketingROIWorkbookInput {
+    totalSpend: number;
+    conversions: number;
+    revenuePerConversion: number;
+    channel?: string;
+    impressions?: number;
+    clicks?: number;
+}
+
+export function buildMarketingROIWorkbook(data: MarketingROIWorkbookInput): XlsxSheet[] {
+    const result = new MarketingROICalculator().calculate({ ...data, channel: data.channel ?? 'other' });
+
+    return [
+        keyValueSheet(
+            'Marketing ROI',
+            [
+                { key: 'spend', label: 'Total spend', value: data.totalSpend, style: 'input' },
+                { key: 'conversions', label: 'Conversions', value: data.conversions, style: 'input' },
+                { key: 'revenuePer', label: 'Revenue per conversion', value: data.revenuePerConversion, style: 'input' },
+                { key: 'impressions', label: 'Impressions', value: data.impressions ?? null, style: 'input' },
+                { key: 'clicks', label: 'Clicks', value: data.clicks ?? null, style: 'input' },
+            ],
+            [
+                { key: 'revenue', label: 'Total revenue', formula: '{conversions}*{revenuePer}', value: result.totalRevenue, style: 'money' },
+                { key: 'profit', label: 'Net profit', formula: '{revenue}-{spend}', value: result.netProfit, style: 'money' },
+                { key: 'roi', label: 'ROI', formula: '{profit}/{spend}', value: result.roiPercentage / 100, style: 'percent' },
+                { key: 'roas', label: 'ROAS', formula: '{revenue}/{spend}', value: result.roas, style: 'number' },
+                { key: 'cpa', label: 'Cost per acquisition', formula: '{spend}/{conversions}', value: result.costPerAcquisition, style: 'money' },
+                {
+                    key: 'ctr',
+                    label: 'Click-through rate',
+                    formula: 'IF(N({impressions})>0,N({clicks})/{impressions},"")',
+                    value: result.clickThroughRate === null ? '' : result.clickThroughRate / 100,
+                    style: 'percent',
+                },
+                {
+                    key: 'conversionRate',
+                    label: 'Conversion rate',
+                    formula: 'IF(N({clicks})>0,{conversions}/{clicks},"")',
+                    value: result.conversionRate === null ? '' : result.conversionRate / 100,
+                    style: 'percent',
+                },
+                { key: 'breakEven', label: 'Break-even conversions', formula: 'ROUNDUP({spend}/{revenuePer},0)', value: result.breakEvenConversions, style: 'number' },
+            ]
+        ),
+    ];
+}
@@ -0,0 +1,312 @@
+/**
+ * Minimal XLSX (SpreadsheetML) writer.
+ *
+ * Produces a workbook with inline strings, numbers and formula cells packed in an
+ * uncompressed ZIP, which is all Excel, Numbers, LibreOffice and Google Sheets need.
+ * Formula cells may carry a cached value for viewers that do not calculate (previews);
+ * the workbook asks the spreadsheet to recalculate on open, so Excel always shows the
+ * live result.
+ */
+
+export type XlsxStyle = 'default' | 'header' | 'input' | 'money' | 'percent' | 'number';
+
+export interface XlsxCell {
+    value?: string | number | boolean | null;
+    formula?: string; // Without the leading '='; value is then the cached result
+    style?: XlsxStyle;
+}
+
+export type XlsxCellInput = XlsxCell | string | number | null | undefined;
+
+export interface XlsxSheet {
+    name: string; // Max 31 characters, no []:*?/\
+    columnWidths?: number[]; // In characters, by column
+    rows: XlsxCellInput[][];
+}
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+/**
+ * Index of each style in the cellXfs list of styles.xml
+ */
+const STYLE_INDEX: Record<XlsxStyle, number> = {
+    default: 0,
+    header: 1,
+    input: 2,
+    money: 3,
+    percent: 4,
+    number: 5,
+};
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<fonts count="3"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font><font><sz val="11"/><color rgb="FF1F4E9E"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="6"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/><xf numFmtId="4" fontId="2" fillId="0" borderId="0" xfId="0" applyFont="1" applyNumberFormat="1"/><xf numFmtId="4" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/><xf numFmtId="10" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/><xf numFmtId="2" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/></cellXfs>
+<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>
+</styleSheet>`;
+
+/**
+ * A1-style reference from a zero-based column and a one-based row
+ */
+export function cellRef(column: number, row: number, absolute: boolean = false): string {
+    let name = '';
+    for (let index = column; index >= 0; index = Math.floor(index / 26) - 1) {
+        name = String.fromCharCode(65 + (index % 26)) + name;
+    }
+    return absolute ? `$${name}$${row}` : `${name}${row}`;
+}
+
+/**
+ * Reference to a cell on another sheet, quoting the sheet name when needed
+ */
+export function sheetRef(sheet: string, ref: string): string {
+    return /^[A-Za-z_][A-Za-z0-9_.]*$/.test(sheet) ? `${sheet}!${ref}` : `'${sheet.replace(/'/g, "''")}'!${ref}`;
+}
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        // Control characters are not allowed in XML 1.0
+        .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
+
+function normalizeCell(input: XlsxCellInput): XlsxCell | null {
+    if (input === null || input === undefined) return null;
+    if (typeof input === 'string' || typeof input === 'number') return { value: input };
+    return input;
+}
+
+function cellXml(input: XlsxCellInput, ref: string): string {
+    const cell = normalizeCell(input);
+    if (!cell) return '';
+
+    const style = cell.style && cell.style !== 'default' ? ` s="${STYLE_INDEX[cell.style]}"` : '';
+    const { value } = cell;
+    if (cell.formula) {
+        const formula = `<f>${escapeXml(cell.formula)}</f>`;
+        if (typeof value === 'number' && Number.isFinite(value)) {
+            return `<c r="${ref}"${style}>${formula}<v>${value}</v></c>`;
+        }
+        if (typeof value === 'string') {
+            return `<c r="${ref}"${style} t="str">${formula}<v>${escapeXml(value)}</v></c>`;
+        }
+        return `<c r="${ref}"${style}>${formula}</c>`;
+    }
+    if (value === null || value === undefined) {
+        return style ? `<c r="${ref}"${style}/>` : '';
+    }
+    if (typeof value === 'number') {
+        // Non-finite numbers cannot be stored, leave the cell empty
+        return Number.isFinite(value) ? `<c r="${ref}"${style}><v>${value}</v></c>` : `<c r="${ref}"${style}/>`;
+    }
+    if (typeof value === 'boolean') {
+        return `<c r="${ref}"${style} t="b"><v>${value ? 1 : 0}</v></c>`;
+    }
+    return `<c r="${ref}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+}
+
+function worksheetXml(sheet: XlsxSheet): string {
+    const columns = sheet.columnWidths && sheet.columnWidths.length > 0
+        ? `<cols>${sheet.columnWidths
+            .map((width, index) => `<col min="${index + 1}" max="${index + 1}" width="${width}" customWidth="1"/>`)
+            .join('')}</cols>`
+        : '';
+    const rows = sheet.rows
+        .map((row, rowIndex) => {
+            const cells = row.map((cell, column) => cellXml(cell, cellRef(column, rowIndex + 1))).join('');
+            return cells ? `<row r="${rowIndex + 1}">${cells}</row>` : '';
+        })
+        .join('');
+
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">${columns}<sheetData>${rows}</sheetData></worksheet>`;
+}
+
+function validateSheetNames(sheets: XlsxSheet[]): void {
+    const seen = new Set<string>();
+    sheets.forEach((sheet) => {
+        if (!sheet.name || sheet.name.length > 31 || /[[\]:*?/\\]/.test(sheet.name)) {
+            throw new Error(`Invalid sheet name: ${sheet.name}`);
+        }
+        const key = sheet.name.toLowerCase();
+        if (seen.has(key)) throw new Error(`Duplicate sheet name: ${sheet.name}`);
+        seen.add(key);
+    });
+}
+
+/**
+ * Serializes sheets into the bytes of an .xlsx file
+ */
+export function createXlsx(sheets: XlsxSheet[]): Uint8Array {
+    if (sheets.length === 0) throw new Error('A workbook needs at least one sheet');
+    validateSheetNames(sheets);
+
+    const sheetEntries = sheets.map((sheet, index) => ({
+        id: index + 1,
+        path: `xl/worksheets/sheet${index + 1}.xml`,
+        sheet,
+    }));
+
+    const contentTypes = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+${sheetEntries
+        .map(({ path }) => `<Override PartName="/${path}" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`)
+        .join('\n')}
+</Types>`;
+
+    const rootRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`;
+
+    const workbook = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets>${sheetEntries
+        .map(({ id, sheet }) => `<sheet name="${escapeXml(sheet.name)}" sheetId="${id}" r:id="rId${id}"/>`)
+        .join('')}</sheets>
+<calcPr calcId="191029" fullCalcOnLoad="1"/>
+</workbook>`;
+
+    const workbookRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+${sheetEntries
+        .map(({ id, path }) => `<Relationship Id="rId${id}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="${path.replace('xl/', '')}"/>`)
+        .join('\n')}
+<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+
+    const encoder = new TextEncoder();
+    return createZip([
+        { name: '[Content_Types].xml', data: encoder.encode(contentTypes) },
+        { name: '_rels/.rels', data: encoder.encode(rootRels) },
+        { name: 'xl/workbook.xml', data: encoder.encode(workbook) },
+        { name: 'xl/_rels/workbook.xml.rels', data: encoder.encode(workbookRels) },
+        { name: 'xl/styles.xml', data: encoder.encode(STYLES_XML) },
+        ...sheetEntries.map(({ path, sheet }) => ({ name: path, data: encoder.encode(worksheetXml(sheet)) })),
+    ]);
+}
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * CRC-32 (IEEE 802.3) checksum as used by ZIP
+ */
+export function crc32(data: Uint8Array): number {
+    if (!crcTable) {
+        crcTable = new Uint32Array(256);
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) {
+                c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+            }
+            crcTable[n] = c >>> 0;
+        }
+    }
+
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) {
+        crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Packs files into a ZIP archive without compression (method 0, "stored")
+ */
+export function createZip(files: { name: string; data: Uint8Array }[]): Uint8Array {
+    const encoder = new TextEncoder();
+    const entries = files.map((file) => ({ ...file, nameBytes: encoder.encode(file.name), crc: crc32(file.data) }));
+
+    const localSize = entries.reduce((sum, entry) => sum + 30 + entry.nameBytes.length + entry.data.length, 0);
+    const centralSize = entries.reduce((sum, entry) => sum + 46 + entry.nameBytes.length, 0);
+    const output = new Uint8Array(localSize + centralSize + 22);
+    const view = new DataView(output.buffer);
+
+    // Timestamps are fixed to 1980-01-01 so the same workbook always produces the same bytes
+    const dosTime = 0;
+    const dosDate = (1 << 5) | 1;
+    const utf8Flag = 0x0800;
+
+    let offset = 0;
+    const offsets: number[] = [];
+    entries.forEach((entry) => {
+        offsets.push(offset);
+        view.setUint32(offset, 0x04034b50, true);
+        view.setUint16(offset + 4, 20, true);
+        view.setUint16(offset + 6, utf8Flag, true);
+        view.setUint16(offset + 8, 0, true);
+        view.setUint16(offset + 10, dosTime, true);
+        view.setUint16(offset + 12, dosDate, true);
+        view.setUint32(offset + 14, entry.crc, true);
+        view.setUint32(offset + 18, entry.data.length, true);
+        view.setUint32(offset + 22, entry.data.length, true);
+        view.setUint16(offset + 26, entry.nameBytes.length, true);
+        view.setUint16(offset + 28, 0, true);
+        output.set(entry.nameBytes, offset + 30);
+        output.set(entry.data, offset + 30 + entry.nameBytes.length);
+        offset += 30 + entry.nameBytes.length + entry.data.length;
+    });
+
+    const centralStart = offset;
+    entries.forEach((entry, index) => {
+        view.setUint32(offset, 0x02014b50, true);
+        view.setUint16(offset + 4, 20, true);
+        view.setUint16(offset + 6, 20, true);
+        view.setUint16(offset + 8, utf8Flag, true);
+        view.setUint16(offset + 10, 0, true);
+        view.setUint16(offset + 12, dosTime, true);
+        view.setUint16(offset + 14, dosDate, true);
+        view.setUint32(offset + 16, entry.crc, true);
+        view.setUint32(offset + 20, entry.data.length, true);
+        view.setUint32(offset + 24, entry.data.length, true);
+        view.setUint16(offset + 28, entry.nameBytes.length, true);
+        view.setUint16(offset + 30, 0, true);
+        view.setUint16(offset + 32, 0, true);
+        view.setUint16(offset + 34, 0, true);
+        view.setUint16(offset + 36, 0, true);
+        view.setUint32(offset + 38, 0, true);
+        view.setUint32(offset + 42, offsets[index], true);
+        output.set(entry.nameBytes, offset + 46);
+        offset += 46 + entry.nameBytes.length;
+    });
+
+    view.setUint32(offset, 0x06054b50, true);
+    view.setUint16(offset + 4, 0, true);
+    view.setUint16(offset + 6, 0, true);
+    view.setUint16(offset + 8, entries.length, true);
+    view.setUint16(offset + 10, entries.length, true);
+    view.setUint32(offset + 12, offset - centralStart, true);
+    view.setUint32(offset + 16, centralStart, true);
+    view.setUint16(offset + 20, 0, true);
+
+    return output;
+}
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * Base64 of binary data, for writing the workbook through APIs that only take strings
+ */
+export function toBase64(bytes: Uint8Array): string {
+    let output = '';
+    for (let i = 0; i < bytes.length; i += 3) {
+        const a = bytes[i];
+        const b = i + 1 < bytes.length ? bytes[i + 1] : 0;
+        const c = i + 2 < bytes.length ? bytes[i + 2] : 0;
+        const triple = (a << 16) | (b << 8) | c;
+        output += BASE64_ALPHABET[(triple >> 18) & 63] + BASE64_ALPHABET[(triple >> 12) & 63];
+        output += i + 1 < bytes.length ? BASE64_ALPHABET[(triple >> 6) & 63] : '=';
+        output += i + 2 < bytes.length ? BASE64_ALPHABET[triple & 63] : '=';
+    }
+    return output;
+}
@@ -1,4 +1,5 @@
 import { Metric } from '@/lib/domain/entities/Metric';
+import { Currency } from '@/lib/domain/value-objects/Money';
 
 export abstract class BaseCalculator {
   protected calculatorName: string;
@@ -15,14 +16,15 @@ export abstract class BaseCalculator {
 
   protected formatCurrency(
     value: number,
-    currency: string = 'USD',
-    locale: string = 'en-US'
+    currency: Currency | string = Currency.USD,
+    locale: string = 'en-US',
+    decimals: number = 0
   ): string {
     return new Intl.NumberFormat(locale, {
       style: 'currency',
       currency,
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
+      minimumFractionDigits: decimals,
+      maximumFractionDigits: decimals,
     }).format(value);
   }
 
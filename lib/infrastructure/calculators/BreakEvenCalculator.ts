@@ -1,5 +1,5 @@
 import { BaseCalculator } from './BaseCalculator';
-import type { BreakEvenInput } from '@/types/project';
+import type { BreakEvenInput, SalesMixProduct, SalesMixProductResult } from '@/types/project';
 
 export class BreakEvenCalculator extends BaseCalculator {
     constructor() {
@@ -16,18 +16,36 @@ export class BreakEvenCalculator extends BaseCalculator {
         unitsPerMonth: number;
         revenuePerMonth: number;
         isAboveBreakEven: boolean;
+        fixedCostsAtBreakEven: number;
+        salesMix: {
+            weightedPrice: number;
+            weightedVariableCost: number;
+            products: SalesMixProductResult[];
+        } | null;
+        target: {
+            profit: number;
+            units: number;
+            revenue: number;
+            fixedCosts: number;
+        } | null;
     } {
         this.validate(input);
 
-        const contributionMarginPerUnit = input.pricePerUnit - input.variableCostPerUnit;
+        // A single product is a one-item mix
+        const products = this.normalizeMix(input);
+        const pricePerUnit = products.reduce((sum, p) => sum + p.mixShare * p.pricePerUnit, 0);
+        const variableCostPerUnit = products.reduce((sum, p) => sum + p.mixShare * p.variableCostPerUnit, 0);
+
+        const contributionMarginPerUnit = pricePerUnit - variableCostPerUnit;
         const contributionMarginRatio = this.safeDivide(
             contributionMarginPerUnit,
-            input.pricePerUnit,
+            pricePerUnit,
             0
         );
 
-        const breakEvenUnits = this.calculateBreakEvenUnits(input);
-        const breakEvenRevenue = breakEvenUnits * input.pricePerUnit;
+        const breakEven = this.calculateBreakEvenUnits(input, contributionMarginPerUnit, 0);
+        const breakEvenUnits = breakEven.units;
+        const breakEvenRevenue = breakEvenUnits * pricePerUnit;
 
         // Margin of safety calculations
         let marginOfSafety: number | null = null;
@@ -41,9 +59,45 @@ export class BreakEvenCalculator extends BaseCalculator {
                 input.currentSalesUnits,
                 0
             ) * 100;
-            isAboveBreakEven = input.currentSalesUnits >= breakEvenUnits;
+            // A step cost past break-even can push current sales back into a loss
+            const currentProfit = input.currentSalesUnits * contributionMarginPerUnit
+                - this.fixedCostsAt(input, input.currentSalesUnits);
+            isAboveBreakEven = input.currentSalesUnits >= breakEvenUnits && currentProfit >= 0;
+        }
+
+        // Target profit mode
+        let target = null;
+        let targetUnits: number | null = null;
+        if (input.targetProfit !== undefined) {
+            const required = this.calculateBreakEvenUnits(input, contributionMarginPerUnit, input.targetProfit);
+            targetUnits = required.units;
+            target = {
+                profit: this.round(input.targetProfit, 2),
+                units: this.round(required.units, 0),
+                revenue: this.round(required.units * pricePerUnit, 2),
+                fixedCosts: this.round(required.fixedCosts, 2),
+            };
         }
 
+        const salesMix = input.products?.length
+            ? {
+                weightedPrice: this.round(pricePerUnit, 2),
+                weightedVariableCost: this.round(variableCostPerUnit, 2),
+                products: products.map((product) => {
+                    const margin = product.pricePerUnit - product.variableCostPerUnit;
+                    return {
+                        name: product.name,
+                        mixShare: this.round(product.mixShare * 100, 2),
+                        contributionMarginPerUnit: this.round(margin, 2),
+                        contributionMarginRatio: this.round(this.safeDivide(margin, product.pricePerUnit, 0) * 100, 2),
+                        breakEvenUnits: this.round(breakEvenUnits * product.mixShare, 0),
+                        breakEvenRevenue: this.round(breakEvenUnits * product.mixShare * product.pricePerUnit, 2),
+                        targetUnits: targetUnits !== null ? this.round(targetUnits * product.mixShare, 0) : null,
+                    };
+                }),
+            }
+            : null;
+
         // Calculate per-month figures
         const periodMonths = input.periodMonths || 12;
         const unitsPerMonth = this.round(breakEvenUnits / periodMonths, 0);
@@ -63,6 +117,9 @@ export class BreakEvenCalculator extends BaseCalculator {
             unitsPerMonth,
             revenuePerMonth,
             isAboveBreakEven,
+            fixedCostsAtBreakEven: this.round(breakEven.fixedCosts, 2),
+            salesMix,
+            target,
         };
     }
 
@@ -70,13 +127,50 @@ export class BreakEvenCalculator extends BaseCalculator {
         super.validate(input);
 
         this.assertPositive(input.fixedCosts, 'fixedCosts');
-        this.assertPositive(input.pricePerUnit, 'pricePerUnit');
-        this.assertPositive(input.variableCostPerUnit, 'variableCostPerUnit');
 
-        if (input.pricePerUnit <= input.variableCostPerUnit) {
-            throw new Error(
-                `${this.calculatorName}: pricePerUnit must be greater than variableCostPerUnit`
-            );
+        if (input.products?.length) {
+            input.products.forEach((product, index) => {
+                this.assertPositive(product.pricePerUnit, `products[${index}].pricePerUnit`);
+                this.assertPositive(product.variableCostPerUnit, `products[${index}].variableCostPerUnit`);
+                this.assertPositive(product.mixShare, `products[${index}].mixShare`);
+            });
+
+            const mix = this.normalizeMix(input);
+            if (mix.every((p) => p.mixShare === 0)) {
+                throw new Error(`${this.calculatorName}: products need a positive mixShare`);
+            }
+
+            // Loss leaders are fine as long as the mix as a whole contributes
+            const weightedMargin = mix.reduce((sum, p) => sum + p.mixShare * (p.pricePerUnit - p.variableCostPerUnit), 0);
+            if (weightedMargin <= 0) {
+                throw new Error(
+                    `${this.calculatorName}: the sales mix must have a positive weighted contribution margin`
+                );
+            }
+        } else {
+            if (input.pricePerUnit === undefined || input.variableCostPerUnit === undefined) {
+                throw new Error(
+                    `${this.calculatorName}: pricePerUnit and variableCostPerUnit are required without products`
+                );
+            }
+
+            this.assertPositive(input.pricePerUnit, 'pricePerUnit');
+            this.assertPositive(input.variableCostPerUnit, 'variableCostPerUnit');
+
+            if (input.pricePerUnit <= input.variableCostPerUnit) {
+                throw new Error(
+                    `${this.calculatorName}: pricePerUnit must be greater than variableCostPerUnit`
+                );
+            }
+        }
+
+        input.stepFixedCosts?.forEach((step, index) => {
+            this.assertPositive(step.thresholdUnits, `stepFixedCosts[${index}].thresholdUnits`);
+            this.assertPositive(step.amount, `stepFixedCosts[${index}].amount`);
+        });
+
+        if (input.targetProfit !== undefined) {
+            this.assertPositive(input.targetProfit, 'targetProfit');
         }
 
         if (input.currentSalesUnits !== undefined) {
@@ -84,14 +178,81 @@ export class BreakEvenCalculator extends BaseCalculator {
         }
     }
 
-    private calculateBreakEvenUnits(input: BreakEvenInput): number {
-        const contributionMargin = input.pricePerUnit - input.variableCostPerUnit;
-        return this.safeDivide(input.fixedCosts, contributionMargin, 0);
+    /**
+     * Products with mix shares scaled to sum to 1
+     */
+    private normalizeMix(input: BreakEvenInput): SalesMixProduct[] {
+        if (!input.products?.length) {
+            return [{
+                name: '',
+                pricePerUnit: input.pricePerUnit ?? 0,
+                variableCostPerUnit: input.variableCostPerUnit ?? 0,
+                mixShare: 1,
+            }];
+        }
+
+        const totalShare = input.products.reduce((sum, p) => sum + p.mixShare, 0);
+        return input.products.map((product) => ({
+            ...product,
+            mixShare: this.safeDivide(product.mixShare, totalShare, 0),
+        }));
+    }
+
+    /**
+     * Fixed costs once `units` have been sold, including every step whose threshold is exceeded
+     */
+    private fixedCostsAt(input: BreakEvenInput, units: number): number {
+        return (input.stepFixedCosts ?? [])
+            .filter((step) => units > step.thresholdUnits)
+            .reduce((sum, step) => sum + step.amount, input.fixedCosts);
+    }
+
+    /**
+     * Units needed to cover fixed costs plus `profit`. With step costs, each tier between
+     * thresholds has its own fixed costs; the first tier whose requirement fits inside it wins.
+     */
+    private calculateBreakEvenUnits(
+        input: BreakEvenInput,
+        contributionMargin: number,
+        profit: number
+    ): { units: number; fixedCosts: number } {
+        const thresholds = [...new Set((input.stepFixedCosts ?? []).map((step) => step.thresholdUnits))]
+            .sort((a, b) => a - b);
+
+        for (const upperBound of [...thresholds, Infinity]) {
+            const fixedCosts = this.fixedCostsAt(input, upperBound);
+            const units = this.safeDivide(fixedCosts + profit, contributionMargin, 0);
+            if (units <= upperBound) {
+                return { units, fixedCosts };
+            }
+        }
+
+        return { units: 0, fixedCosts: input.fixedCosts };
     }
 
     generateRecommendations(result: ReturnType<typeof this.calculate>): string[] {
         const recommendations: string[] = [];
 
+        if (result.salesMix) {
+            const weakest = [...result.salesMix.products]
+                .sort((a, b) => a.contributionMarginRatio - b.contributionMarginRatio)[0];
+            if (weakest.contributionMarginPerUnit <= 0) {
+                recommendations.push(
+                    `${weakest.name} sells at or below its variable cost. Keep it only if it drives sales of other items.`
+                );
+            } else if (weakest.contributionMarginRatio < 30) {
+                recommendations.push(
+                    `${weakest.name} has the lowest margin (${weakest.contributionMarginRatio.toFixed(1)}%). Shifting the mix toward higher-margin items lowers break-even.`
+                );
+            }
+        }
+
+        if (result.target) {
+            recommendations.push(
+                `Sell ${result.target.units} units to earn the target profit of ${result.target.profit.toFixed(2)}.`
+            );
+        }
+
         if (result.marginOfSafety !== null) {
             if (result.marginOfSafety < 0) {
                 recommendations.push(
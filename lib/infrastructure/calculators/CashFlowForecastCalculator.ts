@@ -1,5 +1,26 @@
 import { BaseCalculator } from './BaseCalculator';
-import type { CashFlowForecastInput } from '@/types/project';
+import { Currency } from '@/lib/domain/value-objects/Money';
+import type {
+    CashFlowData,
+    CashFlowForecastInput,
+    PaymentTermBucket,
+    ReceivablesAging,
+    RecurringPayment,
+    WeeklyCashEvent,
+    WeeklyCashForecast,
+    WeeklyCashForecastInput,
+} from '@/types/project';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKS_IN_FORECAST = 13;
+const IMMEDIATE_TERMS: PaymentTermBucket[] = [{ days: 0, share: 100 }];
+
+// Invoice amount settled in a given week
+interface Settlement {
+    invoiceWeek: number;
+    settleWeek: number;
+    amount: number;
+}
 
 export interface MonthlyForecast {
     month: number;
@@ -150,7 +171,329 @@ export class CashFlowForecastCalculator extends BaseCalculator {
         }
     }
 
-    generateAlerts(result: ReturnType<typeof this.calculate>): string[] {
+    /**
+     * Rolling weekly forecast. Sales turn into cash according to customer terms (DSO)
+     * and purchases are paid according to supplier terms (DPO); recurring payments
+     * fall in the week that contains their due date.
+     */
+    calculateWeekly(input: WeeklyCashForecastInput): {
+        weeks: WeeklyCashForecast[];
+        totalInflows: number;
+        totalOutflows: number;
+        endingCash: number;
+        lowestCash: number;
+        lowestCashWeek: number;
+        bufferBreachWeeks: number[];
+        firstBufferBreachWeek: number | null;
+        fundingNeeded: number;
+        effectiveDSO: number;
+        effectiveDPO: number;
+        uncollectedSales: number;
+        receivablesAging: ReceivablesAging;
+        cashFlowData: CashFlowData[];
+    } {
+        this.validateWeekly(input);
+
+        const horizon = input.weeks ?? WEEKS_IN_FORECAST;
+        const start = this.parseStartDate(input.startDate);
+        const buffer = input.minimumCashBuffer ?? 0;
+        const collectionTerms = input.collectionTerms?.length ? input.collectionTerms : IMMEDIATE_TERMS;
+        const paymentTerms = input.paymentTerms?.length ? input.paymentTerms : IMMEDIATE_TERMS;
+
+        const sales = this.settle(input.weeklySales, collectionTerms, horizon);
+        const purchases = this.settle(input.weeklyPurchases ?? 0, paymentTerms, horizon);
+        const recurring = this.scheduleRecurring(input.recurringPayments ?? [], start, horizon);
+        const invoicedSales = Array.from({ length: horizon }, (_, i) => this.weekValue(input.weeklySales, i + 1))
+            .reduce((sum, value) => sum + value, 0);
+
+        const weeks: WeeklyCashForecast[] = [];
+        const cashFlowData: CashFlowData[] = [];
+        const bufferBreachWeeks: number[] = [];
+        let cash = input.startingCash;
+        let cumulative = 0;
+        let totalInflows = 0;
+        let totalOutflows = 0;
+        let lowestCash = input.startingCash;
+        let lowestCashWeek = 0;
+
+        for (let week = 1; week <= horizon; week++) {
+            const collections = this.sumSettled(sales, week);
+            const receivablesCollected = this.sumEvents(input.expectedReceivables, week);
+            const supplierPayments = this.sumSettled(purchases, week);
+            const recurringPayments = recurring[week - 1];
+            const oneTimeExpenses = this.sumEvents(input.oneTimeExpenses, week);
+
+            const inflows = collections + receivablesCollected;
+            const outflows = supplierPayments + recurringPayments + oneTimeExpenses;
+            const netCashFlow = inflows - outflows;
+            cash += netCashFlow;
+            cumulative += netCashFlow;
+            totalInflows += inflows;
+            totalOutflows += outflows;
+
+            const belowBuffer = cash < buffer;
+            if (belowBuffer) {
+                bufferBreachWeeks.push(week);
+            }
+            if (cash < lowestCash) {
+                lowestCash = cash;
+                lowestCashWeek = week;
+            }
+
+            const openReceivables = sales
+                .filter((s) => s.invoiceWeek <= week && s.settleWeek > week)
+                .reduce((sum, s) => sum + s.amount, 0)
+                + (input.expectedReceivables ?? []).filter((e) => e.week > week).reduce((sum, e) => sum + e.amount, 0);
+            const openPayables = purchases
+                .filter((p) => p.invoiceWeek <= week && p.settleWeek > week)
+                .reduce((sum, p) => sum + p.amount, 0);
+
+            weeks.push({
+                week,
+                weekStart: new Date(start + (week - 1) * 7 * DAY_MS).toISOString().slice(0, 10),
+                collections: this.round(collections, 2),
+                receivablesCollected: this.round(receivablesCollected, 2),
+                supplierPayments: this.round(supplierPayments, 2),
+                recurringPayments: this.round(recurringPayments, 2),
+                oneTimeExpenses: this.round(oneTimeExpenses, 2),
+                netCashFlow: this.round(netCashFlow, 2),
+                endingCash: this.round(cash, 2),
+                accountsReceivable: this.round(openReceivables, 2),
+                accountsPayable: this.round(openPayables, 2),
+                belowBuffer,
+            });
+            cashFlowData.push({
+                month: week,
+                netCashFlow: this.round(netCashFlow, 2),
+                cumulativeCashFlow: this.round(cumulative, 2),
+            });
+        }
+
+        // Age of invoices still open at the end of the horizon
+        const receivablesAging: ReceivablesAging = { current: 0, days31to60: 0, days61to90: 0, over90: 0 };
+        sales
+            .filter((s) => s.settleWeek > horizon)
+            .forEach((s) => {
+                const age = (horizon - s.invoiceWeek) * 7;
+                if (age <= 30) receivablesAging.current += s.amount;
+                else if (age <= 60) receivablesAging.days31to60 += s.amount;
+                else if (age <= 90) receivablesAging.days61to90 += s.amount;
+                else receivablesAging.over90 += s.amount;
+            });
+
+        const collectedShare = collectionTerms.reduce((sum, term) => sum + term.share, 0);
+
+        this.logCalculation('Weekly Ending Cash', cash);
+        this.logCalculation('Lowest Weekly Cash', lowestCash);
+
+        return {
+            weeks,
+            totalInflows: this.round(totalInflows, 2),
+            totalOutflows: this.round(totalOutflows, 2),
+            endingCash: this.round(cash, 2),
+            lowestCash: this.round(lowestCash, 2),
+            lowestCashWeek,
+            bufferBreachWeeks,
+            firstBufferBreachWeek: bufferBreachWeeks[0] ?? null,
+            fundingNeeded: this.round(Math.max(0, buffer - lowestCash), 2),
+            effectiveDSO: this.round(this.weightedDays(collectionTerms), 1),
+            effectiveDPO: this.round(this.weightedDays(paymentTerms), 1),
+            uncollectedSales: this.round(invoicedSales * (1 - collectedShare / 100), 2),
+            receivablesAging: {
+                current: this.round(receivablesAging.current, 2),
+                days31to60: this.round(receivablesAging.days31to60, 2),
+                days61to90: this.round(receivablesAging.days61to90, 2),
+                over90: this.round(receivablesAging.over90, 2),
+            },
+            cashFlowData,
+        };
+    }
+
+    private weekValue(series: number | number[], week: number): number {
+        return Array.isArray(series) ? series[week - 1] ?? 0 : series;
+    }
+
+    /**
+     * Split each week's invoices into settlements by payment term
+     */
+    private settle(series: number | number[], terms: PaymentTermBucket[], horizon: number): Settlement[] {
+        const settlements: Settlement[] = [];
+        for (let week = 1; week <= horizon; week++) {
+            const invoiced = this.weekValue(series, week);
+            if (invoiced <= 0) continue;
+            terms.forEach((term) => {
+                settlements.push({
+                    invoiceWeek: week,
+                    settleWeek: week + Math.round(term.days / 7),
+                    amount: invoiced * term.share / 100,
+                });
+            });
+        }
+        return settlements;
+    }
+
+    private sumSettled(settlements: Settlement[], week: number): number {
+        return settlements.filter((s) => s.settleWeek === week).reduce((sum, s) => sum + s.amount, 0);
+    }
+
+    private sumEvents(events: WeeklyCashEvent[] | undefined, week: number): number {
+        return (events ?? []).filter((e) => e.week === week).reduce((sum, e) => sum + e.amount, 0);
+    }
+
+    private weightedDays(terms: PaymentTermBucket[]): number {
+        const totalShare = terms.reduce((sum, term) => sum + term.share, 0);
+        return this.safeDivide(terms.reduce((sum, term) => sum + term.days * term.share, 0), totalShare, 0);
+    }
+
+    /**
+     * Total recurring payments per week (index 0 = week 1)
+     */
+    private scheduleRecurring(payments: RecurringPayment[], start: number, horizon: number): number[] {
+        const totals = new Array<number>(horizon).fill(0);
+        const weekOf = (time: number) => Math.floor((time - start) / (7 * DAY_MS)) + 1;
+
+        payments.forEach((payment) => {
+            if (payment.frequency === 'weekly' || payment.frequency === 'biweekly') {
+                const step = payment.frequency === 'weekly' ? 1 : 2;
+                for (let week = payment.firstWeek ?? 1; week <= horizon; week += step) {
+                    totals[week - 1] += payment.amount;
+                }
+                return;
+            }
+
+            const startDate = new Date(start);
+            const step = payment.frequency === 'monthly' ? 1 : 3;
+            const firstMonth = payment.frequency === 'quarterly' ? payment.monthOffset ?? 0 : 0;
+            for (let month = firstMonth; month <= Math.ceil(horizon / 4) + 1; month += step) {
+                const year = startDate.getUTCFullYear();
+                const monthIndex = startDate.getUTCMonth() + month;
+                const daysInMonth = new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+                const due = Date.UTC(year, monthIndex, Math.min(payment.dayOfMonth ?? 1, daysInMonth));
+                const week = weekOf(due);
+                if (due >= start && week <= horizon) {
+                    totals[week - 1] += payment.amount;
+                }
+            }
+        });
+
+        return totals;
+    }
+
+    private parseStartDate(value?: string): number {
+        const date = value ? new Date(value) : new Date();
+        return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+    }
+
+    private validateWeekly(input: WeeklyCashForecastInput): void {
+        super.validate(input);
+
+        this.assertFinite(input.startingCash, 'startingCash');
+
+        const horizon = input.weeks ?? WEEKS_IN_FORECAST;
+        this.assertRange(horizon, 1, 52, 'weeks');
+
+        if (input.startDate !== undefined && Number.isNaN(new Date(input.startDate).getTime())) {
+            throw new Error(`${this.calculatorName}: startDate must be a valid date`);
+        }
+
+        const series: [string, number | number[] | undefined][] = [
+            ['weeklySales', input.weeklySales],
+            ['weeklyPurchases', input.weeklyPurchases],
+        ];
+        series.forEach(([name, value]) => {
+            (Array.isArray(value) ? value : value === undefined ? [] : [value]).forEach((amount, index) => {
+                this.assertPositive(amount, Array.isArray(value) ? `${name}[${index}]` : name);
+            });
+        });
+
+        const terms: [string, PaymentTermBucket[] | undefined, boolean][] = [
+            ['collectionTerms', input.collectionTerms, false],
+            ['paymentTerms', input.paymentTerms, true],
+        ];
+        terms.forEach(([name, buckets, mustBeComplete]) => {
+            if (!buckets?.length) return;
+            buckets.forEach((bucket, index) => {
+                this.assertRange(bucket.days, 0, 365, `${name}[${index}].days`);
+                this.assertRange(bucket.share, 0, 100, `${name}[${index}].share`);
+            });
+            const total = buckets.reduce((sum, bucket) => sum + bucket.share, 0);
+            if (total > 100.01 || (mustBeComplete && total < 99.99)) {
+                throw new Error(
+                    `${this.calculatorName}: ${name} shares must add up to ${mustBeComplete ? '' : 'at most '}100%`
+                );
+            }
+        });
+
+        (input.recurringPayments ?? []).forEach((payment, index) => {
+            this.assertPositive(payment.amount, `recurringPayments[${index}].amount`);
+            if (payment.firstWeek !== undefined) {
+                this.assertRange(payment.firstWeek, 1, horizon, `recurringPayments[${index}].firstWeek`);
+            }
+            if (payment.dayOfMonth !== undefined) {
+                this.assertRange(payment.dayOfMonth, 1, 31, `recurringPayments[${index}].dayOfMonth`);
+            }
+            if (payment.monthOffset !== undefined) {
+                this.assertRange(payment.monthOffset, 0, 2, `recurringPayments[${index}].monthOffset`);
+            }
+        });
+
+        const events: [string, WeeklyCashEvent[] | undefined][] = [
+            ['oneTimeExpenses', input.oneTimeExpenses],
+            ['expectedReceivables', input.expectedReceivables],
+        ];
+        events.forEach(([name, list]) => {
+            (list ?? []).forEach((event, index) => {
+                this.assertRange(event.week, 1, horizon, `${name}[${index}].week`);
+                this.assertPositive(event.amount, `${name}[${index}].amount`);
+            });
+        });
+
+        if (input.minimumCashBuffer !== undefined) {
+            this.assertPositive(input.minimumCashBuffer, 'minimumCashBuffer');
+        }
+    }
+
+    generateWeeklyAlerts(
+        result: ReturnType<typeof this.calculateWeekly>,
+        minimumCashBuffer: number = 0,
+        currency: Currency = Currency.USD
+    ): string[] {
+        const alerts: string[] = [];
+
+        if (result.lowestCash < 0) {
+            alerts.push(
+                `⚠️ CRITICAL: Cash goes negative in week ${result.lowestCashWeek} (${this.formatCurrency(result.lowestCash, currency)}).`
+            );
+        }
+
+        if (result.firstBufferBreachWeek !== null && minimumCashBuffer > 0) {
+            alerts.push(
+                `⚠️ Cash falls below the ${this.formatCurrency(minimumCashBuffer, currency)} buffer in week ${result.firstBufferBreachWeek}. Secure ${this.formatCurrency(result.fundingNeeded, currency)} before then.`
+            );
+        }
+
+        if (result.effectiveDSO > result.effectiveDPO + 15) {
+            alerts.push(
+                `Customers pay in ${result.effectiveDSO.toFixed(0)} days but suppliers are paid in ${result.effectiveDPO.toFixed(0)}. Negotiate shorter collection or longer payment terms.`
+            );
+        }
+
+        const overdue = result.receivablesAging.days61to90 + result.receivablesAging.over90;
+        if (overdue > 0) {
+            alerts.push(`${this.formatCurrency(overdue, currency)} of receivables will be older than 60 days.`);
+        }
+
+        if (result.uncollectedSales > 0) {
+            alerts.push(`${this.formatCurrency(result.uncollectedSales, currency)} of sales is expected to go uncollected.`);
+        }
+
+        return alerts;
+    }
+
+    generateAlerts(
+        result: ReturnType<typeof this.calculate>,
+        currency: Currency = Currency.USD
+    ): string[] {
         const alerts: string[] = [];
 
         if (result.monthsUntilDeficit !== null) {
@@ -164,21 +507,21 @@ export class CashFlowForecastCalculator extends BaseCalculator {
 
         if (result.lowestCashBalance < result.minimumCashReserveNeeded) {
             alerts.push(
-                `⚠️ Cash reserve drops below recommended minimum of $${result.minimumCashReserveNeeded.toLocaleString()}`
+                `⚠️ Cash reserve drops below recommended minimum of ${this.formatCurrency(result.minimumCashReserveNeeded, currency)}`
             );
             alerts.push(
-                `Lowest point: $${result.lowestCashBalance.toLocaleString()} in month ${result.lowestCashMonth}`
+                `Lowest point: ${this.formatCurrency(result.lowestCashBalance, currency)} in month ${result.lowestCashMonth}`
             );
         }
 
         if (result.averageMonthlyNetFlow < 0) {
             alerts.push(
-                `📉 Average monthly cash burn: $${Math.abs(result.averageMonthlyNetFlow).toLocaleString()}`
+                `📉 Average monthly cash burn: ${this.formatCurrency(Math.abs(result.averageMonthlyNetFlow), currency)}`
             );
             alerts.push('Business is cash-flow negative. Review cost structure.');
         } else if (result.averageMonthlyNetFlow > 0) {
             alerts.push(
-                `📈 Average monthly cash gain: $${result.averageMonthlyNetFlow.toLocaleString()}`
+                `📈 Average monthly cash gain: ${this.formatCurrency(result.averageMonthlyNetFlow, currency)}`
             );
         }
 
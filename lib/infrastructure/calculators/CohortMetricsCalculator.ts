@@ -1,5 +1,17 @@
 import { BaseCalculator } from './BaseCalculator';
-import type { CohortInput } from '@/types/project';
+import type {
+    CohortInput,
+    CohortRetentionAnalysis,
+    CohortRetentionInput,
+    CohortRetentionRow,
+    CustomerRecord,
+    RetentionCurveFit,
+} from '@/types/project';
+
+// Customer lifetime used for LTV when the input does not set one
+const DEFAULT_PROJECTION_MONTHS = 36;
+
+const MONTH_PATTERN = /^(\d{4})-(\d{2})(?:-(\d{2}))?$/;
 
 export class CohortMetricsCalculator extends BaseCalculator {
     constructor() {
@@ -137,4 +149,247 @@ export class CohortMetricsCalculator extends BaseCalculator {
 
         return recommendations;
     }
+
+    /**
+     * Builds monthly cohort triangles from raw customer data.
+     *
+     * Customers are grouped by signup month. A customer counts as active in every month
+     * before their churn month (and always in the signup month), and revenue events are
+     * placed by months since signup. An exponential curve fitted to the average retention
+     * extends each cohort past its last observed month, which gives cohort LTV and CAC
+     * payback, and the monthly churn and ARPU that SaaSInput expects.
+     *
+     * @param input - Customers with signup, churn and revenue dates
+     * @returns Customer and revenue retention triangles, fitted curve, LTV and SaaS inputs
+     */
+    buildRetentionMatrix(input: CohortRetentionInput): CohortRetentionAnalysis {
+        this.validateRetention(input);
+
+        const projectionMonths = input.projectionMonths ?? DEFAULT_PROJECTION_MONTHS;
+        const margin = (input.grossMargin ?? 100) / 100;
+        const asOf = input.asOfDate !== undefined
+            ? this.monthIndex(input.asOfDate)
+            : this.latestMonth(input.customers);
+
+        const groups = new Map<number, CustomerRecord[]>();
+        input.customers.forEach((customer) => {
+            const cohortMonth = this.monthIndex(customer.signupDate);
+            if (cohortMonth > asOf) return;
+            groups.set(cohortMonth, [...(groups.get(cohortMonth) ?? []), customer]);
+        });
+
+        const observed = [...groups.entries()]
+            .sort(([a], [b]) => a - b)
+            .map(([cohortMonth, customers]) => {
+                const ages = asOf - cohortMonth + 1;
+                const active: number[] = new Array(ages).fill(0);
+                const revenue: number[] = new Array(ages).fill(0);
+
+                customers.forEach((customer) => {
+                    const churnMonth = customer.churnDate ? this.monthIndex(customer.churnDate) : Infinity;
+                    for (let age = 0; age < ages; age++) {
+                        if (age === 0 || cohortMonth + age < churnMonth) active[age]++;
+                    }
+                    customer.revenue.forEach((event) => {
+                        const age = this.monthIndex(event.date) - cohortMonth;
+                        if (age >= 0 && age < ages) revenue[age] += event.amount;
+                    });
+                });
+
+                return { cohortMonth, size: customers.length, active, revenue };
+            });
+
+        // Customer-weighted averages over the cohorts old enough to be observed at each age
+        const maxAges = Math.max(0, ...observed.map((cohort) => cohort.active.length));
+        const averageRetention: number[] = [];
+        const averageRevenueRetention: number[] = [];
+        for (let age = 0; age < maxAges; age++) {
+            const seen = observed.filter((cohort) => cohort.active.length > age);
+            const activeSum = seen.reduce((sum, cohort) => sum + cohort.active[age], 0);
+            const sizeSum = seen.reduce((sum, cohort) => sum + cohort.size, 0);
+            const revenueSum = seen.reduce((sum, cohort) => sum + cohort.revenue[age], 0);
+            const firstMonthRevenue = seen.reduce((sum, cohort) => sum + cohort.revenue[0], 0);
+
+            averageRetention.push(this.safeDivide(activeSum, sizeSum, 0) * 100);
+            averageRevenueRetention.push(this.safeDivide(revenueSum, firstMonthRevenue, 0) * 100);
+        }
+
+        const totalRevenue = observed.reduce((sum, cohort) => sum + cohort.revenue.reduce((a, b) => a + b, 0), 0);
+        const activeMonths = observed.reduce((sum, cohort) => sum + cohort.active.reduce((a, b) => a + b, 0), 0);
+        const averageRevenuePerUser = this.safeDivide(totalRevenue, activeMonths, 0);
+
+        const curve = this.fitRetentionCurve(averageRetention, projectionMonths);
+
+        const cohorts: CohortRetentionRow[] = observed.map((cohort) => {
+            const cohortActiveMonths = cohort.active.reduce((a, b) => a + b, 0);
+            const cohortRevenue = cohort.revenue.reduce((a, b) => a + b, 0);
+            const arpu = this.safeDivide(cohortRevenue, cohortActiveMonths, averageRevenuePerUser);
+            const lastAge = cohort.active.length - 1;
+            const lastRetention = cohort.active[lastAge] / cohort.size;
+
+            // Observed revenue per customer, then the fitted curve anchored on the last observed month
+            const valueByAge: number[] = [];
+            for (let age = 0; age < Math.max(projectionMonths, cohort.active.length); age++) {
+                if (age <= lastAge) {
+                    valueByAge.push((cohort.revenue[age] / cohort.size) * margin);
+                } else {
+                    const retained = lastRetention * this.safeDivide(curve.projected[age], curve.projected[lastAge], 0);
+                    valueByAge.push(retained * arpu * margin);
+                }
+            }
+
+            return {
+                cohort: this.monthLabel(cohort.cohortMonth),
+                customers: cohort.size,
+                retention: cohort.active.map((count) => this.round((count / cohort.size) * 100, 2)),
+                revenueRetention: cohort.revenue.map((amount) =>
+                    this.round(this.safeDivide(amount, cohort.revenue[0], 0) * 100, 2)
+                ),
+                revenue: cohort.revenue.map((amount) => this.round(amount, 2)),
+                ltv: this.round(valueByAge.reduce((a, b) => a + b, 0), 2),
+                paybackMonth: this.paybackMonth(valueByAge, input.acquisitionCost),
+            };
+        });
+
+        const averageValueByAge: number[] = [];
+        for (let age = 0; age < projectionMonths; age++) {
+            const retained = age < averageRetention.length ? averageRetention[age] : curve.projected[age];
+            averageValueByAge.push((retained / 100) * averageRevenuePerUser * margin);
+        }
+        const ltv = averageValueByAge.reduce((a, b) => a + b, 0);
+
+        this.logCalculation('Cohort monthly churn', curve.monthlyChurn, { cohorts: cohorts.length });
+        this.logCalculation('Cohort ARPU', averageRevenuePerUser);
+        this.logCalculation('Cohort LTV', ltv);
+
+        return {
+            asOf: this.monthLabel(asOf),
+            cohorts,
+            averageRetention: averageRetention.map((value) => this.round(value, 2)),
+            averageRevenueRetention: averageRevenueRetention.map((value) => this.round(value, 2)),
+            curve,
+            averageRevenuePerUser: this.round(averageRevenuePerUser, 2),
+            ltv: this.round(ltv, 2),
+            paybackMonth: this.paybackMonth(averageValueByAge, input.acquisitionCost),
+            saasInputs: {
+                churnRate: curve.monthlyChurn,
+                averageRevenuePerUser: this.round(averageRevenuePerUser, 2),
+            },
+        };
+    }
+
+    /**
+     * Log-linear least squares on the average retention from month 1 on. With a single
+     * observed month its churn is assumed to continue; with none, no churn is assumed.
+     *
+     * @private
+     */
+    private fitRetentionCurve(averageRetention: number[], projectionMonths: number): RetentionCurveFit {
+        const points = averageRetention
+            .map((retained, age) => ({ age, retained }))
+            .filter((point) => point.age >= 1 && point.retained > 0);
+
+        let initialRetention = 100;
+        let monthlyChurn = 0;
+        let rSquared: number | null = null;
+
+        if (points.length >= 2) {
+            const xs = points.map((point) => point.age - 1);
+            const ys = points.map((point) => Math.log(point.retained));
+            const n = xs.length;
+            const meanX = xs.reduce((sum, x) => sum + x, 0) / n;
+            const meanY = ys.reduce((sum, y) => sum + y, 0) / n;
+
+            let sxx = 0;
+            let sxy = 0;
+            let syy = 0;
+            for (let i = 0; i < n; i++) {
+                sxx += (xs[i] - meanX) ** 2;
+                sxy += (xs[i] - meanX) * (ys[i] - meanY);
+                syy += (ys[i] - meanY) ** 2;
+            }
+
+            const slope = sxy / sxx;
+            initialRetention = Math.min(Math.exp(meanY - slope * meanX), 100);
+            monthlyChurn = Math.min(Math.max(1 - Math.exp(slope), 0), 0.999) * 100;
+            rSquared = syy === 0 ? 1 : (sxy * sxy) / (sxx * syy);
+        } else if (points.length === 1) {
+            initialRetention = points[0].retained;
+            monthlyChurn = 100 - points[0].retained;
+        }
+
+        const projected = [100];
+        for (let age = 1; age <= projectionMonths; age++) {
+            projected.push(Math.min(initialRetention * Math.pow(1 - monthlyChurn / 100, age - 1), 100));
+        }
+
+        return {
+            monthlyChurn: this.round(monthlyChurn, 2),
+            initialRetention: this.round(initialRetention, 2),
+            rSquared: rSquared !== null ? this.round(rSquared, 4) : null,
+            projected: projected.map((value) => this.round(value, 2)),
+        };
+    }
+
+    private paybackMonth(valueByAge: number[], acquisitionCost?: number): number | null {
+        if (acquisitionCost === undefined) return null;
+
+        let cumulative = 0;
+        for (let age = 0; age < valueByAge.length; age++) {
+            cumulative += valueByAge[age];
+            if (cumulative >= acquisitionCost) return age;
+        }
+        return null;
+    }
+
+    private monthIndex(date: string): number {
+        const match = MONTH_PATTERN.exec(date.trim());
+        const month = match ? Number(match[2]) : 0;
+        if (!match || month < 1 || month > 12) {
+            throw new Error(`${this.calculatorName}: invalid date "${date}", expected YYYY-MM-DD`);
+        }
+        return Number(match[1]) * 12 + month - 1;
+    }
+
+    private monthLabel(index: number): string {
+        return `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, '0')}`;
+    }
+
+    private latestMonth(customers: CustomerRecord[]): number {
+        return Math.max(...customers.flatMap((customer) => [
+            this.monthIndex(customer.signupDate),
+            ...(customer.churnDate ? [this.monthIndex(customer.churnDate)] : []),
+            ...customer.revenue.map((event) => this.monthIndex(event.date)),
+        ]));
+    }
+
+    private validateRetention(input: CohortRetentionInput): void {
+        super.validate(input);
+
+        if (!input.customers || input.customers.length === 0) {
+            throw new Error(`${this.calculatorName}: at least one customer is required`);
+        }
+
+        input.customers.forEach((customer, index) => {
+            const signup = this.monthIndex(customer.signupDate);
+            if (customer.churnDate && this.monthIndex(customer.churnDate) < signup) {
+                throw new Error(`${this.calculatorName}: customers[${index}] churns before signing up`);
+            }
+            customer.revenue.forEach((event, eventIndex) => {
+                this.monthIndex(event.date);
+                this.assertFinite(event.amount, `customers[${index}].revenue[${eventIndex}].amount`);
+            });
+        });
+
+        if (input.asOfDate !== undefined) this.monthIndex(input.asOfDate);
+        if (input.projectionMonths !== undefined) {
+            this.assertRange(input.projectionMonths, 1, 600, 'projectionMonths');
+        }
+        if (input.grossMargin !== undefined) {
+            this.assertRange(input.grossMargin, 0, 100, 'grossMargin');
+        }
+        if (input.acquisitionCost !== undefined) {
+            this.assertPositive(input.acquisitionCost, 'acquisitionCost');
+        }
+    }
 }
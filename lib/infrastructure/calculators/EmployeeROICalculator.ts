@@ -1,5 +1,14 @@
 import { BaseCalculator } from './BaseCalculator';
-import type { EmployeeROIInput } from '@/types/project';
+import { Currency } from '@/lib/domain/value-objects/Money';
+import type {
+    CostLine,
+    EmployeeROIInput,
+    HireBreakEven,
+    HiringPlanInput,
+    HiringPlanMonth,
+    HiringPlanResult,
+    PlannedHire,
+} from '@/types/project';
 
 export class EmployeeROICalculator extends BaseCalculator {
     constructor() {
@@ -136,7 +145,10 @@ export class EmployeeROICalculator extends BaseCalculator {
         this.assertRange(input.hoursPerWeek, 1, 80, 'hoursPerWeek');
     }
 
-    generateRecommendations(result: ReturnType<typeof this.calculate>): string[] {
+    generateRecommendations(
+        result: ReturnType<typeof this.calculate>,
+        currency: Currency = Currency.USD
+    ): string[] {
         const recommendations: string[] = [];
 
         if (!result.isWorthHiring) {
@@ -148,7 +160,7 @@ export class EmployeeROICalculator extends BaseCalculator {
             );
         } else {
             recommendations.push(
-                `✅ Positive ROI: Employee generates $${result.revenuePerDollarSpent.toFixed(2)} for every $1 spent.`
+                `✅ Positive ROI: Employee generates ${this.formatCurrency(result.revenuePerDollarSpent, currency, 'en-US', 2)} for every ${this.formatCurrency(1, currency)} spent.`
             );
         }
 
@@ -217,4 +229,179 @@ export class EmployeeROICalculator extends BaseCalculator {
             assumedBenefitsRatio,
         };
     }
+
+    /**
+     * Month-by-month model of a headcount plan.
+     *
+     * Payroll (salary plus benefits) starts in full in each hire's start month, together
+     * with the onboarding cost, while contributed revenue follows the ramp-up curve until
+     * the hire reaches full productivity.
+     *
+     * @param input - Planned hires and the number of months to model
+     * @returns Monthly team cost and revenue, cumulative ROI and per-hire break-even
+     */
+    calculateHiringPlan(input: HiringPlanInput): HiringPlanResult {
+        this.validateHiringPlan(input);
+
+        const { hires, horizonMonths } = input;
+        const months: HiringPlanMonth[] = [];
+        const hireCost = hires.map(() => 0);
+        const hireRevenue = hires.map(() => 0);
+        const hireBreakEven: (number | null)[] = hires.map(() => null);
+
+        let cumulativeCost = 0;
+        let cumulativeRevenue = 0;
+        let teamBreakEvenMonth: number | null = null;
+
+        for (let month = 1; month <= horizonMonths; month++) {
+            let headcount = 0;
+            let payroll = 0;
+            let onboarding = 0;
+            let revenue = 0;
+
+            hires.forEach((hire, i) => {
+                if (month < hire.startMonth) return;
+
+                const hirePayroll = this.monthlyPayroll(hire);
+                const hireOnboarding = month === hire.startMonth ? hire.onboardingCost : 0;
+                const hireMonthRevenue = (hire.annualRevenue / 12) * this.productivity(hire, month);
+
+                headcount++;
+                payroll += hirePayroll;
+                onboarding += hireOnboarding;
+                revenue += hireMonthRevenue;
+
+                hireCost[i] += hirePayroll + hireOnboarding;
+                hireRevenue[i] += hireMonthRevenue;
+                if (hireBreakEven[i] === null && hireRevenue[i] >= hireCost[i]) {
+                    hireBreakEven[i] = month;
+                }
+            });
+
+            const cost = payroll + onboarding;
+            cumulativeCost += cost;
+            cumulativeRevenue += revenue;
+
+            if (teamBreakEvenMonth === null && cumulativeCost > 0 && cumulativeRevenue >= cumulativeCost) {
+                teamBreakEvenMonth = month;
+            }
+
+            months.push({
+                month,
+                headcount,
+                payroll: this.round(payroll, 2),
+                onboarding: this.round(onboarding, 2),
+                cost: this.round(cost, 2),
+                revenue: this.round(revenue, 2),
+                net: this.round(revenue - cost, 2),
+                cumulativeCost: this.round(cumulativeCost, 2),
+                cumulativeRevenue: this.round(cumulativeRevenue, 2),
+                cumulativeROI: this.round(this.safeDivide(cumulativeRevenue - cumulativeCost, cumulativeCost, 0) * 100, 2),
+            });
+        }
+
+        const hireResults: HireBreakEven[] = hires.map((hire, i) => {
+            const breakEvenMonth = hireBreakEven[i];
+
+            return {
+                role: hire.role,
+                startMonth: hire.startMonth,
+                fullProductivityMonth: hire.startMonth + Math.max(Math.ceil(hire.rampUpMonths) - 1, 0),
+                totalCost: this.round(hireCost[i], 2),
+                totalRevenue: this.round(hireRevenue[i], 2),
+                roi: this.round(this.safeDivide(hireRevenue[i] - hireCost[i], hireCost[i], 0) * 100, 2),
+                breakEvenMonth,
+                monthsToBreakEven: breakEvenMonth !== null ? breakEvenMonth - hire.startMonth + 1 : null,
+            };
+        });
+
+        this.logCalculation('Hiring plan cost', cumulativeCost);
+        this.logCalculation('Hiring plan revenue', cumulativeRevenue);
+
+        return {
+            months,
+            hires: hireResults,
+            totalCost: this.round(cumulativeCost, 2),
+            totalRevenue: this.round(cumulativeRevenue, 2),
+            teamROI: this.round(this.safeDivide(cumulativeRevenue - cumulativeCost, cumulativeCost, 0) * 100, 2),
+            teamBreakEvenMonth,
+            peakHeadcount: Math.max(0, ...months.map((m) => m.headcount)),
+            peakMonthlyPayroll: Math.max(0, ...months.map((m) => m.payroll)),
+        };
+    }
+
+    /**
+     * Converts planned hires into fixed cost lines for a project's line-item cash flow:
+     * a monthly payroll line from the start month and a one-month onboarding line.
+     *
+     * @param hires - Planned hires
+     * @returns Cost lines ready to append to LineItemModel.costLines
+     */
+    toCostLines(hires: PlannedHire[]): CostLine[] {
+        return hires.flatMap((hire, i) => {
+            const lines: CostLine[] = [{
+                id: `hire-${i + 1}-payroll`,
+                name: hire.role,
+                amount: this.round(this.monthlyPayroll(hire), 2),
+                startMonth: hire.startMonth,
+                growthRate: 0,
+                behavior: 'fixed',
+            }];
+
+            if (hire.onboardingCost > 0) {
+                lines.push({
+                    id: `hire-${i + 1}-onboarding`,
+                    name: `${hire.role} (onboarding)`,
+                    amount: hire.onboardingCost,
+                    startMonth: hire.startMonth,
+                    endMonth: hire.startMonth,
+                    growthRate: 0,
+                    behavior: 'fixed',
+                });
+            }
+
+            return lines;
+        });
+    }
+
+    private monthlyPayroll(hire: PlannedHire): number {
+        return (hire.annualSalary * (1 + hire.benefitsRatio / 100)) / 12;
+    }
+
+    /**
+     * Share of full productivity reached in a project month, 0-1.
+     * The first month on the job counts as month 1 of the ramp.
+     */
+    private productivity(hire: PlannedHire, month: number): number {
+        if (month < hire.startMonth) return 0;
+        if (hire.rampUpMonths <= 0) return 1;
+
+        const progress = Math.min((month - hire.startMonth + 1) / hire.rampUpMonths, 1);
+
+        // Smoothstep keeps the S-curve at 0 and 1 at both ends of the ramp
+        return hire.rampCurve === 's_curve'
+            ? progress * progress * (3 - 2 * progress)
+            : progress;
+    }
+
+    private validateHiringPlan(input: HiringPlanInput): void {
+        super.validate(input);
+
+        this.assertRange(input.horizonMonths, 1, 600, 'horizonMonths');
+
+        if (!input.hires || input.hires.length === 0) {
+            throw new Error(`${this.calculatorName}: a hiring plan needs at least one hire`);
+        }
+
+        input.hires.forEach((hire, index) => {
+            const field = `hires[${index}]`;
+
+            this.assertRange(hire.startMonth, 1, input.horizonMonths, `${field}.startMonth`);
+            this.assertPositive(hire.annualSalary, `${field}.annualSalary`);
+            this.assertRange(hire.benefitsRatio, 0, 200, `${field}.benefitsRatio`);
+            this.assertPositive(hire.onboardingCost, `${field}.onboardingCost`);
+            this.assertPositive(hire.annualRevenue, `${field}.annualRevenue`);
+            this.assertRange(hire.rampUpMonths, 0, 60, `${field}.rampUpMonths`);
+        });
+    }
 }
@@ -0,0 +1,254 @@
+import { BaseCalculator } from './BaseCalculator';
+import type { FiscalAssumptions, FreeCashFlowBreakdown, FreeCashFlowSummary } from '@/types/project';
+
+export interface FreeCashFlowInput {
+  monthlyRevenue: number[];
+  monthlyCosts: number[];
+  monthlyCapex: number[]; // capex spent during the project, excluding the upfront investment
+  upfrontInvestment: number;
+  discountRate: number; // annual %
+  fiscal: FiscalAssumptions;
+}
+
+export class FreeCashFlowCalculator extends BaseCalculator {
+  constructor() {
+    super('FreeCashFlowCalculator');
+  }
+
+  /**
+   * Converts pre-tax operating cash flow into after-tax free cash flow:
+   * FCF = EBITDA - tax - ΔNWC - capex, with tax computed on EBIT after depreciation
+   * and, optionally, after offsetting losses carried forward.
+   */
+  calculate(input: FreeCashFlowInput): FreeCashFlowBreakdown {
+    this.validate(input);
+
+    const { monthlyRevenue, monthlyCosts, monthlyCapex, upfrontInvestment, discountRate, fiscal } = input;
+    const months = monthlyRevenue.length;
+
+    // The upfront investment starts depreciating in month 1, later capex in the month it is spent
+    const depreciation = this.depreciationSchedule(upfrontInvestment, 0, months, fiscal);
+    monthlyCapex.forEach((capex, index) => {
+      if (capex <= 0) return;
+      this.depreciationSchedule(capex, index, months, fiscal).forEach((value, month) => {
+        depreciation[month] += value;
+      });
+    });
+
+    const ebitda: number[] = [];
+    const taxableIncome: number[] = [];
+    const tax: number[] = [];
+    const workingCapitalChange: number[] = [];
+    const freeCashFlow: number[] = [];
+
+    let carriedLosses = 0;
+    let previousWorkingCapital = 0;
+    const workingCapital: number[] = [];
+
+    for (let month = 0; month < months; month++) {
+      const monthEbitda = monthlyRevenue[month] - monthlyCosts[month];
+      const ebit = monthEbitda - depreciation[month];
+
+      let taxable: number;
+      if (fiscal.lossCarryForward) {
+        if (ebit < 0) {
+          carriedLosses += -ebit;
+          taxable = 0;
+        } else {
+          const offset = Math.min(carriedLosses, ebit);
+          carriedLosses -= offset;
+          taxable = ebit - offset;
+        }
+      } else {
+        taxable = Math.max(0, ebit);
+      }
+      const monthTax = taxable * (fiscal.taxRate / 100);
+
+      // Net working capital on annualized monthly flows: receivables + inventory - payables
+      const annualRevenue = monthlyRevenue[month] * 12;
+      const annualCosts = monthlyCosts[month] * 12;
+      const monthWorkingCapital =
+        (annualRevenue * fiscal.daysReceivable) / 365 +
+        (annualCosts * fiscal.daysInventory) / 365 -
+        (annualCosts * fiscal.daysPayable) / 365;
+      const deltaWorkingCapital = monthWorkingCapital - previousWorkingCapital;
+      previousWorkingCapital = monthWorkingCapital;
+      workingCapital.push(monthWorkingCapital);
+
+      ebitda.push(monthEbitda);
+      taxableIncome.push(taxable);
+      tax.push(monthTax);
+      workingCapitalChange.push(deltaWorkingCapital);
+      freeCashFlow.push(monthEbitda - monthTax - deltaWorkingCapital - monthlyCapex[month]);
+    }
+
+    // Without a terminal value the business winds down and working capital is recovered
+    if (fiscal.terminalValueMethod === 'none' && months > 0) {
+      workingCapitalChange[months - 1] -= previousWorkingCapital;
+      freeCashFlow[months - 1] += previousWorkingCapital;
+    }
+
+    const terminalValue = this.calculateTerminalValue(ebitda, freeCashFlow, discountRate, fiscal);
+    const presentTerminalValue = this.safeDivide(terminalValue, Math.pow(1 + discountRate / 100, months / 12));
+
+    this.logCalculation('Total Tax', tax.reduce((sum, v) => sum + v, 0));
+    this.logCalculation('Total Depreciation', depreciation.reduce((sum, v) => sum + v, 0));
+    this.logCalculation('Peak Working Capital', Math.max(0, ...workingCapital));
+    this.logCalculation('Terminal Value', terminalValue);
+
+    return {
+      ebitda,
+      depreciation,
+      taxableIncome,
+      tax,
+      workingCapitalChange,
+      capex: [...monthlyCapex],
+      freeCashFlow,
+      terminalValue: this.round(terminalValue, 2),
+      presentTerminalValue: this.round(presentTerminalValue, 2),
+      unusedLosses: this.round(carriedLosses, 2),
+    };
+  }
+
+  /**
+   * Aggregates a breakdown into the totals stored with project results.
+   */
+  summarize(breakdown: FreeCashFlowBreakdown): FreeCashFlowSummary {
+    let workingCapital = 0;
+    let peakWorkingCapital = 0;
+    breakdown.workingCapitalChange.forEach((change) => {
+      workingCapital += change;
+      peakWorkingCapital = Math.max(peakWorkingCapital, workingCapital);
+    });
+
+    return {
+      totalTax: this.round(breakdown.tax.reduce((sum, v) => sum + v, 0), 2),
+      totalDepreciation: this.round(breakdown.depreciation.reduce((sum, v) => sum + v, 0), 2),
+      peakWorkingCapital: this.round(peakWorkingCapital, 2),
+      terminalValue: breakdown.terminalValue,
+      presentTerminalValue: breakdown.presentTerminalValue,
+      unusedLosses: breakdown.unusedLosses,
+    };
+  }
+
+  protected override validate(input: FreeCashFlowInput): void {
+    super.validate(input);
+
+    const { fiscal } = input;
+    if (input.monthlyCosts.length !== input.monthlyRevenue.length || input.monthlyCapex.length !== input.monthlyRevenue.length) {
+      throw new Error(`${this.calculatorName}: revenue, cost and capex series must have the same length`);
+    }
+    this.assertPositive(input.upfrontInvestment, 'upfrontInvestment');
+    this.assertRange(input.discountRate, 0, 100, 'discountRate');
+
+    this.assertRange(fiscal.taxRate, 0, 100, 'taxRate');
+    this.assertRange(fiscal.daysReceivable, 0, 365, 'daysReceivable');
+    this.assertRange(fiscal.daysPayable, 0, 365, 'daysPayable');
+    this.assertRange(fiscal.daysInventory, 0, 365, 'daysInventory');
+
+    if (fiscal.depreciationMethod === 'custom') {
+      const schedule = fiscal.customDepreciationSchedule ?? [];
+      if (schedule.length === 0) {
+        throw new Error(`${this.calculatorName}: customDepreciationSchedule must have at least one year`);
+      }
+      schedule.forEach((percent, year) => this.assertRange(percent, 0, 100, `customDepreciationSchedule[${year}]`));
+      const total = schedule.reduce((sum, percent) => sum + percent, 0);
+      if (total > 100 + 1e-9) {
+        throw new Error(`${this.calculatorName}: customDepreciationSchedule cannot exceed 100% in total`);
+      }
+    } else {
+      this.assertRange(fiscal.usefulLifeYears, 1, 50, 'usefulLifeYears');
+    }
+
+    if (fiscal.depreciationMethod === 'declining_balance') {
+      this.assertRange(fiscal.decliningBalanceFactor ?? 2, 1, 4, 'decliningBalanceFactor');
+    }
+
+    if (fiscal.terminalValueMethod === 'gordon_growth') {
+      const growth = fiscal.terminalGrowthRate ?? 0;
+      this.assertRange(growth, -100, 100, 'terminalGrowthRate');
+      if (growth >= input.discountRate) {
+        throw new Error(`${this.calculatorName}: terminalGrowthRate must be below the discount rate`);
+      }
+    }
+
+    if (fiscal.terminalValueMethod === 'exit_multiple') {
+      this.assertRange(fiscal.exitMultiple ?? 0, 0, 100, 'exitMultiple');
+    }
+  }
+
+  /**
+   * Monthly depreciation of an asset placed in service at startMonth (0-based).
+   * Annual charges are spread evenly over the months of each year.
+   */
+  private depreciationSchedule(
+    amount: number,
+    startMonth: number,
+    months: number,
+    fiscal: FiscalAssumptions
+  ): number[] {
+    const schedule = new Array<number>(months).fill(0);
+    if (amount <= 0) return schedule;
+
+    const annualCharges = this.annualDepreciation(amount, fiscal);
+    annualCharges.forEach((charge, year) => {
+      for (let m = 0; m < 12; m++) {
+        const month = startMonth + year * 12 + m;
+        if (month < months) schedule[month] += charge / 12;
+      }
+    });
+
+    return schedule;
+  }
+
+  private annualDepreciation(amount: number, fiscal: FiscalAssumptions): number[] {
+    if (fiscal.depreciationMethod === 'custom') {
+      return (fiscal.customDepreciationSchedule ?? []).map((percent) => amount * (percent / 100));
+    }
+
+    const life = fiscal.usefulLifeYears;
+    const years = Math.ceil(life);
+
+    if (fiscal.depreciationMethod === 'straight_line') {
+      // A fractional final year carries the remaining fraction of the charge
+      return Array.from({ length: years }, (_, year) => (amount / life) * Math.min(1, life - year));
+    }
+
+    // Declining balance, switching to straight-line once that yields the larger charge
+    const rate = (fiscal.decliningBalanceFactor ?? 2) / life;
+    const charges: number[] = [];
+    let bookValue = amount;
+    for (let year = 0; year < years; year++) {
+      const remainingYears = years - year;
+      const charge = year === years - 1
+        ? bookValue
+        : Math.max(bookValue * rate, bookValue / remainingYears);
+      charges.push(charge);
+      bookValue -= charge;
+    }
+    return charges;
+  }
+
+  /**
+   * Terminal value at the end of the projection, based on the trailing twelve months.
+   */
+  private calculateTerminalValue(
+    ebitda: number[],
+    freeCashFlow: number[],
+    discountRate: number,
+    fiscal: FiscalAssumptions
+  ): number {
+    if (fiscal.terminalValueMethod === 'none' || freeCashFlow.length === 0) return 0;
+
+    const window = Math.min(12, freeCashFlow.length);
+    const annualize = (series: number[]) =>
+      (series.slice(-window).reduce((sum, v) => sum + v, 0) * 12) / window;
+
+    if (fiscal.terminalValueMethod === 'exit_multiple') {
+      return annualize(ebitda) * (fiscal.exitMultiple ?? 0);
+    }
+
+    const growth = (fiscal.terminalGrowthRate ?? 0) / 100;
+    return this.safeDivide(annualize(freeCashFlow) * (1 + growth), discountRate / 100 - growth);
+  }
+}
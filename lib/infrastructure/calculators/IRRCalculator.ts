@@ -0,0 +1,256 @@
+import { BaseCalculator } from './BaseCalculator';
+import type { DatedCashFlow, IRRStatus } from '@/types/project';
+
+const MIN_RATE = -0.99;
+const MAX_RATE = 10;
+const GRID_STEPS = 200;
+const TOLERANCE = 1e-10;
+const MAX_ITERATIONS = 100;
+const DAYS_PER_YEAR = 365;
+
+export class IRRCalculator extends BaseCalculator {
+  constructor() {
+    super('IRRCalculator');
+  }
+
+  /**
+   * Finds every periodic rate r in (-99%, 1000%] at which Σ CF_t / (1 + r)^t = 0, t = 0..n.
+   * Roots are bracketed on a grid and refined with Brent's method, so the solver never
+   * silently returns a guess. When several roots exist, the one closest to `preferredRate`
+   * is reported.
+   */
+  solve(cashFlows: number[], preferredRate: number = 0.1): {
+    rate: number | null;
+    status: IRRStatus;
+    signChanges: number;
+    roots: number[];
+    iterations: number;
+  } {
+    this.validate(cashFlows);
+    cashFlows.forEach((cf, t) => this.assertFinite(cf, `cashFlows[${t}]`));
+
+    // Horner's scheme in v = 1 / (1 + r)
+    const npv = (rate: number): number => {
+      const v = 1 / (1 + rate);
+      let value = 0;
+      for (let t = cashFlows.length - 1; t >= 0; t--) {
+        value = value * v + cashFlows[t];
+      }
+      return value;
+    };
+
+    return this.findRate(npv, this.countSignChanges(cashFlows), preferredRate);
+  }
+
+  /**
+   * Annual rate at which the NPV of dated cash flows is zero (Excel XIRR convention:
+   * exponents are days since the first flow divided by 365).
+   */
+  xirr(flows: DatedCashFlow[], preferredRate: number = 0.1): {
+    rate: number | null;
+    status: IRRStatus;
+    signChanges: number;
+    roots: number[];
+    iterations: number;
+  } {
+    this.validate(flows);
+    if (flows.length < 2) {
+      throw new Error(`${this.calculatorName}: XIRR needs at least two cash flows`);
+    }
+
+    const sorted = flows
+      .map((flow, index) => {
+        const time = new Date(flow.date).getTime();
+        if (!Number.isFinite(time)) {
+          throw new Error(`${this.calculatorName}: flows[${index}].date is not a valid date`);
+        }
+        this.assertFinite(flow.amount, `flows[${index}].amount`);
+        return { time, amount: flow.amount };
+      })
+      .sort((a, b) => a.time - b.time);
+
+    const start = sorted[0].time;
+    const years = sorted.map((flow) => (flow.time - start) / (1000 * 60 * 60 * 24 * DAYS_PER_YEAR));
+
+    const npv = (rate: number): number =>
+      sorted.reduce((sum, flow, i) => sum + flow.amount / Math.pow(1 + rate, years[i]), 0);
+
+    return this.findRate(npv, this.countSignChanges(sorted.map((flow) => flow.amount)), preferredRate);
+  }
+
+  /**
+   * Modified IRR per period: outflows are financed at `financeRate` and inflows are
+   * reinvested at `reinvestmentRate`, which removes the multiple-root problem.
+   * Returns null when there are no outflows or no inflows.
+   */
+  mirr(cashFlows: number[], financeRate: number, reinvestmentRate: number): number | null {
+    this.validate(cashFlows);
+    this.assertRange(financeRate, MIN_RATE, MAX_RATE, 'financeRate');
+    this.assertRange(reinvestmentRate, MIN_RATE, MAX_RATE, 'reinvestmentRate');
+
+    const periods = cashFlows.length - 1;
+    if (periods < 1) return null;
+
+    let presentOutflows = 0;
+    let futureInflows = 0;
+    cashFlows.forEach((cf, t) => {
+      if (cf < 0) {
+        presentOutflows += cf / Math.pow(1 + financeRate, t);
+      } else {
+        futureInflows += cf * Math.pow(1 + reinvestmentRate, periods - t);
+      }
+    });
+
+    if (presentOutflows === 0 || futureInflows === 0) return null;
+
+    const mirr = Math.pow(futureInflows / -presentOutflows, 1 / periods) - 1;
+    this.logCalculation('MIRR', mirr);
+    return mirr;
+  }
+
+  private countSignChanges(cashFlows: number[]): number {
+    let changes = 0;
+    let previousSign = 0;
+    cashFlows.forEach((cf) => {
+      const sign = Math.sign(cf);
+      if (sign === 0) return;
+      if (previousSign !== 0 && sign !== previousSign) changes++;
+      previousSign = sign;
+    });
+    return changes;
+  }
+
+  private findRate(
+    npv: (rate: number) => number,
+    signChanges: number,
+    preferredRate: number
+  ): {
+    rate: number | null;
+    status: IRRStatus;
+    signChanges: number;
+    roots: number[];
+    iterations: number;
+  } {
+    if (signChanges === 0) {
+      return { rate: null, status: 'no_sign_change', signChanges, roots: [], iterations: 0 };
+    }
+
+    // Bracket on a grid that is uniform in log(1 + r), denser near -100%
+    const lowerLog = Math.log(1 + MIN_RATE);
+    const upperLog = Math.log(1 + MAX_RATE);
+    const roots: number[] = [];
+    let iterations = 0;
+    let converged = true;
+
+    let previousRate = MIN_RATE;
+    let previousValue = npv(previousRate);
+    for (let step = 1; step <= GRID_STEPS; step++) {
+      const rate = Math.exp(lowerLog + ((upperLog - lowerLog) * step) / GRID_STEPS) - 1;
+      const value = npv(rate);
+
+      if (previousValue === 0) {
+        roots.push(previousRate);
+      } else if (Number.isFinite(previousValue) && Number.isFinite(value) && previousValue * value < 0) {
+        const refined = this.brent(npv, previousRate, rate, previousValue, value);
+        iterations += refined.iterations;
+        if (refined.converged) {
+          roots.push(refined.root);
+        } else {
+          converged = false;
+        }
+      }
+
+      previousRate = rate;
+      previousValue = value;
+    }
+    if (previousValue === 0) roots.push(previousRate);
+
+    if (roots.length === 0) {
+      return { rate: null, status: converged ? 'no_root' : 'not_converged', signChanges, roots, iterations };
+    }
+
+    const rate = roots.reduce((best, root) =>
+      Math.abs(root - preferredRate) < Math.abs(best - preferredRate) ? root : best
+    );
+    const status: IRRStatus = roots.length > 1 ? 'multiple_roots' : converged ? 'converged' : 'not_converged';
+
+    this.logCalculation('IRR', rate, { status, roots: roots.length, signChanges });
+
+    return { rate, status, signChanges, roots, iterations };
+  }
+
+  /**
+   * Brent's method on a bracket [a, b] with f(a) and f(b) of opposite sign.
+   */
+  private brent(
+    f: (x: number) => number,
+    a: number,
+    b: number,
+    fa: number,
+    fb: number
+  ): { root: number; converged: boolean; iterations: number } {
+    if (Math.abs(fa) < Math.abs(fb)) {
+      [a, b] = [b, a];
+      [fa, fb] = [fb, fa];
+    }
+
+    let c = a;
+    let fc = fa;
+    let d = b - a;
+    let bisected = true;
+
+    for (let iteration = 1; iteration <= MAX_ITERATIONS; iteration++) {
+      if (fb === 0 || Math.abs(b - a) < TOLERANCE) {
+        return { root: b, converged: true, iterations: iteration };
+      }
+
+      let s: number;
+      if (fa !== fc && fb !== fc) {
+        // Inverse quadratic interpolation
+        s =
+          (a * fb * fc) / ((fa - fb) * (fa - fc)) +
+          (b * fa * fc) / ((fb - fa) * (fb - fc)) +
+          (c * fa * fb) / ((fc - fa) * (fc - fb));
+      } else {
+        // Secant step
+        s = b - (fb * (b - a)) / (fb - fa);
+      }
+
+      // Fall back to bisection whenever the interpolated step is not trustworthy
+      const midpoint = (3 * a + b) / 4;
+      const outside = (s - midpoint) * (s - b) >= 0;
+      if (
+        outside ||
+        (bisected && Math.abs(s - b) >= Math.abs(b - c) / 2) ||
+        (!bisected && Math.abs(s - b) >= Math.abs(c - d) / 2) ||
+        (bisected && Math.abs(b - c) < TOLERANCE) ||
+        (!bisected && Math.abs(c - d) < TOLERANCE)
+      ) {
+        s = (a + b) / 2;
+        bisected = true;
+      } else {
+        bisected = false;
+      }
+
+      const fs = f(s);
+      d = c;
+      c = b;
+      fc = fb;
+
+      if (fa * fs < 0) {
+        b = s;
+        fb = fs;
+      } else {
+        a = s;
+        fa = fs;
+      }
+
+      if (Math.abs(fa) < Math.abs(fb)) {
+        [a, b] = [b, a];
+        [fa, fb] = [fb, fa];
+      }
+    }
+
+    return { root: b, converged: false, iterations: MAX_ITERATIONS };
+  }
+}
@@ -0,0 +1,53 @@
+import { BaseCalculator } from './BaseCalculator';
+import type { InflationAssumptions } from '@/types/project';
+
+export class InflationCalculator extends BaseCalculator {
+  constructor() {
+    super('InflationCalculator');
+  }
+
+  /**
+   * Cumulative price level for each month relative to the start of the project (month 0 = 1).
+   * Within a year prices compound smoothly, matching the geometric revenue growth convention.
+   */
+  priceIndex(inflation: InflationAssumptions, months: number): number[] {
+    this.validate(inflation);
+    this.assertRange(months, 1, 600, 'months');
+
+    const index: number[] = [];
+    let yearStartLevel = 1;
+
+    for (let month = 0; month < months; month++) {
+      const year = Math.floor(month / 12);
+      if (month > 0 && month % 12 === 0) {
+        yearStartLevel *= 1 + this.rateForYear(inflation, year - 1) / 100;
+      }
+      index.push(yearStartLevel * Math.pow(1 + this.rateForYear(inflation, year) / 100, (month % 12) / 12));
+    }
+
+    return index;
+  }
+
+  /**
+   * Geometric average annual inflation (%) implied by a monthly price index over its whole span
+   */
+  averageAnnualRate(priceIndex: number[]): number {
+    if (priceIndex.length < 2) return 0;
+    const years = (priceIndex.length - 1) / 12;
+    return (Math.pow(priceIndex[priceIndex.length - 1] / priceIndex[0], 1 / years) - 1) * 100;
+  }
+
+  /**
+   * Inflation (%) for a zero-based project year; years beyond the curve use the flat rate
+   */
+  rateForYear(inflation: InflationAssumptions, year: number): number {
+    return inflation.curve?.[year] ?? inflation.annualRate;
+  }
+
+  protected override validate(inflation: InflationAssumptions): void {
+    super.validate(inflation);
+
+    this.assertRange(inflation.annualRate, -50, 1000, 'annualRate');
+    inflation.curve?.forEach((rate, year) => this.assertRange(rate, -50, 1000, `curve[${year}]`));
+  }
+}
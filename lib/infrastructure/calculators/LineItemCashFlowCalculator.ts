@@ -0,0 +1,146 @@
+import { BaseCalculator } from './BaseCalculator';
+import type { CostLine, LineItemModel, RevenueStream } from '@/types/project';
+
+export class LineItemCashFlowCalculator extends BaseCalculator {
+  constructor() {
+    super('LineItemCashFlowCalculator');
+  }
+
+  /**
+   * Aggregates revenue streams, cost lines and capex tranches into monthly cash flows.
+   * The scenario multiplier only scales variable revenue streams.
+   */
+  calculate(model: LineItemModel, projectDuration: number, multiplier: number = 1.0): {
+    monthlyRevenue: number[];
+    monthlyCosts: number[];
+    monthlyCapex: number[];
+    upfrontInvestment: number;
+    totalCapex: number;
+    operatingCashFlow: number[];
+    monthlyCashFlow: number[];
+  } {
+    this.validate(model);
+    this.assertRange(projectDuration, 1, 600, 'projectDuration');
+
+    const monthlyRevenue: number[] = [];
+    const monthlyCosts: number[] = [];
+    const monthlyCapex: number[] = [];
+    const operatingCashFlow: number[] = [];
+    const monthlyCashFlow: number[] = [];
+
+    for (let month = 1; month <= projectDuration; month++) {
+      const revenue = model.revenueStreams.reduce(
+        (sum, stream) => sum + this.revenueForMonth(stream, month, multiplier),
+        0
+      );
+      const costs = model.costLines.reduce(
+        (sum, line) => sum + this.costForMonth(line, month, revenue),
+        0
+      );
+      const capex = model.capexTranches
+        .filter((tranche) => tranche.month === month)
+        .reduce((sum, tranche) => sum + tranche.amount, 0);
+
+      monthlyRevenue.push(revenue);
+      monthlyCosts.push(costs);
+      monthlyCapex.push(capex);
+      operatingCashFlow.push(revenue - costs);
+      monthlyCashFlow.push(revenue - costs - capex);
+    }
+
+    const upfrontInvestment = this.upfrontInvestment(model);
+    const totalCapex = upfrontInvestment + monthlyCapex.reduce((sum, capex) => sum + capex, 0);
+
+    this.logCalculation('Line Item Revenue', monthlyRevenue.reduce((sum, v) => sum + v, 0));
+    this.logCalculation('Line Item Costs', monthlyCosts.reduce((sum, v) => sum + v, 0));
+    this.logCalculation('Total Capex', totalCapex);
+
+    return {
+      monthlyRevenue,
+      monthlyCosts,
+      monthlyCapex,
+      upfrontInvestment,
+      totalCapex,
+      operatingCashFlow,
+      monthlyCashFlow,
+    };
+  }
+
+  /**
+   * Capex spent before the first month, which stands in for the initial investment.
+   */
+  upfrontInvestment(model: LineItemModel): number {
+    return model.capexTranches
+      .filter((tranche) => tranche.month === 0)
+      .reduce((sum, tranche) => sum + tranche.amount, 0);
+  }
+
+  /**
+   * Whether the model has any line items to aggregate.
+   */
+  hasLineItems(model?: LineItemModel | null): model is LineItemModel {
+    return !!model && (
+      model.revenueStreams.length > 0 ||
+      model.costLines.length > 0 ||
+      model.capexTranches.length > 0
+    );
+  }
+
+  protected override validate(model: LineItemModel): void {
+    super.validate(model);
+
+    model.revenueStreams.forEach((stream) => {
+      this.assertPositive(stream.monthlyAmount, `${stream.name}.monthlyAmount`);
+      this.assertRange(stream.growthRate, -100, 1000, `${stream.name}.growthRate`);
+      this.validatePeriod(stream.name, stream.startMonth, stream.endMonth);
+    });
+
+    model.costLines.forEach((line) => {
+      if (line.behavior === 'variable') {
+        this.assertRange(line.amount, 0, 100, `${line.name}.amount`);
+      } else {
+        this.assertPositive(line.amount, `${line.name}.amount`);
+      }
+      this.assertRange(line.growthRate, -100, 1000, `${line.name}.growthRate`);
+      this.validatePeriod(line.name, line.startMonth, line.endMonth);
+    });
+
+    model.capexTranches.forEach((tranche) => {
+      this.assertPositive(tranche.amount, `${tranche.name}.amount`);
+      this.assertRange(tranche.month, 0, 600, `${tranche.name}.month`);
+    });
+  }
+
+  private validatePeriod(name: string, startMonth: number, endMonth?: number): void {
+    this.assertRange(startMonth, 1, 600, `${name}.startMonth`);
+    if (endMonth !== undefined && endMonth !== null) {
+      this.assertRange(endMonth, startMonth, 600, `${name}.endMonth`);
+    }
+  }
+
+  private isActive(month: number, startMonth: number, endMonth?: number): boolean {
+    return month >= startMonth && (endMonth === undefined || endMonth === null || month <= endMonth);
+  }
+
+  private revenueForMonth(stream: RevenueStream, month: number, multiplier: number): number {
+    if (!this.isActive(month, stream.startMonth, stream.endMonth)) return 0;
+
+    // Geometric compounding from the stream's own start month
+    const growthFactor = Math.pow(1 + stream.growthRate / 100, (month - stream.startMonth) / 12);
+    const scenarioFactor = stream.behavior === 'variable' ? multiplier : 1;
+
+    return stream.monthlyAmount * growthFactor * scenarioFactor;
+  }
+
+  private costForMonth(line: CostLine, month: number, revenue: number): number {
+    if (!this.isActive(month, line.startMonth, line.endMonth)) return 0;
+
+    // Variable costs are a percentage of the month's revenue
+    if (line.behavior === 'variable') {
+      return revenue * (line.amount / 100);
+    }
+
+    const growthFactor = Math.pow(1 + line.growthRate / 100, (month - line.startMonth) / 12);
+    return line.amount * growthFactor;
+  }
+}
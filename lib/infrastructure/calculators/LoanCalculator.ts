@@ -1,8 +1,11 @@
 import { BaseCalculator } from './BaseCalculator';
-import type { LoanInput } from '@/types/project';
+import { IRRCalculator } from './IRRCalculator';
+import { Currency } from '@/lib/domain/value-objects/Money';
+import type { LoanInput, LoanRateStep } from '@/types/project';
 
 /**
- * Amortization schedule entry
+ * Amortization schedule entry. The payment is the installment (interest plus scheduled
+ * principal, including the balloon in the last month); prepayments are listed separately.
  */
 export interface AmortizationEntry {
     month: number;
@@ -10,9 +13,13 @@ export interface AmortizationEntry {
     principal: number;
     interest: number;
     balance: number;
+    annualRate: number;
+    prepayment: number;
 }
 
 export class LoanCalculator extends BaseCalculator {
+    private irrCalculator = new IRRCalculator();
+
     constructor() {
         super('LoanCalculator');
     }
@@ -36,50 +43,64 @@ export class LoanCalculator extends BaseCalculator {
             halfwayPoint: number;
             principalAtHalfway: number;
         };
+        structure: {
+            gracePeriodPayment: number | null;
+            minPayment: number;
+            maxPayment: number;
+            balloonPayment: number;
+            payoffMonth: number;
+            totalPrepayments: number;
+            interestSaved: number;
+            monthsSaved: number;
+        };
     } {
         this.validate(input);
 
-        const { principal, annualInterestRate, termMonths, originationFee } = input;
+        const { principal, termMonths, originationFee } = input;
+        const graceMonths = input.gracePeriodMonths ?? 0;
 
-        const monthlyRate = annualInterestRate / 100 / 12;
+        const { schedule: amortizationSchedule, totals } = this.generateAmortizationSchedule(input);
 
-        // Calculate monthly payment using amortization formula
-        const monthlyPayment = this.calculateMonthlyPayment(principal, monthlyRate, termMonths);
-
-        // Generate amortization schedule
-        const amortizationSchedule = this.generateAmortizationSchedule(
-            principal,
-            monthlyRate,
-            termMonths,
-            monthlyPayment
-        );
+        // Installments after the grace period, without the final balloon month
+        const regular = amortizationSchedule.filter((entry) => entry.month > graceMonths);
+        const level = regular.length > 1 ? regular.slice(0, -1) : regular;
+        const levelPayments = level.map((entry) => entry.payment);
+        const monthlyPayment = levelPayments[0] ?? 0;
+        const maxPayment = levelPayments.length > 0 ? Math.max(...levelPayments) : 0;
+        const minPayment = levelPayments.length > 0 ? Math.min(...levelPayments) : 0;
 
-        const totalPayment = monthlyPayment * termMonths;
-        const totalInterest = totalPayment - principal;
+        const totalPayment = totals.paid;
+        const totalInterest = totals.interest;
 
         // Calculate costs with fees
         const fees = originationFee ? principal * (originationFee / 100) : 0;
         const totalCostWithFees = totalPayment + fees;
 
-        // Effective annual rate (includes fees)
-        const effectiveAnnualRate = this.calculateEffectiveRate(
-            principal - fees,
-            monthlyPayment,
-            termMonths
-        );
+        // Effective annual rate: compounded IRR of the net proceeds against every payment
+        const effectiveAnnualRate = this.calculateEffectiveRate(principal - fees, amortizationSchedule);
 
         // First year breakdown
         const firstYear = amortizationSchedule.slice(0, Math.min(12, termMonths));
-        const firstYearPrincipal = firstYear.reduce((sum, entry) => sum + entry.principal, 0);
+        const firstYearPrincipal = firstYear.reduce((sum, entry) => sum + entry.principal + entry.prepayment, 0);
         const firstYearInterest = firstYear.reduce((sum, entry) => sum + entry.interest, 0);
 
-        // Affordability analysis
-        const affordability = this.calculateAffordability(input, monthlyPayment);
+        // Affordability is tested against the highest regular installment
+        const affordability = this.calculateAffordability(input, maxPayment);
 
         // Payoff summary
-        const halfwayPoint = Math.floor(termMonths / 2);
+        const payoffMonth = amortizationSchedule.length;
+        const halfwayPoint = Math.floor(payoffMonth / 2);
         const principalAtHalfway = amortizationSchedule[halfwayPoint - 1]?.balance || 0;
 
+        // Savings from prepayments against the same loan without them
+        let interestSaved = 0;
+        let monthsSaved = 0;
+        if (input.prepayments?.length) {
+            const baseline = this.generateAmortizationSchedule({ ...input, prepayments: [] });
+            interestSaved = baseline.totals.interest - totalInterest;
+            monthsSaved = baseline.schedule.length - payoffMonth;
+        }
+
         this.logCalculation('Monthly Payment', monthlyPayment);
         this.logCalculation('Total Interest', totalInterest);
         this.logCalculation('Effective Rate', effectiveAnnualRate);
@@ -98,68 +119,157 @@ export class LoanCalculator extends BaseCalculator {
                 halfwayPoint,
                 principalAtHalfway: this.round(principalAtHalfway, 2),
             },
+            structure: {
+                gracePeriodPayment: graceMonths > 0 ? amortizationSchedule[0]?.payment ?? null : null,
+                minPayment: this.round(minPayment, 2),
+                maxPayment: this.round(maxPayment, 2),
+                balloonPayment: this.round(totals.balloon, 2),
+                payoffMonth,
+                totalPrepayments: this.round(totals.prepaid, 2),
+                interestSaved: this.round(interestSaved, 2),
+                monthsSaved,
+            },
         };
     }
 
+    /**
+     * Level installment that brings the balance down to the balloon after n months.
+     */
     private calculateMonthlyPayment(
-        principal: number,
+        balance: number,
         monthlyRate: number,
-        termMonths: number
+        months: number,
+        balloon: number = 0
     ): number {
+        const residual = Math.min(balloon, balance);
+
         if (monthlyRate === 0) {
-            return principal / termMonths;
+            return (balance - residual) / months;
+        }
+
+        const discount = Math.pow(1 + monthlyRate, -months);
+        return (balance - residual * discount) * monthlyRate / (1 - discount);
+    }
+
+    /**
+     * Annual rate in effect in a month: the variable base plus spread, the latest step-up
+     * step, or the fixed rate.
+     */
+    private annualRateForMonth(input: LoanInput, month: number): number {
+        const latest = (path: LoanRateStep[] | undefined) =>
+            (path ?? [])
+                .filter((step) => step.month <= month)
+                .reduce<LoanRateStep | null>((found, step) => (!found || step.month >= found.month ? step : found), null);
+
+        if (input.variableRate) {
+            const base = latest(input.variableRate.baseRatePath)?.annualRate ?? input.annualInterestRate;
+            return Math.max(0, base + input.variableRate.spread);
         }
 
-        const payment = principal *
-            (monthlyRate * Math.pow(1 + monthlyRate, termMonths)) /
-            (Math.pow(1 + monthlyRate, termMonths) - 1);
+        return latest(input.rateSteps)?.annualRate ?? input.annualInterestRate;
+    }
 
-        return payment;
+    /**
+     * Months needed to bring the balance down to the balloon with a given installment.
+     */
+    private monthsToRepay(
+        balance: number,
+        monthlyRate: number,
+        payment: number,
+        balloon: number,
+        maxMonths: number
+    ): number {
+        for (let months = 1; months < maxMonths; months++) {
+            if (this.calculateMonthlyPayment(balance, monthlyRate, months, balloon) <= payment + 1e-9) {
+                return months;
+            }
+        }
+        return maxMonths;
     }
 
     /**
-     * Generates full amortization schedule.
-     * 
+     * Generates the full amortization schedule.
+     *
+     * Interest-only months come first. The installment is recalculated over the remaining
+     * months whenever the rate changes and after a reduce_payment prepayment; a shorten_term
+     * prepayment keeps it and moves the maturity forward. The last installment repays the
+     * remaining balance, including any balloon. Prepayments made during the grace period
+     * lower the balance amortized afterwards, so they always reduce the payment.
+     *
      * @private
      */
-    private generateAmortizationSchedule(
-        principal: number,
-        monthlyRate: number,
-        termMonths: number,
-        monthlyPayment: number
-    ): AmortizationEntry[] {
+    private generateAmortizationSchedule(input: LoanInput): {
+        schedule: AmortizationEntry[];
+        totals: { paid: number; interest: number; prepaid: number; balloon: number };
+    } {
+        const graceMonths = input.gracePeriodMonths ?? 0;
+        const balloon = input.balloonPayment ?? 0;
         const schedule: AmortizationEntry[] = [];
-        let balance = principal;
+        const totals = { paid: 0, interest: 0, prepaid: 0, balloon: 0 };
+
+        let balance = input.principal;
+        let maturity = input.termMonths;
+        let payment = 0;
+        let paymentRate: number | null = null;
 
-        for (let month = 1; month <= termMonths; month++) {
+        for (let month = 1; month <= maturity && balance > 0.005; month++) {
+            const annualRate = this.annualRateForMonth(input, month);
+            const monthlyRate = annualRate / 100 / 12;
             const interest = balance * monthlyRate;
-            const principalPaid = monthlyPayment - interest;
+            const isGrace = month <= graceMonths;
+
+            if (!isGrace && paymentRate !== monthlyRate) {
+                payment = this.calculateMonthlyPayment(balance, monthlyRate, maturity - month + 1, balloon);
+                paymentRate = monthlyRate;
+            }
+
+            let principalPaid = isGrace ? 0 : Math.min(Math.max(payment - interest, 0), balance);
+            if (month === maturity) {
+                totals.balloon = balance - principalPaid;
+                principalPaid = balance;
+            }
             balance -= principalPaid;
 
+            const due = (input.prepayments ?? []).filter((prepayment) => prepayment.month === month);
+            const prepayment = Math.min(due.reduce((sum, entry) => sum + entry.amount, 0), balance);
+            balance -= prepayment;
+
+            if (prepayment > 0 && balance > 0.005 && !isGrace) {
+                if (due.some((entry) => entry.strategy === 'reduce_payment')) {
+                    payment = this.calculateMonthlyPayment(balance, monthlyRate, maturity - month, balloon);
+                } else {
+                    maturity = month + this.monthsToRepay(balance, monthlyRate, payment, balloon, maturity - month);
+                }
+            }
+
+            totals.paid += interest + principalPaid + prepayment;
+            totals.interest += interest;
+            totals.prepaid += prepayment;
+
             schedule.push({
                 month,
-                payment: this.round(monthlyPayment, 2),
+                payment: this.round(interest + principalPaid, 2),
                 principal: this.round(principalPaid, 2),
                 interest: this.round(interest, 2),
                 balance: this.round(Math.max(0, balance), 2),
+                annualRate: this.round(annualRate, 4),
+                prepayment: this.round(prepayment, 2),
             });
         }
 
-        return schedule;
+        return { schedule, totals };
     }
 
+    /**
+     * Annual rate, compounded monthly, at which the payments repay the net proceeds.
+     */
     private calculateEffectiveRate(
         netProceeds: number,
-        monthlyPayment: number,
-        termMonths: number
+        schedule: AmortizationEntry[]
     ): number {
-        // Simplified calculation - could use Newton-Raphson for exact APR
-        const totalPaid = monthlyPayment * termMonths;
-        const totalInterest = totalPaid - netProceeds;
-        const averageBalance = netProceeds / 2;
-        const years = termMonths / 12;
-
-        return (totalInterest / averageBalance / years) * 100;
+        const cashFlows = [-netProceeds, ...schedule.map((entry) => entry.payment + entry.prepayment)];
+        const { rate } = this.irrCalculator.solve(cashFlows, 0.01);
+        return rate === null ? 0 : (Math.pow(1 + rate, 12) - 1) * 100;
     }
 
     private calculateAffordability(
@@ -206,18 +316,45 @@ export class LoanCalculator extends BaseCalculator {
         if (input.originationFee !== undefined) {
             this.assertRange(input.originationFee, 0, 10, 'originationFee');
         }
+
+        if (input.gracePeriodMonths !== undefined) {
+            this.assertRange(input.gracePeriodMonths, 0, input.termMonths - 1, 'gracePeriodMonths');
+        }
+
+        if (input.balloonPayment !== undefined) {
+            this.assertRange(input.balloonPayment, 0, input.principal, 'balloonPayment');
+        }
+
+        if (input.rateSteps && input.variableRate) {
+            throw new Error(`${this.calculatorName}: rateSteps and variableRate cannot be combined`);
+        }
+
+        const ratePath = input.variableRate?.baseRatePath ?? input.rateSteps ?? [];
+        ratePath.forEach((step, index) => {
+            this.assertRange(step.month, 1, input.termMonths, `ratePath[${index}].month`);
+            this.assertRange(step.annualRate, input.variableRate ? -10 : 0, 100, `ratePath[${index}].annualRate`);
+        });
+        if (input.variableRate) {
+            this.assertRange(input.variableRate.spread, 0, 50, 'variableRate.spread');
+        }
+
+        (input.prepayments ?? []).forEach((prepayment, index) => {
+            this.assertRange(prepayment.month, 1, input.termMonths, `prepayments[${index}].month`);
+            this.assertPositive(prepayment.amount, `prepayments[${index}].amount`);
+        });
     }
 
     generateRecommendations(
         result: ReturnType<typeof this.calculate>,
-        input: LoanInput
+        input: LoanInput,
+        currency: Currency = Currency.USD
     ): string[] {
         const recommendations: string[] = [];
 
         // Interest cost
         const interestRatio = (result.totalInterest / input.principal) * 100;
         recommendations.push(
-            `Total interest cost: ${interestRatio.toFixed(1)}% of principal ($${result.totalInterest.toLocaleString()})`
+            `Total interest cost: ${interestRatio.toFixed(1)}% of principal (${this.formatCurrency(result.totalInterest, currency)})`
         );
 
         // Affordability
@@ -226,14 +363,14 @@ export class LoanCalculator extends BaseCalculator {
                 '⚠️ WARNING: This loan may stretch your cash flow too thin.'
             );
             recommendations.push(
-                `Maximum affordable payment: $${result.affordability.maxAffordablePayment?.toLocaleString()}/month`
+                `Maximum affordable payment: ${this.formatCurrency(result.affordability.maxAffordablePayment ?? 0, currency)}/month`
             );
             recommendations.push(
                 'Consider: longer term, smaller amount, or lower rate.'
             );
         } else if (result.affordability.isAffordable === true) {
             recommendations.push(
-                `✅ Loan is affordable. Cash cushion after payment: $${result.affordability.cushionAfterPayment?.toLocaleString()}/month`
+                `✅ Loan is affordable. Cash cushion after payment: ${this.formatCurrency(result.affordability.cushionAfterPayment ?? 0, currency)}/month`
             );
         }
 
@@ -255,18 +392,51 @@ export class LoanCalculator extends BaseCalculator {
             );
         }
 
+        // Structure
+        if (result.structure.gracePeriodPayment !== null) {
+            recommendations.push(
+                `Interest-only for ${input.gracePeriodMonths} months at ${this.formatCurrency(result.structure.gracePeriodPayment, currency)}/month, then ${this.formatCurrency(result.monthlyPayment, currency)}/month.`
+            );
+        }
+        if (result.structure.maxPayment > result.structure.minPayment * 1.1) {
+            recommendations.push(
+                `Payments move between ${this.formatCurrency(result.structure.minPayment, currency)} and ${this.formatCurrency(result.structure.maxPayment, currency)} as the rate changes. Plan for the highest one.`
+            );
+        }
+        if (result.structure.balloonPayment > 0) {
+            recommendations.push(
+                `A balloon of ${this.formatCurrency(result.structure.balloonPayment, currency)} is due in month ${result.structure.payoffMonth}. Plan to refinance or set cash aside.`
+            );
+        }
+        if (result.structure.interestSaved > 0) {
+            recommendations.push(
+                `Prepayments save ${this.formatCurrency(result.structure.interestSaved, currency)} of interest${result.structure.monthsSaved > 0 ? ` and ${result.structure.monthsSaved} months` : ''}.`
+            );
+        }
+
         return recommendations;
     }
 
     /**
-     * Compare multiple loan options.
-     * 
+     * Compare multiple loan offers.
+     * Offers are ranked by total cost (payments plus origination fees) and by effective
+     * annual rate; the best option is the cheapest in total.
+     *
      * @param loans - Array of loan inputs to compare
      * @returns Comparison with best option highlighted
      */
     compareLoanOptions(loans: LoanInput[]): {
-        options: Array<LoanInput & { totalCost: number; monthlyPayment: number }>;
+        options: Array<LoanInput & {
+            totalCost: number;
+            monthlyPayment: number;
+            totalInterest: number;
+            effectiveAnnualRate: number;
+            payoffMonth: number;
+            costRank: number;
+            rateRank: number;
+        }>;
         bestOption: number;
+        lowestRateOption: number;
         savings: number;
     } {
         const results = loans.map(loan => {
@@ -275,17 +445,29 @@ export class LoanCalculator extends BaseCalculator {
                 ...loan,
                 totalCost: calc.totalCostWithFees,
                 monthlyPayment: calc.monthlyPayment,
+                totalInterest: calc.totalInterest,
+                effectiveAnnualRate: calc.effectiveAnnualRate,
+                payoffMonth: calc.structure.payoffMonth,
             };
         });
 
-        const sortedByTotalCost = [...results].sort((a, b) => a.totalCost - b.totalCost);
-        const bestOption = results.indexOf(sortedByTotalCost[0]);
-        const worstCost = sortedByTotalCost[sortedByTotalCost.length - 1].totalCost;
-        const savings = worstCost - sortedByTotalCost[0].totalCost;
+        const byCost = results.map((_, index) => index).sort((a, b) => results[a].totalCost - results[b].totalCost);
+        const byRate = results
+            .map((_, index) => index)
+            .sort((a, b) => results[a].effectiveAnnualRate - results[b].effectiveAnnualRate);
+
+        const bestOption = byCost[0];
+        const worstCost = results[byCost[byCost.length - 1]].totalCost;
+        const savings = worstCost - results[bestOption].totalCost;
 
         return {
-            options: results,
+            options: results.map((option, index) => ({
+                ...option,
+                costRank: byCost.indexOf(index) + 1,
+                rateRank: byRate.indexOf(index) + 1,
+            })),
             bestOption,
+            lowestRateOption: byRate[0],
             savings: this.round(savings, 2),
         };
     }
@@ -1,5 +1,18 @@
 import { BaseCalculator } from './BaseCalculator';
-import type { MarketingROIInput } from '@/types/project';
+import { Currency } from '@/lib/domain/value-objects/Money';
+import type {
+    BudgetAllocation,
+    BudgetAllocationInput,
+    ChannelBudgetInput,
+    ChannelResponseCurve,
+    MarketingROIInput,
+} from '@/types/project';
+
+// Budget is handed out in this many increments by the allocator
+const ALLOCATION_STEPS = 1000;
+
+// Diminishing-returns exponent for channels without enough history to fit one
+const DEFAULT_RESPONSE_EXPONENT = 0.7;
 
 export class MarketingROICalculator extends BaseCalculator {
     /**
@@ -192,21 +205,22 @@ export class MarketingROICalculator extends BaseCalculator {
 
     generateRecommendations(
         result: ReturnType<typeof this.calculate>,
-        input: MarketingROIInput
+        input: MarketingROIInput,
+        currency: Currency = Currency.USD
     ): string[] {
         const recommendations: string[] = [];
 
         // Profitability
         if (!result.isProfitable) {
             recommendations.push(
-                `⚠️ Campaign is LOSING money. Net loss: $${Math.abs(result.netProfit).toLocaleString()}`
+                `⚠️ Campaign is LOSING money. Net loss: ${this.formatCurrency(Math.abs(result.netProfit), currency)}`
             );
             recommendations.push(
                 `Need ${result.breakEvenConversions - input.conversions} more conversions to break even.`
             );
         } else {
             recommendations.push(
-                `✅ Campaign is profitable! Net profit: $${result.netProfit.toLocaleString()}`
+                `✅ Campaign is profitable! Net profit: ${this.formatCurrency(result.netProfit, currency)}`
             );
         }
 
@@ -228,11 +242,11 @@ export class MarketingROICalculator extends BaseCalculator {
         // CAC comparison
         if (result.benchmarkComparison.cacVsBenchmark === 'better') {
             recommendations.push(
-                `CAC of $${result.costPerAcquisition} is BELOW industry average for ${input.channel}. Great efficiency!`
+                `CAC of ${this.formatCurrency(result.costPerAcquisition, currency, 'en-US', 2)} is BELOW industry average for ${input.channel}. Great efficiency!`
             );
         } else if (result.benchmarkComparison.cacVsBenchmark === 'worse') {
             recommendations.push(
-                `CAC of $${result.costPerAcquisition} is ABOVE industry average. Review targeting and creative.`
+                `CAC of ${this.formatCurrency(result.costPerAcquisition, currency, 'en-US', 2)} is ABOVE industry average. Review targeting and creative.`
             );
         }
 
@@ -310,4 +324,229 @@ export class MarketingROICalculator extends BaseCalculator {
             recommendations,
         };
     }
+
+    /**
+     * Recommend spend per channel for a total budget.
+     *
+     * Each channel gets a concave response curve (conversions = scale · spend^exponent),
+     * fitted on logs from past spend/conversion pairs or anchored so the channel hits its
+     * benchmark CAC at an even split of the budget. Budget is then handed out in small
+     * increments to whichever channel returns the most per unit of spend, after the
+     * minimums and never above the maximums. With the profit objective an increment
+     * is only spent while it earns back more than it costs, so part of the budget can
+     * stay unallocated.
+     *
+     * @param input - Total budget, objective and per-channel constraints
+     * @returns Recommended allocation with expected ROAS and CAC per channel and overall
+     */
+    allocateBudget(input: BudgetAllocationInput): BudgetAllocation {
+        this.validateAllocation(input);
+
+        const { totalBudget, objective, channels } = input;
+        const exponent = input.responseExponent ?? DEFAULT_RESPONSE_EXPONENT;
+        const referenceSpend = totalBudget / channels.length;
+
+        const curves = channels.map((channel) => this.fitResponseCurve(channel, exponent, referenceSpend));
+        const values = channels.map((channel) => channel.revenuePerConversion ?? input.revenuePerConversion);
+        const ceilings = channels.map((channel) => Math.min(channel.maxSpend ?? totalBudget, totalBudget));
+        const spend = channels.map((channel) => channel.minSpend ?? 0);
+
+        const step = totalBudget / ALLOCATION_STEPS;
+        const epsilon = step * 1e-6;
+        let remaining = totalBudget - spend.reduce((sum, value) => sum + value, 0);
+
+        while (remaining > epsilon) {
+            let best = -1;
+            let bestAmount = 0;
+            let bestReturn = objective === 'profit' ? 0 : -Infinity;
+
+            for (let i = 0; i < channels.length; i++) {
+                const amount = Math.min(step, remaining, ceilings[i] - spend[i]);
+                if (amount <= epsilon) continue;
+
+                const extraConversions = this.respond(curves[i], spend[i] + amount) - this.respond(curves[i], spend[i]);
+                const perUnit = objective === 'profit'
+                    ? (extraConversions * values[i] - amount) / amount
+                    : extraConversions / amount;
+
+                if (perUnit > bestReturn) {
+                    best = i;
+                    bestAmount = amount;
+                    bestReturn = perUnit;
+                }
+            }
+
+            if (best < 0) break;
+
+            spend[best] += bestAmount;
+            remaining -= bestAmount;
+        }
+
+        const allocatedSpend = spend.reduce((sum, value) => sum + value, 0);
+
+        const allocations = channels.map((channel, i) => {
+            const conversions = this.respond(curves[i], spend[i]);
+            const revenue = conversions * values[i];
+            const nextConversions = this.respond(curves[i], spend[i] + step) - conversions;
+
+            return {
+                channel: channel.channel,
+                spend: this.round(spend[i], 2),
+                share: this.round(this.safeDivide(spend[i], allocatedSpend, 0) * 100, 2),
+                conversions: this.round(conversions, 2),
+                revenue: this.round(revenue, 2),
+                profit: this.round(revenue - spend[i], 2),
+                roas: this.round(this.safeDivide(revenue, spend[i], 0), 2),
+                cac: this.round(this.safeDivide(spend[i], conversions, 0), 2),
+                marginalRoas: this.round((nextConversions * values[i]) / step, 2),
+                curve: {
+                    ...curves[i],
+                    scale: this.round(curves[i].scale, 6),
+                    exponent: this.round(curves[i].exponent, 4),
+                    rSquared: curves[i].rSquared !== null ? this.round(curves[i].rSquared, 4) : null,
+                },
+            };
+        });
+
+        const conversions = channels.reduce((sum, _, i) => sum + this.respond(curves[i], spend[i]), 0);
+        const revenue = channels.reduce((sum, _, i) => sum + this.respond(curves[i], spend[i]) * values[i], 0);
+
+        this.logCalculation('Allocated budget', allocatedSpend);
+        this.logCalculation('Allocation ROAS', this.safeDivide(revenue, allocatedSpend, 0));
+
+        return {
+            objective,
+            totalBudget,
+            allocatedSpend: this.round(allocatedSpend, 2),
+            unallocated: this.round(Math.max(totalBudget - allocatedSpend, 0), 2),
+            conversions: this.round(conversions, 2),
+            revenue: this.round(revenue, 2),
+            profit: this.round(revenue - allocatedSpend, 2),
+            roas: this.round(this.safeDivide(revenue, allocatedSpend, 0), 2),
+            cac: this.round(this.safeDivide(allocatedSpend, conversions, 0), 2),
+            channels: allocations,
+        };
+    }
+
+    private respond(curve: ChannelResponseCurve, spend: number): number {
+        return spend > 0 ? curve.scale * Math.pow(spend, curve.exponent) : 0;
+    }
+
+    /**
+     * Builds a channel's response curve. Two or more distinct spends are fitted with
+     * log-log least squares (exponent kept below 1 so returns diminish); a single
+     * observation or the channel benchmark only anchors the scale.
+     *
+     * @private
+     */
+    private fitResponseCurve(
+        channel: ChannelBudgetInput,
+        defaultExponent: number,
+        referenceSpend: number
+    ): ChannelResponseCurve {
+        const history = channel.history ?? [];
+
+        if (new Set(history.map((point) => point.spend)).size >= 2) {
+            const xs = history.map((point) => Math.log(point.spend));
+            const ys = history.map((point) => Math.log(point.conversions));
+            const n = xs.length;
+            const meanX = xs.reduce((sum, x) => sum + x, 0) / n;
+            const meanY = ys.reduce((sum, y) => sum + y, 0) / n;
+
+            let sxx = 0;
+            let sxy = 0;
+            for (let i = 0; i < n; i++) {
+                sxx += (xs[i] - meanX) ** 2;
+                sxy += (xs[i] - meanX) * (ys[i] - meanY);
+            }
+
+            const exponent = Math.min(Math.max(sxy / sxx, 0.05), 0.99);
+            const logScale = meanY - exponent * meanX;
+
+            let ssRes = 0;
+            let ssTot = 0;
+            for (let i = 0; i < n; i++) {
+                ssRes += (ys[i] - (logScale + exponent * xs[i])) ** 2;
+                ssTot += (ys[i] - meanY) ** 2;
+            }
+
+            return {
+                scale: Math.exp(logScale),
+                exponent,
+                source: 'history',
+                rSquared: ssTot === 0 ? 1 : Math.max(1 - ssRes / ssTot, 0),
+            };
+        }
+
+        if (history.length > 0) {
+            const { spend, conversions } = history[0];
+            return {
+                scale: conversions / Math.pow(spend, defaultExponent),
+                exponent: defaultExponent,
+                source: 'history',
+                rSquared: null,
+            };
+        }
+
+        const benchmark = this.channelBenchmarks[channel.channel] ?? this.channelBenchmarks.other;
+        const conversionsAtReference = referenceSpend / benchmark.avgCAC;
+
+        return {
+            scale: conversionsAtReference / Math.pow(referenceSpend, defaultExponent),
+            exponent: defaultExponent,
+            source: 'benchmark',
+            rSquared: null,
+        };
+    }
+
+    private validateAllocation(input: BudgetAllocationInput): void {
+        super.validate(input);
+
+        this.assertPositive(input.totalBudget, 'totalBudget');
+        if (input.totalBudget === 0) {
+            throw new Error(`${this.calculatorName}: totalBudget must be greater than zero`);
+        }
+        this.assertPositive(input.revenuePerConversion, 'revenuePerConversion');
+
+        if (input.responseExponent !== undefined) {
+            this.assertRange(input.responseExponent, 0.05, 0.99, 'responseExponent');
+        }
+
+        if (!input.channels || input.channels.length === 0) {
+            throw new Error(`${this.calculatorName}: at least one channel is required`);
+        }
+
+        let minimums = 0;
+        input.channels.forEach((channel, index) => {
+            const field = `channels[${index}]`;
+
+            if (channel.minSpend !== undefined) {
+                this.assertPositive(channel.minSpend, `${field}.minSpend`);
+                minimums += channel.minSpend;
+            }
+
+            if (channel.maxSpend !== undefined) {
+                this.assertPositive(channel.maxSpend, `${field}.maxSpend`);
+                if (channel.maxSpend < (channel.minSpend ?? 0)) {
+                    throw new Error(`${this.calculatorName}: ${field}.maxSpend cannot be below minSpend`);
+                }
+            }
+
+            if (channel.revenuePerConversion !== undefined) {
+                this.assertPositive(channel.revenuePerConversion, `${field}.revenuePerConversion`);
+            }
+
+            (channel.history ?? []).forEach((point, pointIndex) => {
+                this.assertPositive(point.spend, `${field}.history[${pointIndex}].spend`);
+                this.assertPositive(point.conversions, `${field}.history[${pointIndex}].conversions`);
+                if (point.spend === 0 || point.conversions === 0) {
+                    throw new Error(`${this.calculatorName}: ${field}.history[${pointIndex}] needs spend and conversions above zero`);
+                }
+            });
+        });
+
+        if (minimums > input.totalBudget) {
+            throw new Error(`${this.calculatorName}: channel minimums exceed totalBudget`);
+        }
+    }
 }
@@ -0,0 +1,354 @@
+import { BaseCalculator } from './BaseCalculator';
+import { StandardMetricsCalculator } from './StandardMetricsCalculator';
+import { LineItemCashFlowCalculator } from './LineItemCashFlowCalculator';
+import type {
+  FinancialCalculationInput,
+  HistogramBin,
+  InputDistribution,
+  MonteCarloConfig,
+  MonteCarloResult,
+  MonteCarloVariable,
+} from '@/types/project';
+
+/**
+ * Valid range for each sampled variable, mirroring StandardMetricsCalculator validation.
+ */
+const VARIABLE_BOUNDS: Record<MonteCarloVariable, { min: number; max: number }> = {
+  yearlyRevenue: { min: 0, max: Number.MAX_SAFE_INTEGER },
+  revenueGrowth: { min: -100, max: 1000 },
+  operatingCosts: { min: 0, max: Number.MAX_SAFE_INTEGER },
+  discountRate: { min: 0, max: 100 },
+  initialInvestment: { min: 0, max: Number.MAX_SAFE_INTEGER },
+  revenueMultiplier: { min: 0, max: 100 },
+  costMultiplier: { min: 0, max: 100 },
+};
+
+export class MonteCarloCalculator extends BaseCalculator {
+  private standardCalculator: StandardMetricsCalculator;
+  private lineItemCalculator: LineItemCashFlowCalculator;
+
+  constructor() {
+    super('MonteCarloCalculator');
+    this.standardCalculator = new StandardMetricsCalculator();
+    this.lineItemCalculator = new LineItemCashFlowCalculator();
+  }
+
+  /**
+   * Runs a seeded Monte Carlo simulation over the standard metrics pipeline.
+   * Inputs without a distribution keep their deterministic value. Iterations whose IRR
+   * cannot be determined are left out of the IRR percentiles and counted separately.
+   */
+  calculate(input: FinancialCalculationInput, config: MonteCarloConfig): MonteCarloResult {
+    this.validate(input);
+    this.validateConfig(config);
+
+    const random = this.createRandom(config.seed);
+    const npvSamples: number[] = [];
+    const irrSamples: number[] = [];
+
+    for (let i = 0; i < config.iterations; i++) {
+      const sampled: Partial<Record<MonteCarloVariable, number>> = {};
+
+      (Object.keys(config.distributions) as MonteCarloVariable[]).forEach((variable) => {
+        const distribution = config.distributions[variable];
+        if (!distribution) return;
+
+        const bounds = VARIABLE_BOUNDS[variable];
+        const value = this.sample(distribution, random);
+        sampled[variable] = Math.min(bounds.max, Math.max(bounds.min, value));
+      });
+
+      const result = this.standardCalculator.calculate(this.applySample(input, sampled));
+      npvSamples.push(result.npv);
+      if (result.irrDiagnostics.roots.length > 0) {
+        irrSamples.push(result.irr);
+      }
+    }
+
+    const sortedNpv = [...npvSamples].sort((a, b) => a - b);
+    const sortedIrr = [...irrSamples].sort((a, b) => a - b);
+
+    const npvMean = this.mean(npvSamples);
+    const npvVariance = this.mean(npvSamples.map((v) => Math.pow(v - npvMean, 2)));
+    const lossCount = npvSamples.filter((v) => v < 0).length;
+    const probabilityOfLoss = (lossCount / config.iterations) * 100;
+
+    this.logCalculation('Monte Carlo P50 NPV', this.percentile(sortedNpv, 50), {
+      iterations: config.iterations,
+      seed: config.seed,
+    });
+    this.logCalculation('Probability of Loss', probabilityOfLoss);
+
+    return {
+      iterations: config.iterations,
+      seed: config.seed,
+      npv: {
+        p10: this.round(this.percentile(sortedNpv, 10), 2),
+        p50: this.round(this.percentile(sortedNpv, 50), 2),
+        p90: this.round(this.percentile(sortedNpv, 90), 2),
+        mean: this.round(npvMean, 2),
+        stdDev: this.round(Math.sqrt(npvVariance), 2),
+      },
+      irr: {
+        p10: this.round(this.percentile(sortedIrr, 10), 2),
+        p50: this.round(this.percentile(sortedIrr, 50), 2),
+        p90: this.round(this.percentile(sortedIrr, 90), 2),
+        mean: this.round(this.mean(irrSamples), 2),
+        undetermined: config.iterations - irrSamples.length,
+      },
+      probabilityOfLoss: this.round(probabilityOfLoss, 2),
+      histogram: this.buildHistogram(sortedNpv, config.histogramBins || 20),
+    };
+  }
+
+  /**
+   * Builds a default configuration from the project's scenario multipliers.
+   * Revenue spans the worst/best case range; costs and investment skew towards overruns.
+   * Projects whose revenue comes from line items or the SaaS MRR projection are varied
+   * through the revenue and cost multipliers, since the yearly figures don't reach their
+   * cash flow; an investment the engine doesn't use, or that is zero, is not sampled.
+   */
+  createDefaultConfig(
+    input: FinancialCalculationInput,
+    multipliers: { bestCaseMultiplier?: number; worstCaseMultiplier?: number } = {},
+    iterations: number = 1000,
+    seed: number = 42
+  ): MonteCarloConfig {
+    const best = multipliers.bestCaseMultiplier || 1.2;
+    const worst = multipliers.worstCaseMultiplier || 0.8;
+    const hasLineItems = this.lineItemCalculator.hasLineItems(input.lineItems);
+    const projectsMRR = !hasLineItems && input.businessModel === 'saas' && !!input.saasInput;
+
+    const distributions: MonteCarloConfig['distributions'] = {
+      discountRate: {
+        type: 'uniform',
+        min: Math.max(0, input.discountRate - 2),
+        max: input.discountRate + 2,
+      },
+    };
+
+    if (hasLineItems || projectsMRR) {
+      distributions.revenueMultiplier = {
+        type: 'triangular',
+        min: Math.min(worst, 1),
+        mode: 1,
+        max: Math.max(best, 1),
+      };
+      distributions.costMultiplier = { type: 'triangular', min: 0.9, mode: 1, max: 1.2 };
+    } else {
+      distributions.yearlyRevenue = {
+        type: 'triangular',
+        min: input.yearlyRevenue * Math.min(worst, 1),
+        mode: input.yearlyRevenue,
+        max: input.yearlyRevenue * Math.max(best, 1),
+      };
+      distributions.revenueGrowth = {
+        type: 'normal',
+        mean: input.revenueGrowth,
+        stdDev: Math.max(2, Math.abs(input.revenueGrowth) * 0.5),
+      };
+      distributions.operatingCosts = {
+        type: 'triangular',
+        min: input.operatingCosts * 0.9,
+        mode: input.operatingCosts,
+        max: input.operatingCosts * 1.2,
+      };
+    }
+
+    // Line items replace the upfront investment with their month-0 capex
+    if (!hasLineItems && input.initialInvestment > 0) {
+      distributions.initialInvestment = {
+        type: 'lognormal',
+        mean: input.initialInvestment * 1.05,
+        stdDev: input.initialInvestment * 0.1,
+      };
+    }
+
+    return { iterations, seed, distributions };
+  }
+
+  protected override validate(input: FinancialCalculationInput): void {
+    super.validate(input);
+    this.assertFinite(input.initialInvestment, 'initialInvestment');
+    this.assertRange(input.projectDuration, 1, 600, 'projectDuration');
+  }
+
+  private validateConfig(config: MonteCarloConfig): void {
+    if (!config) {
+      throw new Error(`${this.calculatorName}: config cannot be null or undefined`);
+    }
+
+    this.assertRange(config.iterations, 1, 100000, 'iterations');
+    this.assertFinite(config.seed, 'seed');
+
+    if (config.histogramBins !== undefined) {
+      this.assertRange(config.histogramBins, 1, 200, 'histogramBins');
+    }
+
+    (Object.keys(config.distributions) as MonteCarloVariable[]).forEach((variable) => {
+      const distribution = config.distributions[variable];
+      if (distribution) {
+        this.validateDistribution(distribution, variable);
+      }
+    });
+  }
+
+  private validateDistribution(distribution: InputDistribution, variable: string): void {
+    const { type, mean, stdDev, min, mode, max } = distribution;
+
+    switch (type) {
+      case 'normal':
+      case 'lognormal':
+        this.assertFinite(mean as number, `${variable}.mean`);
+        this.assertPositive(stdDev as number, `${variable}.stdDev`);
+        if (type === 'lognormal' && (mean as number) <= 0) {
+          throw new Error(`${this.calculatorName}: ${variable}.mean must be greater than 0 for lognormal`);
+        }
+        break;
+      case 'triangular':
+        this.assertFinite(min as number, `${variable}.min`);
+        this.assertFinite(mode as number, `${variable}.mode`);
+        this.assertFinite(max as number, `${variable}.max`);
+        if ((min as number) > (mode as number) || (mode as number) > (max as number)) {
+          throw new Error(`${this.calculatorName}: ${variable} must satisfy min <= mode <= max`);
+        }
+        break;
+      case 'uniform':
+        this.assertFinite(min as number, `${variable}.min`);
+        this.assertFinite(max as number, `${variable}.max`);
+        if ((min as number) > (max as number)) {
+          throw new Error(`${this.calculatorName}: ${variable} must satisfy min <= max`);
+        }
+        break;
+      default:
+        throw new Error(`${this.calculatorName}: unknown distribution type for ${variable}`);
+    }
+  }
+
+  /**
+   * Calculator input for one iteration. The revenue multiplier compounds with the
+   * scenario multiplier; the cost multiplier scales operating and maintenance costs,
+   * fixed cost lines and SaaS acquisition spend.
+   */
+  private applySample(
+    input: FinancialCalculationInput,
+    sampled: Partial<Record<MonteCarloVariable, number>>
+  ): FinancialCalculationInput {
+    const { revenueMultiplier, costMultiplier, ...direct } = sampled;
+    const sampledInput: FinancialCalculationInput = { ...input, ...direct };
+
+    if (revenueMultiplier !== undefined) {
+      sampledInput.multiplier = (input.multiplier ?? 1) * revenueMultiplier;
+    }
+
+    if (costMultiplier !== undefined) {
+      sampledInput.operatingCosts *= costMultiplier;
+      sampledInput.maintenanceCosts *= costMultiplier;
+      if (input.lineItems) {
+        sampledInput.lineItems = {
+          ...input.lineItems,
+          costLines: input.lineItems.costLines.map((line) =>
+            line.behavior === 'fixed' ? { ...line, amount: line.amount * costMultiplier } : line
+          ),
+        };
+      }
+      if (input.saasInput) {
+        sampledInput.saasInput = {
+          ...input.saasInput,
+          monthlyAcquisitionSpend: (input.saasInput.monthlyAcquisitionSpend ?? 0) * costMultiplier,
+        };
+      }
+    }
+
+    return sampledInput;
+  }
+
+  private sample(distribution: InputDistribution, random: () => number): number {
+    switch (distribution.type) {
+      case 'normal':
+        return distribution.mean! + distribution.stdDev! * this.standardNormal(random);
+      case 'lognormal': {
+        // Convert the arithmetic mean/stdDev into the underlying normal parameters
+        const m = distribution.mean!;
+        const s = distribution.stdDev!;
+        const sigma = Math.sqrt(Math.log(1 + (s * s) / (m * m)));
+        const mu = Math.log(m) - (sigma * sigma) / 2;
+        return Math.exp(mu + sigma * this.standardNormal(random));
+      }
+      case 'triangular': {
+        const a = distribution.min!;
+        const c = distribution.mode!;
+        const b = distribution.max!;
+        if (b === a) return a;
+        const u = random();
+        const cutoff = (c - a) / (b - a);
+        return u < cutoff
+          ? a + Math.sqrt(u * (b - a) * (c - a))
+          : b - Math.sqrt((1 - u) * (b - a) * (b - c));
+      }
+      case 'uniform':
+        return distribution.min! + random() * (distribution.max! - distribution.min!);
+    }
+  }
+
+  /**
+   * Box-Muller transform.
+   */
+  private standardNormal(random: () => number): number {
+    let u = 0;
+    while (u === 0) u = random();
+    const v = random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  }
+
+  /**
+   * Mulberry32 PRNG so that runs are reproducible for a given seed.
+   */
+  private createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+
+  private percentile(sorted: number[], p: number): number {
+    if (sorted.length === 0) return 0;
+    const index = (p / 100) * (sorted.length - 1);
+    const lower = Math.floor(index);
+    const upper = Math.ceil(index);
+    if (lower === upper) return sorted[lower];
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+  }
+
+  private mean(values: number[]): number {
+    if (values.length === 0) return 0;
+    return values.reduce((sum, v) => sum + v, 0) / values.length;
+  }
+
+  private buildHistogram(sorted: number[], bins: number): HistogramBin[] {
+    const min = sorted[0];
+    const max = sorted[sorted.length - 1];
+    const width = this.safeDivide(max - min, bins, 0);
+
+    if (width === 0) {
+      return [{ start: this.round(min, 2), end: this.round(max, 2), count: sorted.length }];
+    }
+
+    const histogram: HistogramBin[] = Array.from({ length: bins }, (_, i) => ({
+      start: this.round(min + i * width, 2),
+      end: this.round(min + (i + 1) * width, 2),
+      count: 0,
+    }));
+
+    sorted.forEach((value) => {
+      const index = Math.min(bins - 1, Math.floor((value - min) / width));
+      histogram[index].count++;
+    });
+
+    return histogram;
+  }
+}
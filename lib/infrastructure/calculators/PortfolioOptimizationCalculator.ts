@@ -0,0 +1,276 @@
+import { BaseCalculator } from './BaseCalculator';
+import type {
+  BusinessModel,
+  PortfolioCandidate,
+  PortfolioConstraints,
+  PortfolioOptimizationResult,
+  PortfolioSelection,
+} from '@/types/project';
+
+/**
+ * Search nodes allowed per solve before the best selection found so far is returned
+ */
+const MAX_NODES = 200000;
+
+/**
+ * Most frontier points reported; each point needs a full solve
+ */
+const MAX_FRONTIER_POINTS = 25;
+
+interface SearchState {
+  chosen: PortfolioCandidate[];
+  investment: number;
+  npv: number;
+  risk: number;
+  modelCounts: Map<BusinessModel, number>;
+}
+
+export class PortfolioOptimizationCalculator extends BaseCalculator {
+  private nodes = 0;
+  private truncated = false;
+
+  constructor() {
+    super('PortfolioOptimizationCalculator');
+  }
+
+  /**
+   * Selects the subset of projects that maximizes total NPV within a capital budget
+   * (0/1 knapsack with side constraints, solved exactly by branch and bound), and
+   * traces the efficient frontier of NPV against worst-case risk.
+   *
+   * Risk of a project is its expected NPV minus its worst-case NPV; portfolio risk is the sum,
+   * i.e. worst cases are assumed to coincide. The frontier is built with the epsilon-constraint
+   * method: each point maximizes NPV with risk strictly below the previous point.
+   */
+  calculate(
+    candidates: PortfolioCandidate[],
+    budget: number,
+    constraints: PortfolioConstraints = {}
+  ): PortfolioOptimizationResult {
+    this.validate({ candidates, budget, constraints });
+    this.truncated = false;
+
+    let best = this.solve(candidates, budget, constraints, Infinity);
+    if (!best) {
+      return { budget, feasible: false, best: null, frontier: [], exhaustive: !this.truncated };
+    }
+
+    const frontier: PortfolioSelection[] = [best];
+    let riskCap = best.risk;
+    while (frontier.length < MAX_FRONTIER_POINTS) {
+      const next = this.solve(candidates, budget, constraints, riskCap - Math.max(1e-9, riskCap * 1e-9));
+      if (!next) break;
+      // Same NPV at lower risk dominates the previous point
+      if (next.totalNPV >= frontier[frontier.length - 1].totalNPV - 1e-6) {
+        frontier[frontier.length - 1] = next;
+        if (frontier.length === 1) best = next;
+      } else {
+        frontier.push(next);
+      }
+      riskCap = next.risk;
+    }
+
+    this.logCalculation('PortfolioNPV', best.totalNPV, {
+      projects: best.projectIds.length,
+      frontierPoints: frontier.length,
+    });
+
+    return {
+      budget,
+      feasible: true,
+      best: this.toRounded(best),
+      frontier: frontier.reverse().map((selection) => this.toRounded(selection)),
+      exhaustive: !this.truncated,
+    };
+  }
+
+  /**
+   * Spread between expected and worst-case NPV, never negative
+   */
+  riskOf(candidate: PortfolioCandidate): number {
+    return Math.max(0, candidate.npv - candidate.worstCaseNpv);
+  }
+
+  /**
+   * Maximum-NPV selection with risk at most `riskCap`, or null when no selection is feasible.
+   * Among selections with equal NPV the one with lower risk wins.
+   */
+  private solve(
+    candidates: PortfolioCandidate[],
+    budget: number,
+    constraints: PortfolioConstraints,
+    riskCap: number
+  ): PortfolioSelection | null {
+    const mandatoryIds = new Set(constraints.mandatory ?? []);
+    const exclusions = this.buildExclusions(constraints.mutuallyExclusive ?? []);
+    const maxPerModel = constraints.maxPerBusinessModel ?? {};
+
+    const root: SearchState = { chosen: [], investment: 0, npv: 0, risk: 0, modelCounts: new Map() };
+    for (const candidate of candidates.filter((c) => mandatoryIds.has(c.id))) {
+      if (!this.canAdd(root, candidate, budget, riskCap, exclusions, maxPerModel)) return null;
+      this.add(root, candidate);
+    }
+    if (root.risk > riskCap) return null;
+
+    // Projects that cannot raise NPV are never worth funding voluntarily
+    const optional = candidates
+      .filter((c) => !mandatoryIds.has(c.id) && c.npv > 0)
+      .sort((a, b) => {
+        const [densityA, densityB] = [this.density(a), this.density(b)];
+        return densityA === densityB ? 0 : densityB > densityA ? 1 : -1;
+      });
+
+    const incumbent: { state: SearchState | null } = { state: null };
+    this.nodes = 0;
+
+    const search = (index: number, state: SearchState): void => {
+      if (++this.nodes > MAX_NODES) {
+        this.truncated = true;
+        return;
+      }
+
+      const best = incumbent.state;
+      if (
+        !best ||
+        state.npv > best.npv + 1e-9 ||
+        (Math.abs(state.npv - best.npv) <= 1e-9 && state.risk < best.risk)
+      ) {
+        incumbent.state = { ...state, chosen: [...state.chosen], modelCounts: new Map(state.modelCounts) };
+      }
+
+      if (index >= optional.length) return;
+      if (this.upperBound(optional, index, state, budget) <= incumbent.state!.npv + 1e-9) return;
+
+      const candidate = optional[index];
+      if (this.canAdd(state, candidate, budget, riskCap, exclusions, maxPerModel)) {
+        this.add(state, candidate);
+        search(index + 1, state);
+        this.remove(state, candidate);
+      }
+      search(index + 1, state);
+    };
+
+    search(0, root);
+
+    const best = incumbent.state;
+    if (!best) return null;
+    return {
+      projectIds: best.chosen.map((c) => c.id),
+      totalInvestment: best.investment,
+      totalNPV: best.npv,
+      risk: best.risk,
+    };
+  }
+
+  /**
+   * Fractional knapsack relaxation over the remaining projects (sorted by NPV per unit invested)
+   */
+  private upperBound(optional: PortfolioCandidate[], index: number, state: SearchState, budget: number): number {
+    let remaining = budget - state.investment;
+    let bound = state.npv;
+
+    for (let i = index; i < optional.length; i++) {
+      const candidate = optional[i];
+      if (candidate.investment <= remaining) {
+        remaining -= candidate.investment;
+        bound += candidate.npv;
+      } else {
+        bound += (candidate.npv * remaining) / candidate.investment;
+        break;
+      }
+    }
+
+    return bound;
+  }
+
+  private canAdd(
+    state: SearchState,
+    candidate: PortfolioCandidate,
+    budget: number,
+    riskCap: number,
+    exclusions: Map<string, Set<string>>,
+    maxPerModel: Partial<Record<BusinessModel, number>>
+  ): boolean {
+    if (state.investment + candidate.investment > budget + 1e-9) return false;
+    if (state.risk + this.riskOf(candidate) > riskCap) return false;
+
+    const excluded = exclusions.get(candidate.id);
+    if (excluded && state.chosen.some((c) => excluded.has(c.id))) return false;
+
+    const limit = maxPerModel[candidate.businessModel];
+    return limit === undefined || (state.modelCounts.get(candidate.businessModel) ?? 0) < limit;
+  }
+
+  private add(state: SearchState, candidate: PortfolioCandidate): void {
+    state.chosen.push(candidate);
+    state.investment += candidate.investment;
+    state.npv += candidate.npv;
+    state.risk += this.riskOf(candidate);
+    state.modelCounts.set(candidate.businessModel, (state.modelCounts.get(candidate.businessModel) ?? 0) + 1);
+  }
+
+  private remove(state: SearchState, candidate: PortfolioCandidate): void {
+    state.chosen.pop();
+    state.investment -= candidate.investment;
+    state.npv -= candidate.npv;
+    state.risk -= this.riskOf(candidate);
+    state.modelCounts.set(candidate.businessModel, (state.modelCounts.get(candidate.businessModel) ?? 1) - 1);
+  }
+
+  private density(candidate: PortfolioCandidate): number {
+    return candidate.investment > 0 ? candidate.npv / candidate.investment : Infinity;
+  }
+
+  private buildExclusions(pairs: [string, string][]): Map<string, Set<string>> {
+    const exclusions = new Map<string, Set<string>>();
+    pairs.forEach(([a, b]) => {
+      exclusions.set(a, (exclusions.get(a) ?? new Set()).add(b));
+      exclusions.set(b, (exclusions.get(b) ?? new Set()).add(a));
+    });
+    return exclusions;
+  }
+
+  private toRounded(selection: PortfolioSelection): PortfolioSelection {
+    return {
+      projectIds: selection.projectIds,
+      totalInvestment: this.round(selection.totalInvestment, 2),
+      totalNPV: this.round(selection.totalNPV, 2),
+      risk: this.round(selection.risk, 2),
+    };
+  }
+
+  protected override validate(input: {
+    candidates: PortfolioCandidate[];
+    budget: number;
+    constraints: PortfolioConstraints;
+  }): void {
+    super.validate(input);
+
+    this.assertPositive(input.budget, 'budget');
+
+    const ids = new Set<string>();
+    input.candidates.forEach((candidate, i) => {
+      if (ids.has(candidate.id)) {
+        throw new Error(`${this.calculatorName}: duplicate project id ${candidate.id}`);
+      }
+      ids.add(candidate.id);
+      this.assertPositive(candidate.investment, `candidates[${i}].investment`);
+      this.assertFinite(candidate.npv, `candidates[${i}].npv`);
+      this.assertFinite(candidate.worstCaseNpv, `candidates[${i}].worstCaseNpv`);
+    });
+
+    const known = (id: string) => {
+      if (!ids.has(id)) throw new Error(`${this.calculatorName}: unknown project id ${id}`);
+    };
+    input.constraints.mandatory?.forEach(known);
+    input.constraints.mutuallyExclusive?.forEach(([a, b]) => {
+      known(a);
+      known(b);
+    });
+    Object.entries(input.constraints.maxPerBusinessModel ?? {}).forEach(([model, limit]) => {
+      if (!Number.isInteger(limit) || (limit as number) < 0) {
+        throw new Error(`${this.calculatorName}: maxPerBusinessModel.${model} must be a non-negative integer`);
+      }
+    });
+  }
+}
@@ -1,5 +1,9 @@
 import { BaseCalculator } from './BaseCalculator';
-import type { PricingInput } from '@/types/project';
+import { Currency } from '@/lib/domain/value-objects/Money';
+import type { PricePoint, PricingDemandAnalysis, PricingDemandInput, PricingInput } from '@/types/project';
+
+// Number of prices sampled along the profit curve
+const CURVE_POINTS = 25;
 
 export class PricingCalculator extends BaseCalculator {
     constructor() {
@@ -24,6 +28,7 @@ export class PricingCalculator extends BaseCalculator {
             competitive: number;
             penetration: number;
         };
+        demandAnalysis: PricingDemandAnalysis | null;
     } {
         this.validate(input);
 
@@ -68,12 +73,15 @@ export class PricingCalculator extends BaseCalculator {
             penetration: this.round(targetMarginPrice * 0.85, 2),  // 15% below target
         };
 
+        // Demand model: when present, the profit-maximizing price wins
+        const demandAnalysis = input.demand
+            ? this.analyzeDemand(input.demand, input, competitorPrice || targetMarginPrice)
+            : null;
+
         // Recommended price
-        const recommendedPrice = this.calculateRecommendedPrice(
-            targetMarginPrice,
-            competitorPrice,
-            minimumPrice
-        );
+        const recommendedPrice = demandAnalysis?.profitMaximizing
+            ? demandAnalysis.profitMaximizing.price
+            : this.calculateRecommendedPrice(targetMarginPrice, competitorPrice, minimumPrice);
 
         const recommendedPriceRange = {
             low: this.round(Math.max(minimumPrice * 1.1, recommendedPrice * 0.9), 2),
@@ -93,6 +101,140 @@ export class PricingCalculator extends BaseCalculator {
             recommendedPrice,
             recommendedPriceRange,
             priceStrategies,
+            demandAnalysis,
+        };
+    }
+
+    /**
+     * Fit or build the demand curve and find the prices that maximize profit and revenue.
+     *
+     * Linear demand Q = a - b·P peaks in revenue at a / 2b and in profit halfway between
+     * unit cost and the choke price a / b. Constant elasticity demand Q = A·P^e has its
+     * profit peak at c·e / (1 + e) when demand is elastic (e < -1) and no finite revenue peak.
+     */
+    private analyzeDemand(
+        demand: PricingDemandInput,
+        input: PricingInput,
+        defaultReferencePrice: number
+    ): PricingDemandAnalysis {
+        const shape = demand.shape ?? 'linear';
+        const cost = input.costPerUnit;
+        const fixedCosts = input.fixedCostsPerPeriod ?? 0;
+        const observations = demand.observations ?? [];
+        const fitted = observations.length >= 2;
+
+        const pointAt = (price: number, volume: number): PricePoint => ({
+            price: this.round(price, 2),
+            volume: this.round(Math.max(0, volume), 2),
+            revenue: this.round(price * Math.max(0, volume), 2),
+            profit: this.round((price - cost) * Math.max(0, volume) - fixedCosts, 2),
+        });
+
+        let elasticity: number;
+        let rSquared: number | null = null;
+        let referencePrice: number;
+        let volumeAt: (price: number) => number;
+
+        if (fitted) {
+            const fit = shape === 'linear'
+                ? this.fitLine(observations.map((o) => o.price), observations.map((o) => o.volume))
+                : this.fitLine(observations.map((o) => Math.log(o.price)), observations.map((o) => Math.log(o.volume)));
+
+            if (fit.slope >= 0) {
+                throw new Error(`${this.calculatorName}: observed volumes must fall as price rises`);
+            }
+
+            rSquared = this.round(fit.rSquared, 4);
+            referencePrice = Math.max(...observations.map((o) => o.price));
+
+            if (shape === 'linear') {
+                const meanPrice = observations.reduce((sum, o) => sum + o.price, 0) / observations.length;
+                const meanVolume = observations.reduce((sum, o) => sum + o.volume, 0) / observations.length;
+                elasticity = fit.slope * meanPrice / meanVolume;
+                volumeAt = (price) => fit.intercept + fit.slope * price;
+            } else {
+                elasticity = fit.slope;
+                volumeAt = (price) => Math.exp(fit.intercept) * Math.pow(price, fit.slope);
+            }
+        } else {
+            const referenceVolume = demand.referenceVolume ?? input.targetVolume;
+            if (!referenceVolume) {
+                throw new Error(`${this.calculatorName}: a reference volume or targetVolume is required to model demand`);
+            }
+
+            elasticity = demand.elasticity as number;
+            referencePrice = demand.referencePrice ?? defaultReferencePrice;
+
+            if (shape === 'linear') {
+                const slope = elasticity * referenceVolume / referencePrice;
+                volumeAt = (price) => referenceVolume + slope * (price - referencePrice);
+            } else {
+                volumeAt = (price) => referenceVolume * Math.pow(price / referencePrice, elasticity);
+            }
+        }
+
+        let profitPrice: number | null = null;
+        let revenuePrice: number | null = null;
+        let curveHigh: number;
+
+        if (shape === 'linear') {
+            // Q = a - b·P, recovered from two points on the line
+            const b = volumeAt(0) - volumeAt(1);
+            const a = volumeAt(0);
+            const chokePrice = a / b;
+            revenuePrice = a / (2 * b);
+            profitPrice = chokePrice > cost ? (chokePrice + cost) / 2 : null;
+            curveHigh = chokePrice;
+        } else {
+            profitPrice = elasticity < -1 ? cost * elasticity / (1 + elasticity) : null;
+            curveHigh = Math.max(referencePrice * 3, (profitPrice ?? 0) * 1.5);
+        }
+
+        const curveLow = Math.min(cost, curveHigh / 2);
+        const step = (curveHigh - curveLow) / (CURVE_POINTS - 1);
+        const curve = Array.from({ length: CURVE_POINTS }, (_, i) => {
+            const price = curveLow + step * i;
+            return pointAt(price, volumeAt(price));
+        });
+
+        this.logCalculation('Demand Elasticity', elasticity);
+        if (profitPrice !== null) {
+            this.logCalculation('Profit-Maximizing Price', profitPrice);
+        }
+
+        return {
+            shape,
+            elasticity: this.round(elasticity, 4),
+            fitted,
+            rSquared,
+            profitMaximizing: profitPrice !== null ? pointAt(profitPrice, volumeAt(profitPrice)) : null,
+            revenueMaximizing: revenuePrice !== null ? pointAt(revenuePrice, volumeAt(revenuePrice)) : null,
+            curve,
+        };
+    }
+
+    /**
+     * Ordinary least squares fit of y = intercept + slope·x
+     */
+    private fitLine(xs: number[], ys: number[]): { slope: number; intercept: number; rSquared: number } {
+        const n = xs.length;
+        const meanX = xs.reduce((sum, x) => sum + x, 0) / n;
+        const meanY = ys.reduce((sum, y) => sum + y, 0) / n;
+
+        let sxx = 0;
+        let sxy = 0;
+        let syy = 0;
+        for (let i = 0; i < n; i++) {
+            sxx += (xs[i] - meanX) ** 2;
+            sxy += (xs[i] - meanX) * (ys[i] - meanY);
+            syy += (ys[i] - meanY) ** 2;
+        }
+
+        const slope = sxy / sxx;
+        return {
+            slope,
+            intercept: meanY - slope * meanX,
+            rSquared: syy === 0 ? 1 : (sxy * sxy) / (sxx * syy),
         };
     }
 
@@ -134,11 +276,49 @@ export class PricingCalculator extends BaseCalculator {
         if (input.fixedCostsPerPeriod !== undefined) {
             this.assertPositive(input.fixedCostsPerPeriod, 'fixedCostsPerPeriod');
         }
+
+        if (input.demand) {
+            this.validateDemand(input.demand);
+        }
+    }
+
+    private validateDemand(demand: PricingDemandInput): void {
+        const observations = demand.observations ?? [];
+
+        if (observations.length > 0) {
+            observations.forEach((observation, index) => {
+                this.assertPositive(observation.price, `demand.observations[${index}].price`);
+                this.assertPositive(observation.volume, `demand.observations[${index}].volume`);
+            });
+
+            if (new Set(observations.map((o) => o.price)).size < 2) {
+                throw new Error(`${this.calculatorName}: demand.observations need at least two different prices`);
+            }
+            return;
+        }
+
+        if (demand.elasticity === undefined) {
+            throw new Error(`${this.calculatorName}: demand requires an elasticity or price observations`);
+        }
+
+        this.assertFinite(demand.elasticity, 'demand.elasticity');
+        if (demand.elasticity >= 0) {
+            throw new Error(`${this.calculatorName}: demand.elasticity must be negative`);
+        }
+
+        if (demand.referencePrice !== undefined) {
+            this.assertPositive(demand.referencePrice, 'demand.referencePrice');
+        }
+
+        if (demand.referenceVolume !== undefined) {
+            this.assertPositive(demand.referenceVolume, 'demand.referenceVolume');
+        }
     }
 
     generateRecommendations(
         result: ReturnType<typeof this.calculate>,
-        input: PricingInput
+        input: PricingInput,
+        currency: Currency = Currency.USD
     ): string[] {
         const recommendations: string[] = [];
 
@@ -168,14 +348,45 @@ export class PricingCalculator extends BaseCalculator {
             }
         }
 
+        // Demand curve
+        const demand = result.demandAnalysis;
+        if (demand) {
+            if (demand.profitMaximizing) {
+                recommendations.push(
+                    `Profit peaks at ${this.formatCurrency(demand.profitMaximizing.price, currency, 'en-US', 2)} per unit, selling ${Math.round(demand.profitMaximizing.volume)} units for ${this.formatCurrency(demand.profitMaximizing.profit, currency, 'en-US', 0)} profit per period.`
+                );
+                if (demand.profitMaximizing.profit < 0) {
+                    recommendations.push('Even at the best price, fixed costs are not covered. Review costs or volume before launch.');
+                }
+            } else if (demand.shape === 'constant_elasticity') {
+                recommendations.push(
+                    'Demand is inelastic (elasticity above -1): profit keeps rising with price in this model. Test higher prices gradually.'
+                );
+            } else {
+                recommendations.push('No price covers the unit cost at the modelled demand. Reduce costs or revisit the demand estimate.');
+            }
+
+            if (demand.revenueMaximizing && demand.profitMaximizing) {
+                recommendations.push(
+                    `Revenue peaks at ${this.formatCurrency(demand.revenueMaximizing.price, currency, 'en-US', 2)} with ${Math.round(demand.revenueMaximizing.volume)} units; pricing below the profit peak trades margin for volume.`
+                );
+            }
+
+            if (demand.rSquared !== null && demand.rSquared < 0.5) {
+                recommendations.push(
+                    `The demand fit is weak (R² ${demand.rSquared.toFixed(2)}). Collect more price tests before relying on it.`
+                );
+            }
+        }
+
         // Price range
         recommendations.push(
-            `Recommended price range: $${result.recommendedPriceRange.low} - $${result.recommendedPriceRange.high}`
+            `Recommended price range: ${this.formatCurrency(result.recommendedPriceRange.low, currency, 'en-US', 2)} - ${this.formatCurrency(result.recommendedPriceRange.high, currency, 'en-US', 2)}`
         );
 
         // Profit per unit
         recommendations.push(
-            `At recommended price, you earn $${result.grossProfitPerUnit.toFixed(2)} per unit.`
+            `At recommended price, you earn ${this.formatCurrency(result.grossProfitPerUnit, currency, 'en-US', 2)} per unit.`
         );
 
         return recommendations;
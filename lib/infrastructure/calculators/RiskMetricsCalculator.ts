@@ -1,32 +1,127 @@
 import { BaseCalculator } from './BaseCalculator';
-import type { RiskInput } from '@/types/project';
+import type {
+  CapTableAfterRound,
+  CapTableEntry,
+  FundraisingRound,
+  RiskInput,
+  RunwayScenario,
+} from '@/types/project';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAYS_PER_MONTH = 365.25 / 12;
+const DEFAULT_CAP_TABLE: CapTableEntry[] = [{ holder: 'Founders', kind: 'founder', ownership: 100 }];
 
 export class RiskMetricsCalculator extends BaseCalculator {
   constructor() {
     super('RiskMetricsCalculator');
   }
 
+  /**
+   * Runway, churn impact and dilution. Runway and zero-cash date are null when the company
+   * is not burning cash, since the money never runs out.
+   */
   calculate(input: RiskInput): {
-    runway_months: number;
-    zero_cash_date: string;
+    runway_months: number | null;
+    zero_cash_date: string | null;
     churn_impact_6mo: number;
+    raise_by_date: string | null;
+    runway_scenarios: RunwayScenario[];
+    cap_table: CapTableAfterRound[];
   } {
     this.validate(input);
 
-    const runway_months = this.calculateRunway(input);
-    const zero_cash_date = this.calculateZeroCashDate(input);
+    const runway_scenarios = this.calculateRunwayScenarios(input);
+    const { runwayMonths: runway_months, zeroCashDate: zero_cash_date, raiseByDate: raise_by_date } = runway_scenarios[0];
     const churn_impact_6mo = this.calculateChurnImpact(input);
+    const cap_table = this.calculateCapTable(input);
 
-    this.logCalculation('Runway (months)', runway_months);
+    this.logCalculation('Runway (months)', runway_months ?? Infinity);
     this.logCalculation('Churn Impact (6mo)', churn_impact_6mo);
 
     return {
       runway_months,
       zero_cash_date,
       churn_impact_6mo,
+      raise_by_date,
+      runway_scenarios,
+      cap_table,
     };
   }
 
+  /**
+   * Runway under the current burn followed by each burn scenario. Planned rounds only
+   * add cash if they close before the money runs out. The raise-by date is the last day
+   * the next round can close while leaving the minimum runway, so it comes from the
+   * runway without any upcoming round. A plan that burns nothing has no runway limit,
+   * zero-cash or raise-by date, and every upcoming round closes.
+   */
+  calculateRunwayScenarios(input: RiskInput): RunwayScenario[] {
+    const asOf = this.asOfDate(input);
+    const plans = [
+      { name: 'Current plan', monthlyBurnRate: input.monthlyBurnRate },
+      ...(input.burnScenarios ?? []),
+    ];
+
+    return plans.map(({ name, monthlyBurnRate }) => {
+      if (monthlyBurnRate === 0) {
+        return {
+          name,
+          monthlyBurnRate,
+          runwayMonths: null,
+          zeroCashDate: null,
+          raiseByDate: null,
+          roundsFunded: this.upcomingRounds(input, asOf).length,
+        };
+      }
+
+      const { runwayMonths, roundsFunded } = this.calculateRunway(input, monthlyBurnRate, asOf);
+      const withoutRounds = this.calculateRunway({ ...input, fundraisingRounds: [] }, monthlyBurnRate, asOf);
+      const raiseBy = input.minimumRunwayMonths !== undefined
+        ? this.addMonths(asOf, Math.max(0, withoutRounds.runwayMonths - input.minimumRunwayMonths))
+        : null;
+
+      return {
+        name,
+        monthlyBurnRate,
+        runwayMonths,
+        zeroCashDate: this.addMonths(asOf, runwayMonths),
+        raiseByDate: raiseBy,
+        roundsFunded,
+      };
+    });
+  }
+
+  /**
+   * Ownership after each upcoming round, in date order. New money buys amount / post-money
+   * of the company and every existing holder is diluted by pre-money / post-money.
+   */
+  calculateCapTable(input: RiskInput): CapTableAfterRound[] {
+    let entries = (input.capTable && input.capTable.length > 0 ? input.capTable : DEFAULT_CAP_TABLE)
+      .map((entry) => ({ ...entry }));
+
+    return this.upcomingRounds(input, this.asOfDate(input)).map((round) => {
+      const postMoneyValuation = round.preMoneyValuation + round.amount;
+      const retained = round.preMoneyValuation / postMoneyValuation;
+      entries = [
+        ...entries.map((entry) => ({ ...entry, ownership: entry.ownership * retained })),
+        { holder: round.name, kind: 'investor' as const, ownership: (round.amount / postMoneyValuation) * 100 },
+      ];
+      const shareOf = (kind: CapTableEntry['kind']) =>
+        this.round(entries.filter((entry) => entry.kind === kind).reduce((sum, entry) => sum + entry.ownership, 0), 2);
+
+      return {
+        round: round.name,
+        date: round.date,
+        amount: round.amount,
+        preMoneyValuation: round.preMoneyValuation,
+        postMoneyValuation,
+        entries: entries.map((entry) => ({ ...entry, ownership: this.round(entry.ownership, 2) })),
+        founderOwnership: shareOf('founder'),
+        investorOwnership: shareOf('investor'),
+      };
+    });
+  }
+
   protected override validate(input: RiskInput): void {
     super.validate(input);
 
@@ -38,25 +133,88 @@ export class RiskMetricsCalculator extends BaseCalculator {
     this.assertRange(input.monthlyChurnRate, 0, 100, 'monthlyChurnRate');
     this.assertPositive(input.currentMRR, 'currentMRR');
     this.assertPositive(input.averageContractValue, 'averageContractValue');
+
+    (input.fundraisingRounds ?? []).forEach((round, index) => {
+      this.assertDate(round.date, `fundraisingRounds[${index}].date`);
+      this.assertPositive(round.amount, `fundraisingRounds[${index}].amount`);
+      this.assertFinite(round.preMoneyValuation, `fundraisingRounds[${index}].preMoneyValuation`);
+      if (round.preMoneyValuation <= 0) {
+        throw new Error(`${this.calculatorName}: fundraisingRounds[${index}].preMoneyValuation must be greater than zero`);
+      }
+    });
+    if (input.capTable && input.capTable.length > 0) {
+      input.capTable.forEach((entry, index) => this.assertRange(entry.ownership, 0, 100, `capTable[${index}].ownership`));
+      const total = input.capTable.reduce((sum, entry) => sum + entry.ownership, 0);
+      if (Math.abs(total - 100) > 0.5) {
+        throw new Error(`${this.calculatorName}: capTable ownership must add up to 100%`);
+      }
+    }
+    (input.burnScenarios ?? []).forEach((scenario, index) =>
+      this.assertPositive(scenario.monthlyBurnRate, `burnScenarios[${index}].monthlyBurnRate`)
+    );
+    if (input.minimumRunwayMonths !== undefined) this.assertRange(input.minimumRunwayMonths, 0, 120, 'minimumRunwayMonths');
+    if (input.asOfDate !== undefined) this.assertDate(input.asOfDate, 'asOfDate');
   }
 
-  private calculateRunway(input: RiskInput): number {
-    const { currentCash, monthlyBurnRate, plannedFundraising = 0 } = input;
+  private assertDate(value: string, fieldName: string): void {
+    if (!DATE_PATTERN.test(value) || Number.isNaN(Date.parse(value))) {
+      throw new Error(`${this.calculatorName}: ${fieldName} must be a YYYY-MM-DD date`);
+    }
+  }
+
+  /**
+   * Months until cash runs out, stepping from round to round. The burn rate must be above zero.
+   */
+  private calculateRunway(
+    input: RiskInput,
+    monthlyBurnRate: number,
+    asOf: Date
+  ): { runwayMonths: number; roundsFunded: number } {
+    const { currentCash, plannedFundraising = 0 } = input;
+
+    let cash = currentCash + plannedFundraising;
+    let elapsed = 0;
+    let roundsFunded = 0;
+
+    for (const round of this.upcomingRounds(input, asOf)) {
+      const closesIn = (Date.parse(round.date) - asOf.getTime()) / (DAYS_PER_MONTH * 86400000);
+      if (cash < monthlyBurnRate * (closesIn - elapsed)) break;
+
+      cash += round.amount - monthlyBurnRate * (closesIn - elapsed);
+      elapsed = closesIn;
+      roundsFunded++;
+    }
 
-    const totalCash = currentCash + plannedFundraising;
-    const runway = this.safeDivide(totalCash, monthlyBurnRate, 0);
+    const runway = elapsed + cash / monthlyBurnRate;
+    return { runwayMonths: this.round(runway, 2), roundsFunded };
+  }
 
-    return this.round(runway, 2);
+  /**
+   * Rounds on or after the as-of date, in date order. Earlier rounds have closed: their
+   * cash is in currentCash and their dilution in the supplied cap table.
+   */
+  private upcomingRounds(input: RiskInput, asOf: Date): FundraisingRound[] {
+    return (input.fundraisingRounds ?? [])
+      .filter((round) => Date.parse(round.date) >= asOf.getTime())
+      .sort((a, b) => a.date.localeCompare(b.date));
   }
 
-  private calculateZeroCashDate(input: RiskInput): string {
-    const runway_months = this.calculateRunway(input);
+  /**
+   * The as-of date at midnight UTC, today when none is given, so results do not depend
+   * on the time of day they are computed
+   */
+  private asOfDate(input: RiskInput): Date {
+    if (input.asOfDate) return new Date(`${input.asOfDate}T00:00:00Z`);
+
+    const now = new Date();
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  }
 
-    const today = new Date();
-    const zeroCashDate = new Date(today);
-    zeroCashDate.setMonth(zeroCashDate.getMonth() + Math.floor(runway_months));
+  private addMonths(from: Date, months: number): string {
+    const date = new Date(from);
+    date.setUTCMonth(date.getUTCMonth() + Math.floor(months));
 
-    return zeroCashDate.toISOString().split('T')[0]; // Return YYYY-MM-DD
+    return date.toISOString().split('T')[0]; // Return YYYY-MM-DD
   }
 
   private calculateChurnImpact(input: RiskInput): number {
@@ -1,5 +1,11 @@
 import { BaseCalculator } from './BaseCalculator';
-import type { SaaSInput } from '@/types/project';
+import type {
+  SaaSInput,
+  SaaSProjection,
+  SaaSProjectionInput,
+  SaaSProjectionMonth,
+  SaaSProjectionSummary,
+} from '@/types/project';
 
 export class SaaSMetricsCalculator extends BaseCalculator {
   constructor() {
@@ -39,6 +45,124 @@ export class SaaSMetricsCalculator extends BaseCalculator {
     };
   }
 
+  /**
+   * Projects MRR month by month. Each month the acquisition spend buys spend / CAC new
+   * customers at the average revenue per user; churn, expansion and contraction apply to
+   * the opening MRR. Burn is acquisition spend plus operating costs less gross profit.
+   */
+  projectMRR(input: SaaSProjectionInput): SaaSProjection {
+    this.validateProjection(input);
+
+    const churn = input.churnRate / 100;
+    const expansion = input.expansionRate / 100;
+    const contraction = input.contractionRate / 100;
+    const margin = input.grossMargin / 100;
+    const monthlySpendGrowth = Math.pow(1 + (input.acquisitionSpendGrowth ?? 0) / 100, 1 / 12);
+    const operatingCosts = input.monthlyOperatingCosts ?? 0;
+
+    let mrr = input.startingMRR;
+    let customers = input.startingCustomers ?? this.safeDivide(input.startingMRR, input.averageRevenuePerUser, 0);
+    const months: SaaSProjectionMonth[] = [];
+
+    for (let month = 1; month <= input.months; month++) {
+      const acquisitionSpend = input.monthlyAcquisitionSpend * Math.pow(monthlySpendGrowth, month - 1);
+      const newCustomers = this.safeDivide(acquisitionSpend, input.cacCost, 0);
+      const churnedCustomers = customers * churn;
+
+      const newMRR = newCustomers * input.averageRevenuePerUser;
+      const expansionMRR = mrr * expansion;
+      const contractionMRR = mrr * contraction;
+      const churnedMRR = mrr * churn;
+      const closingMRR = Math.max(0, mrr + newMRR + expansionMRR - contractionMRR - churnedMRR);
+      const grossProfit = closingMRR * margin;
+
+      months.push({
+        month,
+        openingMRR: this.round(mrr, 2),
+        newMRR: this.round(newMRR, 2),
+        expansionMRR: this.round(expansionMRR, 2),
+        contractionMRR: this.round(contractionMRR, 2),
+        churnedMRR: this.round(churnedMRR, 2),
+        closingMRR: this.round(closingMRR, 2),
+        arr: this.round(closingMRR * 12, 2),
+        newCustomers: this.round(newCustomers, 2),
+        churnedCustomers: this.round(churnedCustomers, 2),
+        customers: this.round(customers + newCustomers - churnedCustomers, 2),
+        revenue: this.round(closingMRR, 2),
+        acquisitionSpend: this.round(acquisitionSpend, 2),
+        grossProfit: this.round(grossProfit, 2),
+        burn: this.round(acquisitionSpend + operatingCosts - grossProfit, 2),
+      });
+
+      mrr = closingMRR;
+      customers = customers + newCustomers - churnedCustomers;
+    }
+
+    const sum = (pick: (month: SaaSProjectionMonth) => number) =>
+      this.round(months.reduce((total, month) => total + pick(month), 0), 2);
+    const last = months[months.length - 1];
+    const firstPositive = months.find((month) => month.burn <= 0);
+
+    this.logCalculation('Ending MRR', last.closingMRR);
+    this.logCalculation('Total burn', sum((month) => month.burn));
+
+    return {
+      months,
+      waterfall: {
+        openingMRR: this.round(input.startingMRR, 2),
+        newMRR: sum((month) => month.newMRR),
+        expansionMRR: sum((month) => month.expansionMRR),
+        contractionMRR: sum((month) => month.contractionMRR),
+        churnedMRR: sum((month) => month.churnedMRR),
+        closingMRR: last.closingMRR,
+      },
+      endingARR: last.arr,
+      endingCustomers: last.customers,
+      totalRevenue: sum((month) => month.revenue),
+      totalAcquisitionSpend: sum((month) => month.acquisitionSpend),
+      totalBurn: sum((month) => month.burn),
+      peakBurn: Math.max(0, ...months.map((month) => month.burn)),
+      cashFlowPositiveMonth: firstPositive ? firstPositive.month : null,
+    };
+  }
+
+  /**
+   * Drops the month-by-month detail, keeping the waterfall and totals
+   */
+  summarize(projection: SaaSProjection): SaaSProjectionSummary {
+    return {
+      waterfall: projection.waterfall,
+      endingARR: projection.endingARR,
+      endingCustomers: projection.endingCustomers,
+      totalRevenue: projection.totalRevenue,
+      totalAcquisitionSpend: projection.totalAcquisitionSpend,
+      totalBurn: projection.totalBurn,
+      peakBurn: projection.peakBurn,
+      cashFlowPositiveMonth: projection.cashFlowPositiveMonth,
+    };
+  }
+
+  /**
+   * Projection input from point-in-time SaaS metrics: this month's expansion, contraction
+   * and churned MRR become monthly rates of the starting MRR.
+   */
+  toProjectionInput(input: SaaSInput, months: number, monthlyOperatingCosts: number = 0): SaaSProjectionInput {
+    const rateOf = (amount: number) => this.safeDivide(amount, input.startingMRR, 0) * 100;
+
+    return {
+      months,
+      startingMRR: input.startingMRR,
+      averageRevenuePerUser: input.averageRevenuePerUser,
+      cacCost: input.cacCost,
+      monthlyAcquisitionSpend: input.monthlyAcquisitionSpend ?? 0,
+      churnRate: input.churnRate,
+      expansionRate: rateOf(input.expansionMRR),
+      contractionRate: rateOf(input.contractedMRR),
+      grossMargin: input.grossMargin,
+      monthlyOperatingCosts,
+    };
+  }
+
   protected override validate(input: SaaSInput): void {
     super.validate(input);
 
@@ -54,6 +178,28 @@ export class SaaSMetricsCalculator extends BaseCalculator {
     this.assertRange(input.profitMargin, -100, 100, 'profitMargin');
   }
 
+  private validateProjection(input: SaaSProjectionInput): void {
+    super.validate(input);
+
+    this.assertRange(input.months, 1, 600, 'months');
+    this.assertPositive(input.startingMRR, 'startingMRR');
+    if (input.startingCustomers !== undefined) this.assertPositive(input.startingCustomers, 'startingCustomers');
+    this.assertPositive(input.averageRevenuePerUser, 'averageRevenuePerUser');
+    this.assertPositive(input.cacCost, 'cacCost');
+    this.assertPositive(input.monthlyAcquisitionSpend, 'monthlyAcquisitionSpend');
+    if (input.monthlyAcquisitionSpend > 0 && input.cacCost === 0) {
+      throw new Error(`${this.calculatorName}: cacCost must be greater than zero when there is acquisition spend`);
+    }
+    if (input.acquisitionSpendGrowth !== undefined) {
+      this.assertRange(input.acquisitionSpendGrowth, -100, 1000, 'acquisitionSpendGrowth');
+    }
+    this.assertRange(input.churnRate, 0, 100, 'churnRate');
+    this.assertRange(input.expansionRate, 0, 1000, 'expansionRate');
+    this.assertRange(input.contractionRate, 0, 100, 'contractionRate');
+    this.assertRange(input.grossMargin, 0, 100, 'grossMargin');
+    if (input.monthlyOperatingCosts !== undefined) this.assertPositive(input.monthlyOperatingCosts, 'monthlyOperatingCosts');
+  }
+
   private calculateLTV(input: SaaSInput): number {
     const { averageRevenuePerUser, grossMargin, churnRate } = input;
 
@@ -1,19 +1,56 @@
 import { BaseCalculator } from './BaseCalculator';
+import { LineItemCashFlowCalculator } from './LineItemCashFlowCalculator';
+import { FreeCashFlowCalculator } from './FreeCashFlowCalculator';
+import { IRRCalculator } from './IRRCalculator';
+import { InflationCalculator } from './InflationCalculator';
+import { SaaSMetricsCalculator } from './SaaSMetricsCalculator';
 import { Metric } from '@/lib/domain/entities/Metric';
-import type { FinancialCalculationInput } from '@/types/project';
+import type {
+  FinancialCalculationInput,
+  FiscalAssumptions,
+  FreeCashFlowBreakdown,
+  IRRDiagnostics,
+  SaaSProjection,
+  ValuationBasis,
+} from '@/types/project';
+
+/**
+ * Annual percentages used to discount, finance and reinvest cash flows
+ */
+interface DiscountRates {
+  discountRate: number;
+  financeRate: number;
+  reinvestmentRate: number;
+}
 
 export class StandardMetricsCalculator extends BaseCalculator {
+  private lineItemCalculator: LineItemCashFlowCalculator;
+  private freeCashFlowCalculator: FreeCashFlowCalculator;
+  private irrCalculator: IRRCalculator;
+  private inflationCalculator: InflationCalculator;
+  private saasCalculator: SaaSMetricsCalculator;
+
   constructor() {
     super('StandardMetricsCalculator');
+    this.lineItemCalculator = new LineItemCashFlowCalculator();
+    this.freeCashFlowCalculator = new FreeCashFlowCalculator();
+    this.irrCalculator = new IRRCalculator();
+    this.inflationCalculator = new InflationCalculator();
+    this.saasCalculator = new SaaSMetricsCalculator();
   }
 
   calculate(input: FinancialCalculationInput): {
     roi: number;
     npv: number;
     irr: number;
+    irrDiagnostics: IRRDiagnostics;
+    mirr?: number;
+    valuationBasis: ValuationBasis;
     paybackPeriod: number;
     monthlyCashFlow: number[];
     cumulativeCashFlow: number[];
+    freeCashFlow?: FreeCashFlowBreakdown;
+    saasProjection?: SaaSProjection;
   } {
     this.validate(input);
 
@@ -26,44 +63,236 @@ export class StandardMetricsCalculator extends BaseCalculator {
       operatingCosts,
       maintenanceCosts,
       multiplier = 1.0,
+      lineItems,
+      fiscalAssumptions,
+      inflation,
+      businessModel,
+      saasInput,
     } = input;
 
+    const rates: DiscountRates = {
+      discountRate,
+      financeRate: input.financeRate ?? discountRate,
+      reinvestmentRate: input.reinvestmentRate ?? discountRate,
+    };
+
+    // Amounts are stated in today's prices; the index turns them into money of the day
+    const priceIndex = inflation ? this.inflationCalculator.priceIndex(inflation, projectDuration) : undefined;
+    const indexed = (series: number[], apply: boolean | undefined) =>
+      priceIndex && apply ? series.map((value, month) => value * priceIndex[month]) : series;
+    // Real results deflate the nominal flows back to today's prices
+    const deflator = input.valuationBasis === 'real' ? priceIndex : undefined;
+
+    // Line items replace the single revenue/cost pair and the upfront investment
+    if (this.lineItemCalculator.hasLineItems(lineItems)) {
+      const aggregated = this.lineItemCalculator.calculate(lineItems, projectDuration, multiplier);
+      const monthlyRevenue = indexed(aggregated.monthlyRevenue, inflation?.applyToRevenue);
+      const monthlyCosts = indexed(aggregated.monthlyCosts, inflation?.applyToOperatingCosts);
+
+      if (fiscalAssumptions) {
+        return this.calculateAfterTax(
+          aggregated.upfrontInvestment,
+          monthlyRevenue,
+          monthlyCosts,
+          aggregated.monthlyCapex,
+          rates,
+          fiscalAssumptions,
+          aggregated.totalCapex,
+          deflator
+        );
+      }
+
+      const operatingCashFlow = monthlyRevenue.map((revenue, month) => revenue - monthlyCosts[month]);
+      return this.calculateFromCashFlows(
+        aggregated.upfrontInvestment,
+        operatingCashFlow.map((cf, month) => cf - aggregated.monthlyCapex[month]),
+        rates,
+        aggregated.totalCapex,
+        operatingCashFlow,
+        0,
+        deflator
+      );
+    }
+
+    // SaaS projects bill the projected MRR, pay its cost of revenue and its acquisition spend
+    const saasProjection = businessModel === 'saas' && saasInput
+      ? this.saasCalculator.projectMRR(
+        this.saasCalculator.toProjectionInput(saasInput, projectDuration, (operatingCosts + maintenanceCosts) / 12)
+      )
+      : undefined;
+    const saasMonths = saasProjection?.months;
+    const costOfRevenueShare = saasInput ? 1 - saasInput.grossMargin / 100 : 0;
+
     // Calculate monthly cash flows
+    const revenueSeries: number[] = [];
+    const costSeries: number[] = [];
     const monthlyCashFlow: number[] = [];
-    const cumulativeCashFlow: number[] = [];
-
-    let cumulative = -initialInvestment;
 
     for (let month = 0; month < projectDuration; month++) {
       // Use geometric compounding for monthly growth (smoother curve)
       const growthFactor = Math.pow(1 + revenueGrowth / 100, month / 12);
-
-      const monthlyRevenue = (yearlyRevenue * growthFactor * multiplier) / 12;
-      const monthlyCosts = (operatingCosts + maintenanceCosts) / 12;
+      const priceLevel = priceIndex?.[month] ?? 1;
+
+      const monthlyRevenue = saasMonths
+        ? saasMonths[month].revenue * multiplier * (inflation?.applyToRevenue ? priceLevel : 1)
+        : (yearlyRevenue * growthFactor * multiplier * (inflation?.applyToRevenue ? priceLevel : 1)) / 12;
+      const acquisitionSpend = saasMonths?.[month].acquisitionSpend ?? 0;
+      const costOfRevenue = saasMonths ? monthlyRevenue * costOfRevenueShare : 0;
+      const monthlyCosts =
+        (operatingCosts * (inflation?.applyToOperatingCosts ? priceLevel : 1) +
+          maintenanceCosts * (inflation?.applyToMaintenanceCosts ? priceLevel : 1)) / 12 +
+        acquisitionSpend * (inflation?.applyToOperatingCosts ? priceLevel : 1) +
+        costOfRevenue;
 
       const netCashFlow = monthlyRevenue - monthlyCosts;
+      revenueSeries.push(monthlyRevenue);
+      costSeries.push(monthlyCosts);
       monthlyCashFlow.push(netCashFlow);
+    }
+
+    const results = fiscalAssumptions
+      ? this.calculateAfterTax(
+        initialInvestment,
+        revenueSeries,
+        costSeries,
+        new Array<number>(projectDuration).fill(0),
+        rates,
+        fiscalAssumptions,
+        initialInvestment,
+        deflator
+      )
+      : this.calculateFromCashFlows(initialInvestment, monthlyCashFlow, rates, initialInvestment, monthlyCashFlow, 0, deflator);
+
+    return saasProjection ? { ...results, saasProjection } : results;
+  }
+
+  /**
+   * Runs the fiscal layer and calculates metrics on after-tax free cash flow.
+   * The terminal value counts towards NPV and IRR but not towards payback or ROI.
+   */
+  private calculateAfterTax(
+    initialInvestment: number,
+    monthlyRevenue: number[],
+    monthlyCosts: number[],
+    monthlyCapex: number[],
+    rates: DiscountRates,
+    fiscalAssumptions: FiscalAssumptions,
+    totalInvestment: number = initialInvestment,
+    deflator?: number[]
+  ): {
+    roi: number;
+    npv: number;
+    irr: number;
+    irrDiagnostics: IRRDiagnostics;
+    mirr?: number;
+    valuationBasis: ValuationBasis;
+    paybackPeriod: number;
+    monthlyCashFlow: number[];
+    cumulativeCashFlow: number[];
+    freeCashFlow: FreeCashFlowBreakdown;
+  } {
+    const freeCashFlow = this.freeCashFlowCalculator.calculate({
+      monthlyRevenue,
+      monthlyCosts,
+      monthlyCapex,
+      upfrontInvestment: initialInvestment,
+      discountRate: rates.discountRate,
+      fiscal: fiscalAssumptions,
+    });
+
+    const results = this.calculateFromCashFlows(
+      initialInvestment,
+      freeCashFlow.freeCashFlow,
+      rates,
+      totalInvestment,
+      freeCashFlow.freeCashFlow.map((fcf, month) => fcf + monthlyCapex[month]),
+      freeCashFlow.terminalValue,
+      deflator
+    );
+
+    return { ...results, freeCashFlow };
+  }
+
+  /**
+   * Calculates metrics from an upfront investment and monthly net cash flows.
+   * ROI can be measured against total capex when investment is spread over time.
+   * With a deflator, flows are restated in today's prices and IRR/MIRR become real rates;
+   * NPV is unchanged because real flows at the real rate equal nominal flows at the nominal rate.
+   */
+  private calculateFromCashFlows(
+    initialInvestment: number,
+    nominalCashFlow: number[],
+    rates: DiscountRates,
+    totalInvestment: number = initialInvestment,
+    nominalOperatingCashFlow: number[] = nominalCashFlow,
+    nominalTerminalValue: number = 0,
+    deflator?: number[]
+  ): {
+    roi: number;
+    npv: number;
+    irr: number;
+    irrDiagnostics: IRRDiagnostics;
+    mirr?: number;
+    valuationBasis: ValuationBasis;
+    paybackPeriod: number;
+    monthlyCashFlow: number[];
+    cumulativeCashFlow: number[];
+  } {
+    const lastMonth = nominalCashFlow.length - 1;
+    const restate = (series: number[]) => (deflator ? series.map((cf, month) => cf / deflator[month]) : series);
+    const monthlyCashFlow = restate(nominalCashFlow);
+    const operatingCashFlow = restate(nominalOperatingCashFlow);
+    const terminalValue = deflator ? nominalTerminalValue / deflator[lastMonth] : nominalTerminalValue;
+
+    const cumulativeCashFlow: number[] = [];
+    let cumulative = -initialInvestment;
 
+    monthlyCashFlow.forEach((netCashFlow) => {
       cumulative += netCashFlow;
       cumulativeCashFlow.push(cumulative);
-    }
+    });
+
+    // The terminal value is received at the end of the last month
+    const withTerminalValue = (series: number[], value: number) =>
+      value !== 0 ? series.map((cf, month) => (month === lastMonth ? cf + value : cf)) : series;
+    const valuationCashFlow = withTerminalValue(monthlyCashFlow, terminalValue);
+
+    // Fisher: restate the nominal rates as real ones using the average inflation of the horizon
+    const averageInflation = deflator ? this.inflationCalculator.averageAnnualRate(deflator) : 0;
+    const toBasis = (annualPercent: number) =>
+      ((1 + annualPercent / 100) / (1 + averageInflation / 100) - 1) * 100;
 
     // Calculate metrics
-    const roi = this.calculateROI(initialInvestment, monthlyCashFlow);
-    const npv = this.calculateNPV(initialInvestment, monthlyCashFlow, discountRate / 100);
+    const roi = this.calculateROI(totalInvestment, operatingCashFlow);
+    // NPV is basis-independent, so it is always taken from nominal flows at the nominal rate
+    const npv = this.calculateNPV(
+      initialInvestment,
+      withTerminalValue(nominalCashFlow, nominalTerminalValue),
+      rates.discountRate / 100
+    );
     const paybackPeriod = this.calculatePaybackPeriod(initialInvestment, monthlyCashFlow);
-    const irr = this.calculateIRR(initialInvestment, monthlyCashFlow);
+    const { irr, irrDiagnostics } = this.calculateIRR(initialInvestment, valuationCashFlow, toBasis(rates.discountRate));
+    const mirr = this.calculateMIRR(
+      initialInvestment,
+      valuationCashFlow,
+      toBasis(rates.financeRate),
+      toBasis(rates.reinvestmentRate)
+    );
+    const valuationBasis: ValuationBasis = deflator ? 'real' : 'nominal';
 
     // Log calculations
     this.logCalculation('ROI', roi);
     this.logCalculation('NPV', npv);
-    this.logCalculation('IRR', irr);
+    this.logCalculation('IRR', irr, { status: irrDiagnostics.status, valuationBasis });
     this.logCalculation('PaybackPeriod', paybackPeriod);
 
     return {
       roi,
       npv,
       irr,
+      irrDiagnostics,
+      mirr,
+      valuationBasis,
       paybackPeriod,
       monthlyCashFlow,
       cumulativeCashFlow,
@@ -89,6 +318,9 @@ export class StandardMetricsCalculator extends BaseCalculator {
 
     this.assertFinite(input.maintenanceCosts, 'maintenanceCosts');
     if (input.maintenanceCosts < 0) throw new Error(`${this.calculatorName}: maintenanceCosts must be non-negative`);
+
+    if (input.financeRate !== undefined) this.assertRange(input.financeRate, 0, 100, 'financeRate');
+    if (input.reinvestmentRate !== undefined) this.assertRange(input.reinvestmentRate, 0, 100, 'reinvestmentRate');
   }
 
   private calculateROI(initialInvestment: number, cashFlows: number[]): number {
@@ -135,51 +367,46 @@ export class StandardMetricsCalculator extends BaseCalculator {
     return cashFlows.length;
   }
 
+  /**
+   * Annual IRR from monthly flows using the bracketed solver.
+   * An IRR that cannot be determined is reported as 0 with a non-converged status.
+   */
   private calculateIRR(
     initialInvestment: number,
     cashFlows: number[],
-    maxIterations: number = 100,
-    tolerance: number = 0.0001
-  ): number {
-    // Initial guess for IRR (10% annual rate)
-    let rate = 0.10 / 12; // Monthly rate
-
-    for (let iteration = 0; iteration < maxIterations; iteration++) {
-      let npv = -initialInvestment;
-      let derivative = 0;
-
-      // Calculate NPV and its derivative at current rate
-      for (let month = 0; month < cashFlows.length; month++) {
-        const period = month + 1;
-        const discountFactor = Math.pow(1 + rate, period);
-
-        npv += cashFlows[month] / discountFactor;
-        derivative -= (period * cashFlows[month]) / Math.pow(1 + rate, period + 1);
-      }
-
-      // Check for convergence
-      if (Math.abs(npv) < tolerance) {
-        // Convert monthly rate to annual percentage
-        return this.round((Math.pow(1 + rate, 12) - 1) * 100, 2);
-      }
-
-      // Newton-Raphson iteration
-      if (Math.abs(derivative) < 1e-10) {
-        // Avoid division by zero
-        break;
-      }
-
-      rate = rate - npv / derivative;
+    discountRate: number
+  ): { irr: number; irrDiagnostics: IRRDiagnostics } {
+    const monthlyDiscountRate = Math.pow(1 + discountRate / 100, 1 / 12) - 1;
+    const solution = this.irrCalculator.solve([-initialInvestment, ...cashFlows], monthlyDiscountRate);
+    const toAnnualPercent = (rate: number) => this.round((Math.pow(1 + rate, 12) - 1) * 100, 2);
 
-      // Ensure rate stays within reasonable bounds
-      if (rate < -0.99 || rate > 10) {
-        rate = 0.10 / 12; // Reset to initial guess
-        break;
-      }
-    }
+    return {
+      irr: solution.rate === null ? 0 : toAnnualPercent(solution.rate),
+      irrDiagnostics: {
+        status: solution.status,
+        signChanges: solution.signChanges,
+        roots: solution.roots.map(toAnnualPercent),
+        iterations: solution.iterations,
+      },
+    };
+  }
 
-    // If convergence failed, return the current estimate
-    // Convert monthly rate to annual percentage
-    return this.round((Math.pow(1 + rate, 12) - 1) * 100, 2);
+  /**
+   * Annual MIRR from monthly flows; finance and reinvestment rates are annual percentages.
+   */
+  private calculateMIRR(
+    initialInvestment: number,
+    cashFlows: number[],
+    financeRate: number,
+    reinvestmentRate: number
+  ): number | undefined {
+    const toMonthly = (annualPercent: number) => Math.pow(1 + annualPercent / 100, 1 / 12) - 1;
+    const mirr = this.irrCalculator.mirr(
+      [-initialInvestment, ...cashFlows],
+      toMonthly(financeRate),
+      toMonthly(reinvestmentRate)
+    );
+
+    return mirr === null ? undefined : this.round((Math.pow(1 + mirr, 12) - 1) * 100, 2);
   }
 }
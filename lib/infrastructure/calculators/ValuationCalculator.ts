@@ -0,0 +1,208 @@
+import { BaseCalculator } from './BaseCalculator';
+import type {
+    DCFValuation,
+    FootballFieldBar,
+    MultiplesValuation,
+    ValuationInput,
+    ValuationResult,
+    WACCSensitivityTable,
+} from '@/types/project';
+
+// Points added to the WACC and to the terminal growth in the sensitivity table
+const DEFAULT_WACC_STEPS = [-2, -1, 0, 1, 2];
+const DEFAULT_GROWTH_STEPS = [-1, -0.5, 0, 0.5, 1];
+
+export class ValuationCalculator extends BaseCalculator {
+    constructor() {
+        super('ValuationCalculator');
+    }
+
+    /**
+     * Values a business from its free cash flows (DCF with a Gordon growth terminal value)
+     * and from peer EV/Revenue and EV/EBITDA multiples. Equity value is enterprise value
+     * less net debt.
+     */
+    calculate(input: ValuationInput): ValuationResult {
+        this.validate(input);
+
+        const { freeCashFlows, wacc, terminalGrowth, netDebt } = input;
+
+        const discounted = this.discount(freeCashFlows, wacc, terminalGrowth, input.finalYearMonths);
+        const enterpriseValue = discounted.presentValueOfCashFlows + discounted.presentValueOfTerminalValue;
+        const dcf: DCFValuation = {
+            presentValueOfCashFlows: this.round(discounted.presentValueOfCashFlows, 2),
+            terminalValue: this.round(discounted.terminalValue, 2),
+            presentValueOfTerminalValue: this.round(discounted.presentValueOfTerminalValue, 2),
+            enterpriseValue: this.round(enterpriseValue, 2),
+            equityValue: this.round(enterpriseValue - netDebt, 2),
+            terminalValueShare: this.round(this.safeDivide(discounted.presentValueOfTerminalValue, enterpriseValue, 0) * 100, 2),
+        };
+
+        const multiples = this.valueWithMultiples(input);
+        const sensitivity = this.waccSensitivity(input);
+        const footballField = this.buildFootballField(dcf, sensitivity, multiples, input);
+
+        this.logCalculation('Enterprise Value (DCF)', dcf.enterpriseValue);
+        this.logCalculation('Equity Value (DCF)', dcf.equityValue);
+
+        return { dcf, multiples, sensitivity, footballField };
+    }
+
+    /**
+     * Sums monthly project cash flows into years; a trailing partial year is kept as is.
+     * Pass the months of that year as finalYearMonths so the terminal value annualises it.
+     */
+    toYearlyCashFlows(monthlyCashFlow: number[]): number[] {
+        const years: number[] = [];
+        monthlyCashFlow.forEach((cashFlow, month) => {
+            const year = Math.floor(month / 12);
+            years[year] = (years[year] ?? 0) + cashFlow;
+        });
+        return years.map((value) => this.round(value, 2));
+    }
+
+    protected override validate(input: ValuationInput): void {
+        super.validate(input);
+
+        if (!input.freeCashFlows || input.freeCashFlows.length === 0) {
+            throw new Error(`${this.calculatorName}: at least one year of free cash flow is required`);
+        }
+        input.freeCashFlows.forEach((cashFlow, index) => this.assertFinite(cashFlow, `freeCashFlows[${index}]`));
+
+        if (input.finalYearMonths !== undefined) {
+            this.assertRange(input.finalYearMonths, 1, 12, 'finalYearMonths');
+            if (!Number.isInteger(input.finalYearMonths)) {
+                throw new Error(`${this.calculatorName}: finalYearMonths must be a whole number of months`);
+            }
+        }
+
+        this.assertRange(input.wacc, 0, 100, 'wacc');
+        this.assertRange(input.terminalGrowth, -100, 100, 'terminalGrowth');
+        if (input.wacc <= input.terminalGrowth) {
+            throw new Error(`${this.calculatorName}: wacc must be greater than terminalGrowth`);
+        }
+        this.assertFinite(input.netDebt, 'netDebt');
+
+        if (input.revenue !== undefined) this.assertFinite(input.revenue, 'revenue');
+        if (input.ebitda !== undefined) this.assertFinite(input.ebitda, 'ebitda');
+        (input.peers ?? []).forEach((peer, index) => {
+            if (peer.evToRevenue !== undefined) this.assertPositive(peer.evToRevenue, `peers[${index}].evToRevenue`);
+            if (peer.evToEbitda !== undefined) this.assertPositive(peer.evToEbitda, `peers[${index}].evToEbitda`);
+        });
+
+        (input.waccSteps ?? []).forEach((step, index) => this.assertFinite(step, `waccSteps[${index}]`));
+        (input.growthSteps ?? []).forEach((step, index) => this.assertFinite(step, `growthSteps[${index}]`));
+    }
+
+    /**
+     * Present value of the yearly flows and of the terminal value, discounted from period end.
+     * A partial last year is discounted from its own end and annualised for the terminal value.
+     */
+    private discount(
+        freeCashFlows: number[],
+        wacc: number,
+        terminalGrowth: number,
+        finalYearMonths: number = 12
+    ): { presentValueOfCashFlows: number; terminalValue: number; presentValueOfTerminalValue: number } {
+        const rate = wacc / 100;
+        const growth = terminalGrowth / 100;
+        const years = freeCashFlows.length;
+        const horizon = years - 1 + finalYearMonths / 12;
+
+        const presentValueOfCashFlows = freeCashFlows.reduce(
+            (sum, cashFlow, index) => sum + cashFlow / Math.pow(1 + rate, index === years - 1 ? horizon : index + 1),
+            0
+        );
+        // Gordon growth: next year's flow capitalized at WACC - g, from a full-year base
+        const baseYear = freeCashFlows[years - 1] * (12 / finalYearMonths);
+        const terminalValue = (baseYear * (1 + growth)) / (rate - growth);
+        const presentValueOfTerminalValue = terminalValue / Math.pow(1 + rate, horizon);
+
+        return { presentValueOfCashFlows, terminalValue, presentValueOfTerminalValue };
+    }
+
+    /**
+     * Peer multiples applied to the company's revenue and EBITDA. A method is skipped
+     * when no peer quotes it or the company's metric is not positive.
+     */
+    private valueWithMultiples(input: ValuationInput): MultiplesValuation[] {
+        const peers = input.peers ?? [];
+        const methods: { method: MultiplesValuation['method']; metric?: number; multiples: number[] }[] = [
+            {
+                method: 'ev_revenue',
+                metric: input.revenue,
+                multiples: peers.map((peer) => peer.evToRevenue).filter((value): value is number => value !== undefined && value > 0),
+            },
+            {
+                method: 'ev_ebitda',
+                metric: input.ebitda,
+                multiples: peers.map((peer) => peer.evToEbitda).filter((value): value is number => value !== undefined && value > 0),
+            },
+        ];
+
+        return methods
+            .filter(({ metric, multiples }) => metric !== undefined && metric > 0 && multiples.length > 0)
+            .map(({ method, metric, multiples }) => {
+                const sorted = [...multiples].sort((a, b) => a - b);
+                const middle = Math.floor(sorted.length / 2);
+                const median = sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+                const enterpriseValue = median * (metric as number);
+
+                return {
+                    method,
+                    peers: sorted.length,
+                    lowMultiple: this.round(sorted[0], 2),
+                    medianMultiple: this.round(median, 2),
+                    highMultiple: this.round(sorted[sorted.length - 1], 2),
+                    enterpriseValue: this.round(enterpriseValue, 2),
+                    equityValue: this.round(enterpriseValue - input.netDebt, 2),
+                };
+            });
+    }
+
+    private waccSensitivity(input: ValuationInput): WACCSensitivityTable {
+        const waccRates = (input.waccSteps ?? DEFAULT_WACC_STEPS).map((step) => this.round(input.wacc + step, 2));
+        const growthRates = (input.growthSteps ?? DEFAULT_GROWTH_STEPS).map((step) => this.round(input.terminalGrowth + step, 2));
+
+        const enterpriseValues = waccRates.map((wacc) =>
+            growthRates.map((growth) => {
+                if (wacc <= 0 || wacc <= growth) return null;
+                const discounted = this.discount(input.freeCashFlows, wacc, growth, input.finalYearMonths);
+                return this.round(discounted.presentValueOfCashFlows + discounted.presentValueOfTerminalValue, 2);
+            })
+        );
+
+        return { waccRates, growthRates, enterpriseValues };
+    }
+
+    /**
+     * Equity value ranges per method: the DCF spans the sensitivity table and the
+     * multiples span the lowest to the highest peer.
+     */
+    private buildFootballField(
+        dcf: DCFValuation,
+        sensitivity: WACCSensitivityTable,
+        multiples: MultiplesValuation[],
+        input: ValuationInput
+    ): FootballFieldBar[] {
+        const values = sensitivity.enterpriseValues.flat().filter((value): value is number => value !== null);
+        const bars: FootballFieldBar[] = [{
+            method: 'dcf',
+            low: this.round(Math.min(dcf.enterpriseValue, ...values) - input.netDebt, 2),
+            mid: dcf.equityValue,
+            high: this.round(Math.max(dcf.enterpriseValue, ...values) - input.netDebt, 2),
+        }];
+
+        multiples.forEach((valuation) => {
+            const metric = (valuation.method === 'ev_revenue' ? input.revenue : input.ebitda) as number;
+            bars.push({
+                method: valuation.method,
+                low: this.round(valuation.lowMultiple * metric - input.netDebt, 2),
+                mid: valuation.equityValue,
+                high: this.round(valuation.highMultiple * metric - input.netDebt, 2),
+            });
+        });
+
+        return bars;
+    }
+}
@@ -0,0 +1,155 @@
+import { BaseCalculator } from './BaseCalculator';
+import type { MonthlyActual, VarianceAnalysis, VarianceMonth } from '@/types/project';
+
+export interface VarianceInput {
+  projectedCashFlow: number[]; // projected nominal net cash flow for months 1..n
+  initialInvestment: number;
+  discountRate: number; // annual nominal %
+  plannedNPV?: number; // NPV saved with the project results; default: NPV of the projected flows
+  actuals: MonthlyActual[];
+  threshold?: number; // % of projected, default 10
+  trailingMonths?: number; // reported months averaged into the run rate, default 3
+}
+
+export class VarianceCalculator extends BaseCalculator {
+  constructor() {
+    super('VarianceCalculator');
+  }
+
+  /**
+   * Compares recorded actuals with the projected monthly cash flow and re-forecasts the rest
+   * of the project.
+   *
+   * The re-forecast keeps the projected shape and shifts each remaining month by the average
+   * variance of the last reported months (run rate), so a project running behind plan keeps
+   * running behind by the same amount. Months not reported before the last reported one keep
+   * their projection. The NPV at completion is the planned NPV plus the discounted difference
+   * between the re-forecast and the projection, so anchoring on the project's saved NPV keeps
+   * its upfront investment and terminal value.
+   */
+  calculate(input: VarianceInput): VarianceAnalysis {
+    this.validate(input);
+
+    const { projectedCashFlow, initialInvestment, discountRate } = input;
+    const threshold = input.threshold ?? 10;
+    const trailingMonths = input.trailingMonths ?? 3;
+    const actuals = [...input.actuals].sort((a, b) => a.month - b.month);
+
+    let cumulativeProjected = 0;
+    let cumulativeActual = 0;
+    const months: VarianceMonth[] = actuals.map((entry) => {
+      const projected = projectedCashFlow[entry.month - 1];
+      const actual = this.netCashFlow(entry);
+      const variance = actual - projected;
+      const variancePercent = projected === 0 ? null : (variance / Math.abs(projected)) * 100;
+      cumulativeProjected += projected;
+      cumulativeActual += actual;
+
+      return {
+        month: entry.month,
+        projected: this.round(projected),
+        actual: this.round(actual),
+        variance: this.round(variance),
+        variancePercent: variancePercent === null ? null : this.round(variancePercent),
+        cumulativeProjected: this.round(cumulativeProjected),
+        cumulativeActual: this.round(cumulativeActual),
+        cumulativeVariance: this.round(cumulativeActual - cumulativeProjected),
+        flagged: this.exceeds(variance, variancePercent, threshold),
+      };
+    });
+
+    const cumulativeVariance = cumulativeActual - cumulativeProjected;
+    const cumulativeVariancePercent =
+      cumulativeProjected === 0 ? null : (cumulativeVariance / Math.abs(cumulativeProjected)) * 100;
+
+    const trailing = months.slice(-trailingMonths);
+    const runRateAdjustment = trailing.length === 0
+      ? 0
+      : trailing.reduce((sum, month) => sum + month.variance, 0) / trailing.length;
+
+    const lastReportedMonth = actuals.length > 0 ? actuals[actuals.length - 1].month : 0;
+    const actualByMonth = new Map(actuals.map((entry) => [entry.month, this.netCashFlow(entry)]));
+    const forecastCashFlow = projectedCashFlow.map((projected, index) => {
+      const month = index + 1;
+      if (actualByMonth.has(month)) return this.round(actualByMonth.get(month)!);
+      return this.round(month > lastReportedMonth ? projected + runRateAdjustment : projected);
+    });
+
+    const plannedNPV = input.plannedNPV ?? this.npv(initialInvestment, projectedCashFlow, discountRate);
+    const projectedNPVAtCompletion = this.round(
+      plannedNPV + this.npv(0, forecastCashFlow.map((forecast, index) => forecast - projectedCashFlow[index]), discountRate)
+    );
+
+    this.logCalculation('Projected NPV at completion', projectedNPVAtCompletion, {
+      lastReportedMonth,
+      runRateAdjustment,
+    });
+
+    return {
+      threshold,
+      months,
+      lastReportedMonth,
+      cumulativeProjected: this.round(cumulativeProjected),
+      cumulativeActual: this.round(cumulativeActual),
+      cumulativeVariance: this.round(cumulativeVariance),
+      cumulativeVariancePercent: cumulativeVariancePercent === null ? null : this.round(cumulativeVariancePercent),
+      cumulativeFlagged: this.exceeds(cumulativeVariance, cumulativeVariancePercent, threshold),
+      runRateAdjustment: this.round(runRateAdjustment),
+      forecastCashFlow,
+      plannedNPV,
+      projectedNPVAtCompletion,
+      npvVariance: this.round(projectedNPVAtCompletion - plannedNPV),
+    };
+  }
+
+  private netCashFlow(entry: MonthlyActual): number {
+    return entry.revenue - entry.operatingCosts - entry.maintenanceCosts - entry.capex;
+  }
+
+  /**
+   * Any variance counts when nothing was projected for the month
+   */
+  private exceeds(variance: number, variancePercent: number | null, threshold: number): boolean {
+    if (variancePercent === null) return Math.abs(variance) > 0.005;
+    return Math.abs(variancePercent) > threshold;
+  }
+
+  private npv(initialInvestment: number, cashFlows: number[], discountRate: number): number {
+    const monthlyRate = Math.pow(1 + discountRate / 100, 1 / 12) - 1;
+    const npv = cashFlows.reduce(
+      (sum, cashFlow, index) => sum + cashFlow / Math.pow(1 + monthlyRate, index + 1),
+      -initialInvestment
+    );
+    return this.round(npv);
+  }
+
+  protected override validate(input: VarianceInput): void {
+    super.validate(input);
+
+    this.assertPositive(input.initialInvestment, 'initialInvestment');
+    this.assertRange(input.discountRate, -99, 1000, 'discountRate');
+    if (input.plannedNPV !== undefined) this.assertFinite(input.plannedNPV, 'plannedNPV');
+    if (input.threshold !== undefined) this.assertPositive(input.threshold, 'threshold');
+    if (input.trailingMonths !== undefined && (!Number.isInteger(input.trailingMonths) || input.trailingMonths < 1)) {
+      throw new Error(`${this.calculatorName}: trailingMonths must be a positive integer`);
+    }
+    input.projectedCashFlow.forEach((cashFlow, i) => this.assertFinite(cashFlow, `projectedCashFlow[${i}]`));
+
+    const seen = new Set<number>();
+    input.actuals.forEach((entry, i) => {
+      if (!Number.isInteger(entry.month) || entry.month < 1 || entry.month > input.projectedCashFlow.length) {
+        throw new Error(
+          `${this.calculatorName}: actuals[${i}].month must be between 1 and ${input.projectedCashFlow.length}`
+        );
+      }
+      if (seen.has(entry.month)) {
+        throw new Error(`${this.calculatorName}: duplicate actuals for month ${entry.month}`);
+      }
+      seen.add(entry.month);
+      this.assertFinite(entry.revenue, `actuals[${i}].revenue`);
+      this.assertFinite(entry.operatingCosts, `actuals[${i}].operatingCosts`);
+      this.assertFinite(entry.maintenanceCosts, `actuals[${i}].maintenanceCosts`);
+      this.assertFinite(entry.capex, `actuals[${i}].capex`);
+    });
+  }
+}
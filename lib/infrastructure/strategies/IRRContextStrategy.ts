@@ -0,0 +1,103 @@
+import type { IContextStrategy } from '@/lib/application/strategies/IContextStrategy';
+import { generateIRRWarnings } from '@/lib/xai/context-generator';
+import type { IRRDiagnostics, MetricContext } from '@/types/project';
+
+/**
+ * Strategy for generating XAI context for IRR metric.
+ * Compares IRR against the hurdle rate and flags results the solver could not pin down.
+ *
+ * @implements {IContextStrategy}
+ */
+export class IRRContextStrategy implements IContextStrategy {
+  /**
+   * Generates XAI context for IRR metric.
+   *
+   * @param value - Annual IRR percentage
+   * @param projectData - Project data; `irrDiagnostics` (or `results.irrDiagnostics`) carries solver status
+   * @returns Complete metric context with XAI information
+   */
+  generateContext(value: number, projectData: any): MetricContext {
+    const diagnostics: IRRDiagnostics | undefined =
+      projectData.irrDiagnostics ?? projectData.results?.irrDiagnostics;
+    const mirr: number | undefined = projectData.mirr ?? projectData.results?.mirr;
+    const reliable = !diagnostics || diagnostics.status === 'converged';
+    const warnings = diagnostics ? generateIRRWarnings(diagnostics.status, diagnostics.signChanges) : [];
+
+    return {
+      category: 'financial',
+      formula: 'IRR = r such that -Initial Investment + Σ(Cash Flow_t / (1 + r)^t) = 0',
+      assumptions: [
+        'Monthly cash flows, annualized as (1 + r_monthly)^12 - 1',
+        'Interim cash flows are reinvested at the IRR itself',
+        `Solved by bracketing and Brent's method${diagnostics ? ` (status: ${diagnostics.status})` : ''}`,
+      ],
+      constraints: [
+        `Hurdle rate: ${projectData.discountRate ?? 'N/A'}% annually`,
+        'Not comparable across projects of different size or duration',
+        'May be undefined or non-unique for non-conventional cash flows',
+      ],
+      interpretation: this.interpretValue(value, projectData.discountRate, reliable),
+      benchmarks: {
+        optimal: 30,
+        acceptable: projectData.discountRate ?? 10,
+        industry: 20,
+      },
+      recommendations: this.generateRecommendations(value, projectData.discountRate, reliable, mirr),
+      warnings,
+    };
+  }
+
+  getMetricName(): string {
+    return 'IRR';
+  }
+
+  private interpretValue(
+    value: number,
+    discountRate: number | undefined,
+    reliable: boolean
+  ): 'positive' | 'negative' | 'neutral' {
+    if (!reliable || discountRate === undefined) return 'neutral';
+    if (value > discountRate) return 'positive';
+    if (value < discountRate) return 'negative';
+    return 'neutral';
+  }
+
+  private generateRecommendations(
+    value: number,
+    discountRate: number | undefined,
+    reliable: boolean,
+    mirr?: number
+  ): string[] {
+    const recommendations: string[] = [];
+
+    if (!reliable) {
+      recommendations.push('Base the decision on NPV rather than IRR for this cash flow profile');
+      if (mirr !== undefined) {
+        recommendations.push(`MIRR of ${mirr.toFixed(2)}% gives a single, well-defined rate of return`);
+      }
+      return recommendations;
+    }
+
+    const hurdle = discountRate ?? 10;
+    const spread = value - hurdle;
+
+    if (spread > 10) {
+      recommendations.push(`IRR exceeds the hurdle rate by ${spread.toFixed(1)} points`);
+      recommendations.push('Strong candidate for funding');
+    } else if (spread > 0) {
+      recommendations.push('IRR clears the hurdle rate with a thin margin');
+      recommendations.push('Stress-test revenue and cost assumptions before committing');
+    } else {
+      recommendations.push('IRR is below the cost of capital');
+      recommendations.push('Project does not earn its required return without changes');
+    }
+
+    if (mirr !== undefined && Math.abs(mirr - value) > 5) {
+      recommendations.push(
+        `MIRR (${mirr.toFixed(2)}%) differs materially from IRR - reinvestment at the IRR is optimistic`
+      );
+    }
+
+    return recommendations;
+  }
+}
@@ -23,6 +23,7 @@ export class NPVContextStrategy implements IContextStrategy {
         'Cash flows occur at end of each period',
         'Discount rate remains constant',
         'All projected cash flows are realized',
+        this.describeValuationBasis(projectData),
       ],
       constraints: [
         'Sensitive to discount rate changes',
@@ -44,6 +45,26 @@ export class NPVContextStrategy implements IContextStrategy {
     return 'NPV';
   }
 
+  /**
+   * States whether NPV was measured in real or nominal terms and which inflation was assumed
+   */
+  private describeValuationBasis(projectData: any): string {
+    const basis = projectData.valuationBasis ?? projectData.results?.valuationBasis ?? 'nominal';
+    const inflation = projectData.inflation;
+
+    if (!inflation) {
+      return 'Valuation basis: nominal (no inflation assumption; amounts held flat in money of the day)';
+    }
+
+    const rates = inflation.curve?.length
+      ? `inflation curve ${inflation.curve.map((rate: number) => `${rate}%`).join(', ')} then ${inflation.annualRate}%`
+      : `inflation ${inflation.annualRate}% annually`;
+
+    return basis === 'real'
+      ? `Valuation basis: real (cash flows in today's prices, discounted at the Fisher real rate; ${rates})`
+      : `Valuation basis: nominal (cash flows in money of the day at the nominal discount rate; ${rates})`;
+  }
+
   private interpretValue(value: number): 'positive' | 'negative' | 'neutral' {
     if (value > 0) return 'positive';
     if (value < 0) return 'negative';
@@ -1,5 +1,6 @@
 import type { IContextStrategy } from '@/lib/application/strategies/IContextStrategy';
 import type { MetricContext } from '@/types/project';
+import { Currency, Money } from '@/lib/domain/value-objects/Money';
 
 /**
  * Strategy for generating XAI context for ROI metric.
@@ -30,7 +31,7 @@ export class ROIContextStrategy implements IContextStrategy {
       ],
       constraints: [
         `Project duration: ${projectData.projectDuration || 'N/A'} months`,
-        `Initial investment: $${(projectData.initialInvestment || 0).toLocaleString()}`,
+        `Initial investment: ${new Money(projectData.initialInvestment || 0, projectData.currency ?? Currency.USD).format()}`,
         'Does not account for opportunity cost',
         'Excludes tax implications',
       ],
@@ -0,0 +1,118 @@
+import type { IContextStrategy } from '@/lib/application/strategies/IContextStrategy';
+import type { CapTableAfterRound, MetricContext, RunwayScenario } from '@/types/project';
+
+/**
+ * Strategy for generating XAI context for the cash runway.
+ * Reads the burn scenarios, raise-by date and cap table of the current risk calculation.
+ *
+ * @implements {IContextStrategy}
+ */
+export class RunwayContextStrategy implements IContextStrategy {
+  /**
+   * Generates XAI context for the runway metric.
+   *
+   * @param value - Runway in months under the current burn
+   * @param projectData - Project data; `riskResults` carries the scenarios, raise-by date and cap table
+   * @returns Complete metric context with XAI information
+   */
+  generateContext(value: number, projectData: any): MetricContext {
+    const scenarios: RunwayScenario[] = projectData.riskResults?.runway_scenarios ?? [];
+    const capTable: CapTableAfterRound[] = projectData.riskResults?.cap_table ?? [];
+    const raiseByDate: string | null = projectData.riskResults?.raise_by_date ?? null;
+    const minimumRunway: number | undefined = projectData.riskInput?.minimumRunwayMonths;
+
+    return {
+      category: 'risk',
+      formula: 'Runway = (Cash + rounds closed before cash runs out) / Monthly Burn Rate',
+      assumptions: [
+        'Monthly burn stays constant within each scenario',
+        'Planned rounds close on their date and for their full amount',
+        'Dilution: each round sells amount / post-money of the company',
+      ],
+      constraints: [
+        'Revenue growth is only captured through the net burn rate',
+        'A round dated after cash runs out is not counted',
+        minimumRunway !== undefined ? `Minimum runway target: ${minimumRunway} months` : 'No minimum runway target set',
+      ],
+      interpretation: this.interpretValue(value),
+      benchmarks: {
+        optimal: 18,
+        acceptable: 12,
+        industry: 15,
+      },
+      recommendations: this.generateRecommendations(value, scenarios, capTable, raiseByDate),
+      warnings: this.generateWarnings(scenarios, capTable, projectData.riskInput?.fundraisingRounds?.length ?? 0),
+    };
+  }
+
+  getMetricName(): string {
+    return 'RUNWAY';
+  }
+
+  private interpretValue(value: number): 'positive' | 'negative' | 'neutral' {
+    if (value >= 18) return 'positive';
+    if (value < 12) return 'negative';
+    return 'neutral';
+  }
+
+  private generateRecommendations(
+    value: number,
+    scenarios: RunwayScenario[],
+    capTable: CapTableAfterRound[],
+    raiseByDate: string | null
+  ): string[] {
+    const recommendations: string[] = [];
+
+    if (raiseByDate) {
+      recommendations.push(`Close the next round by ${raiseByDate} to keep the minimum runway`);
+    }
+    if (value < 12) {
+      recommendations.push('Start fundraising now: rounds typically take 3-6 months to close');
+    }
+
+    // The first entry is the current plan; the rest are alternative burn scenarios
+    scenarios.slice(1).forEach((scenario) => {
+      if (scenario.runwayMonths === null) {
+        recommendations.push(`${scenario.name}: no cash burn, so the runway is unlimited`);
+        return;
+      }
+      const change = scenario.runwayMonths - value;
+      if (Math.abs(change) >= 0.5) {
+        recommendations.push(
+          `${scenario.name}: ${scenario.runwayMonths.toFixed(1)} months of runway (${change > 0 ? '+' : ''}${change.toFixed(1)})`
+        );
+      }
+    });
+
+    const last = capTable[capTable.length - 1];
+    if (last) {
+      recommendations.push(
+        `Founders hold ${last.founderOwnership.toFixed(1)}% after ${last.round} (post-money ${last.postMoneyValuation.toLocaleString()})`
+      );
+    }
+
+    return recommendations;
+  }
+
+  private generateWarnings(
+    scenarios: RunwayScenario[],
+    capTable: CapTableAfterRound[],
+    plannedRounds: number
+  ): string[] {
+    const warnings: string[] = [];
+    const current = scenarios[0];
+
+    if (current && current.roundsFunded < plannedRounds) {
+      warnings.push(
+        `Cash runs out on ${current.zeroCashDate}, before ${plannedRounds - current.roundsFunded} of the planned rounds close`
+      );
+    }
+
+    const last = capTable[capTable.length - 1];
+    if (last && last.founderOwnership < 50) {
+      warnings.push(`Founders lose majority control after ${last.round}`);
+    }
+
+    return warnings;
+  }
+}
@@ -5,6 +5,8 @@ import type { ProjectData } from '@/types/project';
 import { formatCurrency, formatPercentage, formatMonths } from './utils';
 import { calculateBreakEven } from './break-even-calculator';
 import { downloadWebFile } from './platform-utils';
+import { Currency, Money } from './domain/value-objects/Money';
+import { ExchangeRateTable } from './domain/value-objects/ExchangeRateTable';
 
 interface PDFGenerationOptions {
   project: ProjectData;
@@ -14,13 +16,14 @@ interface PDFGenerationOptions {
     scenarios?: string;
   };
   language: 'es' | 'en';
+  reportingCurrency?: Currency;
 }
 
 /**
  * Generate a professional PDF report for a business case
  */
 export async function generatePDFReport(options: PDFGenerationOptions): Promise<string> {
-  const { project, chartImages, language } = options;
+  const { project, chartImages, language, reportingCurrency } = options;
 
   // On web, the actual download is handled in sharePDFReport using downloadWebFile.
   // FileSystem is unavailable on web, so we return early here.
@@ -28,7 +31,7 @@ export async function generatePDFReport(options: PDFGenerationOptions): Promise<
     return '';
   }
 
-  const html = generateHTMLReport(project, chartImages, language);
+  const html = generateHTMLReport(project, chartImages, language, reportingCurrency);
 
   const fileName = `business-case-${project.name.replace(/\s+/g, '-')}-${Date.now()}.html`;
   const filePath = `${FileSystem.documentDirectory}${fileName}`;
@@ -43,9 +46,14 @@ export async function generatePDFReport(options: PDFGenerationOptions): Promise<
 /**
  * Share the generated PDF report
  */
-export async function sharePDFReport(filePath: string, project: ProjectData, language: 'es' | 'en'): Promise<void> {
+export async function sharePDFReport(
+  filePath: string,
+  project: ProjectData,
+  language: 'es' | 'en',
+  reportingCurrency?: Currency
+): Promise<void> {
   if (Platform.OS === 'web') {
-    const html = generateHTMLReport(project, {}, language);
+    const html = generateHTMLReport(project, {}, language, reportingCurrency);
     const fileName = `business-case-${project.name.replace(/\s+/g, '-')}`;
 
     try {
@@ -89,7 +97,8 @@ export async function sharePDFReport(filePath: string, project: ProjectData, lan
 function generateHTMLReport(
   project: ProjectData,
   chartImages: PDFGenerationOptions['chartImages'],
-  language: 'es' | 'en'
+  language: 'es' | 'en',
+  reportingCurrency?: Currency
 ): string {
   const t = language === 'es' ? getSpanishTranslations() : getEnglishTranslations();
 
@@ -98,6 +107,16 @@ function generateHTMLReport(
   }
 
   const { results } = project;
+  const currency = project.currency ?? Currency.USD;
+  const money = (value: number) => formatCurrency(value, currency);
+
+  // Restate NPV in the reader's reporting currency at the latest bundled rate
+  const npvReported = reportingCurrency && reportingCurrency !== currency
+    ? formatCurrency(
+        new Money(results.npv, currency).convertTo(reportingCurrency, ExchangeRateTable.default()).amount,
+        reportingCurrency
+      )
+    : null;
   const generatedDate = new Date().toLocaleDateString(language === 'es' ? 'es-ES' : 'en-US', {
     year: 'numeric',
     month: 'long',
@@ -288,7 +307,7 @@ function generateHTMLReport(
       </div>
       <div class="project-info-row">
         <span class="project-info-label">${t.initial_investment}:</span>
-        <span class="project-info-value">${formatCurrency(project.initialInvestment)}</span>
+        <span class="project-info-value">${money(project.initialInvestment)}</span>
       </div>
       <div class="project-info-row">
         <span class="project-info-label">${t.project_duration}:</span>
@@ -317,11 +336,12 @@ function generateHTMLReport(
       <div class="metric-card">
         <div class="metric-label">${t.npv_full}</div>
         <div class="metric-value ${results.npv > 0 ? 'positive' : 'negative'}">
-          ${formatCurrency(results.npv)}
+          ${money(results.npv)}
         </div>
         <div class="metric-subtitle">
           ${results.npv > 0 ? t.creates_value : t.destroys_value}
         </div>
+        ${npvReported ? `<div class="metric-subtitle">≈ ${npvReported} (${reportingCurrency})</div>` : ''}
       </div>
 
       <div class="metric-card">
@@ -425,7 +445,7 @@ function generateBreakEvenSection(project: ProjectData, t: ReturnType<typeof get
       </div>
       <div class="metric-card">
         <div class="metric-label">${t.breakeven_amount}</div>
-        <div class="metric-value">${formatCurrency(breakEvenData.breakEvenPoint.amount)}</div>
+        <div class="metric-value">${formatCurrency(breakEvenData.breakEvenPoint.amount, project.currency)}</div>
         <div class="metric-subtitle">${t.recovery_period}</div>
       </div>
     </div>
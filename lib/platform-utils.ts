@@ -40,10 +40,10 @@ export async function confirmAction(
  * Triggers a file download on the Web platform.
  * Used for exporting reports when Sharing API is unavailable or limited.
  */
-export function downloadWebFile(content: string, fileName: string, mimeType: string = 'text/html') {
+export function downloadWebFile(content: string | Uint8Array, fileName: string, mimeType: string = 'text/html') {
     if (Platform.OS !== 'web') return;
 
-    const blob = new Blob([content], { type: mimeType });
+    const blob = new Blob([content as BlobPart], { type: mimeType });
     const url = window.URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.href = url;
@@ -0,0 +1,98 @@
+import type { MonthlyActual } from '@/types/project';
+
+export type ActualsImportErrorReason = 'missing_month_column' | 'invalid_month' | 'invalid_number' | 'duplicate_month';
+
+export interface ActualsImportError {
+  line: number; // 1-based line in the pasted text
+  reason: ActualsImportErrorReason;
+}
+
+type ActualsColumn = keyof MonthlyActual;
+
+/**
+ * Header names accepted for each field, lower case
+ */
+const COLUMN_ALIASES: Record<ActualsColumn, string[]> = {
+  month: ['month', 'mes'],
+  revenue: ['revenue', 'ingresos'],
+  operatingCosts: ['operating_costs', 'operatingcosts', 'opex', 'costos_operativos'],
+  maintenanceCosts: ['maintenance_costs', 'maintenancecosts', 'maintenance', 'mantenimiento'],
+  capex: ['capex'],
+};
+
+/**
+ * Column order when the text has no header row
+ */
+const DEFAULT_COLUMNS: ActualsColumn[] = ['month', 'revenue', 'operatingCosts', 'maintenanceCosts', 'capex'];
+
+function detectSeparator(line: string): string {
+  if (line.includes('\t')) return '\t';
+  if (line.includes(';')) return ';';
+  return ',';
+}
+
+/**
+ * Parses monthly actuals pasted from a spreadsheet: one month per row with month, revenue,
+ * operating costs, maintenance costs and capex. A header row is optional and may list the
+ * columns in any order; empty cells count as zero. Rows with errors are skipped and reported.
+ */
+export function parseActualsCsv(text: string): { actuals: MonthlyActual[]; errors: ActualsImportError[] } {
+  const lines = text.split(/\r?\n/).map((line, index) => ({ text: line.trim(), line: index + 1 }))
+    .filter((entry) => entry.text.length > 0);
+  const actuals: MonthlyActual[] = [];
+  const errors: ActualsImportError[] = [];
+
+  if (lines.length === 0) return { actuals, errors };
+
+  const separator = detectSeparator(lines[0].text);
+  const split = (line: string) => line.split(separator).map((cell) => cell.trim());
+
+  let columns = DEFAULT_COLUMNS;
+  let rows = lines;
+  const firstCells = split(lines[0].text);
+  if (Number.isNaN(Number(firstCells[0]))) {
+    // Header row: map each cell to a known field, unknown columns are ignored
+    columns = firstCells.map((cell) => {
+      const name = cell.toLowerCase().replace(/\s+/g, '_');
+      const match = (Object.keys(COLUMN_ALIASES) as ActualsColumn[]).find((column) =>
+        COLUMN_ALIASES[column].includes(name)
+      );
+      return match ?? (name as ActualsColumn);
+    });
+    rows = lines.slice(1);
+    if (!columns.includes('month')) {
+      return { actuals, errors: [{ line: lines[0].line, reason: 'missing_month_column' }] };
+    }
+  }
+
+  const seen = new Set<number>();
+  rows.forEach(({ text: rowText, line }) => {
+    const cells = split(rowText);
+    const entry: MonthlyActual = { month: 0, revenue: 0, operatingCosts: 0, maintenanceCosts: 0, capex: 0 };
+    let invalid: ActualsImportErrorReason | null = null;
+
+    for (const [index, column] of columns.entries()) {
+      if (!(column in entry)) continue;
+      const cell = cells[index] ?? '';
+      const value = cell === '' ? 0 : Number(cell);
+      if (!Number.isFinite(value)) {
+        invalid = 'invalid_number';
+        break;
+      }
+      entry[column] = value;
+    }
+
+    if (!invalid && (!Number.isInteger(entry.month) || entry.month < 1)) invalid = 'invalid_month';
+    if (!invalid && seen.has(entry.month)) invalid = 'duplicate_month';
+
+    if (invalid) {
+      errors.push({ line, reason: invalid });
+      return;
+    }
+    seen.add(entry.month);
+    actuals.push(entry);
+  });
+
+  actuals.sort((a, b) => a.month - b.month);
+  return { actuals, errors };
+}
@@ -0,0 +1,146 @@
+import type { CommentAnchor, CommentAnchorType, CommentThread, MentionableUser, ProjectComment } from '@/types/project';
+
+export const COMMENT_ANCHOR_TYPES: CommentAnchorType[] = ['project', 'input', 'scenario', 'metric'];
+
+/**
+ * Project inputs a thread can be attached to
+ */
+export const COMMENTABLE_INPUTS = [
+  'initialInvestment',
+  'discountRate',
+  'projectDuration',
+  'yearlyRevenue',
+  'revenueGrowth',
+  'operatingCosts',
+  'maintenanceCosts',
+  'bestCaseMultiplier',
+  'worstCaseMultiplier',
+] as const;
+
+/**
+ * Computed metrics a thread can be attached to, named after the FinancialResults fields
+ */
+export const COMMENTABLE_METRICS = [
+  'roi',
+  'npv',
+  'irr',
+  'paybackPeriod',
+  'roiBest',
+  'npvBest',
+  'roiWorst',
+  'npvWorst',
+] as const;
+
+export type CommentableInput = (typeof COMMENTABLE_INPUTS)[number];
+export type CommentableMetric = (typeof COMMENTABLE_METRICS)[number];
+
+export const PROJECT_ANCHOR: CommentAnchor = { type: 'project', key: null };
+
+/**
+ * Whether an anchor is well formed; scenario ids still have to be checked against the project
+ */
+export function isValidCommentAnchor(anchor: CommentAnchor): boolean {
+  switch (anchor.type) {
+    case 'project':
+      return anchor.key === null;
+    case 'input':
+      return (COMMENTABLE_INPUTS as readonly string[]).includes(anchor.key ?? '');
+    case 'metric':
+      return (COMMENTABLE_METRICS as readonly string[]).includes(anchor.key ?? '');
+    case 'scenario':
+      return !!anchor.key;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Stable key for grouping comments by anchor, e.g. "metric:irr"
+ */
+export function anchorId(anchor: CommentAnchor): string {
+  return `${anchor.type}:${anchor.key ?? ''}`;
+}
+
+export function sameAnchor(a: CommentAnchor, b: CommentAnchor): boolean {
+  return anchorId(a) === anchorId(b);
+}
+
+/**
+ * Handle used to @mention a user: their name, or the local part of their email
+ */
+export function mentionHandle(user: MentionableUser): string | null {
+  const name = user.name?.trim();
+  if (name) return name;
+  const local = user.email?.split('@')[0]?.trim();
+  return local || null;
+}
+
+/**
+ * Ids of users mentioned in a comment body
+ * Handles may contain spaces, so the longest handle matching at each "@" wins
+ */
+export function extractMentions(body: string, users: MentionableUser[]): number[] {
+  const candidates = users
+    .flatMap((user) => {
+      const handles = [user.name?.trim(), user.email?.split('@')[0]?.trim()].filter(
+        (handle): handle is string => !!handle
+      );
+      return handles.map((handle) => ({ userId: user.userId, handle: handle.toLowerCase() }));
+    })
+    .sort((a, b) => b.handle.length - a.handle.length);
+
+  const text = body.toLowerCase();
+  const mentioned: number[] = [];
+
+  for (let index = text.indexOf('@'); index !== -1; index = text.indexOf('@', index + 1)) {
+    // Skip email addresses such as "ana@example.com"
+    if (index > 0 && /[\w.]/.test(text[index - 1])) continue;
+
+    const rest = text.slice(index + 1);
+    const match = candidates.find(
+      (candidate) => rest.startsWith(candidate.handle) && !/[\w]/.test(rest.charAt(candidate.handle.length))
+    );
+    if (match && !mentioned.includes(match.userId)) {
+      mentioned.push(match.userId);
+    }
+  }
+
+  return mentioned;
+}
+
+/**
+ * Group comments into threads: open threads first, then oldest first, replies in posting order
+ * Replies whose root is gone are dropped
+ */
+export function buildCommentThreads(comments: ProjectComment[]): CommentThread[] {
+  const byTime = (a: ProjectComment, b: ProjectComment) =>
+    new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+
+  const roots = comments.filter((comment) => !comment.parentId).sort(byTime);
+  const threads = roots.map((root) => ({
+    root,
+    replies: comments.filter((comment) => comment.parentId === root.id).sort(byTime),
+  }));
+
+  return [
+    ...threads.filter((thread) => !thread.root.resolvedAt),
+    ...threads.filter((thread) => thread.root.resolvedAt),
+  ];
+}
+
+export function threadsForAnchor(threads: CommentThread[], anchor: CommentAnchor): CommentThread[] {
+  return threads.filter((thread) => sameAnchor(thread.root.anchor, anchor));
+}
+
+/**
+ * Number of unresolved threads per anchor, keyed by anchorId
+ */
+export function countOpenThreads(comments: ProjectComment[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const comment of comments) {
+    if (comment.parentId || comment.resolvedAt) continue;
+    const key = anchorId(comment.anchor);
+    counts[key] = (counts[key] ?? 0) + 1;
+  }
+  return counts;
+}
@@ -0,0 +1,96 @@
+import type {
+  ProjectVersion,
+  ProjectVersionDiff,
+  ProjectVersionSnapshot,
+  VersionFieldChange,
+  VersionMetricDelta,
+} from '@/types/project';
+
+type Primitive = string | number | boolean | null;
+
+/**
+ * Headline metrics compared between versions, in display order
+ */
+export const VERSION_METRICS: VersionMetricDelta['metric'][] = [
+  'npv',
+  'irr',
+  'mirr',
+  'roi',
+  'paybackPeriod',
+  'npvBest',
+  'npvWorst',
+];
+
+/**
+ * Flattens nested inputs into dotted paths so nested assumptions diff field by field
+ */
+function flatten(value: unknown, path: string, out: Map<string, Primitive>): void {
+  if (value === undefined) return;
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) out.set(path, null);
+    value.forEach((item, index) => flatten(item, `${path}[${index}]`, out));
+  } else if (value !== null && typeof value === 'object') {
+    Object.entries(value as Record<string, unknown>).forEach(([key, child]) =>
+      flatten(child, path ? `${path}.${key}` : key, out)
+    );
+  } else {
+    out.set(path, value as Primitive);
+  }
+}
+
+/**
+ * A line item without its id: rows are re-inserted with fresh ids on every save
+ */
+function withoutId(item: { id: string }): Record<string, unknown> {
+  const fields: Record<string, unknown> = { ...item };
+  delete fields.id;
+  return fields;
+}
+
+/**
+ * Input fields of a snapshot as dotted paths; results are compared separately as metrics
+ */
+export function flattenSnapshot(snapshot: ProjectVersionSnapshot): Map<string, Primitive> {
+  const inputs: Record<string, unknown> = { ...snapshot };
+  delete inputs.results;
+  if (snapshot.lineItems) {
+    inputs.lineItems = {
+      revenueStreams: snapshot.lineItems.revenueStreams.map(withoutId),
+      costLines: snapshot.lineItems.costLines.map(withoutId),
+      capexTranches: snapshot.lineItems.capexTranches.map(withoutId),
+    };
+  }
+  const fields = new Map<string, Primitive>();
+  flatten(inputs, '', fields);
+  return fields;
+}
+
+/**
+ * Field-by-field differences between two versions plus the change in each headline metric
+ */
+export function diffVersionSnapshots(from: ProjectVersion, to: ProjectVersion): ProjectVersionDiff {
+  const before = flattenSnapshot(from.snapshot);
+  const after = flattenSnapshot(to.snapshot);
+
+  const changes: VersionFieldChange[] = [];
+  new Set([...before.keys(), ...after.keys()]).forEach((field) => {
+    const a = before.get(field) ?? null;
+    const b = after.get(field) ?? null;
+    if (a !== b) changes.push({ field, before: a, after: b });
+  });
+  changes.sort((a, b) => a.field.localeCompare(b.field));
+
+  const metrics: VersionMetricDelta[] = VERSION_METRICS.map((metric) => {
+    const a = from.snapshot.results?.[metric] ?? null;
+    const b = to.snapshot.results?.[metric] ?? null;
+    return {
+      metric,
+      before: a,
+      after: b,
+      delta: a !== null && b !== null ? Math.round((b - a) * 100) / 100 : null,
+    };
+  });
+
+  return { fromVersion: from.version, toVersion: to.version, changes, metrics };
+}
@@ -1,11 +1,41 @@
 import { calculateFinancialMetrics } from './financial-calculator';
-import type { ProjectData } from '@/types/project';
+import { SaaSMetricsCalculator } from '@/lib/infrastructure/calculators/SaaSMetricsCalculator';
+import { VanguardMetricsCalculator } from '@/lib/infrastructure/calculators/VanguardMetricsCalculator';
+import type {
+  FinancialCalculationInput,
+  ProjectData,
+  SaaSInput,
+  VanguardInput,
+} from '@/types/project';
 
-export type SensitivityVariable = 
+/**
+ * Variables that drive the standard cash flow model (NPV, ROI, IRR, payback)
+ */
+export type CoreSensitivityVariable =
   | 'initialInvestment'
   | 'yearlyRevenue'
   | 'operatingCosts'
-  | 'maintenanceCosts';
+  | 'maintenanceCosts'
+  | 'discountRate'
+  | 'revenueGrowth'
+  | 'projectDuration';
+
+export type SensitivityVariable =
+  | CoreSensitivityVariable
+  | keyof SaaSInput
+  | keyof VanguardInput;
+
+export type SensitivityMetric =
+  | 'npv'
+  | 'roi'
+  | 'irr'
+  | 'payback'
+  | 'ltvCac'
+  | 'ofi'
+  | 'tfdi'
+  | 'ser';
+
+export type SensitivityValueFormat = 'currency' | 'percentage' | 'months' | 'ratio';
 
 export interface SensitivityResult {
   variable: SensitivityVariable;
@@ -13,66 +43,262 @@ export interface SensitivityResult {
   variation: number; // -30, -20, -10, 0, 10, 20, 30
   npv: number;
   roi: number;
+  irr: number;
+  paybackPeriod: number;
   npvChange: number; // Change from base case
   roiChange: number; // Change from base case
+  metric: SensitivityMetric;
+  value: number; // Selected metric at this variation
+  valueChange: number; // Change of the selected metric from base case
 }
 
 export interface TornadoChartData {
   variable: SensitivityVariable;
   variableName: string;
-  negativeImpact: number; // NPV at -30%
-  positiveImpact: number; // NPV at +30%
+  negativeImpact: number; // Metric change at -30%
+  positiveImpact: number; // Metric change at +30%
   range: number; // Absolute difference
 }
 
+export interface SpiderChartSeries {
+  variable: SensitivityVariable;
+  variableName: string;
+  points: { variation: number; value: number }[];
+}
+
+export interface BreakevenThreshold {
+  variable: CoreSensitivityVariable;
+  variableName: string;
+  baseValue: number;
+  threshold: number | null; // Value at which NPV crosses zero, null if it never does
+  changePercent: number | null; // Distance from the base value
+}
+
+export interface TwoVariableSensitivityGrid {
+  rowVariable: SensitivityVariable;
+  columnVariable: SensitivityVariable;
+  metric: SensitivityMetric;
+  variations: number[];
+  baseValue: number;
+  values: number[][]; // values[row][column]
+}
+
+export const DEFAULT_VARIATIONS = [-30, -20, -10, 0, 10, 20, 30];
+
+export const CORE_SENSITIVITY_VARIABLES: CoreSensitivityVariable[] = [
+  'initialInvestment',
+  'yearlyRevenue',
+  'operatingCosts',
+  'maintenanceCosts',
+  'discountRate',
+  'revenueGrowth',
+  'projectDuration',
+];
+
+const SAAS_SENSITIVITY_VARIABLES: (keyof SaaSInput)[] = [
+  'averageRevenuePerUser',
+  'churnRate',
+  'cacCost',
+  'grossMargin',
+  'startingMRR',
+  'expansionMRR',
+  'churnedMRR',
+  'contractedMRR',
+  'revenueGrowthRate',
+  'profitMargin',
+  'monthlyAcquisitionSpend',
+];
+
+const VANGUARD_SENSITIVITY_VARIABLES: (keyof VanguardInput)[] = [
+  'manualProcessHoursPerWeek',
+  'averageHourlyCost',
+  'automationPotential',
+  'maintenanceHoursPerSprint',
+  'totalDevHoursPerSprint',
+  'devTeamAnnualCost',
+  'incidentCostPerMonth',
+  'currentRevenue',
+  'previousRevenue',
+  'currentBurnRate',
+  'previousBurnRate',
+];
+
+const STANDARD_METRICS: SensitivityMetric[] = ['npv', 'roi', 'irr', 'payback'];
+const VANGUARD_METRICS: SensitivityMetric[] = ['ofi', 'tfdi', 'ser'];
+
+/**
+ * Search range used to locate the NPV breakeven point, mirroring
+ * StandardMetricsCalculator validation limits. Amounts scale with the project size
+ * so that zero-valued inputs can still be searched.
+ */
+const THRESHOLD_BOUNDS: Record<CoreSensitivityVariable, (scale: number) => [number, number]> = {
+  initialInvestment: (scale) => [0, scale * 10],
+  yearlyRevenue: (scale) => [0, scale * 10],
+  operatingCosts: (scale) => [0, scale * 10],
+  maintenanceCosts: (scale) => [0, scale * 10],
+  discountRate: () => [0, 100],
+  revenueGrowth: () => [-100, 1000],
+  projectDuration: () => [1, 600],
+};
+
+const saasCalculator = new SaaSMetricsCalculator();
+const vanguardCalculator = new VanguardMetricsCalculator();
+
+interface SensitivityInputs {
+  standard: FinancialCalculationInput;
+  saas?: SaaSInput;
+  vanguard?: VanguardInput;
+}
+
+function isCoreVariable(variable: SensitivityVariable): variable is CoreSensitivityVariable {
+  return (CORE_SENSITIVITY_VARIABLES as string[]).includes(variable);
+}
+
+function isSaaSVariable(variable: SensitivityVariable): variable is keyof SaaSInput {
+  return (SAAS_SENSITIVITY_VARIABLES as string[]).includes(variable);
+}
+
+function buildInputs(project: ProjectData): SensitivityInputs {
+  return {
+    standard: {
+      initialInvestment: project.initialInvestment,
+      discountRate: project.discountRate,
+      projectDuration: project.projectDuration,
+      yearlyRevenue: project.yearlyRevenue,
+      revenueGrowth: project.revenueGrowth,
+      operatingCosts: project.operatingCosts,
+      maintenanceCosts: project.maintenanceCosts,
+      fiscalAssumptions: project.fiscalAssumptions,
+      inflation: project.inflation,
+      valuationBasis: project.valuationBasis,
+      businessModel: project.businessModel,
+      multiplier: 1.0,
+    },
+    saas: project.saasInput ? { ...project.saasInput } : undefined,
+    vanguard: project.vanguardInput ? { ...project.vanguardInput } : undefined,
+  };
+}
+
+/**
+ * Get the current value of a variable on the project
+ */
+export function getVariableValue(project: ProjectData, variable: SensitivityVariable): number {
+  if (isCoreVariable(variable)) return project[variable];
+  if (isSaaSVariable(variable)) return project.saasInput?.[variable] ?? 0;
+  return project.vanguardInput?.[variable as keyof VanguardInput] ?? 0;
+}
+
+function setVariableValue(
+  inputs: SensitivityInputs,
+  variable: SensitivityVariable,
+  value: number
+): SensitivityInputs {
+  if (isCoreVariable(variable)) {
+    // Duration is a whole number of months
+    const adjusted = variable === 'projectDuration' ? Math.max(1, Math.round(value)) : value;
+    return { ...inputs, standard: { ...inputs.standard, [variable]: adjusted } };
+  }
+  if (isSaaSVariable(variable)) {
+    return inputs.saas ? { ...inputs, saas: { ...inputs.saas, [variable]: value } } : inputs;
+  }
+  return inputs.vanguard ? { ...inputs, vanguard: { ...inputs.vanguard, [variable]: value } } : inputs;
+}
+
+/**
+ * Evaluate every metric for a set of inputs.
+ * Metrics whose inputs are invalid or missing are reported as NaN.
+ */
+function evaluateMetrics(inputs: SensitivityInputs): Record<SensitivityMetric, number> {
+  const metrics: Record<SensitivityMetric, number> = {
+    npv: NaN,
+    roi: NaN,
+    irr: NaN,
+    payback: NaN,
+    ltvCac: NaN,
+    ofi: NaN,
+    tfdi: NaN,
+    ser: NaN,
+  };
+
+  try {
+    // SaaS projects take their revenue line from the SaaS inputs
+    const standard = calculateFinancialMetrics({ ...inputs.standard, saasInput: inputs.saas });
+    metrics.npv = standard.npv;
+    metrics.roi = standard.roi;
+    metrics.irr = standard.irr;
+    metrics.payback = standard.paybackPeriod;
+  } catch {
+    // Leave standard metrics as NaN
+  }
+
+  if (inputs.saas) {
+    try {
+      metrics.ltvCac = saasCalculator.calculate(inputs.saas).ltv_cac_ratio;
+    } catch {
+      // Leave LTV/CAC as NaN
+    }
+  }
+
+  if (inputs.vanguard) {
+    try {
+      const vanguard = vanguardCalculator.calculate({ ...inputs.vanguard });
+      metrics.ofi = vanguard.ofi;
+      metrics.tfdi = vanguard.tfdi;
+      metrics.ser = vanguard.ser;
+    } catch {
+      // Leave Vanguard metrics as NaN
+    }
+  }
+
+  return metrics;
+}
+
+/**
+ * Metrics that can be computed for the project
+ */
+export function getSensitivityMetrics(project: ProjectData): SensitivityMetric[] {
+  const metrics = [...STANDARD_METRICS];
+  if (project.saasInput) metrics.push('ltvCac');
+  if (project.vanguardInput) metrics.push(...VANGUARD_METRICS);
+  return metrics;
+}
+
+/**
+ * Variables that affect the given metric
+ */
+export function getSensitivityVariables(
+  project: ProjectData,
+  metric: SensitivityMetric = 'npv'
+): SensitivityVariable[] {
+  if (metric === 'ltvCac') {
+    return project.saasInput ? [...SAAS_SENSITIVITY_VARIABLES] : [];
+  }
+  if (VANGUARD_METRICS.includes(metric)) {
+    return project.vanguardInput ? [...VANGUARD_SENSITIVITY_VARIABLES] : [];
+  }
+  return [...CORE_SENSITIVITY_VARIABLES];
+}
+
 /**
  * Calculate sensitivity analysis for a single variable
  */
 export function calculateSensitivity(
   project: ProjectData,
   variable: SensitivityVariable,
-  variations: number[] = [-30, -20, -10, 0, 10, 20, 30]
+  variations: number[] = DEFAULT_VARIATIONS,
+  metric: SensitivityMetric = 'npv'
 ): SensitivityResult[] {
   const results: SensitivityResult[] = [];
 
   // Get base case values
-  const baseParams = {
-    initialInvestment: project.initialInvestment,
-    discountRate: project.discountRate,
-    projectDuration: project.projectDuration,
-    yearlyRevenue: project.yearlyRevenue,
-    revenueGrowth: project.revenueGrowth,
-    operatingCosts: project.operatingCosts,
-    maintenanceCosts: project.maintenanceCosts,
-    multiplier: 1.0,
-  };
-
-  const baseCase = calculateFinancialMetrics(baseParams);
-  const baseNPV = baseCase.npv;
-  const baseROI = baseCase.roi;
+  const baseInputs = buildInputs(project);
+  const baseValue = getVariableValue(project, variable);
+  const baseCase = evaluateMetrics(baseInputs);
 
   // Calculate for each variation
   for (const variation of variations) {
     const multiplier = 1 + variation / 100;
-    const params = { ...baseParams };
-
-    // Apply variation to the specific variable
-    switch (variable) {
-      case 'initialInvestment':
-        params.initialInvestment = project.initialInvestment * multiplier;
-        break;
-      case 'yearlyRevenue':
-        params.yearlyRevenue = project.yearlyRevenue * multiplier;
-        break;
-      case 'operatingCosts':
-        params.operatingCosts = project.operatingCosts * multiplier;
-        break;
-      case 'maintenanceCosts':
-        params.maintenanceCosts = project.maintenanceCosts * multiplier;
-        break;
-    }
-
-    const result = calculateFinancialMetrics(params);
+    const result = evaluateMetrics(setVariableValue(baseInputs, variable, baseValue * multiplier));
 
     results.push({
       variable,
@@ -80,8 +306,13 @@ export function calculateSensitivity(
       variation,
       npv: result.npv,
       roi: result.roi,
-      npvChange: result.npv - baseNPV,
-      roiChange: result.roi - baseROI,
+      irr: result.irr,
+      paybackPeriod: result.payback,
+      npvChange: result.npv - baseCase.npv,
+      roiChange: result.roi - baseCase.roi,
+      metric,
+      value: result[metric],
+      valueChange: result[metric] - baseCase[metric],
     });
   }
 
@@ -89,23 +320,17 @@ export function calculateSensitivity(
 }
 
 /**
- * Calculate sensitivity analysis for all variables
+ * Calculate sensitivity analysis for all variables affecting the metric
  */
 export function calculateMultiVariableSensitivity(
   project: ProjectData,
-  variations: number[] = [-30, -20, -10, 0, 10, 20, 30]
-): Record<SensitivityVariable, SensitivityResult[]> {
-  const variables: SensitivityVariable[] = [
-    'initialInvestment',
-    'yearlyRevenue',
-    'operatingCosts',
-    'maintenanceCosts',
-  ];
+  variations: number[] = DEFAULT_VARIATIONS,
+  metric: SensitivityMetric = 'npv'
+): Partial<Record<SensitivityVariable, SensitivityResult[]>> {
+  const results: Partial<Record<SensitivityVariable, SensitivityResult[]>> = {};
 
-  const results: Record<SensitivityVariable, SensitivityResult[]> = {} as any;
-
-  for (const variable of variables) {
-    results[variable] = calculateSensitivity(project, variable, variations);
+  for (const variable of getSensitivityVariables(project, metric)) {
+    results[variable] = calculateSensitivity(project, variable, variations, metric);
   }
 
   return results;
@@ -115,29 +340,26 @@ export function calculateMultiVariableSensitivity(
  * Generate tornado chart data (shows impact range for each variable)
  */
 export function generateTornadoChartData(
-  project: ProjectData
+  project: ProjectData,
+  metric: SensitivityMetric = 'npv'
 ): TornadoChartData[] {
-  const variables: SensitivityVariable[] = [
-    'initialInvestment',
-    'yearlyRevenue',
-    'operatingCosts',
-    'maintenanceCosts',
-  ];
-
   const data: TornadoChartData[] = [];
 
-  for (const variable of variables) {
-    const results = calculateSensitivity(project, variable, [-30, 0, 30]);
+  for (const variable of getSensitivityVariables(project, metric)) {
+    const results = calculateSensitivity(project, variable, [-30, 0, 30], metric);
 
     const negativeCase = results.find((r) => r.variation === -30);
     const positiveCase = results.find((r) => r.variation === 30);
     const baseCase = results.find((r) => r.variation === 0);
 
     if (negativeCase && positiveCase && baseCase) {
-      const negativeImpact = negativeCase.npv - baseCase.npv;
-      const positiveImpact = positiveCase.npv - baseCase.npv;
+      const negativeImpact = negativeCase.value - baseCase.value;
+      const positiveImpact = positiveCase.value - baseCase.value;
       const range = Math.abs(negativeImpact) + Math.abs(positiveImpact);
 
+      // Skip variables whose variations cannot be evaluated
+      if (!Number.isFinite(range)) continue;
+
       data.push({
         variable,
         variableName: getVariableName(variable),
@@ -154,6 +376,143 @@ export function generateTornadoChartData(
   return data;
 }
 
+/**
+ * Generate spider chart data (metric value per variation for each variable)
+ */
+export function generateSpiderChartData(
+  project: ProjectData,
+  metric: SensitivityMetric = 'npv',
+  variations: number[] = DEFAULT_VARIATIONS
+): SpiderChartSeries[] {
+  const results = calculateMultiVariableSensitivity(project, variations, metric);
+
+  return getSensitivityVariables(project, metric).map((variable) => ({
+    variable,
+    variableName: getVariableName(variable),
+    points: (results[variable] || []).map((r) => ({ variation: r.variation, value: r.value })),
+  }));
+}
+
+/**
+ * Find the value of a variable at which NPV crosses zero, holding all other inputs constant.
+ * Scans the valid range for a sign change closest to the base value and refines it by bisection.
+ */
+export function calculateBreakevenThreshold(
+  project: ProjectData,
+  variable: CoreSensitivityVariable
+): BreakevenThreshold {
+  const baseInputs = buildInputs(project);
+  const baseValue = project[variable];
+  const scale = Math.max(baseValue, project.initialInvestment, project.yearlyRevenue, 1);
+  const [lower, upper] = THRESHOLD_BOUNDS[variable](scale);
+
+  const npvAt = (value: number): number => evaluateMetrics(setVariableValue(baseInputs, variable, value)).npv;
+
+  const steps = 40;
+  const points: { value: number; npv: number }[] = [];
+  for (let i = 0; i <= steps; i++) {
+    const value = lower + ((upper - lower) * i) / steps;
+    points.push({ value, npv: npvAt(value) });
+  }
+
+  // Pick the sign change interval nearest to the base value
+  let bracket: [number, number] | null = null;
+  let bestDistance = Infinity;
+  for (let i = 0; i < steps; i++) {
+    const a = points[i];
+    const b = points[i + 1];
+    if (!Number.isFinite(a.npv) || !Number.isFinite(b.npv)) continue;
+    if (Math.sign(a.npv) === Math.sign(b.npv) && a.npv !== 0) continue;
+
+    const distance = Math.abs((a.value + b.value) / 2 - baseValue);
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      bracket = [a.value, b.value];
+    }
+  }
+
+  if (!bracket) {
+    return {
+      variable,
+      variableName: getVariableName(variable),
+      baseValue,
+      threshold: null,
+      changePercent: null,
+    };
+  }
+
+  let [a, b] = bracket;
+  let npvA = npvAt(a);
+  for (let i = 0; i < 60 && b - a > 1e-6 * Math.max(1, Math.abs(b)); i++) {
+    const mid = (a + b) / 2;
+    const npvMid = npvAt(mid);
+    if (npvMid === 0) {
+      a = b = mid;
+      break;
+    }
+    if (Math.sign(npvMid) === Math.sign(npvA)) {
+      a = mid;
+      npvA = npvMid;
+    } else {
+      b = mid;
+    }
+  }
+
+  // Duration is evaluated in whole months, so report the first month past the crossing
+  const threshold = variable === 'projectDuration'
+    ? Math.ceil(a)
+    : Math.round(((a + b) / 2) * 100) / 100;
+
+  return {
+    variable,
+    variableName: getVariableName(variable),
+    baseValue,
+    threshold,
+    changePercent: baseValue !== 0
+      ? Math.round(((threshold - baseValue) / Math.abs(baseValue)) * 10000) / 100
+      : null,
+  };
+}
+
+/**
+ * Calculate NPV breakeven thresholds for every core variable
+ */
+export function calculateBreakevenThresholds(project: ProjectData): BreakevenThreshold[] {
+  return CORE_SENSITIVITY_VARIABLES.map((variable) => calculateBreakevenThreshold(project, variable));
+}
+
+/**
+ * Sweep two variables simultaneously over the same variation grid
+ */
+export function calculateTwoVariableSensitivity(
+  project: ProjectData,
+  rowVariable: SensitivityVariable,
+  columnVariable: SensitivityVariable,
+  metric: SensitivityMetric = 'npv',
+  variations: number[] = [-20, -10, 0, 10, 20]
+): TwoVariableSensitivityGrid {
+  const baseInputs = buildInputs(project);
+  const rowBase = getVariableValue(project, rowVariable);
+  const columnBase = getVariableValue(project, columnVariable);
+
+  const values = variations.map((rowVariation) => {
+    const rowInputs = setVariableValue(baseInputs, rowVariable, rowBase * (1 + rowVariation / 100));
+    return variations.map((columnVariation) => {
+      const inputs = setVariableValue(rowInputs, columnVariable, columnBase * (1 + columnVariation / 100));
+      return evaluateMetrics(inputs)[metric];
+    });
+  });
+
+  return {
+    rowVariable,
+    columnVariable,
+    metric,
+    variations,
+    baseValue: evaluateMetrics(baseInputs)[metric],
+    values,
+  };
+}
+
 /**
  * Get human-readable variable name
  */
@@ -163,6 +522,31 @@ export function getVariableName(variable: SensitivityVariable): string {
     yearlyRevenue: 'Yearly Revenue',
     operatingCosts: 'Operating Costs',
     maintenanceCosts: 'Maintenance Costs',
+    discountRate: 'Discount Rate',
+    revenueGrowth: 'Revenue Growth',
+    projectDuration: 'Project Duration',
+    averageRevenuePerUser: 'ARPU',
+    churnRate: 'Churn Rate',
+    cacCost: 'CAC',
+    grossMargin: 'Gross Margin',
+    startingMRR: 'Starting MRR',
+    expansionMRR: 'Expansion MRR',
+    churnedMRR: 'Churned MRR',
+    contractedMRR: 'Contracted MRR',
+    revenueGrowthRate: 'SaaS Revenue Growth',
+    profitMargin: 'Profit Margin',
+    monthlyAcquisitionSpend: 'Monthly Acquisition Spend',
+    manualProcessHoursPerWeek: 'Manual Process Hours',
+    averageHourlyCost: 'Average Hourly Cost',
+    automationPotential: 'Automation Potential',
+    maintenanceHoursPerSprint: 'Maintenance Hours per Sprint',
+    totalDevHoursPerSprint: 'Dev Hours per Sprint',
+    devTeamAnnualCost: 'Dev Team Annual Cost',
+    incidentCostPerMonth: 'Monthly Incident Cost',
+    currentRevenue: 'Current Revenue',
+    previousRevenue: 'Previous Revenue',
+    currentBurnRate: 'Current Burn Rate',
+    previousBurnRate: 'Previous Burn Rate',
   };
   return names[variable];
 }
@@ -176,10 +560,68 @@ export function getVariableNameES(variable: SensitivityVariable): string {
     yearlyRevenue: 'Ingresos Anuales',
     operatingCosts: 'Costos Operativos',
     maintenanceCosts: 'Costos de Mantenimiento',
+    discountRate: 'Tasa de Descuento',
+    revenueGrowth: 'Crecimiento de Ingresos',
+    projectDuration: 'Duración del Proyecto',
+    averageRevenuePerUser: 'ARPU',
+    churnRate: 'Tasa de Cancelación',
+    cacCost: 'CAC',
+    grossMargin: 'Margen Bruto',
+    startingMRR: 'MRR Inicial',
+    expansionMRR: 'MRR de Expansión',
+    churnedMRR: 'MRR Perdido',
+    contractedMRR: 'MRR Contraído',
+    revenueGrowthRate: 'Crecimiento SaaS',
+    profitMargin: 'Margen de Beneficio',
+    monthlyAcquisitionSpend: 'Inversión Mensual en Adquisición',
+    manualProcessHoursPerWeek: 'Horas de Procesos Manuales',
+    averageHourlyCost: 'Costo Promedio por Hora',
+    automationPotential: 'Potencial de Automatización',
+    maintenanceHoursPerSprint: 'Horas de Mantenimiento por Sprint',
+    totalDevHoursPerSprint: 'Horas de Desarrollo por Sprint',
+    devTeamAnnualCost: 'Costo Anual del Equipo',
+    incidentCostPerMonth: 'Costo Mensual de Incidentes',
+    currentRevenue: 'Ingresos Actuales',
+    previousRevenue: 'Ingresos Anteriores',
+    currentBurnRate: 'Burn Rate Actual',
+    previousBurnRate: 'Burn Rate Anterior',
   };
   return names[variable];
 }
 
+/**
+ * Display format for each metric
+ */
+export function getMetricFormat(metric: SensitivityMetric): SensitivityValueFormat {
+  switch (metric) {
+    case 'npv':
+      return 'currency';
+    case 'roi':
+    case 'irr':
+      return 'percentage';
+    case 'payback':
+      return 'months';
+    default:
+      return 'ratio';
+  }
+}
+
+/**
+ * Whether a higher value of the metric is favourable
+ */
+export function isHigherBetter(metric: SensitivityMetric): boolean {
+  return !['payback', 'ofi', 'tfdi'].includes(metric);
+}
+
+/**
+ * Display format for a variable's own value (used for breakeven thresholds)
+ */
+export function getVariableFormat(variable: SensitivityVariable): SensitivityValueFormat {
+  if (variable === 'projectDuration') return 'months';
+  if (['discountRate', 'revenueGrowth'].includes(variable)) return 'percentage';
+  return 'currency';
+}
+
 /**
  * Determine color based on NPV value
  */
@@ -193,19 +635,26 @@ export function getSensitivityColor(npv: number, baseNPV: number): string {
 }
 
 /**
- * Format sensitivity value for display
+ * Format sensitivity value for display; currency values use the project's currency
  */
 export function formatSensitivityValue(
   value: number,
-  type: 'currency' | 'percentage'
+  type: SensitivityValueFormat,
+  currency: string = 'USD'
 ): string {
+  if (!Number.isFinite(value)) return '—';
+
   if (type === 'currency') {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
-      currency: 'USD',
+      currency,
       minimumFractionDigits: 0,
       maximumFractionDigits: 0,
     }).format(value);
+  } else if (type === 'months') {
+    return `${value.toFixed(1)} mo`;
+  } else if (type === 'ratio') {
+    return `${value.toFixed(2)}x`;
   } else {
     return `${value.toFixed(1)}%`;
   }
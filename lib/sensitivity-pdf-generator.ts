@@ -5,17 +5,24 @@ import { downloadWebFile } from './platform-utils';
 import type { ProjectData } from '@/types/project';
 import {
   calculateMultiVariableSensitivity,
+  calculateBreakevenThresholds,
+  calculateTwoVariableSensitivity,
   generateTornadoChartData,
   formatSensitivityValue,
+  getMetricFormat,
+  getSensitivityVariables,
+  getVariableFormat,
+  getVariableName,
   getVariableNameES,
+  DEFAULT_VARIATIONS,
+  type SensitivityMetric,
   type SensitivityVariable,
   type TornadoChartData,
 } from './sensitivity-calculator';
-import { formatCurrency, formatPercentage } from './utils';
 
 interface SensitivityPDFOptions {
   project: ProjectData;
-  metric: 'npv' | 'roi';
+  metric: SensitivityMetric;
   language: 'es' | 'en';
 }
 
@@ -31,7 +38,7 @@ interface SensitivityRecommendation {
  * Generate sensitivity analysis recommendations
  */
 function generateRecommendations(
-  project: ProjectData,
+  baseValue: number,
   tornadoData: TornadoChartData[],
   language: 'es' | 'en'
 ): SensitivityRecommendation[] {
@@ -45,7 +52,7 @@ function generateRecommendations(
     const impact = impactRatio > 0.7 ? 'high' : impactRatio > 0.4 ? 'medium' : 'low';
 
     // Determine risk based on negative impact
-    const negativeImpactRatio = Math.abs(item.negativeImpact) / Math.abs(project.results?.npv || 1);
+    const negativeImpactRatio = Math.abs(item.negativeImpact) / Math.abs(baseValue || 1);
     const risk = negativeImpactRatio > 0.5 ? 'high' : negativeImpactRatio > 0.25 ? 'medium' : 'low';
 
     let recommendation = '';
@@ -75,6 +82,22 @@ function generateRecommendations(
         } else {
           recommendation = 'Programar mantenimiento preventivo regular. Monitorear costos de mantenimiento vs. proyecciones.';
         }
+      } else if (item.variable === 'discountRate') {
+        recommendation = impact === 'high'
+          ? 'Validar el costo de capital con la estructura de financiamiento. Evaluar fijar tasas o cubrir el riesgo de tipo de interés.'
+          : 'Revisar la tasa de descuento anualmente frente a las condiciones de mercado.';
+      } else if (item.variable === 'revenueGrowth') {
+        recommendation = impact === 'high'
+          ? 'Respaldar la tasa de crecimiento con datos de pipeline y mercado. Preparar un plan alternativo ante un crecimiento menor.'
+          : 'Comparar el crecimiento real con el proyectado cada trimestre.';
+      } else if (item.variable === 'projectDuration') {
+        recommendation = impact === 'high'
+          ? 'Asegurar contratos o acuerdos que garanticen el horizonte del proyecto. Evaluar el valor si el proyecto termina antes de lo previsto.'
+          : 'Confirmar periódicamente que el horizonte del proyecto sigue siendo realista.';
+      } else {
+        recommendation = impact === 'high'
+          ? 'Variable crítica: establecer metas, monitoreo mensual y planes de contingencia.'
+          : 'Monitorear esta variable dentro de la revisión periódica del proyecto.';
       }
     } else {
       // English recommendations
@@ -102,6 +125,22 @@ function generateRecommendations(
         } else {
           recommendation = 'Schedule regular preventive maintenance. Monitor maintenance costs vs. projections.';
         }
+      } else if (item.variable === 'discountRate') {
+        recommendation = impact === 'high'
+          ? 'Validate the cost of capital against the financing structure. Consider locking in rates or hedging interest rate risk.'
+          : 'Review the discount rate annually against market conditions.';
+      } else if (item.variable === 'revenueGrowth') {
+        recommendation = impact === 'high'
+          ? 'Back the growth rate with pipeline and market data. Prepare a fallback plan for slower growth.'
+          : 'Compare actual growth with the projection every quarter.';
+      } else if (item.variable === 'projectDuration') {
+        recommendation = impact === 'high'
+          ? 'Secure contracts or agreements that guarantee the project horizon. Assess the value if the project ends early.'
+          : 'Periodically confirm that the project horizon remains realistic.';
+      } else {
+        recommendation = impact === 'high'
+          ? 'Critical driver: set targets, monitor monthly and prepare contingency plans.'
+          : 'Monitor this variable as part of the regular project review.';
       }
     }
 
@@ -122,31 +161,43 @@ function generateRecommendations(
  */
 function generateSensitivityHTML(
   project: ProjectData,
-  metric: 'npv' | 'roi',
+  metric: SensitivityMetric,
   language: 'es' | 'en'
 ): string {
-  const variations = [-30, -20, -10, 0, 10, 20, 30];
-  const results = calculateMultiVariableSensitivity(project, variations);
-  const tornadoData = generateTornadoChartData(project);
-  const recommendations = generateRecommendations(project, tornadoData, language);
-
-  const variables: SensitivityVariable[] = [
-    'initialInvestment',
-    'yearlyRevenue',
-    'operatingCosts',
-    'maintenanceCosts',
-  ];
+  const variations = DEFAULT_VARIATIONS;
+  const results = calculateMultiVariableSensitivity(project, variations, metric);
+  const tornadoData = generateTornadoChartData(project, metric);
+  const thresholds = calculateBreakevenThresholds(project);
+  const variables = getSensitivityVariables(project, metric);
+  const format = getMetricFormat(metric);
 
   const getVariableLabel = (variable: SensitivityVariable): string => {
-    return language === 'es' ? getVariableNameES(variable) : variable.replace(/([A-Z])/g, ' $1').trim();
+    return language === 'es' ? getVariableNameES(variable) : getVariableName(variable);
   };
 
   const getValue = (variable: SensitivityVariable, variation: number): number => {
-    const result = results[variable].find((r) => r.variation === variation);
-    return result ? (metric === 'npv' ? result.npv : result.roi) : 0;
+    const result = results[variable]?.find((r) => r.variation === variation);
+    return result ? result.value : 0;
   };
 
-  const baseValue = getValue('initialInvestment', 0);
+  const baseValue = variables.length > 0 ? getValue(variables[0], 0) : 0;
+  const recommendations = generateRecommendations(baseValue, tornadoData, language);
+
+  // Grid sweep over the two most influential variables
+  const grid = tornadoData.length >= 2
+    ? calculateTwoVariableSensitivity(project, tornadoData[0].variable, tornadoData[1].variable, metric)
+    : null;
+
+  const metricLabels: Record<SensitivityMetric, string> = {
+    npv: 'NPV',
+    roi: 'ROI',
+    irr: 'IRR',
+    payback: language === 'es' ? 'Recuperación' : 'Payback',
+    ltvCac: 'LTV/CAC',
+    ofi: 'OFI',
+    tfdi: 'TFDI',
+    ser: 'SER',
+  };
 
   const getCellColor = (value: number): string => {
     return 'transparent';
@@ -163,8 +214,18 @@ function generateSensitivityHTML(
         subtitle: `Proyecto: ${project.name}`,
         date: `Fecha: ${new Date().toLocaleDateString('es-ES')}`,
         description: 'Este análisis muestra cómo las variaciones en variables clave afectan las métricas financieras del proyecto.',
-        matrix_title: `Matriz de Sensibilidad - ${metric === 'npv' ? 'NPV' : 'ROI'}`,
+        matrix_title: `Matriz de Sensibilidad - ${metricLabels[metric]}`,
         tornado_title: 'Gráfico de Impacto (Tornado Chart)',
+        thresholds_title: 'Umbrales de Equilibrio (NPV = 0)',
+        thresholds_description: 'Valor de cada variable en el que el NPV se vuelve cero, manteniendo las demás constantes.',
+        base_value: 'Valor Base',
+        threshold: 'Umbral',
+        change: 'Cambio',
+        no_crossing: 'No cruza cero',
+        grid_title: `Análisis de Dos Variables - ${metricLabels[metric]}`,
+        grid_description: grid
+          ? `Filas: ${getVariableLabel(grid.rowVariable)}. Columnas: ${getVariableLabel(grid.columnVariable)}.`
+          : '',
         recommendations_title: 'Recomendaciones de Gestión de Riesgos',
         variable: 'Variable',
         impact: 'Impacto',
@@ -185,8 +246,18 @@ function generateSensitivityHTML(
         subtitle: `Project: ${project.name}`,
         date: `Date: ${new Date().toLocaleDateString('en-US')}`,
         description: 'This analysis shows how variations in key variables affect the project\'s financial metrics.',
-        matrix_title: `Sensitivity Matrix - ${metric === 'npv' ? 'NPV' : 'ROI'}`,
+        matrix_title: `Sensitivity Matrix - ${metricLabels[metric]}`,
         tornado_title: 'Impact Chart (Tornado Chart)',
+        thresholds_title: 'Breakeven Thresholds (NPV = 0)',
+        thresholds_description: 'Value of each variable at which NPV becomes zero, holding the others constant.',
+        base_value: 'Base Value',
+        threshold: 'Threshold',
+        change: 'Change',
+        no_crossing: 'Does not cross zero',
+        grid_title: `Two-Variable Analysis - ${metricLabels[metric]}`,
+        grid_description: grid
+          ? `Rows: ${getVariableLabel(grid.rowVariable)}. Columns: ${getVariableLabel(grid.columnVariable)}.`
+          : '',
         recommendations_title: 'Risk Management Recommendations',
         variable: 'Variable',
         impact: 'Impact',
@@ -230,7 +301,7 @@ function generateSensitivityHTML(
 
       matrixHTML += `
         <td class="${isBase ? 'base-case' : ''}" style="background-color: ${bgColor}; color: ${textColor};">
-          ${formatSensitivityValue(value, metric === 'npv' ? 'currency' : 'percentage')}
+          ${formatSensitivityValue(value, format, project.currency)}
         </td>
       `;
     }
@@ -247,7 +318,7 @@ function generateSensitivityHTML(
   let tornadoHTML = '<div class="tornado-chart">';
 
   for (const item of tornadoData) {
-    const maxAbs = Math.max(...tornadoData.map(d => Math.max(Math.abs(d.negativeImpact), Math.abs(d.positiveImpact))));
+    const maxAbs = Math.max(...tornadoData.map(d => Math.max(Math.abs(d.negativeImpact), Math.abs(d.positiveImpact)))) || 1;
     const negativeWidth = (Math.abs(item.negativeImpact) / maxAbs) * 100;
     const positiveWidth = (Math.abs(item.positiveImpact) / maxAbs) * 100;
 
@@ -256,11 +327,11 @@ function generateSensitivityHTML(
         <div class="tornado-label">${getVariableLabel(item.variable)}</div>
         <div class="tornado-bars">
           <div class="tornado-negative" style="width: ${negativeWidth}%;">
-            <span>${formatCurrency(item.negativeImpact)}</span>
+            <span>${formatSensitivityValue(item.negativeImpact, format, project.currency)}</span>
           </div>
           <div class="tornado-center"></div>
           <div class="tornado-positive" style="width: ${positiveWidth}%;">
-            <span>${formatCurrency(item.positiveImpact)}</span>
+            <span>${formatSensitivityValue(item.positiveImpact, format, project.currency)}</span>
           </div>
         </div>
       </div>
@@ -269,6 +340,69 @@ function generateSensitivityHTML(
 
   tornadoHTML += '</div>';
 
+  // Generate breakeven thresholds table HTML
+  let thresholdsHTML = `
+    <table class="matrix-table">
+      <thead>
+        <tr>
+          <th>${t('variable')}</th>
+          <th>${t('base_value')}</th>
+          <th>${t('threshold')}</th>
+          <th>${t('change')}</th>
+        </tr>
+      </thead>
+      <tbody>
+  `;
+
+  for (const item of thresholds) {
+    const variableFormat = getVariableFormat(item.variable);
+    thresholdsHTML += `
+      <tr>
+        <td class="variable-name">${getVariableLabel(item.variable)}</td>
+        <td>${formatSensitivityValue(item.baseValue, variableFormat, project.currency)}</td>
+        <td>${item.threshold !== null ? formatSensitivityValue(item.threshold, variableFormat, project.currency) : t('no_crossing')}</td>
+        <td>${item.changePercent !== null ? `${item.changePercent > 0 ? '+' : ''}${item.changePercent}%` : '—'}</td>
+      </tr>
+    `;
+  }
+
+  thresholdsHTML += `
+      </tbody>
+    </table>
+  `;
+
+  // Generate two-variable grid HTML
+  let gridHTML = '';
+
+  if (grid) {
+    gridHTML = `
+      <p class="description">${t('grid_description')}</p>
+      <table class="matrix-table">
+        <thead>
+          <tr>
+            <th></th>
+            ${grid.variations.map(v => `<th class="${v === 0 ? 'base-case' : ''}">${v > 0 ? '+' : ''}${v}%</th>`).join('')}
+          </tr>
+        </thead>
+        <tbody>
+    `;
+
+    grid.values.forEach((row, rowIndex) => {
+      const rowVariation = grid.variations[rowIndex];
+      gridHTML += `<tr><td class="variable-name">${rowVariation > 0 ? '+' : ''}${rowVariation}%</td>`;
+      row.forEach((value, columnIndex) => {
+        const isBase = rowVariation === 0 && grid.variations[columnIndex] === 0;
+        gridHTML += `<td class="${isBase ? 'base-case' : ''}">${formatSensitivityValue(value, format, project.currency)}</td>`;
+      });
+      gridHTML += '</tr>';
+    });
+
+    gridHTML += `
+        </tbody>
+      </table>
+    `;
+  }
+
   // Generate recommendations HTML
   let recommendationsHTML = '<div class="recommendations">';
 
@@ -548,6 +682,15 @@ function generateSensitivityHTML(
   <h2>${t('tornado_title')}</h2>
   ${tornadoHTML}
 
+  <h2>${t('thresholds_title')}</h2>
+  <div class="description">
+    ${t('thresholds_description')}
+  </div>
+  ${thresholdsHTML}
+
+  ${grid ? `<h2>${t('grid_title')}</h2>
+  ${gridHTML}` : ''}
+
   <h2>${t('recommendations_title')}</h2>
   ${recommendationsHTML}
 
@@ -587,7 +730,7 @@ export async function generateSensitivityPDF(
 export async function shareSensitivityPDF(
   filePath: string,
   project: ProjectData,
-  metric: 'npv' | 'roi',
+  metric: SensitivityMetric,
   language: 'es' | 'en'
 ): Promise<void> {
   if (Platform.OS === 'web') {
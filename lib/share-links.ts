@@ -1,41 +1,30 @@
 import type { ProjectData } from '@/types/project';
 
 /**
- * Generates a shareable link for a project
- * The project data is encoded in base64 and included in the URL
+ * Length of server-issued share tokens (12 random bytes, base64url)
  */
-export function generateShareableLink(project: ProjectData): string {
-  try {
-    // Create a compact version of the project data
-    const shareData = {
-      n: project.name,
-      ii: project.initialInvestment,
-      dr: project.discountRate,
-      pd: project.projectDuration,
-      yr: project.yearlyRevenue,
-      rg: project.revenueGrowth,
-      oc: project.operatingCosts,
-      mc: project.maintenanceCosts,
-      bcm: project.bestCaseMultiplier,
-      wcm: project.worstCaseMultiplier,
-      r: project.results,
-    };
+export const SHARE_TOKEN_LENGTH = 16;
 
-    // Encode to base64
-    const jsonString = JSON.stringify(shareData);
-    const base64 = btoa(encodeURIComponent(jsonString));
+const SHARE_TOKEN_PATTERN = /^[A-Za-z0-9_-]{16}$/;
 
-    // Generate shareable URL
-    const baseUrl = typeof window !== 'undefined' ? window.location.origin : '';
-    return `${baseUrl}/shared/${base64}`;
-  } catch (error) {
-    console.error('Error generating shareable link:', error);
-    throw new Error('Failed to generate shareable link');
-  }
+/**
+ * Whether a share id is a server-issued token rather than a legacy base64 payload
+ */
+export function isShareToken(shareId: string): boolean {
+  return SHARE_TOKEN_PATTERN.test(shareId);
+}
+
+/**
+ * Builds the public URL for a share token
+ */
+export function buildShareUrl(token: string): string {
+  const baseUrl = typeof window !== 'undefined' && window.location ? window.location.origin : '';
+  return `${baseUrl}/shared/${token}`;
 }
 
 /**
- * Decodes a shared project from a share ID (base64 encoded data)
+ * Decodes a legacy shared project from a share ID (base64 encoded data)
+ * Kept so links generated before server-side share links keep opening
  */
 export function decodeSharedProject(shareId: string): ProjectData | null {
   try {
@@ -15,6 +15,12 @@ export const BUSINESS_TEMPLATES: BusinessTemplate[] = [
             pricePerUnit: 15,          // Average ticket
             variableCostPerUnit: 5.25, // ~35% food cost
             desiredMargin: 65,
+            products: [
+                { name: 'Plato principal', pricePerUnit: 18, variableCostPerUnit: 6.3, mixShare: 40 },
+                { name: 'Entrante', pricePerUnit: 9, variableCostPerUnit: 2.7, mixShare: 20 },
+                { name: 'Postre', pricePerUnit: 7, variableCostPerUnit: 1.75, mixShare: 15 },
+                { name: 'Bebida', pricePerUnit: 4, variableCostPerUnit: 0.8, mixShare: 25 },
+            ],
         },
         benchmarks: {
             grossMargin: { min: 55, max: 75, optimal: 65 },
@@ -72,6 +78,11 @@ export const BUSINESS_TEMPLATES: BusinessTemplate[] = [
             pricePerUnit: 30,          // Average sale
             variableCostPerUnit: 18,   // ~60% COGS
             desiredMargin: 40,
+            products: [
+                { name: 'Producto estrella', pricePerUnit: 45, variableCostPerUnit: 27, mixShare: 30 },
+                { name: 'Básicos', pricePerUnit: 20, variableCostPerUnit: 13, mixShare: 50 },
+                { name: 'Accesorios', pricePerUnit: 12, variableCostPerUnit: 4.8, mixShare: 20 },
+            ],
         },
         benchmarks: {
             grossMargin: { min: 30, max: 50, optimal: 40 },
@@ -127,11 +138,13 @@ export function getTemplatesByIndustry(
  * 
  * @param templateId - Template ID to apply
  * @param overrides - Custom values to override template defaults
+ * @param options.salesMix - Include the template's product list, when it has one
  * @returns Complete BreakEvenInput
  */
 export function applyBreakEvenTemplate(
     templateId: string,
-    overrides?: Partial<BreakEvenInput>
+    overrides?: Partial<BreakEvenInput>,
+    options: { salesMix?: boolean } = {}
 ): BreakEvenInput {
     const template = getBusinessTemplate(templateId);
 
@@ -139,10 +152,13 @@ export function applyBreakEvenTemplate(
         throw new Error(`Template not found: ${templateId}`);
     }
 
+    const products = options.salesMix ? template.defaultInputs.products : undefined;
+
     return {
         fixedCosts: template.defaultInputs.fixedCosts || 10000,
         pricePerUnit: template.defaultInputs.pricePerUnit || 50,
         variableCostPerUnit: template.defaultInputs.variableCostPerUnit || 25,
+        ...(products ? { products: products.map((product) => ({ ...product })) } : {}),
         ...overrides,
     };
 }
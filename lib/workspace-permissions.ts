@@ -0,0 +1,78 @@
+import type { WorkspaceRole } from '@/types/project';
+
+/**
+ * Actions on a project, each implying the ones before it
+ * - view: read the project, its scenarios, versions and actuals
+ * - comment: discuss the project without changing it
+ * - edit: change inputs, scenarios and actuals, restore versions
+ * - manage: delete, move between workspaces and issue share links
+ */
+export type ProjectPermission = 'view' | 'comment' | 'edit' | 'manage';
+
+export const WORKSPACE_ROLES: WorkspaceRole[] = ['owner', 'editor', 'commenter', 'viewer'];
+
+const ROLE_PERMISSIONS: Record<WorkspaceRole, ProjectPermission[]> = {
+  owner: ['view', 'comment', 'edit', 'manage'],
+  editor: ['view', 'comment', 'edit'],
+  commenter: ['view', 'comment'],
+  viewer: ['view'],
+};
+
+export function isWorkspaceRole(value: string): value is WorkspaceRole {
+  return (WORKSPACE_ROLES as string[]).includes(value);
+}
+
+/**
+ * Whether a role grants a permission; no role (not a member) grants nothing
+ */
+export function roleAllows(role: WorkspaceRole | null | undefined, permission: ProjectPermission): boolean {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/**
+ * Role a user holds on a project: creators own their personal projects,
+ * workspace projects follow the workspace membership
+ */
+export function resolveProjectRole(
+  project: { userId: number; workspaceId: string | null },
+  userId: number,
+  membershipRole: WorkspaceRole | null
+): WorkspaceRole | null {
+  if (project.workspaceId) {
+    return membershipRole;
+  }
+  return project.userId === userId ? 'owner' : null;
+}
+
+/**
+ * Whether removing or demoting a member would leave the workspace without an owner
+ */
+export function wouldOrphanWorkspace(
+  members: { userId: number; role: WorkspaceRole }[],
+  userId: number,
+  nextRole: WorkspaceRole | null
+): boolean {
+  if (nextRole === 'owner') return false;
+  const target = members.find((member) => member.userId === userId);
+  if (target?.role !== 'owner') return false;
+  return members.filter((member) => member.role === 'owner').length <= 1;
+}
+
+export type InvitationStatus = 'pending' | 'accepted' | 'revoked' | 'expired';
+
+export function invitationStatus(
+  invitation: { acceptedAt: Date | string | null; revokedAt: Date | string | null; expiresAt: Date | string },
+  now: Date = new Date()
+): InvitationStatus {
+  if (invitation.acceptedAt) return 'accepted';
+  if (invitation.revokedAt) return 'revoked';
+  if (new Date(invitation.expiresAt).getTime() <= now.getTime()) return 'expired';
+  return 'pending';
+}
+
+/**
+ * Role to enforce in the UI; projects without one are personal or stored locally and owned by the user
+ */
+export function projectRole(project: { accessRole?: WorkspaceRole }): WorkspaceRole {
+  return project.accessRole ?? 'owner';
+}
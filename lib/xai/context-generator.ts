@@ -4,6 +4,7 @@ import type {
   MetricThresholds,
   PerformanceLevel,
 } from './types';
+import type { IRRStatus } from '../../types/project';
 
 /**
  * Default configuration for context generation
@@ -360,6 +361,34 @@ export function generateFinancialMetricsContext(
   };
 }
 
+/**
+ * Warnings explaining why an IRR may be unreliable
+ */
+export function generateIRRWarnings(status: IRRStatus, signChanges: number): string[] {
+  const warnings: string[] = [];
+
+  switch (status) {
+    case 'no_sign_change':
+      warnings.push('IRR undefined - cash flows never change sign');
+      break;
+    case 'no_root':
+      warnings.push('IRR not found - NPV does not reach zero for any rate between -99% and 1000%');
+      break;
+    case 'not_converged':
+      warnings.push('IRR solver did not converge - treat the reported IRR as unreliable');
+      break;
+    case 'multiple_roots':
+      warnings.push('Multiple IRRs found - rank the project by NPV or MIRR instead');
+      break;
+  }
+
+  if (signChanges > 1 && status === 'converged') {
+    warnings.push(`Non-conventional cash flows (${signChanges} sign changes) - more than one IRR may exist`);
+  }
+
+  return warnings;
+}
+
 function generateInterpretation(
   value: number,
   level: PerformanceLevel,
@@ -12,4 +12,5 @@ export {
   generateTechDebtContext,
   generateSustainabilityContext,
   generateFinancialMetricsContext,
+  generateIRRWarnings,
 } from './context-generator';
@@ -6,6 +6,7 @@ import { createExpressMiddleware } from "@trpc/server/adapters/express";
 import { registerOAuthRoutes } from "./oauth";
 import { appRouter } from "../routers";
 import { createContext } from "./context";
+import { startRecalculationJob } from "../services/project-recalculation";
 import path from "path";
 import { fileURLToPath } from "url";
 import fs from "fs";
@@ -120,6 +121,7 @@ async function startServer() {
 
   server.listen(port, () => {
     console.log(`[api] server listening on port ${port}`);
+    startRecalculationJob();
   });
 }
 
@@ -3,6 +3,10 @@ import { getSessionCookieOptions } from "./_core/cookies";
 import { systemRouter } from "./_core/systemRouter";
 import { publicProcedure, router } from "./_core/trpc";
 import { projectsRouter } from "./routers/projects";
+import { portfolioRouter } from "./routers/portfolio";
+import { shareLinksRouter } from "./routers/share-links";
+import { workspacesRouter } from "./routers/workspaces";
+import { commentsRouter } from "./routers/comments";
 
 export const appRouter = router({
   // if you need to use socket.io, read and register route in server/_core/index.ts, all api should start with '/api/' so that the gateway can route correctly
@@ -21,6 +25,18 @@ export const appRouter = router({
   // Projects API
   projects: projectsRouter,
 
+  // Portfolio optimization
+  portfolio: portfolioRouter,
+
+  // Read-only share links
+  shareLinks: shareLinksRouter,
+
+  // Team workspaces, memberships and invitations
+  workspaces: workspacesRouter,
+
+  // Threaded comments on projects, inputs, scenarios and metrics
+  comments: commentsRouter,
+
   // TODO: add feature routers here, e.g.
   // todo: router({
   //   list: protectedProcedure.query(({ ctx }) =>
@@ -0,0 +1,233 @@
+import { router, protectedProcedure } from '../_core/trpc';
+import { z } from 'zod';
+import { projectComments, scenarios, workspaceMembers } from '../../shared/db/schema';
+import type { Project, ProjectCommentRow } from '../../shared/db/schema';
+import { users } from '../../drizzle/schema';
+import { db } from '../../shared/db';
+import { and, asc, eq, inArray, or } from 'drizzle-orm';
+import { randomUUID } from 'crypto';
+import type { CommentAnchor, CommentAnchorType, MentionableUser, ProjectComment } from '../../types/project';
+import { COMMENT_ANCHOR_TYPES, extractMentions, isValidCommentAnchor } from '../../lib/project-comments';
+import { roleAllows } from '../../lib/workspace-permissions';
+import { requireProjectPermission } from '../services/workspace-access';
+
+const anchorSchema = z.object({
+  type: z.enum(COMMENT_ANCHOR_TYPES as [CommentAnchorType, ...CommentAnchorType[]]),
+  key: z.string().min(1).max(64).nullable(),
+});
+
+const bodySchema = z.string().trim().min(1).max(4000);
+
+function toProjectComment(row: ProjectCommentRow, authorName: string | null): ProjectComment {
+  return {
+    id: row.id,
+    projectId: row.projectId,
+    parentId: row.parentId ?? null,
+    anchor: { type: row.anchorType as CommentAnchorType, key: row.anchorKey ?? null },
+    authorId: row.authorId,
+    authorName,
+    body: row.body,
+    mentions: row.mentions ?? [],
+    resolvedAt: row.resolvedAt?.toISOString() ?? null,
+    createdAt: row.createdAt?.toISOString() ?? new Date().toISOString(),
+    updatedAt: row.updatedAt?.toISOString() ?? new Date().toISOString(),
+  };
+}
+
+async function getUserNames(userIds: number[]): Promise<Map<number, string | null>> {
+  if (userIds.length === 0) return new Map();
+  const profiles: { id: number; name: string | null; email: string | null }[] = await db
+    .select({ id: users.id, name: users.name, email: users.email })
+    .from(users)
+    .where(inArray(users.id, [...new Set(userIds)]));
+  return new Map(profiles.map((profile) => [profile.id, profile.name ?? profile.email ?? null]));
+}
+
+/**
+ * Users who can be @mentioned on a project: the workspace members, or the creator of a personal project
+ */
+async function getMentionableUsers(project: Project): Promise<MentionableUser[]> {
+  const userIds: number[] = project.workspaceId
+    ? (await db
+      .select({ userId: workspaceMembers.userId })
+      .from(workspaceMembers)
+      .where(eq(workspaceMembers.workspaceId, project.workspaceId)))
+      .map((member: { userId: number }) => member.userId)
+    : [project.userId];
+
+  const profiles: { id: number; name: string | null; email: string | null }[] = userIds.length > 0
+    ? await db
+      .select({ id: users.id, name: users.name, email: users.email })
+      .from(users)
+      .where(inArray(users.id, userIds))
+    : [];
+
+  return profiles.map((profile) => ({ userId: profile.id, name: profile.name, email: profile.email }));
+}
+
+async function getComment(id: string): Promise<ProjectCommentRow> {
+  const [comment] = await db
+    .select()
+    .from(projectComments)
+    .where(eq(projectComments.id, id))
+    .limit(1);
+
+  if (!comment) {
+    throw new Error('Comment not found');
+  }
+  return comment;
+}
+
+async function loadComment(id: string): Promise<ProjectComment> {
+  const row = await getComment(id);
+  const names = await getUserNames([row.authorId]);
+  return toProjectComment(row, names.get(row.authorId) ?? null);
+}
+
+/**
+ * Reject anchors that name an unknown input or metric, or a scenario of another project
+ */
+async function assertAnchor(projectId: string, anchor: CommentAnchor): Promise<void> {
+  if (!isValidCommentAnchor(anchor)) {
+    throw new Error('Invalid comment anchor');
+  }
+  if (anchor.type === 'scenario') {
+    const [scenario] = await db
+      .select({ id: scenarios.id })
+      .from(scenarios)
+      .where(and(eq(scenarios.id, anchor.key!), eq(scenarios.projectId, projectId)))
+      .limit(1);
+    if (!scenario) {
+      throw new Error('Scenario not found');
+    }
+  }
+}
+
+export const commentsRouter = router({
+  // All comments on a project, oldest first; the client groups them into threads
+  list: protectedProcedure
+    .input(z.object({ projectId: z.string().uuid() }))
+    .query(async ({ input, ctx }): Promise<ProjectComment[]> => {
+      await requireProjectPermission(input.projectId, ctx.user.id, 'view');
+
+      const rows: ProjectCommentRow[] = await db
+        .select()
+        .from(projectComments)
+        .where(eq(projectComments.projectId, input.projectId))
+        .orderBy(asc(projectComments.createdAt));
+
+      const names = await getUserNames(rows.map((row) => row.authorId));
+      return rows.map((row) => toProjectComment(row, names.get(row.authorId) ?? null));
+    }),
+
+  mentionable: protectedProcedure
+    .input(z.object({ projectId: z.string().uuid() }))
+    .query(async ({ input, ctx }) => {
+      const { project } = await requireProjectPermission(input.projectId, ctx.user.id, 'view');
+      return await getMentionableUsers(project);
+    }),
+
+  // Start a thread on an anchor, or reply to one; replies inherit the anchor of their thread
+  create: protectedProcedure
+    .input(z.object({
+      projectId: z.string().uuid(),
+      anchor: anchorSchema.default({ type: 'project', key: null }),
+      parentId: z.string().uuid().optional(),
+      body: bodySchema,
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const { project } = await requireProjectPermission(input.projectId, ctx.user.id, 'comment');
+
+      let anchor: CommentAnchor = input.anchor;
+      if (input.parentId) {
+        const parent = await getComment(input.parentId);
+        if (parent.projectId !== input.projectId) {
+          throw new Error('Comment not found');
+        }
+        if (parent.parentId) {
+          throw new Error('Replies must target the first comment of a thread');
+        }
+        anchor = { type: parent.anchorType as CommentAnchorType, key: parent.anchorKey ?? null };
+      } else {
+        await assertAnchor(input.projectId, anchor);
+      }
+
+      const id = randomUUID();
+      await db.insert(projectComments).values({
+        id,
+        projectId: input.projectId,
+        parentId: input.parentId ?? null,
+        anchorType: anchor.type,
+        anchorKey: anchor.key,
+        authorId: ctx.user.id,
+        body: input.body,
+        mentions: extractMentions(input.body, await getMentionableUsers(project)),
+      });
+
+      return await loadComment(id);
+    }),
+
+  // Authors edit their own comments; mentions are recomputed from the new text
+  update: protectedProcedure
+    .input(z.object({
+      id: z.string().uuid(),
+      body: bodySchema,
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const comment = await getComment(input.id);
+      const { project } = await requireProjectPermission(comment.projectId, ctx.user.id, 'comment');
+      if (comment.authorId !== ctx.user.id) {
+        throw new Error('Insufficient permissions');
+      }
+
+      await db
+        .update(projectComments)
+        .set({
+          body: input.body,
+          mentions: extractMentions(input.body, await getMentionableUsers(project)),
+        })
+        .where(eq(projectComments.id, input.id));
+
+      return await loadComment(input.id);
+    }),
+
+  // Authors delete their own comments, owners any; deleting the first comment removes the whole thread
+  delete: protectedProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ input, ctx }) => {
+      const comment = await getComment(input.id);
+      const { role } = await requireProjectPermission(comment.projectId, ctx.user.id, 'view');
+      if (comment.authorId !== ctx.user.id && !roleAllows(role, 'manage')) {
+        throw new Error('Insufficient permissions');
+      }
+
+      await db
+        .delete(projectComments)
+        .where(or(eq(projectComments.id, input.id), eq(projectComments.parentId, input.id)));
+
+      return { success: true };
+    }),
+
+  // Resolve or reopen a thread
+  setResolved: protectedProcedure
+    .input(z.object({
+      id: z.string().uuid(),
+      resolved: z.boolean(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const comment = await getComment(input.id);
+      await requireProjectPermission(comment.projectId, ctx.user.id, 'comment');
+      if (comment.parentId) {
+        throw new Error('Only threads can be resolved');
+      }
+
+      await db
+        .update(projectComments)
+        .set(input.resolved
+          ? { resolvedAt: new Date(), resolvedBy: ctx.user.id }
+          : { resolvedAt: null, resolvedBy: null })
+        .where(eq(projectComments.id, input.id));
+
+      return await loadComment(input.id);
+    }),
+});
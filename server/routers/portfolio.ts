@@ -0,0 +1,69 @@
+import { router, protectedProcedure } from '../_core/trpc';
+import { z } from 'zod';
+import type { Project } from '../../shared/db/schema';
+import type { BusinessModel, LineItemModel, ProjectData, ProjectResults } from '../../types/project';
+import { Currency } from '../../lib/domain/value-objects/Money';
+import { CalculationService } from '../../lib/application/services/CalculationService';
+import { listAccessibleProjects } from '../services/workspace-access';
+import { getLineItemsForProjects } from '../services/project-recalculation';
+
+const businessModelSchema = z.enum(['standard', 'saas', 'ecommerce', 'manufacturing']);
+
+const portfolioConstraintsSchema = z.object({
+  mandatory: z.array(z.string()).optional(),
+  mutuallyExclusive: z.array(z.tuple([z.string(), z.string()])).optional(),
+  maxPerBusinessModel: z.partialRecord(businessModelSchema, z.number().int().min(0)).optional(),
+});
+
+/**
+ * Only the fields the optimizer reads; the rest of the project is not needed here.
+ * Line items carry the upfront capex that replaces the initial investment.
+ */
+function toProjectData(row: Project, lineItems?: LineItemModel): ProjectData {
+  return {
+    id: row.id,
+    name: row.name,
+    createdAt: row.createdAt?.toISOString() ?? new Date().toISOString(),
+    updatedAt: row.updatedAt?.toISOString() ?? new Date().toISOString(),
+    initialInvestment: row.initialInvestment,
+    discountRate: row.discountRate,
+    projectDuration: row.projectDuration,
+    yearlyRevenue: row.yearlyRevenue,
+    revenueGrowth: row.revenueGrowth,
+    operatingCosts: row.operatingCosts,
+    maintenanceCosts: row.maintenanceCosts,
+    bestCaseMultiplier: Number(row.bestCaseMultiplier),
+    worstCaseMultiplier: Number(row.worstCaseMultiplier),
+    currency: row.currency as Currency,
+    businessModel: (row.businessModel ?? 'standard') as BusinessModel,
+    results: (row.results ?? undefined) as ProjectResults | undefined,
+    lineItems,
+  };
+}
+
+export const portfolioRouter = router({
+  // Select the projects to fund within a capital budget and trace the NPV/risk frontier,
+  // across personal projects and those of the user's workspaces
+  optimize: protectedProcedure
+    .input(z.object({
+      budget: z.number().nonnegative(),
+      currency: z.enum(Currency),
+      constraints: portfolioConstraintsSchema.default({}),
+    }))
+    .query(async ({ input, ctx }) => {
+      const rows = await listAccessibleProjects(ctx.user.id);
+      const lineItems = await getLineItemsForProjects(rows.map((row: Project) => row.id));
+
+      try {
+        return await new CalculationService().optimizePortfolio(
+          rows.map((row: Project) => toProjectData(row, lineItems.get(row.id))),
+          input.budget,
+          input.constraints,
+          input.currency
+        );
+      } catch (error) {
+        console.error('Error optimizing portfolio:', error);
+        throw new Error(`Failed to optimize portfolio: ${error instanceof Error ? error.message : 'Calculation error'}`);
+      }
+    }),
+});
@@ -1,10 +1,165 @@
 import { router, protectedProcedure } from '../_core/trpc';
 import { z } from 'zod';
-import { projects, scenarios } from '../../shared/db/schema';
+import { projects, scenarios, revenueStreams, costLines, capexTranches, projectVersions, projectActuals, shareLinks, projectComments } from '../../shared/db/schema';
+import type { Project, ProjectVersionRow, ProjectActualRow } from '../../shared/db/schema';
 import { db } from '../../shared/db';
-import { eq, and, desc } from 'drizzle-orm';
+import { eq, and, desc, asc, inArray } from 'drizzle-orm';
 import { randomUUID } from 'crypto';
+import type { LineItemModel, MonthlyActual, ProjectData, ProjectVersion, ProjectVersionSnapshot } from '../../types/project';
+import { Currency } from '../../lib/domain/value-objects/Money';
+import { diffVersionSnapshots } from '../../lib/project-versions';
+import { CalculationService, CALCULATOR_VERSION } from '../../lib/application/services/CalculationService';
+import { roleAllows } from '../../lib/workspace-permissions';
+import type { ProjectPermission } from '../../lib/workspace-permissions';
+import { requireProjectPermission, requireWorkspacePermission, listAccessibleProjects } from '../services/workspace-access';
+import { calculateProject, getLineItems, getLineItemsForProjects, projectDataFromRow, saveScenarioResults } from '../services/project-recalculation';
+import type { DbExecutor } from '../services/project-recalculation';
+import type { User } from '../../drizzle/schema';
 
+const lineItemPeriodSchema = {
+  startMonth: z.number().int().min(1).max(600),
+  endMonth: z.number().int().min(1).max(600).optional(),
+  growthRate: z.number().min(-100).max(1000),
+  behavior: z.enum(['fixed', 'variable']),
+};
+
+const lineItemsSchema = z.object({
+  revenueStreams: z.array(z.object({
+    id: z.string(),
+    name: z.string().min(1).max(255),
+    monthlyAmount: z.number().nonnegative(),
+    ...lineItemPeriodSchema,
+  })),
+  costLines: z.array(z.object({
+    id: z.string(),
+    name: z.string().min(1).max(255),
+    amount: z.number().nonnegative(),
+    ...lineItemPeriodSchema,
+  }).refine((line) => line.behavior === 'fixed' || line.amount <= 100, {
+    message: 'Variable cost lines are a percentage of revenue between 0 and 100',
+    path: ['amount'],
+  })),
+  capexTranches: z.array(z.object({
+    id: z.string(),
+    name: z.string().min(1).max(255),
+    amount: z.number().nonnegative(),
+    month: z.number().int().min(0).max(600),
+  })),
+});
+
+const fiscalAssumptionsSchema = z.object({
+  taxRate: z.number().min(0).max(100),
+  depreciationMethod: z.enum(['straight_line', 'declining_balance', 'custom']),
+  usefulLifeYears: z.number().min(1).max(50),
+  decliningBalanceFactor: z.number().min(1).max(4).optional(),
+  customDepreciationSchedule: z.array(z.number().min(0).max(100)).max(50).optional(),
+  lossCarryForward: z.boolean(),
+  daysReceivable: z.number().min(0).max(365),
+  daysPayable: z.number().min(0).max(365),
+  daysInventory: z.number().min(0).max(365),
+  terminalValueMethod: z.enum(['none', 'gordon_growth', 'exit_multiple']),
+  terminalGrowthRate: z.number().min(-100).max(100).optional(),
+  exitMultiple: z.number().min(0).max(100).optional(),
+});
+
+const inflationSchema = z.object({
+  annualRate: z.number().min(-50).max(1000),
+  curve: z.array(z.number().min(-50).max(1000)).max(50).optional(),
+  applyToRevenue: z.boolean(),
+  applyToOperatingCosts: z.boolean(),
+  applyToMaintenanceCosts: z.boolean(),
+});
+
+const vanguardInputSchema = z.object({
+  manualProcessHoursPerWeek: z.number().min(0).max(168),
+  averageHourlyCost: z.number().nonnegative(),
+  automationPotential: z.number().min(0).max(100),
+  maintenanceHoursPerSprint: z.number().nonnegative(),
+  totalDevHoursPerSprint: z.number().positive(),
+  devTeamAnnualCost: z.number().positive(),
+  incidentCostPerMonth: z.number().nonnegative(),
+  currentRevenue: z.number().nonnegative(),
+  previousRevenue: z.number().nonnegative(),
+  currentBurnRate: z.number().nonnegative(),
+  previousBurnRate: z.number().nonnegative(),
+});
+
+const saasInputSchema = z.object({
+  averageRevenuePerUser: z.number().nonnegative(),
+  churnRate: z.number().min(0).max(100),
+  cacCost: z.number().nonnegative(),
+  grossMargin: z.number().min(0).max(100),
+  startingMRR: z.number().nonnegative(),
+  expansionMRR: z.number().nonnegative(),
+  churnedMRR: z.number().nonnegative(),
+  contractedMRR: z.number().nonnegative(),
+  revenueGrowthRate: z.number().min(-100).max(1000),
+  profitMargin: z.number().min(-100).max(100),
+  monthlyAcquisitionSpend: z.number().nonnegative().optional(),
+});
+
+const riskInputSchema = z.object({
+  currentCash: z.number(),
+  monthlyBurnRate: z.number().nonnegative(),
+  plannedFundraising: z.number().nonnegative().optional(),
+  monthlyChurnRate: z.number().min(0).max(100),
+  currentMRR: z.number().nonnegative(),
+  averageContractValue: z.number().nonnegative(),
+  fundraisingRounds: z.array(z.object({
+    name: z.string().min(1).max(255),
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+    amount: z.number().nonnegative(),
+    preMoneyValuation: z.number().positive(),
+  })).optional(),
+  capTable: z.array(z.object({
+    holder: z.string().min(1).max(255),
+    kind: z.enum(['founder', 'investor', 'employee']),
+    ownership: z.number().min(0).max(100),
+  })).optional(),
+  burnScenarios: z.array(z.object({
+    name: z.string().min(1).max(255),
+    monthlyBurnRate: z.number().nonnegative(),
+  })).optional(),
+  minimumRunwayMonths: z.number().min(0).max(120).optional(),
+  asOfDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+});
+
+// Saved simulations run synchronously on every save, so the server keeps them short
+const MAX_SERVER_MONTE_CARLO_ITERATIONS = 2000;
+
+const inputDistributionSchema = z.object({
+  type: z.enum(['normal', 'lognormal', 'triangular', 'uniform']),
+  mean: z.number().optional(),
+  stdDev: z.number().nonnegative().optional(),
+  min: z.number().optional(),
+  mode: z.number().optional(),
+  max: z.number().optional(),
+});
+
+const monteCarloConfigSchema = z.object({
+  iterations: z.number().int().min(1).max(MAX_SERVER_MONTE_CARLO_ITERATIONS),
+  seed: z.number().int(),
+  distributions: z.object({
+    yearlyRevenue: inputDistributionSchema.optional(),
+    revenueGrowth: inputDistributionSchema.optional(),
+    operatingCosts: inputDistributionSchema.optional(),
+    discountRate: inputDistributionSchema.optional(),
+    initialInvestment: inputDistributionSchema.optional(),
+    revenueMultiplier: inputDistributionSchema.optional(),
+    costMultiplier: inputDistributionSchema.optional(),
+  }).strict(),
+  histogramBins: z.number().int().min(1).max(200).optional(),
+});
+
+const monthlyActualSchema = z.object({
+  month: z.number().int().min(1).max(600),
+  revenue: z.number(),
+  operatingCosts: z.number(),
+  maintenanceCosts: z.number(),
+  capex: z.number(),
+});
+
+// Results are not accepted from clients: the server recomputes them on every save
 const projectInputSchema = z.object({
   name: z.string().min(1).max(255),
   description: z.string().optional(),
@@ -12,38 +167,319 @@ const projectInputSchema = z.object({
   yearlyRevenue: z.number().nonnegative(),
   operatingCosts: z.number().nonnegative(),
   maintenanceCosts: z.number().nonnegative(),
-  projectDuration: z.number().int().positive(),
-  discountRate: z.number().nonnegative(),
-  revenueGrowth: z.number(),
+  projectDuration: z.number().int().min(1).max(600),
+  discountRate: z.number().min(0).max(100),
+  currency: z.enum(Currency).optional(),
+  revenueGrowth: z.number().min(-100).max(1000),
   bestCaseMultiplier: z.number().nonnegative(),
   worstCaseMultiplier: z.number().nonnegative(),
-  results: z.any().optional(),
-  vanguardInput: z.any().optional(),
-  saasInput: z.any().optional(),
-  riskInput: z.any().optional(),
+  financeRate: z.number().min(0).max(100).nullable().optional(),
+  reinvestmentRate: z.number().min(0).max(100).nullable().optional(),
+  vanguardInput: vanguardInputSchema.nullable().optional(),
+  saasInput: saasInputSchema.nullable().optional(),
+  riskInput: riskInputSchema.nullable().optional(),
+  monteCarloConfig: monteCarloConfigSchema.nullable().optional(),
+  fiscalAssumptions: fiscalAssumptionsSchema.nullable().optional(),
+  inflation: inflationSchema.nullable().optional(),
+  valuationBasis: z.enum(['nominal', 'real']).nullable().optional(),
+  lineItems: lineItemsSchema.optional(),
   businessModel: z.enum(['standard', 'saas', 'ecommerce', 'manufacturing']).optional(),
 });
 
+type ProjectInput = z.infer<typeof projectInputSchema>;
+
+/**
+ * A project's inputs once the submitted fields are applied, so results can be computed
+ * before anything is written. Absent fields keep their saved value; null clears an optional field.
+ */
+function applyProjectInput(
+  base: Partial<ProjectData>,
+  data: Omit<Partial<ProjectInput>, 'lineItems'>,
+  lineItems: LineItemModel
+): ProjectData {
+  const submitted = Object.fromEntries(
+    Object.entries(data)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => [key, value ?? undefined])
+  );
+  return { ...base, ...submitted, lineItems } as ProjectData;
+}
+
+async function deleteLineItems(projectId: string, executor: DbExecutor = db): Promise<void> {
+  await executor.delete(revenueStreams).where(eq(revenueStreams.projectId, projectId));
+  await executor.delete(costLines).where(eq(costLines.projectId, projectId));
+  await executor.delete(capexTranches).where(eq(capexTranches.projectId, projectId));
+}
+
+/**
+ * Replace all line items of a project with the given set
+ */
+async function replaceLineItems(projectId: string, lineItems: LineItemModel, executor: DbExecutor = db): Promise<void> {
+  await deleteLineItems(projectId, executor);
+
+  if (lineItems.revenueStreams.length > 0) {
+    await executor.insert(revenueStreams).values(lineItems.revenueStreams.map((stream, index) => ({
+      id: randomUUID(),
+      projectId,
+      name: stream.name,
+      monthlyAmount: stream.monthlyAmount.toString(),
+      startMonth: stream.startMonth,
+      endMonth: stream.endMonth ?? null,
+      growthRate: stream.growthRate.toString(),
+      behavior: stream.behavior,
+      sortOrder: index,
+    })));
+  }
+
+  if (lineItems.costLines.length > 0) {
+    await executor.insert(costLines).values(lineItems.costLines.map((line, index) => ({
+      id: randomUUID(),
+      projectId,
+      name: line.name,
+      amount: line.amount.toString(),
+      startMonth: line.startMonth,
+      endMonth: line.endMonth ?? null,
+      growthRate: line.growthRate.toString(),
+      behavior: line.behavior,
+      sortOrder: index,
+    })));
+  }
+
+  if (lineItems.capexTranches.length > 0) {
+    await executor.insert(capexTranches).values(lineItems.capexTranches.map((tranche, index) => ({
+      id: randomUUID(),
+      projectId,
+      name: tranche.name,
+      amount: tranche.amount.toString(),
+      month: tranche.month,
+      sortOrder: index,
+    })));
+  }
+}
+
+/**
+ * Inputs and results of a saved project row, with numeric columns as numbers
+ */
+function snapshotFromRow(row: Project, lineItems: LineItemModel): ProjectVersionSnapshot {
+  const { id, createdAt, updatedAt, ...snapshot } = projectDataFromRow(row, lineItems);
+  return snapshot;
+}
+
+/**
+ * Column values that put a project back to a snapshot; absent optional fields are cleared.
+ * Results are left out because they are recomputed with the current engine.
+ */
+function rowFromSnapshot(snapshot: ProjectVersionSnapshot) {
+  return {
+    name: snapshot.name,
+    description: snapshot.description ?? null,
+    initialInvestment: snapshot.initialInvestment,
+    yearlyRevenue: snapshot.yearlyRevenue,
+    operatingCosts: snapshot.operatingCosts,
+    maintenanceCosts: snapshot.maintenanceCosts,
+    projectDuration: snapshot.projectDuration,
+    discountRate: snapshot.discountRate,
+    currency: snapshot.currency ?? Currency.USD,
+    revenueGrowth: snapshot.revenueGrowth,
+    bestCaseMultiplier: snapshot.bestCaseMultiplier?.toString(),
+    worstCaseMultiplier: snapshot.worstCaseMultiplier?.toString(),
+    financeRate: snapshot.financeRate?.toString() ?? null,
+    reinvestmentRate: snapshot.reinvestmentRate?.toString() ?? null,
+    vanguardInput: snapshot.vanguardInput ?? null,
+    saasInput: snapshot.saasInput ?? null,
+    riskInput: snapshot.riskInput ?? null,
+    monteCarloConfig: snapshot.monteCarloConfig ?? null,
+    fiscalAssumptions: snapshot.fiscalAssumptions ?? null,
+    inflation: snapshot.inflation ?? null,
+    valuationBasis: snapshot.valuationBasis ?? null,
+    businessModel: snapshot.businessModel ?? 'standard',
+  };
+}
+
+function toProjectVersion(row: ProjectVersionRow): ProjectVersion {
+  return {
+    id: row.id,
+    projectId: row.projectId,
+    version: row.version,
+    authorId: row.authorId,
+    authorName: row.authorName,
+    restoredFromVersion: row.restoredFromVersion,
+    snapshot: row.snapshot,
+    createdAt: row.createdAt?.toISOString() ?? new Date().toISOString(),
+  };
+}
+
+/**
+ * Lock the project row until the transaction ends and read its latest version number,
+ * so concurrent saves append their versions one after another
+ */
+async function lockVersionHistory(
+  projectId: string,
+  executor: DbExecutor
+): Promise<{ row: Project | undefined; latestVersion: number }> {
+  const [row] = await executor
+    .select()
+    .from(projects)
+    .where(eq(projects.id, projectId))
+    .limit(1)
+    .for('update');
+
+  const [latest] = await executor
+    .select({ version: projectVersions.version })
+    .from(projectVersions)
+    .where(eq(projectVersions.projectId, projectId))
+    .orderBy(desc(projectVersions.version))
+    .limit(1);
+
+  return { row, latestVersion: latest?.version ?? 0 };
+}
+
+/**
+ * Append the project's current state to its version history
+ */
+async function recordVersion(
+  projectId: string,
+  author: User,
+  restoredFromVersion?: number,
+  executor: DbExecutor = db
+): Promise<void> {
+  const { row, latestVersion } = await lockVersionHistory(projectId, executor);
+  if (!row) return;
+
+  await executor.insert(projectVersions).values({
+    id: randomUUID(),
+    projectId,
+    version: latestVersion + 1,
+    authorId: author.id,
+    authorName: author.name ?? author.email ?? null,
+    restoredFromVersion: restoredFromVersion ?? null,
+    snapshot: snapshotFromRow(row, await getLineItems(projectId, executor)),
+  });
+}
+
+/**
+ * Keep the state a project had before its first tracked edit: a project saved before
+ * version history existed gets that state recorded as version 1, credited to its owner
+ */
+async function recordBaselineVersion(projectId: string, executor: DbExecutor): Promise<void> {
+  const { row, latestVersion } = await lockVersionHistory(projectId, executor);
+  if (!row || latestVersion > 0) return;
+
+  await executor.insert(projectVersions).values({
+    id: randomUUID(),
+    projectId,
+    version: 1,
+    authorId: row.userId,
+    authorName: null,
+    restoredFromVersion: null,
+    snapshot: snapshotFromRow(row, await getLineItems(projectId, executor)),
+  });
+}
+
+/**
+ * Load the requested versions of a project the user can access with the given permission
+ */
+async function getPermittedVersions(
+  projectId: string,
+  userId: number,
+  permission: ProjectPermission,
+  versions: number[]
+): Promise<ProjectVersion[]> {
+  await requireProjectPermission(projectId, userId, permission);
+
+  const rows = await db
+    .select()
+    .from(projectVersions)
+    .where(and(eq(projectVersions.projectId, projectId), inArray(projectVersions.version, versions)));
+
+  return versions.map((version) => {
+    const row = rows.find((r: ProjectVersionRow) => r.version === version);
+    if (!row) {
+      throw new Error(`Version ${version} not found`);
+    }
+    return toProjectVersion(row);
+  });
+}
+
+function toMonthlyActual(row: ProjectActualRow): MonthlyActual {
+  return {
+    month: row.month,
+    revenue: Number(row.revenue),
+    operatingCosts: Number(row.operatingCosts),
+    maintenanceCosts: Number(row.maintenanceCosts),
+    capex: Number(row.capex),
+  };
+}
+
+/**
+ * Check the user may edit the project and every month falls within its duration
+ */
+async function assertActualsWritable(projectId: string, userId: number, months: number[]): Promise<void> {
+  const { project } = await requireProjectPermission(projectId, userId, 'edit');
+
+  const outside = months.find((month) => month > project.projectDuration);
+  if (outside !== undefined) {
+    throw new Error(`Month ${outside} is outside the project duration of ${project.projectDuration} months`);
+  }
+  if (new Set(months).size !== months.length) {
+    throw new Error('Each month can only be entered once');
+  }
+}
+
+async function insertActuals(projectId: string, actuals: MonthlyActual[], executor: DbExecutor = db): Promise<void> {
+  if (actuals.length === 0) return;
+  await executor.insert(projectActuals).values(actuals.map((actual) => ({
+    id: randomUUID(),
+    projectId,
+    month: actual.month,
+    revenue: actual.revenue.toString(),
+    operatingCosts: actual.operatingCosts.toString(),
+    maintenanceCosts: actual.maintenanceCosts.toString(),
+    capex: actual.capex.toString(),
+  })));
+}
+
 export const projectsRouter = router({
-  // List all projects for authenticated user
+  // List personal projects and those of the user's workspaces, with the user's role on each
   list: protectedProcedure.query(async ({ ctx }) => {
-    return await db
-      .select()
-      .from(projects)
-      .where(eq(projects.userId, ctx.user.id))
-      .orderBy(desc(projects.createdAt));
+    const rows = await listAccessibleProjects(ctx.user.id);
+    const lineItems = await getLineItemsForProjects(rows.map((row) => row.id));
+    return rows.map((row) => ({ ...row, lineItems: lineItems.get(row.id) }));
   }),
 
+  // Create a personal project, or a workspace project for editors and owners
   create: protectedProcedure
-    .input(projectInputSchema)
+    .input(projectInputSchema.extend({ workspaceId: z.string().uuid().optional() }))
     .mutation(async ({ input, ctx }) => {
+      const { lineItems, workspaceId, ...projectData } = input;
+      if (workspaceId) {
+        await requireWorkspacePermission(workspaceId, ctx.user.id, 'edit');
+      }
+
+      const id = randomUUID();
+      const now = new Date().toISOString();
+      // Input the engine rejects fails here, before anything is saved
+      const results = await new CalculationService().calculateProjectResults(applyProjectInput(
+        { id, createdAt: now, updatedAt: now },
+        projectData,
+        lineItems ?? { revenueStreams: [], costLines: [], capexTranches: [] }
+      ));
+
       try {
-        const id = randomUUID();
-        console.log('Creating project with data:', { id, userId: ctx.user.id, ...input });
-        await db.insert(projects).values({
-          id,
-          userId: ctx.user.id,
-          ...input,
+        console.log('Creating project with data:', { id, userId: ctx.user.id, workspaceId, ...projectData });
+        await db.transaction(async (tx: DbExecutor) => {
+          await tx.insert(projects).values({
+            id,
+            userId: ctx.user.id,
+            workspaceId: workspaceId ?? null,
+            ...projectData,
+            results,
+            calculatorVersion: CALCULATOR_VERSION,
+          });
+          if (lineItems) {
+            await replaceLineItems(id, lineItems, tx);
+          }
+          await recordVersion(id, ctx.user, undefined, tx);
         });
         return { id };
       } catch (dbError) {
@@ -56,16 +492,8 @@ export const projectsRouter = router({
   get: protectedProcedure
     .input(z.object({ id: z.string().uuid() }))
     .query(async ({ input, ctx }) => {
-      const [project] = await db
-        .select()
-        .from(projects)
-        .where(and(eq(projects.id, input.id), eq(projects.userId, ctx.user.id)))
-        .limit(1);
-
-      if (!project) {
-        throw new Error('Project not found');
-      }
-      return project;
+      const { project, role } = await requireProjectPermission(input.id, ctx.user.id, 'view');
+      return { ...project, accessRole: role, lineItems: await getLineItems(project.id) };
     }),
 
   // Update project
@@ -75,10 +503,29 @@ export const projectsRouter = router({
       data: projectInputSchema.partial(),
     }))
     .mutation(async ({ input, ctx }) => {
-      await db
-        .update(projects)
-        .set({ ...input.data, updatedAt: new Date() })
-        .where(and(eq(projects.id, input.id), eq(projects.userId, ctx.user.id)));
+      // Verify edit access before recalculating
+      const { project } = await requireProjectPermission(input.id, ctx.user.id, 'edit');
+
+      const { lineItems, ...projectData } = input.data;
+      const nextLineItems = lineItems ?? await getLineItems(input.id);
+      // Compute first so input the engine rejects leaves the saved project untouched
+      const { results, scenarioResults } = await calculateProject(
+        applyProjectInput(projectDataFromRow(project, nextLineItems), projectData, nextLineItems)
+      );
+
+      await db.transaction(async (tx: DbExecutor) => {
+        await recordBaselineVersion(input.id, tx);
+        await tx
+          .update(projects)
+          .set({ ...projectData, results, calculatorVersion: CALCULATOR_VERSION, updatedAt: new Date() })
+          .where(eq(projects.id, input.id));
+
+        if (lineItems) {
+          await replaceLineItems(input.id, lineItems, tx);
+        }
+        await saveScenarioResults(tx, scenarioResults);
+        await recordVersion(input.id, ctx.user, undefined, tx);
+      });
       return { success: true };
     }),
 
@@ -86,58 +533,74 @@ export const projectsRouter = router({
   delete: protectedProcedure
     .input(z.object({ id: z.string().uuid() }))
     .mutation(async ({ input, ctx }) => {
-      // Delete scenarios first (cascade)
+      // Only owners may delete; verify before cascading
+      await requireProjectPermission(input.id, ctx.user.id, 'manage');
+
+      // Delete scenarios, versions, actuals, share links and line items first (cascade)
       await db.delete(scenarios).where(eq(scenarios.projectId, input.id));
+      await db.delete(projectVersions).where(eq(projectVersions.projectId, input.id));
+      await db.delete(projectActuals).where(eq(projectActuals.projectId, input.id));
+      await db.delete(shareLinks).where(eq(shareLinks.projectId, input.id));
+      await db.delete(projectComments).where(eq(projectComments.projectId, input.id));
+      await deleteLineItems(input.id);
 
       // Delete project
       await db
         .delete(projects)
-        .where(and(eq(projects.id, input.id), eq(projects.userId, ctx.user.id)));
+        .where(eq(projects.id, input.id));
 
       return { success: true };
     }),
 
-  // Duplicate project
+  // Duplicate project; the copy stays in the workspace when the user can edit there, otherwise it becomes personal
   duplicate: protectedProcedure
     .input(z.object({ id: z.string().uuid() }))
     .mutation(async ({ input, ctx }) => {
-      const [original] = await db
-        .select()
-        .from(projects)
-        .where(and(eq(projects.id, input.id), eq(projects.userId, ctx.user.id)))
-        .limit(1);
-
-      if (!original) {
-        throw new Error('Project not found');
-      }
+      const { project: original, role } = await requireProjectPermission(input.id, ctx.user.id, 'view');
 
       const newId = randomUUID();
       await db.insert(projects).values({
         ...original,
         id: newId,
+        userId: ctx.user.id,
+        workspaceId: roleAllows(role, 'edit') ? original.workspaceId : null,
         name: `${original.name} (Copy)`,
         createdAt: new Date(),
         updatedAt: new Date(),
       });
+      await replaceLineItems(newId, await getLineItems(original.id));
+      await recordVersion(newId, ctx.user);
 
       return { id: newId };
     }),
 
+  // Move a project into a workspace, or back to the owner's personal projects
+  move: protectedProcedure
+    .input(z.object({
+      id: z.string().uuid(),
+      workspaceId: z.string().uuid().nullable(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      await requireProjectPermission(input.id, ctx.user.id, 'manage');
+      if (input.workspaceId) {
+        await requireWorkspacePermission(input.workspaceId, ctx.user.id, 'edit');
+      }
+
+      // A personal project belongs to whoever moved it out of the workspace
+      await db
+        .update(projects)
+        .set({ workspaceId: input.workspaceId, userId: ctx.user.id, updatedAt: new Date() })
+        .where(eq(projects.id, input.id));
+
+      return { success: true };
+    }),
+
   // Scenarios sub-router
   scenarios: router({
     list: protectedProcedure
       .input(z.object({ projectId: z.string().uuid() }))
       .query(async ({ input, ctx }) => {
-        // Verify project ownership
-        const [project] = await db
-          .select()
-          .from(projects)
-          .where(and(eq(projects.id, input.projectId), eq(projects.userId, ctx.user.id)))
-          .limit(1);
-
-        if (!project) {
-          throw new Error('Project not found');
-        }
+        await requireProjectPermission(input.projectId, ctx.user.id, 'view');
 
         return await db
           .select()
@@ -154,19 +617,9 @@ export const projectsRouter = router({
         costsAdjustment: z.number().default(0),
         discountAdjustment: z.number().default(0),
         isBase: z.boolean().default(false),
-        results: z.any(),
       }))
       .mutation(async ({ input, ctx }) => {
-        // Verify project ownership
-        const [project] = await db
-          .select()
-          .from(projects)
-          .where(and(eq(projects.id, input.projectId), eq(projects.userId, ctx.user.id)))
-          .limit(1);
-
-        if (!project) {
-          throw new Error('Project not found');
-        }
+        const { project } = await requireProjectPermission(input.projectId, ctx.user.id, 'edit');
 
         const id = randomUUID();
         await db.insert(scenarios).values({
@@ -177,7 +630,10 @@ export const projectsRouter = router({
           costsAdjustment: input.costsAdjustment,
           discountAdjustment: input.discountAdjustment,
           isBase: input.isBase ? 1 : 0,
-          results: input.results,
+          results: await new CalculationService().calculateScenario(
+            projectDataFromRow(project, await getLineItems(project.id)),
+            input
+          ),
         });
 
         return { id };
@@ -186,7 +642,7 @@ export const projectsRouter = router({
     delete: protectedProcedure
       .input(z.object({ id: z.string().uuid() }))
       .mutation(async ({ input, ctx }) => {
-        // Verify ownership through project
+        // Verify edit access through project
         const [scenario] = await db
           .select()
           .from(scenarios)
@@ -197,17 +653,156 @@ export const projectsRouter = router({
           throw new Error('Scenario not found');
         }
 
-        const [project] = await db
+        await requireProjectPermission(scenario.projectId, ctx.user.id, 'edit');
+
+        await db.delete(scenarios).where(eq(scenarios.id, input.id));
+        await db
+          .delete(projectComments)
+          .where(and(
+            eq(projectComments.projectId, scenario.projectId),
+            eq(projectComments.anchorType, 'scenario'),
+            eq(projectComments.anchorKey, input.id)
+          ));
+        return { success: true };
+      }),
+  }),
+
+  // Version history sub-router
+  versions: router({
+    list: protectedProcedure
+      .input(z.object({ projectId: z.string().uuid() }))
+      .query(async ({ input, ctx }) => {
+        await requireProjectPermission(input.projectId, ctx.user.id, 'view');
+
+        const rows = await db
           .select()
-          .from(projects)
-          .where(and(eq(projects.id, scenario.projectId), eq(projects.userId, ctx.user.id)))
-          .limit(1);
+          .from(projectVersions)
+          .where(eq(projectVersions.projectId, input.projectId))
+          .orderBy(desc(projectVersions.version));
 
-        if (!project) {
-          throw new Error('Unauthorized');
-        }
+        return rows.map((row: ProjectVersionRow) => toProjectVersion(row));
+      }),
+
+    diff: protectedProcedure
+      .input(z.object({
+        projectId: z.string().uuid(),
+        fromVersion: z.number().int().positive(),
+        toVersion: z.number().int().positive(),
+      }))
+      .query(async ({ input, ctx }) => {
+        const [from, to] = await getPermittedVersions(
+          input.projectId,
+          ctx.user.id,
+          'view',
+          [input.fromVersion, input.toVersion]
+        );
+        return diffVersionSnapshots(from, to);
+      }),
+
+    // Restoring writes the old snapshot back and records it as a new version
+    restore: protectedProcedure
+      .input(z.object({
+        projectId: z.string().uuid(),
+        version: z.number().int().positive(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const [target] = await getPermittedVersions(input.projectId, ctx.user.id, 'edit', [input.version]);
+        const lineItems = target.snapshot.lineItems ?? { revenueStreams: [], costLines: [], capexTranches: [] };
+        const now = new Date().toISOString();
+        // Snapshots are taken from complete rows, so every required input is present
+        const { results, scenarioResults } = await calculateProject({
+          ...target.snapshot,
+          id: input.projectId,
+          createdAt: now,
+          updatedAt: now,
+          lineItems,
+        } as ProjectData);
+
+        await db.transaction(async (tx: DbExecutor) => {
+          await tx
+            .update(projects)
+            .set({
+              ...rowFromSnapshot(target.snapshot),
+              results,
+              calculatorVersion: CALCULATOR_VERSION,
+              updatedAt: new Date(),
+            })
+            .where(eq(projects.id, input.projectId));
+          await replaceLineItems(input.projectId, lineItems, tx);
+          await saveScenarioResults(tx, scenarioResults);
+          await recordVersion(input.projectId, ctx.user, input.version, tx);
+        });
+
+        return { success: true };
+      }),
+  }),
+
+  // Plan-vs-actual sub-router: recorded cash flow per project month
+  actuals: router({
+    list: protectedProcedure
+      .input(z.object({ projectId: z.string().uuid() }))
+      .query(async ({ input, ctx }) => {
+        await requireProjectPermission(input.projectId, ctx.user.id, 'view');
+
+        const rows = await db
+          .select()
+          .from(projectActuals)
+          .where(eq(projectActuals.projectId, input.projectId))
+          .orderBy(asc(projectActuals.month));
+
+        return rows.map((row: ProjectActualRow) => toMonthlyActual(row));
+      }),
+
+    // Enter or correct months; months already recorded are overwritten
+    save: protectedProcedure
+      .input(z.object({
+        projectId: z.string().uuid(),
+        actuals: z.array(monthlyActualSchema).min(1),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const months = input.actuals.map((actual) => actual.month);
+        await assertActualsWritable(input.projectId, ctx.user.id, months);
+
+        await db.transaction(async (tx: DbExecutor) => {
+          await tx
+            .delete(projectActuals)
+            .where(and(eq(projectActuals.projectId, input.projectId), inArray(projectActuals.month, months)));
+          await insertActuals(input.projectId, input.actuals, tx);
+        });
+
+        return { success: true };
+      }),
+
+    // Replace all recorded months, e.g. from a spreadsheet export; an empty or invalid
+    // import is rejected before the recorded months are removed
+    import: protectedProcedure
+      .input(z.object({
+        projectId: z.string().uuid(),
+        actuals: z.array(monthlyActualSchema).min(1),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        await assertActualsWritable(input.projectId, ctx.user.id, input.actuals.map((actual) => actual.month));
+
+        await db.transaction(async (tx: DbExecutor) => {
+          await tx.delete(projectActuals).where(eq(projectActuals.projectId, input.projectId));
+          await insertActuals(input.projectId, input.actuals, tx);
+        });
+
+        return { imported: input.actuals.length };
+      }),
+
+    delete: protectedProcedure
+      .input(z.object({
+        projectId: z.string().uuid(),
+        month: z.number().int().min(1),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        await assertActualsWritable(input.projectId, ctx.user.id, []);
+
+        await db
+          .delete(projectActuals)
+          .where(and(eq(projectActuals.projectId, input.projectId), eq(projectActuals.month, input.month)));
 
-        await db.delete(scenarios).where(eq(scenarios.id, input.id));
         return { success: true };
       }),
   }),
@@ -0,0 +1,147 @@
+import { router, protectedProcedure, publicProcedure } from '../_core/trpc';
+import { z } from 'zod';
+import { projects, shareLinks } from '../../shared/db/schema';
+import type { ShareLinkRow } from '../../shared/db/schema';
+import { db } from '../../shared/db';
+import { desc, eq, sql } from 'drizzle-orm';
+import { randomUUID } from 'crypto';
+import type { ShareLinkResolution } from '../../types/project';
+import { getLineItems, projectDataFromRow } from '../services/project-recalculation';
+import { requireProjectPermission } from '../services/workspace-access';
+import {
+  clearSharePasswordFailures,
+  generateShareToken,
+  hashSharePassword,
+  isSharePasswordLocked,
+  recordSharePasswordFailure,
+  shareLinkStatus,
+  toShareLink,
+  toSharedProjectView,
+  verifySharePassword,
+} from '../services/share-links';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const shareLinksRouter = router({
+  // Issue a read-only link for a project; only owners decide who sees it outside the workspace
+  create: protectedProcedure
+    .input(z.object({
+      projectId: z.string().uuid(),
+      scope: z.enum(['summary', 'full']).default('summary'),
+      password: z.string().min(4).max(128).optional(),
+      expiresInDays: z.number().int().min(1).max(365).optional(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      await requireProjectPermission(input.projectId, ctx.user.id, 'manage');
+
+      const id = randomUUID();
+      await db.insert(shareLinks).values({
+        id,
+        token: generateShareToken(),
+        projectId: input.projectId,
+        createdBy: ctx.user.id,
+        scope: input.scope,
+        passwordHash: input.password ? await hashSharePassword(input.password) : null,
+        expiresAt: input.expiresInDays ? new Date(Date.now() + input.expiresInDays * DAY_MS) : null,
+      });
+
+      const [row] = await db.select().from(shareLinks).where(eq(shareLinks.id, id)).limit(1);
+      return toShareLink(row);
+    }),
+
+  // Links issued for a project, newest first
+  list: protectedProcedure
+    .input(z.object({ projectId: z.string().uuid() }))
+    .query(async ({ input, ctx }) => {
+      await requireProjectPermission(input.projectId, ctx.user.id, 'manage');
+
+      const rows = await db
+        .select()
+        .from(shareLinks)
+        .where(eq(shareLinks.projectId, input.projectId))
+        .orderBy(desc(shareLinks.createdAt));
+
+      return rows.map((row: ShareLinkRow) => toShareLink(row));
+    }),
+
+  // Revoke a link; revoked links stay listed so their view counts remain visible
+  revoke: protectedProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ input, ctx }) => {
+      const [link] = await db
+        .select({ projectId: shareLinks.projectId })
+        .from(shareLinks)
+        .where(eq(shareLinks.id, input.id))
+        .limit(1);
+
+      if (!link) {
+        throw new Error('Share link not found');
+      }
+      await requireProjectPermission(link.projectId, ctx.user.id, 'manage');
+
+      await db
+        .update(shareLinks)
+        .set({ revokedAt: new Date() })
+        .where(eq(shareLinks.id, input.id));
+
+      return { success: true };
+    }),
+
+  // Resolve a token for a visitor; a mutation because every successful open counts a view
+  open: publicProcedure
+    .input(z.object({
+      token: z.string().min(1).max(32),
+      password: z.string().max(128).optional(),
+    }))
+    .mutation(async ({ input }): Promise<ShareLinkResolution> => {
+      const [link] = await db
+        .select()
+        .from(shareLinks)
+        .where(eq(shareLinks.token, input.token))
+        .limit(1);
+
+      if (!link) {
+        return { status: 'not_found' };
+      }
+
+      const status = shareLinkStatus(link);
+      if (status !== 'active') {
+        return { status };
+      }
+
+      if (link.passwordHash) {
+        if (!input.password) {
+          return { status: 'password_required' };
+        }
+        if (isSharePasswordLocked(link.token)) {
+          return { status: 'too_many_attempts' };
+        }
+        if (!(await verifySharePassword(input.password, link.passwordHash))) {
+          recordSharePasswordFailure(link.token);
+          return { status: 'invalid_password' };
+        }
+        clearSharePasswordFailures(link.token);
+      }
+
+      const [row] = await db
+        .select()
+        .from(projects)
+        .where(eq(projects.id, link.projectId))
+        .limit(1);
+
+      if (!row) {
+        return { status: 'not_found' };
+      }
+
+      await db
+        .update(shareLinks)
+        .set({ viewCount: sql`${shareLinks.viewCount} + 1`, lastViewedAt: new Date() })
+        .where(eq(shareLinks.id, link.id));
+
+      const lineItems = link.scope === 'full'
+        ? await getLineItems(row.id)
+        : { revenueStreams: [], costLines: [], capexTranches: [] };
+      const view = toSharedProjectView(projectDataFromRow(row, lineItems), link.scope === 'full' ? 'full' : 'summary', link.token);
+      return { status: 'ok', view };
+    }),
+});
@@ -0,0 +1,268 @@
+import { router, protectedProcedure } from '../_core/trpc';
+import { z } from 'zod';
+import { workspaces, workspaceMembers, workspaceInvitations } from '../../shared/db/schema';
+import type { WorkspaceRow, WorkspaceMemberRow, WorkspaceInvitationRow } from '../../shared/db/schema';
+import { users } from '../../drizzle/schema';
+import { db } from '../../shared/db';
+import { and, desc, eq, inArray } from 'drizzle-orm';
+import { randomBytes, randomUUID } from 'crypto';
+import type { Workspace, WorkspaceInvitation, WorkspaceMember, WorkspaceRole } from '../../types/project';
+import { invitationStatus, isWorkspaceRole, wouldOrphanWorkspace, WORKSPACE_ROLES } from '../../lib/workspace-permissions';
+import { getMembershipRole, requireWorkspacePermission } from '../services/workspace-access';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const workspaceRoleSchema = z.enum(WORKSPACE_ROLES as [WorkspaceRole, ...WorkspaceRole[]]);
+
+function toRole(role: string): WorkspaceRole {
+  return isWorkspaceRole(role) ? role : 'viewer';
+}
+
+function toWorkspaceInvitation(row: WorkspaceInvitationRow): WorkspaceInvitation {
+  return {
+    id: row.id,
+    token: row.token,
+    role: toRole(row.role),
+    expiresAt: row.expiresAt.toISOString(),
+    acceptedAt: row.acceptedAt?.toISOString() ?? null,
+    revokedAt: row.revokedAt?.toISOString() ?? null,
+    createdAt: row.createdAt?.toISOString() ?? new Date().toISOString(),
+  };
+}
+
+async function getMembers(workspaceId: string): Promise<WorkspaceMemberRow[]> {
+  return await db
+    .select()
+    .from(workspaceMembers)
+    .where(eq(workspaceMembers.workspaceId, workspaceId));
+}
+
+/**
+ * Reject a role change or removal that would leave the workspace without an owner
+ */
+async function assertKeepsOwner(workspaceId: string, userId: number, nextRole: WorkspaceRole | null): Promise<void> {
+  const members = (await getMembers(workspaceId)).map((member) => ({ userId: member.userId, role: toRole(member.role) }));
+  if (!members.some((member) => member.userId === userId)) {
+    throw new Error('Member not found');
+  }
+  if (wouldOrphanWorkspace(members, userId, nextRole)) {
+    throw new Error('A workspace needs at least one owner');
+  }
+}
+
+export const workspacesRouter = router({
+  // Workspaces the user belongs to, with their role and the member count
+  list: protectedProcedure.query(async ({ ctx }): Promise<Workspace[]> => {
+    const memberships: WorkspaceMemberRow[] = await db
+      .select()
+      .from(workspaceMembers)
+      .where(eq(workspaceMembers.userId, ctx.user.id));
+
+    if (memberships.length === 0) return [];
+
+    const ids = memberships.map((member) => member.workspaceId);
+    const [rows, allMembers] = await Promise.all([
+      db.select().from(workspaces).where(inArray(workspaces.id, ids)).orderBy(desc(workspaces.createdAt)),
+      db.select({ workspaceId: workspaceMembers.workspaceId }).from(workspaceMembers).where(inArray(workspaceMembers.workspaceId, ids)),
+    ]);
+
+    return rows.map((row: WorkspaceRow) => ({
+      id: row.id,
+      name: row.name,
+      role: toRole(memberships.find((member) => member.workspaceId === row.id)!.role),
+      memberCount: allMembers.filter((member: { workspaceId: string }) => member.workspaceId === row.id).length,
+      createdAt: row.createdAt?.toISOString() ?? new Date().toISOString(),
+    }));
+  }),
+
+  // Create a workspace; the creator becomes its first owner
+  create: protectedProcedure
+    .input(z.object({ name: z.string().trim().min(1).max(255) }))
+    .mutation(async ({ input, ctx }) => {
+      const id = randomUUID();
+      await db.insert(workspaces).values({ id, name: input.name, createdBy: ctx.user.id });
+      await db.insert(workspaceMembers).values({
+        id: randomUUID(),
+        workspaceId: id,
+        userId: ctx.user.id,
+        role: 'owner',
+      });
+      return { id };
+    }),
+
+  rename: protectedProcedure
+    .input(z.object({
+      id: z.string().uuid(),
+      name: z.string().trim().min(1).max(255),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      await requireWorkspacePermission(input.id, ctx.user.id, 'manage');
+      await db.update(workspaces).set({ name: input.name }).where(eq(workspaces.id, input.id));
+      return { success: true };
+    }),
+
+  // Membership sub-router
+  members: router({
+    list: protectedProcedure
+      .input(z.object({ workspaceId: z.string().uuid() }))
+      .query(async ({ input, ctx }): Promise<WorkspaceMember[]> => {
+        await requireWorkspacePermission(input.workspaceId, ctx.user.id, 'view');
+
+        const members = await getMembers(input.workspaceId);
+        const profiles: { id: number; name: string | null; email: string | null }[] = members.length > 0
+          ? await db
+            .select({ id: users.id, name: users.name, email: users.email })
+            .from(users)
+            .where(inArray(users.id, members.map((member) => member.userId)))
+          : [];
+
+        return members.map((member) => {
+          const profile = profiles.find((user) => user.id === member.userId);
+          return {
+            userId: member.userId,
+            name: profile?.name ?? null,
+            email: profile?.email ?? null,
+            role: toRole(member.role),
+            joinedAt: member.createdAt?.toISOString() ?? new Date().toISOString(),
+          };
+        });
+      }),
+
+    updateRole: protectedProcedure
+      .input(z.object({
+        workspaceId: z.string().uuid(),
+        userId: z.number().int(),
+        role: workspaceRoleSchema,
+      }))
+      .mutation(async ({ input, ctx }) => {
+        await requireWorkspacePermission(input.workspaceId, ctx.user.id, 'manage');
+        await assertKeepsOwner(input.workspaceId, input.userId, input.role);
+
+        await db
+          .update(workspaceMembers)
+          .set({ role: input.role })
+          .where(and(eq(workspaceMembers.workspaceId, input.workspaceId), eq(workspaceMembers.userId, input.userId)));
+
+        return { success: true };
+      }),
+
+    // Owners remove members; any member may remove themselves to leave
+    remove: protectedProcedure
+      .input(z.object({
+        workspaceId: z.string().uuid(),
+        userId: z.number().int(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        if (input.userId === ctx.user.id) {
+          await requireWorkspacePermission(input.workspaceId, ctx.user.id, 'view');
+        } else {
+          await requireWorkspacePermission(input.workspaceId, ctx.user.id, 'manage');
+        }
+        await assertKeepsOwner(input.workspaceId, input.userId, null);
+
+        await db
+          .delete(workspaceMembers)
+          .where(and(eq(workspaceMembers.workspaceId, input.workspaceId), eq(workspaceMembers.userId, input.userId)));
+
+        return { success: true };
+      }),
+  }),
+
+  // Invitation sub-router: owners hand out tokens, invitees accept them in the app
+  invitations: router({
+    create: protectedProcedure
+      .input(z.object({
+        workspaceId: z.string().uuid(),
+        role: workspaceRoleSchema.default('editor'),
+        expiresInDays: z.number().int().min(1).max(30).default(7),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        await requireWorkspacePermission(input.workspaceId, ctx.user.id, 'manage');
+
+        const id = randomUUID();
+        await db.insert(workspaceInvitations).values({
+          id,
+          workspaceId: input.workspaceId,
+          token: randomBytes(18).toString('base64url'),
+          role: input.role,
+          invitedBy: ctx.user.id,
+          expiresAt: new Date(Date.now() + input.expiresInDays * DAY_MS),
+        });
+
+        const [row] = await db.select().from(workspaceInvitations).where(eq(workspaceInvitations.id, id)).limit(1);
+        return toWorkspaceInvitation(row);
+      }),
+
+    list: protectedProcedure
+      .input(z.object({ workspaceId: z.string().uuid() }))
+      .query(async ({ input, ctx }) => {
+        await requireWorkspacePermission(input.workspaceId, ctx.user.id, 'manage');
+
+        const rows = await db
+          .select()
+          .from(workspaceInvitations)
+          .where(eq(workspaceInvitations.workspaceId, input.workspaceId))
+          .orderBy(desc(workspaceInvitations.createdAt));
+
+        return rows.map((row: WorkspaceInvitationRow) => toWorkspaceInvitation(row));
+      }),
+
+    revoke: protectedProcedure
+      .input(z.object({ id: z.string().uuid() }))
+      .mutation(async ({ input, ctx }) => {
+        const [invitation] = await db
+          .select()
+          .from(workspaceInvitations)
+          .where(eq(workspaceInvitations.id, input.id))
+          .limit(1);
+
+        if (!invitation) {
+          throw new Error('Invitation not found');
+        }
+        await requireWorkspacePermission(invitation.workspaceId, ctx.user.id, 'manage');
+
+        await db
+          .update(workspaceInvitations)
+          .set({ revokedAt: new Date() })
+          .where(eq(workspaceInvitations.id, input.id));
+
+        return { success: true };
+      }),
+
+    // Join through a token; existing members keep their current role
+    accept: protectedProcedure
+      .input(z.object({ token: z.string().min(1).max(32) }))
+      .mutation(async ({ input, ctx }) => {
+        const [invitation] = await db
+          .select()
+          .from(workspaceInvitations)
+          .where(eq(workspaceInvitations.token, input.token))
+          .limit(1);
+
+        if (!invitation) {
+          throw new Error('Invitation not found');
+        }
+
+        const status = invitationStatus(invitation);
+        if (status !== 'pending') {
+          throw new Error(`Invitation ${status}`);
+        }
+
+        if (!(await getMembershipRole(invitation.workspaceId, ctx.user.id))) {
+          await db.insert(workspaceMembers).values({
+            id: randomUUID(),
+            workspaceId: invitation.workspaceId,
+            userId: ctx.user.id,
+            role: invitation.role,
+          });
+        }
+
+        await db
+          .update(workspaceInvitations)
+          .set({ acceptedAt: new Date(), acceptedBy: ctx.user.id })
+          .where(eq(workspaceInvitations.id, invitation.id));
+
+        return { workspaceId: invitation.workspaceId };
+      }),
+  }),
+});
@@ -0,0 +1,225 @@
+import { projects, scenarios, revenueStreams, costLines, capexTranches } from '../../shared/db/schema';
+import type { Project, Scenario, RevenueStreamRow, CostLineRow, CapexTrancheRow } from '../../shared/db/schema';
+import { db } from '../../shared/db';
+import { and, asc, eq, gt, inArray, isNull, ne, or } from 'drizzle-orm';
+import type { BusinessModel, LineItemModel, ProjectData, ProjectResults, ScenarioSnapshot } from '../../types/project';
+import { Currency } from '../../lib/domain/value-objects/Money';
+import { CalculationService, CALCULATOR_VERSION } from '../../lib/application/services/CalculationService';
+
+const calculationService = new CalculationService();
+
+/**
+ * Query runner: the shared connection or an open transaction
+ */
+export type DbExecutor = typeof db;
+
+/**
+ * Load a project's line items, ordered as entered
+ */
+export async function getLineItems(projectId: string, executor: DbExecutor = db): Promise<LineItemModel> {
+  return (await getLineItemsForProjects([projectId], executor)).get(projectId) as LineItemModel;
+}
+
+/**
+ * Load the line items of several projects with one query per item kind, ordered as entered.
+ * Every requested project gets a model, empty when it has no line items.
+ */
+export async function getLineItemsForProjects(
+  projectIds: string[],
+  executor: DbExecutor = db
+): Promise<Map<string, LineItemModel>> {
+  const models = new Map<string, LineItemModel>(
+    projectIds.map((id) => [id, { revenueStreams: [], costLines: [], capexTranches: [] }])
+  );
+  if (projectIds.length === 0) return models;
+
+  const [streams, lines, tranches] = await Promise.all([
+    executor.select().from(revenueStreams).where(inArray(revenueStreams.projectId, projectIds)).orderBy(asc(revenueStreams.sortOrder)),
+    executor.select().from(costLines).where(inArray(costLines.projectId, projectIds)).orderBy(asc(costLines.sortOrder)),
+    executor.select().from(capexTranches).where(inArray(capexTranches.projectId, projectIds)).orderBy(asc(capexTranches.sortOrder)),
+  ]);
+
+  streams.forEach((row: RevenueStreamRow) => models.get(row.projectId)?.revenueStreams.push({
+    id: row.id,
+    name: row.name,
+    monthlyAmount: Number(row.monthlyAmount),
+    startMonth: row.startMonth,
+    endMonth: row.endMonth ?? undefined,
+    growthRate: Number(row.growthRate),
+    behavior: row.behavior === 'fixed' ? 'fixed' : 'variable',
+  }));
+  lines.forEach((row: CostLineRow) => models.get(row.projectId)?.costLines.push({
+    id: row.id,
+    name: row.name,
+    amount: Number(row.amount),
+    startMonth: row.startMonth,
+    endMonth: row.endMonth ?? undefined,
+    growthRate: Number(row.growthRate),
+    behavior: row.behavior === 'variable' ? 'variable' : 'fixed',
+  }));
+  tranches.forEach((row: CapexTrancheRow) => models.get(row.projectId)?.capexTranches.push({
+    id: row.id,
+    name: row.name,
+    amount: Number(row.amount),
+    month: row.month,
+  }));
+
+  return models;
+}
+
+/**
+ * A saved project row as calculator input, with numeric columns as numbers
+ */
+export function projectDataFromRow(row: Project, lineItems: LineItemModel): ProjectData {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description ?? undefined,
+    createdAt: row.createdAt?.toISOString() ?? new Date().toISOString(),
+    updatedAt: row.updatedAt?.toISOString() ?? new Date().toISOString(),
+    initialInvestment: row.initialInvestment,
+    yearlyRevenue: row.yearlyRevenue,
+    operatingCosts: row.operatingCosts,
+    maintenanceCosts: row.maintenanceCosts,
+    projectDuration: row.projectDuration,
+    discountRate: row.discountRate,
+    currency: row.currency as Currency,
+    revenueGrowth: row.revenueGrowth,
+    bestCaseMultiplier: Number(row.bestCaseMultiplier),
+    worstCaseMultiplier: Number(row.worstCaseMultiplier),
+    financeRate: row.financeRate != null ? Number(row.financeRate) : undefined,
+    reinvestmentRate: row.reinvestmentRate != null ? Number(row.reinvestmentRate) : undefined,
+    results: (row.results ?? undefined) as ProjectData['results'],
+    vanguardInput: (row.vanguardInput ?? undefined) as ProjectData['vanguardInput'],
+    saasInput: (row.saasInput ?? undefined) as ProjectData['saasInput'],
+    riskInput: (row.riskInput ?? undefined) as ProjectData['riskInput'],
+    monteCarloConfig: (row.monteCarloConfig ?? undefined) as ProjectData['monteCarloConfig'],
+    fiscalAssumptions: (row.fiscalAssumptions ?? undefined) as ProjectData['fiscalAssumptions'],
+    inflation: (row.inflation ?? undefined) as ProjectData['inflation'],
+    valuationBasis: (row.valuationBasis ?? undefined) as ProjectData['valuationBasis'],
+    businessModel: (row.businessModel ?? undefined) as BusinessModel | undefined,
+    lineItems,
+  };
+}
+
+/**
+ * Results of a project and of its scenarios, computed before anything is written
+ */
+export interface CalculatedProject {
+  results: ProjectResults;
+  scenarioResults: { id: string; results: ScenarioSnapshot['results'] }[];
+}
+
+/**
+ * Compute a project's results and those of its saved scenarios. The project's own results
+ * must succeed; a scenario whose adjustments the engine rejects keeps its stored results.
+ */
+export async function calculateProject(projectData: ProjectData): Promise<CalculatedProject> {
+  const results = await calculationService.calculateProjectResults(projectData);
+
+  const scenarioRows: Scenario[] = await db.select().from(scenarios).where(eq(scenarios.projectId, projectData.id));
+  const scenarioResults: CalculatedProject['scenarioResults'] = [];
+  for (const scenario of scenarioRows) {
+    try {
+      scenarioResults.push({
+        id: scenario.id,
+        results: await calculationService.calculateScenario(projectData, scenario),
+      });
+    } catch (error) {
+      console.error(`[Recalculation] Failed to recalculate scenario ${scenario.id}:`, error);
+    }
+  }
+
+  return { results, scenarioResults };
+}
+
+/**
+ * Store freshly computed scenario results
+ */
+export async function saveScenarioResults(
+  executor: DbExecutor,
+  scenarioResults: CalculatedProject['scenarioResults']
+): Promise<void> {
+  for (const { id, results } of scenarioResults) {
+    await executor.update(scenarios).set({ results }).where(eq(scenarios.id, id));
+  }
+}
+
+/**
+ * Recompute and store a project's results and those of its scenarios from the saved inputs.
+ * Results sent by clients are never trusted; saves compute them with calculateProject first.
+ */
+export async function recalculateProject(projectId: string): Promise<ProjectResults | null> {
+  const [row] = await db
+    .select()
+    .from(projects)
+    .where(eq(projects.id, projectId))
+    .limit(1);
+
+  if (!row) return null;
+
+  const { results, scenarioResults } = await calculateProject(projectDataFromRow(row, await getLineItems(projectId)));
+
+  await db.transaction(async (tx: DbExecutor) => {
+    // Don't touch updatedAt: a recalculation is not an edit
+    await tx
+      .update(projects)
+      .set({ results, calculatorVersion: CALCULATOR_VERSION, updatedAt: row.updatedAt })
+      .where(eq(projects.id, projectId));
+    await saveScenarioResults(tx, scenarioResults);
+  });
+
+  return results;
+}
+
+/**
+ * Recompute every project whose results were produced by another engine version.
+ * Walks the table by id so a project that keeps failing is not retried in a loop.
+ */
+export async function recalculateStaleProjects(batchSize = 50): Promise<{ recalculated: number; failed: number }> {
+  let recalculated = 0;
+  let failed = 0;
+  let cursor = '';
+
+  for (;;) {
+    const batch: { id: string }[] = await db
+      .select({ id: projects.id })
+      .from(projects)
+      .where(and(
+        gt(projects.id, cursor),
+        or(isNull(projects.calculatorVersion), ne(projects.calculatorVersion, CALCULATOR_VERSION))
+      ))
+      .orderBy(asc(projects.id))
+      .limit(batchSize);
+
+    if (batch.length === 0) break;
+
+    for (const { id } of batch) {
+      try {
+        await recalculateProject(id);
+        recalculated++;
+      } catch (error) {
+        console.error(`[Recalculation] Failed to recalculate project ${id}:`, error);
+        failed++;
+      }
+    }
+    cursor = batch[batch.length - 1].id;
+  }
+
+  return { recalculated, failed };
+}
+
+/**
+ * Refresh stale results in the background once the server is up
+ */
+export function startRecalculationJob(): void {
+  if (!process.env.DATABASE_URL) return;
+
+  recalculateStaleProjects()
+    .then(({ failed }) => {
+      if (failed > 0) {
+        console.error(`[Recalculation] Engine ${CALCULATOR_VERSION}: ${failed} projects could not be recalculated`);
+      }
+    })
+    .catch((error) => console.error('[Recalculation] Job failed:', error));
+}
@@ -0,0 +1,126 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import type { ShareLinkRow } from '../../shared/db/schema';
+import type { ProjectData, ShareLink, ShareScope, SharedProjectView } from '../../types/project';
+import { Currency } from '../../lib/domain/value-objects/Money';
+import { SHARE_TOKEN_LENGTH } from '../../lib/share-links';
+
+/**
+ * Random URL-safe token; 12 random bytes encode to exactly SHARE_TOKEN_LENGTH characters
+ */
+export function generateShareToken(): string {
+  return randomBytes((SHARE_TOKEN_LENGTH * 3) / 4).toString('base64url');
+}
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+// Wrong passwords allowed per link within the window before it stops accepting attempts
+const MAX_PASSWORD_ATTEMPTS = 5;
+const PASSWORD_ATTEMPT_WINDOW_MS = 15 * 60 * 1000;
+
+const failedPasswordAttempts = new Map<string, { count: number; windowStart: number }>();
+
+/**
+ * Salted scrypt hash stored as `scrypt$<salt>$<hash>`; hashed off the event loop
+ */
+export async function hashSharePassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, 32);
+  return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+}
+
+export async function verifySharePassword(password: string, stored: string): Promise<boolean> {
+  const [algorithm, salt, hash] = stored.split('$');
+  if (algorithm !== 'scrypt' || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'hex');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'hex'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+/**
+ * Whether a link has used up its password attempts for the current window
+ */
+export function isSharePasswordLocked(token: string, now: number = Date.now()): boolean {
+  const attempts = failedPasswordAttempts.get(token);
+  if (!attempts) return false;
+  if (now - attempts.windowStart >= PASSWORD_ATTEMPT_WINDOW_MS) {
+    failedPasswordAttempts.delete(token);
+    return false;
+  }
+  return attempts.count >= MAX_PASSWORD_ATTEMPTS;
+}
+
+export function recordSharePasswordFailure(token: string, now: number = Date.now()): void {
+  const attempts = failedPasswordAttempts.get(token);
+  if (!attempts || now - attempts.windowStart >= PASSWORD_ATTEMPT_WINDOW_MS) {
+    failedPasswordAttempts.set(token, { count: 1, windowStart: now });
+  } else {
+    attempts.count++;
+  }
+}
+
+export function clearSharePasswordFailures(token: string): void {
+  failedPasswordAttempts.delete(token);
+}
+
+export type ShareLinkStatus = 'active' | 'revoked' | 'expired';
+
+export function shareLinkStatus(row: Pick<ShareLinkRow, 'revokedAt' | 'expiresAt'>, now: Date = new Date()): ShareLinkStatus {
+  if (row.revokedAt) return 'revoked';
+  if (row.expiresAt && row.expiresAt.getTime() <= now.getTime()) return 'expired';
+  return 'active';
+}
+
+export function toShareLink(row: ShareLinkRow): ShareLink {
+  return {
+    id: row.id,
+    token: row.token,
+    projectId: row.projectId,
+    scope: row.scope === 'full' ? 'full' : 'summary',
+    hasPassword: !!row.passwordHash,
+    expiresAt: row.expiresAt?.toISOString() ?? null,
+    revokedAt: row.revokedAt?.toISOString() ?? null,
+    viewCount: row.viewCount,
+    lastViewedAt: row.lastViewedAt?.toISOString() ?? null,
+    createdAt: row.createdAt?.toISOString() ?? new Date().toISOString(),
+  };
+}
+
+/**
+ * What a visitor receives for a link. The summary scope carries headline metrics only; the
+ * full scope adds inputs and results but never the owner, internal ids or AI insights.
+ */
+export function toSharedProjectView(project: ProjectData, scope: ShareScope, token: string): SharedProjectView {
+  const results = project.results;
+  const view: SharedProjectView = {
+    scope,
+    name: project.name,
+    currency: project.currency ?? Currency.USD,
+    discountRate: project.discountRate,
+    summary: results
+      ? {
+        roi: results.roi,
+        npv: results.npv,
+        irr: results.irr,
+        paybackPeriod: results.paybackPeriod,
+        roiBest: results.roiBest,
+        npvBest: results.npvBest,
+        roiWorst: results.roiWorst,
+        npvWorst: results.npvWorst,
+      }
+      : null,
+  };
+
+  if (scope === 'full') {
+    const { aiInsights, aiGeneratedAt, ...sharedResults } = results ?? {};
+    view.project = {
+      ...project,
+      id: `shared-${token}`,
+      results: results ? (sharedResults as ProjectData['results']) : undefined,
+      scenarios: [],
+    };
+  }
+
+  return view;
+}
@@ -0,0 +1,98 @@
+import { projects, workspaceMembers } from '../../shared/db/schema';
+import type { Project, WorkspaceMemberRow } from '../../shared/db/schema';
+import { db } from '../../shared/db';
+import { and, desc, eq, inArray, isNull, or } from 'drizzle-orm';
+import type { WorkspaceRole } from '../../types/project';
+import { isWorkspaceRole, resolveProjectRole, roleAllows } from '../../lib/workspace-permissions';
+import type { ProjectPermission } from '../../lib/workspace-permissions';
+
+export async function getMembershipRole(workspaceId: string, userId: number): Promise<WorkspaceRole | null> {
+  const [member] = await db
+    .select({ role: workspaceMembers.role })
+    .from(workspaceMembers)
+    .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)))
+    .limit(1);
+
+  return member && isWorkspaceRole(member.role) ? member.role : null;
+}
+
+/**
+ * Check the user's role in a workspace grants a permission and return the role
+ */
+export async function requireWorkspacePermission(
+  workspaceId: string,
+  userId: number,
+  permission: ProjectPermission
+): Promise<WorkspaceRole> {
+  const role = await getMembershipRole(workspaceId, userId);
+  if (!role) {
+    throw new Error('Workspace not found');
+  }
+  if (!roleAllows(role, permission)) {
+    throw new Error('Insufficient permissions');
+  }
+  return role;
+}
+
+/**
+ * Load a project with the user's role on it; null when the user has no access at all
+ */
+export async function getProjectAccess(
+  projectId: string,
+  userId: number
+): Promise<{ project: Project; role: WorkspaceRole } | null> {
+  const [project] = await db
+    .select()
+    .from(projects)
+    .where(eq(projects.id, projectId))
+    .limit(1);
+
+  if (!project) return null;
+
+  const membershipRole = project.workspaceId ? await getMembershipRole(project.workspaceId, userId) : null;
+  const role = resolveProjectRole(project, userId, membershipRole);
+  return role ? { project, role } : null;
+}
+
+/**
+ * Load a project the user may act on. Projects the user cannot see are reported as
+ * not found so their existence is not disclosed.
+ */
+export async function requireProjectPermission(
+  projectId: string,
+  userId: number,
+  permission: ProjectPermission
+): Promise<{ project: Project; role: WorkspaceRole }> {
+  const access = await getProjectAccess(projectId, userId);
+  if (!access) {
+    throw new Error('Project not found');
+  }
+  if (!roleAllows(access.role, permission)) {
+    throw new Error('Insufficient permissions');
+  }
+  return access;
+}
+
+/**
+ * All projects the user can see with their role: personal projects plus those of every workspace they belong to
+ */
+export async function listAccessibleProjects(userId: number): Promise<(Project & { accessRole: WorkspaceRole })[]> {
+  const memberships: Pick<WorkspaceMemberRow, 'workspaceId' | 'role'>[] = await db
+    .select({ workspaceId: workspaceMembers.workspaceId, role: workspaceMembers.role })
+    .from(workspaceMembers)
+    .where(eq(workspaceMembers.userId, userId));
+
+  const roles = new Map(memberships.map((member) => [member.workspaceId, member.role]));
+  const personal = and(eq(projects.userId, userId), isNull(projects.workspaceId));
+  const rows: Project[] = await db
+    .select()
+    .from(projects)
+    .where(roles.size > 0 ? or(personal, inArray(projects.workspaceId, [...roles.keys()])) : personal)
+    .orderBy(desc(projects.createdAt));
+
+  return rows.flatMap((row) => {
+    const membershipRole = row.workspaceId ? roles.get(row.workspaceId) ?? null : null;
+    const role = resolveProjectRole(row, userId, membershipRole && isWorkspaceRole(membershipRole) ? membershipRole : null);
+    return role ? [{ ...row, accessRole: role }] : [];
+  });
+}
@@ -1,4 +1,5 @@
-import { mysqlTable, varchar, text, json, timestamp, int, decimal, index } from 'drizzle-orm/mysql-core';
+import { mysqlTable, varchar, text, json, timestamp, int, decimal, index, uniqueIndex } from 'drizzle-orm/mysql-core';
+import type { ProjectVersionSnapshot } from '../../types/project';
 
 /**
  * Financial results type for projects and scenarios
@@ -19,6 +20,7 @@ export interface FinancialResults {
     tfdi: number;
     ser: number;
   };
+  calculatorVersion?: string;
 }
 
 /**
@@ -27,6 +29,7 @@ export interface FinancialResults {
 export const projects = mysqlTable('projects', {
   id: varchar('id', { length: 36 }).primaryKey(),
   userId: int('user_id').notNull(),
+  workspaceId: varchar('workspace_id', { length: 36 }), // null for personal projects
   name: varchar('name', { length: 255 }).notNull(),
   description: text('description'),
   initialInvestment: int('initial_investment').notNull(),
@@ -35,19 +38,29 @@ export const projects = mysqlTable('projects', {
   maintenanceCosts: int('maintenance_costs').notNull(),
   projectDuration: int('project_duration').notNull(),
   discountRate: int('discount_rate').notNull(),
+  currency: varchar('currency', { length: 3 }).notNull().default('USD'),
   revenueGrowth: int('revenue_growth').notNull(),
   bestCaseMultiplier: decimal('best_case_multiplier', { precision: 10, scale: 4 }).notNull(),
   worstCaseMultiplier: decimal('worst_case_multiplier', { precision: 10, scale: 4 }).notNull(),
+  financeRate: decimal('finance_rate', { precision: 10, scale: 4 }),
+  reinvestmentRate: decimal('reinvestment_rate', { precision: 10, scale: 4 }),
   results: json('results').$type<FinancialResults>(),
+  calculatorVersion: varchar('calculator_version', { length: 20 }),
   vanguardInput: json('vanguard_input'),
   saasInput: json('saas_input'),
   riskInput: json('risk_input'),
+  monteCarloConfig: json('monte_carlo_config'),
+  fiscalAssumptions: json('fiscal_assumptions'),
+  inflation: json('inflation'),
+  valuationBasis: varchar('valuation_basis', { length: 10 }),
   businessModel: varchar('business_model', { length: 50 }).default('standard'),
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow().onUpdateNow(),
 }, (table) => ({
   userIdIdx: index('user_id_idx').on(table.userId),
+  workspaceIdIdx: index('workspace_id_idx').on(table.workspaceId),
   createdAtIdx: index('created_at_idx').on(table.createdAt),
+  calculatorVersionIdx: index('calculator_version_idx').on(table.calculatorVersion),
 }));
 
 export type Project = typeof projects.$inferSelect;
@@ -72,3 +85,201 @@ export const scenarios = mysqlTable('scenarios', {
 
 export type Scenario = typeof scenarios.$inferSelect;
 export type InsertScenario = typeof scenarios.$inferInsert;
+
+/**
+ * Revenue streams table - line-item revenue for projects
+ */
+export const revenueStreams = mysqlTable('revenue_streams', {
+  id: varchar('id', { length: 36 }).primaryKey(),
+  projectId: varchar('project_id', { length: 36 }).notNull(),
+  name: varchar('name', { length: 255 }).notNull(),
+  monthlyAmount: decimal('monthly_amount', { precision: 15, scale: 2 }).notNull(),
+  startMonth: int('start_month').notNull().default(1),
+  endMonth: int('end_month'),
+  growthRate: decimal('growth_rate', { precision: 10, scale: 4 }).notNull().default('0'),
+  behavior: varchar('behavior', { length: 20 }).notNull().default('variable'),
+  sortOrder: int('sort_order').notNull().default(0),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+  projectIdIdx: index('project_id_idx').on(table.projectId),
+}));
+
+export type RevenueStreamRow = typeof revenueStreams.$inferSelect;
+export type InsertRevenueStreamRow = typeof revenueStreams.$inferInsert;
+
+/**
+ * Cost lines table - fixed or revenue-linked costs for projects
+ */
+export const costLines = mysqlTable('cost_lines', {
+  id: varchar('id', { length: 36 }).primaryKey(),
+  projectId: varchar('project_id', { length: 36 }).notNull(),
+  name: varchar('name', { length: 255 }).notNull(),
+  amount: decimal('amount', { precision: 15, scale: 2 }).notNull(), // monthly amount or % of revenue
+  startMonth: int('start_month').notNull().default(1),
+  endMonth: int('end_month'),
+  growthRate: decimal('growth_rate', { precision: 10, scale: 4 }).notNull().default('0'),
+  behavior: varchar('behavior', { length: 20 }).notNull().default('fixed'),
+  sortOrder: int('sort_order').notNull().default(0),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+  projectIdIdx: index('project_id_idx').on(table.projectId),
+}));
+
+export type CostLineRow = typeof costLines.$inferSelect;
+export type InsertCostLineRow = typeof costLines.$inferInsert;
+
+/**
+ * Capex tranches table - capital expenditure spread across months
+ */
+export const capexTranches = mysqlTable('capex_tranches', {
+  id: varchar('id', { length: 36 }).primaryKey(),
+  projectId: varchar('project_id', { length: 36 }).notNull(),
+  name: varchar('name', { length: 255 }).notNull(),
+  amount: decimal('amount', { precision: 15, scale: 2 }).notNull(),
+  month: int('month').notNull().default(0), // 0 = upfront
+  sortOrder: int('sort_order').notNull().default(0),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+  projectIdIdx: index('project_id_idx').on(table.projectId),
+}));
+
+export type CapexTrancheRow = typeof capexTranches.$inferSelect;
+export type InsertCapexTrancheRow = typeof capexTranches.$inferInsert;
+
+/**
+ * Project versions table - immutable audit trail of inputs and results, one row per save
+ */
+export const projectVersions = mysqlTable('project_versions', {
+  id: varchar('id', { length: 36 }).primaryKey(),
+  projectId: varchar('project_id', { length: 36 }).notNull(),
+  version: int('version').notNull(),
+  authorId: int('author_id').notNull(),
+  authorName: varchar('author_name', { length: 255 }),
+  restoredFromVersion: int('restored_from_version'),
+  snapshot: json('snapshot').$type<ProjectVersionSnapshot>().notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+  projectVersionIdx: uniqueIndex('project_version_idx').on(table.projectId, table.version),
+}));
+
+export type ProjectVersionRow = typeof projectVersions.$inferSelect;
+export type InsertProjectVersionRow = typeof projectVersions.$inferInsert;
+
+/**
+ * Project actuals table - recorded cash flow per project month, one row per month
+ */
+export const projectActuals = mysqlTable('project_actuals', {
+  id: varchar('id', { length: 36 }).primaryKey(),
+  projectId: varchar('project_id', { length: 36 }).notNull(),
+  month: int('month').notNull(),
+  revenue: decimal('revenue', { precision: 15, scale: 2 }).notNull().default('0'),
+  operatingCosts: decimal('operating_costs', { precision: 15, scale: 2 }).notNull().default('0'),
+  maintenanceCosts: decimal('maintenance_costs', { precision: 15, scale: 2 }).notNull().default('0'),
+  capex: decimal('capex', { precision: 15, scale: 2 }).notNull().default('0'),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow().onUpdateNow(),
+}, (table) => ({
+  projectMonthIdx: uniqueIndex('project_actual_month_idx').on(table.projectId, table.month),
+}));
+
+export type ProjectActualRow = typeof projectActuals.$inferSelect;
+export type InsertProjectActualRow = typeof projectActuals.$inferInsert;
+
+/**
+ * Share links table - read-only public access to a project through a short token
+ */
+export const shareLinks = mysqlTable('share_links', {
+  id: varchar('id', { length: 36 }).primaryKey(),
+  token: varchar('token', { length: 32 }).notNull(),
+  projectId: varchar('project_id', { length: 36 }).notNull(),
+  createdBy: int('created_by').notNull(),
+  scope: varchar('scope', { length: 16 }).notNull().default('summary'), // 'summary' | 'full'
+  passwordHash: varchar('password_hash', { length: 255 }),
+  expiresAt: timestamp('expires_at'),
+  revokedAt: timestamp('revoked_at'),
+  viewCount: int('view_count').notNull().default(0),
+  lastViewedAt: timestamp('last_viewed_at'),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+  tokenIdx: uniqueIndex('share_link_token_idx').on(table.token),
+  projectIdx: index('share_link_project_idx').on(table.projectId),
+}));
+
+export type ShareLinkRow = typeof shareLinks.$inferSelect;
+export type InsertShareLinkRow = typeof shareLinks.$inferInsert;
+
+/**
+ * Workspaces table - teams that share projects
+ */
+export const workspaces = mysqlTable('workspaces', {
+  id: varchar('id', { length: 36 }).primaryKey(),
+  name: varchar('name', { length: 255 }).notNull(),
+  createdBy: int('created_by').notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow().onUpdateNow(),
+});
+
+export type WorkspaceRow = typeof workspaces.$inferSelect;
+export type InsertWorkspaceRow = typeof workspaces.$inferInsert;
+
+/**
+ * Workspace members table - one role per user and workspace
+ */
+export const workspaceMembers = mysqlTable('workspace_members', {
+  id: varchar('id', { length: 36 }).primaryKey(),
+  workspaceId: varchar('workspace_id', { length: 36 }).notNull(),
+  userId: int('user_id').notNull(),
+  role: varchar('role', { length: 16 }).notNull(), // 'owner' | 'editor' | 'commenter' | 'viewer'
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+  workspaceUserIdx: uniqueIndex('workspace_member_user_idx').on(table.workspaceId, table.userId),
+  userIdx: index('workspace_member_user_id_idx').on(table.userId),
+}));
+
+export type WorkspaceMemberRow = typeof workspaceMembers.$inferSelect;
+export type InsertWorkspaceMemberRow = typeof workspaceMembers.$inferInsert;
+
+/**
+ * Workspace invitations table - single-use tokens accepted in the app, no email delivery
+ */
+export const workspaceInvitations = mysqlTable('workspace_invitations', {
+  id: varchar('id', { length: 36 }).primaryKey(),
+  workspaceId: varchar('workspace_id', { length: 36 }).notNull(),
+  token: varchar('token', { length: 32 }).notNull(),
+  role: varchar('role', { length: 16 }).notNull(),
+  invitedBy: int('invited_by').notNull(),
+  expiresAt: timestamp('expires_at').notNull(),
+  acceptedBy: int('accepted_by'),
+  acceptedAt: timestamp('accepted_at'),
+  revokedAt: timestamp('revoked_at'),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+  tokenIdx: uniqueIndex('workspace_invitation_token_idx').on(table.token),
+  workspaceIdx: index('workspace_invitation_workspace_idx').on(table.workspaceId),
+}));
+
+export type WorkspaceInvitationRow = typeof workspaceInvitations.$inferSelect;
+export type InsertWorkspaceInvitationRow = typeof workspaceInvitations.$inferInsert;
+
+/**
+ * Project comments table - threaded discussion anchored to the project, an input, a scenario or a metric
+ */
+export const projectComments = mysqlTable('project_comments', {
+  id: varchar('id', { length: 36 }).primaryKey(),
+  projectId: varchar('project_id', { length: 36 }).notNull(),
+  parentId: varchar('parent_id', { length: 36 }), // Root comment of the thread, null for roots
+  anchorType: varchar('anchor_type', { length: 16 }).notNull().default('project'), // 'project' | 'input' | 'scenario' | 'metric'
+  anchorKey: varchar('anchor_key', { length: 64 }), // Input field, scenario id or metric key
+  authorId: int('author_id').notNull(),
+  body: text('body').notNull(),
+  mentions: json('mentions').$type<number[]>(),
+  resolvedAt: timestamp('resolved_at'),
+  resolvedBy: int('resolved_by'),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow().onUpdateNow(),
+}, (table) => ({
+  projectIdx: index('project_comment_project_idx').on(table.projectId),
+}));
+
+export type ProjectCommentRow = typeof projectComments.$inferSelect;
+export type InsertProjectCommentRow = typeof projectComments.$inferInsert;
@@ -1,5 +1,19 @@
 import { describe, it, expect } from 'vitest';
 import { CohortMetricsCalculator } from '../lib/infrastructure/calculators/CohortMetricsCalculator';
+import { parseCustomersCsv } from '../lib/cohort-import';
+import type { CustomerRecord } from '../types/project';
+
+const MONTHS = ['2026-01', '2026-02', '2026-03'];
+
+// A customer paying 100 in every month from signup until churn, within the months above
+const customer = (id: string, signup: string, churn?: string): CustomerRecord => ({
+    id,
+    signupDate: `${signup}-01`,
+    churnDate: churn ? `${churn}-15` : undefined,
+    revenue: MONTHS
+        .filter((month) => month >= signup && (!churn || month < churn))
+        .map((month) => ({ date: `${month}-05`, amount: 100 })),
+});
 
 describe('CohortMetricsCalculator', () => {
     const calculator = new CohortMetricsCalculator();
@@ -116,4 +130,100 @@ describe('CohortMetricsCalculator', () => {
             expect(recommendations.some(r => r.includes('Marginal'))).toBe(true);
         });
     });
+
+    describe('buildRetentionMatrix()', () => {
+        const customers = [
+            customer('a1', '2026-01'),
+            customer('a2', '2026-01', '2026-03'),
+            customer('a3', '2026-01', '2026-02'),
+            customer('a4', '2026-01'),
+            customer('b1', '2026-02', '2026-03'),
+            customer('b2', '2026-02'),
+        ];
+
+        it('should build customer and revenue retention triangles', () => {
+            const analysis = calculator.buildRetentionMatrix({ customers });
+
+            expect(analysis.asOf).toBe('2026-03');
+            expect(analysis.cohorts.map((c) => c.cohort)).toEqual(['2026-01', '2026-02']);
+            expect(analysis.cohorts[0].retention).toEqual([100, 75, 50]);
+            expect(analysis.cohorts[0].revenue).toEqual([400, 300, 200]);
+            expect(analysis.cohorts[0].revenueRetention).toEqual([100, 75, 50]);
+            expect(analysis.cohorts[1].retention).toEqual([100, 50]);
+            expect(analysis.averageRetention).toEqual([100, 66.67, 50]);
+        });
+
+        it('should fit the retention curve and feed SaaS inputs', () => {
+            const analysis = calculator.buildRetentionMatrix({ customers, projectionMonths: 4, acquisitionCost: 200 });
+
+            // Average retention falls from 66.67% to 50%: 25% monthly churn
+            expect(analysis.curve.monthlyChurn).toBe(25);
+            expect(analysis.curve.rSquared).toBe(1);
+            expect(analysis.curve.projected[3]).toBe(37.5);
+            expect(analysis.saasInputs).toEqual({ churnRate: 25, averageRevenuePerUser: 100 });
+
+            // 100 + 66.67 + 50 + 37.5 per customer, CAC recovered in the third month
+            expect(analysis.ltv).toBeCloseTo(254.17, 2);
+            expect(analysis.paybackMonth).toBe(2);
+
+            // February cohort: observed 100 and 50, then projected from its 50% retention
+            expect(analysis.cohorts[1].ltv).toBeCloseTo(215.63, 1);
+        });
+
+        it('should reject churn dates before signup', () => {
+            expect(() => calculator.buildRetentionMatrix({
+                customers: [{ id: 'x', signupDate: '2026-03-01', churnDate: '2026-01-01', revenue: [] }],
+            })).toThrow('churns before signing up');
+        });
+    });
+});
+
+describe('parseCustomersCsv', () => {
+    it('should merge rows per customer and map header columns', () => {
+        const { customers, errors } = parseCustomersCsv([
+            'Cliente;Fecha_alta;Fecha;Importe;Baja',
+            'c1;2026-01-03;2026-01-03;50;',
+            'c1;;2026-02-03;50;2026-03-01',
+            'c2;2026-02-10;2026-02-10;80;',
+        ].join('\n'));
+
+        expect(errors).toEqual([]);
+        expect(customers).toEqual([
+            {
+                id: 'c1',
+                signupDate: '2026-01-03',
+                churnDate: '2026-03-01',
+                revenue: [{ date: '2026-01-03', amount: 50 }, { date: '2026-02-03', amount: 50 }],
+            },
+            { id: 'c2', signupDate: '2026-02-10', revenue: [{ date: '2026-02-10', amount: 80 }] },
+        ]);
+    });
+
+    it('should report invalid rows and customers without a signup date', () => {
+        const { customers, errors } = parseCustomersCsv([
+            'c1,2026-01-03,,2026-01-03,50',
+            'c2,2026-13-01,,,',
+            'c3,,,2026-01-05,20',
+            'c1,,,2026-02-03,abc',
+        ].join('\n'));
+
+        expect(customers.map((c) => c.id)).toEqual(['c1']);
+        expect(errors).toEqual([
+            { line: 2, reason: 'invalid_date' },
+            { line: 3, reason: 'missing_signup_date' },
+            { line: 4, reason: 'invalid_number' },
+        ]);
+    });
+
+    it('should read a first row without a signup date as data rather than a header', () => {
+        const { customers, errors } = parseCustomersCsv([
+            'c1,,,2026-01-05,20',
+            'c1,2026-01-03,,,',
+        ].join('\n'));
+
+        expect(errors).toEqual([]);
+        expect(customers).toEqual([
+            { id: 'c1', signupDate: '2026-01-03', revenue: [{ date: '2026-01-05', amount: 20 }] },
+        ]);
+    });
 });
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { Currency, Money } from '../lib/domain/value-objects/Money';
+import { ExchangeRateTable } from '../lib/domain/value-objects/ExchangeRateTable';
+import { CalculationService } from '../lib/application/services/CalculationService';
+import type { ProjectData } from '../types/project';
+
+const table = new ExchangeRateTable({
+    base: Currency.USD,
+    rates: [
+        { date: '2025-01-01', rates: { COP: 4000, EUR: 0.9 } },
+        { date: '2025-07-01', rates: { COP: 4400, EUR: 0.8 } },
+    ],
+});
+
+const project = (id: string, currency: Currency, initialInvestment: number, npv: number): ProjectData => ({
+    id,
+    name: id,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+    initialInvestment,
+    discountRate: 10,
+    projectDuration: 12,
+    yearlyRevenue: 0,
+    revenueGrowth: 0,
+    operatingCosts: 0,
+    maintenanceCosts: 0,
+    bestCaseMultiplier: 1.2,
+    worstCaseMultiplier: 0.8,
+    currency,
+    results: {
+        roi: 0, npv, paybackPeriod: 0, irr: 0,
+        roiBest: 0, npvBest: 0, paybackBest: 0, irrBest: 0,
+        roiWorst: 0, npvWorst: 0, paybackWorst: 0, irrWorst: 0,
+        monthlyCashFlow: [], cumulativeCashFlow: [],
+    },
+});
+
+describe('ExchangeRateTable', () => {
+    it('should use the latest snapshot on or before the date', () => {
+        expect(table.getRate(Currency.USD, Currency.COP, '2025-03-15')).toBe(4000);
+        expect(table.getRate(Currency.USD, Currency.COP, '2025-07-01')).toBe(4400);
+        expect(table.getRate(Currency.USD, Currency.COP)).toBe(4400);
+        // Dates before the table fall back to the earliest snapshot
+        expect(table.getRate(Currency.USD, Currency.COP, '2024-06-01')).toBe(4000);
+    });
+
+    it('should derive cross rates through the base currency', () => {
+        expect(table.getRate(Currency.EUR, Currency.COP, '2025-02-01')).toBeCloseTo(4000 / 0.9, 8);
+        expect(table.getRate(Currency.COP, Currency.COP)).toBe(1);
+    });
+
+    it('should return a new table when a rate is edited', () => {
+        const edited = table.withRate('2025-10-01', Currency.COP, 3900);
+
+        expect(edited.getRate(Currency.USD, Currency.COP)).toBe(3900);
+        expect(table.getRate(Currency.USD, Currency.COP)).toBe(4400);
+        expect(edited.dates).toEqual(['2025-01-01', '2025-07-01', '2025-10-01']);
+    });
+
+    it('should reject missing and invalid rates', () => {
+        expect(() => table.getRate(Currency.USD, Currency.BRL)).toThrow('No exchange rate for BRL');
+        expect(() => table.withRate('2025-10-01', Currency.COP, 0)).toThrow('positive finite number');
+    });
+
+    it('should load the bundled rates', () => {
+        const bundled = ExchangeRateTable.default();
+
+        expect(bundled.base).toBe(Currency.USD);
+        Object.values(Currency).forEach((currency) => {
+            expect(bundled.getRate(currency, Currency.USD)).toBeGreaterThan(0);
+        });
+    });
+});
+
+describe('Money.convertTo', () => {
+    it('should convert with an explicit rate or a dated table', () => {
+        expect(new Money(100, Currency.USD).convertTo(Currency.EUR, 0.9).amount).toBe(90);
+        expect(new Money(4_400_000, Currency.COP).convertTo(Currency.USD, table, '2025-08-01').amount).toBe(1000);
+    });
+
+    it('should sum values in mixed currencies', () => {
+        const total = Money.sum(
+            [new Money(1000, Currency.USD), new Money(4_400_000, Currency.COP)],
+            Currency.USD,
+            table
+        );
+
+        expect(total.amount).toBe(2000);
+        expect(total.currency).toBe(Currency.USD);
+    });
+});
+
+describe('CalculationService.aggregatePortfolio', () => {
+    it('should aggregate COP and USD projects in the reporting currency', async () => {
+        const portfolio = await new CalculationService().aggregatePortfolio(
+            [
+                project('usd', Currency.USD, 10000, 2000),
+                project('cop', Currency.COP, 44_000_000, -4_400_000),
+            ],
+            Currency.USD,
+            table
+        );
+
+        expect(portfolio.totalInvestment).toBe(20000);
+        expect(portfolio.totalNPV).toBe(1000);
+        expect(portfolio.projects.find((p) => p.id === 'cop')?.npv).toBe(-1000);
+    });
+});
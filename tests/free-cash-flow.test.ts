@@ -0,0 +1,174 @@
+import { describe, it, expect } from 'vitest';
+import { FreeCashFlowCalculator } from '../lib/infrastructure/calculators/FreeCashFlowCalculator';
+import { StandardMetricsCalculator } from '../lib/infrastructure/calculators/StandardMetricsCalculator';
+import type { FinancialCalculationInput, FiscalAssumptions } from '../types/project';
+
+const neutralFiscal: FiscalAssumptions = {
+    taxRate: 0,
+    depreciationMethod: 'straight_line',
+    usefulLifeYears: 5,
+    lossCarryForward: true,
+    daysReceivable: 0,
+    daysPayable: 0,
+    daysInventory: 0,
+    terminalValueMethod: 'none',
+};
+
+const input: FinancialCalculationInput = {
+    initialInvestment: 120000,
+    discountRate: 10,
+    projectDuration: 36,
+    yearlyRevenue: 120000,
+    revenueGrowth: 0,
+    operatingCosts: 48000,
+    maintenanceCosts: 0,
+};
+
+const flat = (months: number, value: number) => new Array<number>(months).fill(value);
+
+describe('FreeCashFlowCalculator', () => {
+    const calculator = new FreeCashFlowCalculator();
+
+    it('should apply the depreciation tax shield', () => {
+        const result = calculator.calculate({
+            monthlyRevenue: flat(12, 10000),
+            monthlyCosts: flat(12, 4000),
+            monthlyCapex: flat(12, 0),
+            upfrontInvestment: 120000,
+            discountRate: 10,
+            fiscal: { ...neutralFiscal, taxRate: 25 },
+        });
+
+        // 120,000 over 5 years = 2,000 per month
+        expect(result.depreciation[0]).toBeCloseTo(2000, 6);
+        expect(result.tax[0]).toBeCloseTo((6000 - 2000) * 0.25, 6);
+        expect(result.freeCashFlow[0]).toBeCloseTo(6000 - 1000, 6);
+    });
+
+    it('should offset early losses against later profits', () => {
+        const base = {
+            monthlyRevenue: [0, 0, 10000, 10000],
+            monthlyCosts: flat(4, 5000),
+            monthlyCapex: flat(4, 0),
+            upfrontInvestment: 0,
+            discountRate: 10,
+        };
+
+        const carried = calculator.calculate({ ...base, fiscal: { ...neutralFiscal, taxRate: 20 } });
+        const lost = calculator.calculate({ ...base, fiscal: { ...neutralFiscal, taxRate: 20, lossCarryForward: false } });
+
+        expect(carried.tax).toEqual([0, 0, 0, 0]);
+        expect(lost.tax[2]).toBeCloseTo(1000, 6);
+        expect(carried.unusedLosses).toBe(0);
+    });
+
+    it('should invest in working capital and recover it at the end', () => {
+        const result = calculator.calculate({
+            monthlyRevenue: flat(6, 36500),
+            monthlyCosts: flat(6, 0),
+            monthlyCapex: flat(6, 0),
+            upfrontInvestment: 0,
+            discountRate: 10,
+            fiscal: { ...neutralFiscal, daysReceivable: 30 },
+        });
+
+        // 36,500 × 12 × 30 / 365 = 36,000 tied up in receivables
+        expect(result.workingCapitalChange[0]).toBeCloseTo(36000, 6);
+        expect(result.freeCashFlow[0]).toBeCloseTo(500, 6);
+        expect(result.workingCapitalChange.reduce((sum, v) => sum + v, 0)).toBeCloseTo(0, 6);
+        expect(calculator.summarize(result).peakWorkingCapital).toBe(36000);
+    });
+
+    it('should fully depreciate the investment with declining balance and custom schedules', () => {
+        const months = 120;
+        const series = {
+            monthlyRevenue: flat(months, 0),
+            monthlyCosts: flat(months, 0),
+            monthlyCapex: flat(months, 0),
+            upfrontInvestment: 100000,
+            discountRate: 10,
+        };
+
+        const declining = calculator.calculate({
+            ...series,
+            fiscal: { ...neutralFiscal, depreciationMethod: 'declining_balance', decliningBalanceFactor: 2 },
+        });
+        const custom = calculator.calculate({
+            ...series,
+            fiscal: { ...neutralFiscal, depreciationMethod: 'custom', customDepreciationSchedule: [50, 30, 20] },
+        });
+
+        expect(declining.depreciation.reduce((sum, v) => sum + v, 0)).toBeCloseTo(100000, 4);
+        expect(declining.depreciation[0]).toBeCloseTo(40000 / 12, 6);
+        expect(custom.depreciation[12]).toBeCloseTo(30000 / 12, 6);
+        expect(custom.depreciation[36]).toBe(0);
+    });
+
+    it('should value the business beyond the horizon', () => {
+        const base = {
+            monthlyRevenue: flat(12, 10000),
+            monthlyCosts: flat(12, 5000),
+            monthlyCapex: flat(12, 0),
+            upfrontInvestment: 0,
+            discountRate: 10,
+        };
+
+        const gordon = calculator.calculate({
+            ...base,
+            fiscal: { ...neutralFiscal, terminalValueMethod: 'gordon_growth', terminalGrowthRate: 2 },
+        });
+        const multiple = calculator.calculate({
+            ...base,
+            fiscal: { ...neutralFiscal, terminalValueMethod: 'exit_multiple', exitMultiple: 5 },
+        });
+
+        expect(gordon.terminalValue).toBeCloseTo((60000 * 1.02) / 0.08, 2);
+        expect(gordon.presentTerminalValue).toBeCloseTo(gordon.terminalValue / 1.1, 2);
+        expect(multiple.terminalValue).toBe(300000);
+    });
+
+    it('should reject invalid assumptions', () => {
+        const base = {
+            monthlyRevenue: [1000],
+            monthlyCosts: [0],
+            monthlyCapex: [0],
+            upfrontInvestment: 0,
+            discountRate: 10,
+        };
+
+        expect(() => calculator.calculate({
+            ...base,
+            fiscal: { ...neutralFiscal, terminalValueMethod: 'gordon_growth', terminalGrowthRate: 10 },
+        })).toThrow('terminalGrowthRate');
+        expect(() => calculator.calculate({
+            ...base,
+            fiscal: { ...neutralFiscal, depreciationMethod: 'custom', customDepreciationSchedule: [60, 60] },
+        })).toThrow('100%');
+    });
+});
+
+describe('StandardMetricsCalculator with fiscal assumptions', () => {
+    const calculator = new StandardMetricsCalculator();
+
+    it('should match pre-tax metrics when the fiscal layer is neutral', () => {
+        const pretax = calculator.calculate(input);
+        const { freeCashFlow, ...afterTax } = calculator.calculate({ ...input, fiscalAssumptions: neutralFiscal });
+
+        expect(freeCashFlow).toBeDefined();
+        expect(afterTax).toEqual(pretax);
+    });
+
+    it('should lower NPV with tax and include the terminal value in NPV only', () => {
+        const pretax = calculator.calculate(input);
+        const taxed = calculator.calculate({ ...input, fiscalAssumptions: { ...neutralFiscal, taxRate: 25 } });
+        const withTerminal = calculator.calculate({
+            ...input,
+            fiscalAssumptions: { ...neutralFiscal, taxRate: 25, terminalValueMethod: 'exit_multiple', exitMultiple: 4 },
+        });
+
+        expect(taxed.npv).toBeLessThan(pretax.npv);
+        expect(withTerminal.npv).toBeCloseTo(taxed.npv + withTerminal.freeCashFlow!.presentTerminalValue, 0);
+        expect(withTerminal.paybackPeriod).toBe(taxed.paybackPeriod);
+        expect(withTerminal.irr).toBeGreaterThan(taxed.irr);
+    });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { RiskMetricsCalculator } from '../lib/infrastructure/calculators/RiskMetricsCalculator';
+import { CalculateFinancialMetrics } from '../lib/application/use-cases/CalculateFinancialMetrics';
+import type { ProjectData, RiskInput } from '../types/project';
+
+const input: RiskInput = {
+    currentCash: 300000,
+    monthlyBurnRate: 50000,
+    monthlyChurnRate: 2,
+    currentMRR: 20000,
+    averageContractValue: 1200,
+    asOfDate: '2026-01-01',
+    fundraisingRounds: [
+        { name: 'Series A', date: '2026-12-01', amount: 3000000, preMoneyValuation: 12000000 },
+        { name: 'Seed', date: '2026-05-01', amount: 1000000, preMoneyValuation: 4000000 },
+    ],
+    capTable: [
+        { holder: 'Alex', kind: 'founder', ownership: 45 },
+        { holder: 'Sam', kind: 'founder', ownership: 45 },
+        { holder: 'Pool', kind: 'employee', ownership: 10 },
+    ],
+    burnScenarios: [
+        { name: 'Hire freeze', monthlyBurnRate: 35000 },
+        { name: 'Growth plan', monthlyBurnRate: 90000 },
+    ],
+    minimumRunwayMonths: 6,
+};
+
+describe('RiskMetricsCalculator fundraising', () => {
+    const calculator = new RiskMetricsCalculator();
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should keep the single-number runway without rounds', () => {
+        const result = calculator.calculate({ ...input, fundraisingRounds: undefined, plannedFundraising: 100000 });
+
+        expect(result.runway_months).toBe(8);
+        expect(result.zero_cash_date).toBe('2026-09-01');
+        expect(result.cap_table).toEqual([]);
+    });
+
+    it('should add rounds that close before cash runs out', () => {
+        const result = calculator.calculate(input);
+        const [current, freeze, growth] = result.runway_scenarios;
+
+        expect(current.name).toBe('Current plan');
+        expect(current.roundsFunded).toBe(2);
+        expect(result.runway_months).toBeCloseTo(86, 0);
+        expect(freeze.runwayMonths).toBeGreaterThan(current.runwayMonths!);
+        // At 90k a month the 300k runs out before the seed round closes
+        expect(growth.roundsFunded).toBe(0);
+        expect(growth.runwayMonths).toBeCloseTo(3.33, 2);
+    });
+
+    it('should set the raise-by date from the runway without the next round', () => {
+        const result = calculator.calculate(input);
+
+        // 300k at 50k a month lasts 6 months without the seed round
+        expect(result.runway_months).toBeCloseTo(86, 0);
+        expect(result.raise_by_date).toBe('2026-01-01');
+        expect(calculator.calculate({ ...input, minimumRunwayMonths: 2 }).raise_by_date).toBe('2026-05-01');
+    });
+
+    it('should treat rounds before the as-of date as already in the cash and cap table', () => {
+        const closed = { name: 'Pre-seed', date: '2025-06-01', amount: 500000, preMoneyValuation: 2000000 };
+        const result = calculator.calculate({ ...input, fundraisingRounds: [closed, ...input.fundraisingRounds!] });
+        const withoutClosed = calculator.calculate(input);
+
+        expect(result.runway_months).toBe(withoutClosed.runway_months);
+        expect(result.runway_scenarios[0].roundsFunded).toBe(2);
+        expect(result.cap_table.map((round) => round.round)).toEqual(['Seed', 'Series A']);
+        expect(result.cap_table[0].founderOwnership).toBe(72);
+    });
+
+    it('should set the raise-by date the minimum runway ahead of zero cash', () => {
+        const result = calculator.calculate({ ...input, fundraisingRounds: [] });
+
+        expect(result.runway_months).toBe(6);
+        expect(result.raise_by_date).toBe('2026-01-01');
+        expect(calculator.calculate({ ...input, fundraisingRounds: [], minimumRunwayMonths: 2 }).raise_by_date)
+            .toBe('2026-05-01');
+        expect(calculator.calculate({ ...input, minimumRunwayMonths: undefined }).raise_by_date).toBeNull();
+    });
+
+    it('should dilute every holder by pre-money over post-money in date order', () => {
+        const [seed, seriesA] = calculator.calculate(input).cap_table;
+
+        expect(seed.round).toBe('Seed');
+        expect(seed.postMoneyValuation).toBe(5000000);
+        expect(seed.founderOwnership).toBe(72);
+        expect(seed.investorOwnership).toBe(20);
+        expect(seriesA.founderOwnership).toBe(57.6);
+        expect(seriesA.investorOwnership).toBe(36);
+        expect(seriesA.entries.find((entry) => entry.holder === 'Seed')?.ownership).toBe(16);
+        expect(seriesA.entries.reduce((sum, entry) => sum + entry.ownership, 0)).toBeCloseTo(100, 6);
+    });
+
+    it('should report no runway limit when nothing is burnt', () => {
+        const result = calculator.calculate({ ...input, monthlyBurnRate: 0 });
+        const [current, freeze] = result.runway_scenarios;
+
+        expect(result.runway_months).toBeNull();
+        expect(result.zero_cash_date).toBeNull();
+        expect(result.raise_by_date).toBeNull();
+        expect(current.roundsFunded).toBe(2);
+        expect(freeze.runwayMonths).toBeGreaterThan(0);
+    });
+
+    it('should date a missing as-of date from midnight UTC today', () => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2026-03-10T21:45:00Z'));
+
+        const seed = { name: 'Seed', date: '2026-03-10', amount: 1000000, preMoneyValuation: 4000000 };
+        const result = calculator.calculate({ ...input, asOfDate: undefined, fundraisingRounds: [seed] });
+
+        // A round closing today is still upcoming late in the day
+        expect(result.runway_scenarios[0].roundsFunded).toBe(1);
+        expect(result.cap_table.map((round) => round.round)).toEqual(['Seed']);
+        expect(result.zero_cash_date).toBe('2028-05-10');
+    });
+
+    it('should reject a cap table that does not add up to 100%', () => {
+        expect(() => calculator.calculate({
+            ...input,
+            capTable: [{ holder: 'Alex', kind: 'founder', ownership: 80 }],
+        })).toThrow('capTable');
+    });
+});
+
+describe('CalculateFinancialMetrics runway context', () => {
+    it('should explain the runway with scenarios, raise-by date and dilution', async () => {
+        const project: ProjectData = {
+            id: 'r1',
+            name: 'Startup',
+            createdAt: '2026-01-01T00:00:00.000Z',
+            updatedAt: '2026-01-01T00:00:00.000Z',
+            initialInvestment: 100000,
+            discountRate: 10,
+            projectDuration: 24,
+            yearlyRevenue: 240000,
+            revenueGrowth: 50,
+            operatingCosts: 600000,
+            maintenanceCosts: 0,
+            bestCaseMultiplier: 1.2,
+            worstCaseMultiplier: 0.8,
+            riskInput: { ...input, burnScenarios: [{ name: 'Growth plan', monthlyBurnRate: 90000 }] },
+        };
+        const results = await new CalculateFinancialMetrics().execute(project);
+        const runway = results.risk.find((metric) => metric.name === 'Runway');
+
+        expect(runway?.context.category).toBe('risk');
+        expect(runway?.context.recommendations?.some((line) => line.startsWith('Close the next round by'))).toBe(true);
+        expect(runway?.context.recommendations?.some((line) => line.startsWith('Growth plan'))).toBe(true);
+        expect(runway?.context.recommendations?.some((line) => line.includes('57.6%'))).toBe(true);
+    });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { InflationCalculator } from '../lib/infrastructure/calculators/InflationCalculator';
+import { StandardMetricsCalculator } from '../lib/infrastructure/calculators/StandardMetricsCalculator';
+import { NPVContextStrategy } from '../lib/infrastructure/strategies/NPVContextStrategy';
+import type { FinancialCalculationInput, InflationAssumptions } from '../types/project';
+
+const inflation: InflationAssumptions = {
+    annualRate: 5,
+    applyToRevenue: true,
+    applyToOperatingCosts: true,
+    applyToMaintenanceCosts: true,
+};
+
+const input: FinancialCalculationInput = {
+    initialInvestment: 100000,
+    discountRate: 12,
+    projectDuration: 36,
+    yearlyRevenue: 80000,
+    revenueGrowth: 0,
+    operatingCosts: 20000,
+    maintenanceCosts: 5000,
+    inflation,
+};
+
+describe('InflationCalculator', () => {
+    const calculator = new InflationCalculator();
+
+    it('should compound a flat rate smoothly within each year', () => {
+        const index = calculator.priceIndex(inflation, 25);
+
+        expect(index[0]).toBe(1);
+        expect(index[6]).toBeCloseTo(Math.sqrt(1.05), 10);
+        expect(index[12]).toBeCloseTo(1.05, 10);
+        expect(index[24]).toBeCloseTo(1.05 * 1.05, 10);
+        expect(calculator.averageAnnualRate(index)).toBeCloseTo(5, 8);
+    });
+
+    it('should follow a per-year curve and fall back to the flat rate', () => {
+        const index = calculator.priceIndex({ ...inflation, annualRate: 2, curve: [10, 6] }, 37);
+
+        expect(index[12]).toBeCloseTo(1.10, 10);
+        expect(index[24]).toBeCloseTo(1.10 * 1.06, 10);
+        expect(index[36]).toBeCloseTo(1.10 * 1.06 * 1.02, 10);
+    });
+
+    it('should reject rates outside the supported range', () => {
+        expect(() => calculator.priceIndex({ ...inflation, curve: [5, -80] }, 24)).toThrow('curve[1]');
+    });
+});
+
+describe('StandardMetricsCalculator valuation basis', () => {
+    const calculator = new StandardMetricsCalculator();
+
+    it('should report the same NPV on the real and nominal bases', () => {
+        const nominal = calculator.calculate({ ...input, valuationBasis: 'nominal' });
+        const real = calculator.calculate({ ...input, valuationBasis: 'real' });
+
+        expect(nominal.valuationBasis).toBe('nominal');
+        expect(real.valuationBasis).toBe('real');
+        expect(real.npv).toBe(nominal.npv);
+    });
+
+    it('should relate real and nominal IRR through the Fisher equation', () => {
+        const nominal = calculator.calculate({ ...input, valuationBasis: 'nominal' });
+        const real = calculator.calculate({ ...input, valuationBasis: 'real' });
+        const unindexed = calculator.calculate({ ...input, inflation: undefined });
+
+        // Real IRR is the return on today's-price flows; monthly timing keeps Fisher approximate
+        const fisherReal = ((1 + nominal.irr / 100) / 1.05 - 1) * 100;
+        expect(real.irr).toBe(unindexed.irr);
+        expect(Math.abs(real.irr - fisherReal)).toBeLessThan(0.5);
+        // Deflated flows are the un-indexed amounts
+        expect(real.monthlyCashFlow[30]).toBeCloseTo((80000 - 20000 - 5000) / 12, 6);
+    });
+
+    it('should index revenue, operating and maintenance costs independently', () => {
+        const flat = calculator.calculate({ ...input, inflation: undefined });
+        const costsOnly = calculator.calculate({
+            ...input,
+            inflation: { ...inflation, applyToRevenue: false, applyToMaintenanceCosts: false },
+        });
+
+        const priceLevel = Math.pow(1.05, 2);
+        expect(costsOnly.monthlyCashFlow[24]).toBeCloseTo((80000 - 20000 * priceLevel - 5000) / 12, 6);
+        expect(costsOnly.npv).toBeLessThan(flat.npv);
+    });
+
+    it('should fall back to nominal without an inflation assumption', () => {
+        const result = calculator.calculate({ ...input, inflation: undefined, valuationBasis: 'real' });
+
+        expect(result.valuationBasis).toBe('nominal');
+    });
+});
+
+describe('NPVContextStrategy', () => {
+    it('should state the valuation basis in its assumptions', () => {
+        const strategy = new NPVContextStrategy();
+
+        const real = strategy.generateContext(1000, { ...input, valuationBasis: 'real' });
+        const nominal = strategy.generateContext(1000, { ...input, inflation: undefined });
+
+        expect(real.assumptions).toContain(
+            "Valuation basis: real (cash flows in today's prices, discounted at the Fisher real rate; inflation 5% annually)"
+        );
+        expect(nominal.assumptions.some((line) => line.startsWith('Valuation basis: nominal'))).toBe(true);
+    });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { IRRCalculator } from '../lib/infrastructure/calculators/IRRCalculator';
+import { StandardMetricsCalculator } from '../lib/infrastructure/calculators/StandardMetricsCalculator';
+import { IRRStrategy } from '../lib/business-logic/financial-core';
+import type { FinancialCalculationInput } from '../types/project';
+
+const input: FinancialCalculationInput = {
+    initialInvestment: 100000,
+    discountRate: 10,
+    projectDuration: 24,
+    yearlyRevenue: 120000,
+    revenueGrowth: 0,
+    operatingCosts: 36000,
+    maintenanceCosts: 0,
+};
+
+describe('IRRCalculator', () => {
+    const calculator = new IRRCalculator();
+
+    it('should find the single root of conventional cash flows', () => {
+        const result = calculator.solve([-1000, 500, 400, 300]);
+
+        // NPV at the reported rate is zero
+        const npv = [-1000, 500, 400, 300].reduce((sum, cf, t) => sum + cf / Math.pow(1 + result.rate!, t), 0);
+        expect(result.status).toBe('converged');
+        expect(result.rate).toBeCloseTo(0.1065, 4);
+        expect(npv).toBeCloseTo(0, 6);
+        expect(result.signChanges).toBe(1);
+    });
+
+    it('should report flows without a sign change', () => {
+        const result = calculator.solve([1000, 200, 300]);
+
+        expect(result.rate).toBeNull();
+        expect(result.status).toBe('no_sign_change');
+    });
+
+    it('should detect multiple roots and pick the one closest to the preferred rate', () => {
+        const result = calculator.solve([-100, 230, -132], 0.18);
+
+        expect(result.status).toBe('multiple_roots');
+        expect(result.roots).toHaveLength(2);
+        expect(result.roots[0]).toBeCloseTo(0.1, 8);
+        expect(result.roots[1]).toBeCloseTo(0.2, 8);
+        expect(result.rate).toBeCloseTo(0.2, 8);
+    });
+
+    it('should report no root when NPV never crosses zero', () => {
+        // NPV(r) = 1 - 3v + 3v^2 stays positive for every rate
+        const result = calculator.solve([1, -3, 3]);
+
+        expect(result.signChanges).toBe(2);
+        expect(result.rate).toBeNull();
+        expect(result.status).toBe('no_root');
+    });
+
+    it('should calculate MIRR with separate finance and reinvestment rates', () => {
+        const mirr = calculator.mirr([-1000, -4000, 5000, 2000], 0.1, 0.12);
+
+        // PV outflows = 1000 + 4000 / 1.1, FV inflows = 5000 × 1.12 + 2000
+        const expected = Math.pow((5000 * 1.12 + 2000) / (1000 + 4000 / 1.1), 1 / 3) - 1;
+        expect(mirr).toBeCloseTo(expected, 10);
+        expect(calculator.mirr([100, 200], 0.1, 0.1)).toBeNull();
+    });
+
+    it('should calculate XIRR over dated cash flows', () => {
+        const result = calculator.xirr([
+            { date: '2008-01-01', amount: -10000 },
+            { date: '2008-03-01', amount: 2750 },
+            { date: '2008-10-30', amount: 4250 },
+            { date: '2009-02-15', amount: 3250 },
+            { date: '2009-04-01', amount: 2750 },
+        ]);
+
+        expect(result.status).toBe('converged');
+        expect(result.rate).toBeCloseTo(0.373362535, 6);
+    });
+
+    it('should reject invalid XIRR dates', () => {
+        expect(() => calculator.xirr([
+            { date: 'not a date', amount: -100 },
+            { date: '2024-01-01', amount: 120 },
+        ])).toThrow('flows[0].date');
+    });
+});
+
+describe('StandardMetricsCalculator IRR diagnostics', () => {
+    const calculator = new StandardMetricsCalculator();
+
+    it('should report a converged IRR and MIRR for a conventional project', () => {
+        const result = calculator.calculate(input);
+
+        expect(result.irrDiagnostics.status).toBe('converged');
+        expect(result.irrDiagnostics.roots).toEqual([result.irr]);
+        expect(result.irr).toBeGreaterThan(input.discountRate);
+        // Reinvesting at the lower discount rate pulls MIRR below IRR
+        expect(result.mirr).toBeLessThan(result.irr);
+    });
+
+    it('should flag an undefined IRR instead of returning a guess', () => {
+        const result = calculator.calculate({ ...input, yearlyRevenue: 0 });
+
+        expect(result.irr).toBe(0);
+        expect(result.irrDiagnostics.status).toBe('no_sign_change');
+        expect(result.mirr).toBeUndefined();
+    });
+});
+
+describe('IRRStrategy', () => {
+    it('should warn when IRR is not unique', async () => {
+        const metric = await new IRRStrategy().calculate({
+            investment: 100,
+            savings: 0,
+            discountRate: 0.12,
+            timeHorizon: 2,
+            cashFlows: [230, -132],
+        });
+
+        expect(metric.value).toBeCloseTo(10, 6);
+        expect(metric.warnings?.length).toBeGreaterThan(0);
+    });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { LineItemCashFlowCalculator } from '../lib/infrastructure/calculators/LineItemCashFlowCalculator';
+import { StandardMetricsCalculator } from '../lib/infrastructure/calculators/StandardMetricsCalculator';
+import type { FinancialCalculationInput, LineItemModel } from '../types/project';
+
+const model: LineItemModel = {
+    revenueStreams: [
+        { id: 'r1', name: 'Subscriptions', monthlyAmount: 10000, startMonth: 1, growthRate: 0, behavior: 'variable' },
+        { id: 'r2', name: 'Support contract', monthlyAmount: 2000, startMonth: 4, endMonth: 6, growthRate: 0, behavior: 'fixed' },
+    ],
+    costLines: [
+        { id: 'c1', name: 'Rent', amount: 3000, startMonth: 1, growthRate: 0, behavior: 'fixed' },
+        { id: 'c2', name: 'Commissions', amount: 10, startMonth: 1, growthRate: 0, behavior: 'variable' },
+    ],
+    capexTranches: [
+        { id: 'k1', name: 'Build', amount: 20000, month: 0 },
+        { id: 'k2', name: 'Expansion', amount: 5000, month: 3 },
+    ],
+};
+
+describe('LineItemCashFlowCalculator', () => {
+    const calculator = new LineItemCashFlowCalculator();
+
+    it('should respect start and end months', () => {
+        const result = calculator.calculate(model, 8);
+
+        expect(result.monthlyRevenue[2]).toBe(10000);
+        expect(result.monthlyRevenue[3]).toBe(12000);
+        expect(result.monthlyRevenue[5]).toBe(12000);
+        expect(result.monthlyRevenue[6]).toBe(10000);
+    });
+
+    it('should compute variable costs as a share of revenue', () => {
+        const result = calculator.calculate(model, 6);
+
+        expect(result.monthlyCosts[0]).toBe(3000 + 1000);
+        expect(result.monthlyCosts[3]).toBe(3000 + 1200);
+    });
+
+    it('should spread capex across months', () => {
+        const result = calculator.calculate(model, 6);
+
+        expect(result.upfrontInvestment).toBe(20000);
+        expect(result.totalCapex).toBe(25000);
+        expect(result.monthlyCapex[2]).toBe(5000);
+        expect(result.monthlyCashFlow[2]).toBe(result.operatingCashFlow[2] - 5000);
+    });
+
+    it('should apply growth from each stream start month', () => {
+        const growing: LineItemModel = {
+            revenueStreams: [{ id: 'r', name: 'Late', monthlyAmount: 1000, startMonth: 13, growthRate: 10, behavior: 'variable' }],
+            costLines: [],
+            capexTranches: [],
+        };
+        const result = calculator.calculate(growing, 25);
+
+        expect(result.monthlyRevenue[11]).toBe(0);
+        expect(result.monthlyRevenue[12]).toBe(1000);
+        expect(result.monthlyRevenue[24]).toBeCloseTo(1100, 6);
+    });
+
+    it('should only scale variable revenue with the scenario multiplier', () => {
+        const result = calculator.calculate(model, 6, 1.5);
+
+        expect(result.monthlyRevenue[0]).toBe(15000);
+        expect(result.monthlyRevenue[3]).toBe(17000);
+    });
+
+    it('should reject an end month before the start month', () => {
+        const invalid: LineItemModel = {
+            ...model,
+            costLines: [{ id: 'c', name: 'Broken', amount: 100, startMonth: 5, endMonth: 2, growthRate: 0, behavior: 'fixed' }],
+        };
+
+        expect(() => calculator.calculate(invalid, 12)).toThrow('Broken.endMonth');
+    });
+});
+
+describe('StandardMetricsCalculator with line items', () => {
+    const calculator = new StandardMetricsCalculator();
+    const input: FinancialCalculationInput = {
+        initialInvestment: 999999,
+        discountRate: 10,
+        projectDuration: 24,
+        yearlyRevenue: 0,
+        revenueGrowth: 0,
+        operatingCosts: 0,
+        maintenanceCosts: 0,
+        lineItems: model,
+    };
+
+    it('should build cash flows from line items instead of the single pair', () => {
+        const result = calculator.calculate(input);
+        const aggregated = new LineItemCashFlowCalculator().calculate(model, 24);
+
+        expect(result.monthlyCashFlow).toEqual(aggregated.monthlyCashFlow);
+        expect(result.cumulativeCashFlow[0]).toBeCloseTo(-20000 + aggregated.monthlyCashFlow[0], 6);
+        expect(result.npv).toBeGreaterThan(0);
+    });
+
+    it('should fall back to the simple model when line items are empty', () => {
+        const simple = { ...input, initialInvestment: 50000, yearlyRevenue: 60000 };
+        const withEmpty = calculator.calculate({
+            ...simple,
+            lineItems: { revenueStreams: [], costLines: [], capexTranches: [] },
+        });
+        const without = calculator.calculate({ ...simple, lineItems: undefined });
+
+        expect(withEmpty).toEqual(without);
+    });
+});
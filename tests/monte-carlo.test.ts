@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+import { MonteCarloCalculator } from '../lib/infrastructure/calculators/MonteCarloCalculator';
+import { CalculationService } from '../lib/application/services/CalculationService';
+import type { FinancialCalculationInput, MonteCarloConfig } from '../types/project';
+
+const baseInput: FinancialCalculationInput = {
+    initialInvestment: 100000,
+    discountRate: 10,
+    projectDuration: 36,
+    yearlyRevenue: 80000,
+    revenueGrowth: 5,
+    operatingCosts: 30000,
+    maintenanceCosts: 5000,
+};
+
+describe('MonteCarloCalculator', () => {
+    const calculator = new MonteCarloCalculator();
+
+    it('should be reproducible for the same seed', () => {
+        const config = calculator.createDefaultConfig(baseInput, {}, 300, 7);
+
+        const first = calculator.calculate(baseInput, config);
+        const second = calculator.calculate(baseInput, config);
+
+        expect(first).toEqual(second);
+    });
+
+    it('should produce ordered percentiles and a complete histogram', () => {
+        const config = calculator.createDefaultConfig(baseInput, {}, 500, 1);
+        const result = calculator.calculate(baseInput, config);
+
+        expect(result.npv.p10).toBeLessThanOrEqual(result.npv.p50);
+        expect(result.npv.p50).toBeLessThanOrEqual(result.npv.p90);
+        expect(result.irr.p10).toBeLessThanOrEqual(result.irr.p90);
+        expect(result.histogram).toHaveLength(20);
+        expect(result.histogram.reduce((sum, bin) => sum + bin.count, 0)).toBe(500);
+    });
+
+    it('should collapse to the deterministic NPV without distributions', () => {
+        const config: MonteCarloConfig = { iterations: 50, seed: 3, distributions: {} };
+        const result = calculator.calculate(baseInput, config);
+
+        expect(result.npv.p10).toBe(result.npv.p90);
+        expect(result.npv.stdDev).toBe(0);
+        expect(result.histogram).toHaveLength(1);
+    });
+
+    it('should leave runs without an IRR out of the IRR percentiles', () => {
+        const config: MonteCarloConfig = {
+            iterations: 200,
+            seed: 5,
+            distributions: {
+                yearlyRevenue: { type: 'uniform', min: 0, max: 160000 },
+            },
+        };
+        const result = calculator.calculate(baseInput, config);
+        // Revenue below the running costs leaves only outflows, which have no IRR
+        const loss = calculator.calculate({ ...baseInput, yearlyRevenue: 20000 }, { iterations: 20, seed: 5, distributions: {} });
+
+        expect(result.irr.undetermined).toBeGreaterThan(0);
+        expect(result.irr.undetermined).toBeLessThan(200);
+        expect(result.irr.p10).toBeLessThan(0);
+        expect(loss.irr.undetermined).toBe(20);
+    });
+
+    it('should report a high probability of loss for an unviable project', () => {
+        const config: MonteCarloConfig = {
+            iterations: 400,
+            seed: 11,
+            distributions: {
+                yearlyRevenue: { type: 'uniform', min: 20000, max: 60000 },
+            },
+        };
+        const result = calculator.calculate(baseInput, config);
+
+        expect(result.probabilityOfLoss).toBeGreaterThan(90);
+    });
+
+    it('should sample triangular inputs within their bounds', () => {
+        const config: MonteCarloConfig = {
+            iterations: 200,
+            seed: 5,
+            distributions: {
+                initialInvestment: { type: 'triangular', min: 90000, mode: 100000, max: 150000 },
+            },
+        };
+        const low = calculator.calculate({ ...baseInput, initialInvestment: 150000 }, { ...config, distributions: {} });
+        const high = calculator.calculate({ ...baseInput, initialInvestment: 90000 }, { ...config, distributions: {} });
+        const result = calculator.calculate(baseInput, config);
+
+        expect(result.npv.p10).toBeGreaterThanOrEqual(low.npv.p10);
+        expect(result.npv.p90).toBeLessThanOrEqual(high.npv.p90);
+    });
+
+    it('should reject invalid distributions', () => {
+        expect(() => calculator.calculate(baseInput, {
+            iterations: 10,
+            seed: 1,
+            distributions: {
+                operatingCosts: { type: 'triangular', min: 10, mode: 5, max: 20 },
+            },
+        })).toThrow('min <= mode <= max');
+    });
+
+    it('should not sample a zero investment by default', () => {
+        const input = { ...baseInput, initialInvestment: 0 };
+        const config = calculator.createDefaultConfig(input, {}, 100, 4);
+
+        expect(config.distributions.initialInvestment).toBeUndefined();
+        expect(() => calculator.calculate(input, config)).not.toThrow();
+    });
+
+    it('should vary line-item revenue and costs through the multipliers', () => {
+        const input: FinancialCalculationInput = {
+            ...baseInput,
+            initialInvestment: 0,
+            lineItems: {
+                revenueStreams: [{ id: 'r1', name: 'Sales', monthlyAmount: 8000, startMonth: 1, growthRate: 0, behavior: 'variable' }],
+                costLines: [{ id: 'c1', name: 'Staff', amount: 4000, startMonth: 1, growthRate: 0, behavior: 'fixed' }],
+                capexTranches: [{ id: 'k1', name: 'Machine', amount: 90000, month: 0 }],
+            },
+        };
+        const config = calculator.createDefaultConfig(input, { bestCaseMultiplier: 1.3, worstCaseMultiplier: 0.7 }, 300, 9);
+        const result = calculator.calculate(input, config);
+
+        expect(config.distributions.yearlyRevenue).toBeUndefined();
+        expect(config.distributions.revenueMultiplier).toMatchObject({ min: 0.7, mode: 1, max: 1.3 });
+        expect(config.distributions.costMultiplier).toBeDefined();
+        expect(result.npv.stdDev).toBeGreaterThan(0);
+    });
+});
+
+describe('CalculationService Monte Carlo integration', () => {
+    it('should include the simulation in calculateAll', async () => {
+        const service = new CalculationService();
+        const results = await service.calculateAll({
+            id: 'test',
+            name: 'Test',
+            createdAt: new Date().toISOString(),
+            updatedAt: new Date().toISOString(),
+            ...baseInput,
+            bestCaseMultiplier: 1.2,
+            worstCaseMultiplier: 0.8,
+            monteCarloConfig: { iterations: 100, seed: 2, distributions: {} },
+        });
+
+        expect(results.monteCarlo?.iterations).toBe(100);
+        expect(results.monteCarlo?.npv.p50).toBe(results.standard.npv);
+    });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import { PortfolioOptimizationCalculator } from '../lib/infrastructure/calculators/PortfolioOptimizationCalculator';
+import { CalculationService } from '../lib/application/services/CalculationService';
+import { Currency } from '../lib/domain/value-objects/Money';
+import { ExchangeRateTable } from '../lib/domain/value-objects/ExchangeRateTable';
+import type { PortfolioCandidate, ProjectData } from '../types/project';
+
+const candidate = (
+    id: string,
+    investment: number,
+    npv: number,
+    worstCaseNpv: number = npv,
+    businessModel: PortfolioCandidate['businessModel'] = 'standard'
+): PortfolioCandidate => ({ id, name: id, investment, npv, worstCaseNpv, businessModel });
+
+const candidates = [
+    candidate('a', 60, 100, 20),
+    candidate('b', 50, 70, 60),
+    candidate('c', 50, 70, 40, 'saas'),
+    candidate('d', 40, -10, -30),
+];
+
+describe('PortfolioOptimizationCalculator', () => {
+    const calculator = new PortfolioOptimizationCalculator();
+
+    it('should pick the subset with the highest total NPV within budget', () => {
+        const result = calculator.calculate(candidates, 100);
+
+        // Greedy by NPV per unit would take 'a' (100); b + c together are worth 140
+        expect(result.feasible).toBe(true);
+        expect(result.best?.projectIds.sort()).toEqual(['b', 'c']);
+        expect(result.best?.totalNPV).toBe(140);
+        expect(result.best?.totalInvestment).toBe(100);
+        expect(result.exhaustive).toBe(true);
+    });
+
+    it('should honour mandatory projects, exclusive pairs and business model caps', () => {
+        expect(calculator.calculate(candidates, 110, { mandatory: ['a'] }).best?.projectIds.sort()).toEqual(['a', 'b']);
+        expect(calculator.calculate(candidates, 100, { mutuallyExclusive: [['b', 'c']] }).best?.projectIds).toEqual(['a']);
+        expect(
+            calculator.calculate(candidates, 200, { maxPerBusinessModel: { standard: 1 } }).best?.projectIds.sort()
+        ).toEqual(['a', 'c']);
+    });
+
+    it('should report infeasible constraints', () => {
+        const result = calculator.calculate(candidates, 100, { mandatory: ['a', 'b'] });
+
+        expect(result.feasible).toBe(false);
+        expect(result.best).toBeNull();
+    });
+
+    it('should trace the NPV versus risk frontier from lowest risk upwards', () => {
+        const { frontier, best } = calculator.calculate(candidates, 200);
+
+        expect(frontier[frontier.length - 1]).toEqual(best);
+        expect(frontier[0]).toEqual({ projectIds: [], totalInvestment: 0, totalNPV: 0, risk: 0 });
+        for (let i = 1; i < frontier.length; i++) {
+            expect(frontier[i].risk).toBeGreaterThan(frontier[i - 1].risk);
+            expect(frontier[i].totalNPV).toBeGreaterThan(frontier[i - 1].totalNPV);
+        }
+        // b has the best NPV for its risk, so it is the first step off zero
+        expect(frontier[1].projectIds).toEqual(['b']);
+    });
+
+    it('should reject constraints on unknown projects', () => {
+        expect(() => calculator.calculate(candidates, 100, { mandatory: ['z'] })).toThrow('unknown project id z');
+    });
+});
+
+describe('CalculationService.optimizePortfolio', () => {
+    it('should compare projects in the reporting currency and skip unrated ones', async () => {
+        const rates = new ExchangeRateTable({ base: Currency.USD, rates: [{ date: '2025-01-01', rates: { COP: 4000 } }] });
+        const base = {
+            createdAt: '2025-01-01T00:00:00.000Z',
+            updatedAt: '2025-01-01T00:00:00.000Z',
+            discountRate: 10,
+            projectDuration: 12,
+            yearlyRevenue: 0,
+            revenueGrowth: 0,
+            operatingCosts: 0,
+            maintenanceCosts: 0,
+            bestCaseMultiplier: 1.2,
+            worstCaseMultiplier: 0.8,
+        };
+        const results = (npv: number, npvWorst: number) => ({
+            roi: 0, npv, paybackPeriod: 0, irr: 0,
+            roiBest: 0, npvBest: 0, paybackBest: 0, irrBest: 0,
+            roiWorst: 0, npvWorst, paybackWorst: 0, irrWorst: 0,
+            monthlyCashFlow: [], cumulativeCashFlow: [],
+        });
+        const projects: ProjectData[] = [
+            { ...base, id: 'usd', name: 'USD', initialInvestment: 1000, results: results(300, 100) },
+            { ...base, id: 'cop', name: 'COP', currency: Currency.COP, initialInvestment: 4_000_000, results: results(2_000_000, 0) },
+            { ...base, id: 'draft', name: 'Draft', initialInvestment: 500 },
+        ];
+
+        const report = await new CalculationService().optimizePortfolio(projects, 1000, {}, Currency.USD, rates);
+
+        expect(report.best?.projectIds).toEqual(['cop']);
+        expect(report.best?.totalNPV).toBe(500);
+        expect(report.skippedProjectIds).toEqual(['draft']);
+    });
+
+    it('should fund line item projects with their upfront capex instead of the initial investment', async () => {
+        const project: ProjectData = {
+            id: 'items',
+            name: 'Items',
+            createdAt: '2025-01-01T00:00:00.000Z',
+            updatedAt: '2025-01-01T00:00:00.000Z',
+            initialInvestment: 5000,
+            discountRate: 10,
+            projectDuration: 12,
+            yearlyRevenue: 0,
+            revenueGrowth: 0,
+            operatingCosts: 0,
+            maintenanceCosts: 0,
+            bestCaseMultiplier: 1.2,
+            worstCaseMultiplier: 0.8,
+            lineItems: {
+                revenueStreams: [],
+                costLines: [],
+                capexTranches: [
+                    { id: 't1', name: 'Fit-out', amount: 600, month: 0 },
+                    { id: 't2', name: 'Expansion', amount: 400, month: 6 },
+                ],
+            },
+            results: {
+                roi: 0, npv: 200, paybackPeriod: 0, irr: 0,
+                roiBest: 0, npvBest: 0, paybackBest: 0, irrBest: 0,
+                roiWorst: 0, npvWorst: 50, paybackWorst: 0, irrWorst: 0,
+                monthlyCashFlow: [], cumulativeCashFlow: [],
+            },
+        };
+        const service = new CalculationService();
+
+        const report = await service.optimizePortfolio([project], 1000, {}, Currency.USD);
+        const portfolio = await service.aggregatePortfolio([project], Currency.USD);
+
+        expect(report.candidates[0].investment).toBe(600);
+        expect(report.best?.projectIds).toEqual(['items']);
+        expect(portfolio.totalInvestment).toBe(600);
+    });
+});
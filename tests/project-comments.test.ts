@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import {
+    anchorId,
+    buildCommentThreads,
+    countOpenThreads,
+    extractMentions,
+    isValidCommentAnchor,
+    threadsForAnchor,
+} from '../lib/project-comments';
+import type { CommentAnchor, MentionableUser, ProjectComment } from '../types/project';
+
+function comment(
+    id: string,
+    overrides: Partial<ProjectComment> = {},
+    anchor: CommentAnchor = { type: 'metric', key: 'irr' }
+): ProjectComment {
+    return {
+        id,
+        projectId: 'p1',
+        parentId: null,
+        anchor,
+        authorId: 1,
+        authorName: 'Ana',
+        body: 'text',
+        mentions: [],
+        resolvedAt: null,
+        createdAt: '2025-06-01T10:00:00.000Z',
+        updatedAt: '2025-06-01T10:00:00.000Z',
+        ...overrides,
+    };
+}
+
+describe('isValidCommentAnchor', () => {
+    it('should accept known inputs and metrics only', () => {
+        expect(isValidCommentAnchor({ type: 'input', key: 'revenueGrowth' })).toBe(true);
+        expect(isValidCommentAnchor({ type: 'metric', key: 'irr' })).toBe(true);
+        expect(isValidCommentAnchor({ type: 'input', key: 'irr' })).toBe(false);
+        expect(isValidCommentAnchor({ type: 'metric', key: null })).toBe(false);
+    });
+
+    it('should require a key for scenarios and none for the project', () => {
+        expect(isValidCommentAnchor({ type: 'scenario', key: 'abc' })).toBe(true);
+        expect(isValidCommentAnchor({ type: 'scenario', key: null })).toBe(false);
+        expect(isValidCommentAnchor({ type: 'project', key: null })).toBe(true);
+        expect(isValidCommentAnchor({ type: 'project', key: 'npv' })).toBe(false);
+    });
+});
+
+describe('extractMentions', () => {
+    const users: MentionableUser[] = [
+        { userId: 1, name: 'Ana', email: 'ana@example.com' },
+        { userId: 2, name: 'Ana Lopez', email: 'alopez@example.com' },
+        { userId: 3, name: null, email: 'carlos@example.com' },
+    ];
+
+    it('should prefer the longest matching name and match email handles', () => {
+        expect(extractMentions('@ana lopez and @Carlos, please check', users)).toEqual([2, 3]);
+        expect(extractMentions('thanks @Ana!', users)).toEqual([1]);
+    });
+
+    it('should ignore email addresses, partial words and repeats', () => {
+        expect(extractMentions('mail ana@example.com or @Anabel', users)).toEqual([]);
+        expect(extractMentions('@carlos @carlos', users)).toEqual([3]);
+    });
+});
+
+describe('buildCommentThreads', () => {
+    const comments = [
+        comment('r1', { createdAt: '2025-06-01T09:00:00.000Z', resolvedAt: '2025-06-02T00:00:00.000Z' }),
+        comment('a2', { parentId: 'r2', createdAt: '2025-06-03T00:00:00.000Z' }),
+        comment('r2', { createdAt: '2025-06-01T11:00:00.000Z' }),
+        comment('a1', { parentId: 'r2', createdAt: '2025-06-02T00:00:00.000Z' }),
+        comment('orphan', { parentId: 'gone' }),
+        comment('r3', {}, { type: 'input', key: 'revenueGrowth' }),
+    ];
+
+    it('should list open threads first with replies in posting order', () => {
+        const threads = buildCommentThreads(comments);
+
+        expect(threads.map((thread) => thread.root.id)).toEqual(['r3', 'r2', 'r1']);
+        expect(threads[1].replies.map((reply) => reply.id)).toEqual(['a1', 'a2']);
+        expect(threads.flatMap((thread) => thread.replies).some((reply) => reply.id === 'orphan')).toBe(false);
+    });
+
+    it('should filter threads by anchor and count the open ones', () => {
+        const threads = buildCommentThreads(comments);
+
+        expect(threadsForAnchor(threads, { type: 'metric', key: 'irr' }).map((thread) => thread.root.id)).toEqual(['r2', 'r1']);
+        expect(countOpenThreads(comments)).toEqual({
+            [anchorId({ type: 'metric', key: 'irr' })]: 1,
+            'input:revenueGrowth': 1,
+        });
+    });
+});
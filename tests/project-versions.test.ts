@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { diffVersionSnapshots, flattenSnapshot } from '../lib/project-versions';
+import type { ProjectResults, ProjectVersion, ProjectVersionSnapshot } from '../types/project';
+
+const results = (npv: number, irr: number): ProjectResults => ({
+    roi: 10, npv, paybackPeriod: 18, irr,
+    roiBest: 0, npvBest: npv * 1.2, paybackBest: 0, irrBest: 0,
+    roiWorst: 0, npvWorst: npv * 0.8, paybackWorst: 0, irrWorst: 0,
+    monthlyCashFlow: [], cumulativeCashFlow: [],
+});
+
+const version = (version: number, snapshot: ProjectVersionSnapshot): ProjectVersion => ({
+    id: `v${version}`,
+    projectId: 'p1',
+    version,
+    authorId: 1,
+    authorName: 'Analyst',
+    restoredFromVersion: null,
+    snapshot,
+    createdAt: '2025-01-01T00:00:00.000Z',
+});
+
+describe('flattenSnapshot', () => {
+    it('should flatten nested inputs into dotted paths and leave results out', () => {
+        const fields = flattenSnapshot({
+            name: 'Plant',
+            initialInvestment: 1000,
+            inflation: { annualRate: 3, curve: [2, 4], applyToRevenue: true, applyToOperatingCosts: false, applyToMaintenanceCosts: false },
+            results: results(100, 12),
+        });
+
+        expect(fields.get('name')).toBe('Plant');
+        expect(fields.get('inflation.annualRate')).toBe(3);
+        expect(fields.get('inflation.curve[1]')).toBe(4);
+        expect([...fields.keys()].some((key) => key.startsWith('results'))).toBe(false);
+    });
+
+    it('should ignore line item ids, which change on every save', () => {
+        const lineItems = (id: string) => ({
+            revenueStreams: [{ id, name: 'Sales', monthlyAmount: 500, startMonth: 1, growthRate: 0, behavior: 'variable' as const }],
+            costLines: [],
+            capexTranches: [],
+        });
+        const diff = diffVersionSnapshots(
+            version(1, { name: 'Plant', lineItems: lineItems('a1') }),
+            version(2, { name: 'Plant', lineItems: lineItems('b2') })
+        );
+
+        expect(diff.changes).toEqual([]);
+    });
+});
+
+describe('diffVersionSnapshots', () => {
+    it('should list changed fields in order with before and after values', () => {
+        const diff = diffVersionSnapshots(
+            version(1, { name: 'Plant', discountRate: 10, inflation: { annualRate: 3, applyToRevenue: true, applyToOperatingCosts: true, applyToMaintenanceCosts: true } }),
+            version(2, { name: 'Plant', discountRate: 12, valuationBasis: 'real', inflation: { annualRate: 4, applyToRevenue: true, applyToOperatingCosts: true, applyToMaintenanceCosts: true } })
+        );
+
+        expect(diff.fromVersion).toBe(1);
+        expect(diff.toVersion).toBe(2);
+        expect(diff.changes).toEqual([
+            { field: 'discountRate', before: 10, after: 12 },
+            { field: 'inflation.annualRate', before: 3, after: 4 },
+            { field: 'valuationBasis', before: null, after: 'real' },
+        ]);
+    });
+
+    it('should report metric deltas and leave them empty when a version has no results', () => {
+        const diff = diffVersionSnapshots(
+            version(1, { results: results(1000, 12.5) }),
+            version(2, { results: results(1500.256, 15) })
+        );
+
+        expect(diff.changes).toEqual([]);
+        expect(diff.metrics.find((m) => m.metric === 'npv')).toEqual({ metric: 'npv', before: 1000, after: 1500.256, delta: 500.26 });
+        expect(diff.metrics.find((m) => m.metric === 'irr')?.delta).toBe(2.5);
+
+        const draft = diffVersionSnapshots(version(1, {}), version(2, { results: results(1000, 12) }));
+        expect(draft.metrics.every((m) => m.delta === null)).toBe(true);
+    });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { CalculationService, CALCULATOR_VERSION } from '../lib/application/services/CalculationService';
+import type { ProjectData, ProjectResults } from '../types/project';
+
+const project: ProjectData = {
+    id: 'p1',
+    name: 'Plant',
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+    initialInvestment: 100000,
+    discountRate: 10,
+    projectDuration: 36,
+    yearlyRevenue: 80000,
+    revenueGrowth: 5,
+    operatingCosts: 20000,
+    maintenanceCosts: 5000,
+    bestCaseMultiplier: 1.2,
+    worstCaseMultiplier: 0.8,
+};
+
+const standardInput = {
+    initialInvestment: project.initialInvestment,
+    discountRate: project.discountRate,
+    projectDuration: project.projectDuration,
+    yearlyRevenue: project.yearlyRevenue,
+    revenueGrowth: project.revenueGrowth,
+    operatingCosts: project.operatingCosts,
+    maintenanceCosts: project.maintenanceCosts,
+};
+
+describe('CalculationService.calculateProjectResults', () => {
+    const service = new CalculationService();
+
+    it('should compute expected, best and worst cases stamped with the engine version', async () => {
+        const results = await service.calculateProjectResults(project);
+        const expected = await service.calculateStandard(standardInput);
+        const best = await service.calculateStandard({ ...standardInput, multiplier: 1.2 });
+        const worst = await service.calculateStandard({ ...standardInput, multiplier: 0.8 });
+
+        expect(results.npv).toBe(expected.npv);
+        expect(results.irr).toBe(expected.irr);
+        expect(results.npvBest).toBe(best.npv);
+        expect(results.npvWorst).toBe(worst.npv);
+        expect(results.monteCarlo?.iterations).toBeGreaterThan(0);
+        expect(results.calculatorVersion).toBe(CALCULATOR_VERSION);
+    });
+
+    it('should ignore results supplied with the project', async () => {
+        const tampered = { npv: 999999999, irr: 500 } as ProjectResults;
+        const results = await service.calculateProjectResults({ ...project, results: tampered });
+
+        expect(results.npv).toBe((await service.calculateProjectResults(project)).npv);
+        expect(results.npv).not.toBe(tampered.npv);
+    });
+
+    it('should include Vanguard metrics only when their inputs are set', async () => {
+        expect((await service.calculateProjectResults(project)).vanguard).toBeUndefined();
+
+        const results = await service.calculateProjectResults({
+            ...project,
+            vanguardInput: {
+                manualProcessHoursPerWeek: 20,
+                averageHourlyCost: 50,
+                automationPotential: 60,
+                maintenanceHoursPerSprint: 30,
+                totalDevHoursPerSprint: 100,
+                devTeamAnnualCost: 500000,
+                incidentCostPerMonth: 2000,
+                currentRevenue: 80000,
+                previousRevenue: 60000,
+                currentBurnRate: 20000,
+                previousBurnRate: 18000,
+            },
+        });
+        expect(results.vanguard?.ofi).toBeGreaterThan(0);
+    });
+});
+
+describe('CalculationService.calculateScenario', () => {
+    const service = new CalculationService();
+
+    it('should match the base case without adjustments', async () => {
+        const scenario = await service.calculateScenario(project, { salesAdjustment: 0, costsAdjustment: 0, discountAdjustment: 0 });
+        const base = await service.calculateStandard(standardInput);
+
+        expect(scenario.npv).toBe(base.npv);
+        expect(scenario.monthlyCashFlow).toEqual(base.monthlyCashFlow);
+    });
+
+    it('should scale revenue and costs by percentage and shift the discount rate by points', async () => {
+        const scenario = await service.calculateScenario(project, { salesAdjustment: 10, costsAdjustment: -20, discountAdjustment: 2 });
+        const direct = await service.calculateStandard({
+            ...standardInput,
+            discountRate: 12,
+            yearlyRevenue: 88000,
+            operatingCosts: 16000,
+            maintenanceCosts: 4000,
+        });
+
+        expect(scenario.npv).toBeCloseTo(direct.npv, 6);
+        expect(scenario.irr).toBeCloseTo(direct.irr, 6);
+    });
+
+    it('should run on the project engine inputs with line items and inflation', async () => {
+        const lineItemProject: ProjectData = {
+            ...project,
+            inflation: { annualRate: 3, applyToRevenue: true, applyToOperatingCosts: true, applyToMaintenanceCosts: false },
+            lineItems: {
+                revenueStreams: [{ id: 'r1', name: 'Sales', monthlyAmount: 9000, startMonth: 1, growthRate: 5, behavior: 'variable' }],
+                costLines: [{ id: 'c1', name: 'Rent', amount: 2000, startMonth: 1, growthRate: 0, behavior: 'fixed' }],
+                capexTranches: [{ id: 'k1', name: 'Fit-out', amount: 60000, month: 0 }],
+            },
+        };
+        const base = await service.calculateScenario(lineItemProject, { salesAdjustment: 0, costsAdjustment: 0, discountAdjustment: 0 });
+        const results = await service.calculateProjectResults(lineItemProject);
+        const cheaper = await service.calculateScenario(lineItemProject, { salesAdjustment: 0, costsAdjustment: -50, discountAdjustment: 0 });
+
+        expect(base.npv).toBe(results.npv);
+        expect(cheaper.npv).toBeGreaterThan(base.npv);
+    });
+});
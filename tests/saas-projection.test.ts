@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import { SaaSMetricsCalculator } from '../lib/infrastructure/calculators/SaaSMetricsCalculator';
+import { StandardMetricsCalculator } from '../lib/infrastructure/calculators/StandardMetricsCalculator';
+import { CalculationService } from '../lib/application/services/CalculationService';
+import type { FinancialCalculationInput, ProjectData, SaaSInput, SaaSProjectionInput } from '../types/project';
+
+const projection: SaaSProjectionInput = {
+    months: 12,
+    startingMRR: 10000,
+    averageRevenuePerUser: 100,
+    cacCost: 500,
+    monthlyAcquisitionSpend: 5000,
+    churnRate: 2,
+    expansionRate: 1,
+    contractionRate: 0.5,
+    grossMargin: 80,
+    monthlyOperatingCosts: 8000,
+};
+
+const saasInput: SaaSInput = {
+    averageRevenuePerUser: 100,
+    churnRate: 2,
+    cacCost: 500,
+    grossMargin: 80,
+    startingMRR: 10000,
+    expansionMRR: 100,
+    churnedMRR: 200,
+    contractedMRR: 50,
+    revenueGrowthRate: 40,
+    profitMargin: -10,
+    monthlyAcquisitionSpend: 5000,
+};
+
+describe('SaaSMetricsCalculator.projectMRR', () => {
+    const calculator = new SaaSMetricsCalculator();
+
+    it('should buy new MRR with CAC spend and apply churn, expansion and contraction', () => {
+        const result = calculator.projectMRR(projection);
+        const first = result.months[0];
+
+        expect(first.newCustomers).toBe(10);
+        expect(first.newMRR).toBe(1000);
+        expect(first.churnedMRR).toBe(200);
+        expect(first.expansionMRR).toBe(100);
+        expect(first.contractionMRR).toBe(50);
+        expect(first.closingMRR).toBe(10850);
+        expect(first.arr).toBe(130200);
+        expect(first.customers).toBe(108);
+        expect(first.burn).toBe(5000 + 8000 - 10850 * 0.8);
+        expect(result.months[1].openingMRR).toBe(first.closingMRR);
+    });
+
+    it('should reconcile the waterfall with the closing MRR', () => {
+        const { waterfall, endingARR } = calculator.projectMRR(projection);
+        const closing = waterfall.openingMRR + waterfall.newMRR + waterfall.expansionMRR
+            - waterfall.contractionMRR - waterfall.churnedMRR;
+
+        expect(closing).toBeCloseTo(waterfall.closingMRR, 1);
+        expect(endingARR).toBeCloseTo(waterfall.closingMRR * 12, 1);
+    });
+
+    it('should report the first month that stops burning cash', () => {
+        const result = calculator.projectMRR({ ...projection, months: 60 });
+
+        expect(result.cashFlowPositiveMonth).not.toBeNull();
+        const month = result.cashFlowPositiveMonth as number;
+        expect(result.months[month - 1].burn).toBeLessThanOrEqual(0);
+        expect(result.months[month - 2].burn).toBeGreaterThan(0);
+        expect(result.peakBurn).toBe(Math.max(...result.months.map((row) => row.burn)));
+    });
+
+    it('should derive monthly rates from point-in-time SaaS metrics', () => {
+        const input = calculator.toProjectionInput(saasInput, 24);
+
+        expect(input.expansionRate).toBe(1);
+        expect(input.contractionRate).toBe(0.5);
+        expect(input.monthlyAcquisitionSpend).toBe(5000);
+    });
+
+    it('should reject acquisition spend without a CAC', () => {
+        expect(() => calculator.projectMRR({ ...projection, cacCost: 0 })).toThrow('cacCost');
+    });
+});
+
+describe('StandardMetricsCalculator with a SaaS business model', () => {
+    const calculator = new StandardMetricsCalculator();
+    const input: FinancialCalculationInput = {
+        initialInvestment: 50000,
+        discountRate: 10,
+        projectDuration: 24,
+        yearlyRevenue: 1000000,
+        revenueGrowth: 20,
+        operatingCosts: 60000,
+        maintenanceCosts: 0,
+    };
+
+    it('should use the MRR projection as the revenue line net of the cost of revenue', () => {
+        const result = calculator.calculate({ ...input, businessModel: 'saas', saasInput });
+        const months = new SaaSMetricsCalculator().projectMRR(new SaaSMetricsCalculator().toProjectionInput(saasInput, 24)).months;
+
+        expect(result.monthlyCashFlow).toHaveLength(24);
+        // 80% gross margin: a fifth of the revenue goes to the cost of revenue
+        expect(result.monthlyCashFlow[0]).toBeCloseTo(months[0].revenue * 0.8 - 5000 - 5000, 6);
+        expect(result.monthlyCashFlow[23]).toBeCloseTo(months[23].revenue * 0.8 - 5000 - 5000, 6);
+    });
+
+    it('should return the projection with burn including the operating costs', () => {
+        const { saasProjection } = calculator.calculate({ ...input, businessModel: 'saas', saasInput });
+        const month = saasProjection!.months[0];
+
+        expect(saasProjection!.months).toHaveLength(24);
+        expect(month.burn).toBeCloseTo(month.acquisitionSpend + 5000 - month.grossProfit, 1);
+    });
+
+    it('should keep the generic revenue formula for other business models', () => {
+        const generic = calculator.calculate(input);
+
+        expect(calculator.calculate({ ...input, businessModel: 'standard', saasInput }).npv).toBe(generic.npv);
+        expect(calculator.calculate({ ...input, businessModel: 'saas' }).npv).toBe(generic.npv);
+    });
+
+    it('should project SaaS revenue in saved project results', async () => {
+        const project: ProjectData = {
+            id: 's1',
+            name: 'Subscription app',
+            createdAt: '2025-01-01T00:00:00.000Z',
+            updatedAt: '2025-01-01T00:00:00.000Z',
+            ...input,
+            bestCaseMultiplier: 1.2,
+            worstCaseMultiplier: 0.8,
+            businessModel: 'saas',
+            saasInput,
+        };
+        const results = await new CalculationService().calculateProjectResults(project);
+
+        const expected = calculator.calculate({ ...input, businessModel: 'saas', saasInput });
+
+        expect(results.npv).toBe(expected.npv);
+        expect(results.npvBest).toBeGreaterThan(results.npv);
+        expect(results).not.toHaveProperty('saasProjection');
+        expect(results.saasProjectionSummary).toEqual(new SaaSMetricsCalculator().summarize(expected.saasProjection!));
+        expect(results.saasProjectionSummary).not.toHaveProperty('months');
+    });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import {
+    calculateSensitivity,
+    calculateBreakevenThreshold,
+    calculateBreakevenThresholds,
+    calculateTwoVariableSensitivity,
+    generateTornadoChartData,
+    generateSpiderChartData,
+    getSensitivityMetrics,
+    getSensitivityVariables,
+} from '../lib/sensitivity-calculator';
+import { calculateFinancialMetrics } from '../lib/financial-calculator';
+import type { ProjectData } from '../types/project';
+
+const project: ProjectData = {
+    id: 'test',
+    name: 'Test',
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    initialInvestment: 100000,
+    discountRate: 10,
+    projectDuration: 36,
+    yearlyRevenue: 80000,
+    revenueGrowth: 5,
+    operatingCosts: 30000,
+    maintenanceCosts: 5000,
+    bestCaseMultiplier: 1.2,
+    worstCaseMultiplier: 0.8,
+};
+
+const saasProject: ProjectData = {
+    ...project,
+    saasInput: {
+        averageRevenuePerUser: 100,
+        churnRate: 5,
+        cacCost: 500,
+        grossMargin: 80,
+        startingMRR: 10000,
+        expansionMRR: 1000,
+        churnedMRR: 500,
+        contractedMRR: 200,
+        revenueGrowthRate: 20,
+        profitMargin: 10,
+    },
+};
+
+const npvWith = (overrides: Partial<ProjectData>): number =>
+    calculateFinancialMetrics({ ...project, ...overrides }).npv;
+
+describe('Sensitivity Calculator', () => {
+    it('should vary discount rate, growth and duration', () => {
+        const variables = getSensitivityVariables(project);
+        expect(variables).toEqual(expect.arrayContaining(['discountRate', 'revenueGrowth', 'projectDuration']));
+
+        const results = calculateSensitivity(project, 'discountRate', [-10, 0, 10]);
+        expect(results[0].npv).toBeGreaterThan(results[1].npv);
+        expect(results[2].npv).toBeLessThan(results[1].npv);
+    });
+
+    it('should report the selected output metric', () => {
+        const results = calculateSensitivity(project, 'yearlyRevenue', [0, 20], 'payback');
+        expect(results[0].value).toBe(results[0].paybackPeriod);
+        expect(results[1].valueChange).toBeLessThan(0);
+    });
+
+    it('should expose LTV/CAC only for SaaS projects', () => {
+        expect(getSensitivityMetrics(project)).not.toContain('ltvCac');
+        expect(getSensitivityMetrics(saasProject)).toContain('ltvCac');
+
+        const tornado = generateTornadoChartData(saasProject, 'ltvCac');
+        expect(tornado.map((d) => d.variable)).toContain('churnRate');
+        expect(tornado.find((d) => d.variable === 'startingMRR')?.range).toBe(0);
+    });
+
+    it('should find the exact revenue at which NPV crosses zero', () => {
+        const threshold = calculateBreakevenThreshold(project, 'yearlyRevenue');
+
+        expect(threshold.threshold).not.toBeNull();
+        expect(Math.abs(npvWith({ yearlyRevenue: threshold.threshold! }))).toBeLessThan(1);
+        expect(threshold.changePercent).toBeLessThan(0);
+    });
+
+    it('should find the first month in which the project breaks even', () => {
+        const threshold = calculateBreakevenThreshold(project, 'projectDuration');
+        const month = threshold.threshold!;
+
+        expect(npvWith({ projectDuration: month })).toBeGreaterThanOrEqual(0);
+        expect(npvWith({ projectDuration: month - 1 })).toBeLessThan(0);
+    });
+
+    it('should return null when NPV never crosses zero', () => {
+        const thresholds = calculateBreakevenThresholds({ ...project, operatingCosts: 0, maintenanceCosts: 0 });
+        expect(thresholds.find((t) => t.variable === 'maintenanceCosts')?.threshold).not.toBeNull();
+
+        const maintenance = calculateBreakevenThreshold({ ...project, yearlyRevenue: 0 }, 'maintenanceCosts');
+        expect(maintenance.threshold).toBeNull();
+    });
+
+    it('should sweep two variables on a grid', () => {
+        const grid = calculateTwoVariableSensitivity(project, 'yearlyRevenue', 'operatingCosts', 'npv', [-10, 0, 10]);
+
+        expect(grid.values).toHaveLength(3);
+        expect(grid.values[1][1]).toBe(grid.baseValue);
+        expect(grid.values[2][0]).toBe(npvWith({ yearlyRevenue: 88000, operatingCosts: 27000 }));
+    });
+
+    it('should build one spider series per variable', () => {
+        const series = generateSpiderChartData(project, 'irr');
+        expect(series).toHaveLength(getSensitivityVariables(project).length);
+        expect(series[0].points).toHaveLength(7);
+    });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import {
+    clearSharePasswordFailures,
+    generateShareToken,
+    hashSharePassword,
+    isSharePasswordLocked,
+    recordSharePasswordFailure,
+    shareLinkStatus,
+    toSharedProjectView,
+    verifySharePassword,
+} from '../server/services/share-links';
+import { buildShareUrl, decodeSharedProject, isShareToken } from '../lib/share-links';
+import type { ProjectData } from '../types/project';
+
+const project: ProjectData = {
+    id: '5f0c6a2e-1b8d-4c3e-9f6a-2d7b8e9c0a1b',
+    name: 'Plant',
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+    initialInvestment: 100000,
+    discountRate: 10,
+    projectDuration: 24,
+    yearlyRevenue: 80000,
+    revenueGrowth: 5,
+    operatingCosts: 20000,
+    maintenanceCosts: 5000,
+    bestCaseMultiplier: 1.2,
+    worstCaseMultiplier: 0.8,
+    results: {
+        roi: 12, npv: 3400, irr: 18, paybackPeriod: 14, monthlyCashFlow: [100], cumulativeCashFlow: [100],
+        roiBest: 20, npvBest: 9000, roiWorst: -4, npvWorst: -2000, aiInsights: 'internal', aiGeneratedAt: '2025-01-02',
+    } as ProjectData['results'],
+};
+
+describe('share tokens', () => {
+    it('should issue unique URL-safe tokens that the shared screen recognises', () => {
+        const tokens = new Set(Array.from({ length: 50 }, () => generateShareToken()));
+
+        expect(tokens.size).toBe(50);
+        for (const token of tokens) {
+            expect(isShareToken(token)).toBe(true);
+        }
+        expect(buildShareUrl('abc')).toMatch(/\/shared\/abc$/);
+    });
+
+    it('should hash passwords with a random salt and verify them', async () => {
+        const hash = await hashSharePassword('s3cret');
+
+        expect(hash).toMatch(/^scrypt\$[0-9a-f]{32}\$[0-9a-f]{64}$/);
+        expect(await hashSharePassword('s3cret')).not.toBe(hash);
+        expect(await verifySharePassword('s3cret', hash)).toBe(true);
+        expect(await verifySharePassword('wrong', hash)).toBe(false);
+        expect(await verifySharePassword('s3cret', 'plain')).toBe(false);
+    });
+
+    it('should lock a link after repeated wrong passwords until the window passes', () => {
+        const token = generateShareToken();
+        const start = Date.now();
+
+        for (let attempt = 0; attempt < 5; attempt++) {
+            expect(isSharePasswordLocked(token, start)).toBe(false);
+            recordSharePasswordFailure(token, start);
+        }
+        expect(isSharePasswordLocked(token, start)).toBe(true);
+        expect(isSharePasswordLocked(token, start + 15 * 60 * 1000)).toBe(false);
+
+        recordSharePasswordFailure(token, start);
+        clearSharePasswordFailures(token);
+        expect(isSharePasswordLocked(token, start)).toBe(false);
+    });
+
+    it('should treat revoked and past-expiry links as unavailable', () => {
+        const now = new Date('2025-06-01T00:00:00Z');
+
+        expect(shareLinkStatus({ revokedAt: null, expiresAt: null }, now)).toBe('active');
+        expect(shareLinkStatus({ revokedAt: null, expiresAt: new Date('2025-06-02T00:00:00Z') }, now)).toBe('active');
+        expect(shareLinkStatus({ revokedAt: null, expiresAt: now }, now)).toBe('expired');
+        expect(shareLinkStatus({ revokedAt: now, expiresAt: new Date('2025-05-01T00:00:00Z') }, now)).toBe('revoked');
+    });
+});
+
+describe('toSharedProjectView', () => {
+    it('should expose only headline metrics for the summary scope', () => {
+        const view = toSharedProjectView(project, 'summary', 'tok');
+
+        expect(view).toEqual({
+            scope: 'summary',
+            name: 'Plant',
+            currency: 'USD',
+            discountRate: 10,
+            summary: { roi: 12, npv: 3400, irr: 18, paybackPeriod: 14, roiBest: 20, npvBest: 9000, roiWorst: -4, npvWorst: -2000 },
+        });
+    });
+
+    it('should include inputs for the full scope without internal ids or AI insights', () => {
+        const view = toSharedProjectView(project, 'full', 'tok');
+
+        expect(view.project?.id).toBe('shared-tok');
+        expect(view.project?.initialInvestment).toBe(100000);
+        expect(view.project?.results?.monthlyCashFlow).toEqual([100]);
+        expect(view.project?.results).not.toHaveProperty('aiInsights');
+        expect(toSharedProjectView({ ...project, results: undefined }, 'full', 'tok').summary).toBeNull();
+    });
+});
+
+describe('legacy share links', () => {
+    it('should keep decoding base64 links issued before tokens', () => {
+        const legacy = btoa(encodeURIComponent(JSON.stringify({ n: 'Old', ii: 5000, dr: 8, pd: 12, yr: 9000, rg: 0, oc: 100, mc: 0 })));
+
+        expect(isShareToken(legacy)).toBe(false);
+        expect(decodeSharedProject(legacy)).toMatchObject({ name: 'Old', initialInvestment: 5000, bestCaseMultiplier: 1.2 });
+    });
+});
@@ -5,6 +5,7 @@ import { PricingCalculator } from '../lib/infrastructure/calculators/PricingCalc
 import { LoanCalculator } from '../lib/infrastructure/calculators/LoanCalculator';
 import { EmployeeROICalculator } from '../lib/infrastructure/calculators/EmployeeROICalculator';
 import { MarketingROICalculator } from '../lib/infrastructure/calculators/MarketingROICalculator';
+import { LineItemCashFlowCalculator } from '../lib/infrastructure/calculators/LineItemCashFlowCalculator';
 
 describe('BreakEvenCalculator', () => {
     const calculator = new BreakEvenCalculator();
@@ -53,6 +54,41 @@ describe('BreakEvenCalculator', () => {
             variableCostPerUnit: 15,
         })).toThrow('pricePerUnit must be greater than variableCostPerUnit');
     });
+
+    const mix = [
+        { name: 'A', pricePerUnit: 10, variableCostPerUnit: 4, mixShare: 60 },
+        { name: 'B', pricePerUnit: 20, variableCostPerUnit: 15, mixShare: 40 },
+    ];
+
+    it('should split break-even across a weighted sales mix', () => {
+        const result = calculator.calculate({ fixedCosts: 5600, products: mix, currentSalesUnits: 1250 });
+
+        // Weighted margin = 0.6 × 6 + 0.4 × 5 = 5.6 per unit
+        expect(result.contributionMarginPerUnit).toBe(5.6);
+        expect(result.breakEvenUnits).toBe(1000);
+        expect(result.breakEvenRevenue).toBe(14000);
+        expect(result.salesMix?.products.map((p) => p.breakEvenUnits)).toEqual([600, 400]);
+        expect(result.marginOfSafety).toBe(20);
+    });
+
+    it('should add step-fixed costs once volume crosses the threshold', () => {
+        const result = calculator.calculate({
+            fixedCosts: 5600,
+            products: mix,
+            stepFixedCosts: [{ label: 'Second shift', thresholdUnits: 800, amount: 1120 }],
+        });
+
+        expect(result.breakEvenUnits).toBe(1200);
+        expect(result.fixedCostsAtBreakEven).toBe(6720);
+    });
+
+    it('should compute the units needed for a target profit', () => {
+        const result = calculator.calculate({ fixedCosts: 5600, products: mix, targetProfit: 2800 });
+
+        expect(result.target?.units).toBe(1500);
+        expect(result.target?.revenue).toBe(21000);
+        expect(result.salesMix?.products[0].targetUnits).toBe(900);
+    });
 });
 
 describe('CashFlowForecastCalculator', () => {
@@ -95,6 +131,57 @@ describe('CashFlowForecastCalculator', () => {
         expect(result.monthlyForecasts[4].revenue).toBe(36000); // 30000 * 1.2
         expect(result.monthlyForecasts[5].revenue).toBe(45000); // 30000 * 1.5
     });
+
+    it('should collect sales and pay suppliers according to their terms week by week', () => {
+        const result = calculator.calculateWeekly({
+            startingCash: 20000,
+            startDate: '2026-01-05',
+            weeklySales: 10000,
+            weeklyPurchases: 4000,
+            collectionTerms: [{ days: 28, share: 100 }],
+            paymentTerms: [{ days: 14, share: 100 }],
+            recurringPayments: [
+                { label: 'Payroll', amount: 1500, frequency: 'biweekly', firstWeek: 2 },
+                { label: 'Rent', amount: 2000, frequency: 'monthly', dayOfMonth: 1 },
+            ],
+            minimumCashBuffer: 8000,
+        });
+
+        expect(result.weeks).toHaveLength(13);
+        expect(result.weeks[3].collections).toBe(0);
+        expect(result.weeks[4].collections).toBe(10000);
+        expect(result.weeks[2].supplierPayments).toBe(4000);
+        // Rent falls on Feb 1, Mar 1 and Apr 1
+        expect(result.weeks.filter((w) => w.recurringPayments >= 2000).map((w) => w.week)).toEqual([4, 8, 13]);
+        expect(result.lowestCash).toBe(7000);
+        expect(result.firstBufferBreachWeek).toBe(4);
+        expect(result.fundingNeeded).toBe(1000);
+        expect(result.weeks[12].accountsReceivable).toBe(40000);
+    });
+
+    it('should age open receivables and flag uncollected sales', () => {
+        const result = calculator.calculateWeekly({
+            startingCash: 0,
+            weeklySales: 1000,
+            collectionTerms: [{ days: 0, share: 50 }, { days: 70, share: 45 }],
+            expectedReceivables: [{ week: 2, amount: 800 }],
+        });
+
+        expect(result.uncollectedSales).toBe(650);
+        expect(result.effectiveDSO).toBe(33.2);
+        expect(result.receivablesAging).toEqual({ current: 2250, days31to60: 1800, days61to90: 450, over90: 0 });
+        expect(result.weeks[1].receivablesCollected).toBe(800);
+        expect(result.weeks[0].accountsReceivable).toBe(1250);
+    });
+
+    it('should reject supplier terms that do not add up to 100%', () => {
+        expect(() => calculator.calculateWeekly({
+            startingCash: 0,
+            weeklySales: 1000,
+            weeklyPurchases: 500,
+            paymentTerms: [{ days: 30, share: 60 }],
+        })).toThrow('paymentTerms shares must add up to 100%');
+    });
 });
 
 describe('PricingCalculator', () => {
@@ -132,6 +219,57 @@ describe('PricingCalculator', () => {
         expect(result.priceStrategies.premium).toBeGreaterThan(result.priceStrategies.competitive);
         expect(result.priceStrategies.penetration).toBeLessThan(result.priceStrategies.competitive);
     });
+
+    it('should find profit and revenue peaks on a linear demand curve from elasticity', () => {
+        const result = calculator.calculate({
+            costPerUnit: 10,
+            desiredMargin: 40,
+            fixedCostsPerPeriod: 5000,
+            demand: { elasticity: -2, referencePrice: 20, referenceVolume: 1000 },
+        });
+
+        // Q = 3000 - 100·P: revenue peaks at 15, profit halfway between cost and the 30 choke price
+        expect(result.demandAnalysis?.revenueMaximizing).toMatchObject({ price: 15, volume: 1500 });
+        expect(result.demandAnalysis?.profitMaximizing).toMatchObject({ price: 20, volume: 1000, profit: 5000 });
+        expect(result.recommendedPrice).toBe(20);
+        expect(result.demandAnalysis?.curve).toHaveLength(25);
+    });
+
+    it('should fit demand from observations', () => {
+        const linear = calculator.calculate({
+            costPerUnit: 10,
+            desiredMargin: 40,
+            demand: { observations: [{ price: 10, volume: 2000 }, { price: 20, volume: 1000 }, { price: 25, volume: 500 }] },
+        });
+        const constant = calculator.calculate({
+            costPerUnit: 10,
+            desiredMargin: 40,
+            demand: {
+                shape: 'constant_elasticity',
+                observations: [{ price: 10, volume: 4000 }, { price: 20, volume: 1000 }],
+            },
+        });
+
+        expect(linear.demandAnalysis?.rSquared).toBe(1);
+        expect(linear.demandAnalysis?.profitMaximizing?.price).toBe(20);
+        expect(constant.demandAnalysis?.elasticity).toBeCloseTo(-2, 4);
+        expect(constant.demandAnalysis?.profitMaximizing?.price).toBe(20);
+        expect(constant.demandAnalysis?.revenueMaximizing).toBeNull();
+    });
+
+    it('should reject demand that does not fall with price', () => {
+        expect(() => calculator.calculate({
+            costPerUnit: 10,
+            desiredMargin: 40,
+            demand: { observations: [{ price: 10, volume: 500 }, { price: 20, volume: 800 }] },
+        })).toThrow('observed volumes must fall as price rises');
+        expect(() => calculator.calculate({
+            costPerUnit: 10,
+            desiredMargin: 40,
+            targetVolume: 100,
+            demand: { elasticity: 0.5 },
+        })).toThrow('demand.elasticity must be negative');
+    });
 });
 
 describe('LoanCalculator', () => {
@@ -184,6 +322,83 @@ describe('LoanCalculator', () => {
         expect(comparison.bestOption).toBe(1); // 6% rate is best
         expect(comparison.savings).toBeGreaterThan(0);
     });
+
+    it('should charge interest only during the grace period', () => {
+        const result = calculator.calculate({
+            principal: 12000,
+            annualInterestRate: 6,
+            termMonths: 12,
+            gracePeriodMonths: 3,
+        });
+
+        expect(result.structure.gracePeriodPayment).toBe(60);
+        expect(result.amortizationSchedule[2].balance).toBe(12000);
+        expect(result.monthlyPayment).toBeGreaterThan(1032.8);
+        expect(result.amortizationSchedule[11].balance).toBe(0);
+    });
+
+    it('should leave the balloon for the last installment', () => {
+        const result = calculator.calculate({
+            principal: 12000,
+            annualInterestRate: 6,
+            termMonths: 12,
+            balloonPayment: 6000,
+        });
+
+        expect(result.amortizationSchedule[10].balance).toBeCloseTo(result.amortizationSchedule[11].principal, 2);
+        expect(result.amortizationSchedule[11].payment).toBeGreaterThan(6000);
+        expect(result.structure.balloonPayment).toBeCloseTo(6000, 0);
+    });
+
+    it('should recalculate the payment when a step-up or variable rate changes', () => {
+        const stepped = calculator.calculate({
+            principal: 12000,
+            annualInterestRate: 6,
+            termMonths: 12,
+            rateSteps: [{ month: 7, annualRate: 9 }],
+        });
+        const variable = calculator.calculate({
+            principal: 12000,
+            annualInterestRate: 3,
+            termMonths: 12,
+            variableRate: { spread: 3, baseRatePath: [{ month: 7, annualRate: 6 }] },
+        });
+
+        expect(stepped.amortizationSchedule[6].annualRate).toBe(9);
+        expect(stepped.structure.maxPayment).toBeGreaterThan(stepped.structure.minPayment);
+        expect(variable.amortizationSchedule.map((entry) => entry.payment)).toEqual(
+            stepped.amortizationSchedule.map((entry) => entry.payment)
+        );
+    });
+
+    it('should shorten the term or lower the payment after a prepayment', () => {
+        const base = { principal: 12000, annualInterestRate: 6, termMonths: 12 };
+        const shorter = calculator.calculate({ ...base, prepayments: [{ month: 3, amount: 3000, strategy: 'shorten_term' }] });
+        const lower = calculator.calculate({ ...base, prepayments: [{ month: 3, amount: 3000, strategy: 'reduce_payment' }] });
+
+        expect(shorter.amortizationSchedule).toHaveLength(9);
+        expect(shorter.structure.monthsSaved).toBe(3);
+        expect(lower.amortizationSchedule).toHaveLength(12);
+        expect(lower.amortizationSchedule[3].payment).toBeLessThan(lower.monthlyPayment);
+        expect(shorter.structure.interestSaved).toBeGreaterThan(lower.structure.interestSaved);
+    });
+
+    it('should include the origination fee in the effective rate and rank offers', () => {
+        const plain = calculator.calculate({ principal: 12000, annualInterestRate: 6, termMonths: 12 });
+        const withFee = calculator.calculate({ principal: 12000, annualInterestRate: 6, termMonths: 12, originationFee: 2 });
+
+        expect(plain.effectiveAnnualRate).toBeCloseTo(6.17, 2);
+        expect(withFee.effectiveAnnualRate).toBeGreaterThan(10);
+
+        const comparison = calculator.compareLoanOptions([
+            { principal: 50000, annualInterestRate: 7, termMonths: 36, originationFee: 4 },
+            { principal: 50000, annualInterestRate: 7.5, termMonths: 36 },
+        ]);
+
+        expect(comparison.bestOption).toBe(1);
+        expect(comparison.lowestRateOption).toBe(1);
+        expect(comparison.options.map((option) => option.costRank)).toEqual([2, 1]);
+    });
 });
 
 describe('EmployeeROICalculator', () => {
@@ -215,6 +430,69 @@ describe('EmployeeROICalculator', () => {
         expect(result.roiPercentage).toBeLessThan(0);
         expect(result.isWorthHiring).toBe(false);
     });
+
+    it('should find the break-even month of a hire productive from day one', () => {
+        const plan = calculator.calculateHiringPlan({
+            horizonMonths: 12,
+            hires: [{
+                role: 'Account executive',
+                startMonth: 1,
+                annualSalary: 60000,
+                benefitsRatio: 20,
+                onboardingCost: 6000,
+                annualRevenue: 120000,
+                rampUpMonths: 0,
+            }],
+        });
+
+        // 6000 payroll a month against 10000 revenue, after 6000 onboarding
+        expect(plan.months[0].cost).toBe(12000);
+        expect(plan.months[0].revenue).toBe(10000);
+        expect(plan.hires[0].breakEvenMonth).toBe(2);
+        expect(plan.teamBreakEvenMonth).toBe(2);
+        expect(plan.totalCost).toBe(78000);
+        expect(plan.teamROI).toBeCloseTo((120000 - 78000) / 78000 * 100, 1);
+    });
+
+    it('should ramp contributed revenue up to full productivity', () => {
+        const hire = {
+            role: 'Engineer',
+            startMonth: 3,
+            annualSalary: 60000,
+            benefitsRatio: 20,
+            onboardingCost: 6000,
+            annualRevenue: 120000,
+            rampUpMonths: 4,
+        };
+        const linear = calculator.calculateHiringPlan({ horizonMonths: 12, hires: [hire] });
+        const sCurve = calculator.calculateHiringPlan({ horizonMonths: 12, hires: [{ ...hire, rampCurve: 's_curve' }] });
+
+        expect(linear.months[1].headcount).toBe(0);
+        expect(linear.months[3].revenue).toBe(5000);
+        expect(linear.months[5].revenue).toBe(10000);
+        expect(linear.hires[0].fullProductivityMonth).toBe(6);
+        expect(linear.hires[0].breakEvenMonth).toBe(8);
+        expect(linear.hires[0].monthsToBreakEven).toBe(6);
+        expect(sCurve.months[2].revenue).toBeLessThan(linear.months[2].revenue);
+        expect(sCurve.months[5].revenue).toBe(10000);
+    });
+
+    it('should turn a hiring plan into project cost lines', () => {
+        const hires = [
+            { role: 'Sales', startMonth: 1, annualSalary: 48000, benefitsRatio: 25, onboardingCost: 2000, annualRevenue: 90000, rampUpMonths: 3 },
+            { role: 'Support', startMonth: 4, annualSalary: 36000, benefitsRatio: 25, onboardingCost: 0, annualRevenue: 50000, rampUpMonths: 2 },
+        ];
+        const plan = calculator.calculateHiringPlan({ horizonMonths: 6, hires });
+        const costLines = calculator.toCostLines(hires);
+
+        expect(costLines).toHaveLength(3);
+
+        const cashFlow = new LineItemCashFlowCalculator().calculate(
+            { revenueStreams: [], costLines, capexTranches: [] },
+            6
+        );
+        expect(cashFlow.monthlyCosts).toEqual(plan.months.map((month) => month.cost));
+    });
 });
 
 describe('MarketingROICalculator', () => {
@@ -260,4 +538,62 @@ describe('MarketingROICalculator', () => {
         expect(comparison.bestChannel).toBe('google');
         expect(comparison.worstChannel).toBe('instagram');
     });
+
+    it('should allocate a budget toward the cheaper channel within max constraints', () => {
+        const allocation = calculator.allocateBudget({
+            totalBudget: 10000,
+            objective: 'conversions',
+            revenuePerConversion: 100,
+            channels: [
+                { channel: 'email', maxSpend: 3000 },
+                { channel: 'google' },
+            ],
+        });
+
+        const [email, google] = allocation.channels;
+        expect(email.curve.source).toBe('benchmark');
+        expect(email.spend).toBeCloseTo(3000, 0);
+        expect(google.spend).toBeCloseTo(7000, 0);
+        expect(allocation.unallocated).toBe(0);
+        expect(allocation.roas).toBeCloseTo(allocation.revenue / allocation.allocatedSpend, 1);
+        expect(allocation.cac).toBeCloseTo(allocation.allocatedSpend / allocation.conversions, 1);
+    });
+
+    it('should stop spending at the profit-maximizing level of a fitted curve', () => {
+        // conversions = 2 * spend^0.5, so profit 100 * sqrt(spend) - spend peaks at 2500
+        const allocation = calculator.allocateBudget({
+            totalBudget: 10000,
+            objective: 'profit',
+            revenuePerConversion: 50,
+            channels: [{
+                channel: 'facebook',
+                history: [
+                    { spend: 100, conversions: 20 },
+                    { spend: 400, conversions: 40 },
+                    { spend: 900, conversions: 60 },
+                ],
+            }],
+        });
+
+        const [facebook] = allocation.channels;
+        expect(facebook.curve.source).toBe('history');
+        expect(facebook.curve.exponent).toBeCloseTo(0.5, 4);
+        expect(facebook.curve.rSquared).toBe(1);
+        expect(facebook.spend).toBeGreaterThan(2480);
+        expect(facebook.spend).toBeLessThan(2520);
+        expect(facebook.marginalRoas).toBeCloseTo(1, 1);
+        expect(allocation.unallocated).toBeGreaterThan(7400);
+    });
+
+    it('should reject channel minimums above the budget', () => {
+        expect(() => calculator.allocateBudget({
+            totalBudget: 1000,
+            objective: 'profit',
+            revenuePerConversion: 100,
+            channels: [
+                { channel: 'facebook', minSpend: 800 },
+                { channel: 'google', minSpend: 500 },
+            ],
+        })).toThrow('channel minimums exceed totalBudget');
+    });
 });
@@ -39,6 +39,14 @@ describe('Business Templates', () => {
 
         expect(input.fixedCosts).toBe(20000); // Overridden
         expect(input.pricePerUnit).toBe(15); // From template
+        expect(input.products).toBeUndefined();
+    });
+
+    it('should apply the template sales mix when asked', () => {
+        const input = applyBreakEvenTemplate('restaurant', {}, { salesMix: true });
+
+        expect(input.products?.length).toBe(4);
+        expect(applyBreakEvenTemplate('services', {}, { salesMix: true }).products).toBeUndefined();
     });
 
     it('should apply pricing template', () => {
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { ValuationCalculator } from '../lib/infrastructure/calculators/ValuationCalculator';
+import type { ValuationInput } from '../types/project';
+
+const input: ValuationInput = {
+    freeCashFlows: [100, 110, 121],
+    wacc: 10,
+    terminalGrowth: 2,
+    netDebt: 50,
+    revenue: 400,
+    ebitda: 150,
+    peers: [
+        { name: 'Peer A', evToRevenue: 2, evToEbitda: 8 },
+        { name: 'Peer B', evToRevenue: 3, evToEbitda: 10 },
+        { name: 'Peer C', evToRevenue: 4 },
+    ],
+};
+
+describe('ValuationCalculator', () => {
+    const calculator = new ValuationCalculator();
+
+    it('should discount free cash flows and a Gordon growth terminal value', () => {
+        const { dcf } = calculator.calculate(input);
+
+        expect(dcf.presentValueOfCashFlows).toBeCloseTo(272.73, 2);
+        expect(dcf.terminalValue).toBeCloseTo(1542.75, 2);
+        expect(dcf.presentValueOfTerminalValue).toBeCloseTo(1159.09, 2);
+        expect(dcf.enterpriseValue).toBeCloseTo(1431.82, 2);
+        expect(dcf.equityValue).toBeCloseTo(1381.82, 2);
+        expect(dcf.terminalValueShare).toBeCloseTo(80.95, 1);
+    });
+
+    it('should value the company at the median peer multiple', () => {
+        const [revenue, ebitda] = calculator.calculate(input).multiples;
+
+        expect(revenue.method).toBe('ev_revenue');
+        expect(revenue.medianMultiple).toBe(3);
+        expect(revenue.enterpriseValue).toBe(1200);
+        expect(revenue.equityValue).toBe(1150);
+        expect(ebitda.peers).toBe(2);
+        expect(ebitda.medianMultiple).toBe(9);
+        expect(ebitda.enterpriseValue).toBe(1350);
+    });
+
+    it('should skip multiples without a positive company metric', () => {
+        const result = calculator.calculate({ ...input, ebitda: -20 });
+
+        expect(result.multiples.map((valuation) => valuation.method)).toEqual(['ev_revenue']);
+        expect(result.footballField.map((bar) => bar.method)).toEqual(['dcf', 'ev_revenue']);
+    });
+
+    it('should build a WACC by terminal growth table that includes the base case', () => {
+        const { sensitivity, dcf } = calculator.calculate(input);
+
+        expect(sensitivity.waccRates).toEqual([8, 9, 10, 11, 12]);
+        expect(sensitivity.growthRates).toEqual([1, 1.5, 2, 2.5, 3]);
+        expect(sensitivity.enterpriseValues[2][2]).toBe(dcf.enterpriseValue);
+        // Value falls as the WACC rises and grows with the terminal growth
+        expect(sensitivity.enterpriseValues[0][2]).toBeGreaterThan(sensitivity.enterpriseValues[4][2] as number);
+        expect(sensitivity.enterpriseValues[2][4]).toBeGreaterThan(sensitivity.enterpriseValues[2][0] as number);
+
+        const tight = calculator.calculate({ ...input, wacc: 3, terminalGrowth: 2 });
+        expect(tight.sensitivity.enterpriseValues[0][0]).toBeNull();
+    });
+
+    it('should span the football field from the lowest to the highest estimate', () => {
+        const [dcf, revenue] = calculator.calculate(input).footballField;
+
+        expect(dcf.low).toBeLessThan(dcf.mid);
+        expect(dcf.high).toBeGreaterThan(dcf.mid);
+        expect(revenue.low).toBe(2 * 400 - 50);
+        expect(revenue.high).toBe(4 * 400 - 50);
+    });
+
+    it('should reject a WACC that does not exceed the terminal growth', () => {
+        expect(() => calculator.calculate({ ...input, wacc: 2, terminalGrowth: 2 })).toThrow('wacc');
+    });
+
+    it('should sum monthly project cash flows into years', () => {
+        const monthly = Array.from({ length: 30 }, () => 10);
+
+        expect(calculator.toYearlyCashFlows(monthly)).toEqual([120, 120, 60]);
+    });
+
+    it('should annualise a partial last year for the terminal value only', () => {
+        const base = { ...input, freeCashFlows: [120, 120, 60], peers: [] };
+        const { dcf } = calculator.calculate({ ...base, finalYearMonths: 6 });
+        const horizon = 2.5;
+
+        // The stub keeps its real 60, discounted from its own end
+        expect(dcf.presentValueOfCashFlows).toBeCloseTo(120 / 1.1 + 120 / 1.21 + 60 / Math.pow(1.1, horizon), 2);
+        // The terminal value grows a full year of 120 from month 30
+        expect(dcf.terminalValue).toBeCloseTo((120 * 1.02) / 0.08, 2);
+        expect(dcf.presentValueOfTerminalValue).toBeCloseTo(((120 * 1.02) / 0.08) / Math.pow(1.1, horizon), 2);
+        expect(() => calculator.calculate({ ...base, finalYearMonths: 0 })).toThrow('finalYearMonths');
+    });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { VarianceCalculator } from '../lib/infrastructure/calculators/VarianceCalculator';
+import { parseActualsCsv } from '../lib/project-actuals';
+import type { MonthlyActual } from '../types/project';
+
+const actual = (month: number, revenue: number, operatingCosts = 0, capex = 0): MonthlyActual => ({
+    month,
+    revenue,
+    operatingCosts,
+    maintenanceCosts: 0,
+    capex,
+});
+
+describe('VarianceCalculator', () => {
+    const calculator = new VarianceCalculator();
+    const projectedCashFlow = new Array(12).fill(1000);
+
+    it('should compute monthly and cumulative variance and flag months over the threshold', () => {
+        const result = calculator.calculate({
+            projectedCashFlow,
+            initialInvestment: 10000,
+            discountRate: 0,
+            actuals: [actual(2, 1500, 600), actual(1, 1200, 150)],
+            threshold: 10,
+        });
+
+        expect(result.months.map((m) => m.month)).toEqual([1, 2]);
+        expect(result.months[0]).toMatchObject({ actual: 1050, variance: 50, variancePercent: 5, flagged: false });
+        expect(result.months[1]).toMatchObject({ actual: 900, variance: -100, variancePercent: -10, flagged: false });
+        expect(result.cumulativeVariance).toBe(-50);
+        expect(result.cumulativeVariancePercent).toBe(-2.5);
+        expect(result.cumulativeFlagged).toBe(false);
+
+        const strict = calculator.calculate({ projectedCashFlow, initialInvestment: 10000, discountRate: 0, actuals: [actual(2, 900)], threshold: 5 });
+        expect(strict.months[0].flagged).toBe(true);
+        expect(strict.cumulativeFlagged).toBe(true);
+    });
+
+    it('should re-forecast remaining months at the trailing run-rate variance', () => {
+        const result = calculator.calculate({
+            projectedCashFlow,
+            initialInvestment: 10000,
+            discountRate: 0,
+            actuals: [actual(1, 1000), actual(2, 800), actual(3, 900), actual(4, 700)],
+        });
+
+        // Last three months ran 200, 100 and 300 below plan
+        expect(result.lastReportedMonth).toBe(4);
+        expect(result.runRateAdjustment).toBe(-200);
+        expect(result.forecastCashFlow.slice(0, 5)).toEqual([1000, 800, 900, 700, 800]);
+        expect(result.plannedNPV).toBe(2000);
+        // 3400 actual to date plus 8 months at 800
+        expect(result.projectedNPVAtCompletion).toBe(-200);
+        expect(result.npvVariance).toBe(-2200);
+    });
+
+    it('should keep the projection for unreported months and value at the plan without actuals', () => {
+        const withGap = calculator.calculate({ projectedCashFlow, initialInvestment: 10000, discountRate: 10, actuals: [actual(3, 1000, 0, 500)] });
+        expect(withGap.forecastCashFlow.slice(0, 4)).toEqual([1000, 1000, 500, 500]);
+
+        const none = calculator.calculate({ projectedCashFlow, initialInvestment: 10000, discountRate: 10, actuals: [] });
+        expect(none.lastReportedMonth).toBe(0);
+        expect(none.projectedNPVAtCompletion).toBe(none.plannedNPV);
+        expect(none.cumulativeVariancePercent).toBeNull();
+    });
+
+    it('should move an anchored planned NPV by the discounted variance', () => {
+        const base = { projectedCashFlow, initialInvestment: 10000, discountRate: 0, plannedNPV: 5000 };
+
+        expect(calculator.calculate({ ...base, actuals: [] }).projectedNPVAtCompletion).toBe(5000);
+        // One month 400 under plan, carried to the 11 remaining months at the run rate
+        expect(calculator.calculate({ ...base, actuals: [actual(1, 600)] }).projectedNPVAtCompletion).toBe(200);
+    });
+
+    it('should reject months outside the projection and duplicates', () => {
+        const base = { projectedCashFlow, initialInvestment: 10000, discountRate: 10 };
+        expect(() => calculator.calculate({ ...base, actuals: [actual(13, 0)] })).toThrow('must be between 1 and 12');
+        expect(() => calculator.calculate({ ...base, actuals: [actual(2, 0), actual(2, 1)] })).toThrow('duplicate actuals for month 2');
+    });
+});
+
+describe('parseActualsCsv', () => {
+    it('should read rows positionally when there is no header', () => {
+        const { actuals, errors } = parseActualsCsv('2,1500,400,100,0\n1,1200,400,,250\n');
+
+        expect(errors).toEqual([]);
+        expect(actuals).toEqual([
+            { month: 1, revenue: 1200, operatingCosts: 400, maintenanceCosts: 0, capex: 250 },
+            { month: 2, revenue: 1500, operatingCosts: 400, maintenanceCosts: 100, capex: 0 },
+        ]);
+    });
+
+    it('should map header columns in any order and accept semicolons', () => {
+        const { actuals } = parseActualsCsv('Capex;Month;Revenue;Opex\n100;1;900;300');
+
+        expect(actuals).toEqual([{ month: 1, revenue: 900, operatingCosts: 300, maintenanceCosts: 0, capex: 100 }]);
+    });
+
+    it('should report invalid rows by line and keep the valid ones', () => {
+        const { actuals, errors } = parseActualsCsv('month,revenue\n1,100\n\n1,200\n0,50\n2,abc');
+
+        expect(actuals.map((a) => a.month)).toEqual([1]);
+        expect(errors).toEqual([
+            { line: 4, reason: 'duplicate_month' },
+            { line: 5, reason: 'invalid_month' },
+            { line: 6, reason: 'invalid_number' },
+        ]);
+        expect(parseActualsCsv('revenue,capex\n1,2').errors).toEqual([{ line: 1, reason: 'missing_month_column' }]);
+    });
+});
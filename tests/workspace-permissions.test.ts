@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import {
+    invitationStatus,
+    projectRole,
+    resolveProjectRole,
+    roleAllows,
+    wouldOrphanWorkspace,
+    WORKSPACE_ROLES,
+} from '../lib/workspace-permissions';
+import type { WorkspaceRole } from '../types/project';
+
+describe('roleAllows', () => {
+    it('should grant each role its own permissions and everything below', () => {
+        const grid = WORKSPACE_ROLES.map((role) =>
+            (['view', 'comment', 'edit', 'manage'] as const).map((permission) => roleAllows(role, permission))
+        );
+
+        expect(grid).toEqual([
+            [true, true, true, true],
+            [true, true, true, false],
+            [true, true, false, false],
+            [true, false, false, false],
+        ]);
+        expect(roleAllows(null, 'view')).toBe(false);
+    });
+});
+
+describe('resolveProjectRole', () => {
+    it('should make creators owners of personal projects only', () => {
+        expect(resolveProjectRole({ userId: 1, workspaceId: null }, 1, null)).toBe('owner');
+        expect(resolveProjectRole({ userId: 1, workspaceId: null }, 2, 'owner')).toBeNull();
+    });
+
+    it('should follow the workspace membership for workspace projects, even for the creator', () => {
+        expect(resolveProjectRole({ userId: 1, workspaceId: 'w1' }, 2, 'viewer')).toBe('viewer');
+        expect(resolveProjectRole({ userId: 1, workspaceId: 'w1' }, 1, 'commenter')).toBe('commenter');
+        expect(resolveProjectRole({ userId: 1, workspaceId: 'w1' }, 1, null)).toBeNull();
+    });
+
+    it('should treat local projects without a role as owned', () => {
+        expect(projectRole({})).toBe('owner');
+        expect(projectRole({ accessRole: 'viewer' })).toBe('viewer');
+    });
+});
+
+describe('wouldOrphanWorkspace', () => {
+    const members: { userId: number; role: WorkspaceRole }[] = [
+        { userId: 1, role: 'owner' },
+        { userId: 2, role: 'editor' },
+    ];
+
+    it('should block removing or demoting the last owner', () => {
+        expect(wouldOrphanWorkspace(members, 1, null)).toBe(true);
+        expect(wouldOrphanWorkspace(members, 1, 'editor')).toBe(true);
+        expect(wouldOrphanWorkspace(members, 1, 'owner')).toBe(false);
+        expect(wouldOrphanWorkspace(members, 2, null)).toBe(false);
+    });
+
+    it('should allow it once another owner exists', () => {
+        expect(wouldOrphanWorkspace([...members, { userId: 3, role: 'owner' }], 1, 'viewer')).toBe(false);
+    });
+});
+
+describe('invitationStatus', () => {
+    const now = new Date('2025-06-01T00:00:00Z');
+    const base = { acceptedAt: null, revokedAt: null, expiresAt: '2025-06-08T00:00:00.000Z' };
+
+    it('should report pending, accepted, revoked and expired invitations', () => {
+        expect(invitationStatus(base, now)).toBe('pending');
+        expect(invitationStatus({ ...base, acceptedAt: now }, now)).toBe('accepted');
+        expect(invitationStatus({ ...base, revokedAt: now }, now)).toBe('revoked');
+        expect(invitationStatus({ ...base, expiresAt: now }, now)).toBe('expired');
+    });
+});
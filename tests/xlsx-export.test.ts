@@ -0,0 +1,184 @@
+import { describe, it, expect } from 'vitest';
+import { cellRef, crc32, createXlsx, toBase64, type XlsxCell, type XlsxSheet } from '../lib/export/xlsx-writer';
+import {
+    buildCashFlowForecastWorkbook,
+    buildLoanWorkbook,
+    buildProjectWorkbook,
+} from '../lib/export/xlsx-workbooks';
+import { CalculationService } from '../lib/application/services/CalculationService';
+import type { ProjectData, ScenarioSnapshot } from '../types/project';
+
+/**
+ * Reads the stored (uncompressed) entries of a ZIP through its central directory
+ */
+function unzip(bytes: Uint8Array): Map<string, string> {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const end = bytes.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+
+    const files = new Map<string, string>();
+    const decoder = new TextDecoder();
+    let offset = view.getUint32(end + 16, true);
+    for (let i = 0; i < view.getUint16(end + 10, true); i++) {
+        expect(view.getUint32(offset, true)).toBe(0x02014b50);
+        const crc = view.getUint32(offset + 16, true);
+        const size = view.getUint32(offset + 20, true);
+        const nameLength = view.getUint16(offset + 28, true);
+        const localOffset = view.getUint32(offset + 42, true);
+        const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+        const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true);
+        const data = bytes.subarray(dataStart, dataStart + size);
+        expect(crc32(data)).toBe(crc);
+        files.set(name, decoder.decode(data));
+        offset += 46 + nameLength;
+    }
+    return files;
+}
+
+const cell = (sheet: XlsxSheet, ref: string): XlsxCell | null => {
+    const match = /^([A-Z]+)(\d+)$/.exec(ref)!;
+    const column = match[1].split('').reduce((sum, char) => sum * 26 + char.charCodeAt(0) - 64, 0) - 1;
+    const value = sheet.rows[Number(match[2]) - 1]?.[column];
+    if (value === null || value === undefined) return null;
+    return typeof value === 'object' ? value : { value };
+};
+
+const project: ProjectData = {
+    id: 'p1',
+    name: 'Plant',
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+    initialInvestment: 100000,
+    discountRate: 10,
+    projectDuration: 24,
+    yearlyRevenue: 80000,
+    revenueGrowth: 5,
+    operatingCosts: 20000,
+    maintenanceCosts: 5000,
+    bestCaseMultiplier: 1.2,
+    worstCaseMultiplier: 0.8,
+};
+
+describe('xlsx writer', () => {
+    it('should compute the standard CRC-32 and base64', () => {
+        const bytes = new TextEncoder().encode('123456789');
+        expect(crc32(bytes)).toBe(0xcbf43926);
+        expect(toBase64(bytes)).toBe(Buffer.from(bytes).toString('base64'));
+        expect(toBase64(new Uint8Array([1, 2]))).toBe('AQI=');
+        expect(cellRef(27, 3, true)).toBe('$AB$3');
+    });
+
+    it('should package sheets as a valid workbook with formulas and escaped text', () => {
+        const bytes = createXlsx([
+            { name: 'Inputs', rows: [['Rate & <term>', { value: 5, style: 'input' }], [null, { formula: 'PMT(B1/100,12,-1000)', value: 85.6 }]] },
+            { name: 'Cash Flow', rows: [[1, 2]] },
+        ]);
+        expect(Array.from(bytes.subarray(0, 4))).toEqual([0x50, 0x4b, 0x03, 0x04]);
+
+        const files = unzip(bytes);
+        expect([...files.keys()]).toEqual([
+            '[Content_Types].xml',
+            '_rels/.rels',
+            'xl/workbook.xml',
+            'xl/_rels/workbook.xml.rels',
+            'xl/styles.xml',
+            'xl/worksheets/sheet1.xml',
+            'xl/worksheets/sheet2.xml',
+        ]);
+        expect(files.get('xl/workbook.xml')).toContain('<sheet name="Cash Flow" sheetId="2" r:id="rId2"/>');
+        expect(files.get('xl/workbook.xml')).toContain('fullCalcOnLoad="1"');
+        const sheet = files.get('xl/worksheets/sheet1.xml')!;
+        expect(sheet).toContain('<t xml:space="preserve">Rate &amp; &lt;term&gt;</t>');
+        expect(sheet).toContain('<c r="B2"><f>PMT(B1/100,12,-1000)</f><v>85.6</v></c>');
+    });
+
+    it('should reject invalid or duplicate sheet names', () => {
+        expect(() => createXlsx([{ name: 'a/b', rows: [] }])).toThrow('Invalid sheet name');
+        expect(() => createXlsx([{ name: 'Data', rows: [] }, { name: 'data', rows: [] }])).toThrow('Duplicate sheet name');
+    });
+});
+
+describe('project workbook', () => {
+    it('should link the cash flow and valuation formulas to the inputs', async () => {
+        const results = await new CalculationService().calculateProjectResults(project);
+        const [inputs, cashFlow, scenarios] = buildProjectWorkbook({ ...project, results });
+
+        expect(cell(inputs, 'B14')?.formula).toBe("'Cash Flow'!$F$2+NPV(B13,'Cash Flow'!$F$3:$F$26)");
+        expect(cell(inputs, 'B15')?.formula).toContain("IRR('Cash Flow'!$F$2:$F$26)");
+        expect(cell(cashFlow, 'B3')?.formula).toBe('Inputs!$B$5*(1+Inputs!$B$6/100)^((A3-1)/12)/12');
+        expect(cell(cashFlow, 'A26')?.value).toBe(24);
+
+        // The discounted column reproduces the engine's NPV and net flows
+        const discounted = cashFlow.rows.slice(1, 26).reduce((sum, row) => sum + ((row[6] as XlsxCell).value as number), 0);
+        expect(discounted).toBeCloseTo(results.npv, 1);
+        expect(cell(cashFlow, 'F3')?.value).toBeCloseTo(results.monthlyCashFlow[0], 6);
+
+        expect(scenarios.rows.map((row) => row[0])).toEqual(['Scenario', 'Expected', 'Best case', 'Worst case'].map((name, i) =>
+            i === 0 ? { value: name, style: 'header' } : name
+        ));
+        expect(cell(scenarios, 'E3')?.formula).toBe('Inputs!$B$9');
+        expect(cell(scenarios, 'F3')?.formula).toContain('SUMPRODUCT(');
+    });
+
+    it('should list saved scenarios and keep non-formula models as values', () => {
+        const scenario: ScenarioSnapshot = {
+            id: 's1',
+            name: 'Price cut',
+            createdAt: '2025-01-01T00:00:00.000Z',
+            isBase: false,
+            salesAdjustment: -10,
+            costsAdjustment: 5,
+            discountAdjustment: 1,
+            results: { roi: 0, npv: -1234, paybackPeriod: 0, irr: 0, monthlyCashFlow: [], cumulativeCashFlow: [] },
+        };
+        const [, , scenarios] = buildProjectWorkbook(project, [scenario]);
+        expect(scenarios.rows[4].slice(0, 4)).toEqual(['Price cut', { value: -10, style: 'number' }, { value: 5, style: 'number' }, { value: 1, style: 'number' }]);
+
+        const taxed = buildProjectWorkbook({
+            ...project,
+            projectDuration: 3,
+            fiscalAssumptions: { taxRate: 25 } as ProjectData['fiscalAssumptions'],
+            results: { monthlyCashFlow: [100, 200, 300] } as ProjectData['results'],
+        });
+        expect(cell(taxed[1], 'F4')).toEqual({ value: 200, style: 'input' });
+        expect(cell(taxed[1], 'B4')).toBeNull();
+        expect(cell(taxed[2], 'F2')).toBeNull();
+
+        const saas = buildProjectWorkbook({
+            ...project,
+            projectDuration: 3,
+            businessModel: 'saas',
+            saasInput: { averageRevenuePerUser: 50, churnRate: 2, grossMargin: 80 } as ProjectData['saasInput'],
+            results: { monthlyCashFlow: [100, 200, 300] } as ProjectData['results'],
+        });
+        expect(cell(saas[1], 'F4')).toEqual({ value: 200, style: 'input' });
+        expect(cell(saas[1], 'B4')).toBeNull();
+    });
+});
+
+describe('calculator workbooks', () => {
+    it('should build the loan payment with PMT and a linked amortization schedule', () => {
+        const [loan] = buildLoanWorkbook({ principal: 12000, annualInterestRate: 6, termMonths: 12 });
+
+        expect(cell(loan, 'A8')?.value).toBe('Monthly payment');
+        expect(cell(loan, 'B8')?.formula).toBe('PMT($B$3/100/12,$B$4,-$B$2)');
+        expect(cell(loan, 'B8')?.value).toBeCloseTo(1032.8, 1);
+        expect(cell(loan, 'A14')?.value).toBe('Month');
+        expect(cell(loan, 'E15')?.formula).toBe('$B$2');
+        expect(cell(loan, 'D16')?.formula).toBe('E15*$B$3/100/12');
+        expect(cell(loan, 'B16')?.formula).toBe('$B$8');
+        expect(cell(loan, 'A27')?.value).toBe(12);
+        expect(cell(loan, 'E27')?.value).toBeCloseTo(0, 1);
+    });
+
+    it('should carry the forecast table from CashFlowForecastCalculator', () => {
+        const [forecast] = buildCashFlowForecastWorkbook({ startingCash: 1000, monthlyRevenue: 500, monthlyExpenses: 600, forecastMonths: 6 });
+
+        expect(cell(forecast, 'A16')?.value).toBe('Month');
+        expect(cell(forecast, 'H17')?.formula).toBe('$B$2+G17');
+        expect(cell(forecast, 'H18')?.formula).toBe('H17+G18');
+        expect(cell(forecast, 'B12')).toMatchObject({ formula: 'H22', value: 400 });
+        expect(cell(forecast, 'B13')?.formula).toBe('MIN($B$2,H17:H22)');
+    });
+});
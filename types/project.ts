@@ -1,3 +1,5 @@
+import type { Currency } from '@/lib/domain/value-objects/Money';
+
 export interface ProjectData {
   id: string;
   name: string;
@@ -5,10 +7,15 @@ export interface ProjectData {
   updatedAt: string;
   description?: string;
 
+  // Team access, absent for personal projects
+  workspaceId?: string;
+  accessRole?: WorkspaceRole; // The current user's role, set when loaded from the server
+
   // Basic Information
   initialInvestment: number;
   discountRate: number;
   projectDuration: number; // in months
+  currency?: Currency; // All amounts are in this currency, defaults to USD
 
   // Revenue Projections
   yearlyRevenue: number;
@@ -29,10 +36,17 @@ export interface ProjectData {
   scenarios?: ScenarioSnapshot[];
 
   // New fields for modular architecture
-  businessModel?: 'standard' | 'saas' | 'ecommerce' | 'manufacturing';
+  businessModel?: BusinessModel;
   vanguardInput?: VanguardInput;
   saasInput?: SaaSInput;
   riskInput?: RiskInput;
+  monteCarloConfig?: MonteCarloConfig;
+  financeRate?: number; // MIRR finance rate %, defaults to discountRate
+  reinvestmentRate?: number; // MIRR reinvestment rate %, defaults to discountRate
+  lineItems?: LineItemModel;
+  fiscalAssumptions?: FiscalAssumptions;
+  inflation?: InflationAssumptions;
+  valuationBasis?: ValuationBasis; // Basis saved results are reported in, defaults to nominal
 }
 
 export interface ProjectResults {
@@ -54,6 +68,13 @@ export interface ProjectResults {
   paybackWorst: number;
   irrWorst: number;
 
+  // IRR reliability and modified IRR for the expected case
+  irrDiagnostics?: IRRDiagnostics;
+  mirr?: number;
+
+  // Nominal or real terms (only differs when inflation is set)
+  valuationBasis?: ValuationBasis;
+
   // Cash Flow Data
   monthlyCashFlow: number[];
   cumulativeCashFlow: number[];
@@ -65,6 +86,18 @@ export interface ProjectResults {
     ser: number;
   };
 
+  // After-tax free cash flow (only when fiscal assumptions are set)
+  freeCashFlowSummary?: FreeCashFlowSummary;
+
+  // MRR projection behind the revenue line (only for SaaS projects)
+  saasProjectionSummary?: SaaSProjectionSummary;
+
+  // Monte Carlo Simulation
+  monteCarlo?: MonteCarloResult;
+
+  // Engine version that produced these results (set by the server)
+  calculatorVersion?: string;
+
   // AI Insights
   aiInsights?: string;
   aiGeneratedAt?: string;
@@ -103,6 +136,196 @@ export interface ComparisonData {
   };
 }
 
+/**
+ * Inputs and results of a project as they were saved at one point in time
+ */
+export type ProjectVersionSnapshot = Partial<Omit<ProjectData, 'id' | 'createdAt' | 'updatedAt' | 'scenarios'>>;
+
+/**
+ * Audit trail entry written on every save; unlike scenarios, versions are never edited
+ */
+export interface ProjectVersion {
+  id: string;
+  projectId: string;
+  version: number;
+  authorId: number;
+  authorName: string | null;
+  restoredFromVersion: number | null;
+  snapshot: ProjectVersionSnapshot;
+  createdAt: string;
+}
+
+export interface VersionFieldChange {
+  field: string; // dotted path, e.g. fiscalAssumptions.taxRate or lineItems.costLines[0].amount
+  before: string | number | boolean | null;
+  after: string | number | boolean | null;
+}
+
+export interface VersionMetricDelta {
+  metric: 'npv' | 'irr' | 'mirr' | 'roi' | 'paybackPeriod' | 'npvBest' | 'npvWorst';
+  before: number | null;
+  after: number | null;
+  delta: number | null;
+}
+
+export interface ProjectVersionDiff {
+  fromVersion: number;
+  toVersion: number;
+  changes: VersionFieldChange[];
+  metrics: VersionMetricDelta[];
+}
+
+/**
+ * What actually happened in one project month, recorded after approval.
+ * Months are 1-based like the projected monthlyCashFlow.
+ */
+export interface MonthlyActual {
+  month: number;
+  revenue: number;
+  operatingCosts: number;
+  maintenanceCosts: number;
+  capex: number;
+}
+
+export interface VarianceMonth {
+  month: number;
+  projected: number;
+  actual: number;
+  variance: number; // actual - projected
+  variancePercent: number | null; // relative to |projected|, null when nothing was projected
+  cumulativeProjected: number;
+  cumulativeActual: number;
+  cumulativeVariance: number;
+  flagged: boolean; // variance exceeds the threshold
+}
+
+export interface VarianceAnalysis {
+  threshold: number; // % of projected that triggers a flag
+  months: VarianceMonth[]; // reported months only, in order
+  lastReportedMonth: number; // 0 when nothing is reported yet
+  cumulativeProjected: number;
+  cumulativeActual: number;
+  cumulativeVariance: number;
+  cumulativeVariancePercent: number | null;
+  cumulativeFlagged: boolean;
+  runRateAdjustment: number; // monthly variance carried into the re-forecast
+  forecastCashFlow: number[]; // actuals to date, re-forecast for the remaining months
+  plannedNPV: number;
+  projectedNPVAtCompletion: number;
+  npvVariance: number;
+}
+
+/**
+ * What a share link exposes: headline metrics only, or inputs and results
+ */
+export type ShareScope = 'summary' | 'full';
+
+export interface ShareLink {
+  id: string;
+  token: string;
+  projectId: string;
+  scope: ShareScope;
+  hasPassword: boolean;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  viewCount: number;
+  lastViewedAt: string | null;
+  createdAt: string;
+}
+
+export interface SharedProjectSummary {
+  roi: number;
+  npv: number;
+  irr: number;
+  paybackPeriod: number;
+  roiBest: number;
+  npvBest: number;
+  roiWorst: number;
+  npvWorst: number;
+}
+
+/**
+ * A project as seen through a share link
+ */
+export interface SharedProjectView {
+  scope: ShareScope;
+  name: string;
+  currency: Currency;
+  discountRate: number;
+  summary: SharedProjectSummary | null;
+  project?: ProjectData; // Full scope only
+}
+
+export type ShareLinkResolution =
+  | { status: 'ok'; view: SharedProjectView }
+  | { status: 'not_found' | 'revoked' | 'expired' | 'password_required' | 'invalid_password' | 'too_many_attempts' };
+
+/**
+ * Workspace roles, from most to least privileged
+ */
+export type WorkspaceRole = 'owner' | 'editor' | 'commenter' | 'viewer';
+
+export interface Workspace {
+  id: string;
+  name: string;
+  role: WorkspaceRole;
+  memberCount: number;
+  createdAt: string;
+}
+
+export interface WorkspaceMember {
+  userId: number;
+  name: string | null;
+  email: string | null;
+  role: WorkspaceRole;
+  joinedAt: string;
+}
+
+export interface WorkspaceInvitation {
+  id: string;
+  token: string;
+  role: WorkspaceRole;
+  expiresAt: string;
+  acceptedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+/**
+ * What a comment thread is attached to; the key names the input field, scenario id or metric
+ */
+export type CommentAnchorType = 'project' | 'input' | 'scenario' | 'metric';
+
+export interface CommentAnchor {
+  type: CommentAnchorType;
+  key: string | null; // Null for project-level comments
+}
+
+export interface ProjectComment {
+  id: string;
+  projectId: string;
+  parentId: string | null;
+  anchor: CommentAnchor;
+  authorId: number;
+  authorName: string | null;
+  body: string;
+  mentions: number[];
+  resolvedAt: string | null; // Only set on root comments
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CommentThread {
+  root: ProjectComment;
+  replies: ProjectComment[];
+}
+
+export interface MentionableUser {
+  userId: number;
+  name: string | null;
+  email: string | null;
+}
+
 export interface FinancialCalculationInput {
   initialInvestment: number;
   discountRate: number;
@@ -112,6 +335,14 @@ export interface FinancialCalculationInput {
   operatingCosts: number;
   maintenanceCosts: number;
   multiplier?: number; // For scenario analysis
+  financeRate?: number; // MIRR cost of financing outflows, defaults to discountRate
+  reinvestmentRate?: number; // MIRR rate earned on inflows, defaults to discountRate
+  lineItems?: LineItemModel; // Replaces the single revenue/cost pair when it has items
+  fiscalAssumptions?: FiscalAssumptions; // Switches metrics to after-tax free cash flow
+  inflation?: InflationAssumptions; // Indexes revenue and costs, which are stated in today's prices
+  valuationBasis?: ValuationBasis; // Defaults to nominal
+  businessModel?: BusinessModel;
+  saasInput?: SaaSInput; // For 'saas' projects an MRR projection replaces yearlyRevenue * growth
 }
 
 export interface FinancialCalculationResult {
@@ -121,6 +352,33 @@ export interface FinancialCalculationResult {
   irr: number;
   monthlyCashFlow: number[];
   cumulativeCashFlow: number[];
+  irrDiagnostics?: IRRDiagnostics;
+  mirr?: number;
+  freeCashFlow?: FreeCashFlowBreakdown;
+  valuationBasis?: ValuationBasis;
+  saasProjection?: SaaSProjection;
+}
+
+/**
+ * Outcome of the bracketed IRR solver.
+ * converged: a single root was found
+ * multiple_roots: more than one rate sets NPV to zero; the one closest to the discount rate is reported
+ * no_sign_change: cash flows never change sign, so no IRR exists
+ * no_root: no rate within the search range sets NPV to zero
+ * not_converged: a root was bracketed but the solver ran out of iterations
+ */
+export type IRRStatus = 'converged' | 'multiple_roots' | 'no_sign_change' | 'no_root' | 'not_converged';
+
+export interface IRRDiagnostics {
+  status: IRRStatus;
+  signChanges: number; // more than one means multiple IRRs are possible
+  roots: number[]; // every annual % rate found
+  iterations: number;
+}
+
+export interface DatedCashFlow {
+  date: string; // ISO date
+  amount: number;
 }
 
 export interface CashFlowData {
@@ -159,6 +417,609 @@ export interface SaaSInput {
   contractedMRR: number;
   revenueGrowthRate: number; // %
   profitMargin: number; // %
+  monthlyAcquisitionSpend?: number; // sales and marketing spend that buys new customers at cacCost
+}
+
+/**
+ * Month-by-month MRR projection. The acquisition spend buys new customers at cacCost;
+ * churn, expansion and contraction are monthly percentages of the opening MRR.
+ */
+export interface SaaSProjectionInput {
+  months: number;
+  startingMRR: number;
+  startingCustomers?: number; // defaults to startingMRR / averageRevenuePerUser
+  averageRevenuePerUser: number; // MRR of each new customer
+  cacCost: number;
+  monthlyAcquisitionSpend: number;
+  acquisitionSpendGrowth?: number; // annual %
+  churnRate: number; // monthly % of customers and MRR
+  expansionRate: number; // monthly %
+  contractionRate: number; // monthly %
+  grossMargin: number; // %
+  monthlyOperatingCosts?: number; // other cash costs, only used for burn
+}
+
+export interface SaaSProjectionMonth {
+  month: number; // 1-based
+  openingMRR: number;
+  newMRR: number;
+  expansionMRR: number;
+  contractionMRR: number;
+  churnedMRR: number;
+  closingMRR: number;
+  arr: number;
+  newCustomers: number;
+  churnedCustomers: number;
+  customers: number;
+  revenue: number; // the month bills its closing MRR
+  acquisitionSpend: number;
+  grossProfit: number;
+  burn: number; // acquisition spend and operating costs less gross profit; negative when cash generative
+}
+
+/**
+ * MRR movements over the whole horizon: opening + new + expansion - contraction - churn = closing
+ */
+export interface SaaSMRRWaterfall {
+  openingMRR: number;
+  newMRR: number;
+  expansionMRR: number;
+  contractionMRR: number;
+  churnedMRR: number;
+  closingMRR: number;
+}
+
+export interface SaaSProjection {
+  months: SaaSProjectionMonth[];
+  waterfall: SaaSMRRWaterfall;
+  endingARR: number;
+  endingCustomers: number;
+  totalRevenue: number;
+  totalAcquisitionSpend: number;
+  totalBurn: number;
+  peakBurn: number;
+  cashFlowPositiveMonth: number | null; // first month that does not burn cash
+}
+
+/**
+ * Projection totals stored with a project's results, without the month-by-month detail
+ */
+export type SaaSProjectionSummary = Omit<SaaSProjection, 'months'>;
+
+/**
+ * Aggregate figures for one customer cohort
+ */
+export interface CohortInput {
+  cohortName: string;
+  cohortRevenue: number;
+  directCosts: number;
+  customerCount: number;
+  acquisitionCost: number;
+  servicingCostPerCustomer: number;
+}
+
+/**
+ * Raw customer data for the retention matrix. Dates are YYYY-MM-DD (or YYYY-MM);
+ * only the month is used.
+ */
+export interface CustomerRevenueEvent {
+  date: string;
+  amount: number;
+}
+
+export interface CustomerRecord {
+  id: string;
+  signupDate: string;
+  churnDate?: string; // not active from this month on
+  revenue: CustomerRevenueEvent[];
+}
+
+export interface CohortRetentionInput {
+  customers: CustomerRecord[];
+  asOfDate?: string; // last observed month, defaults to the latest date in the data
+  projectionMonths?: number; // lifetime horizon for LTV, default 36
+  grossMargin?: number; // % of revenue kept for LTV and payback, default 100
+  acquisitionCost?: number; // CAC per customer, enables payback
+}
+
+/**
+ * One signup month. Arrays are indexed by months since signup (0 = signup month)
+ * and stop at the last observed month.
+ */
+export interface CohortRetentionRow {
+  cohort: string; // YYYY-MM
+  customers: number;
+  retention: number[]; // % of the cohort still active
+  revenueRetention: number[]; // % of the signup month revenue
+  revenue: number[];
+  ltv: number; // margin per customer, observed plus projected
+  paybackMonth: number | null; // months since signup to recover the CAC
+}
+
+/**
+ * Exponential retention curve fitted to the customer-weighted average retention:
+ * retained % = initialRetention * (1 - monthlyChurn) ^ (month - 1) from month 1 on.
+ */
+export interface RetentionCurveFit {
+  monthlyChurn: number; // %
+  initialRetention: number; // % retained after the first month
+  rSquared: number | null; // null when there were too few observed months to fit
+  projected: number[]; // % retained, month 0 to projectionMonths
+}
+
+export interface CohortRetentionAnalysis {
+  asOf: string; // YYYY-MM
+  cohorts: CohortRetentionRow[];
+  averageRetention: number[]; // customer-weighted across the cohorts observed at each age
+  averageRevenueRetention: number[];
+  curve: RetentionCurveFit;
+  averageRevenuePerUser: number; // monthly revenue per active customer
+  ltv: number;
+  paybackMonth: number | null;
+  saasInputs: Pick<SaaSInput, 'churnRate' | 'averageRevenuePerUser'>;
+}
+
+/**
+ * Monthly cash flow forecast input
+ */
+export interface CashFlowForecastInput {
+  startingCash: number;
+  monthlyRevenue: number;
+  monthlyExpenses: number;
+  forecastMonths?: number; // default 12
+  revenueGrowthRate?: number; // % per month
+  expenseGrowthRate?: number; // % per month
+  seasonalFactors?: number[];
+  oneTimeExpenses?: { month: number; amount: number }[];
+  expectedReceivables?: { month: number; amount: number }[];
+}
+
+/**
+ * Share of invoices settled a number of days after the invoice week
+ * (e.g. 60% at 30 days, 40% at 60 days). Shares are % and may sum below 100
+ * for customers; the remainder is treated as uncollectable.
+ */
+export interface PaymentTermBucket {
+  days: number;
+  share: number;
+}
+
+export type RecurringPaymentFrequency = 'weekly' | 'biweekly' | 'monthly' | 'quarterly';
+
+/**
+ * Payroll, rent, taxes and other fixed disbursements on their own calendar
+ */
+export interface RecurringPayment {
+  label: string;
+  amount: number;
+  frequency: RecurringPaymentFrequency;
+  firstWeek?: number; // weekly and biweekly, default 1
+  dayOfMonth?: number; // monthly and quarterly, default 1
+  monthOffset?: number; // quarterly: months from the start month to the first payment, default 0
+}
+
+/**
+ * Known cash event in a given forecast week
+ */
+export interface WeeklyCashEvent {
+  week: number;
+  amount: number;
+  label?: string;
+}
+
+/**
+ * 13-week cash forecast input. Sales and purchases are invoiced amounts per week,
+ * either one value for every week or one value per week.
+ */
+export interface WeeklyCashForecastInput {
+  startingCash: number;
+  startDate?: string; // ISO date of the first week, default today
+  weeks?: number; // default 13
+  weeklySales: number | number[];
+  weeklyPurchases?: number | number[];
+  collectionTerms?: PaymentTermBucket[]; // default: cash sales
+  paymentTerms?: PaymentTermBucket[]; // default: paid on purchase
+  recurringPayments?: RecurringPayment[];
+  oneTimeExpenses?: WeeklyCashEvent[];
+  expectedReceivables?: WeeklyCashEvent[]; // open invoices from before the forecast
+  minimumCashBuffer?: number;
+}
+
+export interface WeeklyCashForecast {
+  week: number;
+  weekStart: string; // ISO date
+  collections: number; // from forecast sales
+  receivablesCollected: number; // expectedReceivables
+  supplierPayments: number;
+  recurringPayments: number;
+  oneTimeExpenses: number;
+  netCashFlow: number;
+  endingCash: number;
+  accountsReceivable: number; // open at week end
+  accountsPayable: number; // open at week end
+  belowBuffer: boolean;
+}
+
+export interface ReceivablesAging {
+  current: number; // 0-30 days
+  days31to60: number;
+  days61to90: number;
+  over90: number;
+}
+
+/**
+ * Break-even calculator input. Costs and units are per period.
+ * pricePerUnit and variableCostPerUnit are required unless a product list is given.
+ */
+export interface BreakEvenInput {
+  fixedCosts: number;
+  pricePerUnit?: number;
+  variableCostPerUnit?: number;
+  currentSalesUnits?: number; // total units across all products
+  periodMonths?: number;
+  products?: SalesMixProduct[];
+  stepFixedCosts?: StepFixedCost[];
+  targetProfit?: number;
+}
+
+/**
+ * One item of a multi-product sales mix; shares are normalized, so they may be
+ * entered as percentages or as units sold.
+ */
+export interface SalesMixProduct {
+  name: string;
+  pricePerUnit: number;
+  variableCostPerUnit: number;
+  mixShare: number;
+}
+
+/**
+ * Fixed cost added once total units go above the threshold (e.g. a second shift)
+ */
+export interface StepFixedCost {
+  label?: string;
+  thresholdUnits: number;
+  amount: number;
+}
+
+export interface SalesMixProductResult {
+  name: string;
+  mixShare: number; // % of units after normalization
+  contributionMarginPerUnit: number;
+  contributionMarginRatio: number; // %
+  breakEvenUnits: number;
+  breakEvenRevenue: number;
+  targetUnits: number | null;
+}
+
+export interface BusinessTemplate {
+  id: string;
+  name: string;
+  industry: 'restaurant' | 'ecommerce' | 'services' | 'retail' | 'manufacturing';
+  description: string;
+  defaultInputs: {
+    fixedCosts?: number;
+    pricePerUnit?: number;
+    variableCostPerUnit?: number;
+    desiredMargin?: number;
+    products?: SalesMixProduct[];
+  };
+  benchmarks: Record<'grossMargin' | 'netMargin' | 'laborCostRatio', { min: number; max: number; optimal: number }>;
+}
+
+/**
+ * Pricing calculator input. Volumes are units per period.
+ */
+export interface PricingInput {
+  costPerUnit: number;
+  desiredMargin: number; // %
+  competitorPrice?: number;
+  targetVolume?: number;
+  fixedCostsPerPeriod?: number;
+  demand?: PricingDemandInput;
+}
+
+/**
+ * Demand curve shape
+ * - linear: volume falls by the same amount for every unit of price
+ * - constant_elasticity: volume falls by the same percentage for every percent of price
+ */
+export type DemandCurveShape = 'linear' | 'constant_elasticity';
+
+export interface PriceObservation {
+  price: number;
+  volume: number;
+}
+
+/**
+ * Demand model, either from a price elasticity at a reference point or fitted to
+ * observed (price, volume) pairs; observations win when both are given.
+ */
+export interface PricingDemandInput {
+  shape?: DemandCurveShape; // defaults to linear
+  elasticity?: number; // negative, at the reference point
+  referencePrice?: number; // defaults to the competitor price, then the target margin price
+  referenceVolume?: number; // defaults to targetVolume
+  observations?: PriceObservation[];
+}
+
+export interface PricePoint {
+  price: number;
+  volume: number;
+  revenue: number;
+  profit: number; // after fixedCostsPerPeriod
+}
+
+export interface PricingDemandAnalysis {
+  shape: DemandCurveShape;
+  elasticity: number; // at the reference point for linear curves
+  fitted: boolean;
+  rSquared: number | null; // goodness of fit, only for fitted curves
+  profitMaximizing: PricePoint | null; // null when profit keeps rising with price
+  revenueMaximizing: PricePoint | null; // null when revenue keeps rising as price falls or rises
+  curve: PricePoint[];
+}
+
+/**
+ * Employee ROI input for a single hire. Amounts are annual.
+ */
+export interface EmployeeROIInput {
+  annualSalary: number;
+  annualBenefits: number;
+  onboardingCosts: number;
+  revenueGenerated: number;
+  hoursPerWeek: number;
+  roleType?: string; // sales, operations, technical, administrative
+}
+
+/**
+ * Ramp-up to full productivity
+ * - linear: same productivity gain every month
+ * - s_curve: slow start, fast middle, slow finish
+ */
+export type RampUpCurve = 'linear' | 's_curve';
+
+/**
+ * One role in a hiring plan. Months are 1-based project months.
+ */
+export interface PlannedHire {
+  role: string;
+  startMonth: number;
+  annualSalary: number;
+  benefitsRatio: number; // % of salary
+  onboardingCost: number; // paid in the start month
+  annualRevenue: number; // contributed at full productivity
+  rampUpMonths: number; // months to full productivity, 0 = productive from day one
+  rampCurve?: RampUpCurve; // defaults to linear
+}
+
+export interface HiringPlanInput {
+  hires: PlannedHire[];
+  horizonMonths: number;
+}
+
+export interface HiringPlanMonth {
+  month: number;
+  headcount: number;
+  payroll: number; // salary plus benefits
+  onboarding: number;
+  cost: number;
+  revenue: number;
+  net: number;
+  cumulativeCost: number;
+  cumulativeRevenue: number;
+  cumulativeROI: number; // %
+}
+
+export interface HireBreakEven {
+  role: string;
+  startMonth: number;
+  fullProductivityMonth: number;
+  totalCost: number;
+  totalRevenue: number;
+  roi: number; // % over the horizon
+  breakEvenMonth: number | null; // project month, null when not reached within the horizon
+  monthsToBreakEven: number | null; // counted from the start month
+}
+
+export interface HiringPlanResult {
+  months: HiringPlanMonth[];
+  hires: HireBreakEven[];
+  totalCost: number;
+  totalRevenue: number;
+  teamROI: number; // %
+  teamBreakEvenMonth: number | null;
+  peakHeadcount: number;
+  peakMonthlyPayroll: number;
+}
+
+/**
+ * Marketing ROI input for a single campaign. Channel keys match the calculator
+ * benchmarks (facebook, google, instagram, email, referral, other).
+ */
+export interface MarketingROIInput {
+  totalSpend: number;
+  conversions: number;
+  revenuePerConversion: number;
+  channel: string;
+  impressions?: number;
+  clicks?: number;
+}
+
+export type BudgetObjective = 'profit' | 'conversions';
+
+export interface SpendObservation {
+  spend: number;
+  conversions: number;
+}
+
+/**
+ * One channel in the budget allocator. Two or more past (spend, conversions) pairs
+ * fit the response curve; otherwise it is anchored on the channel benchmark CAC.
+ */
+export interface ChannelBudgetInput {
+  channel: string;
+  history?: SpendObservation[];
+  minSpend?: number;
+  maxSpend?: number;
+  revenuePerConversion?: number; // defaults to the allocation-wide value
+}
+
+export interface BudgetAllocationInput {
+  totalBudget: number;
+  objective: BudgetObjective;
+  revenuePerConversion: number;
+  channels: ChannelBudgetInput[];
+  responseExponent?: number; // 0-1, diminishing returns for curves without history, default 0.7
+}
+
+/**
+ * Diminishing-returns response curve: conversions = scale * spend ^ exponent
+ */
+export interface ChannelResponseCurve {
+  scale: number;
+  exponent: number;
+  source: 'history' | 'benchmark';
+  rSquared: number | null; // goodness of fit, only when fitted from history
+}
+
+export interface ChannelAllocation {
+  channel: string;
+  spend: number;
+  share: number; // % of the allocated spend
+  conversions: number;
+  revenue: number;
+  profit: number;
+  roas: number;
+  cac: number;
+  marginalRoas: number; // revenue from the next unit of spend
+  curve: ChannelResponseCurve;
+}
+
+export interface BudgetAllocation {
+  objective: BudgetObjective;
+  totalBudget: number;
+  allocatedSpend: number;
+  unallocated: number; // budget left over when extra spend would lose money
+  conversions: number;
+  revenue: number;
+  profit: number;
+  roas: number;
+  cac: number;
+  channels: ChannelAllocation[];
+}
+
+/**
+ * Enterprise valuation input. Free cash flows are yearly and received at year end;
+ * rates are annual percentages. Net debt is debt less cash (negative for net cash).
+ */
+export interface ValuationInput {
+  freeCashFlows: number[];
+  finalYearMonths?: number; // months covered by the last flow, 1-12 (defaults to a full year)
+  wacc: number; // %
+  terminalGrowth: number; // % perpetual growth after the last year
+  netDebt: number;
+  revenue?: number; // last twelve months, for EV/Revenue
+  ebitda?: number; // last twelve months, for EV/EBITDA
+  peers?: PeerMultiple[];
+  waccSteps?: number[]; // points around the WACC in the sensitivity table
+  growthSteps?: number[]; // points around the terminal growth
+}
+
+export interface PeerMultiple {
+  name: string;
+  evToRevenue?: number;
+  evToEbitda?: number;
+}
+
+export interface DCFValuation {
+  presentValueOfCashFlows: number;
+  terminalValue: number; // at the end of the last year
+  presentValueOfTerminalValue: number;
+  enterpriseValue: number;
+  equityValue: number;
+  terminalValueShare: number; // % of enterprise value
+}
+
+export type ValuationMethod = 'dcf' | 'ev_revenue' | 'ev_ebitda';
+
+export interface MultiplesValuation {
+  method: Exclude<ValuationMethod, 'dcf'>;
+  peers: number;
+  lowMultiple: number;
+  medianMultiple: number;
+  highMultiple: number;
+  enterpriseValue: number; // at the median multiple
+  equityValue: number;
+}
+
+/**
+ * Enterprise value for each WACC (rows) and terminal growth (columns);
+ * null where the WACC does not exceed the growth rate.
+ */
+export interface WACCSensitivityTable {
+  waccRates: number[];
+  growthRates: number[];
+  enterpriseValues: (number | null)[][];
+}
+
+/**
+ * One bar of the football field, in equity value
+ */
+export interface FootballFieldBar {
+  method: ValuationMethod;
+  low: number;
+  mid: number;
+  high: number;
+}
+
+export interface ValuationResult {
+  dcf: DCFValuation;
+  multiples: MultiplesValuation[];
+  sensitivity: WACCSensitivityTable;
+  footballField: FootballFieldBar[];
+}
+
+/**
+ * Loan calculator input. Rates are annual percentages and months are 1-based.
+ * The rate is fixed unless rateSteps (step-up) or variableRate (base rate plus spread) is set.
+ */
+export interface LoanInput {
+  principal: number;
+  annualInterestRate: number; // %
+  termMonths: number; // including the grace period
+  originationFee?: number; // % of principal, paid upfront
+  monthlyRevenue?: number;
+  monthlyExpenses?: number;
+
+  gracePeriodMonths?: number; // interest-only months at the start
+  rateSteps?: LoanRateStep[]; // annual rate from a month onwards, annualInterestRate before the first step
+  variableRate?: LoanVariableRate;
+  balloonPayment?: number; // principal left to repay with the last installment
+  prepayments?: LoanPrepayment[];
+}
+
+export interface LoanRateStep {
+  month: number;
+  annualRate: number; // %
+}
+
+export interface LoanVariableRate {
+  spread: number; // % over the base rate
+  baseRatePath: LoanRateStep[]; // base rate from a month onwards, annualInterestRate is the base before the first entry
+}
+
+/**
+ * Voluntary prepayment, made together with the installment of its month
+ * - shorten_term: keep the installment and repay earlier
+ * - reduce_payment: keep the maturity and lower the installment
+ */
+export type LoanPrepaymentStrategy = 'shorten_term' | 'reduce_payment';
+
+export interface LoanPrepayment {
+  month: number;
+  amount: number;
+  strategy: LoanPrepaymentStrategy;
 }
 
 /**
@@ -167,10 +1028,283 @@ export interface SaaSInput {
 export interface RiskInput {
   currentCash: number;
   monthlyBurnRate: number;
-  plannedFundraising?: number;
+  plannedFundraising?: number; // received today, on top of the rounds
   monthlyChurnRate: number;
   currentMRR: number;
   averageContractValue: number;
+  fundraisingRounds?: FundraisingRound[];
+  capTable?: CapTableEntry[]; // ownership today, defaults to founders at 100%
+  burnScenarios?: BurnScenario[];
+  minimumRunwayMonths?: number; // runway that must remain when the next round closes
+  asOfDate?: string; // YYYY-MM-DD, defaults to today
+}
+
+/**
+ * Planned equity round; cash arrives on its date (YYYY-MM-DD) if the company is still solvent.
+ * Rounds dated before the as-of date have closed and are already in the cash and cap table.
+ */
+export interface FundraisingRound {
+  name: string;
+  date: string;
+  amount: number;
+  preMoneyValuation: number;
+}
+
+export type ShareholderKind = 'founder' | 'investor' | 'employee';
+
+export interface CapTableEntry {
+  holder: string;
+  kind: ShareholderKind;
+  ownership: number; // %
+}
+
+/**
+ * Alternative burn plan, e.g. a hire freeze or a growth plan
+ */
+export interface BurnScenario {
+  name: string;
+  monthlyBurnRate: number;
+}
+
+export interface CapTableAfterRound {
+  round: string;
+  date: string;
+  amount: number;
+  preMoneyValuation: number;
+  postMoneyValuation: number;
+  entries: CapTableEntry[];
+  founderOwnership: number; // %
+  investorOwnership: number; // %
+}
+
+export interface RunwayScenario {
+  name: string;
+  monthlyBurnRate: number;
+  runwayMonths: number | null; // null when the plan burns no cash
+  zeroCashDate: string | null;
+  raiseByDate: string | null; // null without a minimum runway target
+  roundsFunded: number; // rounds that close before cash runs out
+}
+
+/**
+ * Line-item cash flow model.
+ * Months are 1-based; a capex tranche in month 0 is paid upfront.
+ */
+export type LineItemBehavior = 'fixed' | 'variable';
+
+export interface RevenueStream {
+  id: string;
+  name: string;
+  monthlyAmount: number;
+  startMonth: number;
+  endMonth?: number; // inclusive, defaults to the end of the project
+  growthRate: number; // annual %
+  behavior: LineItemBehavior; // fixed = contracted, not affected by scenario multipliers
+}
+
+export interface CostLine {
+  id: string;
+  name: string;
+  amount: number; // monthly amount, or % of revenue when variable
+  startMonth: number;
+  endMonth?: number; // inclusive, defaults to the end of the project
+  growthRate: number; // annual %, applies to fixed costs
+  behavior: LineItemBehavior;
+}
+
+export interface CapexTranche {
+  id: string;
+  name: string;
+  amount: number;
+  month: number; // 0 = upfront
+}
+
+export interface LineItemModel {
+  revenueStreams: RevenueStream[];
+  costLines: CostLine[];
+  capexTranches: CapexTranche[];
+}
+
+/**
+ * Fiscal layer applied on top of pre-tax operating cash flow.
+ * Rates are percentages; working capital is expressed in days.
+ */
+export type DepreciationMethod = 'straight_line' | 'declining_balance' | 'custom';
+
+export type TerminalValueMethod = 'none' | 'gordon_growth' | 'exit_multiple';
+
+export interface FiscalAssumptions {
+  taxRate: number; // corporate tax rate %
+  depreciationMethod: DepreciationMethod;
+  usefulLifeYears: number; // straight-line and declining balance
+  decliningBalanceFactor?: number; // 2 = double declining balance
+  customDepreciationSchedule?: number[]; // % of the depreciable base per year
+  lossCarryForward: boolean;
+  daysReceivable: number; // DSO
+  daysPayable: number; // DPO
+  daysInventory: number; // DIO
+  terminalValueMethod: TerminalValueMethod;
+  terminalGrowthRate?: number; // annual %, Gordon growth
+  exitMultiple?: number; // x trailing-twelve-month EBITDA
+}
+
+export interface FreeCashFlowBreakdown {
+  ebitda: number[];
+  depreciation: number[];
+  taxableIncome: number[];
+  tax: number[];
+  workingCapitalChange: number[];
+  capex: number[];
+  freeCashFlow: number[];
+  terminalValue: number; // undiscounted, at the end of the last month
+  presentTerminalValue: number;
+  unusedLosses: number; // loss carry-forward left at the end of the project
+}
+
+export interface FreeCashFlowSummary {
+  totalTax: number;
+  totalDepreciation: number;
+  peakWorkingCapital: number;
+  terminalValue: number;
+  presentTerminalValue: number;
+  unusedLosses: number;
+}
+
+/**
+ * Nominal: cash flows in money of the day, discounted at discountRate.
+ * Real: cash flows deflated to today's prices, discounted at the Fisher real rate
+ * (1 + discountRate) / (1 + inflation) - 1. NPV is the same on both bases;
+ * IRR, MIRR, ROI, payback and cash flows differ.
+ */
+export type ValuationBasis = 'nominal' | 'real';
+
+/**
+ * Price inflation applied to amounts stated in today's prices.
+ * With inflation set, revenueGrowth is read as real (volume) growth.
+ */
+export interface InflationAssumptions {
+  annualRate: number; // flat annual %, also used for years beyond the curve
+  curve?: number[]; // annual % for project years 1, 2, ...
+  applyToRevenue: boolean;
+  applyToOperatingCosts: boolean;
+  applyToMaintenanceCosts: boolean;
+}
+
+export type BusinessModel = 'standard' | 'saas' | 'ecommerce' | 'manufacturing';
+
+/**
+ * A project as seen by the portfolio optimizer, with amounts in the reporting currency
+ */
+export interface PortfolioCandidate {
+  id: string;
+  name: string;
+  investment: number;
+  npv: number;
+  worstCaseNpv: number;
+  businessModel: BusinessModel;
+}
+
+/**
+ * Side constraints on which projects may be funded together
+ */
+export interface PortfolioConstraints {
+  mandatory?: string[]; // project ids that must be funded
+  mutuallyExclusive?: [string, string][]; // at most one project of each pair
+  maxPerBusinessModel?: Partial<Record<BusinessModel, number>>;
+}
+
+/**
+ * A funded subset of projects. Risk is the summed spread between expected and worst-case NPV.
+ */
+export interface PortfolioSelection {
+  projectIds: string[];
+  totalInvestment: number;
+  totalNPV: number;
+  risk: number;
+}
+
+export interface PortfolioOptimizationResult {
+  budget: number;
+  feasible: boolean;
+  best: PortfolioSelection | null; // maximum total NPV within the budget
+  frontier: PortfolioSelection[]; // NPV-maximizing selection at each risk level, lowest risk first
+  exhaustive: boolean; // false when the search hit its node limit and results may be sub-optimal
+}
+
+/**
+ * Optimization over saved projects, with the candidates it was computed from
+ */
+export interface PortfolioOptimizationReport extends PortfolioOptimizationResult {
+  currency: Currency;
+  candidates: PortfolioCandidate[];
+  skippedProjectIds: string[]; // projects without calculated results
+}
+
+/**
+ * Probability distribution shapes supported by the Monte Carlo engine
+ */
+export type DistributionType = 'normal' | 'triangular' | 'uniform' | 'lognormal';
+
+/**
+ * Distribution for a single uncertain input.
+ * normal/lognormal use mean + stdDev, triangular uses min/mode/max,
+ * uniform uses min/max.
+ */
+export interface InputDistribution {
+  type: DistributionType;
+  mean?: number;
+  stdDev?: number;
+  min?: number;
+  mode?: number;
+  max?: number;
+}
+
+/**
+ * Project inputs that can be sampled in a Monte Carlo run.
+ * The multipliers scale whatever revenue line and costs the project's engine uses
+ * (line items, SaaS MRR), where the single yearly figures have no effect.
+ */
+export type MonteCarloVariable =
+  | 'yearlyRevenue'
+  | 'revenueGrowth'
+  | 'operatingCosts'
+  | 'discountRate'
+  | 'initialInvestment'
+  | 'revenueMultiplier'
+  | 'costMultiplier';
+
+export interface MonteCarloConfig {
+  iterations: number;
+  seed: number;
+  distributions: Partial<Record<MonteCarloVariable, InputDistribution>>;
+  histogramBins?: number;
+}
+
+export interface HistogramBin {
+  start: number;
+  end: number;
+  count: number;
+}
+
+export interface MonteCarloResult {
+  iterations: number;
+  seed: number;
+  npv: {
+    p10: number;
+    p50: number;
+    p90: number;
+    mean: number;
+    stdDev: number;
+  };
+  irr: {
+    p10: number;
+    p50: number;
+    p90: number;
+    mean: number;
+    undetermined?: number; // iterations without an IRR, left out of the percentiles
+  };
+  probabilityOfLoss: number; // % of iterations with NPV < 0
+  histogram: HistogramBin[];
 }
 
 /**
@@ -188,6 +1322,7 @@ export interface MetricContext {
     acceptable: number;
   };
   recommendations?: string[];
+  warnings?: string[];
 }
 
 /**